@@ -0,0 +1,16 @@
+-- Field-level conflict detection: one ConflictType per canonical variant field
+-- (plus image lists), a Diff with the field-level detail, and rule fields for
+-- the new conflict types
+alter table public."ConflictEvents" drop constraint if exists "ConflictEvents_ConflictType_check";
+alter table public."ConflictEvents" add constraint "ConflictEvents_ConflictType_check" check ("ConflictType" in (
+    'price_mismatch', 'inventory_mismatch', 'title_mismatch', 'concurrent_update',
+    'description_mismatch', 'compare_at_price_mismatch', 'sku_mismatch', 'barcode_mismatch',
+    'weight_mismatch', 'options_mismatch', 'shipping_mismatch', 'tax_mismatch', 'images_mismatch'
+));
+
+alter table public."ConflictEvents" add column if not exists "Diff" jsonb;
+
+alter table public."ConflictRules" drop constraint if exists "ConflictRules_Field_check";
+alter table public."ConflictRules" add constraint "ConflictRules_Field_check" check ("Field" in (
+    'price', 'inventory', 'title', 'description', 'identifiers', 'weight', 'options', 'shipping', 'tax', 'images', 'all'
+));
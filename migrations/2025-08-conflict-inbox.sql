@@ -0,0 +1,12 @@
+-- Conflict inbox: conflicts left for user review stay unresolved (ResolvedAt is null)
+-- until the user picks a value. Users read and resolve their own conflicts.
+create index if not exists idx_conflict_events_inbox
+    on public."ConflictEvents"("UserId", "PlatformConnectionId", "CreatedAt" desc)
+    where "ResolvedAt" is null;
+
+alter table public."ConflictEvents" enable row level security;
+
+create policy "Users can access their own conflict events" on public."ConflictEvents"
+    for all using (auth.uid() = "UserId");
+
+grant all on public."ConflictEvents" to authenticated;
@@ -0,0 +1,23 @@
+-- Conflict rules per user, optionally overridden per connection. A null
+-- PlatformConnectionId is the user's own default for that field.
+create table if not exists public."ConflictRules" (
+    "Id" uuid primary key default gen_random_uuid(),
+    "UserId" uuid not null references "Users"("Id") on delete cascade,
+    "PlatformConnectionId" uuid references "PlatformConnections"("Id") on delete cascade,
+    "Field" text not null check ("Field" in ('price', 'inventory', 'title', 'description', 'all')),
+    "Priority" text not null check ("Priority" in ('sssync_wins', 'platform_wins', 'most_recent', 'highest_value', 'user_review')),
+    "PlatformExceptions" text[] not null default '{}', -- Platform types whose value is accepted anyway (user-wide rules only)
+    "CreatedAt" timestamptz not null default now(),
+    "UpdatedAt" timestamptz not null default now(),
+    constraint conflict_rules_scope_field_key unique nulls not distinct ("UserId", "PlatformConnectionId", "Field"),
+    constraint conflict_rules_exceptions_user_wide check ("PlatformConnectionId" is null or cardinality("PlatformExceptions") = 0)
+);
+
+create index if not exists idx_conflict_rules_user on public."ConflictRules"("UserId");
+
+alter table public."ConflictRules" enable row level security;
+
+create policy "Users can access their own conflict rules" on public."ConflictRules"
+    for all using (auth.uid() = "UserId");
+
+grant all on public."ConflictRules" to authenticated;
@@ -0,0 +1,21 @@
+-- Echo suppression: what sssync last pushed through each mapping, so the webhook a
+-- platform fires for our own write can be recognized and dropped
+alter table public."PlatformProductMappings" add column if not exists "PushedState" jsonb not null default '{}';
+alter table public."PlatformProductMappings" add column if not exists "LastChangeSetId" uuid;
+
+-- Webhook deliveries already taken, keyed by the platform's event ID (or a hash of
+-- the payload when the platform sends none), so retried deliveries run once
+create table if not exists public."ProcessedWebhooks" (
+    "IdempotencyKey" text primary key, -- '<connection id>:<platform event id>'
+    "PlatformConnectionId" uuid not null references "PlatformConnections"("Id") on delete cascade,
+    "PlatformType" text not null,
+    "WebhookId" text, -- Our log correlation ID for the first delivery
+    "Status" text not null default 'processing' check ("Status" in ('processing', 'processed')),
+    "CreatedAt" timestamptz not null default now(),
+    "ProcessedAt" timestamptz
+);
+
+create index if not exists idx_processed_webhooks_created on public."ProcessedWebhooks"("CreatedAt");
+
+-- Only the API (service role) reads and writes delivery bookkeeping
+alter table public."ProcessedWebhooks" enable row level security;
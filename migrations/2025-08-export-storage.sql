@@ -0,0 +1,4 @@
+-- Private bucket for generated export files; downloads go through signed URLs
+insert into storage.buckets ("id", "name", "public")
+values ('exports', 'exports', false)
+on conflict ("id") do nothing;
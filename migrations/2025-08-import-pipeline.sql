@@ -0,0 +1,60 @@
+-- Multi-format bulk import: one ImportJobs row per uploaded file, reusable column
+-- mappings, and per-row validation results on RawImportItems
+create table if not exists public."ImportMappingProfiles" (
+    "Id" uuid primary key default gen_random_uuid(),
+    "UserId" uuid not null references "Users"("Id") on delete cascade,
+    "Name" text not null,
+    "Layout" text not null default 'generic' check ("Layout" in ('generic', 'shopify', 'square', 'clover')),
+    "ColumnMapping" jsonb not null, -- import field -> source column header(s)
+    "CreatedAt" timestamptz not null default now(),
+    "UpdatedAt" timestamptz not null default now(),
+    unique ("UserId", "Name")
+);
+
+create table if not exists public."ImportJobs" (
+    "Id" uuid primary key default gen_random_uuid(),
+    "UserId" uuid not null references "Users"("Id") on delete cascade,
+    "OriginalFilename" text,
+    "FileFormat" text not null check ("FileFormat" in ('csv', 'xlsx')),
+    "Layout" text not null check ("Layout" in ('generic', 'shopify', 'square', 'clover')),
+    "MappingProfileId" uuid references "ImportMappingProfiles"("Id") on delete set null,
+    "ColumnMapping" jsonb not null,
+    "Headers" jsonb not null default '[]'::jsonb,
+    "Status" text not null default 'validated' check ("Status" in ('validated', 'committing', 'committed', 'failed')),
+    "TotalRows" integer not null default 0,
+    "ValidRows" integer not null default 0,
+    "InvalidRows" integer not null default 0,
+    "CommittedRows" integer not null default 0,
+    "SkippedRows" integer not null default 0,
+    "Summary" jsonb,
+    "ErrorMessage" text,
+    "CommittedAt" timestamptz,
+    "CreatedAt" timestamptz not null default now(),
+    "UpdatedAt" timestamptz not null default now()
+);
+
+create index if not exists idx_importjobs_user on public."ImportJobs"("UserId", "CreatedAt" desc);
+
+-- Rows of an ImportJob share its Id as IngestJobId, so the CSV matching worker can read them too
+alter table public."RawImportItems"
+    add column if not exists "RowNumber" integer,
+    add column if not exists "Status" text not null default 'pending'
+        check ("Status" in ('pending', 'valid', 'invalid', 'committed', 'skipped')),
+    add column if not exists "ValidationErrors" jsonb not null default '[]'::jsonb,
+    add column if not exists "NormalizedData" jsonb,
+    add column if not exists "ProductVariantId" uuid references "ProductVariants"("Id") on delete set null;
+
+create index if not exists idx_rawimportitems_job_row on public."RawImportItems"("IngestJobId", "RowNumber");
+
+-- RLS policies
+alter table public."ImportMappingProfiles" enable row level security;
+alter table public."ImportJobs" enable row level security;
+
+create policy "Users can access their own import mapping profiles" on public."ImportMappingProfiles"
+    for all using (auth.uid() = "UserId");
+
+create policy "Users can access their own import jobs" on public."ImportJobs"
+    for all using (auth.uid() = "UserId");
+
+grant all on public."ImportMappingProfiles" to authenticated;
+grant all on public."ImportJobs" to authenticated;
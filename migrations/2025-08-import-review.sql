@@ -0,0 +1,237 @@
+-- Import review: applying reviewed match candidates in one transaction, with an
+-- undo log so a whole ingest job can be rolled back
+create table if not exists public."ImportCommitLog" (
+    "Id" uuid primary key default gen_random_uuid(),
+    "Seq" bigserial not null,
+    "UserId" uuid not null references "Users"("Id") on delete cascade,
+    "IngestJobId" text not null,
+    "CommitId" uuid not null,
+    "EntityType" text not null check ("EntityType" in ('variant_price', 'inventory_level', 'product_created', 'raw_item')),
+    "EntityId" uuid not null,
+    "Before" jsonb,
+    "After" jsonb,
+    "CreatedAt" timestamptz not null default now(),
+    "UndoneAt" timestamptz
+);
+
+create index if not exists idx_importcommitlog_job on public."ImportCommitLog"("UserId", "IngestJobId", "Seq");
+
+alter table public."ImportCommitLog" enable row level security;
+
+-- Written only by the functions below; undo trusts its Before values
+create policy "Users can read their own import commit log" on public."ImportCommitLog"
+    for select using (auth.uid() = "UserId");
+
+grant select on public."ImportCommitLog" to authenticated;
+
+-- Applies a reviewed import plan built by ImportReviewService. Every change checks
+-- the value shown in the preview; if anything moved since, the whole commit is
+-- rolled back with an IMPORT_PREVIEW_STALE error. Quantities go through
+-- adjust_inventory as counts, so they reach the ledger and the next push.
+create or replace function public.commit_import_review(p_user_id uuid, p_ingest_job_id text, p_plan jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_commit_id uuid := gen_random_uuid();
+    v_item jsonb;
+    v_level public."InventoryLevels"%rowtype;
+    v_product_id uuid;
+    v_variant_id uuid;
+    v_connection_id text;
+    v_prices int := 0;
+    v_quantities int := 0;
+    v_created int := 0;
+    v_inventory_variant_ids uuid[] := '{}';
+    v_price_product_ids uuid[] := '{}';
+begin
+    for v_item in select * from jsonb_array_elements(coalesce(p_plan->'priceUpdates', '[]'::jsonb)) loop
+        update public."ProductVariants"
+           set "Price" = (v_item->>'to')::numeric, "UpdatedAt" = now()
+         where "Id" = (v_item->>'variantId')::uuid
+           and "UserId" = p_user_id
+           and "Price" = (v_item->>'from')::numeric
+        returning "ProductId" into v_product_id;
+        if not found then
+            raise exception 'IMPORT_PREVIEW_STALE: price of variant % changed since the preview', v_item->>'variantId';
+        end if;
+        insert into public."ImportCommitLog" ("UserId", "IngestJobId", "CommitId", "EntityType", "EntityId", "Before", "After")
+        values (p_user_id, p_ingest_job_id, v_commit_id, 'variant_price', (v_item->>'variantId')::uuid,
+                jsonb_build_object('price', v_item->'from'), jsonb_build_object('price', v_item->'to'));
+        v_prices := v_prices + 1;
+        v_price_product_ids := array_append(v_price_product_ids, v_product_id);
+    end loop;
+
+    for v_item in select * from jsonb_array_elements(coalesce(p_plan->'quantityUpdates', '[]'::jsonb)) loop
+        select il.* into v_level
+          from public."InventoryLevels" il
+          join public."ProductVariants" v on v."Id" = il."ProductVariantId"
+         where il."Id" = (v_item->>'levelId')::uuid
+           and v."UserId" = p_user_id
+           for update of il;
+        if not found or v_level."Quantity" <> (v_item->>'from')::int then
+            raise exception 'IMPORT_PREVIEW_STALE: inventory level % changed since the preview', v_item->>'levelId';
+        end if;
+        perform public.adjust_inventory(
+            v_level."ProductVariantId", v_level."PlatformConnectionId", v_level."PlatformLocationId",
+            null, (v_item->>'to')::int, 'recount', p_user_id, p_ingest_job_id, 'Import review');
+        v_variant_id := v_level."ProductVariantId";
+        insert into public."ImportCommitLog" ("UserId", "IngestJobId", "CommitId", "EntityType", "EntityId", "Before", "After")
+        values (p_user_id, p_ingest_job_id, v_commit_id, 'inventory_level', (v_item->>'levelId')::uuid,
+                jsonb_build_object('quantity', v_item->'from'), jsonb_build_object('quantity', v_item->'to'));
+        v_quantities := v_quantities + 1;
+        v_inventory_variant_ids := array_append(v_inventory_variant_ids, v_variant_id);
+    end loop;
+
+    for v_item in select * from jsonb_array_elements(coalesce(p_plan->'creates', '[]'::jsonb)) loop
+        insert into public."Products" ("UserId", "IsArchived")
+        values (p_user_id, false)
+        returning "Id" into v_product_id;
+
+        insert into public."ProductVariants" ("ProductId", "UserId", "Sku", "Barcode", "Title", "Description", "Price", "RequiresShipping", "IsTaxable")
+        values (v_product_id, p_user_id, v_item->>'sku', v_item->>'barcode', v_item->>'title', v_item->>'description',
+                (v_item->>'price')::numeric, true, true)
+        returning "Id" into v_variant_id;
+
+        if v_item->>'quantity' is not null then
+            for v_connection_id in select * from jsonb_array_elements_text(coalesce(v_item->'connectionIds', '[]'::jsonb)) loop
+                -- Creates the level and records the imported count as its opening balance
+                perform public.adjust_inventory(
+                    v_variant_id, v_connection_id::uuid, null,
+                    null, (v_item->>'quantity')::int, 'recount', p_user_id, p_ingest_job_id, 'Import review');
+            end loop;
+        end if;
+
+        insert into public."ImportCommitLog" ("UserId", "IngestJobId", "CommitId", "EntityType", "EntityId", "Before", "After")
+        values (p_user_id, p_ingest_job_id, v_commit_id, 'product_created', v_product_id, null,
+                jsonb_build_object('variantId', v_variant_id, 'rawItemId', v_item->>'rawItemId'));
+        v_created := v_created + 1;
+
+        p_plan := jsonb_set(p_plan, '{rawItems}', coalesce(p_plan->'rawItems', '[]'::jsonb)
+            || jsonb_build_array(jsonb_build_object('rawItemId', v_item->>'rawItemId', 'variantId', v_variant_id)));
+    end loop;
+
+    for v_item in select * from jsonb_array_elements(coalesce(p_plan->'rawItems', '[]'::jsonb)) loop
+        insert into public."ImportCommitLog" ("UserId", "IngestJobId", "CommitId", "EntityType", "EntityId", "Before", "After")
+        select p_user_id, p_ingest_job_id, v_commit_id, 'raw_item', r."Id",
+               jsonb_build_object('status', r."Status", 'variantId', r."ProductVariantId"),
+               jsonb_build_object('status', coalesce(v_item->>'status', 'committed'), 'variantId', v_item->'variantId')
+          from public."RawImportItems" r
+         where r."Id" = (v_item->>'rawItemId')::uuid and r."UserId" = p_user_id;
+
+        update public."RawImportItems"
+           set "Status" = coalesce(v_item->>'status', 'committed'), "ProductVariantId" = nullif(v_item->>'variantId', '')::uuid
+         where "Id" = (v_item->>'rawItemId')::uuid and "UserId" = p_user_id;
+    end loop;
+
+    return jsonb_build_object(
+        'commitId', v_commit_id,
+        'pricesUpdated', v_prices,
+        'quantitiesUpdated', v_quantities,
+        'productsCreated', v_created,
+        'inventoryVariantIds', to_jsonb(v_inventory_variant_ids),
+        'priceProductIds', to_jsonb(v_price_product_ids)
+    );
+end;
+$$;
+
+-- Reverts every commit of an ingest job, newest change first. Values edited
+-- since the commit, and created products already mapped to a platform, are left
+-- alone and reported as conflicts.
+create or replace function public.undo_import_review(p_user_id uuid, p_ingest_job_id text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_entry record;
+    v_level public."InventoryLevels"%rowtype;
+    v_ok boolean;
+    v_restored int := 0;
+    v_conflicts jsonb := '[]'::jsonb;
+    v_product_id uuid;
+    v_inventory_variant_ids uuid[] := '{}';
+    v_price_product_ids uuid[] := '{}';
+begin
+    for v_entry in
+        select * from public."ImportCommitLog"
+         where "UserId" = p_user_id and "IngestJobId" = p_ingest_job_id and "UndoneAt" is null
+         order by "Seq" desc
+    loop
+        v_ok := true;
+        if v_entry."EntityType" = 'variant_price' then
+            update public."ProductVariants"
+               set "Price" = (v_entry."Before"->>'price')::numeric, "UpdatedAt" = now()
+             where "Id" = v_entry."EntityId" and "UserId" = p_user_id
+               and "Price" = (v_entry."After"->>'price')::numeric
+            returning "ProductId" into v_product_id;
+            v_ok := found;
+            if v_ok then
+                v_price_product_ids := array_append(v_price_product_ids, v_product_id);
+            end if;
+        elsif v_entry."EntityType" = 'inventory_level' then
+            select il.* into v_level
+              from public."InventoryLevels" il
+              join public."ProductVariants" v on v."Id" = il."ProductVariantId"
+             where il."Id" = v_entry."EntityId"
+               and v."UserId" = p_user_id
+               for update of il;
+            v_ok := found and v_level."Quantity" = (v_entry."After"->>'quantity')::int;
+            if v_ok then
+                perform public.adjust_inventory(
+                    v_level."ProductVariantId", v_level."PlatformConnectionId", v_level."PlatformLocationId",
+                    null, (v_entry."Before"->>'quantity')::int, 'recount', p_user_id, p_ingest_job_id, 'Import undone');
+                v_inventory_variant_ids := array_append(v_inventory_variant_ids, v_level."ProductVariantId");
+            end if;
+        elsif v_entry."EntityType" = 'product_created' then
+            v_ok := not exists (
+                select 1 from public."PlatformProductMappings" m
+                  join public."ProductVariants" v on v."Id" = m."ProductVariantId"
+                 where v."ProductId" = v_entry."EntityId"
+            );
+            if v_ok then
+                delete from public."InventoryLevels"
+                 where "ProductVariantId" in (select "Id" from public."ProductVariants" where "ProductId" = v_entry."EntityId");
+                delete from public."ProductImages"
+                 where "ProductVariantId" in (select "Id" from public."ProductVariants" where "ProductId" = v_entry."EntityId");
+                delete from public."ProductVariants" where "ProductId" = v_entry."EntityId" and "UserId" = p_user_id;
+                delete from public."Products" where "Id" = v_entry."EntityId" and "UserId" = p_user_id;
+            end if;
+        elsif v_entry."EntityType" = 'raw_item' then
+            update public."RawImportItems"
+               set "Status" = v_entry."Before"->>'status',
+                   "ProductVariantId" = nullif(v_entry."Before"->>'variantId', '')::uuid
+             where "Id" = v_entry."EntityId" and "UserId" = p_user_id;
+        end if;
+
+        if v_ok then
+            v_restored := v_restored + 1;
+        else
+            v_conflicts := v_conflicts || jsonb_build_object(
+                'entityType', v_entry."EntityType",
+                'entityId', v_entry."EntityId",
+                'reason', case when v_entry."EntityType" = 'product_created'
+                               then 'Product is already linked to a platform'
+                               else 'Value changed after the import' end);
+        end if;
+
+        -- Conflicting entries are closed too; the user resolves them by hand
+        update public."ImportCommitLog" set "UndoneAt" = now() where "Id" = v_entry."Id";
+    end loop;
+
+    return jsonb_build_object(
+        'restored', v_restored,
+        'conflicts', v_conflicts,
+        'inventoryVariantIds', to_jsonb(v_inventory_variant_ids),
+        'priceProductIds', to_jsonb(v_price_product_ids)
+    );
+end;
+$$;
+
+revoke execute on function public.commit_import_review(uuid, text, jsonb) from public, anon, authenticated;
+revoke execute on function public.undo_import_review(uuid, text) from public, anon, authenticated;
+grant execute on function public.commit_import_review(uuid, text, jsonb) to service_role;
+grant execute on function public.undo_import_review(uuid, text) to service_role;
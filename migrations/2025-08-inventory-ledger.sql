@@ -0,0 +1,296 @@
+-- Inventory ledger: every stock change as a signed delta with a reason code. An
+-- InventoryLevels row's Quantity is the running total of its ledger entries, kept
+-- up to date by adjust_inventory, which locks the level, appends the entry and
+-- sets Quantity in one transaction. Two sales landing at once therefore both
+-- count instead of the last write winning.
+--
+-- Writes that bypass adjust_inventory (initial sync, imports) are folded in as a
+-- 'recount' entry the next time the level is adjusted, so the running total of
+-- a level's entries always ends at its Quantity.
+create table if not exists public."InventoryLedger" (
+    "Id" bigserial primary key,
+    "UserId" uuid not null references "Users"("Id") on delete cascade,
+    "InventoryLevelId" uuid not null, -- No FK: the history outlives a removed level
+    "ProductVariantId" uuid not null references "ProductVariants"("Id") on delete cascade,
+    "PlatformConnectionId" uuid not null,
+    "PlatformLocationId" text,
+    "Delta" integer not null,
+    "RequestedDelta" integer, -- Set when stock ran out: the change asked for, of which Delta was applied
+    "QuantityAfter" integer not null,
+    "Reason" text not null check ("Reason" in ('sale', 'return', 'damage', 'recount', 'transfer', 'marketplace_reservation')),
+    "ReferenceId" text, -- Order, transfer or reservation the change belongs to
+    "Note" text,
+    "ChangeSource" text not null default 'system', -- From the change source header, as on ProductRevisions
+    "SourceConnectionId" uuid, -- Connection the change came in through; that platform already has it
+    "CreatedAt" timestamptz not null default now()
+);
+
+create index if not exists idx_inventory_ledger_level on public."InventoryLedger"("InventoryLevelId", "Id");
+create index if not exists idx_inventory_ledger_variant on public."InventoryLedger"("ProductVariantId", "Id" desc);
+create index if not exists idx_inventory_ledger_user on public."InventoryLedger"("UserId", "CreatedAt" desc);
+
+alter table public."InventoryLedger" enable row level security;
+
+create policy "Users can read their own inventory ledger" on public."InventoryLedger"
+    for select using (auth.uid() = "UserId");
+
+grant select on public."InventoryLedger" to authenticated;
+
+-- Append-only: entries are never changed, and only go when their variant or user does
+create or replace function public.prevent_inventory_ledger_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+    if tg_op = 'UPDATE' or pg_trigger_depth() < 2 then
+        raise exception 'InventoryLedger is append-only';
+    end if;
+    return old;
+end;
+$$;
+
+drop trigger if exists inventory_ledger_append_only on public."InventoryLedger";
+create trigger inventory_ledger_append_only
+    before update or delete on public."InventoryLedger"
+    for each row execute function public.prevent_inventory_ledger_changes();
+
+-- How far each level's ledger has been pushed to its platform. Kept apart from
+-- InventoryLevels so push bookkeeping does not show up as product revisions.
+create table if not exists public."InventoryPushState" (
+    "InventoryLevelId" uuid primary key references "InventoryLevels"("Id") on delete cascade,
+    "PushedLedgerId" bigint not null default 0,
+    "ResyncRequired" boolean not null default true, -- Next push sends the absolute quantity
+    "UpdatedAt" timestamptz not null default now()
+);
+
+alter table public."InventoryPushState" enable row level security;
+
+-- Applies one stock change: p_delta, or p_set_quantity for a count. The level is
+-- created at 0 if the variant has none at that connection and location. Stock
+-- does not go below zero unless p_allow_negative; the entry's Delta is the change
+-- actually applied and RequestedDelta the one asked for, so an oversell stays in
+-- the ledger even when the level was already at zero. Nothing is recorded when
+-- the quantity neither changes nor was meant to.
+-- Returns { levelId, ledgerId, delta, requestedDelta, quantityBefore, quantityAfter, level }.
+create or replace function public.adjust_inventory(
+    p_variant_id uuid,
+    p_connection_id uuid,
+    p_location_id text,
+    p_delta integer,
+    p_set_quantity integer,
+    p_reason text,
+    p_user_id uuid default null, -- When given, the variant must belong to this user
+    p_reference_id text default null,
+    p_note text default null,
+    p_source_connection_id uuid default null,
+    p_allow_negative boolean default false,
+    p_platform_updated_at timestamptz default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_user_id uuid;
+    v_level public."InventoryLevels"%rowtype;
+    v_last_quantity integer;
+    v_before integer;
+    v_requested integer;
+    v_after integer;
+    v_ledger_id bigint;
+    v_headers json;
+    v_source text := 'system';
+begin
+    if (p_delta is null) = (p_set_quantity is null) then
+        raise exception 'Give exactly one of p_delta and p_set_quantity' using errcode = '22023';
+    end if;
+
+    select "UserId" into v_user_id from public."ProductVariants" where "Id" = p_variant_id;
+    if v_user_id is null or (p_user_id is not null and v_user_id <> p_user_id) then
+        raise exception 'Variant % not found', p_variant_id using errcode = 'P0002';
+    end if;
+    if p_user_id is not null and not exists (
+        select 1 from public."PlatformConnections" where "Id" = p_connection_id and "UserId" = p_user_id
+    ) then
+        raise exception 'Connection % not found', p_connection_id using errcode = 'P0002';
+    end if;
+
+    begin
+        v_headers := nullif(current_setting('request.headers', true), '')::json;
+        if v_headers->>'x-sssync-change-source' in ('user', 'webhook', 'ai', 'import', 'sync', 'restore') then
+            v_source := v_headers->>'x-sssync-change-source';
+        end if;
+    exception when others then
+        v_headers := null;
+    end;
+
+    select * into v_level from public."InventoryLevels"
+     where "ProductVariantId" = p_variant_id
+       and "PlatformConnectionId" = p_connection_id
+       and "PlatformLocationId" is not distinct from p_location_id
+     for update;
+    if not found then
+        insert into public."InventoryLevels" ("ProductVariantId", "PlatformConnectionId", "PlatformLocationId", "Quantity")
+        values (p_variant_id, p_connection_id, p_location_id, 0)
+        returning * into v_level;
+    end if;
+    v_before := v_level."Quantity";
+
+    -- Fold in any change made without going through the ledger
+    select "QuantityAfter" into v_last_quantity from public."InventoryLedger"
+     where "InventoryLevelId" = v_level."Id" order by "Id" desc limit 1;
+    if coalesce(v_last_quantity, 0) <> v_before then
+        insert into public."InventoryLedger"
+            ("UserId", "InventoryLevelId", "ProductVariantId", "PlatformConnectionId", "PlatformLocationId",
+             "Delta", "QuantityAfter", "Reason", "Note", "ChangeSource")
+        values (v_user_id, v_level."Id", p_variant_id, p_connection_id, p_location_id,
+             v_before - coalesce(v_last_quantity, 0), v_before, 'recount',
+             case when v_last_quantity is null then 'Opening balance' else 'Change made outside the ledger' end, 'system');
+    end if;
+
+    v_requested := coalesce(p_set_quantity, v_before + p_delta);
+    v_after := v_requested;
+    if v_after < 0 and not p_allow_negative then
+        v_after := 0;
+    end if;
+
+    if v_after <> v_before then
+        update public."InventoryLevels"
+           set "Quantity" = v_after,
+               "UpdatedAt" = now(),
+               "LastPlatformUpdateAt" = coalesce(p_platform_updated_at, "LastPlatformUpdateAt")
+         where "Id" = v_level."Id"
+        returning * into v_level;
+    elsif p_platform_updated_at is not null then
+        update public."InventoryLevels"
+           set "LastPlatformUpdateAt" = p_platform_updated_at
+         where "Id" = v_level."Id"
+        returning * into v_level;
+    end if;
+
+    if v_after <> v_before or v_requested <> v_after then
+        insert into public."InventoryLedger"
+            ("UserId", "InventoryLevelId", "ProductVariantId", "PlatformConnectionId", "PlatformLocationId",
+             "Delta", "RequestedDelta", "QuantityAfter", "Reason", "ReferenceId", "Note", "ChangeSource", "SourceConnectionId")
+        values (v_user_id, v_level."Id", p_variant_id, p_connection_id, p_location_id,
+             v_after - v_before, case when v_requested <> v_after then v_requested - v_before end, v_after,
+             p_reason, p_reference_id, p_note, v_source, p_source_connection_id)
+        returning "Id" into v_ledger_id;
+    end if;
+
+    return jsonb_build_object(
+        'levelId', v_level."Id",
+        'ledgerId', v_ledger_id,
+        'delta', v_after - v_before,
+        'requestedDelta', v_requested - v_before,
+        'quantityBefore', v_before,
+        'quantityAfter', v_after,
+        'level', to_jsonb(v_level)
+    );
+end;
+$$;
+
+-- adjust_inventory for each element of p_adjustments, in order. Each element is
+-- { variantId, connectionId, locationId, delta | quantity, reason, referenceId,
+-- note, sourceConnectionId }; one that fails returns { error } without undoing
+-- the others.
+create or replace function public.adjust_inventory_batch(p_user_id uuid, p_adjustments jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_item jsonb;
+    v_results jsonb := '[]'::jsonb;
+begin
+    for v_item in select * from jsonb_array_elements(p_adjustments) loop
+        begin
+            v_results := v_results || jsonb_build_array(public.adjust_inventory(
+                (v_item->>'variantId')::uuid,
+                (v_item->>'connectionId')::uuid,
+                v_item->>'locationId',
+                (v_item->>'delta')::integer,
+                (v_item->>'quantity')::integer,
+                v_item->>'reason',
+                p_user_id,
+                v_item->>'referenceId',
+                v_item->>'note',
+                (v_item->>'sourceConnectionId')::uuid
+            ));
+        exception when others then
+            v_results := v_results || jsonb_build_array(jsonb_build_object('error', sqlerrm));
+        end;
+    end loop;
+    return v_results;
+end;
+$$;
+
+-- Claims the ledger entries of each level not yet pushed to its platform and
+-- returns what to push: the sum of their deltas, or requiresSet when only the
+-- absolute quantity will do (a count, a failed or unknown earlier push). Entries
+-- that came in through the level's own connection are skipped; that platform
+-- made them. reason is set when all claimed entries share one.
+create or replace function public.claim_inventory_push(p_level_ids uuid[])
+returns table ("levelId" uuid, "delta" integer, "requiresSet" boolean, "reason" text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_level_id uuid;
+    v_state public."InventoryPushState"%rowtype;
+    v_connection_id uuid;
+    v_max_id bigint;
+begin
+    foreach v_level_id in array p_level_ids loop
+        select "PlatformConnectionId" into v_connection_id from public."InventoryLevels" where "Id" = v_level_id;
+        continue when v_connection_id is null;
+
+        insert into public."InventoryPushState" ("InventoryLevelId") values (v_level_id) on conflict do nothing;
+        select * into v_state from public."InventoryPushState" where "InventoryLevelId" = v_level_id for update;
+
+        select max(l."Id"),
+               coalesce(sum(l."Delta") filter (where l."SourceConnectionId" is distinct from v_connection_id), 0),
+               coalesce(bool_or(l."Reason" = 'recount') filter (where l."SourceConnectionId" is distinct from v_connection_id), false),
+               case when count(distinct l."Reason") filter (where l."SourceConnectionId" is distinct from v_connection_id) = 1
+                    then min(l."Reason") filter (where l."SourceConnectionId" is distinct from v_connection_id) end
+          into v_max_id, "delta", "requiresSet", "reason"
+          from public."InventoryLedger" l
+         where l."InventoryLevelId" = v_level_id and l."Id" > v_state."PushedLedgerId";
+
+        "levelId" := v_level_id;
+        "requiresSet" := "requiresSet" or v_state."ResyncRequired";
+        update public."InventoryPushState"
+           set "PushedLedgerId" = greatest(v_state."PushedLedgerId", coalesce(v_max_id, 0)),
+               "ResyncRequired" = false,
+               "UpdatedAt" = now()
+         where "InventoryLevelId" = v_level_id;
+        return next;
+    end loop;
+end;
+$$;
+
+-- After a failed push, or one that did not send the ledger's quantity as is
+-- (units held back), the next push of these levels sends the absolute quantity
+create or replace function public.require_inventory_resync(p_level_ids uuid[])
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+    insert into public."InventoryPushState" ("InventoryLevelId", "ResyncRequired")
+    select id, true from unnest(p_level_ids) as id
+     where exists (select 1 from public."InventoryLevels" where "Id" = id)
+    on conflict ("InventoryLevelId") do update set "ResyncRequired" = true, "UpdatedAt" = now();
+$$;
+
+revoke execute on function public.adjust_inventory(uuid, uuid, text, integer, integer, text, uuid, text, text, uuid, boolean, timestamptz) from public, anon, authenticated;
+revoke execute on function public.adjust_inventory_batch(uuid, jsonb) from public, anon, authenticated;
+revoke execute on function public.claim_inventory_push(uuid[]) from public, anon, authenticated;
+revoke execute on function public.require_inventory_resync(uuid[]) from public, anon, authenticated;
+grant execute on function public.adjust_inventory(uuid, uuid, text, integer, integer, text, uuid, text, text, uuid, boolean, timestamptz) to service_role;
+grant execute on function public.adjust_inventory_batch(uuid, jsonb) to service_role;
+grant execute on function public.claim_inventory_push(uuid[]) to service_role;
+grant execute on function public.require_inventory_resync(uuid[]) to service_role;
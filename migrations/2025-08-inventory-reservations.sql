@@ -0,0 +1,33 @@
+-- Inventory held back from other channels while it is scheduled in a live show (e.g. Whatnot)
+create table if not exists public."InventoryReservations" (
+    "Id" uuid primary key default gen_random_uuid(),
+    "UserId" uuid not null references "Users"("Id") on delete cascade,
+    "ProductVariantId" uuid not null references "ProductVariants"("Id") on delete cascade,
+    "PlatformConnectionId" uuid not null references "PlatformConnections"("Id") on delete cascade,
+    "Source" text not null default 'whatnot_show' check ("Source" in ('whatnot_show')),
+    "SourceReference" text not null, -- Show (livestream) ID on the platform
+    "PlatformListingId" text,
+    "Quantity" integer not null check ("Quantity" > 0),
+    "QuantitySold" integer not null default 0 check ("QuantitySold" >= 0),
+    "Status" text not null default 'active' check ("Status" in ('active', 'released', 'consumed', 'partially_consumed')),
+    "StartsAt" timestamptz,
+    "EndsAt" timestamptz,
+    "CompletedAt" timestamptz,
+    "CreatedAt" timestamptz not null default now(),
+    "UpdatedAt" timestamptz not null default now()
+);
+
+create index if not exists idx_inventoryreservations_user on public."InventoryReservations"("UserId");
+create index if not exists idx_inventoryreservations_variant_status on public."InventoryReservations"("ProductVariantId", "Status");
+create index if not exists idx_inventoryreservations_source on public."InventoryReservations"("PlatformConnectionId", "SourceReference");
+create unique index if not exists uq_inventoryreservations_active_variant
+    on public."InventoryReservations"("PlatformConnectionId", "SourceReference", "ProductVariantId")
+    where "Status" = 'active';
+
+-- RLS policies
+alter table public."InventoryReservations" enable row level security;
+
+create policy "Users can access their own inventory reservations" on public."InventoryReservations"
+    for all using (auth.uid() = "UserId");
+
+grant all on public."InventoryReservations" to authenticated;
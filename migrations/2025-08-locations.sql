@@ -0,0 +1,118 @@
+-- Canonical sssync locations. Each user keeps their own list of places stock is
+-- held ("Warehouse A", "Shop"), and maps every platform's locations onto it, so
+-- the Shopify and Square records of the same shop are the same stock.
+create table if not exists public."Locations" (
+    "Id" uuid primary key default gen_random_uuid(),
+    "UserId" uuid not null references "Users"("Id") on delete cascade,
+    "Name" text not null,
+    "Address" jsonb,
+    "IsActive" boolean not null default true,
+    "CreatedAt" timestamptz not null default now(),
+    "UpdatedAt" timestamptz not null default now(),
+    unique ("UserId", "Name")
+);
+
+create index if not exists idx_locations_user on public."Locations"("UserId");
+
+-- One platform location per canonical location and connection, and each
+-- platform location belongs to at most one canonical location
+create table if not exists public."LocationMappings" (
+    "Id" uuid primary key default gen_random_uuid(),
+    "UserId" uuid not null references "Users"("Id") on delete cascade,
+    "LocationId" uuid not null references "Locations"("Id") on delete cascade,
+    "PlatformConnectionId" uuid not null references "PlatformConnections"("Id") on delete cascade,
+    "PlatformLocationId" text not null,
+    "PlatformLocationName" text,
+    "CreatedAt" timestamptz not null default now(),
+    unique ("PlatformConnectionId", "PlatformLocationId"),
+    unique ("LocationId", "PlatformConnectionId")
+);
+
+create index if not exists idx_locationmappings_location on public."LocationMappings"("LocationId");
+
+-- Which canonical locations a channel sells from. A connection without rules
+-- sells its own stock as before; with rules, it is offered the stock of its
+-- enabled locations, less each rule's buffer.
+create table if not exists public."LocationAllocationRules" (
+    "Id" uuid primary key default gen_random_uuid(),
+    "UserId" uuid not null references "Users"("Id") on delete cascade,
+    "PlatformConnectionId" uuid not null references "PlatformConnections"("Id") on delete cascade,
+    "LocationId" uuid not null references "Locations"("Id") on delete cascade,
+    "IsEnabled" boolean not null default true,
+    "BufferQuantity" integer not null default 0 check ("BufferQuantity" >= 0), -- Units kept back from this channel
+    "CreatedAt" timestamptz not null default now(),
+    "UpdatedAt" timestamptz not null default now(),
+    unique ("PlatformConnectionId", "LocationId")
+);
+
+create index if not exists idx_locationallocationrules_user on public."LocationAllocationRules"("UserId");
+
+alter table public."Locations" enable row level security;
+alter table public."LocationMappings" enable row level security;
+alter table public."LocationAllocationRules" enable row level security;
+
+create policy "Users can access their own locations" on public."Locations"
+    for all using (auth.uid() = "UserId");
+create policy "Users can access their own location mappings" on public."LocationMappings"
+    for all using (auth.uid() = "UserId");
+create policy "Users can access their own location allocation rules" on public."LocationAllocationRules"
+    for all using (auth.uid() = "UserId");
+
+grant all on public."Locations" to authenticated;
+grant all on public."LocationMappings" to authenticated;
+grant all on public."LocationAllocationRules" to authenticated;
+
+-- The canonical location an inventory level holds stock for, from its platform location
+alter table public."InventoryLevels"
+    add column if not exists "LocationId" uuid references public."Locations"("Id") on delete set null;
+
+create index if not exists idx_inventorylevels_variant_location
+    on public."InventoryLevels"("ProductVariantId", "LocationId") where "LocationId" is not null;
+
+create or replace function public.set_inventory_level_location()
+returns trigger
+language plpgsql
+as $$
+begin
+    select m."LocationId" into new."LocationId"
+      from public."LocationMappings" m
+     where m."PlatformConnectionId" = new."PlatformConnectionId"
+       and m."PlatformLocationId" = new."PlatformLocationId";
+    return new;
+end;
+$$;
+
+drop trigger if exists inventory_levels_set_location on public."InventoryLevels";
+create trigger inventory_levels_set_location
+    before insert or update of "PlatformConnectionId", "PlatformLocationId" on public."InventoryLevels"
+    for each row execute function public.set_inventory_level_location();
+
+-- Keeps the levels of a mapped platform location pointing at its canonical location
+create or replace function public.sync_location_mapping_levels()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if tg_op in ('UPDATE', 'DELETE') then
+        update public."InventoryLevels"
+           set "LocationId" = null
+         where "PlatformConnectionId" = old."PlatformConnectionId"
+           and "PlatformLocationId" = old."PlatformLocationId"
+           and "LocationId" is not distinct from old."LocationId";
+    end if;
+    if tg_op in ('INSERT', 'UPDATE') then
+        update public."InventoryLevels"
+           set "LocationId" = new."LocationId"
+         where "PlatformConnectionId" = new."PlatformConnectionId"
+           and "PlatformLocationId" = new."PlatformLocationId";
+    end if;
+    return null;
+end;
+$$;
+
+drop trigger if exists location_mappings_sync_levels on public."LocationMappings";
+create trigger location_mappings_sync_levels
+    after insert or update or delete on public."LocationMappings"
+    for each row execute function public.sync_location_mapping_levels();
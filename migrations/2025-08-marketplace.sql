@@ -0,0 +1,29 @@
+-- Inter-seller marketplace: listings are browsable by every seller, and marketplace
+-- orders are not tied to a platform connection
+alter table public."Orders" alter column "PlatformConnectionId" drop not null;
+
+create index if not exists idx_orders_marketplace_seller
+    on public."Orders"("MarketplaceSellerUserId", "OrderDate" desc)
+    where "IsMarketplaceOrder" = true;
+create index if not exists idx_marketplacelistings_enabled
+    on public."MarketplaceListings"("IsEnabled", "AvailableQuantity");
+
+-- RLS policies
+alter table public."MarketplaceListings" enable row level security;
+
+create policy "Users can manage their own marketplace listings" on public."MarketplaceListings"
+    for all using (auth.uid() = "SellerUserId");
+
+create policy "Users can browse enabled marketplace listings" on public."MarketplaceListings"
+    for select using ("IsEnabled" = true);
+
+create policy "Sellers can view their marketplace orders" on public."Orders"
+    for select using ("IsMarketplaceOrder" = true and auth.uid() = "MarketplaceSellerUserId");
+
+create policy "Sellers can view their marketplace order items" on public."OrderItems"
+    for select using (exists (
+        select 1 from public."Orders" o
+        where o."Id" = "OrderItems"."OrderId" and o."IsMarketplaceOrder" = true and o."MarketplaceSellerUserId" = auth.uid()
+    ));
+
+grant all on public."MarketplaceListings" to authenticated;
@@ -0,0 +1,32 @@
+-- Recognize → match → generate sessions of the product orchestrator. They used to
+-- live in process memory, so a deploy or a second instance lost them mid-flow;
+-- stored here, a session can be picked up again on another device.
+create table if not exists public."OrchestratorSessions" (
+    "Id" text primary key, -- orch_<timestamp>_<random>, as returned by the recognize stage
+    "UserId" uuid not null references "Users"("Id") on delete cascade,
+    "CurrentStage" text not null default 'recognize'
+        check ("CurrentStage" in ('recognize', 'match', 'generate', 'completed')), -- Last completed stage
+    "Metadata" jsonb not null default '{}'::jsonb, -- mode, totalSources, targetSites
+    "RecognizeData" jsonb,
+    "MatchData" jsonb,
+    "GenerateData" jsonb, -- Written after every source while generating, so a retry skips what was stored
+    "PendingStage" text check ("PendingStage" in ('match', 'generate')), -- Started and not yet completed
+    "StageInputs" jsonb not null default '{}'::jsonb, -- Input of each stage as last requested, for resuming
+    "StageStartedAt" timestamptz,
+    "LastError" text, -- Why the pending stage failed
+    "ExpiresAt" timestamptz not null,
+    "CreatedAt" timestamptz not null default now(),
+    "UpdatedAt" timestamptz not null default now()
+);
+
+create index if not exists idx_orchestratorsessions_user_updated
+    on public."OrchestratorSessions"("UserId", "UpdatedAt" desc);
+create index if not exists idx_orchestratorsessions_expires
+    on public."OrchestratorSessions"("ExpiresAt");
+
+alter table public."OrchestratorSessions" enable row level security;
+
+create policy "Users can access their own orchestrator sessions" on public."OrchestratorSessions"
+    for all using (auth.uid() = "UserId");
+
+grant all on public."OrchestratorSessions" to authenticated;
@@ -0,0 +1,22 @@
+-- Order ingestion: one row per platform order, plus bookkeeping so a sale only decrements inventory once
+alter table public."Orders" add column if not exists "PlatformSpecificData" jsonb not null default '{}';
+alter table public."Orders" add column if not exists "InventoryAppliedAt" timestamptz;
+
+create unique index if not exists uq_orders_connection_platformorder
+    on public."Orders"("PlatformConnectionId", "PlatformOrderId");
+create index if not exists idx_orders_user_orderdate on public."Orders"("UserId", "OrderDate" desc);
+
+-- RLS policies
+alter table public."Orders" enable row level security;
+alter table public."OrderItems" enable row level security;
+
+create policy "Users can access their own orders" on public."Orders"
+    for all using (auth.uid() = "UserId");
+
+create policy "Users can access their own order items" on public."OrderItems"
+    for all using (exists (
+        select 1 from public."Orders" o where o."Id" = "OrderItems"."OrderId" and o."UserId" = auth.uid()
+    ));
+
+grant all on public."Orders" to authenticated;
+grant all on public."OrderItems" to authenticated;
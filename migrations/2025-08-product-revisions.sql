@@ -0,0 +1,261 @@
+-- Product revision history: every insert, update and delete on Products,
+-- ProductVariants, ProductImages and InventoryLevels is recorded by trigger, with
+-- the source the API sent in the x-sssync-change-source header (see
+-- src/common/change-source.context.ts). Revision numbers are global and only
+-- increase, so "the product as of revision N" is every entity's latest revision <= N.
+create table if not exists public."ProductRevisions" (
+    "Revision" bigserial primary key,
+    "UserId" uuid not null references "Users"("Id") on delete cascade,
+    "ProductId" uuid not null, -- No FK: history outlives the product
+    "EntityType" text not null check ("EntityType" in ('product', 'variant', 'image', 'inventory_level')),
+    "EntityId" uuid not null,
+    "Operation" text not null check ("Operation" in ('insert', 'update', 'delete')),
+    "Changes" jsonb, -- { column: { from, to } } for updates
+    "Before" jsonb,
+    "After" jsonb,
+    "Source" text not null default 'system' check ("Source" in ('user', 'webhook', 'ai', 'import', 'sync', 'restore', 'system')),
+    "SourceDetail" text, -- e.g. the platform type or import job ID
+    "CreatedAt" timestamptz not null default now()
+);
+
+create index if not exists idx_product_revisions_product on public."ProductRevisions"("ProductId", "Revision" desc);
+create index if not exists idx_product_revisions_entity on public."ProductRevisions"("EntityId", "Revision" desc);
+
+alter table public."ProductRevisions" enable row level security;
+
+create policy "Users can read their own product revisions" on public."ProductRevisions"
+    for select using (auth.uid() = "UserId");
+
+grant select on public."ProductRevisions" to authenticated;
+
+-- Security definer so the history is written whichever client made the change
+create or replace function public.record_product_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_old jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+    v_new jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+    v_row jsonb := coalesce(v_new, v_old);
+    v_changes jsonb := '{}'::jsonb;
+    v_key text;
+    v_entity_type text;
+    v_product_id uuid;
+    v_user_id uuid;
+    v_headers json;
+begin
+    if tg_table_name = 'Products' then
+        v_entity_type := 'product';
+        v_product_id := (v_row->>'Id')::uuid;
+        v_user_id := (v_row->>'UserId')::uuid;
+    elsif tg_table_name = 'ProductVariants' then
+        v_entity_type := 'variant';
+        v_product_id := (v_row->>'ProductId')::uuid;
+        v_user_id := (v_row->>'UserId')::uuid;
+    else
+        v_entity_type := case when tg_table_name = 'ProductImages' then 'image' else 'inventory_level' end;
+        select "ProductId", "UserId" into v_product_id, v_user_id
+          from public."ProductVariants" where "Id" = (v_row->>'ProductVariantId')::uuid;
+        if v_product_id is null then
+            return null; -- Variant deleted in the same statement; its own revision covers it
+        end if;
+    end if;
+
+    if tg_op = 'UPDATE' then
+        for v_key in select jsonb_object_keys(v_new) loop
+            if v_key not in ('UpdatedAt', 'CreatedAt', 'LastPlatformUpdateAt')
+               and (v_new->v_key) is distinct from (v_old->v_key) then
+                v_changes := v_changes || jsonb_build_object(v_key, jsonb_build_object('from', v_old->v_key, 'to', v_new->v_key));
+            end if;
+        end loop;
+        if v_changes = '{}'::jsonb then
+            return null; -- Only timestamps moved
+        end if;
+    end if;
+
+    begin
+        v_headers := nullif(current_setting('request.headers', true), '')::json;
+    exception when others then
+        v_headers := null;
+    end;
+
+    insert into public."ProductRevisions"
+        ("UserId", "ProductId", "EntityType", "EntityId", "Operation", "Changes", "Before", "After", "Source", "SourceDetail")
+    values (
+        v_user_id, v_product_id, v_entity_type, (v_row->>'Id')::uuid, lower(tg_op),
+        case when tg_op = 'UPDATE' then v_changes end, v_old, v_new,
+        case when v_headers->>'x-sssync-change-source' in ('user', 'webhook', 'ai', 'import', 'sync', 'restore')
+             then v_headers->>'x-sssync-change-source' else 'system' end,
+        left(v_headers->>'x-sssync-change-detail', 200)
+    );
+    return null;
+end;
+$$;
+
+drop trigger if exists products_revision_trigger on public."Products";
+create trigger products_revision_trigger
+    after insert or update or delete on public."Products"
+    for each row execute function public.record_product_revision();
+
+drop trigger if exists product_variants_revision_trigger on public."ProductVariants";
+create trigger product_variants_revision_trigger
+    after insert or update or delete on public."ProductVariants"
+    for each row execute function public.record_product_revision();
+
+drop trigger if exists product_images_revision_trigger on public."ProductImages";
+create trigger product_images_revision_trigger
+    after insert or update or delete on public."ProductImages"
+    for each row execute function public.record_product_revision();
+
+drop trigger if exists inventory_levels_revision_trigger on public."InventoryLevels";
+create trigger inventory_levels_revision_trigger
+    after insert or update or delete on public."InventoryLevels"
+    for each row execute function public.record_product_revision();
+
+-- Every entity of a product as of a revision: its latest revision at or before
+-- p_revision. Deleted entities come back with Operation 'delete' and no After.
+create or replace function public.product_state_at(p_user_id uuid, p_product_id uuid, p_revision bigint)
+returns table ("EntityType" text, "EntityId" uuid, "Revision" bigint, "Operation" text, "After" jsonb)
+language sql stable as $$
+    select distinct on (r."EntityType", r."EntityId")
+           r."EntityType", r."EntityId", r."Revision", r."Operation", r."After"
+      from public."ProductRevisions" r
+     where r."UserId" = p_user_id and r."ProductId" = p_product_id and r."Revision" <= p_revision
+     order by r."EntityType", r."EntityId", r."Revision" desc;
+$$;
+
+-- Restores a product's fields, its variants' fields and its images to a revision,
+-- plus inventory quantities when p_include_inventory. Variants that no longer
+-- exist are not recreated (their platform listings are gone) and are reported
+-- as skipped, as are variants created after the revision. Images with no history
+-- at all predate revision tracking and are left alone.
+create or replace function public.restore_product_revision(
+    p_user_id uuid,
+    p_product_id uuid,
+    p_revision bigint,
+    p_include_inventory boolean default false
+)
+returns jsonb
+language plpgsql as $$
+declare
+    v_state record;
+    v_count int;
+    v_product_restored boolean := false;
+    v_variants int := 0;
+    v_images int := 0;
+    v_levels int := 0;
+    v_skipped jsonb := '[]'::jsonb;
+    v_inventory_variant_ids uuid[] := '{}';
+    v_variant_id uuid;
+begin
+    if not exists (select 1 from public."Products" where "Id" = p_product_id and "UserId" = p_user_id) then
+        raise exception 'PRODUCT_NOT_FOUND: product % not found', p_product_id;
+    end if;
+    if not exists (
+        select 1 from public."ProductRevisions"
+         where "Revision" = p_revision and "ProductId" = p_product_id and "UserId" = p_user_id
+    ) then
+        raise exception 'REVISION_NOT_FOUND: revision % does not belong to product %', p_revision, p_product_id;
+    end if;
+
+    for v_state in select * from public.product_state_at(p_user_id, p_product_id, p_revision) loop
+        if v_state."EntityType" = 'product' and v_state."Operation" <> 'delete' then
+            update public."Products"
+               set "IsArchived" = (v_state."After"->>'IsArchived')::boolean, "UpdatedAt" = now()
+             where "Id" = p_product_id
+               and "IsArchived" is distinct from (v_state."After"->>'IsArchived')::boolean;
+            v_product_restored := found;
+
+        elsif v_state."EntityType" = 'variant' then
+            if v_state."Operation" = 'delete' then
+                continue;
+            end if;
+            update public."ProductVariants" v
+               set ("Sku", "Barcode", "Title", "Description", "Price", "CompareAtPrice", "Weight", "WeightUnit",
+                    "Options", "RequiresShipping", "IsTaxable", "TaxCode") =
+                   (r."Sku", r."Barcode", r."Title", r."Description", r."Price", r."CompareAtPrice", r."Weight", r."WeightUnit",
+                    r."Options", r."RequiresShipping", r."IsTaxable", r."TaxCode"),
+                   "UpdatedAt" = now()
+              from jsonb_populate_record(null::public."ProductVariants", v_state."After") r
+             where v."Id" = v_state."EntityId" and v."UserId" = p_user_id
+               and (v."Sku", v."Barcode", v."Title", v."Description", v."Price", v."CompareAtPrice", v."Weight", v."WeightUnit",
+                    v."Options", v."RequiresShipping", v."IsTaxable", v."TaxCode")
+                   is distinct from
+                   (r."Sku", r."Barcode", r."Title", r."Description", r."Price", r."CompareAtPrice", r."Weight", r."WeightUnit",
+                    r."Options", r."RequiresShipping", r."IsTaxable", r."TaxCode");
+            if found then
+                v_variants := v_variants + 1;
+            elsif not exists (select 1 from public."ProductVariants" where "Id" = v_state."EntityId") then
+                v_skipped := v_skipped || jsonb_build_object(
+                    'entityType', 'variant', 'entityId', v_state."EntityId", 'reason', 'Variant has been deleted');
+            end if;
+
+        elsif v_state."EntityType" = 'image' then
+            v_variant_id := (v_state."After"->>'ProductVariantId')::uuid;
+            if v_state."Operation" = 'delete' then
+                delete from public."ProductImages" where "Id" = v_state."EntityId";
+                get diagnostics v_count = row_count;
+                v_images := v_images + v_count;
+            elsif exists (select 1 from public."ProductVariants" where "Id" = v_variant_id and "UserId" = p_user_id) then
+                insert into public."ProductImages" ("Id", "ProductVariantId", "ImageUrl", "AltText", "Position")
+                values (v_state."EntityId", v_variant_id, v_state."After"->>'ImageUrl',
+                        v_state."After"->>'AltText', (v_state."After"->>'Position')::int)
+                on conflict ("Id") do update
+                   set "ImageUrl" = excluded."ImageUrl", "AltText" = excluded."AltText", "Position" = excluded."Position"
+                 where (public."ProductImages"."ImageUrl", public."ProductImages"."AltText", public."ProductImages"."Position")
+                       is distinct from (excluded."ImageUrl", excluded."AltText", excluded."Position");
+                get diagnostics v_count = row_count;
+                v_images := v_images + v_count;
+            end if;
+
+        elsif v_state."EntityType" = 'inventory_level' and p_include_inventory and v_state."Operation" <> 'delete' then
+            update public."InventoryLevels"
+               set "Quantity" = (v_state."After"->>'Quantity')::int, "UpdatedAt" = now()
+             where "Id" = v_state."EntityId"
+               and "Quantity" is distinct from (v_state."After"->>'Quantity')::int
+            returning "ProductVariantId" into v_variant_id;
+            if found then
+                v_levels := v_levels + 1;
+                v_inventory_variant_ids := array_append(v_inventory_variant_ids, v_variant_id);
+            end if;
+        end if;
+    end loop;
+
+    -- Images added after the revision
+    delete from public."ProductImages" i
+     using public."ProductVariants" v
+     where v."Id" = i."ProductVariantId" and v."ProductId" = p_product_id and v."UserId" = p_user_id
+       and exists (select 1 from public."ProductRevisions" r where r."EntityId" = i."Id" and r."ProductId" = p_product_id)
+       and not exists (
+           select 1 from public."ProductRevisions" r
+            where r."EntityId" = i."Id" and r."ProductId" = p_product_id and r."Revision" <= p_revision
+       );
+    get diagnostics v_count = row_count;
+    v_images := v_images + v_count;
+
+    -- Variants added after the revision stay; deleting them would take down live listings
+    v_skipped := v_skipped || coalesce((
+        select jsonb_agg(jsonb_build_object('entityType', 'variant', 'entityId', v."Id", 'reason', 'Variant was added after this revision'))
+          from public."ProductVariants" v
+         where v."ProductId" = p_product_id and v."UserId" = p_user_id
+           and exists (select 1 from public."ProductRevisions" r where r."EntityId" = v."Id" and r."Operation" = 'insert')
+           and not exists (
+               select 1 from public."ProductRevisions" r where r."EntityId" = v."Id" and r."Revision" <= p_revision
+           )
+    ), '[]'::jsonb);
+
+    return jsonb_build_object(
+        'productRestored', v_product_restored,
+        'variantsRestored', v_variants,
+        'imagesRestored', v_images,
+        'inventoryLevelsRestored', v_levels,
+        'skipped', v_skipped,
+        'inventoryVariantIds', to_jsonb(v_inventory_variant_ids)
+    );
+end;
+$$;
+
+grant execute on function public.product_state_at(uuid, uuid, bigint) to authenticated;
+grant execute on function public.restore_product_revision(uuid, uuid, bigint, boolean) to authenticated;
@@ -0,0 +1,133 @@
+-- Versioned prompt templates for AI product generation. A template is the prompt
+-- for one generation path (see PROMPT_TEMPLATE_KEYS in
+-- src/prompt-templates/prompt-templates.types.ts), optionally narrowed to a
+-- platform and a business template. Templates without a UserId are the shared
+-- defaults; a user's own template takes precedence over them.
+create table if not exists public."PromptTemplates" (
+    "Id" uuid primary key default gen_random_uuid(),
+    "UserId" uuid references "Users"("Id") on delete cascade,
+    "Key" text not null check ("Key" in ('generate_details', 'generate_from_scraped')),
+    "Platform" text, -- null: any platform
+    "BusinessTemplate" text, -- null: any business template
+    "Name" text not null,
+    "Description" text,
+    "CreatedAt" timestamptz not null default now(),
+    "UpdatedAt" timestamptz not null default now(),
+    unique nulls not distinct ("UserId", "Key", "Platform", "BusinessTemplate")
+);
+
+create index if not exists idx_prompttemplates_user_key on public."PromptTemplates"("UserId", "Key");
+
+-- Versions are immutable once created. The active versions of a template split
+-- its traffic by TrafficWeight, which is how two versions are A/B tested.
+create table if not exists public."PromptTemplateVersions" (
+    "Id" uuid primary key default gen_random_uuid(),
+    "TemplateId" uuid not null references public."PromptTemplates"("Id") on delete cascade,
+    "Version" integer not null,
+    "SystemPrompt" text,
+    "UserPrompt" text not null, -- {{variable}} placeholders are filled in at generation time
+    "Status" text not null default 'draft' check ("Status" in ('draft', 'active', 'retired')),
+    "TrafficWeight" integer not null default 100 check ("TrafficWeight" >= 0),
+    "Notes" text,
+    "CreatedAt" timestamptz not null default now(),
+    unique ("TemplateId", "Version")
+);
+
+create index if not exists idx_prompttemplateversions_active
+    on public."PromptTemplateVersions"("TemplateId") where "Status" = 'active';
+
+alter table public."PromptTemplates" enable row level security;
+alter table public."PromptTemplateVersions" enable row level security;
+
+create policy "Users can read shared and their own prompt templates" on public."PromptTemplates"
+    for select using ("UserId" is null or auth.uid() = "UserId");
+create policy "Users can manage their own prompt templates" on public."PromptTemplates"
+    for all using (auth.uid() = "UserId");
+create policy "Users can read versions of readable prompt templates" on public."PromptTemplateVersions"
+    for select using (exists (
+        select 1 from public."PromptTemplates" t
+         where t."Id" = "TemplateId" and (t."UserId" is null or t."UserId" = auth.uid())
+    ));
+create policy "Users can manage versions of their own prompt templates" on public."PromptTemplateVersions"
+    for all using (exists (
+        select 1 from public."PromptTemplates" t where t."Id" = "TemplateId" and t."UserId" = auth.uid()
+    ));
+
+grant all on public."PromptTemplates" to authenticated;
+grant all on public."PromptTemplateVersions" to authenticated;
+
+-- Which prompt version produced each piece of generated content, and what the
+-- user did with it when the app reports it. Edits and publishing are also
+-- inferred from ProductRevisions and PlatformProductMappings when scoring.
+alter table public."AiGeneratedContent"
+    add column if not exists "PromptVersionId" uuid references public."PromptTemplateVersions"("Id") on delete set null,
+    add column if not exists "PromptOutcome" text check ("PromptOutcome" in ('published', 'edited', 'rejected'));
+
+create index if not exists idx_aigeneratedcontent_prompt_version
+    on public."AiGeneratedContent"("PromptVersionId") where "PromptVersionId" is not null;
+
+-- How each version of a template fared. Output is counted per product (a
+-- generation writes one row per platform). It was edited when the user changed
+-- the product before it was first published, rejected when the app reported so,
+-- and published once the product got a platform listing. AcceptedRate is the
+-- share of decided outputs (published or rejected) published without edits.
+create or replace function public.prompt_version_scores(p_template_id uuid)
+returns table (
+    "VersionId" uuid,
+    "Version" integer,
+    "Status" text,
+    "Outputs" bigint,
+    "Published" bigint,
+    "Edited" bigint,
+    "Rejected" bigint,
+    "AcceptedRate" numeric
+)
+language sql stable as $$
+    with outputs as (
+        select distinct on (c."PromptVersionId", c."ProductId")
+               c."PromptVersionId", c."ProductId", c."CreatedAt", c."PromptOutcome"
+          from public."AiGeneratedContent" c
+          join public."PromptTemplateVersions" v on v."Id" = c."PromptVersionId"
+         where v."TemplateId" = p_template_id
+         order by c."PromptVersionId", c."ProductId", c."CreatedAt"
+    ),
+    judged as (
+        select o.*,
+               (select min(m."CreatedAt")
+                  from public."PlatformProductMappings" m
+                  join public."ProductVariants" pv on pv."Id" = m."ProductVariantId"
+                 where pv."ProductId" = o."ProductId" and m."CreatedAt" >= o."CreatedAt") as "PublishedAt"
+          from outputs o
+    ),
+    classified as (
+        select j."PromptVersionId",
+               j."PromptOutcome" = 'rejected' as rejected,
+               j."PromptOutcome" in ('published', 'edited') or j."PublishedAt" is not null as published,
+               j."PromptOutcome" = 'edited' or exists (
+                   select 1 from public."ProductRevisions" r
+                    where r."ProductId" = j."ProductId"
+                      and r."Source" = 'user'
+                      and r."Operation" = 'update'
+                      and r."CreatedAt" > j."CreatedAt"
+                      and (j."PublishedAt" is null or r."CreatedAt" < j."PublishedAt")
+               ) as edited
+          from judged j
+    )
+    select v."Id", v."Version", v."Status",
+           count(c."PromptVersionId"),
+           count(*) filter (where c.published and not c.rejected),
+           count(*) filter (where c.edited),
+           count(*) filter (where c.rejected),
+           round(
+               (count(*) filter (where c.published and not c.rejected and not c.edited))::numeric
+               / nullif(count(*) filter (where c.published or c.rejected), 0),
+               3
+           )
+      from public."PromptTemplateVersions" v
+      left join classified c on c."PromptVersionId" = v."Id"
+     where v."TemplateId" = p_template_id
+     group by v."Id", v."Version", v."Status"
+     order by v."Version";
+$$;
+
+grant execute on function public.prompt_version_scores(uuid) to service_role;
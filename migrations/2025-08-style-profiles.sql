@@ -0,0 +1,29 @@
+-- Brand voice for AI-generated listings. A user has one default profile
+-- (PlatformConnectionId null) and may override it per connection, e.g. a
+-- terser voice for their eBay store than for their Shopify site.
+create table if not exists public."StyleProfiles" (
+    "Id" uuid primary key default gen_random_uuid(),
+    "UserId" uuid not null references "Users"("Id") on delete cascade,
+    "PlatformConnectionId" uuid references "PlatformConnections"("Id") on delete cascade,
+    "Tone" text,
+    "BannedWords" text[] not null default '{}',
+    "TitleFormula" text,                      -- e.g. "Brand + Product + Key feature + Size"
+    "DescriptionStructure" text,
+    "ReturnPolicyText" text,
+    "ShippingText" text,
+    "TagConventions" jsonb not null default '{}', -- { case, maxTags, alwaysInclude }
+    "Source" text not null default 'manual' check ("Source" in ('manual', 'learned')),
+    "LearnedFrom" jsonb,                      -- The listings sample a learned profile came from
+    "CreatedAt" timestamptz not null default now(),
+    "UpdatedAt" timestamptz not null default now(),
+    unique nulls not distinct ("UserId", "PlatformConnectionId")
+);
+
+create index if not exists idx_styleprofiles_user on public."StyleProfiles"("UserId");
+
+alter table public."StyleProfiles" enable row level security;
+
+create policy "Users can access their own style profiles" on public."StyleProfiles"
+    for all using (auth.uid() = "UserId");
+
+grant all on public."StyleProfiles" to authenticated;
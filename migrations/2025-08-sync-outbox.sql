@@ -0,0 +1,244 @@
+-- Durable outbox for cross-platform propagation. Catalog changes made while
+-- processing a webhook are written here by trigger, in the same transaction as
+-- the change itself; SyncEventsService adds rows for changes it is told about
+-- directly. SyncOutboxService.relayPending (run by the
+-- TasksService cron) claims due rows and queues the push jobs.
+--
+-- DedupKey is unique among pending rows only: a burst of writes to the same
+-- entity from the same connection collapses into one event, while a change that
+-- lands after its event was claimed still gets a new row (at-least-once).
+create table if not exists public."SyncOutbox" (
+    "Seq" bigserial primary key,
+    "UserId" uuid not null references "Users"("Id") on delete cascade,
+    "EventType" text not null check ("EventType" in ('PRODUCT_CREATED', 'PRODUCT_UPDATED', 'PRODUCT_DELETED', 'INVENTORY_UPDATED')),
+    "EntityId" uuid not null, -- ProductId, or ProductVariantId for inventory
+    "SourceConnectionId" uuid, -- Not propagated back to; null for changes made in sssync
+    "SourcePlatform" text,
+    "Payload" jsonb not null default '{}'::jsonb, -- The sync event as emitted
+    "DedupKey" text not null,
+    "Status" text not null default 'pending' check ("Status" in ('pending', 'processing', 'published', 'failed', 'superseded')),
+    "Attempts" integer not null default 0,
+    "Replays" integer not null default 0,
+    "AvailableAt" timestamptz not null default now() + interval '5 seconds', -- Lets the rest of a webhook's writes land first
+    "LockedUntil" timestamptz,
+    "LastError" text,
+    "PublishedAt" timestamptz,
+    "CreatedAt" timestamptz not null default now()
+);
+
+create unique index if not exists idx_sync_outbox_pending_dedup
+    on public."SyncOutbox"("DedupKey") where "Status" = 'pending';
+create index if not exists idx_sync_outbox_due
+    on public."SyncOutbox"("AvailableAt", "Seq") where "Status" in ('pending', 'processing');
+create index if not exists idx_sync_outbox_user on public."SyncOutbox"("UserId", "Seq" desc);
+
+alter table public."SyncOutbox" enable row level security;
+
+create policy "Users can read their own sync outbox" on public."SyncOutbox"
+    for select using (auth.uid() = "UserId");
+
+grant select on public."SyncOutbox" to authenticated;
+
+-- Adds an event unless an identical one is already pending. Returns its Seq, or
+-- null when it was folded into the pending one.
+create or replace function public.enqueue_sync_event(
+    p_user_id uuid,
+    p_event_type text,
+    p_entity_id uuid,
+    p_source_connection_id uuid,
+    p_source_platform text,
+    p_payload jsonb default '{}'::jsonb
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_seq bigint;
+begin
+    insert into public."SyncOutbox"
+        ("UserId", "EventType", "EntityId", "SourceConnectionId", "SourcePlatform", "Payload", "DedupKey")
+    values (
+        p_user_id, p_event_type, p_entity_id, p_source_connection_id, p_source_platform, coalesce(p_payload, '{}'::jsonb),
+        p_event_type || ':' || p_entity_id || ':' || coalesce(p_source_connection_id::text, 'sssync')
+    )
+    on conflict ("DedupKey") where "Status" = 'pending' do nothing
+    returning "Seq" into v_seq;
+    return v_seq;
+end;
+$$;
+
+-- Outbox rows for catalog writes made while processing a webhook (the API sends
+-- x-sssync-change-source: webhook and the connection in x-sssync-change-connection)
+create or replace function public.record_sync_outbox_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_old jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+    v_new jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+    v_row jsonb := coalesce(v_new, v_old);
+    v_key text;
+    v_changed boolean := tg_op <> 'UPDATE';
+    v_headers json;
+    v_connection_id uuid;
+    v_event_type text;
+    v_entity_id uuid;
+    v_user_id uuid;
+begin
+    begin
+        v_headers := nullif(current_setting('request.headers', true), '')::json;
+        v_connection_id := (v_headers->>'x-sssync-change-connection')::uuid;
+    exception when others then
+        return null;
+    end;
+    if v_headers->>'x-sssync-change-source' is distinct from 'webhook' or v_connection_id is null then
+        return null;
+    end if;
+
+    if tg_op = 'UPDATE' then
+        for v_key in select jsonb_object_keys(v_new) loop
+            if v_key not in ('UpdatedAt', 'CreatedAt', 'LastPlatformUpdateAt', 'LastSyncedAt')
+               and (v_new->v_key) is distinct from (v_old->v_key) then
+                v_changed := true;
+                exit;
+            end if;
+        end loop;
+        if not v_changed then
+            return null;
+        end if;
+    end if;
+
+    if tg_table_name = 'Products' then
+        v_event_type := case tg_op when 'INSERT' then 'PRODUCT_CREATED' when 'DELETE' then 'PRODUCT_DELETED' else 'PRODUCT_UPDATED' end;
+        v_entity_id := (v_row->>'Id')::uuid;
+        v_user_id := (v_row->>'UserId')::uuid;
+    elsif tg_table_name = 'ProductVariants' then
+        v_event_type := 'PRODUCT_UPDATED';
+        v_entity_id := (v_row->>'ProductId')::uuid;
+        v_user_id := (v_row->>'UserId')::uuid;
+    elsif tg_table_name = 'ProductImages' then
+        v_event_type := 'PRODUCT_UPDATED';
+        select "ProductId", "UserId" into v_entity_id, v_user_id
+          from public."ProductVariants" where "Id" = (v_row->>'ProductVariantId')::uuid;
+    else
+        if tg_op = 'DELETE' then
+            return null; -- Levels go with their variant or connection
+        end if;
+        v_event_type := 'INVENTORY_UPDATED';
+        v_entity_id := (v_row->>'ProductVariantId')::uuid;
+        select "UserId" into v_user_id from public."ProductVariants" where "Id" = v_entity_id;
+    end if;
+
+    -- A variant or image deleted along with its product is covered by PRODUCT_DELETED
+    if v_event_type = 'PRODUCT_UPDATED' and not exists (select 1 from public."Products" where "Id" = v_entity_id) then
+        return null;
+    end if;
+    if v_user_id is null then
+        return null;
+    end if;
+
+    perform public.enqueue_sync_event(
+        v_user_id, v_event_type, v_entity_id, v_connection_id,
+        left(v_headers->>'x-sssync-change-detail', 50),
+        jsonb_build_object('trigger', tg_table_name, 'operation', lower(tg_op))
+    );
+    return null;
+end;
+$$;
+
+drop trigger if exists products_sync_outbox_trigger on public."Products";
+create trigger products_sync_outbox_trigger
+    after insert or update or delete on public."Products"
+    for each row execute function public.record_sync_outbox_event();
+
+drop trigger if exists product_variants_sync_outbox_trigger on public."ProductVariants";
+create trigger product_variants_sync_outbox_trigger
+    after insert or update or delete on public."ProductVariants"
+    for each row execute function public.record_sync_outbox_event();
+
+drop trigger if exists product_images_sync_outbox_trigger on public."ProductImages";
+create trigger product_images_sync_outbox_trigger
+    after insert or update or delete on public."ProductImages"
+    for each row execute function public.record_sync_outbox_event();
+
+drop trigger if exists inventory_levels_sync_outbox_trigger on public."InventoryLevels";
+create trigger inventory_levels_sync_outbox_trigger
+    after insert or update on public."InventoryLevels"
+    for each row execute function public.record_sync_outbox_event();
+
+-- Claims up to p_limit due rows for the relay. Rows whose lease ran out (the
+-- relay died mid-batch) are claimed again.
+create or replace function public.claim_sync_outbox(p_limit integer, p_lease_seconds integer default 120)
+returns setof public."SyncOutbox"
+language sql
+as $$
+    update public."SyncOutbox" o
+       set "Status" = 'processing',
+           "Attempts" = o."Attempts" + 1,
+           "LockedUntil" = now() + make_interval(secs => p_lease_seconds)
+     where o."Seq" in (
+        select "Seq" from public."SyncOutbox"
+         where ("Status" = 'pending' and "AvailableAt" <= now())
+            or ("Status" = 'processing' and "LockedUntil" < now())
+         order by "Seq"
+         limit p_limit
+         for update skip locked
+     )
+    returning o.*;
+$$;
+
+-- Puts a user's published, failed or superseded events in a range back in the
+-- outbox, newest per DedupKey, skipping keys that already have a pending event.
+-- Pushes read the current catalog, so replaying the newest event is enough.
+create or replace function public.replay_sync_outbox(
+    p_user_id uuid,
+    p_from_seq bigint default null,
+    p_to_seq bigint default null,
+    p_from_time timestamptz default null,
+    p_to_time timestamptz default null
+)
+returns integer
+language plpgsql
+as $$
+declare
+    v_count integer;
+begin
+    with candidates as (
+        select distinct on ("DedupKey") "Seq", "DedupKey"
+          from public."SyncOutbox"
+         where "UserId" = p_user_id
+           and "Status" in ('published', 'failed', 'superseded')
+           and (p_from_seq is null or "Seq" >= p_from_seq)
+           and (p_to_seq is null or "Seq" <= p_to_seq)
+           and (p_from_time is null or "CreatedAt" >= p_from_time)
+           and (p_to_time is null or "CreatedAt" <= p_to_time)
+         order by "DedupKey", "Seq" desc
+    )
+    update public."SyncOutbox" o
+       set "Status" = 'pending',
+           "Attempts" = 0,
+           "Replays" = o."Replays" + 1,
+           "AvailableAt" = now(),
+           "LockedUntil" = null,
+           "LastError" = null
+      from candidates c
+     where o."Seq" = c."Seq"
+       and not exists (
+           select 1 from public."SyncOutbox" p
+            where p."DedupKey" = c."DedupKey" and p."Status" = 'pending'
+       );
+    get diagnostics v_count = row_count;
+    return v_count;
+end;
+$$;
+
+grant execute on function public.enqueue_sync_event(uuid, text, uuid, uuid, text, jsonb) to service_role;
+grant execute on function public.claim_sync_outbox(integer, integer) to service_role;
+grant execute on function public.replay_sync_outbox(uuid, bigint, bigint, timestamptz, timestamptz) to service_role;
+revoke execute on function public.enqueue_sync_event(uuid, text, uuid, uuid, text, jsonb) from public, anon, authenticated;
+revoke execute on function public.claim_sync_outbox(integer, integer) from public, anon, authenticated;
+revoke execute on function public.replay_sync_outbox(uuid, bigint, bigint, timestamptz, timestamptz) from public, anon, authenticated;
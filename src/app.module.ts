@@ -15,6 +15,7 @@ import { UserThrottlerGuard } from './common/guards/user-throttler.guard';
 // import { SupabaseService } from './common/supabase.service'; // Provided in CommonModule
 // import { EncryptionService } from './common/encryption.service'; // Provided in CommonModule
 import { RequestLoggerMiddleware } from './common/middleware/request-logger.middleware';
+import { ChangeSourceMiddleware } from './common/middleware/change-source.middleware';
 import { ScheduleModule } from '@nestjs/schedule';
 import { TasksModule } from './tasks/tasks.module';
 import { PlatformAdaptersModule } from './platform-adapters/platform-adapters.module';
@@ -22,6 +23,13 @@ import { BillingModule } from './billing/billing.module';
 import { IngestModule } from './ingest/ingest.module';
 import { MatchModule } from './match/match.module';
 import { BackfillModule } from './sync-engine/backfill.module';
+import { OrdersModule } from './orders/orders.module';
+import { MarketplaceModule } from './marketplace/marketplace.module';
+import { ExportModule } from './export/export.module';
+import { ProductRevisionsModule } from './product-revisions/product-revisions.module';
+import { LocationsModule } from './locations/locations.module';
+import { PromptTemplatesModule } from './prompt-templates/prompt-templates.module';
+import { StyleProfilesModule } from './style-profiles/style-profiles.module';
 
 @Global()
 @Module({
@@ -48,6 +56,13 @@ import { BackfillModule } from './sync-engine/backfill.module';
     IngestModule,
     MatchModule,
     BackfillModule,
+    OrdersModule,
+    MarketplaceModule,
+    ExportModule,
+    ProductRevisionsModule,
+    LocationsModule,
+    PromptTemplatesModule,
+    StyleProfilesModule,
   ],
   controllers: [AppController],
   providers: [
@@ -63,7 +78,7 @@ import { BackfillModule } from './sync-engine/backfill.module';
 export class AppModule implements NestModule {
   configure(consumer: MiddlewareConsumer) {
     consumer
-      .apply(RequestLoggerMiddleware)
+      .apply(RequestLoggerMiddleware, ChangeSourceMiddleware)
       .forRoutes({ path: '*', method: RequestMethod.ALL });
   }
 }
@@ -2,16 +2,22 @@ import { Module } from '@nestjs/common';
 import { CommonModule } from '../common/common.module'; // Needs SupabaseService
 import { ProductsService } from './products.service';
 import { InventoryService } from './inventory.service';
+import { InventoryReservationsService } from './inventory-reservations.service';
+import { LocationsService } from './locations.service';
 
 @Module({
   imports: [CommonModule], // Import CommonModule to make SupabaseService available
   providers: [
       ProductsService,
-      InventoryService
+      InventoryService,
+      InventoryReservationsService,
+      LocationsService
     ],
   exports: [
       ProductsService,
-      InventoryService
+      InventoryService,
+      InventoryReservationsService,
+      LocationsService
     ], // Export services for other modules to use
 })
 export class CanonicalDataModule {} 
\ No newline at end of file
@@ -0,0 +1,181 @@
+import { Injectable, Logger, InternalServerErrorException } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SupabaseService } from '../common/supabase.service';
+import { InventoryReservation, InventoryReservationStatus } from '../common/types/supabase.types';
+
+export type NewInventoryReservation = Pick<
+    InventoryReservation,
+    'UserId' | 'ProductVariantId' | 'PlatformConnectionId' | 'SourceReference' | 'Quantity'
+> & Partial<Pick<InventoryReservation, 'Source' | 'PlatformListingId' | 'StartsAt' | 'EndsAt'>>;
+
+/**
+ * Stock held for a single channel (e.g. items scheduled in a Whatnot live show).
+ * Active reservations are subtracted from the quantity pushed to every other
+ * connection until they are released or consumed.
+ */
+@Injectable()
+export class InventoryReservationsService {
+    private readonly logger = new Logger(InventoryReservationsService.name);
+
+    constructor(private supabaseService: SupabaseService) {}
+
+    private getSupabaseClient(): SupabaseClient {
+        return this.supabaseService.getClient();
+    }
+
+    /**
+     * Creates reservations, replacing any active reservation for the same
+     * connection/show/variant (re-scheduling a show updates the held quantity).
+     */
+    async upsertActiveReservations(reservations: NewInventoryReservation[]): Promise<InventoryReservation[]> {
+        if (reservations.length === 0) return [];
+        const supabase = this.getSupabaseClient();
+        const saved: InventoryReservation[] = [];
+
+        for (const reservation of reservations) {
+            const existing = await this.getActiveReservation(
+                reservation.PlatformConnectionId,
+                reservation.SourceReference,
+                reservation.ProductVariantId,
+            );
+            const row = {
+                Source: 'whatnot_show' as const,
+                ...reservation,
+                Status: 'active' as InventoryReservationStatus,
+                UpdatedAt: new Date().toISOString(),
+            };
+            const query = existing
+                ? supabase.from('InventoryReservations').update(row).eq('Id', existing.Id)
+                : supabase.from('InventoryReservations').insert(row);
+            const { data, error } = await query.select().single();
+
+            if (error || !data) {
+                this.logger.error(`Failed to save reservation for variant ${reservation.ProductVariantId}, show ${reservation.SourceReference}: ${error?.message}`);
+                throw new InternalServerErrorException(`Could not save inventory reservation: ${error?.message}`);
+            }
+            saved.push(data as InventoryReservation);
+        }
+
+        this.logger.log(`Saved ${saved.length} active reservations`);
+        return saved;
+    }
+
+    async getActiveReservation(connectionId: string, sourceReference: string, variantId: string): Promise<InventoryReservation | null> {
+        const { data, error } = await this.getSupabaseClient()
+            .from('InventoryReservations')
+            .select('*')
+            .eq('PlatformConnectionId', connectionId)
+            .eq('SourceReference', sourceReference)
+            .eq('ProductVariantId', variantId)
+            .eq('Status', 'active')
+            .maybeSingle();
+
+        if (error) {
+            this.logger.error(`Error fetching reservation for variant ${variantId}, show ${sourceReference}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not fetch inventory reservation: ${error.message}`);
+        }
+        return data as InventoryReservation | null;
+    }
+
+    async getReservationsForSource(connectionId: string, sourceReference: string, activeOnly = false): Promise<InventoryReservation[]> {
+        let query = this.getSupabaseClient()
+            .from('InventoryReservations')
+            .select('*')
+            .eq('PlatformConnectionId', connectionId)
+            .eq('SourceReference', sourceReference);
+        if (activeOnly) query = query.eq('Status', 'active');
+
+        const { data, error } = await query.order('CreatedAt', { ascending: true });
+        if (error) {
+            this.logger.error(`Error fetching reservations for show ${sourceReference}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not fetch inventory reservations: ${error.message}`);
+        }
+        return (data || []) as InventoryReservation[];
+    }
+
+    async getActiveReservationsForUser(userId: string): Promise<InventoryReservation[]> {
+        const { data, error } = await this.getSupabaseClient()
+            .from('InventoryReservations')
+            .select('*')
+            .eq('UserId', userId)
+            .eq('Status', 'active')
+            .order('StartsAt', { ascending: true });
+
+        if (error) {
+            this.logger.error(`Error fetching active reservations for user ${userId}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not fetch inventory reservations: ${error.message}`);
+        }
+        return (data || []) as InventoryReservation[];
+    }
+
+    /**
+     * Active reservations whose show should have ended by `before`.
+     */
+    async getOverdueReservations(before: Date): Promise<InventoryReservation[]> {
+        const { data, error } = await this.getSupabaseClient()
+            .from('InventoryReservations')
+            .select('*')
+            .eq('Status', 'active')
+            .lt('EndsAt', before.toISOString());
+
+        if (error) {
+            this.logger.error(`Error fetching overdue reservations: ${error.message}`);
+            throw new InternalServerErrorException(`Could not fetch inventory reservations: ${error.message}`);
+        }
+        return (data || []) as InventoryReservation[];
+    }
+
+    /**
+     * Units of a variant held by active reservations on connections other than
+     * `forConnectionId`. The holding connection itself still sees its full stock.
+     */
+    async getHeldQuantity(variantId: string, forConnectionId?: string): Promise<number> {
+        let query = this.getSupabaseClient()
+            .from('InventoryReservations')
+            .select('Quantity, PlatformConnectionId')
+            .eq('ProductVariantId', variantId)
+            .eq('Status', 'active');
+        if (forConnectionId) query = query.neq('PlatformConnectionId', forConnectionId);
+
+        const { data, error } = await query;
+        if (error) {
+            this.logger.error(`Error fetching held quantity for variant ${variantId}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not fetch held quantity: ${error.message}`);
+        }
+        return (data || []).reduce((sum, r: { Quantity: number }) => sum + (r.Quantity || 0), 0);
+    }
+
+    /**
+     * Closes a reservation once its show has ended. Units not sold go back to
+     * the shared pool; the status records whether anything sold.
+     */
+    async completeReservation(reservationId: string, quantitySold: number): Promise<InventoryReservation> {
+        const { data: current, error: fetchError } = await this.getSupabaseClient()
+            .from('InventoryReservations')
+            .select('*')
+            .eq('Id', reservationId)
+            .single();
+        if (fetchError || !current) {
+            throw new InternalServerErrorException(`Could not load inventory reservation ${reservationId}: ${fetchError?.message}`);
+        }
+
+        const sold = Math.max(0, Math.min(quantitySold, current.Quantity));
+        const status: InventoryReservationStatus =
+            sold === 0 ? 'released' : sold >= current.Quantity ? 'consumed' : 'partially_consumed';
+        const now = new Date().toISOString();
+
+        const { data, error } = await this.getSupabaseClient()
+            .from('InventoryReservations')
+            .update({ QuantitySold: sold, Status: status, CompletedAt: now, UpdatedAt: now })
+            .eq('Id', reservationId)
+            .select()
+            .single();
+
+        if (error || !data) {
+            this.logger.error(`Failed to complete reservation ${reservationId}: ${error?.message}`);
+            throw new InternalServerErrorException(`Could not complete inventory reservation: ${error?.message}`);
+        }
+        this.logger.log(`Reservation ${reservationId} ${status} (${sold}/${current.Quantity} sold)`);
+        return data as InventoryReservation;
+    }
+}
@@ -0,0 +1,158 @@
+import { BadRequestException, InternalServerErrorException, NotFoundException } from '@nestjs/common';
+import { SupabaseService } from '../common/supabase.service';
+import { InventoryLevel } from '../common/types/supabase.types';
+import { runWithChangeSource, runWithSourceConnection } from '../common/change-source.context';
+import { InventoryAdjustmentResult, InventoryService } from './inventory.service';
+
+describe('InventoryService ledger adjustments', () => {
+    let service: InventoryService;
+    let levels: InventoryLevel[];
+    let ledger: Array<{ levelId: string; delta: number; requestedDelta: number | null }>;
+    let rpc: jest.Mock;
+
+    // Applies a change as adjust_inventory does: stock stops at zero unless negative stock is
+    // allowed, and an entry is written when the quantity changes or was meant to
+    const adjust = (args: Record<string, any>): InventoryAdjustmentResult => {
+        const current = levels.find(l => l.PlatformConnectionId === args.p_connection_id && l.PlatformLocationId === args.p_location_id)!;
+        const before = current.Quantity;
+        const requested = args.p_set_quantity ?? before + args.p_delta;
+        current.Quantity = args.p_allow_negative ? requested : Math.max(requested, 0);
+        const delta = current.Quantity - before;
+        let ledgerId: number | null = null;
+        if (delta !== 0 || requested !== current.Quantity) {
+            ledger.push({ levelId: current.Id, delta, requestedDelta: requested !== current.Quantity ? requested - before : null });
+            ledgerId = ledger.length;
+        }
+        return { levelId: current.Id, ledgerId, delta, requestedDelta: requested - before, quantityBefore: before, quantityAfter: current.Quantity, level: { ...current } };
+    };
+
+    beforeEach(() => {
+        levels = [
+            { Id: 'level-a', ProductVariantId: 'variant-1', PlatformConnectionId: 'conn-a', PlatformLocationId: 'pl-a', LocationId: 'loc-1', Quantity: 10 },
+            { Id: 'level-b', ProductVariantId: 'variant-1', PlatformConnectionId: 'conn-b', PlatformLocationId: 'pl-b', LocationId: 'loc-1', Quantity: 10 },
+            { Id: 'level-c', ProductVariantId: 'variant-1', PlatformConnectionId: 'conn-c', PlatformLocationId: 'pl-c', LocationId: 'loc-2', Quantity: 3 },
+        ] as InventoryLevel[];
+        ledger = [];
+        rpc = jest.fn((name: string, args: Record<string, any>) => Promise.resolve({ data: name === 'adjust_inventory' ? adjust(args) : [], error: null }));
+
+        const query = (matches: (l: InventoryLevel) => boolean = () => true) => {
+            const q = {
+                select: () => q,
+                eq: (column: string, value: any) => query(l => matches(l) && l[column] === value),
+                neq: (column: string, value: any) => query(l => matches(l) && l[column] !== value),
+                then: (resolve: (result: any) => void) => resolve({ data: levels.filter(matches).map(l => ({ ...l })), error: null }),
+            };
+            return q;
+        };
+        const client = { rpc, from: () => query() };
+        service = new InventoryService({ getServiceClient: () => client, getClient: () => client } as unknown as SupabaseService);
+    });
+
+    it('sends a count as a set quantity and a change as a delta', async () => {
+        await service.adjustLevel({ variantId: 'variant-1', connectionId: 'conn-c', locationId: 'pl-c', quantity: 7, reason: 'recount' });
+        await service.adjustLevel(
+            { variantId: 'variant-1', connectionId: 'conn-c', locationId: 'pl-c', delta: -2, reason: 'sale', referenceId: 'order-1' },
+            { userId: 'user-1' },
+        );
+
+        expect(rpc.mock.calls[0][1]).toMatchObject({ p_set_quantity: 7, p_delta: null, p_reason: 'recount', p_user_id: null });
+        expect(rpc.mock.calls[1][1]).toMatchObject({ p_set_quantity: null, p_delta: -2, p_reason: 'sale', p_reference_id: 'order-1', p_user_id: 'user-1' });
+        expect(levels[2].Quantity).toBe(5);
+    });
+
+    it('credits the change to the connection it came from', async () => {
+        await runWithChangeSource('webhook', 'shopify', () =>
+            runWithSourceConnection('conn-webhook', () =>
+                service.adjustLevel({ variantId: 'variant-1', connectionId: 'conn-c', locationId: 'pl-c', delta: 1, reason: 'return' }),
+            ),
+        );
+
+        expect(rpc.mock.calls[0][1].p_source_connection_id).toBe('conn-webhook');
+    });
+
+    it.each([
+        ['P0002', 'Variant variant-9 not found', NotFoundException],
+        ['22023', 'Give exactly one of p_delta and p_set_quantity', BadRequestException],
+        ['57014', 'canceling statement due to statement timeout', InternalServerErrorException],
+    ])('turns database error %s into the matching exception', async (code, message, exception) => {
+        rpc.mockResolvedValue({ data: null, error: { code, message } });
+
+        await expect(
+            service.adjustLevel({ variantId: 'variant-9', connectionId: 'conn-a', locationId: null, delta: -1, reason: 'sale' }),
+        ).rejects.toThrow(exception);
+    });
+
+    it('keeps an oversell in the ledger with the delta asked for', async () => {
+        const result = await service.adjustLevel({ variantId: 'variant-1', connectionId: 'conn-c', locationId: 'pl-c', delta: -5, reason: 'sale' });
+        const atZero = await service.adjustLevel({ variantId: 'variant-1', connectionId: 'conn-c', locationId: 'pl-c', delta: -2, reason: 'sale' });
+
+        expect(result).toMatchObject({ delta: -3, requestedDelta: -5, quantityAfter: 0 });
+        expect(atZero).toMatchObject({ delta: 0, requestedDelta: -2, quantityAfter: 0, ledgerId: 2 });
+        expect(ledger).toEqual([
+            { levelId: 'level-c', delta: -3, requestedDelta: -5 },
+            { levelId: 'level-c', delta: 0, requestedDelta: -2 },
+        ]);
+    });
+
+    it('applies a count to the other levels at the same location as the same count', async () => {
+        levels[1].Quantity = 9;
+
+        const result = await service.adjustLevel({ variantId: 'variant-1', connectionId: 'conn-a', locationId: 'pl-a', quantity: 4, reason: 'recount' });
+
+        expect(result.mirrored!.map(m => [m.levelId, m.quantityAfter])).toEqual([['level-b', 4]]);
+        expect(rpc.mock.calls[1][1]).toMatchObject({ p_connection_id: 'conn-b', p_set_quantity: 4, p_source_connection_id: 'conn-a' });
+        expect(levels[2].Quantity).toBe(3);
+    });
+
+    it('applies a delta to the copies as the delta that was actually applied', async () => {
+        levels[0].Quantity = 2;
+
+        await service.adjustLevel({ variantId: 'variant-1', connectionId: 'conn-a', locationId: 'pl-a', delta: -5, reason: 'damage' });
+
+        expect(rpc.mock.calls[1][1]).toMatchObject({ p_connection_id: 'conn-b', p_delta: -2, p_reason: 'damage' });
+        expect(levels.map(l => l.Quantity)).toEqual([0, 8, 3]);
+    });
+
+    it('does not mirror an unchanged quantity, an unplaced level or when told not to', async () => {
+        await service.adjustLevel({ variantId: 'variant-1', connectionId: 'conn-a', locationId: 'pl-a', quantity: 10, reason: 'recount' });
+        levels[0].LocationId = null;
+        await service.adjustLevel({ variantId: 'variant-1', connectionId: 'conn-a', locationId: 'pl-a', delta: 1, reason: 'return' });
+        levels[0].LocationId = 'loc-1';
+        await service.adjustLevel({ variantId: 'variant-1', connectionId: 'conn-a', locationId: 'pl-a', delta: 1, reason: 'return' }, { mirror: false });
+
+        expect(rpc).toHaveBeenCalledTimes(3);
+        expect(levels[1].Quantity).toBe(10);
+    });
+
+    it('mirrors the batch outcomes that succeeded and keeps the errors in place', async () => {
+        const applied = adjust({ p_connection_id: 'conn-a', p_location_id: 'pl-a', p_delta: -1 });
+        rpc.mockImplementation((name: string, args: Record<string, any>) =>
+            Promise.resolve({ data: name === 'adjust_inventory' ? adjust(args) : [{ error: 'Connection conn-x not found' }, applied], error: null }),
+        );
+
+        const outcomes = await service.adjustLevels('user-1', [
+            { variantId: 'variant-1', connectionId: 'conn-x', locationId: null, delta: -1, reason: 'sale' },
+            { variantId: 'variant-1', connectionId: 'conn-a', locationId: 'pl-a', delta: -1, reason: 'sale' },
+        ]);
+
+        expect(outcomes[0]).toEqual({ error: 'Connection conn-x not found' });
+        expect((outcomes[1] as InventoryAdjustmentResult).mirrored!.map(m => [m.levelId, m.quantityAfter])).toEqual([['level-b', 9]]);
+        expect(rpc.mock.calls[0][1].p_adjustments[0]).toMatchObject({ connectionId: 'conn-x', delta: -1, quantity: null });
+        expect(rpc.mock.calls[1][1]).toMatchObject({ p_user_id: 'user-1', p_delta: -1 });
+    });
+
+    it('skips the database for an empty batch', async () => {
+        await expect(service.adjustLevels('user-1', [])).resolves.toEqual([]);
+        expect(rpc).not.toHaveBeenCalled();
+    });
+
+    it('records the part of a sale beyond a connection\'s stock on its last level', async () => {
+        levels.push({ Id: 'level-d', ProductVariantId: 'variant-1', PlatformConnectionId: 'conn-c', PlatformLocationId: 'pl-d', LocationId: null, Quantity: 1 } as InventoryLevel);
+
+        const changed = await service.decrementAcrossConnections('variant-1', 6, 'conn-a');
+
+        expect(changed).toEqual(['conn-b', 'conn-c']);
+        expect(levels.map(l => l.Quantity)).toEqual([10, 4, 0, 0]);
+        expect(ledger.filter(e => e.requestedDelta !== null)).toEqual([{ levelId: 'level-d', delta: -1, requestedDelta: -3 }]);
+    });
+});
@@ -1,7 +1,8 @@
-import { Injectable, Logger, InternalServerErrorException } from '@nestjs/common';
+import { Injectable, Logger, InternalServerErrorException, NotFoundException, BadRequestException } from '@nestjs/common';
 import { SupabaseService } from '../common/supabase.service';
-import { InventoryLevel } from '../common/types/supabase.types';
+import { InventoryLevel, InventoryAdjustmentReason, InventoryLedgerEntry } from '../common/types/supabase.types';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { getChangeSource } from '../common/change-source.context';
 
 // Interface for Canonical Inventory Level data based on sssync-db.md
 export interface CanonicalInventoryLevel {
@@ -14,6 +15,57 @@ export interface CanonicalInventoryLevel {
     // UpdatedAt is managed by the DB
 }
 
+export const INVENTORY_ADJUSTMENT_REASONS: InventoryAdjustmentReason[] = ['sale', 'return', 'damage', 'recount', 'transfer', 'marketplace_reservation'];
+
+/**
+ * One stock change for the inventory ledger: a signed delta, or an absolute
+ * quantity for a count (recorded as a 'recount' of the difference).
+ */
+export interface InventoryAdjustment {
+    variantId: string;
+    connectionId: string;
+    locationId: string | null;
+    delta?: number;
+    quantity?: number;
+    reason: InventoryAdjustmentReason;
+    referenceId?: string; // Order, transfer or reservation
+    note?: string;
+    sourceConnectionId?: string; // Defaults to the connection of the current change source
+}
+
+export interface InventoryAdjustmentResult {
+    levelId: string;
+    ledgerId: number | null; // null when the quantity did not change and was not meant to
+    delta: number; // As applied (stock stops at zero)
+    requestedDelta: number; // As asked for; more negative than delta when the change oversold the level
+    quantityBefore: number;
+    quantityAfter: number;
+    level: InventoryLevel;
+    mirrored?: InventoryAdjustmentResult[]; // The same change on the other levels at the level's canonical location
+}
+
+export interface InventoryAdjustmentOptions {
+    userId?: string;
+    allowNegative?: boolean;
+    platformUpdatedAt?: string | null;
+    mirror?: boolean;
+}
+
+/** Ledger reason and reference for changes applied across connections */
+export interface InventoryChangeOptions {
+    reason: InventoryAdjustmentReason;
+    referenceId?: string;
+    note?: string;
+}
+
+/** What a push of one level should send; see claimInventoryPush */
+export interface InventoryPushClaim {
+    levelId: string;
+    delta: number;
+    requiresSet: boolean;
+    reason: InventoryAdjustmentReason | null;
+}
+
 @Injectable()
 export class InventoryService {
     private readonly logger = new Logger(InventoryService.name);
@@ -25,39 +77,199 @@ export class InventoryService {
     }
 
     /**
-     * Updates or inserts an inventory level record.
-     * Uses the unique constraint on (ProductVariantId, PlatformConnectionId, PlatformLocationId).
+     * Sets an inventory level to an absolute quantity (creating it if needed),
+     * recorded in the ledger as a recount. Platform webhooks report stock this way.
      */
     async updateLevel(levelData: Omit<InventoryLevel, 'Id' | 'UpdatedAt' | 'CreatedAt'>): Promise<InventoryLevel> {
-        const supabase = this.getSupabaseClient();
         const { ProductVariantId, PlatformConnectionId, PlatformLocationId, Quantity } = levelData;
-        const locationLog = PlatformLocationId || '[default]';
-        this.logger.log(`Upserting inventory level for variant ${ProductVariantId}, connection ${PlatformConnectionId}, location ${locationLog} to ${Quantity}`);
+        this.logger.log(`Setting inventory level for variant ${ProductVariantId}, connection ${PlatformConnectionId}, location ${PlatformLocationId || '[default]'} to ${Quantity}`);
 
-        const upsertData = {
-            ProductVariantId,
-            PlatformConnectionId,
-            PlatformLocationId: PlatformLocationId || null, // Ensure null is stored correctly
-            Quantity,
-            UpdatedAt: new Date().toISOString(),
-        };
+        const result = await this.adjustLevel(
+            {
+                variantId: ProductVariantId,
+                connectionId: PlatformConnectionId,
+                locationId: PlatformLocationId || null,
+                quantity: Quantity,
+                reason: 'recount',
+            },
+            { platformUpdatedAt: levelData.LastPlatformUpdateAt },
+        );
+        return result.level;
+    }
 
-        const { data, error } = await supabase
+    /**
+     * Applies one stock change through the ledger. The level row is locked while
+     * the change is applied, so concurrent adjustments all count.
+     * With `userId`, the variant must belong to that user. Unless `mirror` is
+     * false, the change also goes to the other levels at the same canonical location.
+     */
+    async adjustLevel(
+        adjustment: InventoryAdjustment,
+        options: InventoryAdjustmentOptions = {},
+    ): Promise<InventoryAdjustmentResult> {
+        const { data, error } = await this.supabaseService.getServiceClient().rpc('adjust_inventory', {
+            p_variant_id: adjustment.variantId,
+            p_connection_id: adjustment.connectionId,
+            p_location_id: adjustment.locationId,
+            p_delta: adjustment.quantity === undefined ? adjustment.delta ?? 0 : null,
+            p_set_quantity: adjustment.quantity ?? null,
+            p_reason: adjustment.reason,
+            p_user_id: options.userId ?? null,
+            p_reference_id: adjustment.referenceId ?? null,
+            p_note: adjustment.note ?? null,
+            p_source_connection_id: adjustment.sourceConnectionId ?? getChangeSource()?.connectionId ?? null,
+            p_allow_negative: options.allowNegative ?? false,
+            p_platform_updated_at: options.platformUpdatedAt ?? null,
+        });
+
+        if (error) {
+            this.logger.error(`Failed to adjust inventory for variant ${adjustment.variantId}, connection ${adjustment.connectionId}: ${error.message}`);
+            if (error.code === 'P0002') throw new NotFoundException(error.message);
+            if (error.code === '22023') throw new BadRequestException(error.message);
+            throw new InternalServerErrorException(`Could not adjust inventory: ${error.message}`);
+        }
+        const result = data as InventoryAdjustmentResult;
+        if (result.requestedDelta < result.delta) {
+            this.logger.warn(`Oversold level ${result.levelId} by ${result.delta - result.requestedDelta} (${adjustment.reason}${adjustment.referenceId ? ` ${adjustment.referenceId}` : ''})`);
+        }
+        if (options.mirror !== false) {
+            result.mirrored = await this.applyToLocationCopies(result, adjustment, options);
+        }
+        return result;
+    }
+
+    /**
+     * Applies the user's adjustments in order in one call. Each entry of the
+     * result is the adjustment's outcome, or its error; one failing does not
+     * undo the others.
+     */
+    async adjustLevels(userId: string, adjustments: InventoryAdjustment[]): Promise<Array<InventoryAdjustmentResult | { error: string }>> {
+        if (adjustments.length === 0) return [];
+        const { data, error } = await this.supabaseService.getServiceClient().rpc('adjust_inventory_batch', {
+            p_user_id: userId,
+            p_adjustments: adjustments.map(a => ({
+                variantId: a.variantId,
+                connectionId: a.connectionId,
+                locationId: a.locationId,
+                delta: a.quantity === undefined ? a.delta ?? 0 : null,
+                quantity: a.quantity ?? null,
+                reason: a.reason,
+                referenceId: a.referenceId ?? null,
+                note: a.note ?? null,
+                sourceConnectionId: a.sourceConnectionId ?? getChangeSource()?.connectionId ?? null,
+            })),
+        });
+
+        if (error) {
+            this.logger.error(`Failed to apply ${adjustments.length} inventory adjustments for user ${userId}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not adjust inventory: ${error.message}`);
+        }
+        const outcomes = (data || []) as Array<InventoryAdjustmentResult | { error: string }>;
+        for (const [i, outcome] of outcomes.entries()) {
+            if ('error' in outcome) continue;
+            outcome.mirrored = await this.applyToLocationCopies(outcome, adjustments[i], { userId });
+        }
+        return outcomes;
+    }
+
+    /**
+     * Levels on other connections mapped to the same canonical location hold the
+     * same stock, so a change to one is applied to them too: a count as the same
+     * count, a delta as the same delta.
+     */
+    private async applyToLocationCopies(
+        result: InventoryAdjustmentResult,
+        adjustment: InventoryAdjustment,
+        options: InventoryAdjustmentOptions,
+    ): Promise<InventoryAdjustmentResult[]> {
+        const locationId = result.level.LocationId;
+        if (!locationId || result.ledgerId === null) return [];
+
+        const { data: copies, error } = await this.supabaseService
+            .getServiceClient()
             .from('InventoryLevels')
-            .upsert(upsertData, {
-                onConflict: 'ProductVariantId, PlatformConnectionId, PlatformLocationId', // Specify conflict columns based on UNIQUE constraint
-                // ignoreDuplicates: false // Default is false, ensures update happens
-            })
-            .select()
-            .single(); // Expecting one row back after upsert
+            .select('*')
+            .eq('ProductVariantId', result.level.ProductVariantId)
+            .eq('LocationId', locationId)
+            .neq('Id', result.levelId);
+        if (error) {
+            this.logger.error(`Could not load the levels sharing location ${locationId} with level ${result.levelId}: ${error.message}`);
+            return [];
+        }
 
-        if (error || !data) {
-            this.logger.error(`Failed to upsert inventory level for V:${ProductVariantId}, C:${PlatformConnectionId}, L:${locationLog}: ${error?.message}`, error);
-            throw new InternalServerErrorException(`Could not update inventory level: ${error?.message}`);
+        const mirrored: InventoryAdjustmentResult[] = [];
+        for (const copy of (copies || []) as InventoryLevel[]) {
+            mirrored.push(await this.adjustLevel(
+                {
+                    variantId: copy.ProductVariantId,
+                    connectionId: copy.PlatformConnectionId,
+                    locationId: copy.PlatformLocationId,
+                    ...(adjustment.quantity !== undefined ? { quantity: result.quantityAfter } : { delta: result.delta }),
+                    reason: adjustment.reason,
+                    referenceId: adjustment.referenceId,
+                    note: adjustment.note,
+                    sourceConnectionId: adjustment.sourceConnectionId ?? getChangeSource()?.connectionId ?? result.level.PlatformConnectionId,
+                },
+                { ...options, mirror: false },
+            ));
         }
+        return mirrored;
+    }
 
-        this.logger.log(`Successfully upserted inventory level ID: ${data.Id}`);
-        return data as InventoryLevel;
+    /**
+     * A variant's ledger entries, newest first
+     */
+    async getLedgerEntries(
+        userId: string,
+        variantId: string,
+        filters: { connectionId?: string; limit?: number; offset?: number } = {},
+    ): Promise<InventoryLedgerEntry[]> {
+        const limit = Math.min(Math.max(filters.limit ?? 50, 1), 200);
+        const offset = Math.max(filters.offset ?? 0, 0);
+        let query = this.supabaseService
+            .getServiceClient()
+            .from('InventoryLedger')
+            .select('*')
+            .eq('UserId', userId)
+            .eq('ProductVariantId', variantId)
+            .order('Id', { ascending: false })
+            .range(offset, offset + limit - 1);
+        if (filters.connectionId) query = query.eq('PlatformConnectionId', filters.connectionId);
+
+        const { data, error } = await query;
+        if (error) {
+            this.logger.error(`Error fetching inventory ledger for variant ${variantId}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not fetch inventory ledger: ${error.message}`);
+        }
+        return (data || []) as InventoryLedgerEntry[];
+    }
+
+    /**
+     * Claims the ledger entries of these levels that have not been pushed to their
+     * platform yet, and returns per level the delta to push, or requiresSet when
+     * the absolute quantity has to be sent instead. Claimed entries are not
+     * returned again, so call requireInventoryResync if the push fails.
+     */
+    async claimInventoryPush(levelIds: string[]): Promise<InventoryPushClaim[]> {
+        if (levelIds.length === 0) return [];
+        const { data, error } = await this.supabaseService.getServiceClient().rpc('claim_inventory_push', { p_level_ids: levelIds });
+        if (error) {
+            this.logger.error(`Failed to claim inventory push for ${levelIds.length} levels: ${error.message}`);
+            throw new InternalServerErrorException(`Could not claim inventory push: ${error.message}`);
+        }
+        return (data || []) as InventoryPushClaim[];
+    }
+
+    /**
+     * Makes the next push of these levels send their absolute quantity
+     */
+    async requireInventoryResync(levelIds: string[]): Promise<void> {
+        if (levelIds.length === 0) return;
+        const { error } = await this.supabaseService.getServiceClient().rpc('require_inventory_resync', { p_level_ids: levelIds });
+        if (error) {
+            // The claimed deltas are lost to the platform until the next count
+            this.logger.error(`Failed to flag ${levelIds.length} inventory levels for resync: ${error.message}`);
+        }
     }
 
     async saveBulkInventoryLevels(inventoryLevels: CanonicalInventoryLevel[]): Promise<void> {
@@ -116,29 +328,12 @@ export class InventoryService {
         platformLocationId: string | null,
         quantity: number
     ): Promise<InventoryLevel> {
-        const supabase = this.getSupabaseClient();
         this.logger.log(`Updating inventory level for variant ${variantId}, location ${platformLocationId}`);
-
-        const { data, error } = await supabase
-            .from('InventoryLevels')
-            .upsert({
-                ProductVariantId: variantId,
-                PlatformConnectionId: platformConnectionId,
-                PlatformLocationId: platformLocationId,
-                Quantity: quantity,
-                LastPlatformUpdateAt: new Date().toISOString(),
-            }, {
-                onConflict: 'ProductVariantId, PlatformConnectionId, PlatformLocationId',
-            })
-            .select()
-            .single();
-
-        if (error || !data) {
-            this.logger.error(`Failed to update inventory level: ${error?.message}`, error);
-            throw new InternalServerErrorException(`Could not update inventory level: ${error?.message}`);
-        }
-
-        return data as InventoryLevel;
+        const result = await this.adjustLevel(
+            { variantId, connectionId: platformConnectionId, locationId: platformLocationId, quantity, reason: 'recount' },
+            { platformUpdatedAt: new Date().toISOString() },
+        );
+        return result.level;
     }
 
     async getInventoryLevelsByProductId(productId: string): Promise<InventoryLevel[]> {
@@ -161,5 +356,156 @@ export class InventoryService {
         return (data || []) as InventoryLevel[];
     }
 
+    async getInventoryLevelsForVariants(variantIds: string[]): Promise<InventoryLevel[]> {
+        const supabase = this.getSupabaseClient();
+        const levels: InventoryLevel[] = [];
+        const chunkSize = 200;
+        for (let i = 0; i < variantIds.length; i += chunkSize) {
+            const { data, error } = await supabase
+                .from('InventoryLevels')
+                .select('*')
+                .in('ProductVariantId', variantIds.slice(i, i + chunkSize));
+
+            if (error) {
+                this.logger.error(`Error fetching inventory levels for ${variantIds.length} variants: ${error.message}`);
+                throw new InternalServerErrorException(`Could not fetch inventory levels: ${error.message}`);
+            }
+            levels.push(...((data || []) as InventoryLevel[]));
+        }
+        return levels;
+    }
+
+    /**
+     * Inventory levels that make up each variant's on-hand stock. Each connection
+     * mirrors the variant's stock, so these are that connection's levels when
+     * `connectionId` is given, otherwise the best-stocked connection's.
+     * Variants without levels are absent from the map.
+     */
+    async getOnHandLevels(variantIds: string[], connectionId?: string): Promise<Map<string, InventoryLevel[]>> {
+        const result = new Map<string, InventoryLevel[]>();
+        if (variantIds.length === 0) return result;
+
+        const supabase = this.getSupabaseClient();
+        let query = supabase
+            .from('InventoryLevels')
+            .select('*')
+            .in('ProductVariantId', variantIds);
+        if (connectionId) query = query.eq('PlatformConnectionId', connectionId);
+
+        const { data, error } = await query;
+        if (error) {
+            this.logger.error(`Error fetching on-hand levels for ${variantIds.length} variants: ${error.message}`);
+            throw new InternalServerErrorException(`Could not fetch inventory levels: ${error.message}`);
+        }
+
+        const byVariantConnection = new Map<string, InventoryLevel[]>(); // `${variantId}:${connectionId}` -> levels
+        for (const level of (data || []) as InventoryLevel[]) {
+            const key = `${level.ProductVariantId}:${level.PlatformConnectionId}`;
+            byVariantConnection.set(key, [...(byVariantConnection.get(key) || []), level]);
+        }
+        const sum = (levels: InventoryLevel[]) => levels.reduce((total, l) => total + (l.Quantity || 0), 0);
+        for (const levels of byVariantConnection.values()) {
+            const variantId = levels[0].ProductVariantId;
+            const current = result.get(variantId);
+            if (!current || sum(levels) > sum(current)) result.set(variantId, levels);
+        }
+        return result;
+    }
+
+    /**
+     * On-hand quantity per variant; see getOnHandLevels for which levels count.
+     */
+    async getOnHandQuantities(variantIds: string[], connectionId?: string): Promise<Map<string, number>> {
+        const levels = await this.getOnHandLevels(variantIds, connectionId);
+        const result = new Map<string, number>();
+        for (const [variantId, variantLevels] of levels.entries()) {
+            result.set(variantId, variantLevels.reduce((total, l) => total + (l.Quantity || 0), 0));
+        }
+        return result;
+    }
+
+    /**
+     * Applies a sale of `quantity` units to a variant. Each connection keeps its own
+     * copy of the variant's stock, so the units come off every connection (largest
+     * location first), except `excludeConnectionId` when that platform has already
+     * decremented its own stock and will report it through its inventory webhook.
+     * Units beyond a connection's stock are recorded as an oversell on its last level.
+     * Returns the connection IDs whose levels changed.
+     */
+    async decrementAcrossConnections(
+        variantId: string,
+        quantity: number,
+        excludeConnectionId?: string,
+        options: InventoryChangeOptions = { reason: 'sale' },
+    ): Promise<string[]> {
+        if (quantity <= 0) return [];
+        const levels = await this.getInventoryLevelsForVariant(variantId);
+        const byConnection = new Map<string, InventoryLevel[]>();
+        for (const level of levels) {
+            if (level.PlatformConnectionId === excludeConnectionId) continue;
+            byConnection.set(level.PlatformConnectionId, [...(byConnection.get(level.PlatformConnectionId) || []), level]);
+        }
+
+        const changed: string[] = [];
+        for (const [connectionId, connectionLevels] of byConnection.entries()) {
+            const sorted = connectionLevels.sort((a, b) => b.Quantity - a.Quantity);
+            let remaining = quantity;
+            let applied = false;
+            for (const [i, level] of sorted.entries()) {
+                if (remaining <= 0) break;
+                // The last level takes whatever is left, so the ledger records an oversell
+                const deduct = i === sorted.length - 1 ? remaining : Math.min(remaining, Math.max(0, level.Quantity));
+                if (deduct === 0) continue;
+                const result = await this.adjustLevel({
+                    variantId: level.ProductVariantId,
+                    connectionId: level.PlatformConnectionId,
+                    locationId: level.PlatformLocationId,
+                    delta: -deduct,
+                    ...options,
+                }, { mirror: false });
+                applied = applied || result.delta !== 0;
+                remaining -= deduct;
+            }
+            if (applied) changed.push(connectionId);
+        }
+        this.logger.log(`Decremented variant ${variantId} by ${quantity} on ${changed.length} connections`);
+        return changed;
+    }
+
+    /**
+     * Applies a signed stock change to every connection's copy of a variant's stock,
+     * except `excludeConnectionId`. Increases go to each connection's largest location;
+     * decreases follow decrementAcrossConnections. Returns the connection IDs changed.
+     */
+    async adjustAcrossConnections(
+        variantId: string,
+        delta: number,
+        excludeConnectionId: string | undefined,
+        options: InventoryChangeOptions,
+    ): Promise<string[]> {
+        if (delta < 0) return this.decrementAcrossConnections(variantId, -delta, excludeConnectionId, options);
+        if (delta === 0) return [];
+
+        const levels = await this.getInventoryLevelsForVariant(variantId);
+        const largestByConnection = new Map<string, InventoryLevel>();
+        for (const level of levels) {
+            if (level.PlatformConnectionId === excludeConnectionId) continue;
+            const current = largestByConnection.get(level.PlatformConnectionId);
+            if (!current || level.Quantity > current.Quantity) largestByConnection.set(level.PlatformConnectionId, level);
+        }
+
+        for (const level of largestByConnection.values()) {
+            await this.adjustLevel({
+                variantId: level.ProductVariantId,
+                connectionId: level.PlatformConnectionId,
+                locationId: level.PlatformLocationId,
+                delta,
+                ...options,
+            }, { mirror: false });
+        }
+        this.logger.log(`Incremented variant ${variantId} by ${delta} on ${largestByConnection.size} connections`);
+        return [...largestByConnection.keys()];
+    }
+
     // Add other methods as needed (getLevel, getLevelsForVariant, etc.)
 } 
\ No newline at end of file
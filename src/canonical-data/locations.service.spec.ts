@@ -0,0 +1,99 @@
+import { SupabaseService } from '../common/supabase.service';
+import { InventoryLevel, LocationAllocationRule } from '../common/types/supabase.types';
+import { LocationsService } from './locations.service';
+
+const OWN = 'conn-own';
+const OTHER = 'conn-other';
+
+function level(id: string, connectionId: string, locationId: string | null, quantity: number, updatedAt = '2025-08-01T00:00:00Z'): InventoryLevel {
+    return {
+        Id: id,
+        ProductVariantId: 'variant-1',
+        PlatformConnectionId: connectionId,
+        PlatformLocationId: `pl-${id}`,
+        LocationId: locationId,
+        Quantity: quantity,
+        LastPlatformUpdateAt: null,
+        CreatedAt: '2025-08-01T00:00:00Z',
+        UpdatedAt: updatedAt,
+    };
+}
+
+function rule(locationId: string, bufferQuantity = 0, isEnabled = true): LocationAllocationRule {
+    return {
+        Id: `rule-${locationId}`,
+        UserId: 'user-1',
+        PlatformConnectionId: OWN,
+        LocationId: locationId,
+        IsEnabled: isEnabled,
+        BufferQuantity: bufferQuantity,
+        CreatedAt: '2025-08-01T00:00:00Z',
+        UpdatedAt: '2025-08-01T00:00:00Z',
+    };
+}
+
+describe('LocationsService.allocate', () => {
+    let service: LocationsService;
+
+    beforeEach(() => {
+        service = new LocationsService({} as SupabaseService);
+    });
+
+    it('returns null when the connection has no rules', () => {
+        expect(service.allocate([], [level('a', OWN, 'loc-1', 5)], OWN)).toBeNull();
+    });
+
+    it('offers each mapped level its location stock less the buffer', () => {
+        const levels = [level('own-1', OWN, 'loc-1', 10), level('own-2', OWN, 'loc-2', 4)];
+
+        const allocation = service.allocate([rule('loc-1', 3), rule('loc-2')], levels, OWN);
+
+        expect(allocation).toEqual(new Map([['own-1', 7], ['own-2', 4]]));
+    });
+
+    it('offers nothing when the buffer is larger than the stock', () => {
+        const allocation = service.allocate([rule('loc-1', 8)], [level('own-1', OWN, 'loc-1', 5)], OWN);
+
+        expect(allocation!.get('own-1')).toBe(0);
+    });
+
+    it('offers nothing from a disabled location or one without a rule', () => {
+        const levels = [level('own-1', OWN, 'loc-1', 6), level('own-2', OWN, 'loc-2', 9)];
+
+        const allocation = service.allocate([rule('loc-1', 0, false)], levels, OWN);
+
+        expect(allocation).toEqual(new Map([['own-1', 0], ['own-2', 0]]));
+    });
+
+    it('uses the most recently updated copy of a location shared across connections', () => {
+        const levels = [
+            level('own-1', OWN, 'loc-1', 2, '2025-08-01T00:00:00Z'),
+            level('other-1', OTHER, 'loc-1', 7, '2025-08-02T00:00:00Z'),
+        ];
+
+        const allocation = service.allocate([rule('loc-1')], levels, OWN);
+
+        expect(allocation!.get('own-1')).toBe(7);
+    });
+
+    it('gives the first unplaced level the stock of enabled locations the channel has no level at', () => {
+        const levels = [
+            level('own-default', OWN, null, 0),
+            level('own-extra', OWN, null, 3),
+            level('other-1', OTHER, 'loc-1', 5),
+            level('other-2', OTHER, 'loc-2', 4),
+        ];
+
+        const allocation = service.allocate([rule('loc-1', 1), rule('loc-2')], levels, OWN);
+
+        expect(allocation).toEqual(new Map([['own-default', 8], ['own-extra', 0]]));
+    });
+
+    it('does not count a location already placed on one of the channel levels towards the unplaced level', () => {
+        const levels = [level('own-1', OWN, 'loc-1', 5), level('own-default', OWN, null, 0), level('other-2', OTHER, 'loc-2', 4)];
+
+        const allocation = service.allocate([rule('loc-1'), rule('loc-2')], levels, OWN);
+
+        expect(allocation).toEqual(new Map([['own-1', 5], ['own-default', 4]]));
+    });
+});
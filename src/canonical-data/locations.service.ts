@@ -0,0 +1,301 @@
+import { Injectable, Logger, InternalServerErrorException, NotFoundException, BadRequestException } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SupabaseService } from '../common/supabase.service';
+import { InventoryLevel, Location, LocationAllocationRule, LocationMapping } from '../common/types/supabase.types';
+
+export interface LocationStock {
+    productVariantId: string;
+    quantity: number;
+    levels: number; // Connections holding a copy of this stock
+}
+
+/**
+ * Canonical sssync locations, the platform locations mapped onto them, and the
+ * allocation rules saying which locations each channel sells from.
+ * Inventory levels at platform locations mapped to the same canonical location
+ * are copies of one stock (see InventoryService.adjustLevel).
+ */
+@Injectable()
+export class LocationsService {
+    private readonly logger = new Logger(LocationsService.name);
+
+    constructor(private supabaseService: SupabaseService) {}
+
+    private getSupabaseClient(): SupabaseClient {
+        return this.supabaseService.getServiceClient();
+    }
+
+    async listLocations(userId: string): Promise<Location[]> {
+        const { data, error } = await this.getSupabaseClient()
+            .from('Locations')
+            .select('*')
+            .eq('UserId', userId)
+            .order('Name');
+        if (error) {
+            this.logger.error(`Error fetching locations for user ${userId}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not fetch locations: ${error.message}`);
+        }
+        return (data || []) as Location[];
+    }
+
+    async getLocation(userId: string, locationId: string): Promise<Location> {
+        const { data, error } = await this.getSupabaseClient()
+            .from('Locations')
+            .select('*')
+            .eq('UserId', userId)
+            .eq('Id', locationId)
+            .maybeSingle();
+        if (error) {
+            this.logger.error(`Error fetching location ${locationId}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not fetch location: ${error.message}`);
+        }
+        if (!data) throw new NotFoundException(`Location ${locationId} not found.`);
+        return data as Location;
+    }
+
+    async createLocation(userId: string, input: { name: string; address?: Record<string, any> | null }): Promise<Location> {
+        const { data, error } = await this.getSupabaseClient()
+            .from('Locations')
+            .insert({ UserId: userId, Name: input.name, Address: input.address ?? null })
+            .select()
+            .single();
+        if (error) {
+            if (error.code === '23505') throw new BadRequestException(`A location named "${input.name}" already exists.`);
+            this.logger.error(`Error creating location for user ${userId}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not create location: ${error.message}`);
+        }
+        return data as Location;
+    }
+
+    async updateLocation(
+        userId: string,
+        locationId: string,
+        patch: { name?: string; address?: Record<string, any> | null; isActive?: boolean },
+    ): Promise<Location> {
+        await this.getLocation(userId, locationId);
+        const { data, error } = await this.getSupabaseClient()
+            .from('Locations')
+            .update({
+                ...(patch.name !== undefined && { Name: patch.name }),
+                ...(patch.address !== undefined && { Address: patch.address }),
+                ...(patch.isActive !== undefined && { IsActive: patch.isActive }),
+                UpdatedAt: new Date().toISOString(),
+            })
+            .eq('Id', locationId)
+            .select()
+            .single();
+        if (error) {
+            if (error.code === '23505') throw new BadRequestException(`A location named "${patch.name}" already exists.`);
+            this.logger.error(`Error updating location ${locationId}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not update location: ${error.message}`);
+        }
+        return data as Location;
+    }
+
+    /**
+     * Removes a location with its mappings and rules. Its inventory levels stay,
+     * as separate copies per connection again.
+     */
+    async deleteLocation(userId: string, locationId: string): Promise<void> {
+        await this.getLocation(userId, locationId);
+        const { error } = await this.getSupabaseClient().from('Locations').delete().eq('Id', locationId);
+        if (error) {
+            this.logger.error(`Error deleting location ${locationId}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not delete location: ${error.message}`);
+        }
+    }
+
+    async listMappings(userId: string, filters: { locationId?: string; connectionId?: string } = {}): Promise<LocationMapping[]> {
+        let query = this.getSupabaseClient().from('LocationMappings').select('*').eq('UserId', userId);
+        if (filters.locationId) query = query.eq('LocationId', filters.locationId);
+        if (filters.connectionId) query = query.eq('PlatformConnectionId', filters.connectionId);
+        const { data, error } = await query;
+        if (error) {
+            this.logger.error(`Error fetching location mappings for user ${userId}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not fetch location mappings: ${error.message}`);
+        }
+        return (data || []) as LocationMapping[];
+    }
+
+    /**
+     * Maps a platform location to a canonical location, replacing whatever either
+     * was mapped to on that connection before. The connection must belong to the user.
+     */
+    async setMapping(
+        userId: string,
+        input: { locationId: string; connectionId: string; platformLocationId: string; platformLocationName?: string | null },
+    ): Promise<LocationMapping> {
+        await this.getLocation(userId, input.locationId);
+        const supabase = this.getSupabaseClient();
+
+        const { data: connection, error: connectionError } = await supabase
+            .from('PlatformConnections')
+            .select('Id')
+            .eq('Id', input.connectionId)
+            .eq('UserId', userId)
+            .maybeSingle();
+        if (connectionError) {
+            throw new InternalServerErrorException(`Could not fetch connection: ${connectionError.message}`);
+        }
+        if (!connection) throw new NotFoundException(`Connection ${input.connectionId} not found.`);
+
+        for (const [column, value] of [['PlatformLocationId', input.platformLocationId], ['LocationId', input.locationId]]) {
+            const { error: clearError } = await supabase
+                .from('LocationMappings')
+                .delete()
+                .eq('PlatformConnectionId', input.connectionId)
+                .eq(column, value);
+            if (clearError) {
+                this.logger.error(`Error clearing location mappings on connection ${input.connectionId}: ${clearError.message}`);
+                throw new InternalServerErrorException(`Could not map location: ${clearError.message}`);
+            }
+        }
+
+        const { data, error } = await supabase
+            .from('LocationMappings')
+            .insert({
+                UserId: userId,
+                LocationId: input.locationId,
+                PlatformConnectionId: input.connectionId,
+                PlatformLocationId: input.platformLocationId,
+                PlatformLocationName: input.platformLocationName ?? null,
+            })
+            .select()
+            .single();
+        if (error) {
+            this.logger.error(`Error mapping ${input.platformLocationId} to location ${input.locationId}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not map location: ${error.message}`);
+        }
+        this.logger.log(`Mapped ${input.platformLocationId} on connection ${input.connectionId} to location ${input.locationId}`);
+        return data as LocationMapping;
+    }
+
+    async deleteMapping(userId: string, mappingId: string): Promise<void> {
+        const { data, error } = await this.getSupabaseClient()
+            .from('LocationMappings')
+            .delete()
+            .eq('UserId', userId)
+            .eq('Id', mappingId)
+            .select('Id');
+        if (error) {
+            this.logger.error(`Error deleting location mapping ${mappingId}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not delete location mapping: ${error.message}`);
+        }
+        if (!data || data.length === 0) throw new NotFoundException(`Location mapping ${mappingId} not found.`);
+    }
+
+    /**
+     * Stock held at a canonical location, per variant. The copies on each
+     * connection should agree; the most recently updated one is reported.
+     */
+    async getLocationStock(userId: string, locationId: string): Promise<LocationStock[]> {
+        await this.getLocation(userId, locationId);
+        const { data, error } = await this.getSupabaseClient()
+            .from('InventoryLevels')
+            .select('*')
+            .eq('LocationId', locationId);
+        if (error) {
+            this.logger.error(`Error fetching stock at location ${locationId}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not fetch location stock: ${error.message}`);
+        }
+
+        const byVariant = new Map<string, InventoryLevel[]>();
+        for (const level of (data || []) as InventoryLevel[]) {
+            byVariant.set(level.ProductVariantId, [...(byVariant.get(level.ProductVariantId) || []), level]);
+        }
+        return [...byVariant.entries()].map(([productVariantId, levels]) => ({
+            productVariantId,
+            quantity: this.latestCopy(levels).Quantity,
+            levels: levels.length,
+        }));
+    }
+
+    async getAllocationRules(connectionId: string): Promise<LocationAllocationRule[]> {
+        const { data, error } = await this.getSupabaseClient()
+            .from('LocationAllocationRules')
+            .select('*')
+            .eq('PlatformConnectionId', connectionId);
+        if (error) {
+            this.logger.error(`Error fetching allocation rules for connection ${connectionId}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not fetch allocation rules: ${error.message}`);
+        }
+        return (data || []) as LocationAllocationRule[];
+    }
+
+    /**
+     * Replaces a connection's allocation rules. An empty list lets the channel
+     * sell its own stock again.
+     */
+    async setAllocationRules(
+        userId: string,
+        connectionId: string,
+        rules: Array<{ locationId: string; isEnabled?: boolean; bufferQuantity?: number }>,
+    ): Promise<LocationAllocationRule[]> {
+        const locationIds = new Set((await this.listLocations(userId)).map(l => l.Id));
+        const unknown = rules.find(r => !locationIds.has(r.locationId));
+        if (unknown) throw new NotFoundException(`Location ${unknown.locationId} not found.`);
+
+        const supabase = this.getSupabaseClient();
+        const { error: deleteError } = await supabase
+            .from('LocationAllocationRules')
+            .delete()
+            .eq('UserId', userId)
+            .eq('PlatformConnectionId', connectionId);
+        if (deleteError) {
+            this.logger.error(`Error clearing allocation rules for connection ${connectionId}: ${deleteError.message}`);
+            throw new InternalServerErrorException(`Could not save allocation rules: ${deleteError.message}`);
+        }
+        if (rules.length === 0) return [];
+
+        const { data, error } = await supabase
+            .from('LocationAllocationRules')
+            .insert(rules.map(r => ({
+                UserId: userId,
+                PlatformConnectionId: connectionId,
+                LocationId: r.locationId,
+                IsEnabled: r.isEnabled ?? true,
+                BufferQuantity: r.bufferQuantity ?? 0,
+            })))
+            .select();
+        if (error) {
+            this.logger.error(`Error saving allocation rules for connection ${connectionId}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not save allocation rules: ${error.message}`);
+        }
+        return (data || []) as LocationAllocationRule[];
+    }
+
+    /**
+     * What a connection with allocation rules should offer of one variant: the
+     * stock at each enabled location less its buffer. `levels` are the variant's
+     * levels on every connection. Returns the quantity for each of the
+     * connection's own levels: a level mapped to a location gets that location's
+     * allocation (0 if the channel does not sell from it), and the first unmapped
+     * level gets the allocation of enabled locations it has no level for.
+     * Returns null when the connection has no rules.
+     */
+    allocate(rules: LocationAllocationRule[], levels: InventoryLevel[], connectionId: string): Map<string, number> | null {
+        if (rules.length === 0) return null;
+
+        const available = new Map<string, number>();
+        for (const rule of rules.filter(r => r.IsEnabled)) {
+            const copies = levels.filter(l => l.LocationId === rule.LocationId);
+            if (copies.length === 0) continue;
+            available.set(rule.LocationId, Math.max(0, this.latestCopy(copies).Quantity - rule.BufferQuantity));
+        }
+
+        const ownLevels = levels.filter(l => l.PlatformConnectionId === connectionId);
+        const allocation = new Map<string, number>();
+        const placed = new Set<string>();
+        for (const level of ownLevels.filter(l => l.LocationId)) {
+            allocation.set(level.Id, available.get(level.LocationId!) ?? 0);
+            placed.add(level.LocationId!);
+        }
+        const unplaced = [...available.entries()].filter(([locationId]) => !placed.has(locationId)).reduce((sum, [, qty]) => sum + qty, 0);
+        ownLevels.filter(l => !l.LocationId).forEach((level, i) => allocation.set(level.Id, i === 0 ? unplaced : 0));
+        return allocation;
+    }
+
+    private latestCopy(levels: InventoryLevel[]): InventoryLevel {
+        return levels.reduce((latest, level) => (level.UpdatedAt > latest.UpdatedAt ? level : latest));
+    }
+}
@@ -173,6 +173,23 @@ export class ProductsService {
         }
     }
 
+    /**
+     * Replaces a variant's images with `imageUrls`, in that order.
+     */
+    async replaceVariantImages(variantId: string, imageUrls: string[]): Promise<void> {
+        const supabase = this.getSupabaseClient();
+        const { error } = await supabase
+            .from('ProductImages')
+            .delete()
+            .eq('ProductVariantId', variantId);
+
+        if (error) {
+            this.logger.error(`Failed to clear images for variant ${variantId}: ${error.message}`, error.stack);
+            throw new InternalServerErrorException(`Could not replace images for variant ${variantId}: ${error.message}`);
+        }
+        await this.saveVariantImages(variantId, imageUrls);
+    }
+
     async saveBulkVariantImages(images: Array<{ ProductVariantId: string; ImageUrl: string; Position: number }>): Promise<void> {
         const supabase = this.getSupabaseClient();
         if (!images || images.length === 0) {
@@ -231,6 +248,64 @@ export class ProductsService {
         return data as ProductVariant | null;
     }
 
+    async getVariantBySku(userId: string, sku: string): Promise<ProductVariant | null> {
+        const supabase = this.getSupabaseClient();
+        this.logger.debug(`Fetching variant by SKU ${sku} for user ${userId}`);
+        const { data, error } = await supabase
+            .from('ProductVariants')
+            .select('*')
+            .eq('UserId', userId)
+            .eq('Sku', sku)
+            .maybeSingle();
+
+        if (error) {
+            this.logger.error(`Error fetching variant by SKU ${sku}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not fetch variant: ${error.message}`);
+        }
+        return data as ProductVariant | null;
+    }
+
+    async getVariantsByIds(variantIds: string[]): Promise<ProductVariant[]> {
+        const supabase = this.getSupabaseClient();
+        const variants: ProductVariant[] = [];
+        const chunkSize = 200;
+        for (let i = 0; i < variantIds.length; i += chunkSize) {
+            const { data, error } = await supabase
+                .from('ProductVariants')
+                .select('*')
+                .in('Id', variantIds.slice(i, i + chunkSize));
+
+            if (error) {
+                this.logger.error(`Error fetching ${variantIds.length} variants by ID: ${error.message}`);
+                throw new InternalServerErrorException(`Could not fetch variants: ${error.message}`);
+            }
+            variants.push(...((data || []) as ProductVariant[]));
+        }
+        return variants;
+    }
+
+    async getVariantsBySkus(userId: string, skus: string[]): Promise<ProductVariant[]> {
+        if (skus.length === 0) return [];
+        const supabase = this.getSupabaseClient();
+        const variants: ProductVariant[] = [];
+        // Keep the IN list short enough for the request URL
+        const chunkSize = 200;
+        for (let i = 0; i < skus.length; i += chunkSize) {
+            const { data, error } = await supabase
+                .from('ProductVariants')
+                .select('*')
+                .eq('UserId', userId)
+                .in('Sku', skus.slice(i, i + chunkSize));
+
+            if (error) {
+                this.logger.error(`Error fetching variants by SKU for user ${userId}: ${error.message}`);
+                throw new InternalServerErrorException(`Could not fetch variants: ${error.message}`);
+            }
+            variants.push(...((data || []) as ProductVariant[]));
+        }
+        return variants;
+    }
+
     async getVariantsByProductId(productId: string, userId?: string): Promise<ProductVariant[]> {
         const supabase = this.getSupabaseClient();
         this.logger.debug(`Fetching variants for product ID: ${productId}` + (userId ? ` and user ID: ${userId}` : ''));
@@ -252,6 +327,87 @@ export class ProductsService {
         return (data || []) as ProductVariant[];
     }
 
+    /**
+     * Image URLs across all variants of a product, ordered by Position and de-duplicated.
+     * Used by adapters when building listings, since canonical pushes don't carry images.
+     */
+    async getProductImageUrls(productId: string, userId?: string): Promise<string[]> {
+        const supabase = this.getSupabaseClient();
+        const variants = await this.getVariantsByProductId(productId, userId);
+        if (variants.length === 0) {
+            return [];
+        }
+
+        const { data, error } = await supabase
+            .from('ProductImages')
+            .select('ImageUrl, Position')
+            .in('ProductVariantId', variants.map(v => v.Id))
+            .order('Position', { ascending: true });
+
+        if (error) {
+            this.logger.error(`Error fetching images for product ${productId}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not fetch product images: ${error.message}`);
+        }
+        return Array.from(new Set((data || []).map(img => img.ImageUrl).filter(Boolean)));
+    }
+
+    /**
+     * Image URLs keyed by variant, each list ordered by Position. Variants without
+     * images are absent from the map.
+     */
+    async getImageUrlsForVariants(variantIds: string[]): Promise<Map<string, string[]>> {
+        const result = new Map<string, string[]>();
+        if (variantIds.length === 0) return result;
+
+        const supabase = this.getSupabaseClient();
+        const { data, error } = await supabase
+            .from('ProductImages')
+            .select('ProductVariantId, ImageUrl, Position')
+            .in('ProductVariantId', variantIds)
+            .order('Position', { ascending: true });
+
+        if (error) {
+            this.logger.error(`Error fetching images for ${variantIds.length} variants: ${error.message}`);
+            throw new InternalServerErrorException(`Could not fetch variant images: ${error.message}`);
+        }
+        for (const img of data || []) {
+            if (!img.ImageUrl) continue;
+            result.set(img.ProductVariantId, [...(result.get(img.ProductVariantId) || []), img.ImageUrl]);
+        }
+        return result;
+    }
+
+    /**
+     * Latest active AI-generated listing details for one platform (AiGeneratedContent rows
+     * tagged with Metadata.platform), parsed from GeneratedText. Returns null if none exist.
+     */
+    async getLatestGeneratedPlatformDetails<T = Record<string, any>>(productId: string, platform: string): Promise<Partial<T> | null> {
+        const supabase = this.getSupabaseClient();
+        const { data, error } = await supabase
+            .from('AiGeneratedContent')
+            .select('GeneratedText')
+            .eq('ProductId', productId)
+            .eq('IsActive', true)
+            .eq('Metadata->>platform', platform.toLowerCase())
+            .order('CreatedAt', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        if (error) {
+            this.logger.error(`Error fetching generated ${platform} details for product ${productId}: ${error.message}`);
+            throw new InternalServerErrorException(`Could not fetch generated details: ${error.message}`);
+        }
+        if (!data?.GeneratedText) {
+            return null;
+        }
+        try {
+            return JSON.parse(data.GeneratedText) as Partial<T>;
+        } catch {
+            this.logger.warn(`Generated ${platform} details for product ${productId} are not valid JSON. Ignoring.`);
+            return null;
+        }
+    }
+
     async updateProduct(productId: string, updates: Partial<Product>): Promise<Product> {
         const supabase = this.getSupabaseClient();
         this.logger.log(`Updating product ${productId} with ${JSON.stringify(updates)}`);
@@ -268,6 +424,22 @@ export class ProductsService {
         return data as Product;
     }
 
+    async updateVariant(variantId: string, updates: Partial<Omit<ProductVariant, 'Id' | 'ProductId' | 'UserId' | 'CreatedAt'>>): Promise<ProductVariant> {
+        const supabase = this.getSupabaseClient();
+        this.logger.log(`Updating variant ${variantId} (${Object.keys(updates).join(', ')})`);
+        const { data, error } = await supabase
+            .from('ProductVariants')
+            .update({ ...updates, UpdatedAt: new Date().toISOString() })
+            .eq('Id', variantId)
+            .select()
+            .single();
+        if (error || !data) {
+            this.logger.error(`Failed to update variant ${variantId}: ${error?.message}`);
+            throw new InternalServerErrorException(`Could not update variant: ${error?.message}`);
+        }
+        return data as ProductVariant;
+    }
+
     async deleteProductAndVariants(productId: string, userId: string): Promise<void> {
         const supabase = this.getSupabaseClient();
         this.logger.log(`Deleting product ${productId} and its variants for user ${userId}.`);
@@ -12,7 +12,7 @@ export interface AiUsageMetadata {
 
 export interface TrackUsageParams {
   userId: string;
-  serviceType: 'embedding' | 'generation' | 'firecrawl' | 'serpapi' | 'firecrawl_search' | 'firecrawl_scrape' | 'siglip_embedding' | 'qwen3_embedding';
+  serviceType: 'embedding' | 'generation' | 'ocr' | 'smart_picker' | 'matching' | 'firecrawl' | 'serpapi' | 'firecrawl_search' | 'firecrawl_scrape' | 'siglip_embedding' | 'qwen3_embedding';
   modelName: string;
   operation: string;
   inputTokens?: number;
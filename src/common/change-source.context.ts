@@ -0,0 +1,61 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Where a write to the catalog comes from. SupabaseService sends it with every
+ * request as CHANGE_SOURCE_HEADER, and the product revision triggers store it
+ * on each revision (falling back to 'system').
+ */
+export type ChangeSource = 'user' | 'webhook' | 'ai' | 'import' | 'sync' | 'restore' | 'system';
+
+export interface ChangeSourceContext {
+  source: ChangeSource;
+  detail?: string; // e.g. the platform type, or an import job ID
+  connectionId?: string; // Platform connection the change came in through (webhooks)
+}
+
+export const CHANGE_SOURCE_HEADER = 'x-sssync-change-source';
+export const CHANGE_DETAIL_HEADER = 'x-sssync-change-detail';
+export const CHANGE_CONNECTION_HEADER = 'x-sssync-change-connection';
+
+const storage = new AsyncLocalStorage<ChangeSourceContext>();
+
+/**
+ * Runs `fn` with every catalog write inside it attributed to `source`.
+ */
+export function runWithChangeSource<T>(source: ChangeSource, detail: string | undefined, fn: () => T): T {
+  return storage.run({ source, detail }, fn);
+}
+
+/**
+ * Runs `fn` in the current change source, tagged with the connection the change
+ * came in through. The sync outbox trigger uses it to skip that connection.
+ */
+export function runWithSourceConnection<T>(connectionId: string, fn: () => T): T {
+  const context = storage.getStore();
+  if (!context) return fn();
+  return storage.run({ ...context, connectionId }, fn);
+}
+
+export function getChangeSource(): ChangeSourceContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * fetch for the Supabase clients: adds the change source headers when called
+ * inside runWithChangeSource.
+ */
+export const fetchWithChangeSource: typeof fetch = (input, init) => {
+  const context = storage.getStore();
+  if (!context) return fetch(input, init);
+
+  const headers = new Headers(init?.headers);
+  headers.set(CHANGE_SOURCE_HEADER, context.source);
+  if (context.detail) {
+    // Header values must be plain ASCII
+    headers.set(CHANGE_DETAIL_HEADER, context.detail.replace(/[^\w.:@-]/g, '_').slice(0, 200));
+  }
+  if (context.connectionId) {
+    headers.set(CHANGE_CONNECTION_HEADER, context.connectionId);
+  }
+  return fetch(input, { ...init, headers });
+};
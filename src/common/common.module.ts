@@ -5,6 +5,7 @@ import { SupabaseService } from './supabase.service';
 import { EncryptionService } from './encryption.service';
 import { ActivityLogService } from './activity-log.service';
 import { AiUsageTrackerService } from './ai-usage-tracker.service';
+import { LlmService } from './llm/llm.service';
 
 //@Global()
 @Module({
@@ -22,6 +23,7 @@ import { AiUsageTrackerService } from './ai-usage-tracker.service';
     EncryptionService, 
     ActivityLogService,
     AiUsageTrackerService,
+    LlmService,
     {
       provide: SupabaseService,
       useFactory: async (configService: ConfigService) => {
@@ -32,6 +34,6 @@ import { AiUsageTrackerService } from './ai-usage-tracker.service';
       inject: [ConfigService],
     },
   ],
-  exports: [SupabaseService, EncryptionService, JwtModule, ActivityLogService, AiUsageTrackerService],
+  exports: [SupabaseService, EncryptionService, JwtModule, ActivityLogService, AiUsageTrackerService, LlmService],
 })
 export class CommonModule {}
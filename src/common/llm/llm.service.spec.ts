@@ -0,0 +1,98 @@
+import { ConfigService } from '@nestjs/config';
+import { AiUsageTrackerService } from '../ai-usage-tracker.service';
+import { LlmService } from './llm.service';
+import { LlmUnavailableError } from './llm.types';
+import { FakeLlmProvider } from './providers/fake.provider';
+
+describe('LlmService', () => {
+  let service: LlmService;
+  let primary: FakeLlmProvider;
+  let secondary: FakeLlmProvider;
+  let trackUsage: jest.Mock;
+
+  beforeEach(() => {
+    const config: Record<string, string> = {
+      LLM_ROUTES_GENERATION: 'primary:model-a,secondary:model-b',
+    };
+    trackUsage = jest.fn().mockResolvedValue('usage-id');
+    service = new LlmService(
+      { get: (key: string) => config[key] } as unknown as ConfigService,
+      { trackUsage } as unknown as AiUsageTrackerService,
+    );
+    primary = new FakeLlmProvider('primary');
+    secondary = new FakeLlmProvider('secondary');
+    service.registerProvider(primary);
+    service.registerProvider(secondary);
+  });
+
+  it('completes with the first provider on the route', async () => {
+    primary.respondOnce('{"shopify":{}}');
+
+    const completion = await service.complete('generation', { messages: [{ role: 'user', content: 'hello' }] });
+
+    expect(completion).toMatchObject({ content: '{"shopify":{}}', provider: 'primary', model: 'model-a' });
+    expect(secondary.calls).toHaveLength(0);
+  });
+
+  it('falls back to the next provider when one fails', async () => {
+    primary.respondOnce(new Error('503 Service Unavailable'));
+    secondary.respondOnce('ok');
+
+    const completion = await service.complete('generation', { messages: [{ role: 'user', content: 'hello' }] });
+
+    expect(completion).toMatchObject({ content: 'ok', provider: 'secondary', model: 'model-b' });
+    expect(primary.calls).toHaveLength(1);
+  });
+
+  it('tracks the tokens of the provider that answered', async () => {
+    secondary.respondAlways('a reply of some length');
+    service.setRoute('generation', 'secondary:model-b');
+
+    const completion = await service.complete(
+      'generation',
+      { messages: [{ role: 'user', content: 'hello' }] },
+      { userId: 'user-1', operation: 'generate_details' },
+    );
+
+    expect(trackUsage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-1',
+        serviceType: 'generation',
+        modelName: 'secondary/model-b',
+        operation: 'generate_details',
+        inputTokens: completion.inputTokens,
+        outputTokens: completion.outputTokens,
+      }),
+    );
+  });
+
+  it('tracks each task under its own service type', async () => {
+    secondary.respondAlways('text from the image');
+    service.setRoute('vision_ocr', 'secondary:model-b');
+
+    await service.complete('vision_ocr', { messages: [{ role: 'user', content: 'read this' }] }, { userId: 'user-1', operation: 'ocr' });
+
+    expect(trackUsage).toHaveBeenCalledWith(expect.objectContaining({ serviceType: 'ocr', operation: 'ocr' }));
+  });
+
+  it('does not track completions without a user', async () => {
+    await service.complete('generation', { messages: [{ role: 'user', content: 'hello' }] });
+
+    expect(trackUsage).not.toHaveBeenCalled();
+  });
+
+  it('throws LlmUnavailableError when every provider fails', async () => {
+    primary.respondOnce(new Error('timeout'));
+    secondary.respondOnce(new Error('rate limited'));
+
+    await expect(service.complete('generation', { messages: [{ role: 'user', content: 'hello' }] })).rejects.toBeInstanceOf(
+      LlmUnavailableError,
+    );
+  });
+
+  it('skips providers that are not configured', () => {
+    // Without GROQ_API_KEY the default route for OCR has nothing to call
+    expect(service.isAvailable('vision_ocr')).toBe(false);
+    expect(service.isAvailable('generation')).toBe(true);
+  });
+});
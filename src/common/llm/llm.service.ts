@@ -0,0 +1,150 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AiUsageTrackerService } from '../ai-usage-tracker.service';
+import {
+  LLM_TASKS,
+  LLM_TASK_SERVICE_TYPES,
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+  LlmRoute,
+  LlmTask,
+  LlmUnavailableError,
+  LlmUsageContext,
+} from './llm.types';
+import { GroqLlmProvider } from './providers/groq.provider';
+import { OpenAiCompatibleLlmProvider } from './providers/openai-compatible.provider';
+import { StubLlmProvider } from './providers/stub.provider';
+
+// The models each task used before routes were configurable
+const DEFAULT_ROUTES: Record<LlmTask, string> = {
+  generation: 'groq:qwen/qwen3-32b',
+  vision_ocr: 'groq:meta-llama/llama-4-maverick-17b-128e-instruct',
+  picking: 'groq:meta-llama/llama-4-scout-17b-16e-instruct',
+  matching: 'groq:deepseek-r1-distill-llama-70b',
+};
+
+/**
+ * Runs chat completions for a task through its configured route of providers,
+ * falling back to the next one when a provider fails. A route is set per task as
+ * a comma-separated list of provider:model, e.g.
+ * LLM_ROUTES_GENERATION=groq:qwen/qwen3-32b,openai:gpt-4o-mini
+ */
+@Injectable()
+export class LlmService {
+  private readonly logger = new Logger(LlmService.name);
+  private readonly providers = new Map<string, LlmProvider>();
+  private readonly routes = new Map<LlmTask, LlmRoute[]>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly aiUsageTracker: AiUsageTrackerService,
+  ) {
+    this.registerProvider(new GroqLlmProvider(this.configService.get<string>('GROQ_API_KEY')));
+    this.registerProvider(
+      new OpenAiCompatibleLlmProvider(
+        this.configService.get<string>('OPENAI_COMPATIBLE_BASE_URL'),
+        this.configService.get<string>('OPENAI_COMPATIBLE_API_KEY'),
+      ),
+    );
+    this.registerProvider(new StubLlmProvider(this.configService.get<string>('LLM_STUB_RESPONSE') ?? '{}'));
+
+    for (const task of LLM_TASKS) {
+      const configured = this.configService.get<string>(`LLM_ROUTES_${task.toUpperCase()}`);
+      this.routes.set(task, this.parseRoute(configured || DEFAULT_ROUTES[task]));
+    }
+  }
+
+  /**
+   * Adds or replaces a provider by name, e.g. a FakeLlmProvider in tests
+   */
+  registerProvider(provider: LlmProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  setRoute(task: LlmTask, route: LlmRoute[] | string): void {
+    this.routes.set(task, typeof route === 'string' ? this.parseRoute(route) : route);
+  }
+
+  getRoute(task: LlmTask): LlmRoute[] {
+    return this.routes.get(task) ?? [];
+  }
+
+  /**
+   * Whether any provider on the task's route can be called
+   */
+  isAvailable(task: LlmTask): boolean {
+    return this.getRoute(task).some(r => this.providers.get(r.provider)?.isConfigured());
+  }
+
+  /**
+   * Completes the request with the first provider on the task's route that
+   * succeeds, and tracks its tokens against the user. Throws LlmUnavailableError
+   * when every provider failed or none is configured.
+   */
+  async complete(task: LlmTask, request: LlmCompletionRequest, usage?: LlmUsageContext): Promise<LlmCompletion> {
+    const attempts: Array<{ provider: string; model: string; error: string }> = [];
+
+    for (const route of this.getRoute(task)) {
+      const provider = this.providers.get(route.provider);
+      if (!provider?.isConfigured()) continue;
+
+      try {
+        const completion = await provider.complete(route.model, request);
+        if (attempts.length) {
+          this.logger.warn(`[${task}] Fell back to ${route.provider}/${route.model} after ${attempts.map(a => a.provider).join(', ')} failed`);
+        }
+        await this.trackUsage(task, completion, usage, attempts);
+        return completion;
+      } catch (error) {
+        this.logger.warn(`[${task}] ${route.provider}/${route.model} failed: ${error.message}`);
+        attempts.push({ provider: route.provider, model: route.model, error: error.message });
+      }
+    }
+
+    throw new LlmUnavailableError(task, attempts);
+  }
+
+  private async trackUsage(
+    task: LlmTask,
+    completion: LlmCompletion,
+    usage: LlmUsageContext | undefined,
+    failedAttempts: Array<{ provider: string }>,
+  ): Promise<void> {
+    if (!usage?.userId) return;
+    try {
+      await this.aiUsageTracker.trackUsage({
+        userId: usage.userId,
+        serviceType: LLM_TASK_SERVICE_TYPES[task],
+        modelName: `${completion.provider}/${completion.model}`,
+        operation: usage.operation ?? task,
+        inputTokens: completion.inputTokens,
+        outputTokens: completion.outputTokens,
+        metadata: {
+          ...usage.metadata,
+          task,
+          provider: completion.provider,
+          ...(failedAttempts.length ? { fellBackFrom: failedAttempts.map(a => a.provider) } : {}),
+        },
+      });
+    } catch (error) {
+      this.logger.warn(`[${task}] Failed to track usage for user ${usage.userId}: ${error.message}`);
+    }
+  }
+
+  private parseRoute(value: string): LlmRoute[] {
+    return value
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const separator = entry.indexOf(':');
+        if (separator <= 0) {
+          this.logger.warn(`Ignoring LLM route entry "${entry}": expected provider:model`);
+          return null;
+        }
+        return { provider: entry.slice(0, separator), model: entry.slice(separator + 1) };
+      })
+      .filter((route): route is LlmRoute => !!route);
+  }
+}
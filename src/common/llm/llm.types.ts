@@ -0,0 +1,95 @@
+import { AiUsageMetadata, TrackUsageParams } from '../ai-usage-tracker.service';
+
+/**
+ * What a completion is for. Each task has its own provider route, so an outage
+ * of one provider does not take out generation, OCR and picking together.
+ */
+export type LlmTask = 'generation' | 'vision_ocr' | 'picking' | 'matching';
+
+export const LLM_TASKS: LlmTask[] = ['generation', 'vision_ocr', 'picking', 'matching'];
+
+/** The AiUsage service type each task is billed and reported under */
+export const LLM_TASK_SERVICE_TYPES: Record<LlmTask, TrackUsageParams['serviceType']> = {
+  generation: 'generation',
+  vision_ocr: 'ocr',
+  picking: 'smart_picker',
+  matching: 'matching',
+};
+
+export type LlmContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | LlmContentPart[];
+}
+
+export interface LlmCompletionRequest {
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean; // Ask the provider for a JSON object response
+}
+
+export interface LlmCompletion {
+  content: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * A chat completion backend. Providers report the tokens they were billed for;
+ * LlmService does the usage accounting so it is the same for every provider.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  complete(model: string, request: LlmCompletionRequest): Promise<LlmCompletion>;
+}
+
+export interface LlmRoute {
+  provider: string;
+  model: string;
+}
+
+/**
+ * Who to bill a completion to. Completions without a user are not tracked.
+ */
+export interface LlmUsageContext {
+  userId?: string;
+  operation?: string;
+  metadata?: AiUsageMetadata;
+}
+
+/**
+ * Thrown when every provider on a task's route failed or none is configured
+ */
+export class LlmUnavailableError extends Error {
+  constructor(
+    public readonly task: LlmTask,
+    public readonly attempts: Array<{ provider: string; model: string; error: string }>,
+  ) {
+    super(
+      attempts.length
+        ? `No LLM provider could complete ${task}: ${attempts.map(a => `${a.provider}/${a.model}: ${a.error}`).join('; ')}`
+        : `No LLM provider is configured for ${task}`,
+    );
+    this.name = 'LlmUnavailableError';
+  }
+}
+
+/**
+ * Rough token count for providers that do not report usage (about 4 characters a token)
+ */
+export function estimateTokens(value: string | LlmMessage[]): number {
+  const text =
+    typeof value === 'string'
+      ? value
+      : value
+          .map(m => (typeof m.content === 'string' ? m.content : m.content.map(p => (p.type === 'text' ? p.text : '')).join(' ')))
+          .join('\n');
+  return Math.ceil(text.length / 4);
+}
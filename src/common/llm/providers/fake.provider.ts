@@ -0,0 +1,51 @@
+import { LlmCompletion, LlmCompletionRequest, LlmProvider, estimateTokens } from '../llm.types';
+
+type FakeResponse = string | Error | ((request: LlmCompletionRequest, model: string) => string);
+
+/**
+ * Deterministic provider for tests: replies from a script, records every call
+ * and makes no network requests. Register it with LlmService.registerProvider
+ * and route a task to it, e.g. LLM_ROUTES_GENERATION=fake:test-model.
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly calls: Array<{ model: string; request: LlmCompletionRequest }> = [];
+  private readonly script: FakeResponse[] = [];
+  private fallback: FakeResponse = '{}';
+
+  constructor(readonly name: string = 'fake') {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * Queues a reply for the next call. Errors are thrown instead.
+   */
+  respondOnce(response: FakeResponse): this {
+    this.script.push(response);
+    return this;
+  }
+
+  /**
+   * The reply once the queued ones are used up
+   */
+  respondAlways(response: FakeResponse): this {
+    this.fallback = response;
+    return this;
+  }
+
+  complete(model: string, request: LlmCompletionRequest): Promise<LlmCompletion> {
+    this.calls.push({ model, request });
+    const response = this.script.length ? this.script.shift()! : this.fallback;
+    if (response instanceof Error) return Promise.reject(response);
+
+    const content = typeof response === 'function' ? response(request, model) : response;
+    return Promise.resolve({
+      content,
+      provider: this.name,
+      model,
+      inputTokens: estimateTokens(request.messages),
+      outputTokens: estimateTokens(content),
+    });
+  }
+}
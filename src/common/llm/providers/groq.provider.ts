@@ -0,0 +1,36 @@
+import Groq from 'groq-sdk';
+import { LlmCompletion, LlmCompletionRequest, LlmProvider, estimateTokens } from '../llm.types';
+
+export class GroqLlmProvider implements LlmProvider {
+  readonly name = 'groq';
+  private readonly client: Groq | null;
+
+  constructor(apiKey: string | undefined) {
+    this.client = apiKey ? new Groq({ apiKey }) : null;
+  }
+
+  isConfigured(): boolean {
+    return !!this.client;
+  }
+
+  async complete(model: string, request: LlmCompletionRequest): Promise<LlmCompletion> {
+    if (!this.client) throw new Error('GROQ_API_KEY is not configured');
+
+    const completion = await this.client.chat.completions.create({
+      model,
+      messages: request.messages as Groq.Chat.ChatCompletionMessageParam[],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+    });
+
+    const content = completion.choices[0]?.message?.content ?? '';
+    return {
+      content,
+      provider: this.name,
+      model,
+      inputTokens: completion.usage?.prompt_tokens ?? estimateTokens(request.messages),
+      outputTokens: completion.usage?.completion_tokens ?? estimateTokens(content),
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import axios from 'axios';
+import { LlmCompletion, LlmCompletionRequest, LlmProvider, estimateTokens } from '../llm.types';
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, Together,
+ * OpenRouter, or a local vLLM or Ollama (which need no API key).
+ */
+export class OpenAiCompatibleLlmProvider implements LlmProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private readonly baseUrl: string | undefined,
+    private readonly apiKey: string | undefined,
+    private readonly timeoutMs: number = 60000,
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  async complete(model: string, request: LlmCompletionRequest): Promise<LlmCompletion> {
+    if (!this.baseUrl) throw new Error('OPENAI_COMPATIBLE_BASE_URL is not configured');
+
+    const response = await axios.post(
+      `${this.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+      {
+        model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+      },
+      {
+        headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+        timeout: this.timeoutMs,
+      },
+    );
+
+    const content: string = response.data?.choices?.[0]?.message?.content ?? '';
+    return {
+      content,
+      provider: this.name,
+      model,
+      inputTokens: response.data?.usage?.prompt_tokens ?? estimateTokens(request.messages),
+      outputTokens: response.data?.usage?.completion_tokens ?? estimateTokens(content),
+    };
+  }
+}
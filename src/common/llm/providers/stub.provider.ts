@@ -0,0 +1,25 @@
+import { LlmCompletion, LlmCompletionRequest, LlmProvider, estimateTokens } from '../llm.types';
+
+/**
+ * Answers every request with the same text and never leaves the process, for
+ * running the app locally without provider keys. Only used where a route names it.
+ */
+export class StubLlmProvider implements LlmProvider {
+  readonly name = 'stub';
+
+  constructor(private readonly response: string = '{}') {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  complete(model: string, request: LlmCompletionRequest): Promise<LlmCompletion> {
+    return Promise.resolve({
+      content: this.response,
+      provider: this.name,
+      model,
+      inputTokens: estimateTokens(request.messages),
+      outputTokens: estimateTokens(this.response),
+    });
+  }
+}
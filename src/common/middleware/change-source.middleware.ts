@@ -0,0 +1,15 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { runWithChangeSource } from '../change-source.context';
+
+/**
+ * Attributes catalog writes made while handling an API request to the user.
+ * Code that writes on behalf of something else (webhooks, imports, AI) wraps
+ * its work in its own runWithChangeSource.
+ */
+@Injectable()
+export class ChangeSourceMiddleware implements NestMiddleware {
+  use(req: Request, res: Response, next: NextFunction) {
+    runWithChangeSource('user', undefined, () => next());
+  }
+}
@@ -1,6 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import Groq from 'groq-sdk';
+import { LlmService } from './llm/llm.service';
+import { LlmUsageContext } from './llm/llm.types';
 
 export interface OcrResult {
   text: string;
@@ -19,36 +19,24 @@ export interface OcrResult {
 @Injectable()
 export class OcrService {
   private readonly logger = new Logger(OcrService.name);
-  private readonly groqClient: Groq | null;
 
-  constructor(private readonly configService: ConfigService) {
-    const groqApiKey = this.configService.get<string>('GROQ_API_KEY');
-    
-    if (!groqApiKey) {
-      this.logger.warn('[OCR] GROQ_API_KEY not configured. OCR service will be disabled.');
-      this.groqClient = null;
-    } else {
-      this.groqClient = new Groq({
-        apiKey: groqApiKey,
-      });
-      this.logger.log('[OCR] Groq client initialized with Llama-4 Scout for OCR');
+  constructor(private readonly llmService: LlmService) {
+    if (!this.llmService.isAvailable('vision_ocr')) {
+      this.logger.warn('[OCR] No LLM provider configured for vision OCR. OCR service will be disabled.');
     }
   }
 
   /**
-   * Extract text from image using Groq Llama-4 Scout
+   * Extract text from image with the vision OCR LLM route
    * 🎯 VISION-ENABLED: AI can directly read text from images
    */
   async extractTextFromImage(imageData: {
     imageUrl?: string;
     imageBase64?: string;
-  }): Promise<OcrResult> {
+  }, usage?: LlmUsageContext): Promise<OcrResult> {
     const startTime = Date.now();
     
     try {
-      if (!this.groqClient) {
-        throw new Error('Groq client not initialized - GROQ_API_KEY missing');
-      }
 
       let imageBase64: string;
       
@@ -60,11 +48,10 @@ export class OcrService {
         throw new Error('Either imageUrl or imageBase64 must be provided');
       }
 
-      this.logger.log(`[OCR] Processing image with Groq Llama-4 Scout (vision model)`);
+      this.logger.log(`[OCR] Processing image with vision model`);
       
-      // Llama4: Direct image-to-text with AI vision
-      const completion = await this.groqClient.chat.completions.create({
-        model: "meta-llama/llama-4-maverick-17b-128e-instruct",
+      // Direct image-to-text with AI vision
+      const completion = await this.llmService.complete('vision_ocr', {
         messages: [
           {
             role: "user",
@@ -90,12 +77,12 @@ Return only the extracted text, preserving the original layout and order as much
             ]
           }
         ],
-        max_tokens: 1000,
+        maxTokens: 1000,
         temperature: 0.1, // Low temperature for consistent text extraction
-      });
+      }, { operation: 'ocr', ...usage });
       
       const processingTime = Date.now() - startTime;
-      const extractedText = completion.choices[0]?.message?.content?.trim() || '';
+      const extractedText = completion.content.trim();
       
       // Calculate confidence based on response quality
       let confidence = 0.9; // Default high confidence for Llama-4
@@ -121,7 +108,7 @@ Return only the extracted text, preserving the original layout and order as much
       
     } catch (error) {
       const processingTime = Date.now() - startTime;
-      this.logger.error(`[OCR] Failed to extract text with Groq: ${error.message}`);
+      this.logger.error(`[OCR] Failed to extract text: ${error.message}`);
       
       // Return empty result instead of throwing
       return {
@@ -133,10 +120,10 @@ Return only the extracted text, preserving the original layout and order as much
   }
 
   /**
-   * Analyze image and return structured attributes + paraphrases using Groq VLM
+   * Analyze image and return structured attributes + paraphrases using the vision OCR route
    * Returns: { ocrText, brand, model, year, color, type, flags[], confidence, paraphrases[] }
    */
-  async analyzeImageAttributes(imageData: { imageUrl?: string; imageBase64?: string; }): Promise<{
+  async analyzeImageAttributes(imageData: { imageUrl?: string; imageBase64?: string; }, usage?: LlmUsageContext): Promise<{
     ocrText: string;
     brand: string;
     model: string;
@@ -150,9 +137,6 @@ Return only the extracted text, preserving the original layout and order as much
   }> {
     const start = Date.now();
     try {
-      if (!this.groqClient) {
-        throw new Error('Groq client not initialized - GROQ_API_KEY missing');
-      }
       let imageBase64: string;
       if (imageData.imageBase64) {
         imageBase64 = imageData.imageBase64;
@@ -282,8 +266,7 @@ Output ONLY the JSON.
       
       `
 
-      const completion = await this.groqClient.chat.completions.create({
-        model: 'meta-llama/llama-4-maverick-17b-128e-instruct',
+      const completion = await this.llmService.complete('vision_ocr', {
         messages: [
           {
             role: 'user',
@@ -293,11 +276,11 @@ Output ONLY the JSON.
             ],
           },
         ],
-        max_tokens: 600,
+        maxTokens: 600,
         temperature: 0.2,
-      });
+      }, { operation: 'analyze_image', ...usage });
 
-      const raw = completion.choices?.[0]?.message?.content?.trim() || '{}';
+      const raw = completion.content.trim() || '{}';
       let parsed: any = {};
       try {
         // Try to isolate JSON block if the model added text
@@ -407,7 +390,7 @@ Output ONLY the JSON.
   }
 
   /**
-   * Download image and return as base64 (for Groq vision API)
+   * Download image and return as base64 (for the vision models)
    */
   private async downloadImageAsBase64(imageUrl: string): Promise<string> {
     try {
@@ -430,7 +413,7 @@ Output ONLY the JSON.
    * Cleanup resources on service destroy
    */
   async onModuleDestroy() {
-    // No resources to clean up for Groq client
+    // No resources to clean up
     this.logger.log('[OCR] OCR service terminated');
   }
 }
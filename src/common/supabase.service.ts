@@ -1,6 +1,7 @@
 import { Injectable, Logger, InternalServerErrorException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { fetchWithChangeSource } from './change-source.context';
 
 @Injectable()
 export class SupabaseService {
@@ -31,11 +32,12 @@ export class SupabaseService {
       }
 
       try {
-        this._supabase = createClient(supabaseUrl, supabaseAnonKey);
+        // Every request carries the change source, so product revisions know who made a change
+        this._supabase = createClient(supabaseUrl, supabaseAnonKey, { global: { fetch: fetchWithChangeSource } });
         this.logger.log('Supabase client (anon key) initialized successfully.');
         
         if (supabaseServiceKey) {
-          this._supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+          this._supabaseService = createClient(supabaseUrl, supabaseServiceKey, { global: { fetch: fetchWithChangeSource } });
           this.logger.log('Supabase service client (service_role key) initialized successfully.');
         } else {
           this.logger.warn('SUPABASE_SERVICE_ROLE_KEY missing in config! Service client not fully initialized. Operations requiring service_role key may fail or be subject to RLS.');
@@ -87,6 +89,7 @@ export class SupabaseService {
     // Create a new client instance with the user's token
     const authenticatedClient = createClient(supabaseUrl, supabaseAnonKey, {
       global: {
+        fetch: fetchWithChangeSource,
         headers: {
           Authorization: `Bearer ${userJwtToken}`,
         },
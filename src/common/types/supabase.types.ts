@@ -41,12 +41,76 @@ export interface InventoryLevel {
     ProductVariantId: string;
     PlatformConnectionId: string;
     PlatformLocationId: string | null;
+    LocationId?: string | null; // Canonical location, from the platform location's mapping
     Quantity: number;
     LastPlatformUpdateAt: string | null;
     CreatedAt: string;
     UpdatedAt: string;
 }
 
+export interface Order {
+    Id: string;
+    UserId: string;
+    PlatformConnectionId: string | null; // Null for inter-seller marketplace orders
+    PlatformOrderId: string;
+    OrderNumber: string | null;
+    Status: string;
+    Currency: string;
+    TotalAmount: number;
+    CustomerEmail: string | null;
+    OrderDate: string;
+    IsMarketplaceOrder: boolean;
+    MarketplaceSellerUserId: string | null;
+    MarketplaceFeeAmount: number | null;
+    PlatformSpecificData: Record<string, any> | null;
+    InventoryAppliedAt: string | null;
+    CreatedAt: string;
+    UpdatedAt: string;
+}
+
+export interface OrderItem {
+    Id: string;
+    OrderId: string;
+    ProductVariantId: string | null;
+    PlatformProductId: string | null;
+    PlatformVariantId: string | null;
+    Sku: string;
+    Title: string;
+    Quantity: number;
+    Price: number;
+}
+
+export type InventoryReservationStatus = 'active' | 'released' | 'consumed' | 'partially_consumed';
+
+export interface MarketplaceListing {
+    Id: string;
+    ProductVariantId: string;
+    SellerUserId: string;
+    Price: number;
+    AvailableQuantity: number;
+    IsEnabled: boolean;
+    CreatedAt: string;
+    UpdatedAt: string;
+}
+
+export interface InventoryReservation {
+    Id: string;
+    UserId: string;
+    ProductVariantId: string;
+    PlatformConnectionId: string;
+    Source: 'whatnot_show';
+    SourceReference: string; // Show (livestream) ID on the platform
+    PlatformListingId: string | null;
+    Quantity: number;
+    QuantitySold: number;
+    Status: InventoryReservationStatus;
+    StartsAt: string | null;
+    EndsAt: string | null;
+    CompletedAt: string | null;
+    CreatedAt: string;
+    UpdatedAt: string;
+}
+
 export interface PlatformConnection {
     Id: string;
     UserId: string;
@@ -61,6 +125,18 @@ export interface PlatformConnection {
     UpdatedAt: string;
 }
 
+export interface SubscriptionTier {
+    Id: string;
+    Name: string;
+    PriceMonthly: number;
+    ProductLimit: number | null;
+    SyncOperationLimit: number | null;
+    MarketplaceFeePercent: number; // Charged to the seller on marketplace sales
+    OrderFeePercent: number; // Added to the buyer's order value
+    AllowsInterSellerMarketplace: boolean;
+    AiScans: number | null;
+}
+
 export interface User {
     Id: string;
     Email: string;
@@ -81,4 +157,164 @@ export interface UserProfile {
     PublicRegion: string | null;
     CreatedAt: string;
     UpdatedAt: string;
-} 
\ No newline at end of file
+} 
+export interface ImportMappingProfile {
+    Id: string;
+    UserId: string;
+    Name: string;
+    Layout: 'generic' | 'shopify' | 'square' | 'clover';
+    ColumnMapping: Record<string, string | string[]>; // Import field -> source column header(s)
+    CreatedAt: string;
+    UpdatedAt: string;
+}
+
+export interface ImportJob {
+    Id: string;
+    UserId: string;
+    OriginalFilename: string | null;
+    FileFormat: 'csv' | 'xlsx';
+    Layout: 'generic' | 'shopify' | 'square' | 'clover';
+    MappingProfileId: string | null;
+    ColumnMapping: Record<string, string | string[]>;
+    Headers: string[];
+    Status: 'validated' | 'committing' | 'committed' | 'failed';
+    TotalRows: number;
+    ValidRows: number;
+    InvalidRows: number;
+    CommittedRows: number;
+    SkippedRows: number;
+    Summary: Record<string, any> | null;
+    ErrorMessage: string | null;
+    CommittedAt: string | null;
+    CreatedAt: string;
+    UpdatedAt: string;
+}
+
+export interface ConflictEventRecord {
+    Id: string;
+    UserId: string;
+    EntityType: 'product' | 'variant' | 'inventory';
+    EntityId: string; // ProductVariants.Id, or InventoryLevels.Id for inventory conflicts
+    ConflictType:
+        | 'price_mismatch'
+        | 'inventory_mismatch'
+        | 'title_mismatch'
+        | 'concurrent_update'
+        | 'description_mismatch'
+        | 'compare_at_price_mismatch'
+        | 'sku_mismatch'
+        | 'barcode_mismatch'
+        | 'weight_mismatch'
+        | 'options_mismatch'
+        | 'shipping_mismatch'
+        | 'tax_mismatch'
+        | 'images_mismatch';
+    SssyncValue: any;
+    PlatformValue: any;
+    Diff: Record<string, any> | null; // Field-level detail, e.g. changed columns or added/removed image URLs
+    PlatformType: string;
+    PlatformConnectionId: string;
+    SssyncTimestamp: string;
+    PlatformTimestamp: string;
+    Resolution: {
+        action: 'keep_sssync' | 'accept_platform' | 'merge' | 'user_review';
+        appliedValue: any;
+        reason: string;
+        resolvedBy?: 'user' | 'bulk_rule' | 'rule' | 'superseded';
+    } | null;
+    ResolvedAt: string | null;
+    CreatedAt: string;
+    UpdatedAt: string;
+}
+
+export interface ConflictRuleRecord {
+    Id: string;
+    UserId: string;
+    PlatformConnectionId: string | null; // Null for the user-wide rule
+    Field:
+        | 'price'
+        | 'inventory'
+        | 'title'
+        | 'description'
+        | 'identifiers' // SKU and barcode
+        | 'weight'
+        | 'options'
+        | 'shipping'
+        | 'tax'
+        | 'images'
+        | 'all';
+    Priority: 'sssync_wins' | 'platform_wins' | 'most_recent' | 'highest_value' | 'user_review';
+    PlatformExceptions: string[];
+    CreatedAt: string;
+    UpdatedAt: string;
+}
+
+export interface SyncOutboxRecord {
+    Seq: number;
+    UserId: string;
+    EventType: 'PRODUCT_CREATED' | 'PRODUCT_UPDATED' | 'PRODUCT_DELETED' | 'INVENTORY_UPDATED';
+    EntityId: string; // ProductId, or ProductVariantId for inventory
+    SourceConnectionId: string | null;
+    SourcePlatform: string | null;
+    Payload: Record<string, any>;
+    DedupKey: string;
+    Status: 'pending' | 'processing' | 'published' | 'failed' | 'superseded';
+    Attempts: number;
+    Replays: number;
+    AvailableAt: string;
+    LockedUntil: string | null;
+    LastError: string | null;
+    PublishedAt: string | null;
+    CreatedAt: string;
+}
+
+export type InventoryAdjustmentReason = 'sale' | 'return' | 'damage' | 'recount' | 'transfer' | 'marketplace_reservation';
+
+export interface InventoryLedgerEntry {
+    Id: number;
+    UserId: string;
+    InventoryLevelId: string;
+    ProductVariantId: string;
+    PlatformConnectionId: string;
+    PlatformLocationId: string | null;
+    Delta: number;
+    RequestedDelta: number | null; // Set when stock ran out: the change asked for, of which Delta was applied
+    QuantityAfter: number;
+    Reason: InventoryAdjustmentReason;
+    ReferenceId: string | null;
+    Note: string | null;
+    ChangeSource: string;
+    SourceConnectionId: string | null;
+    CreatedAt: string;
+}
+
+export interface Location {
+    Id: string;
+    UserId: string;
+    Name: string;
+    Address: Record<string, any> | null;
+    IsActive: boolean;
+    CreatedAt: string;
+    UpdatedAt: string;
+}
+
+export interface LocationMapping {
+    Id: string;
+    UserId: string;
+    LocationId: string;
+    PlatformConnectionId: string;
+    PlatformLocationId: string;
+    PlatformLocationName: string | null;
+    CreatedAt: string;
+}
+
+export interface LocationAllocationRule {
+    Id: string;
+    UserId: string;
+    PlatformConnectionId: string;
+    LocationId: string;
+    IsEnabled: boolean;
+    BufferQuantity: number;
+    CreatedAt: string;
+    UpdatedAt: string;
+}
@@ -625,7 +625,7 @@ export class EmbeddingService {
       // Fast path: VLM-first agentic search (no embeddings)
       if (params.mode === 'vlm-first' && params.images?.[0]) {
         const stageStart = Date.now();
-        const vlm = await this.ocrService.analyzeImageAttributes({ imageUrl: params.images[0] });
+        const vlm = await this.ocrService.analyzeImageAttributes({ imageUrl: params.images[0] }, { userId: params.userId });
         const vlmMs = Date.now() - stageStart;
         this.logger.log(`[VLM-First] VLM analysis took ${vlmMs}ms (conf=${vlm.confidence.toFixed(2)})`);
 
@@ -830,7 +830,7 @@ export class EmbeddingService {
             try {
               ocrResult = await this.ocrService.extractTextFromImage({ 
                 imageUrl: params.images[0] 
-              });
+              }, { userId: params.userId });
               this.logger.log(`[EnhancedQuickScan] OCR extracted: "${ocrResult.text.substring(0, 50)}..." (conf: ${ocrResult.confidence.toFixed(2)})`);
             } catch (ocrError) {
               this.logger.warn(`[EnhancedQuickScan] OCR failed: ${ocrError.message}`);
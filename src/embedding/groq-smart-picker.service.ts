@@ -1,6 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import Groq from 'groq-sdk';
+import { LlmService } from '../common/llm/llm.service';
 
 export interface SmartPickerCandidate {
   id: string;
@@ -30,28 +29,21 @@ export interface SmartPickerResult {
 @Injectable()
 export class GroqSmartPickerService {
   private readonly logger = new Logger(GroqSmartPickerService.name);
-  private readonly groqClient: Groq | null;
 
-  constructor(private readonly configService: ConfigService) {
-    const groqApiKey = this.configService.get<string>('GROQ_API_KEY');
-    
-    if (!groqApiKey) {
-      this.logger.warn('GROQ_API_KEY not configured - smart picker will be disabled');
-      this.groqClient = null;
-    } else {
-      this.groqClient = new Groq({ apiKey: groqApiKey });
-      this.logger.log('Groq Smart Picker service initialized');
+  constructor(private readonly llmService: LlmService) {
+    if (!this.llmService.isAvailable('picking')) {
+      this.logger.warn('No LLM provider configured for picking - smart picker will be disabled');
     }
   }
 
   /**
-   * 🎯 Use Groq Llama-4 to intelligently pick the best match from candidates
+   * 🎯 Use the picking LLM route (Llama-4 Scout on Groq by default) to intelligently pick the best match from candidates
    */
   async pickBestMatch(request: SmartPickerRequest): Promise<SmartPickerResult> {
     const startTime = Date.now();
     
-    if (!this.groqClient) {
-      throw new Error('Groq API not configured');
+    if (!this.llmService.isAvailable('picking')) {
+      throw new Error('No LLM provider configured for picking');
     }
 
     const { targetImage, ocrText, candidates } = request;
@@ -67,9 +59,8 @@ export class GroqSmartPickerService {
       // Download target image as base64 for vision analysis
       const targetImageBase64 = await this.downloadImageAsBase64(targetImage);
 
-      // Call Groq Llama-4 with vision
-      const response = await this.groqClient.chat.completions.create({
-        model: "meta-llama/llama-4-scout-17b-16e-instruct", // Use vision model
+      // Call the vision model
+      const response = await this.llmService.complete('picking', {
         messages: [
           {
             role: "user",
@@ -88,15 +79,15 @@ export class GroqSmartPickerService {
           }
         ],
         temperature: 0.1, // Low temperature for consistent analysis
-        max_tokens: 1000
-      });
+        maxTokens: 1000
+      }, { userId: request.userId, operation: 'smart_pick' });
 
-      const analysisResult = response.choices[0]?.message?.content;
+      const analysisResult = response.content;
       if (!analysisResult) {
-        throw new Error('No analysis result from Groq');
+        throw new Error(`No analysis result from ${response.provider}`);
       }
 
-      this.logger.debug(`[SmartPicker] Raw Groq response: ${analysisResult.substring(0, 200)}...`);
+      this.logger.debug(`[SmartPicker] Raw ${response.provider} response: ${analysisResult.substring(0, 200)}...`);
 
       // Parse the structured response
       const result = this.parseGroqResponse(analysisResult, topCandidates);
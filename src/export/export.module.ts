@@ -3,28 +3,38 @@ import { BullModule } from '@nestjs/bullmq';
 import { CommonModule } from '../common/common.module';
 import { CanonicalDataModule } from '../canonical-data/canonical-data.module';
 import { PlatformAdaptersModule } from '../platform-adapters/platform-adapters.module';
+import { PlatformProductMappingsModule } from '../platform-product-mappings/platform-product-mappings.module';
 import { ExportService } from './export.service';
 import { ExportController } from './export.controller';
-// import { ExportProcessor } from './export.processor'; // TODO: Implement ExportProcessor
+import { ExportProcessor } from './export.processor';
 import { CsvExportFormatter } from './formatters/csv-export.formatter';
 import { ShopifyExportFormatter } from './formatters/shopify-export.formatter';
 import { SquareExportFormatter } from './formatters/square-export.formatter';
+import { CloverExportFormatter } from './formatters/clover-export.formatter';
+import { EbayExportFormatter } from './formatters/ebay-export.formatter';
+import { FacebookExportFormatter } from './formatters/facebook-export.formatter';
+import { WhatnotExportFormatter } from './formatters/whatnot-export.formatter';
 
 @Module({
   imports: [
     CommonModule,
     CanonicalDataModule,
     PlatformAdaptersModule,
+    PlatformProductMappingsModule,
     BullModule.registerQueue({
       name: 'export-jobs',
     }),
   ],
   providers: [
     ExportService,
-    // ExportProcessor, // TODO: Implement ExportProcessor
+    ExportProcessor,
     CsvExportFormatter,
     ShopifyExportFormatter,
     SquareExportFormatter,
+    CloverExportFormatter,
+    EbayExportFormatter,
+    FacebookExportFormatter,
+    WhatnotExportFormatter,
   ],
   controllers: [ExportController],
   exports: [ExportService],
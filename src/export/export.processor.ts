@@ -0,0 +1,270 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createReadStream } from 'fs';
+import { open, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { SupabaseService } from '../common/supabase.service';
+import { ProductVariant } from '../common/types/supabase.types';
+import { InventoryService } from '../canonical-data/inventory.service';
+import { ProductsService } from '../canonical-data/products.service';
+import { PlatformProductMappingsService } from '../platform-product-mappings/platform-product-mappings.service';
+import { ExportQueueJobData, ExportService } from './export.service';
+import { CsvExportFormatter } from './formatters/csv-export.formatter';
+import { ShopifyExportFormatter } from './formatters/shopify-export.formatter';
+import { SquareExportFormatter } from './formatters/square-export.formatter';
+import { CloverExportFormatter } from './formatters/clover-export.formatter';
+import { EbayExportFormatter } from './formatters/ebay-export.formatter';
+import { FacebookExportFormatter } from './formatters/facebook-export.formatter';
+import { WhatnotExportFormatter } from './formatters/whatnot-export.formatter';
+import { ExportFormatContext, resolveQuantity } from './formatters/export-formatter.types';
+
+const PRODUCT_PAGE_SIZE = 200;
+// Progress is reported 0-100; the last slice is reserved for serializing and uploading
+const FORMAT_PROGRESS_SHARE = 85;
+
+/**
+ * How an export type's file is written: an optional header and footer around
+ * the text of each page of rows.
+ */
+interface ExportFileWriter {
+  extension: string;
+  contentType: string;
+  header?: string;
+  page(rows: any[], first: boolean): string;
+  footer?: string;
+}
+
+@Injectable()
+@Processor('export-jobs')
+export class ExportProcessor extends WorkerHost {
+  private readonly logger = new Logger(ExportProcessor.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly exportService: ExportService,
+    private readonly inventoryService: InventoryService,
+    private readonly productsService: ProductsService,
+    private readonly mappingsService: PlatformProductMappingsService,
+    private readonly csvFormatter: CsvExportFormatter,
+    private readonly shopifyFormatter: ShopifyExportFormatter,
+    private readonly squareFormatter: SquareExportFormatter,
+    private readonly cloverFormatter: CloverExportFormatter,
+    private readonly ebayFormatter: EbayExportFormatter,
+    private readonly facebookFormatter: FacebookExportFormatter,
+    private readonly whatnotFormatter: WhatnotExportFormatter,
+  ) {
+    super();
+  }
+
+  async process(job: Job<ExportQueueJobData>): Promise<{ path: string; rowCount: number }> {
+    const { jobId, userId, exportType } = job.data;
+    this.logger.log(`Processing ${exportType} export job ${jobId} for user ${userId}`);
+
+    try {
+      await this.exportService.updateExportJobProgress(jobId, 1, 'Loading products', 'processing');
+      const writer = this.getFileWriter(job.data);
+      const tempPath = join(tmpdir(), `sssync-export-${jobId}.${writer.extension}`);
+      try {
+        const rowCount = await this.writeRows(job.data, writer, tempPath);
+
+        await this.exportService.updateExportJobProgress(jobId, FORMAT_PROGRESS_SHARE + 5, `Uploading ${rowCount} rows`);
+        const path = await this.exportService.uploadExportFile(userId, jobId, createReadStream(tempPath), writer.extension, writer.contentType);
+
+        await this.exportService.updateExportJobProgress(jobId, 100, `Exported ${rowCount} rows`, 'completed', path);
+        this.logger.log(`Export job ${jobId} completed: ${rowCount} rows written to ${path}`);
+        return { path, rowCount };
+      } finally {
+        await rm(tempPath, { force: true });
+      }
+    } catch (error) {
+      this.logger.error(`Export job ${jobId} failed: ${error.message}`, error.stack);
+      await this.exportService.updateExportJobProgress(jobId, 0, 'Export failed', 'failed', undefined, error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Walks the user's products a page at a time, appending each formatted page to
+   * the file at `path` so only one page is held in memory. Shopify and Square
+   * group rows by product, so a page always carries all of a product's variants.
+   * Returns the number of rows written.
+   */
+  private async writeRows(data: ExportQueueJobData, writer: ExportFileWriter, path: string): Promise<number> {
+    const { jobId, filters = {}, options = {} } = data;
+    const file = await open(path, 'w');
+    try {
+      if (writer.header) await file.write(writer.header);
+      const total = await this.countProducts(data);
+
+      const mappedVariantIds = filters.connectionId && total > 0
+        ? new Set((await this.mappingsService.getMappingsByConnectionId(filters.connectionId)).map(m => m.ProductVariantId))
+        : null;
+
+      let rowCount = 0;
+      for (let offset = 0; offset < total; offset += PRODUCT_PAGE_SIZE) {
+        const productIds = await this.fetchProductIdPage(data, offset);
+        if (productIds.length === 0) break;
+
+        let variants = await this.fetchVariants(productIds);
+        if (mappedVariantIds) {
+          variants = variants.filter(v => mappedVariantIds.has(v.Id));
+        }
+        if (options.includeVariants === false) {
+          // Keep only each product's first variant
+          const firstByProduct = new Map<string, ProductVariant>();
+          variants.forEach(v => firstByProduct.has(v.ProductId) || firstByProduct.set(v.ProductId, v));
+          variants = [...firstByProduct.values()];
+        }
+
+        const context = await this.buildContext(data, variants);
+        const rows = this.formatPage(data, variants, context);
+        if (rows.length > 0) {
+          await file.write((rowCount > 0 || writer.header ? '\n' : '') + writer.page(rows, rowCount === 0));
+          rowCount += rows.length;
+        }
+
+        const processed = Math.min(offset + PRODUCT_PAGE_SIZE, total);
+        await this.exportService.updateExportJobProgress(
+          jobId,
+          Math.max(1, Math.floor((processed / total) * FORMAT_PROGRESS_SHARE)),
+          `Formatted ${processed} of ${total} products`,
+        );
+      }
+      if (writer.footer) await file.write('\n' + writer.footer);
+      return rowCount;
+    } finally {
+      await file.close();
+    }
+  }
+
+  private async buildContext(data: ExportQueueJobData, variants: ProductVariant[]): Promise<ExportFormatContext> {
+    const { filters = {}, options = {} } = data;
+    const variantIds = variants.map(v => v.Id);
+    const [levels, images] = await Promise.all([
+      options.includeInventory === false
+        ? Promise.resolve(new Map())
+        : this.inventoryService.getOnHandLevels(variantIds, filters.connectionId),
+      options.includeImages === false
+        ? Promise.resolve(new Map<string, string[]>())
+        : this.productsService.getImageUrlsForVariants(variantIds),
+    ]);
+
+    return {
+      levels,
+      images,
+      locationId: filters.locationId,
+      currency: options.currency || 'USD',
+      storeUrl: options.storeUrl,
+      brand: options.brand,
+    };
+  }
+
+  private formatPage(data: ExportQueueJobData, variants: ProductVariant[], context: ExportFormatContext): any[] {
+    // The generic, Shopify and Square formatters only take a quantity per variant
+    const inventory = new Map(variants.map(v => [v.Id, resolveQuantity(context, v.Id)]));
+
+    switch (data.exportType) {
+      case 'shopify':
+        return this.shopifyFormatter.formatForShopify(variants, inventory);
+      case 'square':
+        return this.squareFormatter.formatForSquare(variants, inventory);
+      case 'clover':
+        return this.cloverFormatter.formatForClover(variants, context);
+      case 'ebay':
+        return this.ebayFormatter.formatForEbay(variants, context);
+      case 'facebook':
+        return this.facebookFormatter.formatForFacebook(variants, context);
+      case 'whatnot':
+        return this.whatnotFormatter.formatForWhatnot(variants, context);
+      default:
+        return this.csvFormatter.formatForCsv(variants, inventory);
+    }
+  }
+
+  private getFileWriter(data: ExportQueueJobData): ExportFileWriter {
+    // A page after the first leaves out the CSV header row
+    const csv = (convert: (rows: any[]) => string): ExportFileWriter => ({
+      extension: 'csv',
+      contentType: 'text/csv',
+      page: (rows, first) => {
+        const content = convert(rows);
+        return first ? content : content.slice(content.indexOf('\n') + 1);
+      },
+    });
+
+    switch (data.exportType) {
+      case 'shopify':
+        return csv(rows => this.shopifyFormatter.convertToCsvString(rows));
+      case 'square':
+        return csv(rows => this.squareFormatter.convertToCsvString(rows));
+      case 'clover':
+        return csv(rows => this.cloverFormatter.convertToCsvString(rows));
+      case 'ebay':
+        return csv(rows => this.ebayFormatter.convertToCsvString(rows, { currency: data.options?.currency || 'USD' }));
+      case 'facebook':
+        return data.options?.feedFormat === 'xml'
+          ? {
+              extension: 'xml',
+              contentType: 'application/xml',
+              header: this.facebookFormatter.getXmlFeedHeader(),
+              page: rows => this.facebookFormatter.convertToXmlItems(rows),
+              footer: this.facebookFormatter.getXmlFeedFooter(),
+            }
+          : csv(rows => this.facebookFormatter.convertToCsvString(rows));
+      case 'whatnot':
+        return csv(rows => this.whatnotFormatter.convertToCsvString(rows));
+      default:
+        return csv(rows => this.csvFormatter.convertToCsvString(rows));
+    }
+  }
+
+  // --- Product queries ---
+
+  private buildProductQuery(data: ExportQueueJobData, columns: string, countOnly = false) {
+    const { userId, filters = {} } = data;
+    let query = this.supabaseService
+      .getServiceClient()
+      .from('Products')
+      .select(columns, countOnly ? { count: 'exact', head: true } : undefined)
+      .eq('UserId', userId);
+
+    if (filters.productIds?.length) query = query.in('Id', filters.productIds);
+    if (!filters.includeArchived) query = query.eq('IsArchived', false);
+    if (filters.dateRange?.start) query = query.gte('UpdatedAt', filters.dateRange.start);
+    if (filters.dateRange?.end) query = query.lte('UpdatedAt', filters.dateRange.end);
+    return query;
+  }
+
+  private async countProducts(data: ExportQueueJobData): Promise<number> {
+    const { count, error } = await this.buildProductQuery(data, 'Id', true);
+    if (error) {
+      throw new Error(`Failed to count products: ${error.message}`);
+    }
+    return count || 0;
+  }
+
+  private async fetchProductIdPage(data: ExportQueueJobData, offset: number): Promise<string[]> {
+    const { data: products, error } = await this.buildProductQuery(data, 'Id')
+      .order('CreatedAt', { ascending: true })
+      .range(offset, offset + PRODUCT_PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(`Failed to load products: ${error.message}`);
+    }
+    return ((products || []) as unknown as Array<{ Id: string }>).map(p => p.Id);
+  }
+
+  private async fetchVariants(productIds: string[]): Promise<ProductVariant[]> {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('ProductVariants')
+      .select('*')
+      .in('ProductId', productIds)
+      .order('CreatedAt', { ascending: true });
+    if (error) {
+      throw new Error(`Failed to load variants: ${error.message}`);
+    }
+    return (data || []) as ProductVariant[];
+  }
+}
@@ -1,8 +1,13 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
+import { ConfigService } from '@nestjs/config';
 import { SupabaseService } from '../common/supabase.service';
 import { v4 as uuidv4 } from 'uuid';
+import { Readable } from 'stream';
+
+// Signed download links are generated on read, so they only need to outlive one download
+const DOWNLOAD_URL_TTL_SECONDS = 60 * 60;
 
 export interface ExportJobData {
   userId: string;
@@ -13,14 +18,23 @@ export interface ExportJobData {
     productIds?: string[];
     includeArchived?: boolean;
     dateRange?: { start: string; end: string };
+    locationId?: string; // Platform location ID; exports that location's stock only
   };
   options?: {
     includeImages?: boolean;
     includeInventory?: boolean;
     includeVariants?: boolean;
+    currency?: string; // Defaults to USD
+    storeUrl?: string; // Used for product links in catalog feeds (Facebook)
+    brand?: string; // Catalog feeds require a brand per item
+    feedFormat?: 'csv' | 'xml'; // Facebook catalog feed format
   };
 }
 
+export interface ExportQueueJobData extends ExportJobData {
+  jobId: string;
+}
+
 export interface ExportJob {
   Id: string;
   UserId: string;
@@ -31,7 +45,8 @@ export interface ExportJob {
   Description: string;
   Filters: any;
   Options: any;
-  ResultFileUrl?: string;
+  ResultFileUrl?: string; // Storage object path of the generated file
+  DownloadUrl?: string; // Signed link, added when a completed job is read
   ErrorMessage?: string;
   CreatedAt: string;
   UpdatedAt: string;
@@ -43,7 +58,8 @@ export class ExportService {
 
   constructor(
     private readonly supabaseService: SupabaseService,
-    @InjectQueue('export-jobs') private readonly exportQueue: Queue,
+    private readonly configService: ConfigService,
+    @InjectQueue('export-jobs') private readonly exportQueue: Queue<ExportQueueJobData>,
   ) {}
 
   async createExportJob(userId: string, jobData: ExportJobData): Promise<{ jobId: string; estimatedDuration: string }> {
@@ -71,6 +87,7 @@ export class ExportService {
     // Enqueue the job
     await this.exportQueue.add('process-export', {
       ...jobData,
+      userId,
       jobId,
     }, {
       jobId: jobId,
@@ -99,6 +116,9 @@ export class ExportService {
       return null;
     }
 
+    if (data?.Status === 'completed' && data.ResultFileUrl) {
+      data.DownloadUrl = await this.createDownloadUrl(data.ResultFileUrl);
+    }
     return data;
   }
 
@@ -148,6 +168,45 @@ export class ExportService {
     }
   }
 
+  /**
+   * Stores a generated export file and returns its object path in the exports bucket.
+   */
+  async uploadExportFile(userId: string, jobId: string, content: string | Readable, extension: string, contentType: string): Promise<string> {
+    const path = `${userId}/${jobId}.${extension}`;
+    const { error } = await this.supabaseService
+      .getServiceClient()
+      .storage.from(this.getBucket())
+      .upload(
+        path,
+        typeof content === 'string' ? Buffer.from(content, 'utf-8') : content,
+        // A stream is sent as it is read; fetch requires half duplex for that
+        { contentType, upsert: true, ...(typeof content === 'string' ? {} : { duplex: 'half' }) },
+      );
+
+    if (error) {
+      this.logger.error(`Failed to upload export file ${path}: ${error.message}`);
+      throw new Error(`Failed to upload export file: ${error.message}`);
+    }
+    return path;
+  }
+
+  async createDownloadUrl(path: string): Promise<string | undefined> {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .storage.from(this.getBucket())
+      .createSignedUrl(path, DOWNLOAD_URL_TTL_SECONDS, { download: true });
+
+    if (error) {
+      this.logger.error(`Failed to sign download URL for ${path}: ${error.message}`);
+      return undefined;
+    }
+    return data?.signedUrl;
+  }
+
+  private getBucket(): string {
+    return this.configService.get<string>('EXPORT_STORAGE_BUCKET') || 'exports';
+  }
+
   private estimateExportDuration(jobData: ExportJobData): string {
     // Base estimates in minutes
     const baseEstimates = {
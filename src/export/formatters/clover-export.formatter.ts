@@ -0,0 +1,90 @@
+import { Injectable } from '@nestjs/common';
+import { ProductVariant } from '../../common/types/supabase.types';
+import {
+  ExportFormatContext,
+  groupByProduct,
+  parseVariantOptions,
+  resolveImages,
+  resolveQuantity,
+  toCsvString,
+} from './export-formatter.types';
+
+export interface CloverExportRow {
+  'Clover ID': string;
+  Name: string;
+  'Alternate Name': string;
+  Price: string;
+  'Price Type': string;
+  'Price Unit': string;
+  'Tax Rates': string;
+  Cost: string;
+  'Product Code': string;
+  SKU: string;
+  'Modifier Groups': string;
+  Quantity: string;
+  'Printer Labels': string;
+  Hidden: string;
+  'Non-revenue item': string;
+  'Item Group': string;
+  'Option Name 1': string;
+  'Option Value 1': string;
+  'Option Name 2': string;
+  'Option Value 2': string;
+  'Option Name 3': string;
+  'Option Value 3': string;
+  'Image URL': string;
+}
+
+@Injectable()
+export class CloverExportFormatter {
+  /**
+   * Rows for Clover's inventory import sheet. Clover items are flat, so each
+   * variant is an item; multi-variant products share an Item Group named after
+   * the product, with the options as the group's attributes.
+   */
+  formatForClover(variants: ProductVariant[], context: ExportFormatContext): CloverExportRow[] {
+    const rows: CloverExportRow[] = [];
+
+    groupByProduct(variants).forEach(productVariants => {
+      const groupName = productVariants.length > 1 ? productVariants[0].Title : '';
+
+      productVariants.forEach(variant => {
+        const options = parseVariantOptions(variant);
+        const optionKeys = Object.keys(options);
+        const optionSuffix = Object.values(options).filter(Boolean).join(' / ');
+
+        rows.push({
+          'Clover ID': '', // Blank so Clover creates new items
+          Name: groupName && optionSuffix ? `${variant.Title} - ${optionSuffix}` : variant.Title,
+          'Alternate Name': '',
+          Price: (parseFloat(variant.Price as any) || 0).toFixed(2),
+          'Price Type': 'Fixed',
+          'Price Unit': '',
+          'Tax Rates': variant.IsTaxable ? 'DEFAULT' : 'NONE',
+          Cost: '',
+          'Product Code': variant.Barcode || '',
+          SKU: variant.Sku || '',
+          'Modifier Groups': '',
+          Quantity: String(resolveQuantity(context, variant.Id)),
+          'Printer Labels': '',
+          Hidden: 'No',
+          'Non-revenue item': 'No',
+          'Item Group': groupName,
+          'Option Name 1': optionKeys[0] || '',
+          'Option Value 1': optionKeys[0] ? options[optionKeys[0]] : '',
+          'Option Name 2': optionKeys[1] || '',
+          'Option Value 2': optionKeys[1] ? options[optionKeys[1]] : '',
+          'Option Name 3': optionKeys[2] || '',
+          'Option Value 3': optionKeys[2] ? options[optionKeys[2]] : '',
+          'Image URL': resolveImages(context, variant, productVariants)[0] || '',
+        });
+      });
+    });
+
+    return rows;
+  }
+
+  convertToCsvString(rows: CloverExportRow[]): string {
+    return toCsvString(rows);
+  }
+}
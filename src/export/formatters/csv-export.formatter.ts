@@ -23,7 +23,7 @@ export interface CsvExportRow {
 
 @Injectable()
 export class CsvExportFormatter {
-  formatForCsv(variants: ProductVariant[], includeInventory = true): CsvExportRow[] {
+  formatForCsv(variants: ProductVariant[], inventory: Map<string, number> = new Map()): CsvExportRow[] {
     return variants.map(variant => ({
       product_id: variant.ProductId,
       variant_id: variant.Id!,
@@ -38,7 +38,7 @@ export class CsvExportFormatter {
       requires_shipping: variant.RequiresShipping || false,
       is_taxable: variant.IsTaxable || false,
       tax_code: variant.TaxCode || '',
-      inventory_quantity: includeInventory ? 0 : 0, // TODO: Add inventory lookup
+      inventory_quantity: inventory.get(variant.Id) ?? 0,
       is_archived: false, // TODO: Add IsArchived field to ProductVariant type
       created_at: variant.CreatedAt as string,
       updated_at: variant.UpdatedAt as string,
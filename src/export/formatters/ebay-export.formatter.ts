@@ -0,0 +1,158 @@
+import { Injectable } from '@nestjs/common';
+import { ProductVariant } from '../../common/types/supabase.types';
+import {
+  ExportFormatContext,
+  groupByProduct,
+  parseVariantOptions,
+  resolveImages,
+  resolveQuantity,
+  toCsvString,
+} from './export-formatter.types';
+
+const EBAY_MAX_PICTURES = 12;
+const EBAY_CONDITION_NEW = '1000';
+
+export type EbayExportRow = Record<string, string>;
+
+@Injectable()
+export class EbayExportFormatter {
+  /**
+   * File Exchange / Seller Hub Reports rows. Multi-variant products become a
+   * parent row carrying the listing and its option values, followed by one
+   * "Variation" row per variant with its own SKU, price and quantity.
+   * Category, location and business policies are left for the seller to fill in.
+   */
+  formatForEbay(variants: ProductVariant[], context: ExportFormatContext): EbayExportRow[] {
+    const rows: EbayExportRow[] = [];
+
+    groupByProduct(variants).forEach(productVariants => {
+      const first = productVariants[0];
+      const pictures = resolveImages(context, first, productVariants).slice(0, EBAY_MAX_PICTURES).join('|');
+
+      if (productVariants.length === 1) {
+        rows.push(this.buildRow(context, {
+          action: 'Add',
+          customLabel: first.Sku || '',
+          title: first.Title,
+          description: first.Description || first.Title,
+          pictures,
+          price: this.formatPrice(first),
+          quantity: String(resolveQuantity(context, first.Id)),
+          upc: first.Barcode || '',
+        }));
+        return;
+      }
+
+      rows.push(this.buildRow(context, {
+        action: 'Add',
+        customLabel: '',
+        title: first.Title,
+        description: first.Description || first.Title,
+        pictures,
+        relationshipDetails: this.describeOptionValues(productVariants),
+      }));
+      for (const variant of productVariants) {
+        rows.push(this.buildRow(context, {
+          action: '',
+          customLabel: variant.Sku || '',
+          price: this.formatPrice(variant),
+          quantity: String(resolveQuantity(context, variant.Id)),
+          upc: variant.Barcode || '',
+          relationship: 'Variation',
+          relationshipDetails: Object.entries(parseVariantOptions(variant))
+            .map(([name, value]) => `${name}=${value}`)
+            .join('|'),
+        }));
+      }
+    });
+
+    return rows;
+  }
+
+  convertToCsvString(rows: EbayExportRow[], context: Pick<ExportFormatContext, 'currency'>): string {
+    return toCsvString(rows, this.getHeaders(context.currency));
+  }
+
+  private getHeaders(currency: string): string[] {
+    return [
+      this.getActionHeader(currency),
+      'CustomLabel',
+      '*Category',
+      '*Title',
+      '*ConditionID',
+      'PicURL',
+      '*Description',
+      '*Format',
+      '*Duration',
+      '*StartPrice',
+      '*Quantity',
+      'UPC',
+      'Relationship',
+      'RelationshipDetails',
+      '*Location',
+      'ShippingProfileName',
+      'ReturnProfileName',
+      'PaymentProfileName',
+    ];
+  }
+
+  private getActionHeader(currency: string): string {
+    return `*Action(SiteID=US|Country=US|Currency=${currency}|Version=1193)`;
+  }
+
+  private buildRow(
+    context: ExportFormatContext,
+    fields: {
+      action: string;
+      customLabel: string;
+      title?: string;
+      description?: string;
+      pictures?: string;
+      price?: string;
+      quantity?: string;
+      upc?: string;
+      relationship?: string;
+      relationshipDetails?: string;
+    },
+  ): EbayExportRow {
+    const isListingRow = fields.action === 'Add';
+    return {
+      [this.getActionHeader(context.currency)]: fields.action,
+      CustomLabel: fields.customLabel,
+      '*Category': '',
+      '*Title': fields.title ? fields.title.substring(0, 80) : '',
+      '*ConditionID': isListingRow ? EBAY_CONDITION_NEW : '',
+      PicURL: fields.pictures || '',
+      '*Description': fields.description || '',
+      '*Format': isListingRow ? 'FixedPrice' : '',
+      '*Duration': isListingRow ? 'GTC' : '',
+      '*StartPrice': fields.price || '',
+      '*Quantity': fields.quantity || '',
+      UPC: fields.upc || '',
+      Relationship: fields.relationship || '',
+      RelationshipDetails: fields.relationshipDetails || '',
+      '*Location': '',
+      ShippingProfileName: '',
+      ReturnProfileName: '',
+      PaymentProfileName: '',
+    };
+  }
+
+  /**
+   * Parent-row format: "Color=Red;Blue|Size=S;M".
+   */
+  private describeOptionValues(variants: ProductVariant[]): string {
+    const values = new Map<string, Set<string>>();
+    for (const variant of variants) {
+      for (const [name, value] of Object.entries(parseVariantOptions(variant))) {
+        if (!value) continue;
+        values.set(name, (values.get(name) || new Set<string>()).add(value));
+      }
+    }
+    return [...values.entries()].map(([name, set]) => `${name}=${[...set].join(';')}`).join('|');
+  }
+
+  private formatPrice(variant: ProductVariant): string {
+    return (parseFloat(variant.Price as any) || 0).toFixed(2);
+  }
+}
@@ -0,0 +1,72 @@
+import { InventoryLevel, ProductVariant } from '../../common/types/supabase.types';
+
+/**
+ * Per-page data the export processor loads alongside the variants, so formatters
+ * can fill in stock and images without querying on their own.
+ */
+export interface ExportFormatContext {
+  levels: Map<string, InventoryLevel[]>; // On-hand levels per variant (one connection's locations)
+  images: Map<string, string[]>; // Image URLs per variant, ordered by Position
+  locationId?: string; // Export one location's stock instead of the variant total
+  currency: string;
+  storeUrl?: string;
+  brand?: string;
+}
+
+export function resolveQuantity(context: ExportFormatContext, variantId: string): number {
+  const levels = context.levels.get(variantId) || [];
+  return levels
+    .filter(l => !context.locationId || l.PlatformLocationId === context.locationId)
+    .reduce((total, l) => total + Math.max(0, l.Quantity || 0), 0);
+}
+
+/**
+ * A variant's own images, falling back to the rest of its product's images
+ * (imports often attach every image to the first variant).
+ */
+export function resolveImages(context: ExportFormatContext, variant: ProductVariant, siblings: ProductVariant[]): string[] {
+  const own = context.images.get(variant.Id) || [];
+  if (own.length > 0) return own;
+  return Array.from(new Set(siblings.flatMap(v => context.images.get(v.Id) || [])));
+}
+
+export function parseVariantOptions(variant: ProductVariant): Record<string, string> {
+  if (!variant.Options) return {};
+  return typeof variant.Options === 'string' ? JSON.parse(variant.Options) : variant.Options;
+}
+
+export function groupByProduct(variants: ProductVariant[]): Map<string, ProductVariant[]> {
+  const groups = new Map<string, ProductVariant[]>();
+  for (const variant of variants) {
+    groups.set(variant.ProductId, [...(groups.get(variant.ProductId) || []), variant]);
+  }
+  return groups;
+}
+
+export function toHandle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .substring(0, 255);
+}
+
+/**
+ * CSV with RFC 4180 quoting. Headers come from the first row unless given.
+ */
+export function toCsvString<T extends object>(rows: T[], headers?: string[]): string {
+  if (rows.length === 0) return '';
+
+  const columns = headers || Object.keys(rows[0]);
+  const escape = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    const str = String(value);
+    return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+  };
+  return [
+    columns.map(escape).join(','),
+    ...rows.map(row => columns.map(column => escape((row as Record<string, unknown>)[column])).join(',')),
+  ].join('\n');
+}
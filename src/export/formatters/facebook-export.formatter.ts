@@ -0,0 +1,155 @@
+import { Injectable } from '@nestjs/common';
+import { ProductVariant } from '../../common/types/supabase.types';
+import {
+  ExportFormatContext,
+  groupByProduct,
+  parseVariantOptions,
+  resolveImages,
+  resolveQuantity,
+  toCsvString,
+  toHandle,
+} from './export-formatter.types';
+
+// Meta only allows these as dedicated variant attributes; anything else goes in additional_variant_attribute
+const META_VARIANT_FIELDS = ['color', 'size', 'material', 'pattern', 'gender', 'age_group'];
+const META_MAX_ADDITIONAL_IMAGES = 20;
+
+export interface FacebookCatalogRow {
+  id: string;
+  title: string;
+  description: string;
+  availability: string;
+  condition: string;
+  price: string;
+  link: string;
+  image_link: string;
+  additional_image_link: string;
+  brand: string;
+  item_group_id: string;
+  quantity_to_sell_on_facebook: string;
+  gtin: string;
+  color: string;
+  size: string;
+  material: string;
+  pattern: string;
+  gender: string;
+  age_group: string;
+  additional_variant_attribute: string;
+}
+
+@Injectable()
+export class FacebookExportFormatter {
+  /**
+   * Meta Commerce Manager catalog feed rows, one per variant. Variants of the same
+   * product share item_group_id so Meta shows them as one item with options.
+   */
+  formatForFacebook(variants: ProductVariant[], context: ExportFormatContext): FacebookCatalogRow[] {
+    const rows: FacebookCatalogRow[] = [];
+
+    groupByProduct(variants).forEach((productVariants, productId) => {
+      const isGrouped = productVariants.length > 1;
+
+      productVariants.forEach(variant => {
+        const quantity = resolveQuantity(context, variant.Id);
+        const images = resolveImages(context, variant, productVariants);
+        const attributes = this.mapOptions(parseVariantOptions(variant));
+
+        rows.push({
+          id: variant.Sku || variant.Id,
+          title: variant.Title.substring(0, 200),
+          description: (variant.Description || variant.Title).substring(0, 9999),
+          availability: quantity > 0 ? 'in stock' : 'out of stock',
+          condition: 'new',
+          price: `${(parseFloat(variant.Price as any) || 0).toFixed(2)} ${context.currency}`,
+          link: context.storeUrl ? `${context.storeUrl.replace(/\/$/, '')}/products/${toHandle(productVariants[0].Title)}` : '',
+          image_link: images[0] || '',
+          additional_image_link: images.slice(1, META_MAX_ADDITIONAL_IMAGES + 1).join(','),
+          brand: context.brand || '',
+          item_group_id: isGrouped ? productId : '',
+          quantity_to_sell_on_facebook: String(quantity),
+          gtin: variant.Barcode || '',
+          color: attributes.color || '',
+          size: attributes.size || '',
+          material: attributes.material || '',
+          pattern: attributes.pattern || '',
+          gender: attributes.gender || '',
+          age_group: attributes.age_group || '',
+          additional_variant_attribute: attributes.additional || '',
+        });
+      });
+    });
+
+    return rows;
+  }
+
+  convertToCsvString(rows: FacebookCatalogRow[]): string {
+    return toCsvString(rows);
+  }
+
+  /**
+   * RSS 2.0 feed using the g: namespace, which Meta accepts for scheduled feeds.
+   */
+  convertToXmlString(rows: FacebookCatalogRow[], title = 'sssync catalog'): string {
+    return [this.getXmlFeedHeader(title), this.convertToXmlItems(rows), this.getXmlFeedFooter()].filter(Boolean).join('\n');
+  }
+
+  /**
+   * The feed's <item> elements alone, so a large feed can be written a page at a
+   * time between the header and footer
+   */
+  convertToXmlItems(rows: FacebookCatalogRow[]): string {
+    return rows
+      .map(row => {
+        const fields = Object.entries(row)
+          .filter(([field, value]) => value !== '' && field !== 'additional_image_link')
+          .map(([field, value]) => `      <g:${field}>${this.escapeXml(value)}</g:${field}>`);
+        const additionalImages = row.additional_image_link
+          ? row.additional_image_link.split(',').map(url => `      <g:additional_image_link>${this.escapeXml(url)}</g:additional_image_link>`)
+          : [];
+        return ['    <item>', ...fields, ...additionalImages, '    </item>'].join('\n');
+      })
+      .join('\n');
+  }
+
+  getXmlFeedHeader(title = 'sssync catalog'): string {
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<rss xmlns:g="http://base.google.com/ns/1.0" version="2.0">',
+      '  <channel>',
+      `    <title>${this.escapeXml(title)}</title>`,
+    ].join('\n');
+  }
+
+  getXmlFeedFooter(): string {
+    return ['  </channel>', '</rss>'].join('\n');
+  }
+
+  /**
+   * Option names are matched case-insensitively to Meta's variant fields; the
+   * rest are joined as "Name:Value,Name:Value".
+   */
+  private mapOptions(options: Record<string, string>): Record<string, string> {
+    const mapped: Record<string, string> = {};
+    const additional: string[] = [];
+    for (const [name, value] of Object.entries(options)) {
+      if (!value) continue;
+      const key = name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+      if (META_VARIANT_FIELDS.includes(key)) {
+        mapped[key] = value;
+      } else {
+        additional.push(`${name}:${value}`);
+      }
+    }
+    if (additional.length > 0) mapped.additional = additional.join(',');
+    return mapped;
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
@@ -57,7 +57,7 @@ export interface ShopifyExportRow {
 
 @Injectable()
 export class ShopifyExportFormatter {
-  formatForShopify(variants: ProductVariant[]): ShopifyExportRow[] {
+  formatForShopify(variants: ProductVariant[], inventory: Map<string, number> = new Map()): ShopifyExportRow[] {
     // Group variants by ProductId to create proper Shopify CSV structure
     const productGroups = new Map<string, ProductVariant[]>();
     
@@ -98,7 +98,7 @@ export class ShopifyExportFormatter {
           'Variant SKU': variant.Sku || '',
           'Variant Grams': variant.Weight ? String(Math.round(parseFloat(variant.Weight as any) * 1000)) : '', // Convert to grams
           'Variant Inventory Tracker': 'shopify',
-          'Variant Inventory Qty': '0', // TODO: Add inventory lookup
+          'Variant Inventory Qty': String(inventory.get(variant.Id) ?? 0),
           'Variant Inventory Policy': 'deny',
           'Variant Fulfillment Service': 'manual',
           'Variant Price': String(variant.Price || 0),
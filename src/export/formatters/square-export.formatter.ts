@@ -42,7 +42,7 @@ export interface SquareExportRow {
 
 @Injectable()
 export class SquareExportFormatter {
-  formatForSquare(variants: ProductVariant[]): SquareExportRow[] {
+  formatForSquare(variants: ProductVariant[], inventory: Map<string, number> = new Map()): SquareExportRow[] {
     // Group variants by ProductId
     const productGroups = new Map<string, ProductVariant[]>();
     
@@ -72,7 +72,7 @@ export class SquareExportFormatter {
           SKU: variant.Sku || '',
           'Variation Name': this.generateVariationName(variant, options),
           Price: String(((parseFloat(variant.Price as any) || 0) * 100).toFixed(0)), // Square uses cents
-          'Current Quantity Main': '0', // TODO: Add inventory lookup
+          'Current Quantity Main': String(inventory.get(variant.Id) ?? 0),
           'Stock Alert Enabled Main': 'N',
           'Stock Alert Count Main': '',
           SEO: '',
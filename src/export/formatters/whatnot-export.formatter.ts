@@ -0,0 +1,90 @@
+import { Injectable } from '@nestjs/common';
+import { ProductVariant } from '../../common/types/supabase.types';
+import {
+  ExportFormatContext,
+  groupByProduct,
+  parseVariantOptions,
+  resolveImages,
+  resolveQuantity,
+  toCsvString,
+} from './export-formatter.types';
+
+const WHATNOT_MAX_IMAGES = 8;
+
+export interface WhatnotExportRow {
+  Category: string;
+  'Sub Category': string;
+  Title: string;
+  Description: string;
+  Quantity: string;
+  Type: string;
+  Price: string;
+  'Shipping Profile': string;
+  Offerable: string;
+  Hazmat: string;
+  Condition: string;
+  'Cost Per Item': string;
+  SKU: string;
+  'Image URL 1': string;
+  'Image URL 2': string;
+  'Image URL 3': string;
+  'Image URL 4': string;
+  'Image URL 5': string;
+  'Image URL 6': string;
+  'Image URL 7': string;
+  'Image URL 8': string;
+}
+
+@Injectable()
+export class WhatnotExportFormatter {
+  /**
+   * Whatnot bulk listing rows. Whatnot listings have no variants, so each variant
+   * is its own Buy It Now listing with the option values appended to the title.
+   * Category and shipping profile are left for the seller to pick.
+   */
+  formatForWhatnot(variants: ProductVariant[], context: ExportFormatContext): WhatnotExportRow[] {
+    const rows: WhatnotExportRow[] = [];
+
+    groupByProduct(variants).forEach(productVariants => {
+      productVariants.forEach(variant => {
+        const optionSuffix = Object.values(parseVariantOptions(variant)).filter(Boolean).join(' / ');
+        const title = productVariants.length > 1 && optionSuffix ? `${variant.Title} - ${optionSuffix}` : variant.Title;
+        const images = resolveImages(context, variant, productVariants).slice(0, WHATNOT_MAX_IMAGES);
+
+        const row: WhatnotExportRow = {
+          Category: '',
+          'Sub Category': '',
+          Title: title,
+          Description: variant.Description || variant.Title,
+          Quantity: String(resolveQuantity(context, variant.Id)),
+          Type: 'Buy it Now',
+          Price: (parseFloat(variant.Price as any) || 0).toFixed(2),
+          'Shipping Profile': '',
+          Offerable: 'TRUE',
+          Hazmat: 'Not Hazmat',
+          Condition: 'New',
+          'Cost Per Item': '',
+          SKU: variant.Sku || '',
+          'Image URL 1': '',
+          'Image URL 2': '',
+          'Image URL 3': '',
+          'Image URL 4': '',
+          'Image URL 5': '',
+          'Image URL 6': '',
+          'Image URL 7': '',
+          'Image URL 8': '',
+        };
+        images.forEach((url, index) => {
+          row[`Image URL ${index + 1}` as keyof WhatnotExportRow] = url;
+        });
+        rows.push(row);
+      });
+    });
+
+    return rows;
+  }
+
+  convertToCsvString(rows: WhatnotExportRow[]): string {
+    return toCsvString(rows);
+  }
+}
@@ -0,0 +1,51 @@
+import { IsArray, IsIn, IsObject, IsOptional, IsString, IsUUID } from 'class-validator';
+import { ImportLayout } from '../import.types';
+
+const LAYOUTS: ImportLayout[] = ['generic', 'shopify', 'square', 'clover'];
+
+/**
+ * Multipart fields sent with the file. Without a layout, profile or mapping the
+ * layout is detected from the headers.
+ */
+export class UploadImportFileDto {
+  @IsIn(LAYOUTS)
+  @IsOptional()
+  layout?: ImportLayout;
+
+  @IsUUID('4', { message: 'profileId must be a valid UUID.' })
+  @IsOptional()
+  profileId?: string;
+
+  @IsString({ message: 'mapping must be a JSON object of import field to column header.' })
+  @IsOptional()
+  mapping?: string;
+
+  @IsString()
+  @IsOptional()
+  saveProfileAs?: string; // Stores the mapping used for this file as a reusable profile
+}
+
+export class RemapImportDto {
+  @IsIn(LAYOUTS)
+  @IsOptional()
+  layout?: ImportLayout;
+
+  @IsUUID('4', { message: 'profileId must be a valid UUID.' })
+  @IsOptional()
+  profileId?: string;
+
+  @IsObject({ message: 'mapping must map import fields to column headers.' })
+  @IsOptional()
+  mapping?: Record<string, string | string[]>;
+}
+
+export class CommitImportDto {
+  @IsArray()
+  @IsUUID('4', { each: true, message: 'connectionIds must be valid UUIDs.' })
+  @IsOptional()
+  connectionIds?: string[];
+
+  @IsIn(['skip', 'update'])
+  @IsOptional()
+  onExistingSku?: 'skip' | 'update';
+}
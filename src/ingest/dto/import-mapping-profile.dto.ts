@@ -0,0 +1,34 @@
+import { IsIn, IsNotEmpty, IsObject, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ImportLayout } from '../import.types';
+
+const LAYOUTS: ImportLayout[] = ['generic', 'shopify', 'square', 'clover'];
+
+export class CreateImportMappingProfileDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsIn(LAYOUTS)
+  @IsOptional()
+  layout?: ImportLayout;
+
+  @IsObject({ message: 'columnMapping must map import fields to column headers.' })
+  columnMapping: Record<string, string | string[]>;
+}
+
+export class UpdateImportMappingProfileDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @IsOptional()
+  name?: string;
+
+  @IsIn(LAYOUTS)
+  @IsOptional()
+  layout?: ImportLayout;
+
+  @IsObject({ message: 'columnMapping must map import fields to column headers.' })
+  @IsOptional()
+  columnMapping?: Record<string, string | string[]>;
+}
@@ -0,0 +1,30 @@
+import { ArrayMaxSize, ArrayNotEmpty, IsArray, IsBoolean, IsIn, IsOptional, IsUUID, ValidateIf, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ReviewAction } from '../import-review.types';
+
+export class ReviewDecisionDto {
+  @IsUUID('4', { message: 'rawItemId must be a valid UUID.' })
+  rawItemId: string;
+
+  @IsIn(['accept', 'create', 'skip'])
+  action: ReviewAction;
+
+  @ValidateIf(o => o.action === 'accept')
+  @IsUUID('4', { message: 'candidateId is required to accept a match.' })
+  candidateId?: string;
+}
+
+export class ReviewDecisionsDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(500)
+  @ValidateNested({ each: true })
+  @Type(() => ReviewDecisionDto)
+  decisions: ReviewDecisionDto[];
+}
+
+export class CommitReviewDto {
+  @IsBoolean()
+  @IsOptional()
+  autoAcceptMatched?: boolean; // Treat untouched AUTO_MATCHED candidates as accepted (default true)
+}
@@ -0,0 +1,225 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ProductsService } from '../canonical-data/products.service';
+import { CanonicalInventoryLevel, InventoryService } from '../canonical-data/inventory.service';
+import { PlatformConnectionsService } from '../platform-connections/platform-connections.service';
+import { ProductVariant } from '../common/types/supabase.types';
+import { ImportCommitOptions, ImportCommitSummary, NormalizedImportRow, StoredImportRow } from './import.types';
+
+// Products are created a chunk of product groups at a time
+const GROUP_CHUNK_SIZE = 100;
+
+export interface ImportRowOutcome {
+  status: 'committed' | 'skipped';
+  productVariantId: string | null;
+  message?: string;
+}
+
+type ValidRow = StoredImportRow & { NormalizedData: NormalizedImportRow };
+
+/**
+ * Writes validated import rows to Products, ProductVariants, ProductImages and
+ * InventoryLevels. Rows sharing a product key become variants of one product;
+ * a new variant whose siblings already exist joins their product.
+ *
+ * Stock is canonical per connection, so imported quantities are written to
+ * each target connection at its default location (null PlatformLocationId).
+ */
+@Injectable()
+export class ImportCommitService {
+  private readonly logger = new Logger(ImportCommitService.name);
+
+  constructor(
+    private readonly productsService: ProductsService,
+    private readonly inventoryService: InventoryService,
+    private readonly connectionsService: PlatformConnectionsService,
+  ) {}
+
+  async commitRows(
+    userId: string,
+    rows: StoredImportRow[],
+    options: ImportCommitOptions = {},
+  ): Promise<{ summary: ImportCommitSummary; outcomes: Map<string, ImportRowOutcome> }> {
+    const connectionIds = await this.resolveConnectionIds(userId, options.connectionIds);
+    const validRows = rows.filter((row): row is ValidRow => !!row.NormalizedData);
+    const existing = new Map(
+      (await this.productsService.getVariantsBySkus(userId, validRows.map(r => r.NormalizedData.sku))).map(v => [v.Sku, v]),
+    );
+
+    const summary: ImportCommitSummary = {
+      productsCreated: 0,
+      variantsCreated: 0,
+      variantsUpdated: 0,
+      rowsSkipped: 0,
+      imagesSaved: 0,
+      inventoryLevelsWritten: 0,
+      inventoryConnectionIds: connectionIds,
+    };
+    const outcomes = new Map<string, ImportRowOutcome>();
+
+    // Rows whose SKU is already in the catalog
+    const updated: Array<{ variant: ProductVariant; row: ValidRow }> = [];
+    for (const row of validRows) {
+      const variant = existing.get(row.NormalizedData.sku);
+      if (!variant) continue;
+      if (options.onExistingSku === 'update') {
+        await this.productsService.updateVariant(variant.Id, this.toVariantUpdate(row.NormalizedData));
+        updated.push({ variant, row });
+        outcomes.set(row.Id, { status: 'committed', productVariantId: variant.Id, message: 'Updated existing variant' });
+        summary.variantsUpdated++;
+      } else {
+        outcomes.set(row.Id, { status: 'skipped', productVariantId: variant.Id, message: `SKU ${variant.Sku} already exists` });
+        summary.rowsSkipped++;
+      }
+    }
+
+    const groups = new Map<string, { productId: string | null; rows: ValidRow[] }>();
+    for (const row of validRows) {
+      const key = row.NormalizedData.productKey;
+      const group = groups.get(key) || { productId: null, rows: [] };
+      const match = existing.get(row.NormalizedData.sku);
+      if (match) {
+        group.productId = group.productId || match.ProductId;
+      } else {
+        group.rows.push(row);
+      }
+      groups.set(key, group);
+    }
+
+    const pending = [...groups.values()].filter(g => g.rows.length > 0);
+    for (let i = 0; i < pending.length; i += GROUP_CHUNK_SIZE) {
+      await this.createChunk(userId, pending.slice(i, i + GROUP_CHUNK_SIZE), connectionIds, summary, outcomes);
+    }
+
+    if (updated.length > 0 && connectionIds.length > 0) {
+      summary.inventoryLevelsWritten += await this.applyUpdatedStock(updated, connectionIds);
+    }
+
+    this.logger.log(
+      `Import commit for user ${userId}: ${summary.productsCreated} products, ${summary.variantsCreated} variants created, ` +
+        `${summary.variantsUpdated} updated, ${summary.rowsSkipped} skipped`,
+    );
+    return { summary, outcomes };
+  }
+
+  private async createChunk(
+    userId: string,
+    groups: Array<{ productId: string | null; rows: ValidRow[] }>,
+    connectionIds: string[],
+    summary: ImportCommitSummary,
+    outcomes: Map<string, ImportRowOutcome>,
+  ): Promise<void> {
+    const needsProduct = groups.filter(g => !g.productId);
+    if (needsProduct.length > 0) {
+      const products = await this.productsService.saveProducts(needsProduct.map(() => ({ UserId: userId, IsArchived: false })));
+      needsProduct.forEach((group, index) => (group.productId = products[index].Id));
+      summary.productsCreated += products.length;
+    }
+
+    const variants = await this.productsService.saveVariants(
+      groups.flatMap(group =>
+        group.rows.map(row => ({
+          ProductId: group.productId as string,
+          UserId: userId,
+          TaxCode: null,
+          ImageId: null,
+          ...this.toVariantFields(row.NormalizedData),
+        })),
+      ),
+    );
+    const bySku = new Map(variants.map(v => [v.Sku, v]));
+    summary.variantsCreated += variants.length;
+
+    const images: Array<{ ProductVariantId: string; ImageUrl: string; Position: number }> = [];
+    const levels: CanonicalInventoryLevel[] = [];
+    for (const row of groups.flatMap(g => g.rows)) {
+      const variant = bySku.get(row.NormalizedData.sku);
+      if (!variant) continue;
+      outcomes.set(row.Id, { status: 'committed', productVariantId: variant.Id });
+
+      row.NormalizedData.imageUrls.forEach((url, position) =>
+        images.push({ ProductVariantId: variant.Id, ImageUrl: url, Position: position }),
+      );
+      if (row.NormalizedData.quantity !== null) {
+        for (const connectionId of connectionIds) {
+          levels.push({
+            ProductVariantId: variant.Id,
+            PlatformConnectionId: connectionId,
+            PlatformLocationId: null,
+            Quantity: row.NormalizedData.quantity,
+          });
+        }
+      }
+    }
+
+    await this.productsService.saveBulkVariantImages(images);
+    await this.inventoryService.saveBulkInventoryLevels(levels);
+    summary.imagesSaved += images.length;
+    summary.inventoryLevelsWritten += levels.length;
+  }
+
+  /**
+   * Updated variants may already have stock spread over a connection's
+   * locations. The imported quantity replaces it only where the connection has
+   * no level or a single one; multi-location stock is left to the platform.
+   */
+  private async applyUpdatedStock(updated: Array<{ variant: ProductVariant; row: ValidRow }>, connectionIds: string[]): Promise<number> {
+    const withStock = updated.filter(u => u.row.NormalizedData.quantity !== null);
+    const variantIds = withStock.map(u => u.variant.Id);
+    const levels: CanonicalInventoryLevel[] = [];
+
+    for (const connectionId of connectionIds) {
+      const current = await this.inventoryService.getOnHandLevels(variantIds, connectionId);
+      for (const { variant, row } of withStock) {
+        const existing = current.get(variant.Id) || [];
+        if (existing.length > 1) continue;
+        levels.push({
+          ProductVariantId: variant.Id,
+          PlatformConnectionId: connectionId,
+          PlatformLocationId: existing[0]?.PlatformLocationId ?? null,
+          Quantity: row.NormalizedData.quantity as number,
+        });
+      }
+    }
+
+    await this.inventoryService.saveBulkInventoryLevels(levels);
+    return levels.length;
+  }
+
+  private async resolveConnectionIds(userId: string, requested?: string[]): Promise<string[]> {
+    if (requested && requested.length > 0) {
+      for (const connectionId of requested) {
+        const connection = await this.connectionsService.getConnectionById(connectionId, userId);
+        if (!connection) {
+          throw new NotFoundException(`Connection ${connectionId} not found`);
+        }
+      }
+      return requested;
+    }
+    const connections = await this.connectionsService.getConnectionsForUser(userId);
+    return connections.filter(c => c.IsEnabled).map(c => c.Id);
+  }
+
+  private toVariantFields(row: NormalizedImportRow): Omit<ProductVariant, 'Id' | 'ProductId' | 'UserId' | 'TaxCode' | 'ImageId' | 'CreatedAt' | 'UpdatedAt'> {
+    return {
+      Sku: row.sku,
+      Barcode: row.barcode,
+      Title: row.title,
+      Description: row.description,
+      Price: row.price,
+      CompareAtPrice: row.compareAtPrice,
+      Weight: row.weight,
+      WeightUnit: row.weightUnit,
+      Options: row.options,
+      RequiresShipping: row.requiresShipping,
+      IsTaxable: row.isTaxable,
+    };
+  }
+
+  /**
+   * Columns the file left empty keep their current values.
+   */
+  private toVariantUpdate(row: NormalizedImportRow): Partial<ProductVariant> {
+    const fields = this.toVariantFields(row);
+    return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== null)) as Partial<ProductVariant>;
+  }
+}
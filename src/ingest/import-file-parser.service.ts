@@ -0,0 +1,117 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import Papa from 'papaparse';
+import ExcelJS from 'exceljs';
+import { ImportFileFormat, ParsedImportFile } from './import.types';
+
+export const MAX_IMPORT_ROWS = 10000;
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export interface ImportUpload {
+  buffer: Buffer;
+  originalname?: string;
+  mimetype?: string;
+}
+
+/**
+ * Turns an uploaded CSV or XLSX file into header-keyed string rows. Only the
+ * first worksheet with content is read.
+ */
+@Injectable()
+export class ImportFileParserService {
+  private readonly logger = new Logger(ImportFileParserService.name);
+
+  detectFormat(file: ImportUpload): ImportFileFormat {
+    const name = (file.originalname || '').toLowerCase();
+    if (name.endsWith('.xls')) {
+      throw new BadRequestException('Legacy .xls workbooks are not supported; save the file as .xlsx or .csv');
+    }
+    // XLSX files are zip archives, which start with "PK"
+    const isZip = file.buffer.length > 1 && file.buffer[0] === 0x50 && file.buffer[1] === 0x4b;
+    if (name.endsWith('.xlsx') || file.mimetype === XLSX_MIME_TYPE || isZip) {
+      return 'xlsx';
+    }
+    return 'csv';
+  }
+
+  async parse(file: ImportUpload): Promise<ParsedImportFile> {
+    if (!file?.buffer || file.buffer.length === 0) {
+      throw new BadRequestException('The uploaded file is empty');
+    }
+
+    const format = this.detectFormat(file);
+    const { headers, rows } = format === 'xlsx' ? await this.parseXlsx(file.buffer) : this.parseCsv(file.buffer);
+
+    if (headers.length === 0) {
+      throw new BadRequestException('Could not find a header row in the uploaded file');
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(`Imports are limited to ${MAX_IMPORT_ROWS} rows; this file has ${rows.length}`);
+    }
+    this.logger.log(`Parsed ${format} file ${file.originalname || ''}: ${headers.length} columns, ${rows.length} rows`);
+    return { format, headers, rows };
+  }
+
+  private parseCsv(buffer: Buffer): Pick<ParsedImportFile, 'headers' | 'rows'> {
+    const text = buffer.toString('utf8').replace(/^\uFEFF/, '');
+    const parsed = Papa.parse<Record<string, string>>(text, {
+      header: true,
+      skipEmptyLines: 'greedy',
+      transformHeader: (header: string) => header.trim(),
+    });
+    if (parsed.errors?.length) {
+      this.logger.warn(`CSV parse had ${parsed.errors.length} errors; proceeding with parsed rows`);
+    }
+
+    const headers = (parsed.meta.fields || []).filter(Boolean);
+    const rows = (parsed.data || []).map(row => {
+      const clean: Record<string, string> = {};
+      for (const header of headers) {
+        clean[header] = row[header] == null ? '' : String(row[header]).trim();
+      }
+      return clean;
+    });
+    return { headers, rows };
+  }
+
+  private async parseXlsx(buffer: Buffer): Promise<Pick<ParsedImportFile, 'headers' | 'rows'>> {
+    const workbook = new ExcelJS.Workbook();
+    try {
+      await workbook.xlsx.load(buffer as any);
+    } catch (error) {
+      throw new BadRequestException(`Could not read the workbook: ${error.message}`);
+    }
+
+    const sheet = workbook.worksheets.find(ws => ws.actualRowCount > 0);
+    if (!sheet) {
+      return { headers: [], rows: [] };
+    }
+
+    // The header row is the first row with any content
+    let headerRowNumber = 0;
+    const columns: Array<{ index: number; header: string }> = [];
+    sheet.eachRow((row, rowNumber) => {
+      if (headerRowNumber) return;
+      headerRowNumber = rowNumber;
+      row.eachCell((cell, colNumber) => {
+        const header = cell.text.trim();
+        if (header) columns.push({ index: colNumber, header });
+      });
+    });
+
+    const rows: Record<string, string>[] = [];
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber <= headerRowNumber) return;
+      const values: Record<string, string> = {};
+      let hasContent = false;
+      for (const { index, header } of columns) {
+        const text = row.getCell(index).text.trim();
+        values[header] = text;
+        hasContent = hasContent || text !== '';
+      }
+      if (hasContent) rows.push(values);
+    });
+
+    return { headers: columns.map(c => c.header), rows };
+  }
+}
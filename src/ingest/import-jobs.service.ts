@@ -0,0 +1,366 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../common/supabase.service';
+import { ImportJob } from '../common/types/supabase.types';
+import { ImportFileParserService, ImportUpload } from './import-file-parser.service';
+import { ImportRowNormalizerService } from './import-row-normalizer.service';
+import { ImportMappingProfilesService } from './import-mapping-profiles.service';
+import { ImportCommitService } from './import-commit.service';
+import { defaultMappingFor, detectLayout } from './import-layouts';
+import {
+  ColumnMapping,
+  ImportCommitOptions,
+  ImportJobReport,
+  ImportLayout,
+  ImportMappingSelection,
+  ImportRowResult,
+  ImportRowStatus,
+  StoredImportRow,
+} from './import.types';
+
+const ROW_WRITE_CHUNK_SIZE = 500;
+const ROW_READ_PAGE_SIZE = 1000;
+const REPORT_ISSUE_LIMIT = 50;
+
+/**
+ * Multi-format import: an upload is parsed, its layout detected (or taken from
+ * a saved profile), every row validated and stored on RawImportItems, and the
+ * valid rows are committed to the catalog in a separate step so the user can
+ * fix the mapping first.
+ */
+@Injectable()
+export class ImportJobsService {
+  private readonly logger = new Logger(ImportJobsService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly parser: ImportFileParserService,
+    private readonly normalizer: ImportRowNormalizerService,
+    private readonly profilesService: ImportMappingProfilesService,
+    private readonly commitService: ImportCommitService,
+  ) {}
+
+  async createImport(
+    userId: string,
+    file: ImportUpload,
+    selection: ImportMappingSelection,
+    saveProfileAs?: string,
+  ): Promise<ImportJobReport> {
+    const parsed = await this.parser.parse(file);
+    const { layout, mapping, profileId } = await this.resolveMapping(userId, parsed.headers, selection);
+
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('ImportJobs')
+      .insert({
+        UserId: userId,
+        OriginalFilename: file.originalname || null,
+        FileFormat: parsed.format,
+        Layout: layout,
+        MappingProfileId: profileId,
+        ColumnMapping: mapping,
+        Headers: parsed.headers,
+        TotalRows: parsed.rows.length,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.logger.error(`Failed to create import job for user ${userId}: ${error?.message}`);
+      throw new InternalServerErrorException('Could not start the import.');
+    }
+    const job = data as ImportJob;
+
+    const results = this.normalizer.normalize(parsed.rows, mapping, layout, job.Id);
+    await this.writeRows(userId, job, results);
+    if (saveProfileAs) {
+      const profile = await this.profilesService.saveMappingAs(userId, saveProfileAs, layout, mapping);
+      job.MappingProfileId = profile.Id;
+    }
+
+    this.logger.log(`Import job ${job.Id}: ${parsed.rows.length} ${layout} rows from ${file.originalname || 'upload'}`);
+    return this.finishValidation(job, results);
+  }
+
+  /**
+   * Re-validates an uncommitted import against a different layout, profile or mapping.
+   */
+  async remapImport(userId: string, jobId: string, selection: ImportMappingSelection): Promise<ImportJobReport> {
+    const job = await this.getJob(userId, jobId);
+    if (job.Status !== 'validated' && job.Status !== 'failed') {
+      throw new ConflictException(`Import ${jobId} is ${job.Status} and can no longer be remapped`);
+    }
+    if (job.CommittedRows > 0) {
+      throw new ConflictException(`Import ${jobId} is partly committed; upload the file again to change its mapping`);
+    }
+
+    const { layout, mapping, profileId } = await this.resolveMapping(userId, job.Headers, selection);
+    const stored = await this.loadRows(userId, jobId);
+    const results = this.normalizer.normalize(stored.map(r => r.RawRow), mapping, layout, jobId);
+
+    job.Layout = layout;
+    job.ColumnMapping = mapping;
+    job.MappingProfileId = profileId;
+    await this.writeRows(userId, job, results, stored.map(r => r.Id));
+    return this.finishValidation(job, results);
+  }
+
+  async commitImport(userId: string, jobId: string, options: ImportCommitOptions): Promise<ImportJob> {
+    const job = await this.getJob(userId, jobId);
+    const claimed = await this.updateJob(userId, jobId, { Status: 'committing', ErrorMessage: null }, ['validated', 'failed']);
+    if (!claimed) {
+      throw new ConflictException(`Import ${jobId} is ${job.Status} and cannot be committed`);
+    }
+
+    try {
+      const rows = await this.loadRows(userId, jobId, 'valid');
+      const { summary, outcomes } = await this.commitService.commitRows(userId, rows, options);
+
+      await this.saveRowUpdates(
+        rows
+          .filter(row => outcomes.has(row.Id))
+          .map(row => {
+            const outcome = outcomes.get(row.Id)!;
+            const issues = outcome.message ? [...row.ValidationErrors, { severity: 'warning' as const, message: outcome.message }] : row.ValidationErrors;
+            return { ...row, Status: outcome.status, ProductVariantId: outcome.productVariantId, ValidationErrors: issues };
+          }),
+      );
+
+      const counts = await this.countRowsByStatus(userId, jobId);
+      const committed = await this.updateJob(userId, jobId, {
+        Status: 'committed',
+        CommittedRows: counts.committed,
+        SkippedRows: counts.skipped,
+        Summary: summary,
+        CommittedAt: new Date().toISOString(),
+      });
+      return committed as ImportJob;
+    } catch (error) {
+      this.logger.error(`Import job ${jobId} commit failed: ${error.message}`, error.stack);
+      await this.updateJob(userId, jobId, { Status: 'failed', ErrorMessage: error.message });
+      throw error;
+    }
+  }
+
+  async listJobs(userId: string, limit = 20, offset = 0): Promise<{ jobs: ImportJob[]; total: number }> {
+    const { data, error, count } = await this.supabaseService
+      .getClient()
+      .from('ImportJobs')
+      .select('*', { count: 'exact' })
+      .eq('UserId', userId)
+      .order('CreatedAt', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      this.logger.error(`Failed to list import jobs for user ${userId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not load imports.');
+    }
+    return { jobs: (data || []) as ImportJob[], total: count || 0 };
+  }
+
+  async getJob(userId: string, jobId: string): Promise<ImportJob> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('ImportJobs')
+      .select('*')
+      .eq('Id', jobId)
+      .eq('UserId', userId)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to load import job ${jobId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not load import.');
+    }
+    if (!data) {
+      throw new NotFoundException(`Import ${jobId} not found`);
+    }
+    return data as ImportJob;
+  }
+
+  async getRows(
+    userId: string,
+    jobId: string,
+    filters: { status?: ImportRowStatus; limit?: number; offset?: number } = {},
+  ): Promise<{ rows: StoredImportRow[]; total: number }> {
+    await this.getJob(userId, jobId);
+    const limit = Math.min(filters.limit || 100, 500);
+    const offset = filters.offset || 0;
+
+    let query = this.supabaseService
+      .getClient()
+      .from('RawImportItems')
+      .select('Id, UserId, Source, IngestJobId, RowNumber, RawRow, Status, ValidationErrors, NormalizedData, ProductVariantId', { count: 'exact' })
+      .eq('UserId', userId)
+      .eq('IngestJobId', jobId);
+    if (filters.status) query = query.eq('Status', filters.status);
+
+    const { data, error, count } = await query.order('RowNumber', { ascending: true }).range(offset, offset + limit - 1);
+    if (error) {
+      this.logger.error(`Failed to load rows of import ${jobId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not load import rows.');
+    }
+    return { rows: (data || []) as StoredImportRow[], total: count || 0 };
+  }
+
+  private async resolveMapping(
+    userId: string,
+    headers: string[],
+    selection: ImportMappingSelection,
+  ): Promise<{ layout: ImportLayout; mapping: ColumnMapping; profileId: string | null }> {
+    if (selection.mapping) {
+      return {
+        layout: selection.layout || 'generic',
+        mapping: this.normalizer.assertValidMapping(selection.mapping, headers),
+        profileId: null,
+      };
+    }
+    if (selection.profileId) {
+      const profile = await this.profilesService.getProfile(userId, selection.profileId);
+      return {
+        layout: profile.Layout,
+        mapping: this.normalizer.assertValidMapping(profile.ColumnMapping, headers),
+        profileId: profile.Id,
+      };
+    }
+
+    const layout = selection.layout || detectLayout(headers);
+    const mapping = defaultMappingFor(layout, headers);
+    if (!mapping.title || !mapping.price) {
+      throw new BadRequestException({
+        message: 'Could not tell which columns hold the title and price; send a column mapping or a mapping profile',
+        layout,
+        headers,
+        suggestedMapping: mapping,
+      });
+    }
+    return { layout, mapping, profileId: null };
+  }
+
+  /**
+   * Stores row results, replacing the rows in `existingIds` (same order) when re-validating.
+   */
+  private async writeRows(userId: string, job: ImportJob, results: ImportRowResult[], existingIds?: string[]): Promise<void> {
+    const rows = results.map((result, index) => ({
+      ...(existingIds ? { Id: existingIds[index] } : {}),
+      UserId: userId,
+      Source: job.FileFormat,
+      OriginalFilename: job.OriginalFilename,
+      IngestJobId: job.Id,
+      RowNumber: result.rowNumber,
+      RawRow: result.raw,
+      Status: result.status,
+      ValidationErrors: result.issues,
+      NormalizedData: result.normalized,
+      NormalizedSku: result.normalized?.sku || null,
+      NormalizedBarcode: result.normalized?.barcode || null,
+      NormalizedTitle: result.normalized?.title || null,
+      NormalizedPrice: result.normalized?.price ?? null,
+      NormalizedQuantity: result.normalized?.quantity ?? null,
+    }));
+
+    const supabase = this.supabaseService.getClient();
+    for (let i = 0; i < rows.length; i += ROW_WRITE_CHUNK_SIZE) {
+      const chunk = rows.slice(i, i + ROW_WRITE_CHUNK_SIZE);
+      const { error } = existingIds
+        ? await supabase.from('RawImportItems').upsert(chunk, { onConflict: 'Id' })
+        : await supabase.from('RawImportItems').insert(chunk);
+      if (error) {
+        this.logger.error(`Failed to store rows of import ${job.Id}: ${error.message}`);
+        throw new InternalServerErrorException('Could not store import rows.');
+      }
+    }
+  }
+
+  private async saveRowUpdates(rows: StoredImportRow[]): Promise<void> {
+    const supabase = this.supabaseService.getClient();
+    for (let i = 0; i < rows.length; i += ROW_WRITE_CHUNK_SIZE) {
+      const { error } = await supabase.from('RawImportItems').upsert(rows.slice(i, i + ROW_WRITE_CHUNK_SIZE), { onConflict: 'Id' });
+      if (error) {
+        throw new InternalServerErrorException(`Could not record committed rows: ${error.message}`);
+      }
+    }
+  }
+
+  private async loadRows(userId: string, jobId: string, status?: ImportRowStatus): Promise<StoredImportRow[]> {
+    const rows: StoredImportRow[] = [];
+    for (let offset = 0; ; offset += ROW_READ_PAGE_SIZE) {
+      let query = this.supabaseService
+        .getClient()
+        .from('RawImportItems')
+        .select('Id, UserId, Source, IngestJobId, RowNumber, RawRow, Status, ValidationErrors, NormalizedData, ProductVariantId')
+        .eq('UserId', userId)
+        .eq('IngestJobId', jobId);
+      if (status) query = query.eq('Status', status);
+
+      const { data, error } = await query.order('RowNumber', { ascending: true }).range(offset, offset + ROW_READ_PAGE_SIZE - 1);
+      if (error) {
+        throw new InternalServerErrorException(`Could not load import rows: ${error.message}`);
+      }
+      rows.push(...((data || []) as StoredImportRow[]));
+      if (!data || data.length < ROW_READ_PAGE_SIZE) return rows;
+    }
+  }
+
+  private async countRowsByStatus(userId: string, jobId: string): Promise<Record<'committed' | 'skipped', number>> {
+    const count = async (status: ImportRowStatus) => {
+      const { count: total, error } = await this.supabaseService
+        .getClient()
+        .from('RawImportItems')
+        .select('Id', { count: 'exact', head: true })
+        .eq('UserId', userId)
+        .eq('IngestJobId', jobId)
+        .eq('Status', status);
+      if (error) {
+        throw new InternalServerErrorException(`Could not count import rows: ${error.message}`);
+      }
+      return total || 0;
+    };
+    return { committed: await count('committed'), skipped: await count('skipped') };
+  }
+
+  private async finishValidation(job: ImportJob, results: ImportRowResult[]): Promise<ImportJobReport> {
+    const updated = await this.updateJob(job.UserId, job.Id, {
+      Layout: job.Layout,
+      ColumnMapping: job.ColumnMapping,
+      MappingProfileId: job.MappingProfileId,
+      Status: 'validated',
+      ValidRows: results.filter(r => r.status === 'valid').length,
+      InvalidRows: results.filter(r => r.status === 'invalid').length,
+      SkippedRows: results.filter(r => r.status === 'skipped').length,
+    });
+
+    return {
+      job: updated as ImportJob,
+      issues: results
+        .filter(r => r.issues.length > 0)
+        .slice(0, REPORT_ISSUE_LIMIT)
+        .map(r => ({ rowNumber: r.rowNumber, status: r.status, issues: r.issues })),
+    };
+  }
+
+  /**
+   * Returns null when `fromStatuses` is given and the job is in none of them.
+   */
+  private async updateJob(userId: string, jobId: string, updates: Partial<ImportJob>, fromStatuses?: ImportJob['Status'][]): Promise<ImportJob | null> {
+    let query = this.supabaseService
+      .getClient()
+      .from('ImportJobs')
+      .update({ ...updates, UpdatedAt: new Date().toISOString() })
+      .eq('Id', jobId)
+      .eq('UserId', userId);
+    if (fromStatuses) query = query.in('Status', fromStatuses);
+
+    const { data, error } = await query.select().maybeSingle();
+    if (error) {
+      this.logger.error(`Failed to update import job ${jobId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not update import.');
+    }
+    return (data as ImportJob) || null;
+  }
+}
@@ -0,0 +1,148 @@
+import { ColumnMapping, ImportField, ImportLayout } from './import.types';
+
+interface NativeLayout {
+  matches: (headers: Set<string>) => boolean;
+  mapping: (headers: string[]) => ColumnMapping;
+  defaults?: Partial<Record<ImportField, string>>; // Used when the mapped column is absent or empty
+}
+
+const withOptions = (nameHeader: (n: number) => string, valueHeader: (n: number) => string): ColumnMapping => ({
+  option1Name: nameHeader(1),
+  option1Value: valueHeader(1),
+  option2Name: nameHeader(2),
+  option2Value: valueHeader(2),
+  option3Name: nameHeader(3),
+  option3Value: valueHeader(3),
+});
+
+/**
+ * Column layouts of the platforms' own product exports (and of our exports for
+ * them), so those files import without any mapping work.
+ */
+const NATIVE_LAYOUTS: Record<Exclude<ImportLayout, 'generic'>, NativeLayout> = {
+  shopify: {
+    matches: h => h.has('Handle') && (h.has('Variant SKU') || h.has('Variant Price')),
+    mapping: () => ({
+      productKey: 'Handle',
+      title: 'Title',
+      description: 'Body (HTML)',
+      sku: 'Variant SKU',
+      barcode: 'Variant Barcode',
+      price: 'Variant Price',
+      compareAtPrice: 'Variant Compare At Price',
+      quantity: 'Variant Inventory Qty',
+      weight: 'Variant Grams',
+      ...withOptions(n => `Option${n} Name`, n => `Option${n} Value`),
+      imageUrl: ['Variant Image', 'Image Src'],
+      requiresShipping: 'Variant Requires Shipping',
+      taxable: 'Variant Taxable',
+    }),
+    defaults: { weightUnit: 'g' }, // Variant Grams is always grams
+  },
+  square: {
+    matches: h => h.has('Item Name') && h.has('Variation Name'),
+    mapping: headers => ({
+      productKey: 'Item Name',
+      title: 'Item Name',
+      description: 'Description',
+      sku: 'SKU',
+      barcode: 'GTIN',
+      price: 'Price',
+      // One "Current Quantity <Location>" column per location
+      quantity: headers.filter(h => h.startsWith('Current Quantity ')),
+      variantTitle: 'Variation Name',
+      ...withOptions(n => `Option Name ${n}`, n => `Option Value ${n}`),
+      requiresShipping: 'Shipping Enabled',
+    }),
+  },
+  clover: {
+    matches: h => h.has('Clover ID') || (h.has('Name') && h.has('Price Type')),
+    mapping: () => ({
+      productKey: 'Item Group',
+      title: 'Name',
+      sku: 'SKU',
+      barcode: 'Product Code',
+      price: 'Price',
+      quantity: 'Quantity',
+      ...withOptions(n => `Option Name ${n}`, n => `Option Value ${n}`),
+      imageUrl: 'Image URL',
+    }),
+  },
+};
+
+// Header spellings seen in hand-made spreadsheets, compared lowercase without punctuation
+const GENERIC_SYNONYMS: Partial<Record<ImportField, string[]>> = {
+  productKey: ['handle', 'productkey', 'productid', 'parentsku', 'itemgroup', 'groupid'],
+  title: ['title', 'name', 'productname', 'producttitle', 'itemname'],
+  description: ['description', 'body', 'bodyhtml', 'details', 'productdescription'],
+  sku: ['sku', 'variantsku', 'itemsku', 'skunumber'],
+  barcode: ['barcode', 'upc', 'ean', 'gtin', 'isbn', 'variantbarcode'],
+  price: ['price', 'variantprice', 'retailprice', 'saleprice', 'unitprice', 'sellingprice'],
+  compareAtPrice: ['compareatprice', 'variantcompareatprice', 'msrp', 'listprice', 'originalprice'],
+  quantity: ['quantity', 'qty', 'stock', 'inventory', 'onhand', 'available', 'inventoryqty', 'variantinventoryqty'],
+  weight: ['weight', 'variantweight'],
+  weightUnit: ['weightunit', 'variantweightunit'],
+  variantTitle: ['variant', 'varianttitle', 'variationname', 'variantname'],
+  option1Name: ['option1name', 'optionname1'],
+  option1Value: ['option1value', 'optionvalue1', 'option1'],
+  option2Name: ['option2name', 'optionname2'],
+  option2Value: ['option2value', 'optionvalue2', 'option2'],
+  option3Name: ['option3name', 'optionname3'],
+  option3Value: ['option3value', 'optionvalue3', 'option3'],
+  requiresShipping: ['requiresshipping', 'variantrequiresshipping', 'shippable'],
+  taxable: ['taxable', 'istaxable', 'varianttaxable'],
+};
+
+const IMAGE_HEADER = /^(image|photo|picture|picurl)(url|src|link)?\d*$|^images$/;
+
+export const headerKey = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function detectLayout(headers: string[]): ImportLayout {
+  const set = new Set(headers);
+  const native = (Object.keys(NATIVE_LAYOUTS) as Array<Exclude<ImportLayout, 'generic'>>).find(layout =>
+    NATIVE_LAYOUTS[layout].matches(set),
+  );
+  return native || 'generic';
+}
+
+/**
+ * The built-in mapping for a layout, keeping only columns the file actually has.
+ */
+export function defaultMappingFor(layout: ImportLayout, headers: string[]): ColumnMapping {
+  const available = new Set(headers);
+  const mapping = layout === 'generic' ? guessGenericMapping(headers) : NATIVE_LAYOUTS[layout].mapping(headers);
+
+  const result: ColumnMapping = {};
+  for (const [field, source] of Object.entries(mapping) as Array<[ImportField, string | string[]]>) {
+    const present = (Array.isArray(source) ? source : [source]).filter(h => available.has(h));
+    if (present.length === 0) continue;
+    result[field] = Array.isArray(source) ? present : present[0];
+  }
+  return result;
+}
+
+export function layoutDefaults(layout: ImportLayout): Partial<Record<ImportField, string>> {
+  return layout === 'generic' ? {} : NATIVE_LAYOUTS[layout].defaults || {};
+}
+
+function guessGenericMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const [field, synonyms] of Object.entries(GENERIC_SYNONYMS) as Array<[ImportField, string[]]>) {
+    // Earlier synonyms are the stronger signal
+    const header = synonyms
+      .map(synonym => headers.find(h => !used.has(h) && headerKey(h) === synonym))
+      .find(Boolean);
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  }
+
+  const imageHeaders = headers.filter(h => !used.has(h) && IMAGE_HEADER.test(headerKey(h)));
+  if (imageHeaders.length > 0) {
+    mapping.imageUrl = imageHeaders;
+  }
+  return mapping;
+}
@@ -0,0 +1,149 @@
+import { Injectable, Logger, ConflictException, InternalServerErrorException, NotFoundException } from '@nestjs/common';
+import { SupabaseService } from '../common/supabase.service';
+import { ImportMappingProfile } from '../common/types/supabase.types';
+import { ImportRowNormalizerService } from './import-row-normalizer.service';
+import { ImportLayout } from './import.types';
+import { CreateImportMappingProfileDto, UpdateImportMappingProfileDto } from './dto/import-mapping-profile.dto';
+
+// Postgres unique_violation, raised for a duplicate profile name
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Saved column mappings, so a supplier's spreadsheet only has to be mapped once.
+ */
+@Injectable()
+export class ImportMappingProfilesService {
+  private readonly logger = new Logger(ImportMappingProfilesService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly normalizer: ImportRowNormalizerService,
+  ) {}
+
+  async listProfiles(userId: string): Promise<ImportMappingProfile[]> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('ImportMappingProfiles')
+      .select('*')
+      .eq('UserId', userId)
+      .order('Name', { ascending: true });
+
+    if (error) {
+      this.logger.error(`Failed to list import mapping profiles for user ${userId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not load mapping profiles.');
+    }
+    return (data || []) as ImportMappingProfile[];
+  }
+
+  async getProfile(userId: string, profileId: string): Promise<ImportMappingProfile> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('ImportMappingProfiles')
+      .select('*')
+      .eq('Id', profileId)
+      .eq('UserId', userId)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to load import mapping profile ${profileId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not load mapping profile.');
+    }
+    if (!data) {
+      throw new NotFoundException(`Mapping profile ${profileId} not found`);
+    }
+    return data as ImportMappingProfile;
+  }
+
+  async createProfile(userId: string, dto: CreateImportMappingProfileDto): Promise<ImportMappingProfile> {
+    const columnMapping = this.normalizer.assertValidMapping(dto.columnMapping);
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('ImportMappingProfiles')
+      .insert({
+        UserId: userId,
+        Name: dto.name.trim(),
+        Layout: dto.layout || 'generic',
+        ColumnMapping: columnMapping,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.throwWriteError(error, dto.name);
+    }
+    this.logger.log(`User ${userId} saved import mapping profile "${dto.name}"`);
+    return data as ImportMappingProfile;
+  }
+
+  async updateProfile(userId: string, profileId: string, dto: UpdateImportMappingProfileDto): Promise<ImportMappingProfile> {
+    await this.getProfile(userId, profileId);
+
+    const updates: Partial<ImportMappingProfile> = { UpdatedAt: new Date().toISOString() };
+    if (dto.name !== undefined) updates.Name = dto.name.trim();
+    if (dto.layout !== undefined) updates.Layout = dto.layout;
+    if (dto.columnMapping !== undefined) updates.ColumnMapping = this.normalizer.assertValidMapping(dto.columnMapping);
+
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('ImportMappingProfiles')
+      .update(updates)
+      .eq('Id', profileId)
+      .eq('UserId', userId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.throwWriteError(error, dto.name);
+    }
+    return data as ImportMappingProfile;
+  }
+
+  async deleteProfile(userId: string, profileId: string): Promise<void> {
+    await this.getProfile(userId, profileId);
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('ImportMappingProfiles')
+      .delete()
+      .eq('Id', profileId)
+      .eq('UserId', userId);
+
+    if (error) {
+      this.logger.error(`Failed to delete import mapping profile ${profileId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not delete mapping profile.');
+    }
+  }
+
+  /**
+   * Creates or overwrites the named profile; used to remember the mapping of an upload.
+   */
+  async saveMappingAs(userId: string, name: string, layout: ImportLayout, columnMapping: Record<string, string | string[]>): Promise<ImportMappingProfile> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('ImportMappingProfiles')
+      .upsert(
+        {
+          UserId: userId,
+          Name: name.trim(),
+          Layout: layout,
+          ColumnMapping: columnMapping,
+          UpdatedAt: new Date().toISOString(),
+        },
+        { onConflict: 'UserId,Name' },
+      )
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.throwWriteError(error, name);
+    }
+    return data as ImportMappingProfile;
+  }
+
+  private throwWriteError(error: { code?: string; message?: string } | null, name?: string): never {
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new ConflictException(`A mapping profile named "${name}" already exists`);
+    }
+    this.logger.error(`Failed to save import mapping profile: ${error?.message}`);
+    throw new InternalServerErrorException(`Could not save mapping profile: ${error?.message}`);
+  }
+}
@@ -0,0 +1,287 @@
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { SupabaseService } from '../common/supabase.service';
+import { ActivityLogService } from '../common/activity-log.service';
+import { ProductsService } from '../canonical-data/products.service';
+import { InventoryService } from '../canonical-data/inventory.service';
+import { PlatformConnectionsService } from '../platform-connections/platform-connections.service';
+import { SyncCoordinatorService } from '../sync-engine/sync-coordinator.service';
+import { InventoryLevel, ProductVariant } from '../common/types/supabase.types';
+import { ImportReviewService } from './import-review.service';
+import { MatchCandidate, ReviewRawItem } from './import-review.types';
+
+const USER = 'user-1';
+const JOB = 'ingest-1';
+
+function rawItem(id: string, fields: Partial<ReviewRawItem> = {}): ReviewRawItem {
+  return {
+    Id: id,
+    UserId: USER,
+    IngestJobId: JOB,
+    RowNumber: Number(id.replace(/\D/g, '')) || null,
+    RawRow: {},
+    Status: 'valid',
+    NormalizedSku: null,
+    NormalizedBarcode: null,
+    NormalizedTitle: null,
+    NormalizedPrice: null,
+    NormalizedQuantity: null,
+    NormalizedData: null,
+    ProductVariantId: null,
+    ...fields,
+  };
+}
+
+function candidate(rawItemId: string, variantId: string | null, fields: Partial<MatchCandidate> = {}): MatchCandidate {
+  return {
+    Id: `cand-${rawItemId}-${variantId}`,
+    RawImportItemId: rawItemId,
+    UserId: USER,
+    CanonicalVariantId: variantId,
+    MatchType: 'SKU',
+    Confidence: 1,
+    MatchData: null,
+    Status: 'AUTO_MATCHED',
+    UserAction: null,
+    UserActionAt: null,
+    CreatedAt: '2025-08-01T00:00:00Z',
+    UpdatedAt: '2025-08-01T00:00:00Z',
+    ...fields,
+  };
+}
+
+function level(id: string, variantId: string, connectionId: string, quantity: number): InventoryLevel {
+  return {
+    Id: id,
+    ProductVariantId: variantId,
+    PlatformConnectionId: connectionId,
+    PlatformLocationId: `pl-${id}`,
+    Quantity: quantity,
+    LastPlatformUpdateAt: null,
+    CreatedAt: '2025-08-01T00:00:00Z',
+    UpdatedAt: '2025-08-01T00:00:00Z',
+  };
+}
+
+describe('ImportReviewService plan', () => {
+  let service: ImportReviewService;
+  let rawItems: ReviewRawItem[];
+  let candidates: MatchCandidate[];
+  let variants: ProductVariant[];
+  let levels: InventoryLevel[];
+  let connections: Array<{ Id: string; IsEnabled: boolean }>;
+  let rpc: jest.Mock;
+
+  beforeEach(() => {
+    rawItems = [];
+    candidates = [];
+    variants = [{ Id: 'variant-1', ProductId: 'product-1', Sku: 'SKU-1', Title: 'Mug', Price: 10 } as ProductVariant];
+    levels = [];
+    connections = [{ Id: 'conn-1', IsEnabled: true }, { Id: 'conn-off', IsEnabled: false }];
+    rpc = jest.fn().mockResolvedValue({
+      data: { commitId: 'commit-1', pricesUpdated: 1, quantitiesUpdated: 0, productsCreated: 0, inventoryVariantIds: [], priceProductIds: [] },
+      error: null,
+    });
+
+    const table = (rows: () => any[], key: string) => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        order: () => query,
+        range: () => Promise.resolve({ data: rows(), error: null }),
+        in: (_: string, ids: string[]) => Promise.resolve({ data: rows().filter(r => ids.includes(r[key])), error: null }),
+      };
+      return query;
+    };
+    const client = {
+      from: (name: string) => (name === 'RawImportItems' ? table(() => rawItems, 'Id') : table(() => candidates, 'RawImportItemId')),
+    };
+
+    service = new ImportReviewService(
+      // The commit and undo functions are only granted to the service role
+      { getClient: () => client, getServiceClient: () => ({ ...client, rpc }) } as unknown as SupabaseService,
+      { logActivity: jest.fn().mockResolvedValue(undefined) } as unknown as ActivityLogService,
+      {
+        getVariantsByIds: (ids: string[]) => Promise.resolve(variants.filter(v => ids.includes(v.Id))),
+        getVariantsBySkus: (_: string, skus: string[]) => Promise.resolve(variants.filter(v => skus.includes(v.Sku))),
+      } as unknown as ProductsService,
+      { getInventoryLevelsForVariants: (ids: string[]) => Promise.resolve(levels.filter(l => ids.includes(l.ProductVariantId))) } as unknown as InventoryService,
+      { getConnectionsForUser: () => Promise.resolve(connections) } as unknown as PlatformConnectionsService,
+      {
+        handleCanonicalInventoryUpdate: jest.fn().mockResolvedValue(undefined),
+        handleCanonicalProductUpdate: jest.fn().mockResolvedValue(undefined),
+      } as unknown as SyncCoordinatorService,
+    );
+  });
+
+  it('plans the price and the quantity of each connection tracking the variant at one location', async () => {
+    rawItems = [rawItem('row-1', { NormalizedPrice: 12.5, NormalizedQuantity: 4 })];
+    candidates = [candidate('row-1', 'variant-1')];
+    levels = [
+      level('level-a', 'variant-1', 'conn-1', 1),
+      level('level-b', 'variant-1', 'conn-2', 4),
+      level('level-c', 'variant-1', 'conn-3', 2),
+      level('level-d', 'variant-1', 'conn-3', 3),
+    ];
+
+    const diff = await service.previewCommit(USER, JOB);
+
+    expect(diff.entries[0]).toMatchObject({ action: 'accept', sku: 'SKU-1', blocked: false });
+    expect(diff.entries[0].changes).toEqual([
+      { field: 'Price', from: 10, to: 12.5 },
+      { field: 'Quantity', from: 1, to: 4, levelId: 'level-a', connectionId: 'conn-1', locationId: 'pl-level-a' },
+    ]);
+    expect(diff.entries[0].notes).toEqual(['Connection conn-3 tracks stock at 2 locations; the quantity is not applied there']);
+    expect(diff.summary).toMatchObject({ accept: 1, priceChanges: 1, quantityChanges: 1 });
+  });
+
+  it('ignores a price that only differs below the cent', async () => {
+    rawItems = [rawItem('row-1', { NormalizedPrice: 10.001 })];
+    candidates = [candidate('row-1', 'variant-1')];
+
+    const diff = await service.previewCommit(USER, JOB);
+
+    expect(diff.entries[0].changes).toEqual([]);
+  });
+
+  it('notes a quantity it cannot apply to a variant without inventory levels', async () => {
+    rawItems = [rawItem('row-1', { NormalizedQuantity: 3 })];
+    candidates = [candidate('row-1', 'variant-1')];
+
+    const diff = await service.previewCommit(USER, JOB);
+
+    expect(diff.entries[0].notes).toEqual(['The variant has no inventory levels; the quantity is not applied']);
+    expect(diff.summary.quantityChanges).toBe(0);
+  });
+
+  it('only auto-accepts a single auto-matched candidate, and only when asked to', async () => {
+    rawItems = [rawItem('row-1'), rawItem('row-2')];
+    variants.push({ Id: 'variant-2', ProductId: 'product-2', Sku: 'SKU-2', Title: 'Cup', Price: 5 } as ProductVariant);
+    candidates = [candidate('row-1', 'variant-1'), candidate('row-2', 'variant-1'), candidate('row-2', 'variant-2')];
+
+    const auto = await service.previewCommit(USER, JOB);
+    const manual = await service.previewCommit(USER, JOB, false);
+
+    expect(auto.entries.map(e => e.action)).toEqual(['accept', 'undecided']);
+    expect(auto.entries[1].notes).toEqual(['Needs review']);
+    expect(manual.entries.map(e => e.action)).toEqual(['undecided', 'undecided']);
+  });
+
+  it('lets a user decision win over the auto match', async () => {
+    rawItems = [rawItem('row-1'), rawItem('row-2')];
+    candidates = [candidate('row-1', 'variant-1', { UserAction: 'IGNORE' }), candidate('row-2', 'variant-1', { UserAction: 'CREATE_NEW' })];
+
+    const diff = await service.previewCommit(USER, JOB);
+
+    expect(diff.entries.map(e => e.action)).toEqual(['skip', 'create']);
+  });
+
+  it('leaves invalid and already committed rows out of the review', async () => {
+    rawItems = [rawItem('row-1', { Status: 'invalid' }), rawItem('row-2', { Status: 'committed' }), rawItem('row-3', { Status: 'pending' })];
+    candidates = [candidate('row-3', 'variant-1')];
+
+    const diff = await service.previewCommit(USER, JOB);
+
+    expect(diff.entries.map(e => e.rawItemId)).toEqual(['row-3']);
+  });
+
+  it('fails when no rows are awaiting review', async () => {
+    rawItems = [rawItem('row-1', { Status: 'invalid' })];
+
+    await expect(service.previewCommit(USER, JOB)).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('blocks a second row updating the same variant and a match whose variant is gone', async () => {
+    rawItems = [rawItem('row-1', { NormalizedPrice: 11 }), rawItem('row-2', { NormalizedPrice: 12 }), rawItem('row-3')];
+    candidates = [candidate('row-1', 'variant-1'), candidate('row-2', 'variant-1'), candidate('row-3', 'variant-gone')];
+
+    const diff = await service.previewCommit(USER, JOB);
+
+    expect(diff.entries.map(e => [e.blocked, e.notes])).toEqual([
+      [false, []],
+      [true, ['Another row of this import already updates the same variant']],
+      [true, ['The matched variant no longer exists']],
+    ]);
+    expect(diff.summary).toMatchObject({ accept: 1, blocked: 2, priceChanges: 1 });
+  });
+
+  it('blocks creating a SKU that exists or that an earlier row already creates', async () => {
+    rawItems = [
+      rawItem('row-1', { NormalizedSku: 'SKU-1' }),
+      rawItem('row-2', { NormalizedSku: 'NEW-1', RawRow: { Title: 'Bowl' }, NormalizedPrice: 8, NormalizedQuantity: 2 }),
+      rawItem('row-3', { NormalizedSku: 'NEW-1' }),
+    ];
+    candidates = rawItems.map(r => candidate(r.Id, null, { Status: 'NO_MATCH', UserAction: 'CREATE_NEW' }));
+
+    const diff = await service.previewCommit(USER, JOB);
+
+    expect(diff.entries.map(e => e.notes)).toEqual([
+      ['SKU SKU-1 already exists; accept that variant instead'],
+      [],
+      ['Another row of this import creates SKU NEW-1'],
+    ]);
+    expect(diff.summary).toMatchObject({ create: 1, blocked: 2 });
+  });
+
+  it('gives new products a generated SKU when the row has none and stocks them on enabled connections', async () => {
+    rawItems = [rawItem('abcdef123456', { NormalizedQuantity: 5 })];
+    candidates = [candidate('abcdef123456', null, { Status: 'NO_MATCH', UserAction: 'CREATE_NEW' })];
+
+    await service.commit(USER, JOB);
+
+    expect(rpc.mock.calls[0][1].p_plan.creates).toEqual([
+      { rawItemId: 'abcdef123456', sku: 'IMP-ABCDEF12', barcode: null, title: 'Untitled', description: null, price: 0, quantity: 5, connectionIds: ['conn-1'] },
+    ]);
+  });
+
+  it('notes that a new product quantity is dropped without enabled connections', async () => {
+    connections = [];
+    rawItems = [rawItem('row-1', { NormalizedSku: 'NEW-1', NormalizedQuantity: 5 })];
+    candidates = [candidate('row-1', null, { Status: 'NO_MATCH', UserAction: 'CREATE_NEW' })];
+
+    const diff = await service.previewCommit(USER, JOB);
+
+    expect(diff.entries[0].notes).toEqual(['No enabled connections; the quantity is not stored']);
+  });
+
+  it('commits accepted and skipped rows but not undecided or blocked ones', async () => {
+    rawItems = [rawItem('row-1', { NormalizedPrice: 11 }), rawItem('row-2'), rawItem('row-3'), rawItem('row-4')];
+    candidates = [
+      candidate('row-1', 'variant-1'),
+      candidate('row-2', null, { UserAction: 'IGNORE' }),
+      candidate('row-3', 'variant-1', { Status: 'NEEDS_REVIEW' }),
+      candidate('row-4', 'variant-1', { UserAction: 'ACCEPT' }),
+    ];
+
+    await service.commit(USER, JOB);
+
+    expect(rpc).toHaveBeenCalledWith('commit_import_review', {
+      p_user_id: USER,
+      p_ingest_job_id: JOB,
+      p_plan: {
+        priceUpdates: [{ variantId: 'variant-1', from: 10, to: 11 }],
+        quantityUpdates: [],
+        creates: [],
+        rawItems: [
+          { rawItemId: 'row-1', variantId: 'variant-1' },
+          { rawItemId: 'row-2', variantId: null, status: 'skipped' },
+        ],
+      },
+    });
+  });
+
+  it('refuses to commit when no row is ready', async () => {
+    rawItems = [rawItem('row-1')];
+    candidates = [candidate('row-1', 'variant-1', { Status: 'NEEDS_REVIEW' })];
+
+    await expect(service.commit(USER, JOB)).rejects.toBeInstanceOf(BadRequestException);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('asks for a new preview when the catalog changed since it was built', async () => {
+    rawItems = [rawItem('row-1', { NormalizedPrice: 11 })];
+    candidates = [candidate('row-1', 'variant-1')];
+    rpc.mockResolvedValue({ data: null, error: { message: 'IMPORT_PREVIEW_STALE: Price of SKU-1 changed' } });
+
+    await expect(service.commit(USER, JOB)).rejects.toThrow(new ConflictException('Price of SKU-1 changed; preview the import again'));
+  });
+});
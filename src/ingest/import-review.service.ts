@@ -0,0 +1,503 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../common/supabase.service';
+import { ActivityLogService } from '../common/activity-log.service';
+import { ProductsService } from '../canonical-data/products.service';
+import { InventoryService } from '../canonical-data/inventory.service';
+import { PlatformConnectionsService } from '../platform-connections/platform-connections.service';
+import { SyncCoordinatorService } from '../sync-engine/sync-coordinator.service';
+import { InventoryLevel, ProductVariant } from '../common/types/supabase.types';
+import {
+  MatchCandidate,
+  ReviewAction,
+  ReviewCommitPlan,
+  ReviewCommitResult,
+  ReviewDecision,
+  ReviewDecisionInput,
+  ReviewDiff,
+  ReviewDiffEntry,
+  ReviewItem,
+  ReviewRawItem,
+  ReviewUndoResult,
+} from './import-review.types';
+
+const RAW_ITEM_SELECT =
+  'Id, UserId, IngestJobId, RowNumber, RawRow, Status, NormalizedSku, NormalizedBarcode, NormalizedTitle, NormalizedPrice, NormalizedQuantity, NormalizedData, ProductVariantId';
+// Rows still open for review; invalid and already committed/skipped rows are not
+const REVIEWABLE_STATUSES = ['pending', 'valid'];
+const PAGE_SIZE = 1000;
+const IN_CHUNK_SIZE = 200;
+const STALE_PREVIEW_MARKER = 'IMPORT_PREVIEW_STALE';
+
+/**
+ * Review of the match candidates CsvMatchingProcessor writes for an ingest job.
+ * Decisions are stored on the candidates (UserAction/Status). Committing turns
+ * them into a plan of price, quantity and new-product changes that the
+ * commit_import_review database function applies in one transaction, logging
+ * each change so the whole ingest job can be undone.
+ */
+@Injectable()
+export class ImportReviewService {
+  private readonly logger = new Logger(ImportReviewService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly activityLogService: ActivityLogService,
+    private readonly productsService: ProductsService,
+    private readonly inventoryService: InventoryService,
+    private readonly connectionsService: PlatformConnectionsService,
+    private readonly syncCoordinator: SyncCoordinatorService,
+  ) {}
+
+  async getReview(
+    userId: string,
+    ingestJobId: string,
+    filters: { decision?: ReviewDecision['action']; autoAcceptMatched?: boolean; limit?: number; offset?: number } = {},
+  ): Promise<{ items: ReviewItem[]; total: number }> {
+    const items = await this.loadReviewItems(userId, ingestJobId, filters.autoAcceptMatched ?? true);
+    const filtered = filters.decision ? items.filter(item => item.decision.action === filters.decision) : items;
+    const offset = filters.offset || 0;
+    const limit = Math.min(filters.limit || 100, 500);
+    return { items: filtered.slice(offset, offset + limit), total: filtered.length };
+  }
+
+  async setDecisions(userId: string, ingestJobId: string, decisions: ReviewDecisionInput[]): Promise<ReviewItem[]> {
+    const rawItems = await this.loadRawItems(userId, ingestJobId, decisions.map(d => d.rawItemId));
+    const byId = new Map(rawItems.map(item => [item.Id, item]));
+    const candidates = await this.loadCandidates(userId, rawItems.map(item => item.Id));
+
+    for (const decision of decisions) {
+      const rawItem = byId.get(decision.rawItemId);
+      if (!rawItem) {
+        throw new NotFoundException(`Row ${decision.rawItemId} is not part of ingest job ${ingestJobId}`);
+      }
+      if (!REVIEWABLE_STATUSES.includes(rawItem.Status)) {
+        throw new ConflictException(`Row ${rawItem.RowNumber ?? rawItem.Id} is ${rawItem.Status} and can no longer be reviewed`);
+      }
+      await this.applyDecision(userId, rawItem, candidates.get(rawItem.Id) || [], decision);
+    }
+
+    const items = await this.loadReviewItems(userId, ingestJobId, true);
+    const decided = new Set(decisions.map(d => d.rawItemId));
+    return items.filter(item => decided.has(item.rawItem.Id));
+  }
+
+  /**
+   * Dry run: the changes a commit would make right now.
+   */
+  async previewCommit(userId: string, ingestJobId: string, autoAcceptMatched = true): Promise<ReviewDiff> {
+    const { diff } = await this.buildPlan(userId, ingestJobId, autoAcceptMatched);
+    return diff;
+  }
+
+  async commit(userId: string, ingestJobId: string, autoAcceptMatched = true): Promise<ReviewCommitResult> {
+    const { diff, plan } = await this.buildPlan(userId, ingestJobId, autoAcceptMatched);
+    if (plan.rawItems.length === 0 && plan.creates.length === 0) {
+      throw new BadRequestException('Nothing to commit: no reviewed rows are ready');
+    }
+
+    const { data, error } = await this.supabaseService.getServiceClient().rpc('commit_import_review', {
+      p_user_id: userId,
+      p_ingest_job_id: ingestJobId,
+      p_plan: plan,
+    });
+    if (error) {
+      if (error.message?.includes(STALE_PREVIEW_MARKER)) {
+        throw new ConflictException(`${error.message.replace(`${STALE_PREVIEW_MARKER}: `, '')}; preview the import again`);
+      }
+      this.logger.error(`Import review commit failed for job ${ingestJobId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not commit the import; nothing was changed.');
+    }
+
+    await this.pushChanges(userId, data.inventoryVariantIds || [], data.priceProductIds || []);
+    await this.activityLogService.logActivity({
+      UserId: userId,
+      EntityType: 'CSV_Import',
+      EntityId: ingestJobId,
+      EventType: 'IMPORT_REVIEW_COMMITTED',
+      Status: 'Success',
+      Message: `Import ${ingestJobId} committed: ${data.pricesUpdated} prices, ${data.quantitiesUpdated} quantities, ${data.productsCreated} new products`,
+      Details: { commitId: data.commitId, summary: diff.summary },
+    });
+
+    return {
+      commitId: data.commitId,
+      pricesUpdated: data.pricesUpdated,
+      quantitiesUpdated: data.quantitiesUpdated,
+      productsCreated: data.productsCreated,
+      diff: diff.summary,
+    };
+  }
+
+  /**
+   * Reverts every commit of the ingest job. Values changed since the import are
+   * kept and reported as conflicts.
+   */
+  async undo(userId: string, ingestJobId: string): Promise<ReviewUndoResult> {
+    const { data, error } = await this.supabaseService.getServiceClient().rpc('undo_import_review', {
+      p_user_id: userId,
+      p_ingest_job_id: ingestJobId,
+    });
+    if (error) {
+      this.logger.error(`Import review undo failed for job ${ingestJobId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not undo the import; nothing was changed.');
+    }
+    if (data.restored === 0 && (data.conflicts || []).length === 0) {
+      throw new NotFoundException(`Ingest job ${ingestJobId} has no committed changes to undo`);
+    }
+
+    await this.pushChanges(userId, data.inventoryVariantIds || [], data.priceProductIds || []);
+    await this.activityLogService.logActivity({
+      UserId: userId,
+      EntityType: 'CSV_Import',
+      EntityId: ingestJobId,
+      EventType: 'IMPORT_REVIEW_UNDONE',
+      Status: (data.conflicts || []).length > 0 ? 'Warning' : 'Success',
+      Message: `Import ${ingestJobId} undone: ${data.restored} changes reverted, ${(data.conflicts || []).length} conflicts`,
+      Details: { conflicts: data.conflicts },
+    });
+    return { restored: data.restored, conflicts: data.conflicts || [] };
+  }
+
+  // --- Decisions ---
+
+  private async applyDecision(userId: string, rawItem: ReviewRawItem, candidates: MatchCandidate[], decision: ReviewDecisionInput): Promise<void> {
+    const supabase = this.supabaseService.getClient();
+    const now = new Date().toISOString();
+
+    if (decision.action === 'accept') {
+      const chosen = candidates.find(c => c.Id === decision.candidateId);
+      if (!chosen || !chosen.CanonicalVariantId) {
+        throw new BadRequestException(`Row ${rawItem.RowNumber ?? rawItem.Id}: accept needs the candidateId of one of its matched candidates`);
+      }
+      await this.updateCandidates([chosen.Id], { Status: 'USER_CONFIRMED', UserAction: 'ACCEPT', UserActionAt: now, UpdatedAt: now });
+      await this.updateCandidates(
+        candidates.filter(c => c.Id !== chosen.Id).map(c => c.Id),
+        { Status: 'USER_REJECTED', UserAction: 'REJECT', UserActionAt: now, UpdatedAt: now },
+      );
+      return;
+    }
+
+    const userAction = decision.action === 'create' ? 'CREATE_NEW' : 'IGNORE';
+    if (candidates.length === 0) {
+      // Rows matching never reached still need a candidate to hold the decision
+      const { error } = await supabase.from('MatchCandidates').insert({
+        RawImportItemId: rawItem.Id,
+        UserId: userId,
+        CanonicalVariantId: null,
+        MatchType: 'NONE',
+        Confidence: 0,
+        MatchData: { rawTitle: rawItem.NormalizedTitle, rawSku: rawItem.NormalizedSku },
+        Status: 'USER_REJECTED',
+        UserAction: userAction,
+        UserActionAt: now,
+      });
+      if (error) {
+        throw new InternalServerErrorException(`Could not save the review decision: ${error.message}`);
+      }
+      return;
+    }
+    await this.updateCandidates(
+      candidates.map(c => c.Id),
+      { Status: 'USER_REJECTED', UserAction: userAction, UserActionAt: now, UpdatedAt: now },
+    );
+  }
+
+  private async updateCandidates(candidateIds: string[], updates: Partial<MatchCandidate>): Promise<void> {
+    if (candidateIds.length === 0) return;
+    const { error } = await this.supabaseService.getClient().from('MatchCandidates').update(updates).in('Id', candidateIds);
+    if (error) {
+      this.logger.error(`Failed to update match candidates: ${error.message}`);
+      throw new InternalServerErrorException('Could not save the review decision.');
+    }
+  }
+
+  private resolveDecision(candidates: MatchCandidate[], autoAcceptMatched: boolean): ReviewDecision {
+    const accepted = candidates.find(c => c.UserAction === 'ACCEPT' && c.CanonicalVariantId);
+    if (accepted) {
+      return { action: 'accept', candidateId: accepted.Id, variantId: accepted.CanonicalVariantId, auto: false };
+    }
+    const explicit: Array<[MatchCandidate['UserAction'], ReviewAction]> = [
+      ['CREATE_NEW', 'create'],
+      ['IGNORE', 'skip'],
+    ];
+    for (const [userAction, action] of explicit) {
+      if (candidates.some(c => c.UserAction === userAction)) {
+        return { action, candidateId: null, variantId: null, auto: false };
+      }
+    }
+
+    const autoMatched = candidates.filter(c => c.Status === 'AUTO_MATCHED' && c.CanonicalVariantId && !c.UserAction);
+    if (autoAcceptMatched && autoMatched.length === 1) {
+      return { action: 'accept', candidateId: autoMatched[0].Id, variantId: autoMatched[0].CanonicalVariantId, auto: true };
+    }
+    return { action: 'undecided', candidateId: null, variantId: null, auto: false };
+  }
+
+  // --- Plan ---
+
+  private async buildPlan(userId: string, ingestJobId: string, autoAcceptMatched: boolean): Promise<{ diff: ReviewDiff; plan: ReviewCommitPlan }> {
+    const items = await this.loadReviewItems(userId, ingestJobId, autoAcceptMatched);
+    if (items.length === 0) {
+      throw new NotFoundException(`Ingest job ${ingestJobId} has no rows awaiting review`);
+    }
+
+    const acceptedVariantIds = [...new Set(items.map(i => i.decision.variantId).filter((id): id is string => !!id))];
+    const variants = new Map((await this.productsService.getVariantsByIds(acceptedVariantIds)).map(v => [v.Id, v]));
+    const levelsByVariant = new Map<string, InventoryLevel[]>();
+    for (const level of await this.inventoryService.getInventoryLevelsForVariants(acceptedVariantIds)) {
+      levelsByVariant.set(level.ProductVariantId, [...(levelsByVariant.get(level.ProductVariantId) || []), level]);
+    }
+
+    const creates = items.filter(i => i.decision.action === 'create');
+    const existingSkus = new Set(
+      (await this.productsService.getVariantsBySkus(userId, creates.map(i => this.skuFor(i.rawItem)))).map(v => v.Sku),
+    );
+    const connectionIds = creates.length > 0
+      ? (await this.connectionsService.getConnectionsForUser(userId)).filter(c => c.IsEnabled).map(c => c.Id)
+      : [];
+
+    const plan: ReviewCommitPlan = { priceUpdates: [], quantityUpdates: [], creates: [], rawItems: [] };
+    const entries: ReviewDiffEntry[] = [];
+    const claimedVariants = new Set<string>();
+    const createdSkus = new Set<string>();
+
+    for (const { rawItem, decision } of items) {
+      const entry: ReviewDiffEntry = {
+        rawItemId: rawItem.Id,
+        rowNumber: rawItem.RowNumber,
+        action: decision.action,
+        variantId: decision.variantId,
+        sku: rawItem.NormalizedData?.sku ?? rawItem.NormalizedSku,
+        title: this.titleFor(rawItem),
+        changes: [],
+        notes: [],
+        blocked: false,
+      };
+      entries.push(entry);
+
+      if (decision.action === 'undecided') {
+        entry.notes.push('Needs review');
+      } else if (decision.action === 'skip') {
+        plan.rawItems.push({ rawItemId: rawItem.Id, variantId: null, status: 'skipped' });
+      } else if (decision.action === 'accept') {
+        const variant = variants.get(decision.variantId as string);
+        if (!variant) {
+          this.block(entry, 'The matched variant no longer exists');
+        } else if (claimedVariants.has(variant.Id)) {
+          this.block(entry, 'Another row of this import already updates the same variant');
+        } else {
+          claimedVariants.add(variant.Id);
+          entry.sku = variant.Sku;
+          this.planVariantUpdate(rawItem, variant, levelsByVariant.get(variant.Id) || [], entry, plan);
+          plan.rawItems.push({ rawItemId: rawItem.Id, variantId: variant.Id });
+        }
+      } else {
+        const sku = this.skuFor(rawItem);
+        if (existingSkus.has(sku)) {
+          this.block(entry, `SKU ${sku} already exists; accept that variant instead`);
+        } else if (createdSkus.has(sku)) {
+          this.block(entry, `Another row of this import creates SKU ${sku}`);
+        } else {
+          createdSkus.add(sku);
+          entry.sku = sku;
+          const quantity = rawItem.NormalizedData?.quantity ?? rawItem.NormalizedQuantity;
+          plan.creates.push({
+            rawItemId: rawItem.Id,
+            sku,
+            barcode: rawItem.NormalizedData?.barcode ?? rawItem.NormalizedBarcode,
+            title: entry.title || 'Untitled',
+            description: rawItem.NormalizedData?.description ?? null,
+            price: rawItem.NormalizedData?.price ?? rawItem.NormalizedPrice ?? 0,
+            quantity,
+            connectionIds,
+          });
+          if (quantity !== null && connectionIds.length === 0) {
+            entry.notes.push('No enabled connections; the quantity is not stored');
+          }
+        }
+      }
+    }
+
+    const count = (action: ReviewDecision['action']) => entries.filter(e => e.action === action && !e.blocked).length;
+    return {
+      plan,
+      diff: {
+        ingestJobId,
+        summary: {
+          accept: count('accept'),
+          create: count('create'),
+          skip: count('skip'),
+          undecided: count('undecided'),
+          blocked: entries.filter(e => e.blocked).length,
+          priceChanges: plan.priceUpdates.length,
+          quantityChanges: plan.quantityUpdates.length,
+        },
+        entries,
+      },
+    };
+  }
+
+  /**
+   * Each connection keeps its own copy of the stock; the imported quantity
+   * replaces it where the connection tracks the variant at a single location.
+   */
+  private planVariantUpdate(
+    rawItem: ReviewRawItem,
+    variant: ProductVariant,
+    levels: InventoryLevel[],
+    entry: ReviewDiffEntry,
+    plan: ReviewCommitPlan,
+  ): void {
+    const price = rawItem.NormalizedData?.price ?? rawItem.NormalizedPrice;
+    const currentPrice = Number(variant.Price);
+    if (price !== null && price !== undefined && Math.round(price * 100) !== Math.round(currentPrice * 100)) {
+      entry.changes.push({ field: 'Price', from: currentPrice, to: price });
+      plan.priceUpdates.push({ variantId: variant.Id, from: currentPrice, to: price });
+    }
+
+    const quantity = rawItem.NormalizedData?.quantity ?? rawItem.NormalizedQuantity;
+    if (quantity === null || quantity === undefined) return;
+    if (levels.length === 0) {
+      entry.notes.push('The variant has no inventory levels; the quantity is not applied');
+      return;
+    }
+
+    const byConnection = new Map<string, InventoryLevel[]>();
+    levels.forEach(l => byConnection.set(l.PlatformConnectionId, [...(byConnection.get(l.PlatformConnectionId) || []), l]));
+    for (const [connectionId, connectionLevels] of byConnection.entries()) {
+      if (connectionLevels.length > 1) {
+        entry.notes.push(`Connection ${connectionId} tracks stock at ${connectionLevels.length} locations; the quantity is not applied there`);
+        continue;
+      }
+      const level = connectionLevels[0];
+      if (level.Quantity === quantity) continue;
+      entry.changes.push({
+        field: 'Quantity',
+        from: level.Quantity,
+        to: quantity,
+        levelId: level.Id,
+        connectionId,
+        locationId: level.PlatformLocationId,
+      });
+      plan.quantityUpdates.push({ levelId: level.Id, from: level.Quantity, to: quantity });
+    }
+  }
+
+  private block(entry: ReviewDiffEntry, note: string): void {
+    entry.blocked = true;
+    entry.notes.push(note);
+  }
+
+  private skuFor(rawItem: ReviewRawItem): string {
+    return rawItem.NormalizedData?.sku || rawItem.NormalizedSku || `IMP-${rawItem.Id.slice(0, 8).toUpperCase()}`;
+  }
+
+  /**
+   * NormalizedTitle is lowercased for matching, so the display title comes from
+   * the import pipeline's data or the raw CSV columns.
+   */
+  private titleFor(rawItem: ReviewRawItem): string | null {
+    const raw = rawItem.RawRow || {};
+    return rawItem.NormalizedData?.title || raw.title || raw.Title || raw.Name || raw.TITLE || rawItem.NormalizedTitle || null;
+  }
+
+  private async pushChanges(userId: string, variantIds: string[], productIds: string[]): Promise<void> {
+    try {
+      for (const variantId of new Set(variantIds)) {
+        await this.syncCoordinator.handleCanonicalInventoryUpdate(variantId, userId);
+      }
+      for (const productId of new Set(productIds)) {
+        await this.syncCoordinator.handleCanonicalProductUpdate(productId, userId);
+      }
+    } catch (error) {
+      // The catalog is already updated; the next sync pushes whatever was missed
+      this.logger.error(`Failed to queue pushes after import review: ${error.message}`, error.stack);
+    }
+  }
+
+  // --- Loading ---
+
+  private async loadReviewItems(userId: string, ingestJobId: string, autoAcceptMatched: boolean): Promise<ReviewItem[]> {
+    const rawItems = await this.loadRawItems(userId, ingestJobId);
+    const candidates = await this.loadCandidates(userId, rawItems.map(item => item.Id));
+    const variantIds = [...new Set([...candidates.values()].flat().map(c => c.CanonicalVariantId).filter((id): id is string => !!id))];
+    const variants = new Map((await this.productsService.getVariantsByIds(variantIds)).map(v => [v.Id, v]));
+
+    return rawItems
+      .filter(item => REVIEWABLE_STATUSES.includes(item.Status))
+      .map(rawItem => {
+        const rowCandidates = (candidates.get(rawItem.Id) || []).sort((a, b) => b.Confidence - a.Confidence);
+        return {
+          rawItem,
+          candidates: rowCandidates.map(c => {
+            const variant = c.CanonicalVariantId ? variants.get(c.CanonicalVariantId) : undefined;
+            return { ...c, variant: variant ? { Id: variant.Id, Title: variant.Title, Sku: variant.Sku, Price: variant.Price } : null };
+          }),
+          decision: this.resolveDecision(rowCandidates, autoAcceptMatched),
+        };
+      });
+  }
+
+  private async loadRawItems(userId: string, ingestJobId: string, ids?: string[]): Promise<ReviewRawItem[]> {
+    const supabase = this.supabaseService.getClient();
+    if (ids) {
+      const items: ReviewRawItem[] = [];
+      for (let i = 0; i < ids.length; i += IN_CHUNK_SIZE) {
+        const { data, error } = await supabase
+          .from('RawImportItems')
+          .select(RAW_ITEM_SELECT)
+          .eq('UserId', userId)
+          .eq('IngestJobId', ingestJobId)
+          .in('Id', ids.slice(i, i + IN_CHUNK_SIZE));
+        if (error) {
+          throw new InternalServerErrorException(`Could not load import rows: ${error.message}`);
+        }
+        items.push(...((data || []) as ReviewRawItem[]));
+      }
+      return items;
+    }
+
+    const items: ReviewRawItem[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('RawImportItems')
+        .select(RAW_ITEM_SELECT)
+        .eq('UserId', userId)
+        .eq('IngestJobId', ingestJobId)
+        .order('RowNumber', { ascending: true })
+        .order('CreatedAt', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) {
+        throw new InternalServerErrorException(`Could not load import rows: ${error.message}`);
+      }
+      items.push(...((data || []) as ReviewRawItem[]));
+      if (!data || data.length < PAGE_SIZE) return items;
+    }
+  }
+
+  private async loadCandidates(userId: string, rawItemIds: string[]): Promise<Map<string, MatchCandidate[]>> {
+    const byRawItem = new Map<string, MatchCandidate[]>();
+    for (let i = 0; i < rawItemIds.length; i += IN_CHUNK_SIZE) {
+      const { data, error } = await this.supabaseService
+        .getClient()
+        .from('MatchCandidates')
+        .select('*')
+        .eq('UserId', userId)
+        .in('RawImportItemId', rawItemIds.slice(i, i + IN_CHUNK_SIZE));
+      if (error) {
+        throw new InternalServerErrorException(`Could not load match candidates: ${error.message}`);
+      }
+      for (const candidate of (data || []) as MatchCandidate[]) {
+        byRawItem.set(candidate.RawImportItemId, [...(byRawItem.get(candidate.RawImportItemId) || []), candidate]);
+      }
+    }
+    return byRawItem;
+  }
+}
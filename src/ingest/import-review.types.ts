@@ -0,0 +1,125 @@
+import { ProductVariant } from '../common/types/supabase.types';
+import { ImportRowStatus, NormalizedImportRow } from './import.types';
+
+export interface MatchCandidate {
+  Id: string;
+  RawImportItemId: string;
+  UserId: string;
+  CanonicalVariantId: string | null;
+  MatchType: 'SKU' | 'BARCODE' | 'TITLE' | 'NONE';
+  Confidence: number;
+  MatchData: Record<string, any> | null;
+  Status: 'AUTO_MATCHED' | 'NEEDS_REVIEW' | 'NO_MATCH' | 'USER_CONFIRMED' | 'USER_REJECTED';
+  UserAction: 'ACCEPT' | 'REJECT' | 'CREATE_NEW' | 'IGNORE' | null;
+  UserActionAt: string | null;
+  CreatedAt: string;
+  UpdatedAt: string;
+}
+
+export interface ReviewRawItem {
+  Id: string;
+  UserId: string;
+  IngestJobId: string;
+  RowNumber: number | null;
+  RawRow: Record<string, any>;
+  Status: ImportRowStatus;
+  NormalizedSku: string | null;
+  NormalizedBarcode: string | null;
+  NormalizedTitle: string | null;
+  NormalizedPrice: number | null;
+  NormalizedQuantity: number | null;
+  NormalizedData: NormalizedImportRow | null;
+  ProductVariantId: string | null;
+}
+
+export type ReviewAction = 'accept' | 'create' | 'skip';
+
+/**
+ * What will happen to a row, derived from its candidates' UserAction. Rows
+ * nobody decided on fall back to their AUTO_MATCHED candidate, if any.
+ */
+export interface ReviewDecision {
+  action: ReviewAction | 'undecided';
+  candidateId: string | null;
+  variantId: string | null;
+  auto: boolean; // Taken from an AUTO_MATCHED candidate rather than a user choice
+}
+
+export interface ReviewItem {
+  rawItem: ReviewRawItem;
+  candidates: Array<MatchCandidate & { variant: Pick<ProductVariant, 'Id' | 'Title' | 'Sku' | 'Price'> | null }>;
+  decision: ReviewDecision;
+}
+
+export interface ReviewDecisionInput {
+  rawItemId: string;
+  action: ReviewAction;
+  candidateId?: string; // Required for accept; any of the row's candidates
+}
+
+export interface ReviewFieldChange {
+  field: 'Price' | 'Quantity';
+  from: number;
+  to: number;
+  levelId?: string;
+  connectionId?: string;
+  locationId?: string | null;
+}
+
+export interface ReviewDiffEntry {
+  rawItemId: string;
+  rowNumber: number | null;
+  action: ReviewDecision['action'];
+  variantId: string | null;
+  sku: string | null;
+  title: string | null;
+  changes: ReviewFieldChange[];
+  notes: string[];
+  blocked: boolean; // Excluded from the commit (see notes)
+}
+
+export interface ReviewDiff {
+  ingestJobId: string;
+  summary: {
+    accept: number;
+    create: number;
+    skip: number;
+    undecided: number;
+    blocked: number;
+    priceChanges: number;
+    quantityChanges: number;
+  };
+  entries: ReviewDiffEntry[];
+}
+
+/**
+ * Payload of the commit_import_review database function.
+ */
+export interface ReviewCommitPlan {
+  priceUpdates: Array<{ variantId: string; from: number; to: number }>;
+  quantityUpdates: Array<{ levelId: string; from: number; to: number }>;
+  creates: Array<{
+    rawItemId: string;
+    sku: string;
+    barcode: string | null;
+    title: string;
+    description: string | null;
+    price: number;
+    quantity: number | null;
+    connectionIds: string[];
+  }>;
+  rawItems: Array<{ rawItemId: string; variantId: string | null; status?: 'committed' | 'skipped' }>;
+}
+
+export interface ReviewCommitResult {
+  commitId: string;
+  pricesUpdated: number;
+  quantitiesUpdated: number;
+  productsCreated: number;
+  diff: ReviewDiff['summary'];
+}
+
+export interface ReviewUndoResult {
+  restored: number;
+  conflicts: Array<{ entityType: string; entityId: string; reason: string }>;
+}
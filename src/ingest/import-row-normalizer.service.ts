@@ -0,0 +1,273 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { layoutDefaults } from './import-layouts';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportLayout,
+  ImportRowIssue,
+  ImportRowResult,
+  NormalizedImportRow,
+} from './import.types';
+
+// Placeholder option/variation names the platforms use for single-variant products
+const DEFAULT_VARIANT_NAMES = new Set(['default title', 'regular', 'default']);
+const TRUE_VALUES = new Set(['true', 'yes', 'y', '1']);
+const FALSE_VALUES = new Set(['false', 'no', 'n', '0']);
+
+interface ProductHead {
+  resultIndex: number;
+  title: string;
+  description: string | null;
+  optionNames: string[];
+}
+
+/**
+ * Applies a column mapping to parsed rows and validates each one. Rows that
+ * share a product key become variants of one product; continuation rows inherit
+ * the product-level fields (title, description, option names) from the first
+ * row of their product, the way Shopify exports are laid out.
+ */
+@Injectable()
+export class ImportRowNormalizerService {
+  /**
+   * Checks a mapping's shape and, when headers are given, that every mapped
+   * column exists in the file.
+   */
+  assertValidMapping(mapping: unknown, headers?: string[]): ColumnMapping {
+    if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+      throw new BadRequestException('Column mapping must be an object of import field to column header');
+    }
+
+    const result: ColumnMapping = {};
+    for (const [field, source] of Object.entries(mapping)) {
+      if (!IMPORT_FIELDS.includes(field as ImportField)) {
+        throw new BadRequestException(`Unknown import field "${field}". Expected one of: ${IMPORT_FIELDS.join(', ')}`);
+      }
+      const columns = Array.isArray(source) ? source : [source];
+      if (columns.length === 0 || columns.some(c => typeof c !== 'string' || c.trim() === '')) {
+        throw new BadRequestException(`Import field "${field}" must map to a column header or a list of headers`);
+      }
+      result[field as ImportField] = Array.isArray(source) ? (source as string[]) : (source as string);
+    }
+
+    if (headers) {
+      const available = new Set(headers);
+      const missing = Object.values(result)
+        .flatMap(source => (Array.isArray(source) ? source : [source]))
+        .filter(column => !available.has(column));
+      if (missing.length > 0) {
+        throw new BadRequestException(`The file has no column(s): ${[...new Set(missing)].join(', ')}`);
+      }
+      if (!result.title || !result.price) {
+        throw new BadRequestException('The column mapping must include at least title and price');
+      }
+    }
+    return result;
+  }
+
+  normalize(rows: Record<string, string>[], mapping: ColumnMapping, layout: ImportLayout, jobId: string): ImportRowResult[] {
+    const defaults = layoutDefaults(layout);
+    const read = (raw: Record<string, string>, field: ImportField): string => {
+      const value = this.columns(mapping, field).map(column => raw[column]?.trim()).find(Boolean);
+      return value || defaults[field] || '';
+    };
+    const readAll = (raw: Record<string, string>, field: ImportField): string[] =>
+      this.columns(mapping, field)
+        .map(column => raw[column]?.trim())
+        .filter((value): value is string => !!value);
+
+    const results: ImportRowResult[] = [];
+    const products = new Map<string, ProductHead>();
+    const skus = new Map<string, number>();
+
+    rows.forEach((raw, index) => {
+      const rowNumber = index + 1;
+      const issues: ImportRowIssue[] = [];
+      const fail = (field: ImportField, message: string) => issues.push({ field, severity: 'error', message });
+      const warn = (field: ImportField, message: string) => issues.push({ field, severity: 'warning', message });
+
+      if (Object.values(raw).every(value => !value?.trim())) {
+        results.push({ rowNumber, raw, normalized: null, status: 'skipped', issues: [{ severity: 'warning', message: 'Empty row' }] });
+        return;
+      }
+
+      const ownTitle = read(raw, 'title');
+      const productKey = read(raw, 'productKey') || ownTitle;
+      const head = productKey ? products.get(productKey) : undefined;
+      const imageUrls = this.parseImageUrls(readAll(raw, 'imageUrl'), warn);
+
+      const optionValues = [1, 2, 3].map(n => read(raw, `option${n}Value` as ImportField));
+      const variantTitle = read(raw, 'variantTitle');
+      const sku = read(raw, 'sku');
+      const priceText = read(raw, 'price');
+
+      // Shopify lists extra product images on rows that carry nothing else
+      if (head && !sku && !priceText && !variantTitle && optionValues.every(v => !v) && imageUrls.length > 0) {
+        const target = results[head.resultIndex];
+        if (target.normalized) {
+          target.normalized.imageUrls = [...new Set([...target.normalized.imageUrls, ...imageUrls])];
+        }
+        results.push({
+          rowNumber,
+          raw,
+          normalized: null,
+          status: 'skipped',
+          issues: [{ field: 'imageUrl', severity: 'warning', message: `Images added to row ${target.rowNumber}` }],
+        });
+        return;
+      }
+
+      const title = ownTitle || head?.title || '';
+      if (!title) fail('title', 'Title is required');
+
+      const description = read(raw, 'description') || head?.description || null;
+      const optionNames = [1, 2, 3].map((n, i) => read(raw, `option${n}Name` as ImportField) || head?.optionNames[i] || '');
+      const options = this.buildOptions(optionNames, optionValues, variantTitle);
+
+      const price = this.parseMoney(priceText);
+      if (!priceText) fail('price', 'Price is required');
+      else if (price === null || price < 0) fail('price', `Price "${priceText}" is not a valid amount`);
+
+      const compareAtText = read(raw, 'compareAtPrice');
+      let compareAtPrice = compareAtText ? this.parseMoney(compareAtText) : null;
+      if (compareAtText && compareAtPrice === null) {
+        warn('compareAtPrice', `Compare-at price "${compareAtText}" is not a valid amount and was ignored`);
+      } else if (compareAtPrice === 0) {
+        compareAtPrice = null;
+      }
+
+      let finalSku = sku;
+      if (!finalSku) {
+        finalSku = `IMP-${jobId.slice(0, 8).toUpperCase()}-${rowNumber}`;
+        warn('sku', `No SKU; generated ${finalSku}`);
+      } else if (skus.has(finalSku)) {
+        fail('sku', `SKU ${finalSku} is already used on row ${skus.get(finalSku)}`);
+      } else {
+        skus.set(finalSku, rowNumber);
+      }
+
+      const barcode = read(raw, 'barcode') || null;
+      if (barcode && !/^(\d{8}|\d{12,14})$/.test(barcode)) {
+        warn('barcode', `Barcode ${barcode} is not a valid UPC/EAN/GTIN`);
+      }
+
+      const quantity = this.parseQuantity(readAll(raw, 'quantity'), fail, warn);
+
+      const weightText = read(raw, 'weight');
+      let weight = weightText ? Number(weightText.replace(/[^0-9.-]/g, '')) : null;
+      if (weight !== null && (!Number.isFinite(weight) || weight < 0)) {
+        warn('weight', `Weight "${weightText}" is not a valid number and was ignored`);
+        weight = null;
+      }
+
+      const normalized: NormalizedImportRow = {
+        productKey: productKey || `row-${rowNumber}`,
+        title,
+        description,
+        sku: finalSku,
+        barcode,
+        price: price ?? 0,
+        compareAtPrice,
+        quantity,
+        weight,
+        weightUnit: weight !== null ? read(raw, 'weightUnit') || null : null,
+        options,
+        imageUrls,
+        requiresShipping: this.parseBoolean(read(raw, 'requiresShipping'), 'requiresShipping', warn),
+        isTaxable: this.parseBoolean(read(raw, 'taxable'), 'taxable', warn),
+      };
+
+      if (productKey && !head) {
+        products.set(productKey, { resultIndex: results.length, title, description, optionNames });
+      }
+      results.push({
+        rowNumber,
+        raw,
+        normalized,
+        status: issues.some(i => i.severity === 'error') ? 'invalid' : 'valid',
+        issues,
+      });
+    });
+
+    return results;
+  }
+
+  private columns(mapping: ColumnMapping, field: ImportField): string[] {
+    const source = mapping[field];
+    if (!source) return [];
+    return Array.isArray(source) ? source : [source];
+  }
+
+  private buildOptions(names: string[], values: string[], variantTitle: string): Record<string, string> | null {
+    const options: Record<string, string> = {};
+    values.forEach((value, i) => {
+      if (!value || DEFAULT_VARIANT_NAMES.has(value.toLowerCase())) return;
+      options[names[i] || `Option ${i + 1}`] = value;
+    });
+    if (Object.keys(options).length === 0 && variantTitle && !DEFAULT_VARIANT_NAMES.has(variantTitle.toLowerCase())) {
+      options.Variation = variantTitle;
+    }
+    return Object.keys(options).length > 0 ? options : null;
+  }
+
+  /**
+   * Accepts "$1,299.00", "1299", and "12,50" (comma as the decimal separator).
+   */
+  private parseMoney(text: string): number | null {
+    let cleaned = text.replace(/[^0-9.,-]/g, '');
+    if (/^-?\d+,\d{1,2}$/.test(cleaned)) {
+      cleaned = cleaned.replace(',', '.');
+    } else {
+      cleaned = cleaned.replace(/,/g, '');
+    }
+    if (!/^-?\d*\.?\d+$/.test(cleaned)) return null;
+    return Math.round(parseFloat(cleaned) * 100) / 100;
+  }
+
+  /**
+   * Several quantity columns (one per location) are summed into the row's stock.
+   */
+  private parseQuantity(
+    values: string[],
+    fail: (field: ImportField, message: string) => void,
+    warn: (field: ImportField, message: string) => void,
+  ): number | null {
+    if (values.length === 0) return null;
+    let total = 0;
+    for (const value of values) {
+      const n = Number(value.replace(/,/g, ''));
+      if (!Number.isInteger(n)) {
+        fail('quantity', `Quantity "${value}" is not a whole number`);
+        return null;
+      }
+      total += n;
+    }
+    if (total < 0) {
+      warn('quantity', `Negative quantity ${total} was imported as 0`);
+      return 0;
+    }
+    return total;
+  }
+
+  private parseBoolean(text: string, field: ImportField, warn: (field: ImportField, message: string) => void): boolean {
+    if (!text) return true;
+    const value = text.toLowerCase();
+    if (TRUE_VALUES.has(value)) return true;
+    if (FALSE_VALUES.has(value)) return false;
+    warn(field, `"${text}" is not a yes/no value; defaulted to yes`);
+    return true;
+  }
+
+  private parseImageUrls(values: string[], warn: (field: ImportField, message: string) => void): string[] {
+    const urls: string[] = [];
+    for (const value of values.flatMap(v => v.split(/[\s,|]+/)).filter(Boolean)) {
+      if (/^https?:\/\//i.test(value)) {
+        urls.push(value);
+      } else {
+        warn('imageUrl', `Image "${value}" is not a URL and was ignored`);
+      }
+    }
+    return [...new Set(urls)];
+  }
+}
@@ -0,0 +1,150 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Request,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  ParseUUIDPipe,
+  ValidationPipe,
+  BadRequestException,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { SupabaseAuthGuard } from '../auth/guards/supabase-auth.guard';
+import { runWithChangeSource } from '../common/change-source.context';
+import { ImportJobsService } from './import-jobs.service';
+import { ImportMappingProfilesService } from './import-mapping-profiles.service';
+import { ImportRowStatus } from './import.types';
+import { CommitImportDto, RemapImportDto, UploadImportFileDto } from './dto/import-file.dto';
+import { CreateImportMappingProfileDto, UpdateImportMappingProfileDto } from './dto/import-mapping-profile.dto';
+
+const ROW_STATUSES: ImportRowStatus[] = ['pending', 'valid', 'invalid', 'committed', 'skipped'];
+
+@Controller('imports')
+@UseGuards(SupabaseAuthGuard)
+export class ImportController {
+  constructor(
+    private readonly importJobsService: ImportJobsService,
+    private readonly profilesService: ImportMappingProfilesService,
+  ) {}
+
+  // --- Mapping profiles ---
+
+  @Get('profiles')
+  async listProfiles(@Request() req: any) {
+    return this.profilesService.listProfiles(req.user.id);
+  }
+
+  @Post('profiles')
+  async createProfile(@Request() req: any, @Body(ValidationPipe) dto: CreateImportMappingProfileDto) {
+    return this.profilesService.createProfile(req.user.id, dto);
+  }
+
+  @Patch('profiles/:profileId')
+  async updateProfile(
+    @Request() req: any,
+    @Param('profileId', ParseUUIDPipe) profileId: string,
+    @Body(ValidationPipe) dto: UpdateImportMappingProfileDto,
+  ) {
+    return this.profilesService.updateProfile(req.user.id, profileId, dto);
+  }
+
+  @Delete('profiles/:profileId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteProfile(@Request() req: any, @Param('profileId', ParseUUIDPipe) profileId: string): Promise<void> {
+    await this.profilesService.deleteProfile(req.user.id, profileId);
+  }
+
+  // --- Imports ---
+
+  /**
+   * Upload a CSV or XLSX file (generic, or a Shopify/Square/Clover export) and
+   * validate every row. Nothing is written to the catalog until commit.
+   */
+  @Post()
+  @UseInterceptors(FileInterceptor('file'))
+  async uploadImport(@Request() req: any, @UploadedFile() file: any, @Body(ValidationPipe) dto: UploadImportFileDto) {
+    if (!file?.buffer) {
+      throw new BadRequestException('A file is required');
+    }
+    let mapping: Record<string, string | string[]> | undefined;
+    if (dto.mapping) {
+      try {
+        mapping = JSON.parse(dto.mapping);
+      } catch {
+        throw new BadRequestException('mapping must be valid JSON');
+      }
+    }
+    return this.importJobsService.createImport(
+      req.user.id,
+      file,
+      { layout: dto.layout, profileId: dto.profileId, mapping },
+      dto.saveProfileAs,
+    );
+  }
+
+  @Get()
+  async listImports(@Request() req: any, @Query('limit') limit?: string, @Query('offset') offset?: string) {
+    return this.importJobsService.listJobs(
+      req.user.id,
+      limit ? parseInt(limit, 10) : undefined,
+      offset ? parseInt(offset, 10) : undefined,
+    );
+  }
+
+  @Get(':jobId')
+  async getImport(@Request() req: any, @Param('jobId', ParseUUIDPipe) jobId: string) {
+    return this.importJobsService.getJob(req.user.id, jobId);
+  }
+
+  /**
+   * Per-row validation results, e.g. ?status=invalid for the rows to fix
+   */
+  @Get(':jobId/rows')
+  async getImportRows(
+    @Request() req: any,
+    @Param('jobId', ParseUUIDPipe) jobId: string,
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    if (status && !ROW_STATUSES.includes(status as ImportRowStatus)) {
+      throw new BadRequestException(`status must be one of: ${ROW_STATUSES.join(', ')}`);
+    }
+    return this.importJobsService.getRows(req.user.id, jobId, {
+      status: status as ImportRowStatus | undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  @Post(':jobId/remap')
+  async remapImport(
+    @Request() req: any,
+    @Param('jobId', ParseUUIDPipe) jobId: string,
+    @Body(ValidationPipe) dto: RemapImportDto,
+  ) {
+    return this.importJobsService.remapImport(req.user.id, jobId, dto);
+  }
+
+  /**
+   * Write the valid rows to the catalog. Imported stock goes to the given
+   * connections, or to every enabled connection when none are given.
+   */
+  @Post(':jobId/commit')
+  async commitImport(
+    @Request() req: any,
+    @Param('jobId', ParseUUIDPipe) jobId: string,
+    @Body(ValidationPipe) dto: CommitImportDto,
+  ) {
+    return runWithChangeSource('import', jobId, () => this.importJobsService.commitImport(req.user.id, jobId, dto));
+  }
+}
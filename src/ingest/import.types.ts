@@ -0,0 +1,117 @@
+import { ImportJob } from '../common/types/supabase.types';
+
+export type ImportFileFormat = 'csv' | 'xlsx';
+export type ImportLayout = 'generic' | 'shopify' | 'square' | 'clover';
+
+export const IMPORT_FIELDS = [
+  'productKey', // Groups rows into one product (Shopify Handle, Square Item Name, Clover Item Group)
+  'title',
+  'description',
+  'sku',
+  'barcode',
+  'price',
+  'compareAtPrice',
+  'quantity',
+  'weight',
+  'weightUnit',
+  'variantTitle',
+  'option1Name',
+  'option1Value',
+  'option2Name',
+  'option2Value',
+  'option3Name',
+  'option3Value',
+  'imageUrl',
+  'requiresShipping',
+  'taxable',
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+/**
+ * Import field -> source column header. A list of headers is summed for
+ * quantities, collected for image URLs and read first-non-empty otherwise.
+ */
+export type ColumnMapping = Partial<Record<ImportField, string | string[]>>;
+
+export interface ParsedImportFile {
+  format: ImportFileFormat;
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+/**
+ * A row after mapping and validation, in the shape the commit step writes to
+ * Products, ProductVariants, ProductImages and InventoryLevels.
+ */
+export interface NormalizedImportRow {
+  productKey: string;
+  title: string;
+  description: string | null;
+  sku: string;
+  barcode: string | null;
+  price: number;
+  compareAtPrice: number | null;
+  quantity: number | null; // Null when the file carries no stock for the row
+  weight: number | null;
+  weightUnit: string | null;
+  options: Record<string, string> | null;
+  imageUrls: string[];
+  requiresShipping: boolean;
+  isTaxable: boolean;
+}
+
+export interface ImportRowIssue {
+  field?: ImportField;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export type ImportRowStatus = 'pending' | 'valid' | 'invalid' | 'committed' | 'skipped';
+
+export interface ImportRowResult {
+  rowNumber: number; // 1-based, counting data rows only
+  raw: Record<string, string>;
+  normalized: NormalizedImportRow | null;
+  status: ImportRowStatus;
+  issues: ImportRowIssue[];
+}
+
+export interface StoredImportRow {
+  Id: string;
+  UserId: string;
+  Source: string;
+  IngestJobId: string;
+  RowNumber: number;
+  RawRow: Record<string, string>;
+  Status: ImportRowStatus;
+  ValidationErrors: ImportRowIssue[];
+  NormalizedData: NormalizedImportRow | null;
+  ProductVariantId: string | null;
+}
+
+export interface ImportMappingSelection {
+  layout?: ImportLayout;
+  profileId?: string;
+  mapping?: ColumnMapping;
+}
+
+export interface ImportCommitOptions {
+  connectionIds?: string[]; // Connections that receive the imported stock; defaults to every enabled one
+  onExistingSku?: 'skip' | 'update';
+}
+
+export interface ImportCommitSummary {
+  productsCreated: number;
+  variantsCreated: number;
+  variantsUpdated: number;
+  rowsSkipped: number;
+  imagesSaved: number;
+  inventoryLevelsWritten: number;
+  inventoryConnectionIds: string[];
+}
+
+export interface ImportJobReport {
+  job: ImportJob;
+  issues: Array<{ rowNumber: number; status: ImportRowStatus; issues: ImportRowIssue[] }>; // First rows with problems
+}
@@ -1,14 +1,23 @@
-import { Controller, Post, UseGuards, UploadedFile, UseInterceptors, Body, HttpCode, HttpStatus, Logger } from '@nestjs/common';
+import { Controller, Get, Post, UseGuards, UploadedFile, UseInterceptors, Body, Param, Query, HttpCode, HttpStatus, Logger, Request, ValidationPipe, BadRequestException } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { IngestService } from './ingest.service';
+import { ImportReviewService } from './import-review.service';
+import { ReviewDecision } from './import-review.types';
+import { CommitReviewDto, ReviewDecisionsDto } from './dto/import-review.dto';
 import { SupabaseAuthGuard } from '../auth/guards/supabase-auth.guard';
+import { runWithChangeSource } from '../common/change-source.context';
+
+const DECISION_FILTERS: Array<ReviewDecision['action']> = ['accept', 'create', 'skip', 'undecided'];
 
 @Controller('ingest')
 @UseGuards(SupabaseAuthGuard)
 export class IngestController {
   private readonly logger = new Logger(IngestController.name);
 
-  constructor(private readonly ingestService: IngestService) {}
+  constructor(
+    private readonly ingestService: IngestService,
+    private readonly reviewService: ImportReviewService,
+  ) {}
 
   @Post('csv')
   @UseInterceptors(FileInterceptor('file'))
@@ -16,10 +25,9 @@ export class IngestController {
   async ingestCsv(
     @UploadedFile() file: any,
     @Body('jobId') jobId: string,
-    @Body() body: any,
+    @Request() req: any,
   ): Promise<{ message: string; count: number; jobId: string }> {
-    const userId = (body?.user?.id) || body?.userId; // guard should attach req.user in actual app
-    // Fallback: let client pass userId if guard injection isn't wired here
+    const userId = req.user.id;
     const csvText = file?.buffer ? file.buffer.toString('utf8') : (file as any)?.text;
     const filename = file?.originalname || 'upload.csv';
     const ingestJobId = jobId || `csv-${Date.now()}`;
@@ -28,6 +36,65 @@ export class IngestController {
     // TODO: enqueue a match job for newly inserted RawImportItems by jobId
     return { message: 'Ingest accepted', count: res.count, jobId: ingestJobId };
   }
-}
 
+  /**
+   * Rows of an ingest job with their match candidates and current decision
+   */
+  @Get('jobs/:ingestJobId/review')
+  async getReview(
+    @Request() req: any,
+    @Param('ingestJobId') ingestJobId: string,
+    @Query('decision') decision?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    if (decision && !DECISION_FILTERS.includes(decision as ReviewDecision['action'])) {
+      throw new BadRequestException(`decision must be one of: ${DECISION_FILTERS.join(', ')}`);
+    }
+    return this.reviewService.getReview(req.user.id, ingestJobId, {
+      decision: decision as ReviewDecision['action'] | undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  /**
+   * Accept a candidate (the suggested one or another), create a new product, or skip, per row
+   */
+  @Post('jobs/:ingestJobId/review/decisions')
+  async setDecisions(
+    @Request() req: any,
+    @Param('ingestJobId') ingestJobId: string,
+    @Body(ValidationPipe) dto: ReviewDecisionsDto,
+  ) {
+    return this.reviewService.setDecisions(req.user.id, ingestJobId, dto.decisions);
+  }
 
+  /**
+   * Dry run of the commit: price and quantity changes and new products
+   */
+  @Get('jobs/:ingestJobId/review/diff')
+  async previewCommit(
+    @Request() req: any,
+    @Param('ingestJobId') ingestJobId: string,
+    @Query('autoAcceptMatched') autoAcceptMatched?: string,
+  ) {
+    return this.reviewService.previewCommit(req.user.id, ingestJobId, autoAcceptMatched !== 'false');
+  }
+
+  @Post('jobs/:ingestJobId/review/commit')
+  async commitReview(
+    @Request() req: any,
+    @Param('ingestJobId') ingestJobId: string,
+    @Body(ValidationPipe) dto: CommitReviewDto,
+  ) {
+    return runWithChangeSource('import', ingestJobId, () =>
+      this.reviewService.commit(req.user.id, ingestJobId, dto.autoAcceptMatched ?? true),
+    );
+  }
+
+  @Post('jobs/:ingestJobId/review/undo')
+  async undoReview(@Request() req: any, @Param('ingestJobId') ingestJobId: string) {
+    return runWithChangeSource('import', ingestJobId, () => this.reviewService.undo(req.user.id, ingestJobId));
+  }
+}
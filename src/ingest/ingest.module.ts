@@ -2,22 +2,42 @@ import { Module } from '@nestjs/common';
 import { BullModule } from '@nestjs/bullmq';
 import { CommonModule } from '../common/common.module';
 import { MatchModule } from '../match/match.module';
+import { CanonicalDataModule } from '../canonical-data/canonical-data.module';
+import { PlatformConnectionsModule } from '../platform-connections/platform-connections.module';
+import { SyncEngineModule } from '../sync-engine/sync-engine.module';
 import { IngestService } from './ingest.service';
 import { IngestController } from './ingest.controller';
 import { CsvMatchingProcessor } from './csv-matching.processor';
+import { ImportController } from './import.controller';
+import { ImportFileParserService } from './import-file-parser.service';
+import { ImportRowNormalizerService } from './import-row-normalizer.service';
+import { ImportMappingProfilesService } from './import-mapping-profiles.service';
+import { ImportCommitService } from './import-commit.service';
+import { ImportJobsService } from './import-jobs.service';
+import { ImportReviewService } from './import-review.service';
 
 @Module({
   imports: [
     CommonModule,
     MatchModule,
+    CanonicalDataModule,
+    PlatformConnectionsModule,
+    SyncEngineModule,
     BullModule.registerQueue({
       name: 'csv-matching',
     }),
   ],
-  providers: [IngestService, CsvMatchingProcessor],
-  controllers: [IngestController],
-  exports: [IngestService],
+  providers: [
+    IngestService,
+    CsvMatchingProcessor,
+    ImportFileParserService,
+    ImportRowNormalizerService,
+    ImportMappingProfilesService,
+    ImportCommitService,
+    ImportJobsService,
+    ImportReviewService,
+  ],
+  controllers: [IngestController, ImportController],
+  exports: [IngestService, ImportJobsService],
 })
 export class IngestModule {}
-
-
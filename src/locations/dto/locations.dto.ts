@@ -0,0 +1,64 @@
+import { Type } from 'class-transformer';
+import { IsArray, IsBoolean, IsInt, IsNotEmpty, IsObject, IsOptional, IsString, IsUUID, Length, Min, ValidateNested } from 'class-validator';
+
+export class CreateLocationDto {
+  @IsString()
+  @Length(1, 100)
+  name: string;
+
+  @IsObject()
+  @IsOptional()
+  address?: Record<string, any>;
+}
+
+export class UpdateLocationDto {
+  @IsString()
+  @Length(1, 100)
+  @IsOptional()
+  name?: string;
+
+  @IsObject()
+  @IsOptional()
+  address?: Record<string, any>;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
+
+export class SetLocationMappingDto {
+  @IsUUID()
+  locationId: string;
+
+  @IsUUID()
+  connectionId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  platformLocationId: string;
+
+  @IsString()
+  @IsOptional()
+  platformLocationName?: string;
+}
+
+export class AllocationRuleDto {
+  @IsUUID()
+  locationId: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isEnabled?: boolean;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  bufferQuantity?: number;
+}
+
+export class SetAllocationRulesDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AllocationRuleDto)
+  rules: AllocationRuleDto[];
+}
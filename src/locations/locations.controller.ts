@@ -0,0 +1,160 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  ParseUUIDPipe,
+  ValidationPipe,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseAuthGuard } from '../auth/guards/supabase-auth.guard';
+import { SupabaseService } from '../common/supabase.service';
+import { LocationsService } from '../canonical-data/locations.service';
+import { InventoryService } from '../canonical-data/inventory.service';
+import { PlatformConnection, PlatformConnectionsService } from '../platform-connections/platform-connections.service';
+import { PushSchedulerService } from '../sync-engine/push-scheduler.service';
+import { PlatformLocationsService } from './platform-locations.service';
+import { CreateLocationDto, SetAllocationRulesDto, SetLocationMappingDto, UpdateLocationDto } from './dto/locations.dto';
+
+const VALIDATION = new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true });
+
+@Controller('locations')
+@UseGuards(SupabaseAuthGuard)
+export class LocationsController {
+  private readonly logger = new Logger(LocationsController.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly locationsService: LocationsService,
+    private readonly platformLocationsService: PlatformLocationsService,
+    private readonly inventoryService: InventoryService,
+    private readonly connectionsService: PlatformConnectionsService,
+    private readonly pushScheduler: PushSchedulerService,
+  ) {}
+
+  @Get()
+  async listLocations(@Request() req: any) {
+    return this.locationsService.listLocations(req.user.id);
+  }
+
+  @Post()
+  async createLocation(@Request() req: any, @Body(VALIDATION) dto: CreateLocationDto) {
+    return this.locationsService.createLocation(req.user.id, dto);
+  }
+
+  @Get('mappings')
+  async listMappings(@Request() req: any, @Query('locationId') locationId?: string, @Query('connectionId') connectionId?: string) {
+    return this.locationsService.listMappings(req.user.id, { locationId, connectionId });
+  }
+
+  /**
+   * Maps a platform location onto a canonical location. From then on a stock
+   * change at either copy is applied to the other.
+   */
+  @Put('mappings')
+  async setMapping(@Request() req: any, @Body(VALIDATION) dto: SetLocationMappingDto) {
+    return this.locationsService.setMapping(req.user.id, dto);
+  }
+
+  @Delete('mappings/:mappingId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteMapping(@Request() req: any, @Param('mappingId', ParseUUIDPipe) mappingId: string) {
+    await this.locationsService.deleteMapping(req.user.id, mappingId);
+  }
+
+  /**
+   * A connection's own locations for the mapping picker, with what each is mapped to
+   */
+  @Get('platform/:connectionId')
+  async listPlatformLocations(@Request() req: any, @Param('connectionId', ParseUUIDPipe) connectionId: string) {
+    return this.platformLocationsService.listPlatformLocations(req.user.id, connectionId);
+  }
+
+  @Get('allocation/:connectionId')
+  async getAllocationRules(@Request() req: any, @Param('connectionId', ParseUUIDPipe) connectionId: string) {
+    await this.getConnection(req.user.id, connectionId);
+    return this.locationsService.getAllocationRules(connectionId);
+  }
+
+  /**
+   * Sets which canonical locations a channel sells from, e.g. eBay only from
+   * Warehouse A. The connection's stock is then pushed again under the new rules.
+   */
+  @Put('allocation/:connectionId')
+  async setAllocationRules(
+    @Request() req: any,
+    @Param('connectionId', ParseUUIDPipe) connectionId: string,
+    @Body(VALIDATION) dto: SetAllocationRulesDto,
+  ) {
+    const connection = await this.getConnection(req.user.id, connectionId);
+    const rules = await this.locationsService.setAllocationRules(req.user.id, connectionId, dto.rules);
+    const variantsQueued = await this.repushConnection(connection);
+    return { rules, variantsQueued };
+  }
+
+  @Get(':locationId')
+  async getLocation(@Request() req: any, @Param('locationId', ParseUUIDPipe) locationId: string) {
+    return this.locationsService.getLocation(req.user.id, locationId);
+  }
+
+  @Patch(':locationId')
+  async updateLocation(
+    @Request() req: any,
+    @Param('locationId', ParseUUIDPipe) locationId: string,
+    @Body(VALIDATION) dto: UpdateLocationDto,
+  ) {
+    return this.locationsService.updateLocation(req.user.id, locationId, dto);
+  }
+
+  @Delete(':locationId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteLocation(@Request() req: any, @Param('locationId', ParseUUIDPipe) locationId: string) {
+    await this.locationsService.deleteLocation(req.user.id, locationId);
+  }
+
+  /**
+   * Stock held at the location, per variant
+   */
+  @Get(':locationId/inventory')
+  async getLocationStock(@Request() req: any, @Param('locationId', ParseUUIDPipe) locationId: string) {
+    return this.locationsService.getLocationStock(req.user.id, locationId);
+  }
+
+  private async getConnection(userId: string, connectionId: string): Promise<PlatformConnection> {
+    const connection = await this.connectionsService.getConnectionById(connectionId, userId);
+    if (!connection) throw new NotFoundException(`Connection ${connectionId} not found.`);
+    return connection;
+  }
+
+  /**
+   * Queues a push of every variant the connection stocks, sending whole quantities
+   */
+  private async repushConnection(connection: PlatformConnection): Promise<number> {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('InventoryLevels')
+      .select('Id, ProductVariantId')
+      .eq('PlatformConnectionId', connection.Id);
+    if (error) {
+      this.logger.error(`Could not load inventory of connection ${connection.Id} to push after an allocation change: ${error.message}`);
+      return 0;
+    }
+
+    await this.inventoryService.requireInventoryResync((data || []).map(l => l.Id));
+    const variantIds = [...new Set((data || []).map(l => l.ProductVariantId as string))];
+    for (const variantId of variantIds) {
+      await this.pushScheduler.schedule(connection, { userId: connection.UserId, entityId: variantId, changeType: 'INVENTORY_UPDATED' });
+    }
+    return variantIds.length;
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { CommonModule } from '../common/common.module';
+import { CanonicalDataModule } from '../canonical-data/canonical-data.module';
+import { PlatformConnectionsModule } from '../platform-connections/platform-connections.module';
+import { PlatformAdaptersModule } from '../platform-adapters/platform-adapters.module';
+import { SyncEngineModule } from '../sync-engine/sync-engine.module';
+import { PlatformLocationsService } from './platform-locations.service';
+import { LocationsController } from './locations.controller';
+
+@Module({
+  imports: [CommonModule, CanonicalDataModule, PlatformConnectionsModule, PlatformAdaptersModule, SyncEngineModule],
+  providers: [PlatformLocationsService],
+  controllers: [LocationsController],
+})
+export class LocationsModule {}
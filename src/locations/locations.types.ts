@@ -0,0 +1,8 @@
+export interface PlatformLocationOption {
+  platformLocationId: string;
+  name: string;
+  address: string | null;
+  isActive: boolean;
+  locationId: string | null; // Canonical location it is mapped to
+  mappingId: string | null;
+}
@@ -0,0 +1,75 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { SupabaseService } from '../common/supabase.service';
+import { PlatformConnectionsService } from '../platform-connections/platform-connections.service';
+import { ShopifyApiClient } from '../platform-adapters/shopify/shopify-api-client.service';
+import { SquareApiClientService } from '../platform-adapters/square/square-api-client.service';
+import { LocationsService } from '../canonical-data/locations.service';
+import { PlatformLocationOption } from './locations.types';
+
+/**
+ * The platform locations a user can map to canonical locations. Shopify and
+ * Square list theirs; other platforms offer the locations their inventory
+ * levels already use.
+ */
+@Injectable()
+export class PlatformLocationsService {
+  private readonly logger = new Logger(PlatformLocationsService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly connectionsService: PlatformConnectionsService,
+    private readonly locationsService: LocationsService,
+    private readonly shopifyApiClient: ShopifyApiClient,
+    private readonly squareApiClient: SquareApiClientService,
+  ) {}
+
+  async listPlatformLocations(userId: string, connectionId: string): Promise<PlatformLocationOption[]> {
+    const connection = await this.connectionsService.getConnectionById(connectionId, userId);
+    if (!connection) throw new NotFoundException(`Connection ${connectionId} not found.`);
+
+    let options: Array<Omit<PlatformLocationOption, 'locationId' | 'mappingId'>>;
+    switch (connection.PlatformType) {
+      case 'shopify':
+        options = (await this.shopifyApiClient.getAllLocations(connection)).map(l => ({
+          platformLocationId: l.id,
+          name: l.name,
+          address: l.address?.formatted?.join(', ') || null,
+          isActive: l.isActive,
+        }));
+        break;
+      case 'square':
+        options = (await this.squareApiClient._fetchSquareLocations(connection)).map(l => ({
+          platformLocationId: l.id,
+          name: l.name || l.business_name || l.id,
+          address: l.address
+            ? [l.address.address_line_1, l.address.locality, l.address.postal_code].filter(Boolean).join(', ')
+            : null,
+          isActive: l.status !== 'INACTIVE',
+        }));
+        break;
+      default:
+        options = await this.locationsFromInventory(connectionId);
+    }
+
+    const mappings = await this.locationsService.listMappings(userId, { connectionId });
+    return options.map(option => {
+      const mapping = mappings.find(m => m.PlatformLocationId === option.platformLocationId);
+      return { ...option, locationId: mapping?.LocationId ?? null, mappingId: mapping?.Id ?? null };
+    });
+  }
+
+  private async locationsFromInventory(connectionId: string): Promise<Array<Omit<PlatformLocationOption, 'locationId' | 'mappingId'>>> {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('InventoryLevels')
+      .select('PlatformLocationId')
+      .eq('PlatformConnectionId', connectionId)
+      .not('PlatformLocationId', 'is', null);
+    if (error) {
+      this.logger.warn(`Could not list inventory locations of connection ${connectionId}: ${error.message}`);
+      return [];
+    }
+    const ids = [...new Set((data || []).map(l => l.PlatformLocationId as string))];
+    return ids.map(id => ({ platformLocationId: id, name: id, address: null, isActive: true }));
+  }
+}
@@ -0,0 +1,19 @@
+import { IsInt, IsNotEmpty, IsNumber, IsOptional, IsBoolean, IsUUID, Min } from 'class-validator';
+
+export class CreateMarketplaceListingDto {
+  @IsUUID('4', { message: 'productVariantId must be a valid UUID.' })
+  @IsNotEmpty()
+  productVariantId: string;
+
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'price must be a number with at most 2 decimals.' })
+  @Min(0.01)
+  price: number;
+
+  @IsInt({ message: 'availableQuantity must be a whole number.' })
+  @Min(0)
+  availableQuantity: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isEnabled?: boolean;
+}
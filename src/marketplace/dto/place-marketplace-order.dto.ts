@@ -0,0 +1,15 @@
+import { IsEmail, IsInt, IsNotEmpty, IsOptional, IsUUID, Min } from 'class-validator';
+
+export class PlaceMarketplaceOrderDto {
+  @IsUUID('4', { message: 'listingId must be a valid UUID.' })
+  @IsNotEmpty()
+  listingId: string;
+
+  @IsInt({ message: 'quantity must be a whole number.' })
+  @Min(1)
+  quantity: number;
+
+  @IsEmail()
+  @IsOptional()
+  customerEmail?: string;
+}
@@ -0,0 +1,17 @@
+import { IsBoolean, IsInt, IsNumber, IsOptional, Min } from 'class-validator';
+
+export class UpdateMarketplaceListingDto {
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'price must be a number with at most 2 decimals.' })
+  @Min(0.01)
+  @IsOptional()
+  price?: number;
+
+  @IsInt({ message: 'availableQuantity must be a whole number.' })
+  @Min(0)
+  @IsOptional()
+  availableQuantity?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isEnabled?: boolean;
+}
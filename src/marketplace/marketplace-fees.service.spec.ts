@@ -0,0 +1,74 @@
+import { ForbiddenException } from '@nestjs/common';
+import { SupabaseService } from '../common/supabase.service';
+import { MarketplaceFeesService } from './marketplace-fees.service';
+
+describe('MarketplaceFeesService', () => {
+  let service: MarketplaceFeesService;
+  let tier: Record<string, any> | null;
+
+  beforeEach(() => {
+    tier = null;
+    const query = {
+      select: () => query,
+      eq: () => query,
+      maybeSingle: () => Promise.resolve({ data: { SubscriptionTiers: tier }, error: null }),
+    };
+    service = new MarketplaceFeesService({
+      getServiceClient: () => ({ from: () => query }),
+    } as unknown as SupabaseService);
+  });
+
+  it.each([
+    ['Basic', 4, 4, 96],
+    ['Pro', 3, 3, 97],
+    ['Business', 2, 2, 98],
+  ])('takes the %s tier fee out of the seller payout', async (name, percent, sellerFee, payout) => {
+    tier = { Name: name, MarketplaceFeePercent: percent, OrderFeePercent: 1 };
+
+    const fees = await service.calculateFees('seller-1', 100);
+
+    expect(fees).toMatchObject({ sellerFeePercent: percent, sellerFee, sellerPayout: payout, orderFee: 1, buyerTotal: 101, tierName: name });
+  });
+
+  it('uses the Basic rates when the seller has no tier', async () => {
+    const fees = await service.calculateFees('seller-1', 50);
+
+    expect(fees).toMatchObject({ sellerFeePercent: 4, sellerFee: 2, orderFeePercent: 1, orderFee: 0.5, totalFee: 2.5, tierName: null });
+  });
+
+  it('reads percentages stored as numeric strings', async () => {
+    tier = { Name: 'Pro', MarketplaceFeePercent: '3.00', OrderFeePercent: '1.00' };
+
+    const fees = await service.calculateFees('seller-1', 200);
+
+    expect(fees).toMatchObject({ sellerFeePercent: 3, sellerFee: 6, orderFee: 2 });
+  });
+
+  it('rounds each fee to the cent and keeps the totals consistent', async () => {
+    tier = { Name: 'Pro', MarketplaceFeePercent: 3, OrderFeePercent: 1 };
+
+    const fees = await service.calculateFees('seller-1', 19.99);
+
+    expect(fees.sellerFee).toBe(0.6);
+    expect(fees.orderFee).toBe(0.2);
+    expect(fees.sellerPayout).toBe(19.39);
+    expect(fees.buyerTotal).toBe(20.19);
+    expect(fees.totalFee).toBe(0.8);
+  });
+
+  it('charges nothing on a zero subtotal', async () => {
+    const fees = await service.calculateFees('seller-1', 0);
+
+    expect(fees).toMatchObject({ sellerFee: 0, orderFee: 0, buyerTotal: 0, sellerPayout: 0 });
+  });
+
+  it('only rejects tiers that explicitly disable the marketplace', async () => {
+    await expect(service.assertMarketplaceAllowed('seller-1')).resolves.toBeUndefined();
+
+    tier = { Name: 'Starter', AllowsInterSellerMarketplace: null };
+    await expect(service.assertMarketplaceAllowed('seller-1')).resolves.toBeUndefined();
+
+    tier = { Name: 'Starter', AllowsInterSellerMarketplace: false };
+    await expect(service.assertMarketplaceAllowed('seller-1')).rejects.toBeInstanceOf(ForbiddenException);
+  });
+});
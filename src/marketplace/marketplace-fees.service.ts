@@ -0,0 +1,69 @@
+import { Injectable, Logger, ForbiddenException, InternalServerErrorException } from '@nestjs/common';
+import { SupabaseService } from '../common/supabase.service';
+import { SubscriptionTier } from '../common/types/supabase.types';
+import { MarketplaceFeeBreakdown } from './marketplace.types';
+
+// Basic-tier rates from the pricing plan, used when a seller has no tier assigned
+const DEFAULT_MARKETPLACE_FEE_PERCENT = 4;
+const DEFAULT_ORDER_FEE_PERCENT = 1;
+
+@Injectable()
+export class MarketplaceFeesService {
+  private readonly logger = new Logger(MarketplaceFeesService.name);
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async getTierForUser(userId: string): Promise<SubscriptionTier | null> {
+    const supabase = this.supabaseService.getServiceClient();
+    const { data, error } = await supabase
+      .from('Users')
+      .select('SubscriptionTierId, SubscriptionTiers(*)')
+      .eq('Id', userId)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to load subscription tier for user ${userId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not load subscription tier.');
+    }
+    return (data?.SubscriptionTiers as unknown as SubscriptionTier) || null;
+  }
+
+  /**
+   * Only tiers that explicitly disable the inter-seller marketplace are rejected.
+   */
+  async assertMarketplaceAllowed(userId: string): Promise<void> {
+    const tier = await this.getTierForUser(userId);
+    if (tier && tier.AllowsInterSellerMarketplace === false) {
+      throw new ForbiddenException(`Your ${tier.Name} plan does not include the inter-seller marketplace`);
+    }
+  }
+
+  /**
+   * Fees follow the seller's tier: MarketplaceFeePercent (4/3/2% for
+   * Basic/Pro/Business) comes out of the seller's payout and OrderFeePercent (1%)
+   * is added to the buyer's total. Both are stored as percentages.
+   */
+  async calculateFees(sellerUserId: string, subtotal: number): Promise<MarketplaceFeeBreakdown> {
+    const tier = await this.getTierForUser(sellerUserId);
+    const sellerFeePercent = Number(tier?.MarketplaceFeePercent ?? DEFAULT_MARKETPLACE_FEE_PERCENT);
+    const orderFeePercent = Number(tier?.OrderFeePercent ?? DEFAULT_ORDER_FEE_PERCENT);
+
+    const sellerFee = this.roundCurrency((subtotal * sellerFeePercent) / 100);
+    const orderFee = this.roundCurrency((subtotal * orderFeePercent) / 100);
+    return {
+      subtotal,
+      sellerFeePercent,
+      sellerFee,
+      orderFeePercent,
+      orderFee,
+      totalFee: this.roundCurrency(sellerFee + orderFee),
+      buyerTotal: this.roundCurrency(subtotal + orderFee),
+      sellerPayout: this.roundCurrency(subtotal - sellerFee),
+      tierName: tier?.Name ?? null,
+    };
+  }
+
+  roundCurrency(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
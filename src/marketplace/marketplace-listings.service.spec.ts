@@ -0,0 +1,91 @@
+import { ConflictException } from '@nestjs/common';
+import { SupabaseService } from '../common/supabase.service';
+import { ProductsService } from '../canonical-data/products.service';
+import { InventoryService } from '../canonical-data/inventory.service';
+import { VectorSearchService } from '../embedding/vector-search.service';
+import { MarketplaceFeesService } from './marketplace-fees.service';
+import { MarketplaceListingsService } from './marketplace-listings.service';
+
+describe('MarketplaceListingsService quantity', () => {
+  let service: MarketplaceListingsService;
+  let listing: Record<string, any>;
+  let updates: number;
+  // Runs before a compare-and-set lands, as another request would between the read and the write
+  let beforeUpdate: (() => void) | null;
+
+  beforeEach(() => {
+    listing = { Id: 'listing-1', IsEnabled: true, AvailableQuantity: 5 };
+    updates = 0;
+    beforeUpdate = null;
+
+    const table = () => {
+      const filters: Record<string, any> = {};
+      let changes: Record<string, any> | null = null;
+      const query = {
+        select: () => query,
+        update: (values: Record<string, any>) => {
+          changes = values;
+          return query;
+        },
+        eq: (column: string, value: any) => {
+          filters[column] = value;
+          return query;
+        },
+        maybeSingle: () => Promise.resolve({ data: { ...listing }, error: null }),
+        then: (resolve: (result: any) => void) => {
+          updates++;
+          const hook = beforeUpdate;
+          beforeUpdate = null;
+          hook?.();
+          const matches = Object.entries(filters).every(([column, value]) => listing[column] === value);
+          if (matches && changes) Object.assign(listing, changes);
+          resolve({ data: matches ? [{ ...listing }] : [], error: null });
+        },
+      };
+      return query;
+    };
+
+    service = new MarketplaceListingsService(
+      { getServiceClient: () => ({ from: table }) } as unknown as SupabaseService,
+      {} as ProductsService,
+      {} as InventoryService,
+      {} as VectorSearchService,
+      {} as MarketplaceFeesService,
+    );
+  });
+
+  it('keeps both changes when a claim and a release overlap', async () => {
+    const [claimed] = await Promise.all([service.claimQuantity('listing-1', 2), service.releaseQuantity('listing-1', 1)]);
+
+    expect(listing.AvailableQuantity).toBe(4);
+    expect([3, 4]).toContain(claimed.AvailableQuantity);
+  });
+
+  it('retries a release when a claim lands between its read and its write', async () => {
+    beforeUpdate = () => (listing.AvailableQuantity -= 2);
+
+    await service.releaseQuantity('listing-1', 1);
+
+    expect(listing.AvailableQuantity).toBe(4);
+    expect(updates).toBe(2);
+  });
+
+  it('retries a claim when a release lands between its read and its write', async () => {
+    beforeUpdate = () => (listing.AvailableQuantity += 1);
+
+    const claimed = await service.claimQuantity('listing-1', 2);
+
+    expect(claimed.AvailableQuantity).toBe(4);
+    expect(updates).toBe(2);
+  });
+
+  it('gives up on a claim that keeps losing the race', async () => {
+    const race = () => {
+      listing.AvailableQuantity -= 1;
+      beforeUpdate = race;
+    };
+    beforeUpdate = race;
+
+    await expect(service.claimQuantity('listing-1', 1)).rejects.toBeInstanceOf(ConflictException);
+  });
+});
@@ -0,0 +1,311 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SupabaseService } from '../common/supabase.service';
+import { MarketplaceListing } from '../common/types/supabase.types';
+import { ProductsService } from '../canonical-data/products.service';
+import { InventoryService } from '../canonical-data/inventory.service';
+import { VectorSearchService } from '../embedding/vector-search.service';
+import { MarketplaceFeesService } from './marketplace-fees.service';
+import { CreateMarketplaceListingDto } from './dto/create-marketplace-listing.dto';
+import { UpdateMarketplaceListingDto } from './dto/update-marketplace-listing.dto';
+import { MarketplaceListingWithVariant, MarketplaceSearchFilters } from './marketplace.types';
+
+const LISTING_SELECT = '*, ProductVariants(Id, ProductId, Title, Sku, Description, Options)';
+const LISTING_SELECT_INNER = '*, ProductVariants!inner(Id, ProductId, Title, Sku, Description, Options)';
+const SEARCH_CANDIDATE_LIMIT = 100;
+const MAX_CLAIM_ATTEMPTS = 3;
+
+/**
+ * Listings other sellers can buy from. Browsing crosses user boundaries, so reads
+ * use the service client and ownership is checked explicitly on writes.
+ */
+@Injectable()
+export class MarketplaceListingsService {
+  private readonly logger = new Logger(MarketplaceListingsService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly productsService: ProductsService,
+    private readonly inventoryService: InventoryService,
+    private readonly vectorSearchService: VectorSearchService,
+    private readonly feesService: MarketplaceFeesService,
+  ) {}
+
+  private getSupabaseClient(): SupabaseClient {
+    return this.supabaseService.getServiceClient();
+  }
+
+  /**
+   * Publishes a variant (or updates its existing listing; one listing per variant).
+   */
+  async publishListing(userId: string, dto: CreateMarketplaceListingDto): Promise<MarketplaceListing> {
+    await this.feesService.assertMarketplaceAllowed(userId);
+
+    const variant = await this.productsService.getVariantById(dto.productVariantId);
+    if (!variant || variant.UserId !== userId) {
+      throw new NotFoundException(`Variant ${dto.productVariantId} not found`);
+    }
+    await this.assertWithinStock(dto.productVariantId, dto.availableQuantity);
+
+    const { data, error } = await this.getSupabaseClient()
+      .from('MarketplaceListings')
+      .upsert(
+        {
+          ProductVariantId: dto.productVariantId,
+          SellerUserId: userId,
+          Price: dto.price,
+          AvailableQuantity: dto.availableQuantity,
+          IsEnabled: dto.isEnabled ?? true,
+          UpdatedAt: new Date().toISOString(),
+        },
+        { onConflict: 'ProductVariantId' },
+      )
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.logger.error(`Failed to publish marketplace listing for variant ${dto.productVariantId}: ${error?.message}`);
+      throw new InternalServerErrorException(`Could not publish listing: ${error?.message}`);
+    }
+    this.logger.log(`User ${userId} published variant ${dto.productVariantId} to the marketplace (qty ${dto.availableQuantity})`);
+    return data as MarketplaceListing;
+  }
+
+  async updateListing(userId: string, listingId: string, dto: UpdateMarketplaceListingDto): Promise<MarketplaceListing> {
+    const listing = await this.getOwnedListing(userId, listingId);
+    if (dto.availableQuantity !== undefined) {
+      await this.assertWithinStock(listing.ProductVariantId, dto.availableQuantity);
+    }
+
+    const updates: Partial<MarketplaceListing> = { UpdatedAt: new Date().toISOString() };
+    if (dto.price !== undefined) updates.Price = dto.price;
+    if (dto.availableQuantity !== undefined) updates.AvailableQuantity = dto.availableQuantity;
+    if (dto.isEnabled !== undefined) updates.IsEnabled = dto.isEnabled;
+
+    const { data, error } = await this.getSupabaseClient()
+      .from('MarketplaceListings')
+      .update(updates)
+      .eq('Id', listingId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.logger.error(`Failed to update marketplace listing ${listingId}: ${error?.message}`);
+      throw new InternalServerErrorException(`Could not update listing: ${error?.message}`);
+    }
+    return data as MarketplaceListing;
+  }
+
+  async removeListing(userId: string, listingId: string): Promise<void> {
+    await this.getOwnedListing(userId, listingId);
+    const { error } = await this.getSupabaseClient().from('MarketplaceListings').delete().eq('Id', listingId);
+    if (error) {
+      this.logger.error(`Failed to remove marketplace listing ${listingId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not remove listing: ${error.message}`);
+    }
+  }
+
+  async getSellerListings(userId: string): Promise<MarketplaceListingWithVariant[]> {
+    const { data, error } = await this.getSupabaseClient()
+      .from('MarketplaceListings')
+      .select(LISTING_SELECT)
+      .eq('SellerUserId', userId)
+      .order('UpdatedAt', { ascending: false });
+
+    if (error) {
+      this.logger.error(`Failed to fetch marketplace listings for seller ${userId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not fetch listings: ${error.message}`);
+    }
+    return (data || []) as MarketplaceListingWithVariant[];
+  }
+
+  async getListing(listingId: string): Promise<MarketplaceListingWithVariant> {
+    const { data, error } = await this.getSupabaseClient()
+      .from('MarketplaceListings')
+      .select(LISTING_SELECT)
+      .eq('Id', listingId)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to fetch marketplace listing ${listingId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not fetch listing: ${error.message}`);
+    }
+    if (!data) {
+      throw new NotFoundException(`Listing ${listingId} not found`);
+    }
+    return data as MarketplaceListingWithVariant;
+  }
+
+  /**
+   * Browse other sellers' enabled, in-stock listings. With a query, candidates
+   * come from the product embedding search and keep its similarity order.
+   */
+  async searchListings(userId: string, filters: MarketplaceSearchFilters = {}): Promise<{ listings: MarketplaceListingWithVariant[]; total: number }> {
+    const limit = Math.min(filters.limit || 25, 100);
+    const offset = filters.offset || 0;
+
+    const q = filters.q?.trim();
+    const similarityByVariant = q ? await this.findSimilarVariants(q) : null;
+    if (similarityByVariant && similarityByVariant.size === 0) {
+      return { listings: [], total: 0 };
+    }
+    // Vector search unavailable: fall back to a title match on the joined variant
+    const titleFallback = !!q && !similarityByVariant;
+
+    let query = this.getSupabaseClient()
+      .from('MarketplaceListings')
+      .select(titleFallback ? LISTING_SELECT_INNER : LISTING_SELECT, { count: 'exact' })
+      .eq('IsEnabled', true)
+      .gt('AvailableQuantity', 0)
+      .neq('SellerUserId', userId);
+    if (filters.minPrice !== undefined) query = query.gte('Price', filters.minPrice);
+    if (filters.maxPrice !== undefined) query = query.lte('Price', filters.maxPrice);
+    if (similarityByVariant) query = query.in('ProductVariantId', [...similarityByVariant.keys()]);
+    if (titleFallback) query = query.ilike('ProductVariants.Title', `%${q}%`);
+
+    if (!similarityByVariant) {
+      const { data, error, count } = await query.order('UpdatedAt', { ascending: false }).range(offset, offset + limit - 1);
+      if (error) {
+        this.logger.error(`Failed to search marketplace listings: ${error.message}`);
+        throw new InternalServerErrorException(`Could not search listings: ${error.message}`);
+      }
+      return { listings: (data || []) as MarketplaceListingWithVariant[], total: count || 0 };
+    }
+
+    // Similarity order is applied here, so the candidate set is paged in memory
+    const { data, error } = await query;
+    if (error) {
+      this.logger.error(`Failed to search marketplace listings: ${error.message}`);
+      throw new InternalServerErrorException(`Could not search listings: ${error.message}`);
+    }
+    const ranked = ((data || []) as MarketplaceListingWithVariant[])
+      .map(listing => ({ ...listing, similarity: similarityByVariant.get(listing.ProductVariantId) }))
+      .sort((a, b) => (b.similarity || 0) - (a.similarity || 0));
+    return { listings: ranked.slice(offset, offset + limit), total: ranked.length };
+  }
+
+  /**
+   * Takes `quantity` units off a listing with a compare-and-set on
+   * AvailableQuantity, so two buyers can't both get the last unit.
+   */
+  async claimQuantity(listingId: string, quantity: number): Promise<MarketplaceListing> {
+    const supabase = this.getSupabaseClient();
+    for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+      const listing = await this.getListing(listingId);
+      if (!listing.IsEnabled) {
+        throw new BadRequestException(`Listing ${listingId} is not available`);
+      }
+      if (listing.AvailableQuantity < quantity) {
+        throw new BadRequestException(`Only ${listing.AvailableQuantity} units are available for listing ${listingId}`);
+      }
+
+      const { data, error } = await supabase
+        .from('MarketplaceListings')
+        .update({ AvailableQuantity: listing.AvailableQuantity - quantity, UpdatedAt: new Date().toISOString() })
+        .eq('Id', listingId)
+        .eq('AvailableQuantity', listing.AvailableQuantity)
+        .select();
+
+      if (error) {
+        this.logger.error(`Failed to claim quantity on listing ${listingId}: ${error.message}`);
+        throw new InternalServerErrorException(`Could not reserve listing quantity: ${error.message}`);
+      }
+      if (data && data.length > 0) {
+        return data[0] as MarketplaceListing;
+      }
+      this.logger.debug(`Listing ${listingId} changed while claiming ${quantity} units; retrying`);
+    }
+    throw new ConflictException(`Listing ${listingId} is being purchased by someone else; please retry`);
+  }
+
+  /**
+   * Puts units back after an order could not be recorded, with the same
+   * compare-and-set as claimQuantity so a concurrent claim isn't overwritten.
+   */
+  async releaseQuantity(listingId: string, quantity: number): Promise<void> {
+    const supabase = this.getSupabaseClient();
+    try {
+      for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+        const listing = await this.getListing(listingId);
+        const { data, error } = await supabase
+          .from('MarketplaceListings')
+          .update({ AvailableQuantity: listing.AvailableQuantity + quantity, UpdatedAt: new Date().toISOString() })
+          .eq('Id', listingId)
+          .eq('AvailableQuantity', listing.AvailableQuantity)
+          .select();
+
+        if (error) throw error;
+        if (data && data.length > 0) return;
+        this.logger.debug(`Listing ${listingId} changed while releasing ${quantity} units; retrying`);
+      }
+      this.logger.error(`Could not release ${quantity} units back to listing ${listingId}: it kept changing`);
+    } catch (error) {
+      this.logger.error(`Failed to release ${quantity} units back to listing ${listingId}: ${error.message}`);
+    }
+  }
+
+  // --- Helpers ---
+
+  private async getOwnedListing(userId: string, listingId: string): Promise<MarketplaceListing> {
+    const listing = await this.getListing(listingId);
+    if (listing.SellerUserId !== userId) {
+      throw new ForbiddenException(`Listing ${listingId} belongs to another seller`);
+    }
+    return listing;
+  }
+
+  private async assertWithinStock(variantId: string, quantity: number): Promise<void> {
+    const onHand = (await this.inventoryService.getOnHandQuantities([variantId])).get(variantId);
+    if (onHand !== undefined && quantity > onHand) {
+      throw new BadRequestException(`Cannot list ${quantity} units; only ${onHand} are in stock`);
+    }
+  }
+
+  /**
+   * Returns variant ID → similarity for the query, or null when vector search is
+   * unavailable so the caller can fall back to a title match.
+   */
+  private async findSimilarVariants(q: string): Promise<Map<string, number> | null> {
+    let results;
+    try {
+      results = await this.vectorSearchService.searchByText(q, { limit: SEARCH_CANDIDATE_LIMIT });
+    } catch (error) {
+      this.logger.warn(`Vector search failed for marketplace query "${q}", falling back to title match: ${error.message}`);
+      return null;
+    }
+
+    const similarity = new Map<string, number>();
+    const productScores = new Map<string, number>();
+    for (const result of results) {
+      if (result.ProductVariantId) {
+        similarity.set(result.ProductVariantId, Math.max(similarity.get(result.ProductVariantId) || 0, result.similarity));
+      } else if (result.productId) {
+        productScores.set(result.productId, Math.max(productScores.get(result.productId) || 0, result.similarity));
+      }
+    }
+
+    // Product-level matches cover all of that product's variants
+    if (productScores.size > 0) {
+      const { data, error } = await this.getSupabaseClient()
+        .from('ProductVariants')
+        .select('Id, ProductId')
+        .in('ProductId', [...productScores.keys()]);
+      if (error) {
+        this.logger.warn(`Failed to expand product matches to variants: ${error.message}`);
+      }
+      for (const variant of data || []) {
+        const score = productScores.get(variant.ProductId) || 0;
+        similarity.set(variant.Id, Math.max(similarity.get(variant.Id) || 0, score));
+      }
+    }
+    return similarity;
+  }
+}
@@ -0,0 +1,101 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { ProductsService } from '../canonical-data/products.service';
+import { InventoryService } from '../canonical-data/inventory.service';
+import { SyncCoordinatorService } from '../sync-engine/sync-coordinator.service';
+import { OrdersService } from '../orders/orders.service';
+import { OrderWithItems } from '../orders/orders.types';
+import { Order } from '../common/types/supabase.types';
+import { MarketplaceListingsService } from './marketplace-listings.service';
+import { MarketplaceFeesService } from './marketplace-fees.service';
+import { PlaceMarketplaceOrderDto } from './dto/place-marketplace-order.dto';
+
+/**
+ * Places orders between sellers. A purchase claims units from the listing,
+ * records the order with its fees, then takes the units off the seller's
+ * canonical stock and pushes the new levels to the seller's connected stores.
+ */
+@Injectable()
+export class MarketplaceOrdersService {
+  private readonly logger = new Logger(MarketplaceOrdersService.name);
+
+  constructor(
+    private readonly listingsService: MarketplaceListingsService,
+    private readonly feesService: MarketplaceFeesService,
+    private readonly ordersService: OrdersService,
+    private readonly productsService: ProductsService,
+    private readonly inventoryService: InventoryService,
+    private readonly syncCoordinator: SyncCoordinatorService,
+  ) {}
+
+  async placeOrder(buyerUserId: string, dto: PlaceMarketplaceOrderDto): Promise<OrderWithItems> {
+    const listing = await this.listingsService.getListing(dto.listingId);
+    if (listing.SellerUserId === buyerUserId) {
+      throw new BadRequestException('You cannot buy your own marketplace listing');
+    }
+    await this.feesService.assertMarketplaceAllowed(buyerUserId);
+
+    const variant = await this.productsService.getVariantById(listing.ProductVariantId);
+    if (!variant) {
+      throw new NotFoundException(`The product behind listing ${dto.listingId} no longer exists`);
+    }
+
+    const claimed = await this.listingsService.claimQuantity(listing.Id, dto.quantity);
+    const unitPrice = Number(claimed.Price);
+    const fees = await this.feesService.calculateFees(listing.SellerUserId, this.feesService.roundCurrency(unitPrice * dto.quantity));
+
+    let order: OrderWithItems;
+    try {
+      order = await this.ordersService.createMarketplaceOrder({
+        buyerUserId,
+        sellerUserId: listing.SellerUserId,
+        currency: 'USD',
+        totalAmount: fees.buyerTotal,
+        marketplaceFeeAmount: fees.totalFee,
+        customerEmail: dto.customerEmail || null,
+        platformSpecificData: { listingId: listing.Id, fees },
+        item: {
+          productVariantId: variant.Id,
+          sku: variant.Sku,
+          title: variant.Title,
+          quantity: dto.quantity,
+          price: unitPrice,
+        },
+      });
+    } catch (error) {
+      await this.listingsService.releaseQuantity(listing.Id, dto.quantity);
+      throw error;
+    }
+
+    await this.applySellerInventory(listing.SellerUserId, variant.Id, dto.quantity, order.Id);
+    this.logger.log(
+      `Marketplace order ${order.Id}: buyer ${buyerUserId} bought ${dto.quantity} x variant ${variant.Id} from seller ${listing.SellerUserId} (fee ${fees.totalFee})`,
+    );
+    return order;
+  }
+
+  async getPurchases(buyerUserId: string, limit?: number, offset?: number): Promise<{ orders: Order[]; total: number }> {
+    return this.ordersService.listOrders(buyerUserId, { isMarketplaceOrder: true, limit, offset });
+  }
+
+  async getSales(sellerUserId: string, limit?: number, offset?: number): Promise<{ orders: Order[]; total: number }> {
+    return this.ordersService.listMarketplaceSales(sellerUserId, limit, offset);
+  }
+
+  /**
+   * The order is already recorded at this point, so failures here are logged
+   * rather than surfaced; the next reconciliation corrects the seller's stock.
+   */
+  private async applySellerInventory(sellerUserId: string, variantId: string, quantity: number, orderId: string): Promise<void> {
+    try {
+      const changed = await this.inventoryService.decrementAcrossConnections(variantId, quantity, undefined, {
+        reason: 'sale',
+        referenceId: orderId,
+      });
+      if (changed.length > 0) {
+        await this.syncCoordinator.handleCanonicalInventoryUpdate(variantId, sellerUserId);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to apply inventory for marketplace order ${orderId}: ${error.message}`, error.stack);
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  ParseUUIDPipe,
+  ValidationPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { SupabaseAuthGuard } from '../auth/guards/supabase-auth.guard';
+import { MarketplaceListingsService } from './marketplace-listings.service';
+import { MarketplaceOrdersService } from './marketplace-orders.service';
+import { CreateMarketplaceListingDto } from './dto/create-marketplace-listing.dto';
+import { UpdateMarketplaceListingDto } from './dto/update-marketplace-listing.dto';
+import { PlaceMarketplaceOrderDto } from './dto/place-marketplace-order.dto';
+
+@Controller('marketplace')
+@UseGuards(SupabaseAuthGuard)
+export class MarketplaceController {
+  constructor(
+    private readonly listingsService: MarketplaceListingsService,
+    private readonly ordersService: MarketplaceOrdersService,
+  ) {}
+
+  /**
+   * Browse or search other sellers' listings
+   */
+  @Get('listings')
+  async searchListings(
+    @Request() req: any,
+    @Query('q') q?: string,
+    @Query('minPrice') minPrice?: string,
+    @Query('maxPrice') maxPrice?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    const userId = req.user.id;
+    return this.listingsService.searchListings(userId, {
+      q,
+      minPrice: minPrice ? parseFloat(minPrice) : undefined,
+      maxPrice: maxPrice ? parseFloat(maxPrice) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  @Get('listings/mine')
+  async getMyListings(@Request() req: any) {
+    const userId = req.user.id;
+    return this.listingsService.getSellerListings(userId);
+  }
+
+  @Get('listings/:listingId')
+  async getListing(@Param('listingId', ParseUUIDPipe) listingId: string) {
+    return this.listingsService.getListing(listingId);
+  }
+
+  @Post('listings')
+  async publishListing(@Request() req: any, @Body(ValidationPipe) dto: CreateMarketplaceListingDto) {
+    const userId = req.user.id;
+    return this.listingsService.publishListing(userId, dto);
+  }
+
+  @Patch('listings/:listingId')
+  async updateListing(
+    @Request() req: any,
+    @Param('listingId', ParseUUIDPipe) listingId: string,
+    @Body(ValidationPipe) dto: UpdateMarketplaceListingDto,
+  ) {
+    const userId = req.user.id;
+    return this.listingsService.updateListing(userId, listingId, dto);
+  }
+
+  @Delete('listings/:listingId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeListing(@Request() req: any, @Param('listingId', ParseUUIDPipe) listingId: string) {
+    const userId = req.user.id;
+    await this.listingsService.removeListing(userId, listingId);
+  }
+
+  /**
+   * Buy from another seller's listing
+   */
+  @Post('orders')
+  async placeOrder(@Request() req: any, @Body(ValidationPipe) dto: PlaceMarketplaceOrderDto) {
+    const userId = req.user.id;
+    return this.ordersService.placeOrder(userId, dto);
+  }
+
+  @Get('orders/purchases')
+  async getPurchases(@Request() req: any, @Query('limit') limit?: string, @Query('offset') offset?: string) {
+    const userId = req.user.id;
+    return this.ordersService.getPurchases(userId, limit ? parseInt(limit, 10) : undefined, offset ? parseInt(offset, 10) : undefined);
+  }
+
+  @Get('orders/sales')
+  async getSales(@Request() req: any, @Query('limit') limit?: string, @Query('offset') offset?: string) {
+    const userId = req.user.id;
+    return this.ordersService.getSales(userId, limit ? parseInt(limit, 10) : undefined, offset ? parseInt(offset, 10) : undefined);
+  }
+}
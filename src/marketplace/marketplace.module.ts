@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { CommonModule } from '../common/common.module';
+import { CanonicalDataModule } from '../canonical-data/canonical-data.module';
+import { EmbeddingModule } from '../embedding/embedding.module';
+import { SyncEngineModule } from '../sync-engine/sync-engine.module';
+import { OrdersModule } from '../orders/orders.module';
+import { MarketplaceListingsService } from './marketplace-listings.service';
+import { MarketplaceOrdersService } from './marketplace-orders.service';
+import { MarketplaceFeesService } from './marketplace-fees.service';
+import { MarketplaceController } from './marketplace.controller';
+
+@Module({
+  imports: [
+    CommonModule,
+    CanonicalDataModule,
+    EmbeddingModule,
+    SyncEngineModule,
+    OrdersModule,
+  ],
+  providers: [
+    MarketplaceListingsService,
+    MarketplaceOrdersService,
+    MarketplaceFeesService,
+  ],
+  controllers: [MarketplaceController],
+  exports: [MarketplaceListingsService, MarketplaceFeesService],
+})
+export class MarketplaceModule {}
@@ -0,0 +1,35 @@
+import { MarketplaceListing, ProductVariant } from '../common/types/supabase.types';
+
+export type MarketplaceListingVariant = Pick<
+  ProductVariant,
+  'Id' | 'ProductId' | 'Title' | 'Sku' | 'Description' | 'Options'
+>;
+
+export interface MarketplaceListingWithVariant extends MarketplaceListing {
+  ProductVariants: MarketplaceListingVariant | null;
+  similarity?: number; // Set when the listing came from a vector search
+}
+
+export interface MarketplaceSearchFilters {
+  q?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Fee breakdown for one marketplace sale. The seller pays their tier's
+ * marketplace fee out of the subtotal; the order fee is added on top for the buyer.
+ */
+export interface MarketplaceFeeBreakdown {
+  subtotal: number;
+  sellerFeePercent: number;
+  sellerFee: number;
+  orderFeePercent: number;
+  orderFee: number;
+  totalFee: number;
+  buyerTotal: number;
+  sellerPayout: number;
+  tierName: string | null;
+}
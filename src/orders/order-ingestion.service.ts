@@ -0,0 +1,219 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { PlatformConnection, PlatformConnectionsService } from '../platform-connections/platform-connections.service';
+import { PlatformProductMappingsService } from '../platform-product-mappings/platform-product-mappings.service';
+import { ProductsService } from '../canonical-data/products.service';
+import { InventoryService } from '../canonical-data/inventory.service';
+import { ShopifyApiClient } from '../platform-adapters/shopify/shopify-api-client.service';
+import { SquareApiClientService } from '../platform-adapters/square/square-api-client.service';
+import { CloverApiClient } from '../platform-adapters/clover/clover-api-client.service';
+import { OrderSyncEvent, SyncEventsService } from '../sync-engine/sync-events.service';
+import { Order } from '../common/types/supabase.types';
+import { OrdersService } from './orders.service';
+import { OrderMapper } from './order.mapper';
+import { LinkedOrderItem, NormalizedOrder } from './orders.types';
+
+const POLLABLE_PLATFORMS = ['shopify', 'square', 'clover'];
+// Re-read a window before the newest stored order so late edits/payments are picked up
+const POLL_OVERLAP_MS = 60 * 60 * 1000;
+const INITIAL_POLL_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Turns platform orders into canonical Orders rows. Orders arrive through the
+ * 'order.sync' event (emitted by the Shopify, Square and Clover webhook handlers)
+ * or through polling when webhooks are missed. Each sale is applied to inventory
+ * once and then propagated to every other connection.
+ */
+@Injectable()
+export class OrderIngestionService {
+  private readonly logger = new Logger(OrderIngestionService.name);
+
+  constructor(
+    private readonly ordersService: OrdersService,
+    private readonly orderMapper: OrderMapper,
+    private readonly connectionsService: PlatformConnectionsService,
+    private readonly mappingsService: PlatformProductMappingsService,
+    private readonly productsService: ProductsService,
+    private readonly inventoryService: InventoryService,
+    private readonly shopifyApiClient: ShopifyApiClient,
+    private readonly squareApiClient: SquareApiClientService,
+    private readonly cloverApiClient: CloverApiClient,
+    private readonly syncEventsService: SyncEventsService,
+  ) {}
+
+  @OnEvent('order.sync')
+  async handleOrderSyncEvent(event: OrderSyncEvent): Promise<void> {
+    const logPrefix = event.webhookId ? `[${event.webhookId}]` : '';
+    try {
+      const connection = await this.connectionsService.getConnectionById(event.sourceConnectionId, event.userId);
+      if (!connection || !connection.IsEnabled) {
+        this.logger.warn(`${logPrefix} Connection ${event.sourceConnectionId} missing or disabled; skipping order ${event.platformOrderId}`);
+        return;
+      }
+
+      const order = await this.fetchOrder(connection, event);
+      if (!order) {
+        this.logger.warn(`${logPrefix} Order ${event.platformOrderId} could not be loaded from ${event.sourcePlatform}`);
+        return;
+      }
+      await this.ingestOrder(connection, order, event.webhookId);
+    } catch (error) {
+      this.logger.error(`${logPrefix} Failed to ingest order ${event.platformOrderId} from ${event.sourcePlatform}: ${error.message}`, error.stack);
+      this.syncEventsService.emitSyncErrorEvent({
+        type: 'WEBHOOK_ERROR',
+        userId: event.userId,
+        connectionId: event.sourceConnectionId,
+        platform: event.sourcePlatform,
+        error: error.message,
+        entityId: event.platformOrderId,
+        entityType: 'order',
+        webhookId: event.webhookId,
+      });
+    }
+  }
+
+  /**
+   * Links line items to canonical variants, stores the order and, for sales not
+   * yet applied, decrements stock on every other connection.
+   */
+  async ingestOrder(connection: PlatformConnection, order: NormalizedOrder, webhookId?: string): Promise<Order> {
+    const items = await this.linkItems(connection, order);
+    const saved = await this.ordersService.upsertOrder(connection.UserId, connection.Id, order, items);
+
+    const unlinked = items.filter(i => !i.productVariantId).length;
+    if (unlinked > 0) {
+      this.logger.warn(`Order ${order.platformOrderId}: ${unlinked} line items are not linked to sssync variants`);
+    }
+
+    if (!order.isSale || !(await this.ordersService.claimInventoryApplication(saved.Id))) {
+      return saved;
+    }
+
+    const soldByVariant = new Map<string, number>();
+    for (const item of items) {
+      if (!item.productVariantId || item.quantity <= 0) continue;
+      soldByVariant.set(item.productVariantId, (soldByVariant.get(item.productVariantId) || 0) + item.quantity);
+    }
+
+    for (const [variantId, quantity] of soldByVariant.entries()) {
+      // The source platform already took the units off its own stock
+      const changed = await this.inventoryService.decrementAcrossConnections(variantId, quantity, connection.Id, {
+        reason: 'sale',
+        referenceId: saved.Id,
+      });
+      if (changed.length > 0 && connection.SyncRules?.propagateInventory !== false) {
+        this.syncEventsService.emitInventorySyncEvent({
+          type: 'INVENTORY_UPDATED',
+          variantId,
+          userId: connection.UserId,
+          sourceConnectionId: connection.Id,
+          sourcePlatform: connection.PlatformType,
+          webhookId,
+        });
+      }
+    }
+
+    this.logger.log(`Applied order ${order.platformOrderId} (${soldByVariant.size} variants) from ${connection.PlatformType} connection ${connection.Id}`);
+    return saved;
+  }
+
+  /**
+   * Polling fallback for platforms whose order webhooks may be missed.
+   * Returns the number of orders ingested.
+   */
+  async pollConnection(connection: PlatformConnection): Promise<number> {
+    const latest = await this.ordersService.getLatestOrderDate(connection.Id);
+    const since = latest
+      ? new Date(latest.getTime() - POLL_OVERLAP_MS)
+      : new Date(Date.now() - INITIAL_POLL_WINDOW_MS);
+
+    let orders: NormalizedOrder[] = [];
+    switch (connection.PlatformType) {
+      case 'shopify':
+        orders = (await this.shopifyApiClient.getOrdersUpdatedSince(connection, since)).map(node =>
+          this.orderMapper.fromShopifyGraphql(node),
+        );
+        break;
+      case 'square':
+        orders = (await this.squareApiClient.searchOrdersUpdatedSince(connection, since)).map(o =>
+          this.orderMapper.fromSquare(o),
+        );
+        break;
+      case 'clover': {
+        const merchantId = connection.PlatformSpecificData?.merchantId;
+        if (!merchantId) {
+          this.logger.warn(`Clover connection ${connection.Id} has no merchantId; skipping order poll`);
+          return 0;
+        }
+        orders = (await this.cloverApiClient.fetchOrdersModifiedSince(connection, merchantId, since)).map(o =>
+          this.orderMapper.fromClover(o),
+        );
+        break;
+      }
+      default:
+        return 0;
+    }
+
+    for (const order of orders) {
+      await this.ingestOrder(connection, order);
+    }
+    return orders.length;
+  }
+
+  async pollAllConnections(): Promise<void> {
+    const connections = (await this.connectionsService.getAllEnabledConnections()).filter(c =>
+      POLLABLE_PLATFORMS.includes(c.PlatformType),
+    );
+
+    for (const summary of connections) {
+      try {
+        // getAllEnabledConnections omits credentials and platform data
+        const connection = await this.connectionsService.getConnectionById(summary.Id);
+        if (!connection) continue;
+        const count = await this.pollConnection(connection);
+        if (count > 0) {
+          this.logger.log(`Polled ${count} orders from ${connection.PlatformType} connection ${connection.Id}`);
+        }
+      } catch (error) {
+        this.logger.error(`Order poll failed for connection ${summary.Id}: ${error.message}`, error.stack);
+      }
+    }
+  }
+
+  private async fetchOrder(connection: PlatformConnection, event: OrderSyncEvent): Promise<NormalizedOrder | null> {
+    switch (connection.PlatformType) {
+      case 'shopify':
+        return event.payload ? this.orderMapper.fromShopifyWebhook(event.payload) : null;
+      case 'square': {
+        const order = await this.squareApiClient.retrieveOrder(connection, event.platformOrderId);
+        return order ? this.orderMapper.fromSquare(order) : null;
+      }
+      case 'clover': {
+        const merchantId = connection.PlatformSpecificData?.merchantId;
+        if (!merchantId) return null;
+        const order = await this.cloverApiClient.fetchOrder(connection, merchantId, event.platformOrderId);
+        return order ? this.orderMapper.fromClover(order) : null;
+      }
+      default:
+        this.logger.warn(`Order ingestion is not supported for platform ${connection.PlatformType}`);
+        return null;
+    }
+  }
+
+  private async linkItems(connection: PlatformConnection, order: NormalizedOrder): Promise<LinkedOrderItem[]> {
+    const linked: LinkedOrderItem[] = [];
+    for (const item of order.items) {
+      let productVariantId: string | null = null;
+      if (item.platformVariantId) {
+        const mapping = await this.mappingsService.getMappingByPlatformVariantIdAndConnection(item.platformVariantId, connection.Id);
+        productVariantId = mapping?.ProductVariantId || null;
+      }
+      if (!productVariantId && item.sku) {
+        const variant = await this.productsService.getVariantBySku(connection.UserId, item.sku);
+        productVariantId = variant?.Id || null;
+      }
+      linked.push({ ...item, productVariantId });
+    }
+    return linked;
+  }
+}
@@ -0,0 +1,136 @@
+import { Injectable } from '@nestjs/common';
+import { SquareOrder } from '../platform-adapters/square/square-api-client.service';
+import { CloverOrder } from '../platform-adapters/clover/clover-api-client.service';
+import { NormalizedOrder } from './orders.types';
+
+@Injectable()
+export class OrderMapper {
+  /**
+   * Shopify orders/create webhook payload (REST representation). IDs are
+   * converted to GIDs to match PlatformProductMappings.
+   */
+  fromShopifyWebhook(payload: any): NormalizedOrder {
+    const cancelled = !!payload.cancelled_at;
+    return {
+      platformOrderId: `gid://shopify/Order/${payload.id}`,
+      orderNumber: payload.name || (payload.order_number ? String(payload.order_number) : null),
+      status: cancelled ? 'cancelled' : (payload.financial_status || 'pending').toLowerCase(),
+      currency: payload.currency || 'USD',
+      totalAmount: this.toNumber(payload.total_price),
+      customerEmail: payload.email || payload.customer?.email || null,
+      orderDate: payload.created_at || new Date().toISOString(),
+      isSale: !cancelled,
+      items: (payload.line_items || []).map((li: any) => ({
+        platformProductId: li.product_id ? `gid://shopify/Product/${li.product_id}` : null,
+        platformVariantId: li.variant_id ? `gid://shopify/ProductVariant/${li.variant_id}` : null,
+        sku: li.sku || null,
+        title: li.title || li.name || '',
+        quantity: Number(li.quantity) || 0,
+        price: this.toNumber(li.price),
+      })),
+      platformSpecificData: {
+        fulfillmentStatus: payload.fulfillment_status ?? null,
+        sourceName: payload.source_name,
+      },
+    };
+  }
+
+  /**
+   * Shopify Admin GraphQL order node (polling fallback).
+   */
+  fromShopifyGraphql(node: any): NormalizedOrder {
+    const cancelled = !!node.cancelledAt;
+    return {
+      platformOrderId: node.id,
+      orderNumber: node.name || null,
+      status: cancelled ? 'cancelled' : (node.displayFinancialStatus || 'pending').toLowerCase(),
+      currency: node.totalPriceSet?.shopMoney?.currencyCode || node.currencyCode || 'USD',
+      totalAmount: this.toNumber(node.totalPriceSet?.shopMoney?.amount),
+      customerEmail: node.email || null,
+      orderDate: node.createdAt,
+      isSale: !cancelled,
+      items: (node.lineItems?.edges || []).map(({ node: li }: any) => ({
+        platformProductId: li.product?.id || null,
+        platformVariantId: li.variant?.id || null,
+        sku: li.sku || null,
+        title: li.title || '',
+        quantity: Number(li.quantity) || 0,
+        price: this.toNumber(li.originalUnitPriceSet?.shopMoney?.amount),
+      })),
+      platformSpecificData: {
+        fulfillmentStatus: node.displayFulfillmentStatus ?? null,
+      },
+    };
+  }
+
+  /**
+   * Square only commits inventory once an order is paid (has tenders) or completed.
+   */
+  fromSquare(order: SquareOrder): NormalizedOrder {
+    const state = order.state || 'OPEN';
+    const paid = state === 'COMPLETED' || (state === 'OPEN' && (order.tenders?.length || 0) > 0);
+    const email = order.fulfillments?.map(f => f.shipment_details?.recipient?.email_address || f.pickup_details?.recipient?.email_address).find(Boolean);
+    return {
+      platformOrderId: order.id,
+      orderNumber: order.reference_id || null,
+      status: state.toLowerCase(),
+      currency: order.total_money?.currency || 'USD',
+      totalAmount: this.fromMinorUnits(order.total_money?.amount),
+      customerEmail: email || null,
+      orderDate: order.created_at || new Date().toISOString(),
+      isSale: paid,
+      items: (order.line_items || []).map(li => ({
+        platformProductId: null,
+        platformVariantId: li.catalog_object_id || null,
+        sku: null,
+        title: [li.name, li.variation_name].filter(Boolean).join(' - '),
+        quantity: Math.round(parseFloat(li.quantity) || 0),
+        price: this.fromMinorUnits(li.base_price_money?.amount),
+      })),
+      platformSpecificData: {
+        locationId: order.location_id,
+        version: order.version,
+      },
+    };
+  }
+
+  /**
+   * Clover line items are usually one per unit; unitQty (thousandths) is only
+   * set for quantity-priced items.
+   */
+  fromClover(order: CloverOrder): NormalizedOrder {
+    const paymentState = (order.paymentState || '').toUpperCase();
+    return {
+      platformOrderId: order.id,
+      orderNumber: null,
+      status: (order.paymentState || order.state || 'open').toLowerCase(),
+      currency: order.currency || 'USD',
+      totalAmount: this.fromMinorUnits(order.total),
+      customerEmail: order.customers?.elements?.[0]?.emailAddresses?.elements?.[0]?.emailAddress || null,
+      orderDate: new Date(order.createdTime || Date.now()).toISOString(),
+      isSale: paymentState === 'PAID' || paymentState === 'PARTIALLY_PAID',
+      items: (order.lineItems?.elements || [])
+        .filter(li => !li.refunded)
+        .map(li => ({
+          platformProductId: li.item?.id || null,
+          platformVariantId: li.item?.id || null,
+          sku: li.itemCode || null,
+          title: li.name || '',
+          quantity: li.unitQty ? Math.max(1, Math.round(li.unitQty / 1000)) : 1,
+          price: this.fromMinorUnits(li.price),
+        })),
+      platformSpecificData: {
+        state: order.state,
+      },
+    };
+  }
+
+  private toNumber(value: string | number | null | undefined): number {
+    const parsed = parseFloat(String(value ?? 0));
+    return isNaN(parsed) ? 0 : parsed;
+  }
+
+  private fromMinorUnits(amount?: number | null): number {
+    return amount ? amount / 100 : 0;
+  }
+}
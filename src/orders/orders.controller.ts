@@ -0,0 +1,36 @@
+import { Controller, Get, Param, Query, UseGuards, Request } from '@nestjs/common';
+import { OrdersService } from './orders.service';
+import { SupabaseAuthGuard } from '../auth/guards/supabase-auth.guard';
+
+@Controller('orders')
+@UseGuards(SupabaseAuthGuard)
+export class OrdersController {
+  constructor(private readonly ordersService: OrdersService) {}
+
+  @Get()
+  async listOrders(
+    @Request() req: any,
+    @Query('connectionId') connectionId?: string,
+    @Query('status') status?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    const userId = req.user.id;
+    return this.ordersService.listOrders(userId, {
+      connectionId,
+      status,
+      from,
+      to,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  @Get(':orderId')
+  async getOrder(@Request() req: any, @Param('orderId') orderId: string) {
+    const userId = req.user.id;
+    return this.ordersService.getOrder(userId, orderId);
+  }
+}
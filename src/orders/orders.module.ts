@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { CommonModule } from '../common/common.module';
+import { CanonicalDataModule } from '../canonical-data/canonical-data.module';
+import { PlatformConnectionsModule } from '../platform-connections/platform-connections.module';
+import { PlatformProductMappingsModule } from '../platform-product-mappings/platform-product-mappings.module';
+import { PlatformAdaptersModule } from '../platform-adapters/platform-adapters.module';
+import { SyncEventsService } from '../sync-engine/sync-events.service';
+import { OrdersService } from './orders.service';
+import { OrderMapper } from './order.mapper';
+import { OrderIngestionService } from './order-ingestion.service';
+import { OrdersController } from './orders.controller';
+
+@Module({
+  imports: [
+    CommonModule,
+    CanonicalDataModule,
+    PlatformConnectionsModule,
+    PlatformProductMappingsModule,
+    PlatformAdaptersModule,
+  ],
+  providers: [
+    OrdersService,
+    OrderMapper,
+    OrderIngestionService,
+    SyncEventsService,
+  ],
+  controllers: [OrdersController],
+  exports: [OrdersService, OrderIngestionService],
+})
+export class OrdersModule {}
@@ -0,0 +1,231 @@
+import { Injectable, Logger, InternalServerErrorException, NotFoundException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { SupabaseService } from '../common/supabase.service';
+import { Order } from '../common/types/supabase.types';
+import { LinkedOrderItem, NewMarketplaceOrder, NormalizedOrder, OrderListFilters, OrderWithItems } from './orders.types';
+
+@Injectable()
+export class OrdersService {
+  private readonly logger = new Logger(OrdersService.name);
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  /**
+   * Inserts or refreshes an order keyed by (PlatformConnectionId, PlatformOrderId).
+   * Line items are replaced wholesale since platforms may edit orders after creation.
+   */
+  async upsertOrder(
+    userId: string,
+    connectionId: string,
+    order: NormalizedOrder,
+    items: LinkedOrderItem[],
+  ): Promise<Order> {
+    const supabase = this.supabaseService.getClient();
+    const { data, error } = await supabase
+      .from('Orders')
+      .upsert(
+        {
+          UserId: userId,
+          PlatformConnectionId: connectionId,
+          PlatformOrderId: order.platformOrderId,
+          OrderNumber: order.orderNumber,
+          Status: order.status,
+          Currency: order.currency,
+          TotalAmount: order.totalAmount,
+          CustomerEmail: order.customerEmail,
+          OrderDate: order.orderDate,
+          PlatformSpecificData: order.platformSpecificData || {},
+          UpdatedAt: new Date().toISOString(),
+        },
+        { onConflict: 'PlatformConnectionId,PlatformOrderId' },
+      )
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.logger.error(`Failed to upsert order ${order.platformOrderId} for connection ${connectionId}: ${error?.message}`);
+      throw new InternalServerErrorException(`Could not save order: ${error?.message}`);
+    }
+
+    const { error: deleteError } = await supabase.from('OrderItems').delete().eq('OrderId', data.Id);
+    if (deleteError) {
+      throw new InternalServerErrorException(`Could not replace order items: ${deleteError.message}`);
+    }
+    if (items.length > 0) {
+      const { error: itemsError } = await supabase.from('OrderItems').insert(
+        items.map(item => ({
+          OrderId: data.Id,
+          ProductVariantId: item.productVariantId,
+          PlatformProductId: item.platformProductId,
+          PlatformVariantId: item.platformVariantId,
+          Sku: item.sku || '',
+          Title: item.title,
+          Quantity: item.quantity,
+          Price: item.price,
+        })),
+      );
+      if (itemsError) {
+        this.logger.error(`Failed to save items for order ${data.Id}: ${itemsError.message}`);
+        throw new InternalServerErrorException(`Could not save order items: ${itemsError.message}`);
+      }
+    }
+
+    return data as Order;
+  }
+
+  /**
+   * Records an inter-seller marketplace order. The buyer owns the row; the seller
+   * sees it through MarketplaceSellerUserId. Inventory is applied by the caller
+   * before the order is written, so InventoryAppliedAt is set up front.
+   */
+  async createMarketplaceOrder(order: NewMarketplaceOrder): Promise<OrderWithItems> {
+    const supabase = this.supabaseService.getClient();
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('Orders')
+      .insert({
+        UserId: order.buyerUserId,
+        PlatformConnectionId: null,
+        PlatformOrderId: `marketplace-${randomUUID()}`,
+        OrderNumber: null,
+        Status: 'paid',
+        Currency: order.currency,
+        TotalAmount: order.totalAmount,
+        CustomerEmail: order.customerEmail,
+        OrderDate: now,
+        IsMarketplaceOrder: true,
+        MarketplaceSellerUserId: order.sellerUserId,
+        MarketplaceFeeAmount: order.marketplaceFeeAmount,
+        PlatformSpecificData: order.platformSpecificData,
+        InventoryAppliedAt: now,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.logger.error(`Failed to create marketplace order for buyer ${order.buyerUserId}: ${error?.message}`);
+      throw new InternalServerErrorException(`Could not save marketplace order: ${error?.message}`);
+    }
+
+    const { data: items, error: itemsError } = await supabase
+      .from('OrderItems')
+      .insert({
+        OrderId: data.Id,
+        ProductVariantId: order.item.productVariantId,
+        PlatformProductId: null,
+        PlatformVariantId: null,
+        Sku: order.item.sku || '',
+        Title: order.item.title,
+        Quantity: order.item.quantity,
+        Price: order.item.price,
+      })
+      .select();
+    if (itemsError) {
+      this.logger.error(`Failed to save items for marketplace order ${data.Id}: ${itemsError.message}`);
+      await supabase.from('Orders').delete().eq('Id', data.Id);
+      throw new InternalServerErrorException(`Could not save order items: ${itemsError.message}`);
+    }
+
+    return { ...(data as Order), OrderItems: items || [] };
+  }
+
+  /**
+   * Marks an order's inventory as applied. Returns false when another worker got
+   * there first, so concurrent webhooks for the same order decrement stock once.
+   */
+  async claimInventoryApplication(orderId: string): Promise<boolean> {
+    const supabase = this.supabaseService.getClient();
+    const { data, error } = await supabase
+      .from('Orders')
+      .update({ InventoryAppliedAt: new Date().toISOString() })
+      .eq('Id', orderId)
+      .is('InventoryAppliedAt', null)
+      .select('Id');
+
+    if (error) {
+      this.logger.error(`Failed to claim inventory application for order ${orderId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not update order: ${error.message}`);
+    }
+    return (data || []).length > 0;
+  }
+
+  async getLatestOrderDate(connectionId: string): Promise<Date | null> {
+    const supabase = this.supabaseService.getClient();
+    const { data, error } = await supabase
+      .from('Orders')
+      .select('OrderDate')
+      .eq('PlatformConnectionId', connectionId)
+      .order('OrderDate', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to get latest order date for connection ${connectionId}: ${error.message}`);
+      return null;
+    }
+    return data?.OrderDate ? new Date(data.OrderDate) : null;
+  }
+
+  async listOrders(userId: string, filters: OrderListFilters = {}): Promise<{ orders: Order[]; total: number }> {
+    const supabase = this.supabaseService.getClient();
+    const limit = Math.min(filters.limit || 50, 200);
+    const offset = filters.offset || 0;
+
+    let query = supabase
+      .from('Orders')
+      .select('*', { count: 'exact' })
+      .eq('UserId', userId);
+    if (filters.connectionId) query = query.eq('PlatformConnectionId', filters.connectionId);
+    if (filters.isMarketplaceOrder !== undefined) query = query.eq('IsMarketplaceOrder', filters.isMarketplaceOrder);
+    if (filters.status) query = query.eq('Status', filters.status);
+    if (filters.from) query = query.gte('OrderDate', filters.from);
+    if (filters.to) query = query.lte('OrderDate', filters.to);
+
+    const { data, error, count } = await query
+      .order('OrderDate', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      this.logger.error(`Failed to list orders for user ${userId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not fetch orders: ${error.message}`);
+    }
+    return { orders: (data || []) as Order[], total: count || 0 };
+  }
+
+  async listMarketplaceSales(sellerUserId: string, limit = 50, offset = 0): Promise<{ orders: Order[]; total: number }> {
+    const supabase = this.supabaseService.getClient();
+    const pageSize = Math.min(limit, 200);
+    const { data, error, count } = await supabase
+      .from('Orders')
+      .select('*, OrderItems(*)', { count: 'exact' })
+      .eq('IsMarketplaceOrder', true)
+      .eq('MarketplaceSellerUserId', sellerUserId)
+      .order('OrderDate', { ascending: false })
+      .range(offset, offset + pageSize - 1);
+
+    if (error) {
+      this.logger.error(`Failed to list marketplace sales for seller ${sellerUserId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not fetch marketplace sales: ${error.message}`);
+    }
+    return { orders: (data || []) as Order[], total: count || 0 };
+  }
+
+  async getOrder(userId: string, orderId: string): Promise<OrderWithItems> {
+    const supabase = this.supabaseService.getClient();
+    const { data, error } = await supabase
+      .from('Orders')
+      .select('*, OrderItems(*)')
+      .eq('UserId', userId)
+      .eq('Id', orderId)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to get order ${orderId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not fetch order: ${error.message}`);
+    }
+    if (!data) {
+      throw new NotFoundException(`Order ${orderId} not found`);
+    }
+    return data as OrderWithItems;
+  }
+}
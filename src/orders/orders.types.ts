@@ -0,0 +1,56 @@
+import { Order, OrderItem } from '../common/types/supabase.types';
+
+/**
+ * Platform-agnostic order shape produced by OrderMapper from Shopify, Square and
+ * Clover payloads before it is linked to canonical variants and persisted.
+ */
+export interface NormalizedOrderItem {
+  platformProductId: string | null;
+  platformVariantId: string | null;
+  sku: string | null;
+  title: string;
+  quantity: number;
+  price: number;
+}
+
+export interface NormalizedOrder {
+  platformOrderId: string;
+  orderNumber: string | null;
+  status: string;
+  currency: string;
+  totalAmount: number;
+  customerEmail: string | null;
+  orderDate: string;
+  isSale: boolean; // False for drafts, unpaid carts and cancellations; only sales move inventory
+  items: NormalizedOrderItem[];
+  platformSpecificData?: Record<string, any>;
+}
+
+export interface LinkedOrderItem extends NormalizedOrderItem {
+  productVariantId: string | null;
+}
+
+export interface OrderListFilters {
+  connectionId?: string;
+  isMarketplaceOrder?: boolean;
+  status?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface OrderWithItems extends Order {
+  OrderItems: OrderItem[];
+}
+
+export interface NewMarketplaceOrder {
+  buyerUserId: string;
+  sellerUserId: string;
+  currency: string;
+  totalAmount: number;
+  marketplaceFeeAmount: number;
+  customerEmail: string | null;
+  platformSpecificData: Record<string, any>;
+  item: Omit<LinkedOrderItem, 'platformProductId' | 'platformVariantId'>;
+}
@@ -1,4 +1,5 @@
 // Defines the common interface that all platform adapters must implement
+import { InventoryUpdateResult } from './inventory-update-result';
 
 // Define base types for API clients and Mappers if desired for stronger typing
 // export interface BaseApiClient { initialize(connection: PlatformConnection): void; fetchAllRelevantData(): Promise<any>; /* ... */ }
@@ -69,13 +70,26 @@ export interface BaseAdapter {
      * @param connection The platform connection details.
      * @param inventoryUpdates Array of updates, each containing mapping info and new canonical level.
      *                       Example: { mapping: PlatformProductMapping, level: CanonicalInventoryLevel }[]
-     * @returns Success status or detailed results per update.
+     * @returns Success status or detailed results per update. Adapters with a batch
+     *          API return an InventoryUpdateResult with one result per update.
      */
     updateInventoryLevels(
         connection: any, // PlatformConnection
         inventoryUpdates: Array<{ mapping: any /* PlatformProductMapping */; level: any /* CanonicalInventoryLevel */ }>
     ): Promise<any>;
 
+    /**
+     * Optional: applies signed inventory changes instead of overwriting quantities,
+     * for platforms with an adjustment API. `reason` is the ledger reason behind
+     * the delta (null when it mixes several). Platforms without one get absolute
+     * quantities through updateInventoryLevels.
+     * @returns One result per adjustment, in order.
+     */
+    adjustInventoryLevels?(
+        connection: any, // PlatformConnection
+        adjustments: Array<{ mapping: any /* PlatformProductMapping */; level: any /* CanonicalInventoryLevel */; delta: number; reason: string | null }>
+    ): Promise<InventoryUpdateResult>;
+
     /**
      * Processes an incoming webhook payload for the platform.
      * This method is responsible for parsing the payload, determining the event,
@@ -7,6 +7,7 @@ import { PlatformProductMappingsModule } from '../../platform-product-mappings/p
 import { CloverApiClient } from './clover-api-client.service';
 import { CloverMapper } from './clover.mapper';
 import { CloverAdapter } from './clover.adapter';
+import { SyncEventsService } from '../../sync-engine/sync-events.service';
 
 @Module({
   imports: [
@@ -20,7 +21,8 @@ import { CloverAdapter } from './clover.adapter';
     CloverApiClient,
     CloverMapper,
     CloverAdapter,
+    SyncEventsService,
   ],
-  exports: [CloverAdapter], // Export the main adapter facade
+  exports: [CloverAdapter, CloverApiClient], // Export the main adapter facade
 })
 export class CloverAdapterModule {} 
\ No newline at end of file
@@ -183,6 +183,29 @@ export interface CreateCloverProductResponse {
     }>;
 }
 
+// --- Orders ---
+export interface CloverLineItem {
+    id: string;
+    name?: string;
+    price?: number; // In cents
+    unitQty?: number; // Thousandths of a unit; absent for single-unit line items
+    item?: { id: string } | null;
+    itemCode?: string;
+    refunded?: boolean;
+}
+
+export interface CloverOrder {
+    id: string;
+    currency?: string;
+    total?: number; // In cents
+    state?: string; // open | locked | ...
+    paymentState?: string; // OPEN | PAID | REFUNDED | ...
+    createdTime?: number; // Epoch millis
+    modifiedTime?: number;
+    customers?: { elements?: Array<{ emailAddresses?: { elements?: Array<{ emailAddress: string }> } }> };
+    lineItems?: { elements?: CloverLineItem[] };
+}
+
 @Injectable()
 export class CloverApiClient {
     private readonly logger = new Logger(CloverApiClient.name);
@@ -701,6 +724,34 @@ export class CloverApiClient {
         }
     }
 
+    // --- Orders ---
+    async fetchOrder(connection: PlatformConnection, merchantId: string, orderId: string): Promise<CloverOrder | null> {
+        const headers = await this.getHeaders(connection);
+        try {
+            const response = await this.axiosInstance.get<CloverOrder>(`/v3/merchants/${merchantId}/orders/${orderId}`, {
+                headers,
+                params: { expand: 'lineItems,customers.emailAddresses' },
+            });
+            return response.data;
+        } catch (error) {
+            if (axios.isAxiosError(error) && error.response?.status === 404) {
+                this.logger.warn(`Clover order ${orderId} not found for merchant ${merchantId}`);
+                return null;
+            }
+            throw new InternalServerErrorException(`Failed to fetch Clover order ${orderId}: ${error.message}`);
+        }
+    }
+
+    async fetchOrdersModifiedSince(connection: PlatformConnection, merchantId: string, since: Date): Promise<CloverOrder[]> {
+        return this._fetchWithPagination<CloverOrder>(
+            connection,
+            merchantId,
+            `/v3/merchants/${merchantId}/orders`,
+            ['lineItems'],
+            { filter: `modifiedTime>=${since.getTime()}` },
+        );
+    }
+
     // Example (updateItemStock - to be implemented later or if needed during creation)
     // async updateItemStock(connection: PlatformConnection, merchantId: string, itemId: string, newQuantity: number): Promise<CloverItemStock> {
 } 
\ No newline at end of file
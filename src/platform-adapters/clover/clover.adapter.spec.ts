@@ -0,0 +1,260 @@
+import { SupabaseService } from '../../common/supabase.service';
+import { ActivityLogService } from '../../common/activity-log.service';
+import { ProductVariant } from '../../common/types/supabase.types';
+import { ProductsService } from '../../canonical-data/products.service';
+import { InventoryService } from '../../canonical-data/inventory.service';
+import { PlatformConnection, PlatformConnectionsService } from '../../platform-connections/platform-connections.service';
+import { PlatformProductMapping, PlatformProductMappingsService } from '../../platform-product-mappings/platform-product-mappings.service';
+import { ConflictResolutionService } from '../../sync-engine/conflict-resolution.service';
+import { ConflictRulesService } from '../../sync-engine/conflict-rules.service';
+import { ConflictInboxService } from '../../sync-engine/conflict-inbox.service';
+import { SyncCoordinatorService } from '../../sync-engine/sync-coordinator.service';
+import { SyncEventsService } from '../../sync-engine/sync-events.service';
+import { EchoSuppressionService } from '../../sync-engine/echo-suppression.service';
+import { CloverApiClient } from './clover-api-client.service';
+import { CloverMapper } from './clover.mapper';
+import { CloverAdapter } from './clover.adapter';
+
+describe('CloverAdapter item webhooks', () => {
+    const connection = { Id: 'conn-clover', UserId: 'user-1', PlatformType: 'clover', PlatformSpecificData: { merchantId: 'm-1' } } as unknown as PlatformConnection;
+    const mapping = {
+        Id: 'mapping-1',
+        PlatformConnectionId: 'conn-clover',
+        ProductVariantId: 'variant-1',
+        PlatformProductId: 'clover-prod-item-1',
+        PlatformVariantId: 'item-1',
+    } as PlatformProductMapping;
+
+    let adapter: CloverAdapter;
+    let tables: Record<string, Array<Record<string, any>>>;
+    let variant: ProductVariant;
+    let cloverItem: Record<string, any>;
+    let saveVariants: jest.Mock;
+    let cloverGet: jest.Mock;
+    let productsService: Record<string, any>;
+    let supabase: SupabaseService;
+    let conflictResolution: ConflictResolutionService;
+
+    // Supabase tables in memory, for the filters the conflict services use
+    const from = (table: string) => {
+        const filters: Array<(row: Record<string, any>) => boolean> = [];
+        let insert: Array<Record<string, any>> | null = null;
+        let changes: Record<string, any> | null = null;
+        const run = () => {
+            const rows = (tables[table] ??= []);
+            if (insert) {
+                rows.push(...insert.map(row => ({ Id: `${table}-${rows.length + 1}`, CreatedAt: new Date().toISOString(), ...row })));
+                return { data: null, error: null };
+            }
+            const matched = rows.filter(row => filters.every(f => f(row)));
+            if (changes) matched.forEach(row => Object.assign(row, changes));
+            return { data: matched.map(row => ({ ...row })), error: null, count: matched.length };
+        };
+        const query = {
+            select: () => query,
+            insert: (rows: Array<Record<string, any>>) => ((insert = rows), query),
+            update: (values: Record<string, any>) => ((changes = values), query),
+            eq: (column: string, value: any) => (filters.push(row => row[column] === value), query),
+            is: (column: string, value: any) => (filters.push(row => (row[column] ?? null) === value), query),
+            not: (column: string, _op: string, value: any) => (filters.push(row => (row[column] ?? null) !== value), query),
+            lte: (column: string, value: any) => (filters.push(row => row[column] <= value), query),
+            // Only the `column.is.null,column.eq.value` form getEffectiveRules sends
+            or: (expression: string) => {
+                const options = expression.split(',').map(part => part.split('.'));
+                filters.push(row => options.some(([column, op, value]) => (op === 'is' ? row[column] == null : row[column] === value)));
+                return query;
+            },
+            order: () => query,
+            range: () => query,
+            limit: () => query,
+            maybeSingle: () => {
+                const result = run();
+                return Promise.resolve({ ...result, data: result.data?.[0] ?? null });
+            },
+            then: (resolve: (result: any) => void) => resolve(run()),
+        };
+        return query;
+    };
+
+    const receiveItemUpdate = () => adapter.processWebhook(connection, { type: 'UPDATE', object: 'ITEM', data: { id: 'item-1' } }, {});
+
+    beforeEach(() => {
+        tables = { ConflictRules: [], ConflictEvents: [] };
+        variant = {
+            Id: 'variant-1',
+            ProductId: 'product-1',
+            UserId: 'user-1',
+            Sku: 'MUG-1',
+            Barcode: null,
+            Title: 'Mug',
+            Description: null,
+            Price: 12,
+            CompareAtPrice: null,
+            Weight: null,
+            WeightUnit: null,
+            Options: '{"Color":"Blue"}' as any, // Stored as JSON text
+            RequiresShipping: true,
+            IsTaxable: true,
+            TaxCode: null,
+            UpdatedAt: '2025-08-01T00:00:00.000Z',
+        } as ProductVariant;
+        cloverItem = {
+            id: 'item-1',
+            hidden: false,
+            name: 'Mug',
+            sku: 'MUG-1',
+            price: 1500,
+            priceType: 'FIXED',
+            options: { elements: [{ name: 'Blue', attribute: { name: 'Color' } }] },
+        };
+
+        cloverGet = jest.fn((url: string) => {
+            if (url === `/v3/merchants/m-1/items/${cloverItem.id}`) return Promise.resolve({ data: cloverItem });
+            if (url === '/v3/merchants/m-1') return Promise.resolve({ data: { id: 'm-1', name: 'Shop' } });
+            return Promise.reject(new Error('Request failed with status code 404')); // Not an item group
+        });
+        const apiClient = { initialize: jest.fn(), getHeaders: jest.fn().mockResolvedValue({}), axiosInstance: { get: cloverGet } };
+        saveVariants = jest.fn((rows: ProductVariant[]) => Promise.resolve(rows.map(row => ({ ...variant, ...row }))));
+        productsService = {
+            getVariantById: (id: string) => Promise.resolve(id === variant.Id ? { ...variant } : null),
+            getVariantsByIds: (ids: string[]) => Promise.resolve(ids.includes(variant.Id) ? [{ ...variant }] : []),
+            updateVariant: jest.fn((id: string, updates: Partial<ProductVariant>) => Promise.resolve(Object.assign(variant, updates))),
+            getProductById: (id: string) => Promise.resolve({ Id: id, UserId: 'user-1', IsArchived: false }),
+            saveProduct: (product: Record<string, any>) => Promise.resolve({ Id: 'product-2', ...product }),
+            updateProduct: jest.fn(),
+            saveVariants,
+            getImageUrlsForVariants: jest.fn().mockResolvedValue(new Map()),
+            replaceVariantImages: jest.fn(),
+        };
+        const mappingsService = {
+            getMappingByPlatformId: (connectionId: string, productId: string) =>
+                Promise.resolve(productId === mapping.PlatformProductId ? mapping : null),
+            getMappingByPlatformIdentifiers: (connectionId: string, productId: string, variantId: string) =>
+                Promise.resolve(productId === mapping.PlatformProductId && variantId === mapping.PlatformVariantId ? mapping : null),
+            updateMapping: jest.fn(),
+            createMapping: jest.fn(),
+        };
+
+        supabase = { getClient: () => ({ from }), getServiceClient: () => ({ from }) } as unknown as SupabaseService;
+        conflictResolution = new ConflictResolutionService(
+            supabase,
+            { logActivity: jest.fn() } as unknown as ActivityLogService,
+            new ConflictRulesService(supabase, {} as PlatformConnectionsService),
+            productsService as unknown as ProductsService,
+            mappingsService as unknown as PlatformProductMappingsService,
+        );
+        adapter = new CloverAdapter(
+            apiClient as unknown as CloverApiClient,
+            new CloverMapper(),
+            productsService as unknown as ProductsService,
+            { saveBulkInventoryLevels: jest.fn() } as unknown as InventoryService,
+            mappingsService as unknown as PlatformProductMappingsService,
+            {} as SyncEventsService,
+            {} as EchoSuppressionService,
+            conflictResolution,
+        );
+    });
+
+    it('records a conflicting edit and keeps the canonical value under the default rules', async () => {
+        await receiveItemUpdate();
+
+        expect(tables.ConflictEvents).toEqual([
+            expect.objectContaining({
+                UserId: 'user-1',
+                EntityId: 'variant-1',
+                ConflictType: 'price_mismatch',
+                SssyncValue: 12,
+                PlatformValue: 15,
+                PlatformConnectionId: 'conn-clover',
+                Resolution: expect.objectContaining({ action: 'keep_sssync' }),
+                ResolvedAt: expect.any(String),
+            }),
+        ]);
+        expect(saveVariants.mock.calls[0][0][0]).toMatchObject({ Sku: 'MUG-1', Price: 12, Options: '{"Color":"Blue"}' });
+    });
+
+    it('saves an item sssync has not seen as reported, without checking for conflicts', async () => {
+        cloverItem.id = 'item-2';
+        cloverItem.sku = 'MUG-2';
+
+        await adapter.processWebhook(connection, { type: 'CREATE', object: 'ITEM', data: { id: 'item-2' } }, {});
+
+        expect(tables.ConflictEvents).toEqual([]);
+        expect(saveVariants.mock.calls[0][0][0]).toMatchObject({ Sku: 'MUG-2', Price: 15 });
+    });
+
+    it('takes the platform value when the connection\'s stored rule says so', async () => {
+        tables.ConflictRules.push(
+            { Id: 'rule-1', UserId: 'user-1', PlatformConnectionId: null, Field: 'all', Priority: 'user_review', PlatformExceptions: [] },
+            { Id: 'rule-2', UserId: 'user-1', PlatformConnectionId: 'conn-clover', Field: 'price', Priority: 'platform_wins', PlatformExceptions: [] },
+            { Id: 'rule-3', UserId: 'user-1', PlatformConnectionId: 'conn-other', Field: 'price', Priority: 'sssync_wins', PlatformExceptions: [] },
+        );
+
+        await receiveItemUpdate();
+
+        expect(saveVariants.mock.calls[0][0][0]).toMatchObject({ Sku: 'MUG-1', Price: 15 });
+        expect(tables.ConflictEvents).toEqual([
+            expect.objectContaining({ ConflictType: 'price_mismatch', Resolution: expect.objectContaining({ action: 'accept_platform' }), ResolvedAt: expect.any(String) }),
+        ]);
+    });
+
+    it('falls back to the user\'s rule for fields the connection has none for', async () => {
+        tables.ConflictRules.push(
+            { Id: 'rule-1', UserId: 'user-1', PlatformConnectionId: null, Field: 'all', Priority: 'user_review', PlatformExceptions: [] },
+            { Id: 'rule-2', UserId: 'user-1', PlatformConnectionId: 'conn-clover', Field: 'title', Priority: 'platform_wins', PlatformExceptions: [] },
+        );
+
+        await receiveItemUpdate();
+
+        expect(saveVariants.mock.calls[0][0][0]).toMatchObject({ Price: 12 });
+        expect(tables.ConflictEvents).toEqual([
+            expect.objectContaining({ ConflictType: 'price_mismatch', Resolution: expect.objectContaining({ action: 'user_review' }), ResolvedAt: null }),
+        ]);
+    });
+
+    // Leaves price conflicts for review and returns an inbox over the same tables
+    const reviewPrices = () => {
+        tables.ConflictRules.push({ Id: 'rule-1', UserId: 'user-1', PlatformConnectionId: null, Field: 'price', Priority: 'user_review', PlatformExceptions: [] });
+        const syncCoordinator = { handleCanonicalProductUpdate: jest.fn() };
+        const inbox = new ConflictInboxService(
+            supabase,
+            { logActivity: jest.fn() } as unknown as ActivityLogService,
+            productsService as unknown as ProductsService,
+            {} as InventoryService,
+            conflictResolution,
+            syncCoordinator as unknown as SyncCoordinatorService,
+        );
+        return { inbox, syncCoordinator };
+    };
+
+    it('sends a conflict left for review to the inbox and pushes the value chosen there', async () => {
+        const { inbox, syncCoordinator } = reviewPrices();
+
+        await receiveItemUpdate();
+        const { items } = await inbox.listConflicts('user-1');
+
+        expect(items).toEqual([
+            expect.objectContaining({ conflictType: 'price_mismatch', platform: expect.objectContaining({ value: 15 }), currentValue: 12, resolvedAt: null }),
+        ]);
+        expect(saveVariants.mock.calls[0][0][0]).toMatchObject({ Price: 12 });
+
+        const resolved = await inbox.resolveConflict('user-1', items[0].id, { action: 'accept_platform' });
+
+        expect(productsService.updateVariant).toHaveBeenCalledWith('variant-1', { Price: 15 });
+        expect(syncCoordinator.handleCanonicalProductUpdate).toHaveBeenCalledWith('product-1', 'user-1');
+        expect(resolved).toMatchObject({ currentValue: 15, resolvedAt: expect.any(String), resolution: expect.objectContaining({ action: 'accept_platform' }) });
+        expect((await inbox.listConflicts('user-1')).items).toEqual([]);
+    });
+
+    it('reopens a conflict whose value could not be applied', async () => {
+        const { inbox, syncCoordinator } = reviewPrices();
+        productsService.updateVariant.mockRejectedValueOnce(new Error('Could not update variant'));
+
+        await receiveItemUpdate();
+        const [item] = (await inbox.listConflicts('user-1')).items;
+
+        await expect(inbox.resolveConflict('user-1', item.id, { action: 'accept_platform' })).rejects.toThrow('Could not update variant');
+        expect(syncCoordinator.handleCanonicalProductUpdate).not.toHaveBeenCalled();
+        expect((await inbox.listConflicts('user-1')).items).toEqual([expect.objectContaining({ id: item.id, resolvedAt: null })]);
+    });
+});
@@ -17,6 +17,13 @@ import { CanonicalProduct, CanonicalProductVariant } from '../shopify/shopify.ma
 import { Product, ProductVariant } from '../../common/types/supabase.types'; // Supabase specific types
 import { CanonicalInventoryLevel } from '../../canonical-data/inventory.service';
 import { CloverProductCreationBundle } from './clover.mapper'; // Import the bundle type
+import { SyncEventsService } from '../../sync-engine/sync-events.service';
+import { EchoSuppressionService } from '../../sync-engine/echo-suppression.service';
+import { ConflictResolutionService } from '../../sync-engine/conflict-resolution.service';
+import { InventoryUpdateResult, newInventoryRowResult, summarizeInventoryResults } from '../inventory-update-result';
+
+// Item stock writes in flight at once, well inside Clover's per-token request limit
+const CLOVER_STOCK_CONCURRENCY = 4;
 
 @Injectable()
 export class CloverAdapter implements BaseAdapter {
@@ -28,6 +35,9 @@ export class CloverAdapter implements BaseAdapter {
         private readonly productsService: ProductsService,
         private readonly inventoryService: InventoryService,
         private readonly mappingsService: PlatformProductMappingsService,
+        private readonly syncEventsService: SyncEventsService,
+        private readonly echoSuppression: EchoSuppressionService,
+        private readonly conflictResolution: ConflictResolutionService,
     ) {}
 
     getApiClient(connection: PlatformConnection): CloverApiClient {
@@ -404,55 +414,52 @@ export class CloverAdapter implements BaseAdapter {
     async updateInventoryLevels(
         connection: PlatformConnection,
         inventoryUpdates: Array<{ mapping: PlatformProductMapping; level: CanonicalInventoryLevel }>
-    ): Promise<{ successCount: number; failureCount: number; errors: string[] }> {
+    ): Promise<InventoryUpdateResult> {
         this.logger.log(`Starting Clover updateInventoryLevels for ${inventoryUpdates.length} items on connection ${connection.Id}`);
         const apiClient = this.getApiClient(connection);
         const merchantId = connection.PlatformSpecificData?.merchantId;
-        let successCount = 0;
-        let failureCount = 0;
-        const errors: string[] = [];
+        const results = inventoryUpdates.map(({ mapping, level }) => newInventoryRowResult(mapping, level));
 
         if (!merchantId) {
             const errorMsg = `Merchant ID not found in PlatformSpecificData for connection ${connection.Id}. Cannot update Clover inventory.`;
             this.logger.error(errorMsg);
             // If merchantId is missing, all updates will fail. Return early.
-            return { 
-                successCount: 0, 
-                failureCount: inventoryUpdates.length, 
-                errors: inventoryUpdates.map(iu => `Merchant ID missing for variant ${iu.mapping.ProductVariantId}`) 
-            };
+            results.forEach(row => (row.error = `Merchant ID missing for variant ${row.productVariantId}`));
+            return summarizeInventoryResults(results);
         }
 
-        for (const update of inventoryUpdates) {
-            const { mapping, level } = update;
-            if (!mapping.PlatformVariantId) {
-                const errMsg = `PlatformVariantId (Clover Item ID) missing for mapping with ProductVariantId ${mapping.ProductVariantId}. Skipping inventory update.`;
-                this.logger.warn(errMsg);
-                errors.push(errMsg);
-                failureCount++;
-                continue;
-            }
-
-            const cloverItemId = mapping.PlatformVariantId;
-            const newQuantity = level.Quantity; // CanonicalInventoryLevel.Quantity
+        // Clover has no batch stock endpoint, so item stocks are set a few at a time
+        let next = 0;
+        const worker = async () => {
+            while (next < inventoryUpdates.length) {
+                const index = next++;
+                const { mapping, level } = inventoryUpdates[index];
+                const row = results[index];
+                if (!mapping.PlatformVariantId) {
+                    row.error = `PlatformVariantId (Clover Item ID) missing for mapping with ProductVariantId ${mapping.ProductVariantId}. Skipping inventory update.`;
+                    this.logger.warn(row.error);
+                    continue;
+                }
 
-            try {
-                await apiClient.updateCloverItemStock(connection, merchantId, cloverItemId, newQuantity);
-                this.logger.log(`Successfully updated inventory for Clover Item ID ${cloverItemId} to quantity ${newQuantity}`);
-                successCount++;
-            } catch (error) {
-                const errMsg = `Failed to update inventory for Clover Item ID ${cloverItemId} (Canonical Variant: ${mapping.ProductVariantId}): ${error.message}`;
-                this.logger.error(errMsg);
-                errors.push(errMsg);
-                failureCount++;
+                const cloverItemId = mapping.PlatformVariantId;
+                try {
+                    await apiClient.updateCloverItemStock(connection, merchantId, cloverItemId, level.Quantity);
+                    this.logger.log(`Successfully updated inventory for Clover Item ID ${cloverItemId} to quantity ${level.Quantity}`);
+                    row.success = true;
+                } catch (error) {
+                    row.error = `Failed to update inventory for Clover Item ID ${cloverItemId} (Canonical Variant: ${mapping.ProductVariantId}): ${error.message}`;
+                    this.logger.error(row.error);
+                }
             }
-        }
+        };
+        await Promise.all(Array.from({ length: Math.min(CLOVER_STOCK_CONCURRENCY, inventoryUpdates.length) }, worker));
 
-        this.logger.log(`Clover updateInventoryLevels completed. Success: ${successCount}, Failures: ${failureCount}`);
-        if (failureCount > 0) {
-            this.logger.warn(`Errors during Clover inventory update: ${JSON.stringify(errors)}`);
+        const summary = summarizeInventoryResults(results);
+        this.logger.log(`Clover updateInventoryLevels completed. Success: ${summary.successCount}, Failures: ${summary.failureCount}`);
+        if (summary.failureCount > 0) {
+            this.logger.warn(`Errors during Clover inventory update: ${JSON.stringify(summary.errors)}`);
         }
-        return { successCount, failureCount, errors };
+        return summary;
     }
 
     async processWebhook(
@@ -513,7 +520,10 @@ export class CloverAdapter implements BaseAdapter {
                     if (cloverItemId && newQuantity !== undefined) {
                         this.logger.log(`Item_Stock ${eventType} for Clover Item ID ${cloverItemId}, new quantity: ${newQuantity}.`);
                         const mapping = await this.mappingsService.getMappingByPlatformVariantIdAndConnection(cloverItemId, connection.Id);
-                        if (mapping && mapping.ProductVariantId) {
+                        const echo = mapping ? this.echoSuppression.findInventoryEcho(mapping, null, Number(newQuantity)) : null;
+                        if (echo) {
+                            this.logger.log(`Clover stock ${newQuantity} for item ${cloverItemId} was set by sssync (change set ${echo.changeSetId}). Ignoring echo.`);
+                        } else if (mapping && mapping.ProductVariantId) {
                             // Clover doesn't typically provide location for item_stock in this basic webhook.
                             // Assuming update for the primary/default location or a convention is established.
                             // For a more robust solution, the specific Clover location ID would be needed.
@@ -537,8 +547,16 @@ export class CloverAdapter implements BaseAdapter {
                 }
             } else if (objectType === 'ORDER') {
                 this.logger.log(`Order event received from Clover: ${eventType} for Order ID ${objectId}`);
-                // TODO: Implement order processing.
-                this.logger.warn('Order processing from Clover webhook not yet implemented.');
+                if (eventType === 'CREATE' || eventType === 'UPDATE') {
+                    this.syncEventsService.emitOrderSyncEvent({
+                        type: 'ORDER_RECEIVED',
+                        platformOrderId: objectId,
+                        userId: connection.UserId,
+                        sourceConnectionId: connection.Id,
+                        sourcePlatform: 'clover',
+                        webhookId,
+                    });
+                }
             } else {
                 this.logger.warn(`CloverAdapter received unhandled webhook objectType: ${objectType}`);
             }
@@ -670,33 +688,39 @@ export class CloverAdapter implements BaseAdapter {
                             return null;
                         }
                         return {
-                            ProductId: savedSupabaseProduct!.Id,
-                            UserId: userId,
-                            Sku: cv.Sku,
-                            Barcode: cv.Barcode,
-                            Title: cv.Title,
-                            Description: cv.Description,
-                            Price: cv.Price,
-                            CompareAtPrice: cv.CompareAtPrice,
-                            Weight: cv.Weight,
-                            WeightUnit: cv.WeightUnit,
-                            Options: cv.Options,
-                            RequiresShipping: cv.RequiresShipping !== undefined ? cv.RequiresShipping : true,
-                            IsTaxable: cv.IsTaxable !== undefined ? cv.IsTaxable : true,
-                            TaxCode: cv.TaxCode,
-                            ImageId: cv.ImageId,
-                            // Ensure ProductId is correct for variants linked to this product
+                            cv,
+                            row: {
+                                ProductId: savedSupabaseProduct!.Id,
+                                UserId: userId,
+                                Sku: cv.Sku,
+                                Barcode: cv.Barcode,
+                                Title: cv.Title,
+                                Description: cv.Description,
+                                Price: cv.Price,
+                                CompareAtPrice: cv.CompareAtPrice,
+                                Weight: cv.Weight,
+                                WeightUnit: cv.WeightUnit,
+                                Options: cv.Options,
+                                RequiresShipping: cv.RequiresShipping !== undefined ? cv.RequiresShipping : true,
+                                IsTaxable: cv.IsTaxable !== undefined ? cv.IsTaxable : true,
+                                TaxCode: cv.TaxCode,
+                                ImageId: cv.ImageId,
+                                // Ensure ProductId is correct for variants linked to this product
+                            },
                         };
                     })
-                    .filter(Boolean) as Array<Omit<ProductVariant, 'Id' | 'CreatedAt' | 'UpdatedAt'>>;
+                    .filter(Boolean) as Array<{ cv: CanonicalProductVariant; row: Omit<ProductVariant, 'Id' | 'CreatedAt' | 'UpdatedAt'> }>;
+
+                // Variants sssync already has only take the platform values the connection's conflict rules accept
+                for (const { cv, row } of variantsToSavePrepared) {
+                    Object.assign(row, await this.conflictResolution.reconcileIncomingVariant(connection, cProduct.Id!, cv.Id!.replace('clover-var-', ''), cv, cProduct.ImageUrls));
+                }
                 
                 if (variantsToSavePrepared.length > 0) {
-                    const savedSupabaseVariants = await this.productsService.saveVariants(variantsToSavePrepared);
-                    
-                    const relevantOriginalCanonicalVariants = canonicalVariants.filter(cv => cv.ProductId === cProduct.Id && cv.Sku && cv.Sku.trim() !== '');
+                    const savedSupabaseVariants = await this.productsService.saveVariants(variantsToSavePrepared.map(p => p.row));
 
-                    for (const originalCv of relevantOriginalCanonicalVariants) {
-                        const savedSupabaseVariant = savedSupabaseVariants.find(sv => sv.Sku === originalCv.Sku && sv.ProductId === savedSupabaseProduct!.Id);
+                    for (const { cv: originalCv, row } of variantsToSavePrepared) {
+                        const savedSupabaseVariant = savedSupabaseVariants.find(sv => sv.Sku === row.Sku && sv.ProductId === savedSupabaseProduct!.Id);
                         if (!savedSupabaseVariant) {
                             this.logger.warn(`Webhook: Could not find saved Supabase variant for canonical variant SKU ${originalCv.Sku} of product ${cProduct.Title}`);
                             continue;
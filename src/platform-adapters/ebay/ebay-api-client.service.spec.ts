@@ -0,0 +1,81 @@
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { ConfigService } from '@nestjs/config';
+import { PlatformConnectionsService } from '../../platform-connections/platform-connections.service';
+import { EbayApiClient } from './ebay-api-client.service';
+
+describe('EbayApiClient.verifyNotificationSignature', () => {
+  const body = Buffer.from(JSON.stringify({ metadata: { topic: 'ITEM_SOLD' } }));
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  // eBay returns the PEM on one line
+  const pem = publicKey.export({ type: 'spki', format: 'pem' }).toString().replace(/\n/g, '');
+
+  let client: EbayApiClient;
+  let http: { get: jest.Mock; post: jest.Mock };
+
+  const header = (fields: Record<string, string> = {}) =>
+    Buffer.from(
+      JSON.stringify({
+        alg: 'ECDSA',
+        kid: 'key-1',
+        digest: 'SHA1',
+        signature: crypto.createSign('sha1').update(body).sign(privateKey, 'base64'),
+        ...fields,
+      }),
+    ).toString('base64');
+
+  beforeEach(() => {
+    http = {
+      post: jest.fn().mockResolvedValue({ data: { access_token: 'app-token', expires_in: 7200 } }),
+      get: jest.fn().mockResolvedValue({ data: { key: pem, digest: 'SHA1' } }),
+    };
+    jest.spyOn(axios, 'create').mockReturnValue(http as any);
+    const config = { get: (key: string, fallback?: string) => ({ EBAY_CLIENT_ID: 'id', EBAY_CLIENT_SECRET: 'secret' })[key] ?? fallback };
+    client = new EbayApiClient({} as PlatformConnectionsService, config as unknown as ConfigService);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('accepts a message signed with the referenced key and caches the key', async () => {
+    expect(await client.verifyNotificationSignature(body, header())).toBe(true);
+    expect(await client.verifyNotificationSignature(body, header())).toBe(true);
+
+    expect(http.get).toHaveBeenCalledTimes(1);
+    expect(http.get.mock.calls[0][0]).toBe('/commerce/notification/v1/public_key/key-1');
+  });
+
+  it('rejects a tampered body', async () => {
+    expect(await client.verifyNotificationSignature(Buffer.from('{}'), header())).toBe(false);
+  });
+
+  it('rejects a malformed header', async () => {
+    expect(await client.verifyNotificationSignature(body, 'not base64 json')).toBe(false);
+    expect(http.get).not.toHaveBeenCalled();
+  });
+
+  it('rejects the message when the public key cannot be fetched', async () => {
+    http.get.mockRejectedValue(Object.assign(new Error('Request failed with status code 404'), { response: { status: 404 } }));
+
+    await expect(client.verifyNotificationSignature(body, header({ kid: 'unknown' }))).resolves.toBe(false);
+  });
+
+  it('rejects the message when eBay returns no key', async () => {
+    http.get.mockResolvedValue({ data: {} });
+
+    await expect(client.verifyNotificationSignature(body, header())).resolves.toBe(false);
+  });
+
+  it('rejects the message when no application token can be minted', async () => {
+    http.post.mockResolvedValue({ data: {} });
+
+    await expect(client.verifyNotificationSignature(body, header())).resolves.toBe(false);
+    expect(http.get).not.toHaveBeenCalled();
+  });
+
+  it('fetches the key again after a failed fetch', async () => {
+    http.get.mockRejectedValueOnce(new Error('socket hang up'));
+
+    expect(await client.verifyNotificationSignature(body, header())).toBe(false);
+    expect(await client.verifyNotificationSignature(body, header())).toBe(true);
+  });
+});
@@ -1,50 +1,691 @@
-import { Injectable, Logger, UnauthorizedException, InternalServerErrorException } from '@nestjs/common';
-import { PlatformConnection, PlatformConnectionsService } from '../../platform-connections/platform-connections.service';
-import axios, { AxiosInstance } from 'axios';
+import {
+  Injectable,
+  Logger,
+  UnauthorizedException,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  PlatformConnection,
+  PlatformConnectionsService,
+} from '../../platform-connections/platform-connections.service';
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import * as crypto from 'crypto';
+
+// --- eBay Sell Inventory API Interfaces ---
+
+export interface EbayAmount {
+  value: string; // Decimal string, e.g. "19.99"
+  currency: string; // ISO 4217, e.g. "USD"
+}
+
+export interface EbayInventoryItem {
+  sku: string;
+  locale?: string;
+  condition?: string; // e.g. NEW, USED_EXCELLENT
+  conditionDescription?: string;
+  product?: {
+    title?: string;
+    description?: string;
+    aspects?: Record<string, string[]>;
+    brand?: string;
+    mpn?: string;
+    upc?: string[];
+    ean?: string[];
+    isbn?: string[];
+    epid?: string;
+    imageUrls?: string[];
+    subtitle?: string;
+  };
+  availability?: {
+    shipToLocationAvailability?: { quantity?: number };
+    pickupAtLocationAvailability?: Array<{
+      merchantLocationKey: string;
+      quantity: number;
+      availabilityType?: string;
+    }>;
+  };
+  packageWeightAndSize?: {
+    weight?: { value: number; unit: 'POUND' | 'KILOGRAM' | 'OUNCE' | 'GRAM' };
+    dimensions?: {
+      length: number;
+      width: number;
+      height: number;
+      unit: 'INCH' | 'FEET' | 'CENTIMETER' | 'METER';
+    };
+  };
+  inventoryItemGroupKeys?: string[];
+}
+
+export interface EbayInventoryItemGroup {
+  inventoryItemGroupKey?: string;
+  title?: string;
+  description?: string;
+  imageUrls?: string[];
+  aspects?: Record<string, string[]>;
+  variantSKUs: string[];
+  variesBy?: {
+    aspectsImageVariesBy?: string[];
+    specifications: Array<{ name: string; values: string[] }>;
+  };
+}
+
+export interface EbayOffer {
+  offerId?: string;
+  sku: string;
+  marketplaceId: string;
+  format: 'FIXED_PRICE' | 'AUCTION';
+  availableQuantity?: number;
+  categoryId?: string;
+  listingDescription?: string;
+  listingDuration?: string;
+  merchantLocationKey?: string;
+  storeCategoryNames?: string[];
+  includeCatalogProductDetails?: boolean;
+  pricingSummary?: {
+    price?: EbayAmount;
+    auctionStartPrice?: EbayAmount;
+    auctionReservePrice?: EbayAmount;
+    minimumAdvertisedPrice?: EbayAmount;
+  };
+  listingPolicies?: {
+    fulfillmentPolicyId?: string;
+    paymentPolicyId?: string;
+    returnPolicyId?: string;
+    bestOfferTerms?: {
+      bestOfferEnabled?: boolean;
+      autoAcceptPrice?: EbayAmount;
+      autoDeclinePrice?: EbayAmount;
+    };
+  };
+  listing?: { listingId?: string; listingStatus?: string };
+  status?: 'PUBLISHED' | 'UNPUBLISHED';
+}
+
+export interface EbayInventoryLocation {
+  merchantLocationKey: string;
+  name?: string;
+  merchantLocationStatus?: 'ENABLED' | 'DISABLED';
+  locationTypes?: string[];
+  location?: {
+    address?: {
+      addressLine1?: string;
+      city?: string;
+      stateOrProvince?: string;
+      postalCode?: string;
+      country?: string;
+    };
+  };
+}
+
+export interface EbayListingPolicies {
+  fulfillmentPolicyId?: string;
+  paymentPolicyId?: string;
+  returnPolicyId?: string;
+}
+
+export interface EbayPriceQuantityRequest {
+  sku: string;
+  shipToLocationAvailability?: { quantity: number };
+  offers?: Array<{ offerId: string; availableQuantity?: number; price?: EbayAmount }>;
+}
+
+export interface EbayPriceQuantityResponse {
+  sku?: string;
+  offerId?: string;
+  statusCode: number;
+  errors?: Array<{ errorId: number; message: string }>;
+  warnings?: Array<{ errorId: number; message: string }>;
+}
+
+export interface EbayFetchedData {
+  items: EbayInventoryItem[];
+  offersBySku: Record<string, EbayOffer[]>;
+  locations: EbayInventoryLocation[];
+}
+
+const INVENTORY_PAGE_SIZE = 100; // Max page size allowed by getInventoryItems
+const BULK_PRICE_QUANTITY_LIMIT = 25; // Max requests per bulkUpdatePriceQuantity call
+const TOKEN_EXPIRY_BUFFER_MS = 60 * 1000;
+const PUBLIC_KEY_CACHE_MS = 60 * 60 * 1000; // eBay asks integrators to cache notification keys for an hour
 
 @Injectable()
 export class EbayApiClient {
   private readonly logger = new Logger(EbayApiClient.name);
-  private axiosInstance: AxiosInstance;
+  private readonly axiosInstance: AxiosInstance;
+  // Access tokens minted from the stored refresh token, keyed by connection ID
+  private readonly accessTokens = new Map<
+    string,
+    { token: string; expiresAt: number }
+  >();
+  private applicationToken: { token: string; expiresAt: number } | null = null;
+  private readonly notificationKeys = new Map<
+    string,
+    { pem: string; digest: string; expiresAt: number }
+  >();
 
-  constructor(private readonly connectionsService: PlatformConnectionsService) {
-    this.axiosInstance = axios.create({ baseURL: 'https://api.sandbox.ebay.com' });
+  constructor(
+    private readonly connectionsService: PlatformConnectionsService,
+    private readonly configService: ConfigService,
+  ) {
+    this.axiosInstance = axios.create({
+      baseURL: this.configService.get<string>(
+        'EBAY_API_BASE_URL',
+        'https://api.sandbox.ebay.com',
+      ),
+    });
+  }
+
+  getMarketplaceId(connection: PlatformConnection): string {
+    return (
+      connection.PlatformSpecificData?.marketplaceId ||
+      this.configService.get<string>('EBAY_MARKETPLACE_ID', 'EBAY_US')
+    );
+  }
+
+  getCurrency(connection: PlatformConnection): string {
+    return (
+      connection.PlatformSpecificData?.currency ||
+      this.configService.get<string>('EBAY_CURRENCY', 'USD')
+    );
   }
 
   private async getAccessToken(connection: PlatformConnection): Promise<string> {
+    const cached = this.accessTokens.get(connection.Id);
+    if (cached && cached.expiresAt - TOKEN_EXPIRY_BUFFER_MS > Date.now()) {
+      return cached.token;
+    }
+
     const creds = await this.connectionsService.getDecryptedCredentials(connection);
-    const token = creds?.accessToken || creds?.access_token;
-    if (!token) throw new UnauthorizedException('Missing eBay access token');
+    const refreshToken = creds?.refreshToken || creds?.refresh_token;
+    if (!refreshToken) {
+      // Older connections may have stored a short-lived access token directly
+      const token = creds?.accessToken || creds?.access_token;
+      if (!token) throw new UnauthorizedException('Missing eBay refresh token');
+      return token;
+    }
+
+    const clientId = this.configService.get<string>('EBAY_CLIENT_ID');
+    const clientSecret = this.configService.get<string>('EBAY_CLIENT_SECRET');
+    if (!clientId || !clientSecret) {
+      throw new InternalServerErrorException('eBay OAuth not configured.');
+    }
+
+    const body = new URLSearchParams();
+    body.set('grant_type', 'refresh_token');
+    body.set('refresh_token', refreshToken);
+    const scopes = this.configService.get<string>('EBAY_SCOPES');
+    if (scopes) body.set('scope', scopes);
+
+    try {
+      const resp = await this.axiosInstance.post(
+        '/identity/v1/oauth2/token',
+        body.toString(),
+        {
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+          },
+        },
+      );
+      const token: string = resp.data?.access_token;
+      if (!token) throw new Error('Token response missing access_token');
+      const expiresInSec = Number(resp.data?.expires_in) || 7200;
+      this.accessTokens.set(connection.Id, {
+        token,
+        expiresAt: Date.now() + expiresInSec * 1000,
+      });
+      return token;
+    } catch (e: any) {
+      this.logger.error(
+        `eBay token refresh failed for connection ${connection.Id}: ${e?.response?.status} ${e?.message}`,
+      );
+      throw new UnauthorizedException('Could not refresh eBay access token');
+    }
+  }
+
+  /**
+   * Client-credentials token for application-level calls (e.g. Notification API public keys).
+   */
+  private async getApplicationAccessToken(): Promise<string> {
+    if (
+      this.applicationToken &&
+      this.applicationToken.expiresAt - TOKEN_EXPIRY_BUFFER_MS > Date.now()
+    ) {
+      return this.applicationToken.token;
+    }
+    const clientId = this.configService.get<string>('EBAY_CLIENT_ID');
+    const clientSecret = this.configService.get<string>('EBAY_CLIENT_SECRET');
+    if (!clientId || !clientSecret) {
+      throw new InternalServerErrorException('eBay OAuth not configured.');
+    }
+    const body = new URLSearchParams();
+    body.set('grant_type', 'client_credentials');
+    body.set('scope', 'https://api.ebay.com/oauth/api_scope');
+    const resp = await this.axiosInstance.post(
+      '/identity/v1/oauth2/token',
+      body.toString(),
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+        },
+      },
+    );
+    const token: string = resp.data?.access_token;
+    if (!token) {
+      throw new UnauthorizedException('eBay application token response missing access_token');
+    }
+    this.applicationToken = {
+      token,
+      expiresAt: Date.now() + (Number(resp.data?.expires_in) || 7200) * 1000,
+    };
     return token;
   }
 
-  async fetchAllRelevantData(connection: PlatformConnection): Promise<{ items: any[]; locations: any[] }> {
+  /**
+   * Verifies the `x-ebay-signature` header of a Notification API message.
+   * The header is base64 JSON ({ alg, kid, signature, digest }); the referenced
+   * public key is fetched from the Notification API and cached per key ID.
+   */
+  async verifyNotificationSignature(
+    rawBody: Buffer,
+    signatureHeader: string,
+  ): Promise<boolean> {
+    let decoded: { alg?: string; kid?: string; signature?: string; digest?: string };
+    try {
+      decoded = JSON.parse(Buffer.from(signatureHeader, 'base64').toString('utf8'));
+    } catch {
+      this.logger.warn('Malformed x-ebay-signature header');
+      return false;
+    }
+    if (!decoded?.kid || !decoded?.signature) return false;
+
+    let key = this.notificationKeys.get(decoded.kid);
+    if (!key || key.expiresAt < Date.now()) {
+      // Without the key the message can't be trusted; reject it rather than fail the webhook
+      try {
+        const token = await this.getApplicationAccessToken();
+        const resp = await this.axiosInstance.get(
+          `/commerce/notification/v1/public_key/${encodeURIComponent(decoded.kid)}`,
+          { headers: { Authorization: `Bearer ${token}` } },
+        );
+        key = {
+          pem: this.formatPublicKey(resp.data?.key),
+          digest: resp.data?.digest || decoded.digest || 'SHA1',
+          expiresAt: Date.now() + PUBLIC_KEY_CACHE_MS,
+        };
+      } catch (e: any) {
+        this.logger.error(
+          `Could not fetch eBay notification public key ${decoded.kid}: ${e?.response?.status ?? ''} ${e?.message}`,
+        );
+        return false;
+      }
+      this.notificationKeys.set(decoded.kid, key);
+    }
+
+    try {
+      return crypto
+        .createVerify(key.digest.toLowerCase())
+        .update(rawBody)
+        .verify(key.pem, decoded.signature, 'base64');
+    } catch (e: any) {
+      this.logger.error(`eBay notification signature verification error: ${e?.message}`);
+      return false;
+    }
+  }
+
+  // eBay returns the PEM on a single line; crypto needs the header/footer on their own lines
+  private formatPublicKey(key: string): string {
+    if (!key) throw new InternalServerErrorException('eBay public key response missing key');
+    const body = key
+      .replace('-----BEGIN PUBLIC KEY-----', '')
+      .replace('-----END PUBLIC KEY-----', '')
+      .replace(/\s+/g, '');
+    return `-----BEGIN PUBLIC KEY-----\n${body}\n-----END PUBLIC KEY-----`;
+  }
+
+  private async request<T = any>(
+    connection: PlatformConnection,
+    config: AxiosRequestConfig,
+  ): Promise<T> {
     const accessToken = await this.getAccessToken(connection);
     try {
-      // Inventory items (read-only first). Consider pagination in a loop.
-      const resp = await this.axiosInstance.get('/sell/inventory/v1/inventory_item', {
-        headers: { Authorization: `Bearer ${accessToken}` },
-        params: { limit: 100 },
+      const resp = await this.axiosInstance.request<T>({
+        ...config,
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+          'Content-Language': 'en-US',
+          Accept: 'application/json',
+          ...(config.headers || {}),
+        },
       });
-      const items = resp.data?.inventoryItems || [];
-      return { items, locations: [] };
+      return resp.data;
     } catch (e: any) {
-      this.logger.error(`eBay fetch failed: ${e?.response?.status} ${e?.message}`);
+      if (e?.response?.status === 401) {
+        this.accessTokens.delete(connection.Id);
+      }
+      const ebayErrors = e?.response?.data?.errors;
+      const detail = Array.isArray(ebayErrors)
+        ? ebayErrors.map((err: any) => `${err.errorId}: ${err.message}`).join('; ')
+        : e?.message;
+      this.logger.error(
+        `eBay ${config.method?.toUpperCase() || 'GET'} ${config.url} failed: ${e?.response?.status} ${detail}`,
+      );
+      const error: any = new Error(`eBay API error (${e?.response?.status}): ${detail}`);
+      error.status = e?.response?.status;
+      error.ebayErrors = ebayErrors;
+      throw error;
+    }
+  }
+
+  // --- Read ---
+
+  async fetchAllRelevantData(connection: PlatformConnection): Promise<EbayFetchedData> {
+    try {
+      const items = await this.getAllInventoryItems(connection);
+      const offersBySku: Record<string, EbayOffer[]> = {};
+      for (const item of items) {
+        if (!item.sku) continue;
+        offersBySku[item.sku] = await this.getOffersForSku(connection, item.sku);
+      }
+      const locations = await this.getInventoryLocations(connection);
+      this.logger.log(
+        `Fetched ${items.length} eBay inventory items and ${locations.length} locations for connection ${connection.Id}`,
+      );
+      return { items, offersBySku, locations };
+    } catch (e: any) {
+      this.logger.error(`eBay fetch failed: ${e?.status} ${e?.message}`);
       throw new InternalServerErrorException('eBay fetchAllRelevantData failed');
     }
   }
-}
 
+  async getAllInventoryItems(connection: PlatformConnection): Promise<EbayInventoryItem[]> {
+    const items: EbayInventoryItem[] = [];
+    let offset = 0;
+    let total = Infinity;
+    while (offset < total) {
+      const page = await this.request<{
+        total?: number;
+        next?: string;
+        inventoryItems?: EbayInventoryItem[];
+      }>(connection, {
+        method: 'GET',
+        url: '/sell/inventory/v1/inventory_item',
+        params: { limit: INVENTORY_PAGE_SIZE, offset },
+      });
+      const pageItems = page?.inventoryItems || [];
+      items.push(...pageItems);
+      total = page?.total ?? items.length;
+      if (!page?.next || pageItems.length === 0) break;
+      offset += INVENTORY_PAGE_SIZE;
+    }
+    return items;
+  }
 
+  async getInventoryItem(
+    connection: PlatformConnection,
+    sku: string,
+  ): Promise<EbayInventoryItem | null> {
+    try {
+      return await this.request<EbayInventoryItem>(connection, {
+        method: 'GET',
+        url: `/sell/inventory/v1/inventory_item/${encodeURIComponent(sku)}`,
+      });
+    } catch (e: any) {
+      if (e?.status === 404) return null;
+      throw e;
+    }
+  }
 
+  async getInventoryItemGroup(
+    connection: PlatformConnection,
+    groupKey: string,
+  ): Promise<EbayInventoryItemGroup | null> {
+    try {
+      return await this.request<EbayInventoryItemGroup>(connection, {
+        method: 'GET',
+        url: `/sell/inventory/v1/inventory_item_group/${encodeURIComponent(groupKey)}`,
+      });
+    } catch (e: any) {
+      if (e?.status === 404) return null;
+      throw e;
+    }
+  }
 
+  async getOffersForSku(connection: PlatformConnection, sku: string): Promise<EbayOffer[]> {
+    try {
+      const offers: EbayOffer[] = [];
+      let offset = 0;
+      let total = Infinity;
+      while (offset < total) {
+        const page = await this.request<{ total?: number; offers?: EbayOffer[] }>(
+          connection,
+          {
+            method: 'GET',
+            url: '/sell/inventory/v1/offer',
+            params: { sku, limit: INVENTORY_PAGE_SIZE, offset },
+          },
+        );
+        const pageOffers = page?.offers || [];
+        offers.push(...pageOffers);
+        total = page?.total ?? offers.length;
+        if (pageOffers.length === 0) break;
+        offset += INVENTORY_PAGE_SIZE;
+      }
+      return offers;
+    } catch (e: any) {
+      // eBay answers 404 (errorId 25713) when a SKU has no offers yet
+      if (e?.status === 404) return [];
+      throw e;
+    }
+  }
 
+  async getInventoryLocations(
+    connection: PlatformConnection,
+  ): Promise<EbayInventoryLocation[]> {
+    const locations: EbayInventoryLocation[] = [];
+    let offset = 0;
+    let total = Infinity;
+    while (offset < total) {
+      const page = await this.request<{
+        total?: number;
+        locations?: EbayInventoryLocation[];
+      }>(connection, {
+        method: 'GET',
+        url: '/sell/inventory/v1/location',
+        params: { limit: INVENTORY_PAGE_SIZE, offset },
+      });
+      const pageLocations = page?.locations || [];
+      locations.push(...pageLocations);
+      total = page?.total ?? locations.length;
+      if (pageLocations.length === 0) break;
+      offset += INVENTORY_PAGE_SIZE;
+    }
+    return locations;
+  }
 
+  /**
+   * Resolves the seller's business policies for a marketplace, preferring the
+   * IDs stored on the connection and falling back to the first policy of each kind.
+   */
+  async getListingPolicies(connection: PlatformConnection): Promise<EbayListingPolicies> {
+    const stored: EbayListingPolicies = connection.PlatformSpecificData?.listingPolicies || {};
+    if (stored.fulfillmentPolicyId && stored.paymentPolicyId && stored.returnPolicyId) {
+      return stored;
+    }
+    const marketplaceId = this.getMarketplaceId(connection);
+    const fetchFirst = async (kind: string, listKey: string, idKey: string) => {
+      try {
+        const resp = await this.request<Record<string, any[]>>(connection, {
+          method: 'GET',
+          url: `/sell/account/v1/${kind}`,
+          params: { marketplace_id: marketplaceId },
+        });
+        return resp?.[listKey]?.[0]?.[idKey] as string | undefined;
+      } catch (e: any) {
+        this.logger.warn(`Could not load eBay ${kind} for ${marketplaceId}: ${e?.message}`);
+        return undefined;
+      }
+    };
+    return {
+      fulfillmentPolicyId:
+        stored.fulfillmentPolicyId ||
+        (await fetchFirst('fulfillment_policy', 'fulfillmentPolicies', 'fulfillmentPolicyId')),
+      paymentPolicyId:
+        stored.paymentPolicyId ||
+        (await fetchFirst('payment_policy', 'paymentPolicies', 'paymentPolicyId')),
+      returnPolicyId:
+        stored.returnPolicyId ||
+        (await fetchFirst('return_policy', 'returnPolicies', 'returnPolicyId')),
+    };
+  }
 
+  /**
+   * Looks up the best leaf category for a free-text query (e.g. an AI category suggestion).
+   */
+  async suggestCategoryId(
+    connection: PlatformConnection,
+    query: string,
+  ): Promise<string | undefined> {
+    try {
+      const tree = await this.request<{ categoryTreeId?: string }>(connection, {
+        method: 'GET',
+        url: '/commerce/taxonomy/v1/get_default_category_tree_id',
+        params: { marketplace_id: this.getMarketplaceId(connection) },
+      });
+      if (!tree?.categoryTreeId) return undefined;
+      const suggestions = await this.request<{
+        categorySuggestions?: Array<{ category?: { categoryId?: string } }>;
+      }>(connection, {
+        method: 'GET',
+        url: `/commerce/taxonomy/v1/category_tree/${tree.categoryTreeId}/get_category_suggestions`,
+        params: { q: query },
+      });
+      return suggestions?.categorySuggestions?.[0]?.category?.categoryId;
+    } catch (e: any) {
+      this.logger.warn(`eBay category suggestion failed for "${query}": ${e?.message}`);
+      return undefined;
+    }
+  }
+
+  // --- Write ---
+
+  async createOrReplaceInventoryItem(
+    connection: PlatformConnection,
+    sku: string,
+    item: Omit<EbayInventoryItem, 'sku'>,
+  ): Promise<void> {
+    await this.request(connection, {
+      method: 'PUT',
+      url: `/sell/inventory/v1/inventory_item/${encodeURIComponent(sku)}`,
+      data: item,
+    });
+  }
+
+  async createOrReplaceInventoryItemGroup(
+    connection: PlatformConnection,
+    groupKey: string,
+    group: EbayInventoryItemGroup,
+  ): Promise<void> {
+    await this.request(connection, {
+      method: 'PUT',
+      url: `/sell/inventory/v1/inventory_item_group/${encodeURIComponent(groupKey)}`,
+      data: group,
+    });
+  }
+
+  async deleteInventoryItem(connection: PlatformConnection, sku: string): Promise<void> {
+    try {
+      await this.request(connection, {
+        method: 'DELETE',
+        url: `/sell/inventory/v1/inventory_item/${encodeURIComponent(sku)}`,
+      });
+    } catch (e: any) {
+      if (e?.status !== 404) throw e;
+    }
+  }
 
+  async createOffer(connection: PlatformConnection, offer: EbayOffer): Promise<string> {
+    const resp = await this.request<{ offerId: string }>(connection, {
+      method: 'POST',
+      url: '/sell/inventory/v1/offer',
+      data: offer,
+    });
+    return resp.offerId;
+  }
 
+  async updateOffer(
+    connection: PlatformConnection,
+    offerId: string,
+    offer: EbayOffer,
+  ): Promise<void> {
+    await this.request(connection, {
+      method: 'PUT',
+      url: `/sell/inventory/v1/offer/${offerId}`,
+      data: offer,
+    });
+  }
 
+  async publishOffer(connection: PlatformConnection, offerId: string): Promise<string> {
+    const resp = await this.request<{ listingId: string }>(connection, {
+      method: 'POST',
+      url: `/sell/inventory/v1/offer/${offerId}/publish`,
+    });
+    return resp.listingId;
+  }
 
+  async publishOfferByInventoryItemGroup(
+    connection: PlatformConnection,
+    groupKey: string,
+  ): Promise<string> {
+    const resp = await this.request<{ listingId: string }>(connection, {
+      method: 'POST',
+      url: '/sell/inventory/v1/offer/publish_by_inventory_item_group',
+      data: { inventoryItemGroupKey: groupKey, marketplaceId: this.getMarketplaceId(connection) },
+    });
+    return resp.listingId;
+  }
 
+  async withdrawOffer(connection: PlatformConnection, offerId: string): Promise<void> {
+    await this.request(connection, {
+      method: 'POST',
+      url: `/sell/inventory/v1/offer/${offerId}/withdraw`,
+    });
+  }
 
+  async withdrawOfferByInventoryItemGroup(
+    connection: PlatformConnection,
+    groupKey: string,
+  ): Promise<void> {
+    await this.request(connection, {
+      method: 'POST',
+      url: '/sell/inventory/v1/offer/withdraw_by_inventory_item_group',
+      data: { inventoryItemGroupKey: groupKey, marketplaceId: this.getMarketplaceId(connection) },
+    });
+  }
 
+  /**
+   * Pushes quantity (and optionally price) changes in batches of 25, the API maximum.
+   */
+  async bulkUpdatePriceQuantity(
+    connection: PlatformConnection,
+    requests: EbayPriceQuantityRequest[],
+  ): Promise<EbayPriceQuantityResponse[]> {
+    const responses: EbayPriceQuantityResponse[] = [];
+    for (let i = 0; i < requests.length; i += BULK_PRICE_QUANTITY_LIMIT) {
+      const chunk = requests.slice(i, i + BULK_PRICE_QUANTITY_LIMIT);
+      const resp = await this.request<{ responses?: EbayPriceQuantityResponse[] }>(
+        connection,
+        {
+          method: 'POST',
+          url: '/sell/inventory/v1/bulk_update_price_quantity',
+          data: { requests: chunk },
+        },
+      );
+      responses.push(...(resp?.responses || []));
+    }
+    return responses;
+  }
+}
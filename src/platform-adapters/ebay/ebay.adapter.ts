@@ -1,14 +1,36 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, InternalServerErrorException } from '@nestjs/common';
 import { BaseAdapter, BaseSyncLogic } from '../base-adapter.interface';
-import { EbayApiClient } from './ebay-api-client.service';
-import { EbayMapper } from './ebay.mapper';
-import { PlatformConnection } from '../../platform-connections/platform-connections.service';
+import { EbayApiClient, EbayFetchedData, EbayOffer, EbayPriceQuantityRequest } from './ebay-api-client.service';
+import { EbayMapper, EbayOfferContext } from './ebay.mapper';
+import { PlatformConnection, PlatformConnectionsService } from '../../platform-connections/platform-connections.service';
+import { ProductsService } from '../../canonical-data/products.service';
+import { InventoryService, CanonicalInventoryLevel } from '../../canonical-data/inventory.service';
+import { PlatformProductMappingsService, PlatformProductMapping } from '../../platform-product-mappings/platform-product-mappings.service';
+import { CanonicalProduct, CanonicalProductVariant } from '../shopify/shopify.mapper';
+import { Product, ProductVariant } from '../../common/types/supabase.types';
+import { Ebay } from '../../products/types/generate-job.types';
+import { SyncEventsService } from '../../sync-engine/sync-events.service';
+import { EchoSuppressionService } from '../../sync-engine/echo-suppression.service';
+import { ConflictResolutionService } from '../../sync-engine/conflict-resolution.service';
+
+// Notification topics that change a listing's available quantity
+const EBAY_INVENTORY_TOPICS = ['ITEM_SOLD', 'ITEM_OUT_OF_STOCK', 'ITEM_AVAILABILITY'];
 
 @Injectable()
 export class EbayAdapter implements BaseAdapter {
     private readonly logger = new Logger(EbayAdapter.name);
 
-    constructor(private readonly api: EbayApiClient, private readonly mapper: EbayMapper) {}
+    constructor(
+        private readonly api: EbayApiClient,
+        private readonly mapper: EbayMapper,
+        private readonly productsService: ProductsService,
+        private readonly inventoryService: InventoryService,
+        private readonly mappingsService: PlatformProductMappingsService,
+        private readonly connectionsService: PlatformConnectionsService,
+        private readonly syncEventsService: SyncEventsService,
+        private readonly echoSuppression: EchoSuppressionService,
+        private readonly conflictResolution: ConflictResolutionService,
+    ) {}
 
     getApiClient(connection: PlatformConnection): EbayApiClient {
         return this.api;
@@ -23,37 +45,549 @@ export class EbayAdapter implements BaseAdapter {
     }
 
     async syncFromPlatform(connection: PlatformConnection, userId: string): Promise<void> {
-        const data = await this.api.fetchAllRelevantData(connection);
-        const mapped = this.mapper.mapEbayDataToCanonical(data, userId, connection.Id);
-        this.logger.log(`Fetched ${mapped.canonicalProducts.length} products from eBay (read-only)`);
+        this.logger.log(`Starting eBay sync for connection ${connection.Id}, user ${userId}`);
+        try {
+            const data = await this.api.fetchAllRelevantData(connection);
+            if (!data || data.items.length === 0) {
+                this.logger.log('No inventory items fetched from eBay.');
+                return;
+            }
+            await this.saveEbayDataToCanonical(connection, userId, data);
+            this.logger.log(`eBay sync completed for connection ${connection.Id}`);
+        } catch (error) {
+            this.logger.error(`Error during eBay sync for connection ${connection.Id}: ${error.message}`, error.stack);
+            throw new InternalServerErrorException(`eBay sync failed: ${error.message}`);
+        }
     }
 
-    async createProduct(): Promise<{ platformProductId: string; platformVariantIds: Record<string, string> }> {
-        this.logger.warn('EbayAdapter.createProduct not implemented');
-        return { platformProductId: '', platformVariantIds: {} };
+    async createProduct(
+        connection: PlatformConnection,
+        canonicalProduct: CanonicalProduct,
+        canonicalVariants: CanonicalProductVariant[],
+        canonicalInventoryLevels: CanonicalInventoryLevel[],
+    ): Promise<{ platformProductId: string; platformVariantIds: Record<string, string> }> {
+        this.logger.log(`Starting eBay createProduct for canonical product: ${canonicalProduct.Title} (ID: ${canonicalProduct.Id}) on connection ${connection.Id}`);
+
+        const variants = canonicalVariants.filter(v => v.Sku && v.Sku.trim() !== '');
+        if (variants.length === 0) {
+            throw new InternalServerErrorException('eBay listings require at least one variant with a SKU.');
+        }
+
+        const { product, details } = await this.enrichProductForListing(canonicalProduct);
+        const context = await this.buildOfferContext(connection, product, details);
+        const isGroup = variants.length > 1;
+        const groupKey = isGroup ? this.getGroupKey(canonicalProduct) : undefined;
+        const platformVariantIds: Record<string, string> = {};
+        const offerIds: string[] = [];
+
+        for (const variant of variants) {
+            const quantity = this.resolveQuantity(variant.Id!, canonicalInventoryLevels, connection.Id);
+            await this.api.createOrReplaceInventoryItem(
+                connection,
+                variant.Sku!,
+                this.mapper.mapCanonicalToEbayInventoryItem(product, variant, quantity, details),
+            );
+            const offerId = await this.upsertOffer(connection, this.mapper.mapCanonicalToEbayOffer(variant, quantity, context, details));
+            offerIds.push(offerId);
+            platformVariantIds[variant.Id!] = variant.Sku!;
+        }
+
+        let listingId: string;
+        if (isGroup) {
+            await this.api.createOrReplaceInventoryItemGroup(
+                connection,
+                groupKey!,
+                this.mapper.mapCanonicalToEbayInventoryItemGroup(product, variants, details),
+            );
+            listingId = await this.api.publishOfferByInventoryItemGroup(connection, groupKey!);
+        } else {
+            listingId = await this.api.publishOffer(connection, offerIds[0]);
+        }
+
+        const platformProductId = groupKey || variants[0].Sku!;
+        this.logger.log(`eBay listing ${listingId} published for ${platformProductId} (${variants.length} SKU(s))`);
+        return { platformProductId, platformVariantIds };
     }
 
-    async updateProduct(): Promise<any> {
-        this.logger.warn('EbayAdapter.updateProduct not implemented');
-        return {};
+    async updateProduct(
+        connection: PlatformConnection,
+        existingMapping: PlatformProductMapping,
+        canonicalProduct: CanonicalProduct,
+        canonicalVariants: CanonicalProductVariant[],
+        canonicalInventoryLevels: CanonicalInventoryLevel[],
+    ): Promise<{ platformProductId: string; updatedVariantIds: string[]; createdVariantIds: string[]; deletedVariantIds: string[]; errors: string[] }> {
+        this.logger.log(`Starting eBay updateProduct for Platform Product ID: ${existingMapping.PlatformProductId} on connection ${connection.Id}`);
+        const results = {
+            platformProductId: existingMapping.PlatformProductId,
+            updatedVariantIds: [] as string[],
+            createdVariantIds: [] as string[],
+            deletedVariantIds: [] as string[],
+            errors: [] as string[],
+        };
+
+        const { product, details } = await this.enrichProductForListing(canonicalProduct);
+        const context = await this.buildOfferContext(connection, product, details);
+        const isGroup = existingMapping.PlatformProductId !== existingMapping.PlatformVariantId;
+        const unpublishedOfferIds: string[] = [];
+
+        for (const variant of canonicalVariants) {
+            if (!variant.Sku) {
+                results.errors.push(`Skipped: canonical variant ${variant.Id} has no SKU.`);
+                continue;
+            }
+            try {
+                const quantity = this.resolveQuantity(variant.Id!, canonicalInventoryLevels, connection.Id);
+                await this.api.createOrReplaceInventoryItem(
+                    connection,
+                    variant.Sku,
+                    this.mapper.mapCanonicalToEbayInventoryItem(product, variant, quantity, details),
+                );
+
+                const offerPayload = this.mapper.mapCanonicalToEbayOffer(variant, quantity, context, details);
+                const existingOffer = await this.findOffer(connection, variant.Sku, context.marketplaceId);
+                if (existingOffer?.offerId) {
+                    await this.api.updateOffer(connection, existingOffer.offerId, offerPayload);
+                    if (existingOffer.status !== 'PUBLISHED') unpublishedOfferIds.push(existingOffer.offerId);
+                    results.updatedVariantIds.push(variant.Sku);
+                } else {
+                    unpublishedOfferIds.push(await this.api.createOffer(connection, offerPayload));
+                    results.createdVariantIds.push(variant.Sku);
+                }
+            } catch (error) {
+                const errorMsg = `Failed to update eBay SKU ${variant.Sku} (Canonical: ${variant.Id}): ${error.message}`;
+                this.logger.error(errorMsg);
+                results.errors.push(errorMsg);
+            }
+        }
+
+        try {
+            if (isGroup) {
+                const skus = canonicalVariants.filter(v => v.Sku);
+                await this.api.createOrReplaceInventoryItemGroup(
+                    connection,
+                    existingMapping.PlatformProductId,
+                    this.mapper.mapCanonicalToEbayInventoryItemGroup(product, skus, details),
+                );
+                // Re-publishing a group applies group-level changes and lists any new variations
+                await this.api.publishOfferByInventoryItemGroup(connection, existingMapping.PlatformProductId);
+            } else {
+                for (const offerId of unpublishedOfferIds) {
+                    await this.api.publishOffer(connection, offerId);
+                }
+            }
+        } catch (error) {
+            const errorMsg = `Failed to publish eBay listing for ${existingMapping.PlatformProductId}: ${error.message}`;
+            this.logger.error(errorMsg);
+            results.errors.push(errorMsg);
+        }
+
+        this.logger.log(`eBay updateProduct finished for ${results.platformProductId}. Updated: ${results.updatedVariantIds.length}, created: ${results.createdVariantIds.length}, errors: ${results.errors.length}`);
+        return results;
     }
 
-    async deleteProduct(): Promise<void> {
-        this.logger.warn('EbayAdapter.deleteProduct not implemented');
+    async deleteProduct(connection: PlatformConnection, existingMapping: PlatformProductMapping): Promise<void> {
+        const sku = existingMapping.PlatformVariantId || existingMapping.PlatformSku;
+        this.logger.log(`Starting eBay deleteProduct for mapping ${existingMapping.Id} (SKU: ${sku}) on connection ${connection.Id}`);
+        if (!sku) {
+            throw new InternalServerErrorException(`SKU missing in mapping ${existingMapping.Id}. Cannot delete eBay listing.`);
+        }
+
+        const isGroup = existingMapping.PlatformProductId && existingMapping.PlatformProductId !== sku;
+        if (isGroup) {
+            try {
+                await this.api.withdrawOfferByInventoryItemGroup(connection, existingMapping.PlatformProductId);
+            } catch (error) {
+                // Other variations of the same group may already have withdrawn the listing
+                this.logger.warn(`Could not withdraw eBay group ${existingMapping.PlatformProductId}: ${error.message}`);
+            }
+        } else {
+            const offers = await this.api.getOffersForSku(connection, sku);
+            for (const offer of offers.filter(o => o.status === 'PUBLISHED' && o.offerId)) {
+                await this.api.withdrawOffer(connection, offer.offerId!);
+                this.logger.log(`Withdrew eBay offer ${offer.offerId} (listing ${offer.listing?.listingId}) for SKU ${sku}`);
+            }
+        }
+
+        // Deleting the inventory item also removes its (now withdrawn) offers
+        await this.api.deleteInventoryItem(connection, sku);
+        this.logger.log(`Deleted eBay inventory item for SKU ${sku}`);
     }
 
-    async updateInventoryLevels(): Promise<{ successCount: number; failureCount: number; errors: string[] }> {
-        this.logger.warn('EbayAdapter.updateInventoryLevels not implemented');
-        return { successCount: 0, failureCount: 0, errors: [] };
+    async updateInventoryLevels(
+        connection: PlatformConnection,
+        inventoryUpdates: Array<{ mapping: PlatformProductMapping; level: CanonicalInventoryLevel }>,
+    ): Promise<{ successCount: number; failureCount: number; errors: string[] }> {
+        this.logger.log(`Starting eBay updateInventoryLevels for ${inventoryUpdates.length} items on connection ${connection.Id}`);
+        const errors: string[] = [];
+        const marketplaceId = this.api.getMarketplaceId(connection);
+
+        // eBay tracks a single ship-to quantity per SKU, so collapse per-location levels
+        const quantitiesBySku = new Map<string, { mapping: PlatformProductMapping; quantity: number }>();
+        for (const { mapping, level } of inventoryUpdates) {
+            const sku = mapping.PlatformVariantId || mapping.PlatformSku;
+            if (!sku) {
+                errors.push(`SKU missing for mapping with ProductVariantId ${mapping.ProductVariantId}. Skipping inventory update.`);
+                continue;
+            }
+            const entry = quantitiesBySku.get(sku) || { mapping, quantity: 0 };
+            entry.quantity += Math.max(0, level.Quantity || 0);
+            quantitiesBySku.set(sku, entry);
+        }
+
+        const requests: EbayPriceQuantityRequest[] = [];
+        for (const [sku, { mapping, quantity }] of quantitiesBySku.entries()) {
+            const request: EbayPriceQuantityRequest = { sku, shipToLocationAvailability: { quantity } };
+            try {
+                const offerId = await this.resolveOfferId(connection, mapping, sku, marketplaceId);
+                if (offerId) request.offers = [{ offerId, availableQuantity: quantity }];
+            } catch (error) {
+                this.logger.warn(`Could not resolve eBay offer for SKU ${sku}: ${error.message}`);
+            }
+            requests.push(request);
+        }
+
+        let successCount = 0;
+        let failureCount = errors.length;
+        if (requests.length > 0) {
+            try {
+                const responses = await this.api.bulkUpdatePriceQuantity(connection, requests);
+                const failedSkus = new Set<string>();
+                for (const resp of responses) {
+                    if (resp.statusCode >= 300 && resp.sku && !failedSkus.has(resp.sku)) {
+                        failedSkus.add(resp.sku);
+                        errors.push(`eBay rejected quantity update for SKU ${resp.sku}: ${resp.errors?.map(e => e.message).join('; ') || resp.statusCode}`);
+                    }
+                }
+                failureCount += failedSkus.size;
+                successCount = requests.length - failedSkus.size;
+            } catch (error) {
+                failureCount += requests.length;
+                errors.push(`eBay bulk quantity update failed: ${error.message}`);
+            }
+        }
+
+        this.logger.log(`eBay updateInventoryLevels completed. Success: ${successCount}, Failures: ${failureCount}`);
+        if (failureCount > 0) {
+            this.logger.warn(`Errors during eBay inventory update: ${JSON.stringify(errors)}`);
+        }
+        return { successCount, failureCount, errors };
     }
 
-    async processWebhook(): Promise<void> {
-        this.logger.warn('EbayAdapter.processWebhook not implemented');
+    async processWebhook(
+        connection: PlatformConnection,
+        payload: any,
+        headers: Record<string, string>,
+        webhookId?: string,
+    ): Promise<void> {
+        const logPrefix = webhookId ? `[${webhookId}]` : '';
+        const topic: string | undefined = payload?.metadata?.topic;
+        const data = payload?.notification?.data || {};
+        this.logger.log(`${logPrefix} EbayAdapter: Processing ${topic} notification ${payload?.notification?.notificationId} on connection ${connection.Id}`);
+
+        if (topic === 'MARKETPLACE_ACCOUNT_DELETION') {
+            // eBay requires us to purge the user's data; drop the connection and its stored credentials
+            this.logger.warn(`${logPrefix} eBay account ${data.userId || data.username} requested deletion. Removing connection ${connection.Id}.`);
+            await this.connectionsService.disconnectConnection(connection.Id, connection.UserId);
+            await this.connectionsService.deleteConnection(connection.Id, connection.UserId);
+            return;
+        }
+
+        if (!topic || !EBAY_INVENTORY_TOPICS.includes(topic)) {
+            this.logger.warn(`${logPrefix} EbayAdapter received unhandled notification topic: ${topic}`);
+            return;
+        }
+
+        const skus = new Set<string>();
+        const lineItems: any[] = Array.isArray(data.lineItems) ? data.lineItems : [data];
+        for (const lineItem of lineItems) {
+            if (lineItem?.sku) {
+                skus.add(String(lineItem.sku));
+                continue;
+            }
+            const listingId = lineItem?.listingId || lineItem?.itemId;
+            if (!listingId) continue;
+            const mappings = await this.mappingsService.getMappingsByEbayListingId(connection.Id, String(listingId));
+            for (const m of mappings) {
+                if (m.PlatformVariantId) skus.add(m.PlatformVariantId);
+            }
+        }
+
+        if (skus.size === 0) {
+            this.logger.warn(`${logPrefix} eBay ${topic} notification did not reference any known SKU or listing. Skipping.`);
+            return;
+        }
+
+        for (const sku of skus) {
+            const soldQuantity = Number(lineItems.find(li => li?.sku === sku)?.quantity ?? lineItems.find(li => li?.sku === sku)?.quantitySold);
+            await this.handleInventoryChange(connection, sku, topic, Number.isFinite(soldQuantity) ? soldQuantity : undefined, logPrefix, webhookId);
+        }
     }
 
-    async syncSingleProductFromPlatform(): Promise<void> {
-        this.logger.warn('EbayAdapter.syncSingleProductFromPlatform not implemented');
+    async syncSingleProductFromPlatform(connection: PlatformConnection, platformProductId: string, userId: string): Promise<void> {
+        this.logger.log(`Syncing single eBay product ${platformProductId} for connection ${connection.Id}`);
+        const group = await this.api.getInventoryItemGroup(connection, platformProductId);
+        const skus = group?.variantSKUs?.length ? group.variantSKUs : [platformProductId];
+
+        const data: EbayFetchedData = { items: [], offersBySku: {}, locations: [] };
+        for (const sku of skus) {
+            const item = await this.api.getInventoryItem(connection, sku);
+            if (!item) {
+                this.logger.warn(`eBay inventory item ${sku} not found. Skipping.`);
+                continue;
+            }
+            data.items.push({ ...item, sku, inventoryItemGroupKeys: group ? [platformProductId] : item.inventoryItemGroupKeys });
+            data.offersBySku[sku] = await this.api.getOffersForSku(connection, sku);
+        }
+
+        if (data.items.length === 0) {
+            this.logger.warn(`No eBay inventory items found for ${platformProductId}.`);
+            return;
+        }
+        await this.saveEbayDataToCanonical(connection, userId, data);
     }
-}
 
+    // --- Helpers ---
+
+    private async saveEbayDataToCanonical(connection: PlatformConnection, userId: string, data: EbayFetchedData): Promise<void> {
+        const { canonicalProducts, canonicalVariants, canonicalInventoryLevels } =
+            this.mapper.mapEbayDataToCanonical(data, userId, connection.Id);
+        const allInventoryToSave: CanonicalInventoryLevel[] = [];
+
+        for (const cProduct of canonicalProducts) {
+            const platformProductId = cProduct.Id!.replace('ebay-prod-', '');
+            let savedProduct: Product | null = null;
+            const existingMapping = await this.mappingsService.getMappingByPlatformId(connection.Id, platformProductId);
+            if (existingMapping?.ProductVariantId) {
+                const associatedVariant = await this.productsService.getVariantById(existingMapping.ProductVariantId);
+                if (associatedVariant) {
+                    savedProduct = await this.productsService.getProductById(associatedVariant.ProductId);
+                }
+            }
+            if (!savedProduct) {
+                savedProduct = await this.productsService.saveProduct({ UserId: userId, IsArchived: cProduct.IsArchived });
+            }
+            if (!savedProduct) {
+                this.logger.error(`Failed to save or find product for eBay item ${platformProductId}. Skipping variants.`);
+                continue;
+            }
+
+            const productVariants = canonicalVariants.filter(cv => cv.ProductId === cProduct.Id);
+            const rows = productVariants.map(cv => ({
+                ProductId: savedProduct.Id,
+                UserId: userId,
+                Sku: cv.Sku!,
+                Barcode: cv.Barcode,
+                Title: cv.Title,
+                Description: cv.Description,
+                Price: cv.Price,
+                Weight: cv.Weight,
+                WeightUnit: cv.WeightUnit,
+                Options: cv.Options,
+                RequiresShipping: true,
+                IsTaxable: true,
+            })) as Array<Omit<ProductVariant, 'Id' | 'CreatedAt' | 'UpdatedAt'>>;
+            // Variants sssync already has only take the values the connection's conflict rules accept
+            for (const [i, cv] of productVariants.entries()) {
+                Object.assign(rows[i], await this.conflictResolution.reconcileIncomingVariant(connection, platformProductId, cv.Sku!, cv, cProduct.ImageUrls));
+            }
+            const savedVariants = await this.productsService.saveVariants(rows);
 
+            for (const [i, cv] of productVariants.entries()) {
+                const savedVariant = savedVariants.find(sv => sv.Sku === rows[i].Sku);
+                if (!savedVariant) {
+                    this.logger.warn(`Could not find saved variant for eBay SKU ${cv.Sku}`);
+                    continue;
+                }
+
+                const mappingData: Omit<PlatformProductMapping, 'Id' | 'CreatedAt' | 'UpdatedAt'> = {
+                    PlatformConnectionId: connection.Id,
+                    ProductVariantId: savedVariant.Id,
+                    PlatformProductId: platformProductId,
+                    PlatformVariantId: cv.Sku,
+                    PlatformSku: cv.Sku,
+                    PlatformSpecificData: cv.PlatformSpecificData,
+                    LastSyncedAt: new Date().toISOString(),
+                    SyncStatus: 'Success',
+                    IsEnabled: true,
+                };
+                const existingVariantMapping = await this.mappingsService.getMappingByPlatformIdentifiers(connection.Id, platformProductId, cv.Sku!);
+                if (existingVariantMapping) {
+                    await this.mappingsService.updateMapping(existingVariantMapping.Id, mappingData);
+                } else {
+                    await this.mappingsService.createMapping(mappingData);
+                }
+
+                for (const level of canonicalInventoryLevels.filter(l => l.ProductVariantId === cv.Id)) {
+                    allInventoryToSave.push({ ...level, ProductVariantId: savedVariant.Id, PlatformConnectionId: connection.Id });
+                }
+            }
+        }
+
+        if (allInventoryToSave.length > 0) {
+            await this.inventoryService.saveBulkInventoryLevels(allInventoryToSave);
+            this.logger.log(`Saved ${allInventoryToSave.length} eBay inventory levels for connection ${connection.Id}`);
+        }
+    }
+
+    /**
+     * Re-reads the SKU's ship-to quantity from eBay (the source of truth after a sale),
+     * records it canonically and emits an inventory sync event for the other channels.
+     */
+    private async handleInventoryChange(
+        connection: PlatformConnection,
+        sku: string,
+        topic: string,
+        soldQuantity: number | undefined,
+        logPrefix: string,
+        webhookId?: string,
+    ): Promise<void> {
+        const mapping = await this.mappingsService.getMappingByPlatformVariantIdAndConnection(sku, connection.Id);
+        if (!mapping?.ProductVariantId) {
+            this.logger.warn(`${logPrefix} No mapping found for eBay SKU ${sku} from ${topic} notification. Cannot update canonical inventory.`);
+            return;
+        }
+
+        const existingLevels = (await this.inventoryService.getInventoryLevelsForVariant(mapping.ProductVariantId))
+            .filter(l => l.PlatformConnectionId === connection.Id);
+        const currentLevel = existingLevels[0];
+
+        let newQuantity: number | undefined;
+        try {
+            const item = await this.api.getInventoryItem(connection, sku);
+            newQuantity = item?.availability?.shipToLocationAvailability?.quantity;
+        } catch (error) {
+            this.logger.warn(`${logPrefix} Could not read eBay quantity for SKU ${sku}: ${error.message}`);
+        }
+        if (newQuantity === undefined && topic === 'ITEM_OUT_OF_STOCK') {
+            newQuantity = 0;
+        }
+        if (newQuantity === undefined && soldQuantity !== undefined && currentLevel) {
+            newQuantity = Math.max(0, currentLevel.Quantity - soldQuantity);
+        }
+        if (newQuantity === undefined) {
+            this.logger.warn(`${logPrefix} Could not determine new quantity for eBay SKU ${sku}. Skipping.`);
+            return;
+        }
+
+        const locationId = currentLevel?.PlatformLocationId || null;
+        const echo = this.echoSuppression.findInventoryEcho(mapping, locationId, newQuantity);
+        if (echo) {
+            this.logger.log(`${logPrefix} eBay quantity ${newQuantity} for SKU ${sku} was set by sssync (change set ${echo.changeSetId}). Ignoring echo.`);
+            return;
+        }
+        await this.inventoryService.updateLevel({
+            ProductVariantId: mapping.ProductVariantId,
+            PlatformConnectionId: connection.Id,
+            PlatformLocationId: locationId,
+            Quantity: newQuantity,
+            LastPlatformUpdateAt: new Date().toISOString(),
+        });
+        this.logger.log(`${logPrefix} Updated canonical inventory for variant ${mapping.ProductVariantId} (eBay SKU ${sku}) to ${newQuantity}`);
+
+        const shouldPropagateInventory = (connection.SyncRules || {}).propagateInventory !== false;
+        if (shouldPropagateInventory) {
+            this.syncEventsService.emitInventorySyncEvent({
+                type: 'INVENTORY_UPDATED',
+                variantId: mapping.ProductVariantId,
+                userId: connection.UserId,
+                sourceConnectionId: connection.Id,
+                sourcePlatform: 'ebay',
+                locationId: locationId || undefined,
+                newQuantity,
+                webhookId,
+            });
+        }
+    }
+
+    /**
+     * Fills in product images and the latest AI-generated eBay listing details
+     * (category, condition, item specifics, listing format) for a canonical product.
+     */
+    private async enrichProductForListing(canonicalProduct: CanonicalProduct): Promise<{ product: CanonicalProduct; details?: Partial<Ebay> }> {
+        const product: CanonicalProduct = { ...canonicalProduct };
+        let details: Partial<Ebay> | undefined = canonicalProduct.PlatformSpecificData?.ebay;
+        if (!canonicalProduct.Id) return { product, details };
+
+        try {
+            if (!product.ImageUrls?.length) {
+                product.ImageUrls = await this.productsService.getProductImageUrls(canonicalProduct.Id, canonicalProduct.UserId);
+            }
+            if (!details) {
+                details = (await this.productsService.getLatestGeneratedPlatformDetails<Ebay>(canonicalProduct.Id, 'ebay')) || undefined;
+            }
+        } catch (error) {
+            this.logger.warn(`Could not load listing details for product ${canonicalProduct.Id}: ${error.message}`);
+        }
+        return { product, details };
+    }
+
+    private async buildOfferContext(connection: PlatformConnection, product: CanonicalProduct, details?: Partial<Ebay>): Promise<EbayOfferContext> {
+        const settings = connection.PlatformSpecificData || {};
+        let categoryId: string | undefined;
+        if (details?.category && /^\d+$/.test(String(details.category).trim())) {
+            categoryId = String(details.category).trim();
+        } else {
+            categoryId = await this.api.suggestCategoryId(connection, details?.category || product.Title);
+        }
+
+        let merchantLocationKey: string | undefined = settings.merchantLocationKey;
+        if (!merchantLocationKey) {
+            const locations = await this.api.getInventoryLocations(connection);
+            merchantLocationKey = (locations.find(l => l.merchantLocationStatus !== 'DISABLED') || locations[0])?.merchantLocationKey;
+        }
+
+        return {
+            marketplaceId: this.api.getMarketplaceId(connection),
+            currency: this.api.getCurrency(connection),
+            categoryId: categoryId || settings.defaultCategoryId,
+            merchantLocationKey,
+            policies: await this.api.getListingPolicies(connection),
+        };
+    }
+
+    private async findOffer(connection: PlatformConnection, sku: string, marketplaceId: string): Promise<EbayOffer | undefined> {
+        const offers = await this.api.getOffersForSku(connection, sku);
+        return offers.find(o => o.marketplaceId === marketplaceId && o.format === 'FIXED_PRICE') ||
+            offers.find(o => o.marketplaceId === marketplaceId);
+    }
+
+    /** Creates the offer, or updates the existing one for the SKU so retried pushes stay idempotent. */
+    private async upsertOffer(connection: PlatformConnection, offer: EbayOffer): Promise<string> {
+        const existing = await this.findOffer(connection, offer.sku, offer.marketplaceId);
+        if (existing?.offerId) {
+            await this.api.updateOffer(connection, existing.offerId, offer);
+            return existing.offerId;
+        }
+        return this.api.createOffer(connection, offer);
+    }
+
+    private async resolveOfferId(connection: PlatformConnection, mapping: PlatformProductMapping, sku: string, marketplaceId: string): Promise<string | undefined> {
+        const stored = mapping.PlatformSpecificData?.offerId;
+        if (stored) return stored;
+        const offer = await this.findOffer(connection, sku, marketplaceId);
+        if (offer?.offerId && mapping.Id) {
+            await this.mappingsService.updateMapping(mapping.Id, {
+                PlatformSpecificData: { ...(mapping.PlatformSpecificData || {}), offerId: offer.offerId, listingId: offer.listing?.listingId, marketplaceId },
+            });
+        }
+        return offer?.offerId;
+    }
+
+    private getGroupKey(product: CanonicalProduct): string {
+        // eBay limits group keys to 50 characters
+        return `sssync-${product.Id}`.slice(0, 50);
+    }
+
+    /**
+     * eBay has a single ship-to quantity per SKU. Prefer levels recorded for this
+     * connection; otherwise use the largest per-connection total we know about.
+     */
+    private resolveQuantity(variantId: string, levels: CanonicalInventoryLevel[], connectionId: string): number {
+        const totals = new Map<string, number>();
+        for (const level of levels.filter(l => l.ProductVariantId === variantId)) {
+            totals.set(level.PlatformConnectionId, (totals.get(level.PlatformConnectionId) || 0) + (level.Quantity || 0));
+        }
+        if (totals.has(connectionId)) return totals.get(connectionId)!;
+        return totals.size > 0 ? Math.max(...totals.values()) : 0;
+    }
+}
@@ -1,54 +1,321 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { CanonicalProduct, CanonicalProductVariant } from '../shopify/shopify.mapper';
 import { CanonicalInventoryLevel } from '../../canonical-data/inventory.service';
+import { Ebay, EbayItemSpecifics } from '../../products/types/generate-job.types';
+import {
+  EbayFetchedData,
+  EbayInventoryItem,
+  EbayInventoryItemGroup,
+  EbayListingPolicies,
+  EbayOffer,
+} from './ebay-api-client.service';
+
+// eBay numeric condition IDs (as produced by AI generation) to Inventory API condition enums
+const EBAY_CONDITION_ENUMS: Record<number, string> = {
+  1000: 'NEW',
+  1500: 'NEW_OTHER',
+  1750: 'NEW_WITH_DEFECTS',
+  2000: 'CERTIFIED_REFURBISHED',
+  2010: 'EXCELLENT_REFURBISHED',
+  2020: 'VERY_GOOD_REFURBISHED',
+  2030: 'GOOD_REFURBISHED',
+  2500: 'SELLER_REFURBISHED',
+  2750: 'LIKE_NEW',
+  2990: 'PRE_OWNED_EXCELLENT',
+  3000: 'USED_EXCELLENT',
+  3010: 'PRE_OWNED_FAIR',
+  4000: 'USED_VERY_GOOD',
+  5000: 'USED_GOOD',
+  6000: 'USED_ACCEPTABLE',
+  7000: 'FOR_PARTS_OR_NOT_WORKING',
+};
+
+// Aspect names that don't follow the simple camelCase -> Title Case rule
+const EBAY_ASPECT_NAME_OVERRIDES: Partial<Record<keyof EbayItemSpecifics, string>> = {
+  mpn: 'MPN',
+  countryRegionOfManufacture: 'Country/Region of Manufacture',
+  tvShow: 'TV Show',
+  californiaProp65Warning: 'California Prop 65 Warning',
+  featuredPersonArtist: 'Featured Person/Artist',
+  originalLicensedReprint: 'Original/Licensed Reprint',
+  conventionEvent: 'Convention/Event',
+};
+
+const EBAY_WEIGHT_UNITS: Record<string, 'POUND' | 'KILOGRAM' | 'OUNCE' | 'GRAM'> = {
+  lb: 'POUND',
+  lbs: 'POUND',
+  pounds: 'POUND',
+  kg: 'KILOGRAM',
+  kilograms: 'KILOGRAM',
+  oz: 'OUNCE',
+  ounces: 'OUNCE',
+  g: 'GRAM',
+  grams: 'GRAM',
+};
+
+export interface EbayOfferContext {
+  marketplaceId: string;
+  currency: string;
+  categoryId?: string;
+  merchantLocationKey?: string;
+  policies?: EbayListingPolicies;
+}
 
 @Injectable()
 export class EbayMapper {
   private readonly logger = new Logger(EbayMapper.name);
 
+  /**
+   * The canonical "platform product ID" of an eBay item: its inventory item group
+   * key when it is part of a multi-variation listing, otherwise the SKU itself.
+   */
+  getPlatformProductId(item: Pick<EbayInventoryItem, 'sku' | 'inventoryItemGroupKeys'>): string {
+    return item.inventoryItemGroupKeys?.[0] || item.sku;
+  }
+
   mapEbayDataToCanonical(
-    ebayData: { items: any[]; locations: any[] },
+    ebayData: EbayFetchedData,
     userId: string,
     platformConnectionId: string
   ): { canonicalProducts: CanonicalProduct[]; canonicalVariants: CanonicalProductVariant[]; canonicalInventoryLevels: CanonicalInventoryLevel[] } {
-    const products: CanonicalProduct[] = [];
+    const products = new Map<string, CanonicalProduct>();
     const variants: CanonicalProductVariant[] = [];
     const inv: CanonicalInventoryLevel[] = [];
 
-    const items = ebayData.items || [];
-    for (const it of items) {
-      const sku = it?.sku || it?.skuValue || null;
-      const title = it?.product?.title || it?.productTitle || sku || 'Untitled';
-      const price = it?.offers?.[0]?.price?.value ? parseFloat(it.offers[0].price.value) : 0;
-      const canonicalProductId = `ebay-prod-${sku || it?.product?.epid || it?.product?.brand || Math.random().toString(36).slice(2)}`;
-      products.push({ Id: canonicalProductId, UserId: userId, IsArchived: false, Title: title });
+    for (const it of ebayData.items || []) {
+      const sku = it?.sku?.trim();
+      if (!sku) {
+        this.logger.warn('Skipping eBay inventory item without a SKU');
+        continue;
+      }
+      const offers = ebayData.offersBySku?.[sku] || [];
+      const offer = offers.find(o => o.status === 'PUBLISHED') || offers[0];
+      const title = it.product?.title || sku;
+      const platformProductId = this.getPlatformProductId(it);
+      const canonicalProductId = `ebay-prod-${platformProductId}`;
+
+      if (!products.has(canonicalProductId)) {
+        products.set(canonicalProductId, {
+          Id: canonicalProductId,
+          UserId: userId,
+          IsArchived: false,
+          Title: title,
+          Description: it.product?.description,
+          ImageUrls: it.product?.imageUrls || [],
+        });
+      }
+
+      const price = offer?.pricingSummary?.price?.value ? parseFloat(offer.pricingSummary.price.value) : 0;
+      const weight = it.packageWeightAndSize?.weight;
+      const canonicalVariantId = `ebay-var-${sku}`;
       variants.push({
-        Id: `ebay-var-${sku || Math.random().toString(36).slice(2)}`,
+        Id: canonicalVariantId,
         ProductId: canonicalProductId,
         UserId: userId,
         Sku: sku,
         Title: title,
-        Price: price,
-        Barcode: null,
+        Description: it.product?.description ?? null,
+        Price: isNaN(price) ? 0 : price,
+        Barcode: it.product?.upc?.[0] || it.product?.ean?.[0] || it.product?.isbn?.[0] || null,
+        Weight: weight?.value ?? null,
+        WeightUnit: weight?.unit ? this.mapEbayWeightUnitToCanonical(weight.unit) : null,
+        Options: platformProductId !== sku ? this.mapAspectsToOptions(it.product?.aspects) : null,
+        PlatformSpecificData: {
+          offerId: offer?.offerId,
+          listingId: offer?.listing?.listingId,
+          marketplaceId: offer?.marketplaceId,
+          condition: it.condition,
+          categoryId: offer?.categoryId,
+        },
       });
-      // Inventory is exposed via separate endpoints; skip for now
+
+      const quantity = it.availability?.shipToLocationAvailability?.quantity;
+      if (quantity !== undefined && quantity !== null) {
+        inv.push({
+          ProductVariantId: canonicalVariantId,
+          PlatformConnectionId: platformConnectionId,
+          PlatformLocationId: offer?.merchantLocationKey || null,
+          Quantity: quantity,
+        });
+      }
     }
 
-    this.logger.log(`Mapped ${products.length} eBay items to canonical`);
-    return { canonicalProducts: products, canonicalVariants: variants, canonicalInventoryLevels: inv };
+    this.logger.log(`Mapped ${variants.length} eBay items into ${products.size} canonical products`);
+    return { canonicalProducts: Array.from(products.values()), canonicalVariants: variants, canonicalInventoryLevels: inv };
   }
-}
 
+  mapCanonicalToEbayInventoryItem(
+    product: CanonicalProduct,
+    variant: CanonicalProductVariant,
+    quantity: number,
+    details?: Partial<Ebay>,
+  ): Omit<EbayInventoryItem, 'sku'> {
+    const specifics = details?.itemSpecifics;
+    const aspects = {
+      ...this.mapItemSpecificsToAspects(specifics),
+      ...this.mapOptionsToAspects(variant.Options),
+    };
+    const imageUrls = this.collectImageUrls(product, details);
+
+    const item: Omit<EbayInventoryItem, 'sku'> = {
+      condition: this.mapConditionIdToEnum(details?.conditionID),
+      product: {
+        title: (details?.title || variant.Title || product.Title || '').slice(0, 80),
+        description: details?.description || variant.Description || product.Description || undefined,
+        subtitle: details?.subtitle || undefined,
+        aspects: Object.keys(aspects).length > 0 ? aspects : undefined,
+        brand: specifics?.brand || specifics?.manufacturer || undefined,
+        mpn: specifics?.mpn || undefined,
+        upc: variant.Barcode ? [variant.Barcode] : undefined,
+        imageUrls: imageUrls.length > 0 ? imageUrls.slice(0, 24) : undefined,
+      },
+      availability: {
+        shipToLocationAvailability: { quantity: Math.max(0, Math.floor(quantity || 0)) },
+      },
+    };
 
+    const conditionDescription = details?.conditionDetails?.cardCondition;
+    if (conditionDescription) item.conditionDescription = conditionDescription;
 
+    const weightUnit = variant.WeightUnit ? EBAY_WEIGHT_UNITS[variant.WeightUnit.toLowerCase()] : undefined;
+    if (variant.Weight && weightUnit) {
+      item.packageWeightAndSize = { weight: { value: variant.Weight, unit: weightUnit } };
+    }
+    return item;
+  }
 
+  mapCanonicalToEbayInventoryItemGroup(
+    product: CanonicalProduct,
+    variants: CanonicalProductVariant[],
+    details?: Partial<Ebay>,
+  ): EbayInventoryItemGroup {
+    const specifications = new Map<string, Set<string>>();
+    for (const v of variants) {
+      for (const [name, value] of Object.entries(v.Options || {})) {
+        if (!value) continue;
+        if (!specifications.has(name)) specifications.set(name, new Set());
+        specifications.get(name)!.add(String(value));
+      }
+    }
+    const imageUrls = this.collectImageUrls(product, details);
+    return {
+      title: (details?.title || product.Title || '').slice(0, 80),
+      description: details?.description || product.Description || undefined,
+      imageUrls: imageUrls.length > 0 ? imageUrls.slice(0, 24) : undefined,
+      aspects: this.mapItemSpecificsToAspects(details?.itemSpecifics),
+      variantSKUs: variants.map(v => v.Sku).filter((s): s is string => !!s),
+      variesBy: {
+        specifications: Array.from(specifications.entries()).map(([name, values]) => ({
+          name,
+          values: Array.from(values),
+        })),
+      },
+    };
+  }
 
+  mapCanonicalToEbayOffer(
+    variant: CanonicalProductVariant,
+    quantity: number,
+    context: EbayOfferContext,
+    details?: Partial<Ebay>,
+  ): EbayOffer {
+    const listing = details?.listingDetails;
+    const isAuction = listing?.format === 'Auction';
+    const amount = (value: number | undefined | null) =>
+      value !== undefined && value !== null ? { value: Number(value).toFixed(2), currency: context.currency } : undefined;
 
+    const offer: EbayOffer = {
+      sku: variant.Sku!,
+      marketplaceId: context.marketplaceId,
+      format: isAuction ? 'AUCTION' : 'FIXED_PRICE',
+      availableQuantity: Math.max(0, Math.floor(quantity || 0)),
+      categoryId: context.categoryId,
+      merchantLocationKey: context.merchantLocationKey,
+      listingDescription: details?.description || variant.Description || undefined,
+      listingDuration: isAuction ? listing?.duration || 'DAYS_7' : 'GTC',
+      pricingSummary: isAuction
+        ? { auctionStartPrice: amount(listing?.startPrice ?? variant.Price), price: amount(listing?.buyItNowPrice) }
+        : { price: amount(variant.Price) },
+      listingPolicies: {
+        ...(context.policies || {}),
+      },
+    };
 
+    if (details?.storeCategory) offer.storeCategoryNames = [details.storeCategory];
+    if (listing?.bestOfferEnabled && !isAuction) {
+      offer.listingPolicies!.bestOfferTerms = {
+        bestOfferEnabled: true,
+        autoAcceptPrice: amount(listing.bestOfferAutoAcceptPrice),
+        autoDeclinePrice: amount(listing.minimumBestOfferPrice),
+      };
+    }
+    return offer;
+  }
 
+  mapConditionIdToEnum(conditionId?: number | string | null): string {
+    if (conditionId === undefined || conditionId === null || conditionId === '') return 'NEW';
+    if (typeof conditionId === 'string' && isNaN(Number(conditionId))) {
+      // Already an enum value (e.g. "USED_GOOD")
+      return conditionId.toUpperCase();
+    }
+    return EBAY_CONDITION_ENUMS[Number(conditionId)] || 'NEW';
+  }
 
+  mapItemSpecificsToAspects(specifics?: Partial<EbayItemSpecifics> | null): Record<string, string[]> {
+    const aspects: Record<string, string[]> = {};
+    if (!specifics) return aspects;
+    for (const [key, raw] of Object.entries(specifics)) {
+      if (raw === undefined || raw === null || raw === '') continue;
+      const values = (Array.isArray(raw) ? raw : [raw])
+        .map(v => (typeof v === 'boolean' ? (v ? 'Yes' : 'No') : String(v).trim()))
+        .filter(v => v.length > 0);
+      if (values.length === 0) continue;
+      const name = EBAY_ASPECT_NAME_OVERRIDES[key as keyof EbayItemSpecifics] || this.toAspectName(key);
+      aspects[name] = values;
+    }
+    return aspects;
+  }
 
+  private mapOptionsToAspects(options?: Record<string, string> | null): Record<string, string[]> {
+    const aspects: Record<string, string[]> = {};
+    for (const [name, value] of Object.entries(options || {})) {
+      if (value) aspects[name] = [String(value)];
+    }
+    return aspects;
+  }
 
+  private mapAspectsToOptions(aspects?: Record<string, string[]>): Record<string, string> | null {
+    if (!aspects) return null;
+    const options: Record<string, string> = {};
+    for (const [name, values] of Object.entries(aspects)) {
+      if (values?.length === 1) options[name] = values[0];
+    }
+    return Object.keys(options).length > 0 ? options : null;
+  }
 
+  private collectImageUrls(product: CanonicalProduct, details?: Partial<Ebay>): string[] {
+    const urls = [...(product.ImageUrls || [])];
+    const picUrl = details?.media?.picURL;
+    if (picUrl) {
+      for (const url of picUrl.split(/[|,]/).map(u => u.trim())) {
+        if (url && !urls.includes(url)) urls.push(url);
+      }
+    }
+    return urls.filter(u => /^https?:\/\//i.test(u));
+  }
 
+  private toAspectName(key: string): string {
+    const spaced = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+    return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+  }
 
+  private mapEbayWeightUnitToCanonical(unit: string): string {
+    switch (unit) {
+      case 'POUND': return 'lb';
+      case 'KILOGRAM': return 'kg';
+      case 'OUNCE': return 'oz';
+      case 'GRAM': return 'g';
+      default: return unit.toLowerCase();
+    }
+  }
+}
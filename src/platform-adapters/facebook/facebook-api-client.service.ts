@@ -0,0 +1,282 @@
+import {
+  Injectable,
+  Logger,
+  UnauthorizedException,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  PlatformConnection,
+  PlatformConnectionsService,
+} from '../../platform-connections/platform-connections.service';
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+
+// --- Meta Commerce (Catalog) API Interfaces ---
+
+export interface FacebookCatalogItemData {
+  id?: string; // retailer_id (our SKU) on CREATE/UPDATE/DELETE requests
+  title?: string;
+  description?: string;
+  availability?: 'in stock' | 'out of stock' | 'available for order';
+  condition?: 'new' | 'refurbished' | 'used';
+  price?: string; // e.g. "9.99 USD"
+  sale_price?: string;
+  link?: string;
+  image_link?: string;
+  additional_image_link?: string[];
+  brand?: string;
+  google_product_category?: string;
+  item_group_id?: string;
+  inventory?: number;
+  visibility?: 'published' | 'staging';
+  color?: string;
+  size?: string;
+  gtin?: string;
+}
+
+export interface FacebookBatchRequest {
+  method: 'CREATE' | 'UPDATE' | 'DELETE';
+  data: FacebookCatalogItemData;
+}
+
+export interface FacebookBatchResult {
+  handles: string[];
+  errors: Array<{ retailerId?: string; message: string }>;
+}
+
+export interface FacebookCatalogProduct {
+  id: string; // Meta product item ID
+  retailer_id: string;
+  retailer_product_group_id?: string;
+  name?: string;
+  description?: string;
+  price?: string; // Formatted, e.g. "$9.99"
+  currency?: string;
+  availability?: string;
+  inventory?: number;
+  condition?: string;
+  brand?: string;
+  url?: string;
+  image_url?: string;
+  additional_image_urls?: string[];
+  visibility?: string;
+  gtin?: string;
+}
+
+export interface FacebookFetchedData {
+  catalogId: string;
+  products: FacebookCatalogProduct[];
+}
+
+const CATALOG_PAGE_SIZE = 100;
+const ITEMS_BATCH_LIMIT = 1000; // Max requests per items_batch call
+const CATALOG_PRODUCT_FIELDS = [
+  'id',
+  'retailer_id',
+  'retailer_product_group_id',
+  'name',
+  'description',
+  'price',
+  'currency',
+  'availability',
+  'inventory',
+  'condition',
+  'brand',
+  'url',
+  'image_url',
+  'additional_image_urls',
+  'visibility',
+  'gtin',
+].join(',');
+
+@Injectable()
+export class FacebookApiClient {
+  private readonly logger = new Logger(FacebookApiClient.name);
+  private readonly axiosInstance: AxiosInstance;
+
+  constructor(
+    private readonly connectionsService: PlatformConnectionsService,
+    private readonly configService: ConfigService,
+  ) {
+    const version = this.configService.get<string>('FB_GRAPH_API_VERSION', 'v19.0');
+    this.axiosInstance = axios.create({
+      baseURL: `https://graph.facebook.com/${version}`,
+    });
+  }
+
+  private async getAccessToken(connection: PlatformConnection): Promise<string> {
+    const creds = await this.connectionsService.getDecryptedCredentials(connection);
+    const token = creds?.userAccessTokenLL || creds?.accessToken;
+    if (!token) throw new UnauthorizedException('Missing Facebook access token');
+    return token;
+  }
+
+  private async request<T = any>(
+    connection: PlatformConnection,
+    config: AxiosRequestConfig,
+  ): Promise<T> {
+    const accessToken = await this.getAccessToken(connection);
+    try {
+      const resp = await this.axiosInstance.request<T>({
+        ...config,
+        headers: { Authorization: `Bearer ${accessToken}`, ...(config.headers || {}) },
+      });
+      return resp.data;
+    } catch (e: any) {
+      const fbError = e?.response?.data?.error;
+      const detail = fbError ? `${fbError.type} (${fbError.code}): ${fbError.message}` : e?.message;
+      this.logger.error(
+        `Facebook ${config.method?.toUpperCase() || 'GET'} ${config.url} failed: ${e?.response?.status} ${detail}`,
+      );
+      const error: any = new Error(`Facebook API error (${e?.response?.status}): ${detail}`);
+      error.status = e?.response?.status;
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves the product catalog for a connection: the catalog stored on the
+   * connection, otherwise the first catalog owned by one of the user's businesses
+   * (persisted back onto the connection for subsequent calls).
+   */
+  async getCatalogId(connection: PlatformConnection): Promise<string> {
+    const stored = connection.PlatformSpecificData?.catalogId;
+    if (stored) return stored;
+
+    const businesses = await this.request<{ data?: Array<{ id: string }> }>(connection, {
+      method: 'GET',
+      url: '/me/businesses',
+      params: { fields: 'id,name' },
+    });
+    for (const business of businesses?.data || []) {
+      const catalogs = await this.request<{ data?: Array<{ id: string; name?: string }> }>(
+        connection,
+        { method: 'GET', url: `/${business.id}/owned_product_catalogs`, params: { fields: 'id,name' } },
+      );
+      const catalogId = catalogs?.data?.[0]?.id;
+      if (catalogId) {
+        connection.PlatformSpecificData = {
+          ...(connection.PlatformSpecificData || {}),
+          catalogId,
+          businessId: business.id,
+        };
+        await this.connectionsService.updateConnectionData(connection.Id, connection.UserId, {
+          PlatformSpecificData: connection.PlatformSpecificData,
+        });
+        this.logger.log(`Using Facebook catalog ${catalogId} for connection ${connection.Id}`);
+        return catalogId;
+      }
+    }
+    throw new InternalServerErrorException(
+      'No Facebook product catalog found for this connection. Create a catalog in Commerce Manager first.',
+    );
+  }
+
+  async fetchAllRelevantData(connection: PlatformConnection): Promise<FacebookFetchedData> {
+    const catalogId = await this.getCatalogId(connection);
+    const products = await this.getCatalogProducts(connection, catalogId);
+    this.logger.log(`Fetched ${products.length} Facebook catalog items for connection ${connection.Id}`);
+    return { catalogId, products };
+  }
+
+  async getCatalogProducts(
+    connection: PlatformConnection,
+    catalogId: string,
+    filter?: Record<string, any>,
+  ): Promise<FacebookCatalogProduct[]> {
+    const products: FacebookCatalogProduct[] = [];
+    let after: string | undefined;
+    do {
+      const page = await this.request<{
+        data?: FacebookCatalogProduct[];
+        paging?: { cursors?: { after?: string }; next?: string };
+      }>(connection, {
+        method: 'GET',
+        url: `/${catalogId}/products`,
+        params: {
+          fields: CATALOG_PRODUCT_FIELDS,
+          limit: CATALOG_PAGE_SIZE,
+          after,
+          filter: filter ? JSON.stringify(filter) : undefined,
+        },
+      });
+      products.push(...(page?.data || []));
+      after = page?.paging?.next ? page.paging.cursors?.after : undefined;
+    } while (after);
+    return products;
+  }
+
+  async getProductsByRetailerIds(
+    connection: PlatformConnection,
+    catalogId: string,
+    retailerIds: string[],
+  ): Promise<FacebookCatalogProduct[]> {
+    if (retailerIds.length === 0) return [];
+    return this.getCatalogProducts(connection, catalogId, {
+      retailer_id: { is_any: retailerIds },
+    });
+  }
+
+  async getProductsByGroupId(
+    connection: PlatformConnection,
+    catalogId: string,
+    groupId: string,
+  ): Promise<FacebookCatalogProduct[]> {
+    return this.getCatalogProducts(connection, catalogId, {
+      retailer_product_group_id: { eq: groupId },
+    });
+  }
+
+  /**
+   * Sends item create/update/delete requests through the catalog items_batch endpoint.
+   * Validation errors reported synchronously are returned per retailer ID.
+   */
+  async sendItemsBatch(
+    connection: PlatformConnection,
+    catalogId: string,
+    requests: FacebookBatchRequest[],
+  ): Promise<FacebookBatchResult> {
+    const result: FacebookBatchResult = { handles: [], errors: [] };
+    for (let i = 0; i < requests.length; i += ITEMS_BATCH_LIMIT) {
+      const chunk = requests.slice(i, i + ITEMS_BATCH_LIMIT);
+      const resp = await this.request<{
+        handles?: string[];
+        validation_status?: Array<{ retailer_id?: string; errors?: Array<{ message: string }> }>;
+      }>(connection, {
+        method: 'POST',
+        url: `/${catalogId}/items_batch`,
+        data: { item_type: 'PRODUCT_ITEM', allow_upsert: true, requests: chunk },
+      });
+      result.handles.push(...(resp?.handles || []));
+      for (const status of resp?.validation_status || []) {
+        for (const err of status.errors || []) {
+          result.errors.push({ retailerId: status.retailer_id, message: err.message });
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Batch requests are processed asynchronously; this reports the final status
+   * and any per-item errors for a handle returned by sendItemsBatch.
+   */
+  async getBatchStatus(
+    connection: PlatformConnection,
+    catalogId: string,
+    handle: string,
+  ): Promise<{ status: string; errors: Array<{ retailerId?: string; message: string }> }> {
+    const resp = await this.request<{
+      data?: Array<{ status?: string; errors?: Array<{ id?: string; message: string }> }>;
+    }>(connection, {
+      method: 'GET',
+      url: `/${catalogId}/check_batch_request_status`,
+      params: { handle },
+    });
+    const entry = resp?.data?.[0];
+    return {
+      status: entry?.status || 'unknown',
+      errors: (entry?.errors || []).map(e => ({ retailerId: e.id, message: e.message })),
+    };
+  }
+}
@@ -1,72 +1,381 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, InternalServerErrorException } from '@nestjs/common';
 import { BaseAdapter, BaseSyncLogic } from '../base-adapter.interface';
+import { FacebookApiClient, FacebookBatchRequest, FacebookBatchResult, FacebookFetchedData } from './facebook-api-client.service';
+import { FacebookItemContext, FacebookMapper } from './facebook.mapper';
+import { PlatformConnection } from '../../platform-connections/platform-connections.service';
+import { ProductsService } from '../../canonical-data/products.service';
+import { InventoryService, CanonicalInventoryLevel } from '../../canonical-data/inventory.service';
+import { PlatformProductMappingsService, PlatformProductMapping } from '../../platform-product-mappings/platform-product-mappings.service';
+import { CanonicalProduct, CanonicalProductVariant } from '../shopify/shopify.mapper';
+import { Product, ProductVariant } from '../../common/types/supabase.types';
+import { Facebook } from '../../products/types/generate-job.types';
+import { ConflictResolutionService } from '../../sync-engine/conflict-resolution.service';
 
 @Injectable()
 export class FacebookAdapter implements BaseAdapter {
     private readonly logger = new Logger(FacebookAdapter.name);
 
-    getApiClient(connection: any): any {
-        this.logger.warn('FacebookAdapter.getApiClient not implemented');
-        return {
-            async fetchAllRelevantData() {
-                throw new Error('Facebook Shops API client not implemented yet');
-            }
-        };
+    constructor(
+        private readonly api: FacebookApiClient,
+        private readonly mapper: FacebookMapper,
+        private readonly productsService: ProductsService,
+        private readonly inventoryService: InventoryService,
+        private readonly mappingsService: PlatformProductMappingsService,
+        private readonly conflictResolutionService: ConflictResolutionService,
+    ) {}
+
+    getApiClient(connection: PlatformConnection): FacebookApiClient {
+        return this.api;
     }
 
-    getMapper(): any {
-        this.logger.warn('FacebookAdapter.getMapper not implemented');
-        return {
-            mapFacebookDataToCanonical() { throw new Error('Facebook mapper not implemented'); }
-        };
+    getMapper(): FacebookMapper {
+        return this.mapper;
     }
 
     getSyncLogic(): BaseSyncLogic {
-        return { shouldDelist: (q: number) => q <= 0 };
+        return {
+            shouldDelist: (q: number) => this.conflictResolutionService.shouldDelistOnPlatform('facebook', q),
+        };
     }
 
-    async syncFromPlatform(): Promise<void> {
-        this.logger.warn('FacebookAdapter.syncFromPlatform not implemented');
+    async syncFromPlatform(connection: PlatformConnection, userId: string): Promise<void> {
+        this.logger.log(`Starting Facebook catalog sync for connection ${connection.Id}, user ${userId}`);
+        try {
+            const data = await this.api.fetchAllRelevantData(connection);
+            if (data.products.length === 0) {
+                this.logger.log('No items found in the Facebook catalog.');
+                return;
+            }
+            await this.saveFacebookDataToCanonical(connection, userId, data);
+            this.logger.log(`Facebook catalog sync completed for connection ${connection.Id}`);
+        } catch (error) {
+            this.logger.error(`Error during Facebook sync for connection ${connection.Id}: ${error.message}`, error.stack);
+            throw new InternalServerErrorException(`Facebook sync failed: ${error.message}`);
+        }
     }
 
-    async createProduct(): Promise<{ platformProductId: string; platformVariantIds: Record<string, string> }> {
-        this.logger.warn('FacebookAdapter.createProduct not implemented');
-        return { platformProductId: '', platformVariantIds: {} };
-    }
+    async createProduct(
+        connection: PlatformConnection,
+        canonicalProduct: CanonicalProduct,
+        canonicalVariants: CanonicalProductVariant[],
+        canonicalInventoryLevels: CanonicalInventoryLevel[],
+    ): Promise<{ platformProductId: string; platformVariantIds: Record<string, string> }> {
+        this.logger.log(`Starting Facebook createProduct for canonical product: ${canonicalProduct.Title} (ID: ${canonicalProduct.Id}) on connection ${connection.Id}`);
+
+        const variants = canonicalVariants.filter(v => v.Sku && v.Sku.trim() !== '');
+        if (variants.length === 0) {
+            throw new InternalServerErrorException('Facebook catalog items require at least one variant with a SKU.');
+        }
+
+        const catalogId = await this.api.getCatalogId(connection);
+        const { product, details } = await this.enrichProductForListing(canonicalProduct);
+        const groupId = variants.length > 1 ? `sssync-${canonicalProduct.Id}` : undefined;
 
-    async updateProduct(): Promise<any> {
-        this.logger.warn('FacebookAdapter.updateProduct not implemented');
-        return {};
+        const requests: FacebookBatchRequest[] = variants.map(variant => {
+            const quantity = this.resolveQuantity(variant.Id!, canonicalInventoryLevels, connection.Id);
+            return {
+                method: 'CREATE',
+                data: this.mapper.mapCanonicalToFacebookItem(product, variant, quantity, this.buildItemContext(connection, quantity, groupId), details),
+            };
+        });
+
+        const result = await this.api.sendItemsBatch(connection, catalogId, requests);
+        const failedSkus = this.logBatchErrors(result, 'create');
+
+        const platformVariantIds: Record<string, string> = {};
+        for (const variant of variants) {
+            if (!failedSkus.has(variant.Sku!)) platformVariantIds[variant.Id!] = variant.Sku!;
+        }
+        if (Object.keys(platformVariantIds).length === 0) {
+            throw new InternalServerErrorException(`Facebook rejected all items for product ${canonicalProduct.Id}: ${result.errors.map(e => e.message).join('; ')}`);
+        }
+
+        const platformProductId = groupId || variants[0].Sku!;
+        this.logger.log(`Facebook catalog items submitted for ${platformProductId} (batch handles: ${result.handles.join(', ')})`);
+        return { platformProductId, platformVariantIds };
     }
 
-    async deleteProduct(): Promise<void> {
-        this.logger.warn('FacebookAdapter.deleteProduct not implemented');
+    async updateProduct(
+        connection: PlatformConnection,
+        existingMapping: PlatformProductMapping,
+        canonicalProduct: CanonicalProduct,
+        canonicalVariants: CanonicalProductVariant[],
+        canonicalInventoryLevels: CanonicalInventoryLevel[],
+    ): Promise<{ platformProductId: string; updatedVariantIds: string[]; createdVariantIds: string[]; deletedVariantIds: string[]; errors: string[] }> {
+        this.logger.log(`Starting Facebook updateProduct for Platform Product ID: ${existingMapping.PlatformProductId} on connection ${connection.Id}`);
+        const results = {
+            platformProductId: existingMapping.PlatformProductId,
+            updatedVariantIds: [] as string[],
+            createdVariantIds: [] as string[],
+            deletedVariantIds: [] as string[],
+            errors: [] as string[],
+        };
+
+        const catalogId = await this.api.getCatalogId(connection);
+        const { product, details } = await this.enrichProductForListing(canonicalProduct);
+        const isGroup = existingMapping.PlatformProductId !== existingMapping.PlatformVariantId;
+        const groupId = isGroup ? existingMapping.PlatformProductId : undefined;
+
+        const requests: FacebookBatchRequest[] = [];
+        for (const variant of canonicalVariants) {
+            if (!variant.Sku) {
+                results.errors.push(`Skipped: canonical variant ${variant.Id} has no SKU.`);
+                continue;
+            }
+            const quantity = this.resolveQuantity(variant.Id!, canonicalInventoryLevels, connection.Id);
+            requests.push({
+                // allow_upsert on the batch turns UPDATE into CREATE for variants added since the last push
+                method: 'UPDATE',
+                data: this.mapper.mapCanonicalToFacebookItem(product, variant, quantity, this.buildItemContext(connection, quantity, groupId), details),
+            });
+        }
+
+        if (requests.length > 0) {
+            try {
+                const result = await this.api.sendItemsBatch(connection, catalogId, requests);
+                const failedSkus = this.logBatchErrors(result, 'update');
+                for (const req of requests) {
+                    if (failedSkus.has(req.data.id!)) {
+                        results.errors.push(`Facebook rejected update for SKU ${req.data.id}`);
+                    } else {
+                        results.updatedVariantIds.push(req.data.id!);
+                    }
+                }
+            } catch (error) {
+                results.errors.push(`Facebook batch update failed: ${error.message}`);
+            }
+        }
+
+        this.logger.log(`Facebook updateProduct finished for ${results.platformProductId}. Updated: ${results.updatedVariantIds.length}, errors: ${results.errors.length}`);
+        return results;
     }
 
-    async updateInventoryLevels(): Promise<{ successCount: number; failureCount: number; errors: string[] }> {
-        this.logger.warn('FacebookAdapter.updateInventoryLevels not implemented');
-        return { successCount: 0, failureCount: 0, errors: [] };
+    async deleteProduct(connection: PlatformConnection, existingMapping: PlatformProductMapping): Promise<void> {
+        const sku = existingMapping.PlatformVariantId || existingMapping.PlatformSku;
+        this.logger.log(`Starting Facebook deleteProduct for mapping ${existingMapping.Id} (SKU: ${sku}) on connection ${connection.Id}`);
+        if (!sku) {
+            throw new InternalServerErrorException(`Retailer ID missing in mapping ${existingMapping.Id}. Cannot delete Facebook catalog item.`);
+        }
+
+        const catalogId = await this.api.getCatalogId(connection);
+        const result = await this.api.sendItemsBatch(connection, catalogId, [{ method: 'DELETE', data: { id: sku } }]);
+        if (result.errors.length > 0) {
+            throw new InternalServerErrorException(`Failed to delete Facebook catalog item ${sku}: ${result.errors.map(e => e.message).join('; ')}`);
+        }
+        this.logger.log(`Deleted Facebook catalog item ${sku}`);
     }
 
-    async processWebhook(): Promise<void> {
-        this.logger.warn('FacebookAdapter.processWebhook not implemented');
+    async updateInventoryLevels(
+        connection: PlatformConnection,
+        inventoryUpdates: Array<{ mapping: PlatformProductMapping; level: CanonicalInventoryLevel }>,
+    ): Promise<{ successCount: number; failureCount: number; errors: string[] }> {
+        this.logger.log(`Starting Facebook updateInventoryLevels for ${inventoryUpdates.length} items on connection ${connection.Id}`);
+        const errors: string[] = [];
+
+        // Catalog items carry a single inventory count, so collapse per-location levels
+        const quantitiesBySku = new Map<string, number>();
+        for (const { mapping, level } of inventoryUpdates) {
+            const sku = mapping.PlatformVariantId || mapping.PlatformSku;
+            if (!sku) {
+                errors.push(`Retailer ID missing for mapping with ProductVariantId ${mapping.ProductVariantId}. Skipping inventory update.`);
+                continue;
+            }
+            quantitiesBySku.set(sku, (quantitiesBySku.get(sku) || 0) + Math.max(0, level.Quantity || 0));
+        }
+
+        const requests: FacebookBatchRequest[] = [];
+        for (const [sku, quantity] of quantitiesBySku.entries()) {
+            const delist = this.conflictResolutionService.shouldDelistOnPlatform('facebook', quantity);
+            if (delist) {
+                this.logger.log(`Facebook SKU ${sku} reached delist threshold (qty ${quantity}). Hiding from shops.`);
+            }
+            requests.push({
+                method: 'UPDATE',
+                data: {
+                    id: sku,
+                    inventory: quantity,
+                    availability: quantity > 0 ? 'in stock' : 'out of stock',
+                    visibility: delist ? 'staging' : 'published',
+                },
+            });
+        }
+
+        let successCount = 0;
+        let failureCount = errors.length;
+        if (requests.length > 0) {
+            try {
+                const catalogId = await this.api.getCatalogId(connection);
+                const result = await this.api.sendItemsBatch(connection, catalogId, requests);
+                const failedSkus = this.logBatchErrors(result, 'inventory update');
+                for (const err of result.errors) {
+                    errors.push(`Facebook rejected inventory update for ${err.retailerId}: ${err.message}`);
+                }
+                failureCount += failedSkus.size;
+                successCount = requests.length - failedSkus.size;
+            } catch (error) {
+                failureCount += requests.length;
+                errors.push(`Facebook batch inventory update failed: ${error.message}`);
+            }
+        }
+
+        this.logger.log(`Facebook updateInventoryLevels completed. Success: ${successCount}, Failures: ${failureCount}`);
+        if (failureCount > 0) {
+            this.logger.warn(`Errors during Facebook inventory update: ${JSON.stringify(errors)}`);
+        }
+        return { successCount, failureCount, errors };
     }
 
-    async syncSingleProductFromPlatform(): Promise<void> {
-        this.logger.warn('FacebookAdapter.syncSingleProductFromPlatform not implemented');
+    async processWebhook(
+        connection: PlatformConnection,
+        payload: any,
+        headers: Record<string, string>,
+        webhookId?: string,
+    ): Promise<void> {
+        // Catalog changes are only made through this integration, so there is nothing to ingest yet
+        this.logger.warn(`[${webhookId}] FacebookAdapter received a webhook for connection ${connection.Id}; Facebook webhooks are not handled.`);
     }
-}
 
+    async syncSingleProductFromPlatform(connection: PlatformConnection, platformProductId: string, userId: string): Promise<void> {
+        this.logger.log(`Syncing single Facebook product ${platformProductId} for connection ${connection.Id}`);
+        const catalogId = await this.api.getCatalogId(connection);
+        let products = await this.api.getProductsByGroupId(connection, catalogId, platformProductId);
+        if (products.length === 0) {
+            products = await this.api.getProductsByRetailerIds(connection, catalogId, [platformProductId]);
+        }
+        if (products.length === 0) {
+            this.logger.warn(`Facebook catalog item ${platformProductId} not found. Skipping sync.`);
+            return;
+        }
+        await this.saveFacebookDataToCanonical(connection, userId, { catalogId, products });
+    }
 
+    // --- Helpers ---
 
+    private async saveFacebookDataToCanonical(connection: PlatformConnection, userId: string, data: FacebookFetchedData): Promise<void> {
+        const { canonicalProducts, canonicalVariants, canonicalInventoryLevels } =
+            this.mapper.mapFacebookDataToCanonical(data, userId, connection.Id);
+        const allInventoryToSave: CanonicalInventoryLevel[] = [];
 
+        for (const cProduct of canonicalProducts) {
+            const platformProductId = cProduct.Id!.replace('facebook-prod-', '');
+            let savedProduct: Product | null = null;
+            const existingMapping = await this.mappingsService.getMappingByPlatformId(connection.Id, platformProductId);
+            if (existingMapping?.ProductVariantId) {
+                const associatedVariant = await this.productsService.getVariantById(existingMapping.ProductVariantId);
+                if (associatedVariant) {
+                    savedProduct = await this.productsService.getProductById(associatedVariant.ProductId);
+                }
+            }
+            if (!savedProduct) {
+                savedProduct = await this.productsService.saveProduct({ UserId: userId, IsArchived: cProduct.IsArchived });
+            }
+            if (!savedProduct) {
+                this.logger.error(`Failed to save or find product for Facebook item ${platformProductId}. Skipping variants.`);
+                continue;
+            }
 
+            const productVariants = canonicalVariants.filter(cv => cv.ProductId === cProduct.Id);
+            const savedVariants = await this.productsService.saveVariants(productVariants.map(cv => ({
+                ProductId: savedProduct.Id,
+                UserId: userId,
+                Sku: cv.Sku!,
+                Barcode: cv.Barcode,
+                Title: cv.Title,
+                Description: cv.Description,
+                Price: cv.Price,
+                RequiresShipping: true,
+                IsTaxable: true,
+            })) as Array<Omit<ProductVariant, 'Id' | 'CreatedAt' | 'UpdatedAt'>>);
 
+            for (const cv of productVariants) {
+                const savedVariant = savedVariants.find(sv => sv.Sku === cv.Sku);
+                if (!savedVariant) {
+                    this.logger.warn(`Could not find saved variant for Facebook retailer ID ${cv.Sku}`);
+                    continue;
+                }
 
+                const mappingData: Omit<PlatformProductMapping, 'Id' | 'CreatedAt' | 'UpdatedAt'> = {
+                    PlatformConnectionId: connection.Id,
+                    ProductVariantId: savedVariant.Id,
+                    PlatformProductId: platformProductId,
+                    PlatformVariantId: cv.Sku,
+                    PlatformSku: cv.Sku,
+                    PlatformSpecificData: cv.PlatformSpecificData,
+                    LastSyncedAt: new Date().toISOString(),
+                    SyncStatus: 'Success',
+                    IsEnabled: true,
+                };
+                const existingVariantMapping = await this.mappingsService.getMappingByPlatformIdentifiers(connection.Id, platformProductId, cv.Sku!);
+                if (existingVariantMapping) {
+                    await this.mappingsService.updateMapping(existingVariantMapping.Id, mappingData);
+                } else {
+                    await this.mappingsService.createMapping(mappingData);
+                }
 
+                for (const level of canonicalInventoryLevels.filter(l => l.ProductVariantId === cv.Id)) {
+                    allInventoryToSave.push({ ...level, ProductVariantId: savedVariant.Id, PlatformConnectionId: connection.Id });
+                }
+            }
+        }
 
+        if (allInventoryToSave.length > 0) {
+            await this.inventoryService.saveBulkInventoryLevels(allInventoryToSave);
+            this.logger.log(`Saved ${allInventoryToSave.length} Facebook inventory levels for connection ${connection.Id}`);
+        }
+    }
 
+    /**
+     * Fills in product images and the latest AI-generated Facebook listing fields
+     * (condition, brand, link, google_product_category) for a canonical product.
+     */
+    private async enrichProductForListing(canonicalProduct: CanonicalProduct): Promise<{ product: CanonicalProduct; details?: Partial<Facebook> }> {
+        const product: CanonicalProduct = { ...canonicalProduct };
+        let details: Partial<Facebook> | undefined = canonicalProduct.PlatformSpecificData?.facebook;
+        if (!canonicalProduct.Id) return { product, details };
 
+        try {
+            if (!product.ImageUrls?.length) {
+                product.ImageUrls = await this.productsService.getProductImageUrls(canonicalProduct.Id, canonicalProduct.UserId);
+            }
+            if (!details) {
+                details = (await this.productsService.getLatestGeneratedPlatformDetails<Facebook>(canonicalProduct.Id, 'facebook')) || undefined;
+            }
+        } catch (error) {
+            this.logger.warn(`Could not load listing details for product ${canonicalProduct.Id}: ${error.message}`);
+        }
+        return { product, details };
+    }
 
+    private buildItemContext(connection: PlatformConnection, quantity: number, groupId?: string): FacebookItemContext {
+        const settings = connection.PlatformSpecificData || {};
+        return {
+            currency: settings.currency || 'USD',
+            defaultLink: settings.storeUrl || `https://www.facebook.com/${settings.pageId || ''}`,
+            defaultBrand: settings.brand || connection.DisplayName,
+            groupId,
+            delist: this.conflictResolutionService.shouldDelistOnPlatform('facebook', quantity),
+        };
+    }
 
+    private logBatchErrors(result: FacebookBatchResult, operation: string): Set<string> {
+        const failedSkus = new Set<string>();
+        for (const err of result.errors) {
+            this.logger.warn(`Facebook ${operation} rejected item ${err.retailerId}: ${err.message}`);
+            if (err.retailerId) failedSkus.add(err.retailerId);
+        }
+        return failedSkus;
+    }
 
+    /**
+     * Catalog items have a single inventory count. Prefer levels recorded for this
+     * connection; otherwise use the largest per-connection total we know about.
+     */
+    private resolveQuantity(variantId: string, levels: CanonicalInventoryLevel[], connectionId: string): number {
+        const totals = new Map<string, number>();
+        for (const level of levels.filter(l => l.ProductVariantId === variantId)) {
+            totals.set(level.PlatformConnectionId, (totals.get(level.PlatformConnectionId) || 0) + (level.Quantity || 0));
+        }
+        if (totals.has(connectionId)) return totals.get(connectionId)!;
+        return totals.size > 0 ? Math.max(...totals.values()) : 0;
+    }
+}
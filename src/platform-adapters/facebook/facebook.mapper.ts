@@ -0,0 +1,144 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CanonicalProduct, CanonicalProductVariant } from '../shopify/shopify.mapper';
+import { CanonicalInventoryLevel } from '../../canonical-data/inventory.service';
+import { Facebook } from '../../products/types/generate-job.types';
+import { FacebookCatalogItemData, FacebookFetchedData } from './facebook-api-client.service';
+
+export interface FacebookItemContext {
+  currency: string;
+  defaultLink: string; // Used when no product link was generated (Meta requires one)
+  defaultBrand?: string;
+  groupId?: string;
+  delist: boolean; // Hide the item from shops (delist_after_sale platforms)
+}
+
+@Injectable()
+export class FacebookMapper {
+  private readonly logger = new Logger(FacebookMapper.name);
+
+  mapFacebookDataToCanonical(
+    data: FacebookFetchedData,
+    userId: string,
+    platformConnectionId: string,
+  ): { canonicalProducts: CanonicalProduct[]; canonicalVariants: CanonicalProductVariant[]; canonicalInventoryLevels: CanonicalInventoryLevel[] } {
+    const products = new Map<string, CanonicalProduct>();
+    const variants: CanonicalProductVariant[] = [];
+    const inv: CanonicalInventoryLevel[] = [];
+
+    for (const item of data.products || []) {
+      const sku = item.retailer_id?.trim();
+      if (!sku) {
+        this.logger.warn(`Skipping Facebook catalog item ${item.id} without a retailer_id`);
+        continue;
+      }
+      const platformProductId = item.retailer_product_group_id || sku;
+      const canonicalProductId = `facebook-prod-${platformProductId}`;
+      const title = item.name || sku;
+      const imageUrls = [item.image_url, ...(item.additional_image_urls || [])].filter((u): u is string => !!u);
+
+      if (!products.has(canonicalProductId)) {
+        products.set(canonicalProductId, {
+          Id: canonicalProductId,
+          UserId: userId,
+          IsArchived: false,
+          Title: title,
+          Description: item.description,
+          ImageUrls: imageUrls,
+        });
+      }
+
+      const canonicalVariantId = `facebook-var-${sku}`;
+      variants.push({
+        Id: canonicalVariantId,
+        ProductId: canonicalProductId,
+        UserId: userId,
+        Sku: sku,
+        Title: title,
+        Description: item.description ?? null,
+        Price: this.parsePrice(item.price),
+        Barcode: item.gtin || null,
+        PlatformSpecificData: {
+          facebookProductId: item.id,
+          catalogId: data.catalogId,
+          availability: item.availability,
+          visibility: item.visibility,
+          condition: item.condition,
+          url: item.url,
+        },
+      });
+
+      if (item.inventory !== undefined && item.inventory !== null) {
+        inv.push({
+          ProductVariantId: canonicalVariantId,
+          PlatformConnectionId: platformConnectionId,
+          PlatformLocationId: null,
+          Quantity: item.inventory,
+        });
+      }
+    }
+
+    this.logger.log(`Mapped ${variants.length} Facebook catalog items into ${products.size} canonical products`);
+    return { canonicalProducts: Array.from(products.values()), canonicalVariants: variants, canonicalInventoryLevels: inv };
+  }
+
+  mapCanonicalToFacebookItem(
+    product: CanonicalProduct,
+    variant: CanonicalProductVariant,
+    quantity: number,
+    context: FacebookItemContext,
+    details?: Partial<Facebook>,
+  ): FacebookCatalogItemData {
+    const inventory = Math.max(0, Math.floor(quantity || 0));
+    const imageUrls = (product.ImageUrls || []).filter(u => /^https?:\/\//i.test(u));
+    const imageLink = details?.image_link || imageUrls[0];
+    const options = this.normalizeOptions(variant.Options);
+
+    const item: FacebookCatalogItemData = {
+      id: variant.Sku!,
+      title: (details?.title || variant.Title || product.Title || '').slice(0, 200),
+      description: (details?.description || variant.Description || product.Description || variant.Title || product.Title || '').slice(0, 9999),
+      availability: inventory > 0 ? 'in stock' : 'out of stock',
+      condition: details?.condition || 'new',
+      price: this.formatPrice(variant.Price, context.currency),
+      link: details?.link || context.defaultLink,
+      image_link: imageLink,
+      additional_image_link: imageUrls.filter(u => u !== imageLink).slice(0, 10),
+      brand: details?.brand || context.defaultBrand,
+      google_product_category: details?.google_product_category || undefined,
+      inventory,
+      visibility: context.delist ? 'staging' : 'published',
+    };
+
+    if (variant.CompareAtPrice && variant.CompareAtPrice > variant.Price) {
+      // Meta shows sale_price against the regular price
+      item.price = this.formatPrice(variant.CompareAtPrice, context.currency);
+      item.sale_price = this.formatPrice(variant.Price, context.currency);
+    }
+    if (context.groupId) item.item_group_id = context.groupId;
+    if (options.color) item.color = options.color;
+    if (options.size) item.size = options.size;
+    if (variant.Barcode) item.gtin = variant.Barcode;
+    return item;
+  }
+
+  /**
+   * Parses Meta's formatted prices ("$1,299.00", "9.99 USD") into a number.
+   */
+  parsePrice(price?: string | null): number {
+    if (!price) return 0;
+    const parsed = parseFloat(price.replace(/[^0-9.]/g, ''));
+    return isNaN(parsed) ? 0 : parsed;
+  }
+
+  private formatPrice(value: number, currency: string): string {
+    return `${Number(value || 0).toFixed(2)} ${currency}`;
+  }
+
+  private normalizeOptions(options?: Record<string, string> | null): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    for (const [name, value] of Object.entries(options || {})) {
+      if (value) normalized[name.toLowerCase()] = String(value);
+    }
+    return normalized;
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Outcome of one `{ mapping, level }` row passed to `updateInventoryLevels`.
+ */
+export interface InventoryUpdateRowResult {
+    mappingId: string;
+    productVariantId: string;
+    platformLocationId: string | null;
+    success: boolean;
+    error?: string;
+}
+
+export interface InventoryUpdateResult {
+    successCount: number;
+    failureCount: number;
+    errors: string[];
+    results: InventoryUpdateRowResult[]; // Same order as the updates passed in
+}
+
+export function newInventoryRowResult(
+    mapping: { Id: string; ProductVariantId: string },
+    level: { PlatformLocationId?: string | null },
+): InventoryUpdateRowResult {
+    return {
+        mappingId: mapping.Id,
+        productVariantId: mapping.ProductVariantId,
+        platformLocationId: level.PlatformLocationId ?? null,
+        success: false,
+    };
+}
+
+export function summarizeInventoryResults(results: InventoryUpdateRowResult[]): InventoryUpdateResult {
+    const failed = results.filter(r => !r.success);
+    return {
+        successCount: results.length - failed.length,
+        failureCount: failed.length,
+        errors: failed.map(r => r.error || `Inventory update failed for mapping ${r.mappingId}`),
+        results,
+    };
+}
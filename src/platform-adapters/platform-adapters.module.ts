@@ -3,12 +3,25 @@ import { ShopifyAdapterModule } from './shopify/shopify-adapter.module';
 import { SquareAdapterModule } from './square/square-adapter.module';
 import { CloverAdapterModule } from './clover/clover-adapter.module';
 import { PlatformConnectionsModule } from '../platform-connections/platform-connections.module';
+import { CanonicalDataModule } from '../canonical-data/canonical-data.module';
+import { PlatformProductMappingsModule } from '../platform-product-mappings/platform-product-mappings.module';
+import { CommonModule } from '../common/common.module';
 import { PlatformAdapterRegistry } from './adapter.registry';
 import { EbayAdapter } from './ebay/ebay.adapter';
 import { EbayApiClient } from './ebay/ebay-api-client.service';
 import { EbayMapper } from './ebay/ebay.mapper';
 import { FacebookAdapter } from './facebook/facebook.adapter';
+import { FacebookApiClient } from './facebook/facebook-api-client.service';
+import { FacebookMapper } from './facebook/facebook.mapper';
 import { WhatnotAdapter } from './whatnot/whatnot.adapter';
+import { WhatnotApiClient } from './whatnot/whatnot-api-client.service';
+import { WhatnotMapper } from './whatnot/whatnot.mapper';
+import { WhatnotShowService } from './whatnot/whatnot-show.service';
+import { WhatnotShowsController } from './whatnot/whatnot-shows.controller';
+import { SyncEventsService } from '../sync-engine/sync-events.service';
+import { ConflictResolutionService } from '../sync-engine/conflict-resolution.service';
+import { ConflictRulesService } from '../sync-engine/conflict-rules.service';
+import { EchoSuppressionService } from '../sync-engine/echo-suppression.service';
 
 @Global()
 @Module({
@@ -17,14 +30,27 @@ import { WhatnotAdapter } from './whatnot/whatnot.adapter';
         SquareAdapterModule,
         CloverAdapterModule,
         PlatformConnectionsModule,
+        CanonicalDataModule,
+        PlatformProductMappingsModule,
+        CommonModule,
     ],
+    controllers: [WhatnotShowsController],
     providers: [
         PlatformAdapterRegistry,
         EbayApiClient,
         EbayMapper,
         EbayAdapter,
+        FacebookApiClient,
+        FacebookMapper,
         FacebookAdapter,
+        WhatnotApiClient,
+        WhatnotMapper,
+        WhatnotShowService,
         WhatnotAdapter,
+        SyncEventsService,
+        ConflictResolutionService,
+        ConflictRulesService,
+        EchoSuppressionService,
     ],
     exports: [
         PlatformAdapterRegistry,
@@ -34,8 +60,16 @@ import { WhatnotAdapter } from './whatnot/whatnot.adapter';
         EbayApiClient,
         EbayMapper,
         EbayAdapter,
+        FacebookApiClient,
+        FacebookMapper,
         FacebookAdapter,
+        WhatnotApiClient,
+        WhatnotMapper,
+        WhatnotShowService,
         WhatnotAdapter,
+        ConflictResolutionService,
+        ConflictRulesService,
+        EchoSuppressionService,
     ],
 })
 export class PlatformAdaptersModule {} 
\ No newline at end of file
@@ -1905,6 +1905,74 @@ export class ShopifyApiClient {
         return response.nodes || [];
     }
 
+    /**
+     * Get orders updated since a point in time (used as the order webhook polling fallback)
+     */
+    async getOrdersUpdatedSince(connection: PlatformConnection, since: Date): Promise<any[]> {
+        const query = `
+            query getOrders($first: Int, $after: String, $query: String) {
+                orders(first: $first, after: $after, query: $query, sortKey: UPDATED_AT) {
+                    edges {
+                        node {
+                            id
+                            name
+                            email
+                            createdAt
+                            cancelledAt
+                            displayFinancialStatus
+                            displayFulfillmentStatus
+                            currencyCode
+                            totalPriceSet {
+                                shopMoney {
+                                    amount
+                                    currencyCode
+                                }
+                            }
+                            lineItems(first: 100) {
+                                edges {
+                                    node {
+                                        title
+                                        sku
+                                        quantity
+                                        variant {
+                                            id
+                                        }
+                                        product {
+                                            id
+                                        }
+                                        originalUnitPriceSet {
+                                            shopMoney {
+                                                amount
+                                            }
+                                        }
+                                    }
+                                }
+                            }
+                        }
+                    }
+                    pageInfo {
+                        hasNextPage
+                        endCursor
+                    }
+                }
+            }
+        `;
+
+        const orders: any[] = [];
+        let after: string | null = null;
+        do {
+            const response = await this.requestWithConnection(connection, query, {
+                first: 50,
+                after,
+                query: `updated_at:>='${since.toISOString()}'`,
+            });
+            orders.push(...response.orders.edges.map((edge: any) => edge.node));
+            after = response.orders.pageInfo.hasNextPage ? response.orders.pageInfo.endCursor : null;
+        } while (after);
+
+        return orders;
+    }
+
     /**
      * Update Operations
      */
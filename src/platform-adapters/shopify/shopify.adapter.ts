@@ -6,9 +6,24 @@ import { BaseAdapter, BaseSyncLogic } from '../base-adapter.interface';
 import { ProductsService } from '../../canonical-data/products.service';
 import { InventoryService, CanonicalInventoryLevel } from '../../canonical-data/inventory.service';
 import { PlatformProductMappingsService, PlatformProductMapping } from '../../platform-product-mappings/platform-product-mappings.service';
-import { Product, ProductVariant as SupabaseProductVariant } from '../../common/types/supabase.types';
+import { InventoryAdjustmentReason, Product, ProductVariant as SupabaseProductVariant } from '../../common/types/supabase.types';
 import { AiGenerationService } from '../../products/ai-generation/ai-generation.service';
 import { SyncEventsService } from '../../sync-engine/sync-events.service';
+import { EchoSuppressionService } from '../../sync-engine/echo-suppression.service';
+import { ConflictResolutionService } from '../../sync-engine/conflict-resolution.service';
+import { InventoryUpdateResult, InventoryUpdateRowResult, newInventoryRowResult, summarizeInventoryResults } from '../inventory-update-result';
+
+// inventorySetQuantities accepts up to 250 quantities per call
+const SHOPIFY_INVENTORY_BATCH_SIZE = 250;
+// Shopify's inventory adjustment reasons for our ledger reasons
+const SHOPIFY_ADJUSTMENT_REASONS: Record<InventoryAdjustmentReason, string> = {
+    sale: 'correction', // Shopify has no reason for sales made on other channels
+    return: 'restock',
+    damage: 'damaged',
+    recount: 'cycle_count_available',
+    transfer: 'movement_created',
+    marketplace_reservation: 'correction', // reservation_* reasons only move stock into 'reserved'
+};
 
 // Facade for Shopify interactions
 @Injectable()
@@ -24,6 +39,8 @@ export class ShopifyAdapter implements BaseAdapter { // <<< Implement interface
         private readonly connectionsService: PlatformConnectionsService,
         private readonly aiGenerationService: AiGenerationService,
         private readonly syncEventsService: SyncEventsService,
+        private readonly echoSuppression: EchoSuppressionService,
+        private readonly conflictResolution: ConflictResolutionService,
     ) {}
 
     // Return the configured client instance
@@ -402,42 +419,111 @@ export class ShopifyAdapter implements BaseAdapter { // <<< Implement interface
     async updateInventoryLevels(
         connection: PlatformConnection,
         inventoryUpdates: Array<{ mapping: PlatformProductMapping; level: CanonicalInventoryLevel }>
-    ): Promise<{ successCount: number; failureCount: number; errors: string[] }> {
+    ): Promise<InventoryUpdateResult> {
         const apiClient = this.getApiClient(connection);
-        let successCount = 0;
-        let failureCount = 0;
-        const errors: string[] = [];
-        try {
-            // Group by (inventoryItemId, locationId)
-            for (const { mapping, level } of inventoryUpdates) {
+        const results: InventoryUpdateRowResult[] = [];
+        const quantities: Array<{ row: InventoryUpdateRowResult; inventoryItemId: string; locationId: string; quantity: number }> = [];
+
+        for (const { mapping, level } of inventoryUpdates) {
+            const row = newInventoryRowResult(mapping, level);
+            results.push(row);
+            // Need Shopify InventoryItem GID from mapping.PlatformSpecificData
+            const inventoryItemGid = mapping.PlatformSpecificData?.shopifyInventoryItemId;
+            if (!inventoryItemGid) {
+                row.error = `Missing shopifyInventoryItemId in mapping ${mapping.Id}`;
+                continue;
+            }
+            if (!level.PlatformLocationId) {
+                row.error = `Missing PlatformLocationId for level of variant ${mapping.ProductVariantId}`;
+                continue;
+            }
+            quantities.push({ row, inventoryItemId: inventoryItemGid, locationId: level.PlatformLocationId, quantity: Math.round(level.Quantity) });
+        }
+
+        // One inventorySetQuantities mutation per batch of quantities
+        for (let i = 0; i < quantities.length; i += SHOPIFY_INVENTORY_BATCH_SIZE) {
+            const batch = quantities.slice(i, i + SHOPIFY_INVENTORY_BATCH_SIZE);
+            try {
+                const response = await apiClient.setInventoryQuantities(connection, batch.map(({ row, ...quantity }) => quantity));
+                this.applyInventoryUserErrors(batch.map(({ row }) => row), 'quantities', response?.userErrors);
+            } catch (err: any) {
+                for (const { row } of batch) {
+                    row.error = `Inventory update failed for mapping ${row.mappingId}: ${err?.message || err}`;
+                }
+            }
+        }
+        return summarizeInventoryResults(results);
+    }
+
+    /**
+     * Sends ledger deltas with inventoryAdjustQuantities, so sales made on Shopify
+     * while the push was queued are not overwritten. One mutation per reason,
+     * since Shopify takes the reason per adjustment group.
+     */
+    async adjustInventoryLevels(
+        connection: PlatformConnection,
+        adjustments: Array<{ mapping: PlatformProductMapping; level: CanonicalInventoryLevel; delta: number; reason: InventoryAdjustmentReason | null }>
+    ): Promise<InventoryUpdateResult> {
+        const apiClient = this.getApiClient(connection);
+        const results: InventoryUpdateRowResult[] = [];
+        const changesByReason = new Map<string, Array<{ row: InventoryUpdateRowResult; inventoryItemId: string; locationId: string; delta: number }>>();
+
+        for (const { mapping, level, delta, reason } of adjustments) {
+            const row = newInventoryRowResult(mapping, level);
+            results.push(row);
+            const inventoryItemGid = mapping.PlatformSpecificData?.shopifyInventoryItemId;
+            if (!inventoryItemGid) {
+                row.error = `Missing shopifyInventoryItemId in mapping ${mapping.Id}`;
+                continue;
+            }
+            if (!level.PlatformLocationId) {
+                row.error = `Missing PlatformLocationId for level of variant ${mapping.ProductVariantId}`;
+                continue;
+            }
+            const shopifyReason = SHOPIFY_ADJUSTMENT_REASONS[reason ?? 'recount'] ?? 'correction';
+            changesByReason.set(shopifyReason, [
+                ...(changesByReason.get(shopifyReason) || []),
+                { row, inventoryItemId: inventoryItemGid, locationId: level.PlatformLocationId, delta: Math.round(delta) },
+            ]);
+        }
+
+        for (const [shopifyReason, changes] of changesByReason.entries()) {
+            for (let i = 0; i < changes.length; i += SHOPIFY_INVENTORY_BATCH_SIZE) {
+                const batch = changes.slice(i, i + SHOPIFY_INVENTORY_BATCH_SIZE);
                 try {
-                    // Need Shopify InventoryItem GID from mapping.PlatformSpecificData
-                    const inventoryItemGid = mapping.PlatformSpecificData?.shopifyInventoryItemId;
-                    if (!inventoryItemGid) {
-                        failureCount++;
-                        errors.push(`Missing shopifyInventoryItemId in mapping ${mapping.Id}`);
-                        continue;
-                    }
-                    if (!level.PlatformLocationId) {
-                        failureCount++;
-                        errors.push(`Missing PlatformLocationId for level of variant ${mapping.ProductVariantId}`);
-                        continue;
-                    }
-                    await apiClient.setInventoryQuantities(connection, [{
-                        inventoryItemId: inventoryItemGid,
-                        locationId: level.PlatformLocationId,
-                        quantity: Math.round(level.Quantity),
-                    }]);
-                    successCount++;
+                    const response = await apiClient.adjustInventoryQuantities(connection, batch.map(({ row, ...change }) => change), shopifyReason);
+                    this.applyInventoryUserErrors(batch.map(({ row }) => row), 'changes', response?.userErrors);
                 } catch (err: any) {
-                    failureCount++;
-                    errors.push(`Inventory update failed for mapping ${mapping.Id}: ${err?.message || err}`);
+                    for (const { row } of batch) {
+                        row.error = `Inventory adjustment failed for mapping ${row.mappingId}: ${err?.message || err}`;
+                    }
                 }
             }
-        } catch (e: any) {
-            errors.push(`Batch inventory update error: ${e?.message || e}`);
         }
-        return { successCount, failureCount, errors };
+        return summarizeInventoryResults(results);
+    }
+
+    /**
+     * Marks each row of a batch mutation from its userErrors. A userError field
+     * looks like ['input', 'quantities', '3', 'locationId']; errors that name no
+     * row fail the whole batch.
+     */
+    private applyInventoryUserErrors(rows: InventoryUpdateRowResult[], inputList: string, userErrors: any[] | undefined): void {
+        const rowErrors = new Map<number, string>();
+        const batchErrors: string[] = [];
+        for (const userError of userErrors || []) {
+            const index = userError.field?.[1] === inputList ? Number(userError.field?.[2]) : NaN;
+            if (Number.isInteger(index) && rows[index]) {
+                rowErrors.set(index, userError.message);
+            } else {
+                batchErrors.push(userError.message);
+            }
+        }
+        rows.forEach((row, index) => {
+            const error = rowErrors.get(index) ?? (batchErrors.length > 0 ? batchErrors.join('; ') : undefined);
+            row.success = !error;
+            if (error) row.error = `Inventory update failed for mapping ${row.mappingId}: ${error}`;
+        });
     }
 
     async processWebhook(
@@ -472,6 +558,17 @@ export class ShopifyAdapter implements BaseAdapter { // <<< Implement interface
             
             this.logger.log(`${logPrefix} Received Shopify inventory_levels/update for item ${inventoryItemId}, location ${locationId}, available: ${available}`);
             await this.handleInventoryUpdate(connection, inventoryItemId, locationId, available, logPrefix, webhookId);
+        } else if (shopifyTopic === 'orders/create') {
+            this.logger.log(`${logPrefix} Received Shopify orders/create for order ${payload.id} (${payload.name})`);
+            this.syncEventsService.emitOrderSyncEvent({
+                type: 'ORDER_RECEIVED',
+                platformOrderId: `gid://shopify/Order/${payload.id}`,
+                userId: connection.UserId,
+                sourceConnectionId: connection.Id,
+                sourcePlatform: 'shopify',
+                payload,
+                webhookId,
+            });
         } else if (shopifyTopic === 'products/paid_media') {
             this.logger.log(`${logPrefix} Received Shopify products/paid_media webhook - ignoring as not relevant for sync`);
         } else {
@@ -480,6 +577,19 @@ export class ShopifyAdapter implements BaseAdapter { // <<< Implement interface
     }
 
     async syncSingleProductFromPlatform(connection: PlatformConnection, platformProductGid: string, userId: string): Promise<void> {
+        await this.ingestSingleProduct(connection, platformProductGid, userId, false);
+    }
+
+    /**
+     * Returns false when the product was not saved: it no longer exists, or
+     * `skipEchoes` is set and it is exactly what sssync recently pushed to it.
+     */
+    private async ingestSingleProduct(
+        connection: PlatformConnection,
+        platformProductGid: string,
+        userId: string,
+        skipEchoes: boolean,
+    ): Promise<boolean> {
         this.logger.log(`Starting Shopify single product sync for GID: ${platformProductGid}, user ${userId}`);
         const apiClient = this.getApiClient(connection);
         const mapper = this.getMapper();
@@ -489,7 +599,7 @@ export class ShopifyAdapter implements BaseAdapter { // <<< Implement interface
             const productNodes = await apiClient.fetchProductsByIds(connection, [platformProductGid]);
             if (!productNodes || productNodes.length === 0) {
                 this.logger.warn(`Shopify product with GID ${platformProductGid} not found. Skipping sync.`);
-                return;
+                return false;
             }
             const shopifyProductNode = productNodes[0];
 
@@ -511,6 +621,11 @@ export class ShopifyAdapter implements BaseAdapter { // <<< Implement interface
                 connection.Id
             );
 
+            if (skipEchoes && await this.isEchoOfPush(connection, platformProductGid, canonicalVariants)) {
+                this.logger.log(`Shopify product ${platformProductGid} matches what sssync pushed to it. Skipping sync of our own change.`);
+                return false;
+            }
+
             const allInventoryToSave: CanonicalInventoryLevel[] = [];
 
             for (const cProduct of canonicalProducts) { // Should be only one product
@@ -563,37 +678,40 @@ export class ShopifyAdapter implements BaseAdapter { // <<< Implement interface
                             return null;
                         }
                         return {
-                            ProductId: savedSupabaseProduct!.Id,
-                            UserId: userId,
-                            Sku: cv.Sku,
-                            Barcode: cv.Barcode,
-                            Title: cv.Title,       // Title is on ProductVariants
-                            Description: cv.Description,
-                            Price: cv.Price,
-                            CompareAtPrice: cv.CompareAtPrice,
-                            Cost: cv.Cost,
-                            Weight: cv.Weight,
-                            WeightUnit: cv.WeightUnit,
-                            Options: cv.Options,
-                            RequiresShipping: cv.RequiresShipping !== undefined ? cv.RequiresShipping : true,
-                            IsTaxable: cv.IsTaxable !== undefined ? cv.IsTaxable : true,
-                            TaxCode: cv.TaxCode,
-                            ImageId: cv.ImageId,
-                            PlatformSpecificData: cv.PlatformSpecificData, // Store Shopify specific variant data
+                            cv,
+                            row: {
+                                ProductId: savedSupabaseProduct!.Id,
+                                UserId: userId,
+                                Sku: cv.Sku,
+                                Barcode: cv.Barcode,
+                                Title: cv.Title,       // Title is on ProductVariants
+                                Description: cv.Description,
+                                Price: cv.Price,
+                                CompareAtPrice: cv.CompareAtPrice,
+                                Cost: cv.Cost,
+                                Weight: cv.Weight,
+                                WeightUnit: cv.WeightUnit,
+                                Options: cv.Options,
+                                RequiresShipping: cv.RequiresShipping !== undefined ? cv.RequiresShipping : true,
+                                IsTaxable: cv.IsTaxable !== undefined ? cv.IsTaxable : true,
+                                TaxCode: cv.TaxCode,
+                                ImageId: cv.ImageId,
+                                PlatformSpecificData: cv.PlatformSpecificData, // Store Shopify specific variant data
+                            },
                         };
                     })
-                    .filter(Boolean) as Array<Omit<SupabaseProductVariant, 'Id' | 'CreatedAt' | 'UpdatedAt'>>;
+                    .filter(Boolean) as Array<{ cv: CanonicalProductVariant; row: Omit<SupabaseProductVariant, 'Id' | 'CreatedAt' | 'UpdatedAt'> }>;
+
+                // Variants sssync already has only take the platform values the connection's conflict rules accept
+                for (const { cv, row } of variantsToSavePrepared) {
+                    Object.assign(row, await this.conflictResolution.reconcileIncomingVariant(connection, platformProductGid, cv.Id!, cv, cProduct.ImageUrls));
+                }
 
                 if (variantsToSavePrepared.length > 0) {
-                    const savedSupabaseVariants = await this.productsService.saveVariants(variantsToSavePrepared);
-                    
-                    const relevantOriginalCanonicalVariants = canonicalVariants.filter(cv => 
-                        cv.ProductId === cProduct.Id && 
-                        cv.Sku && cv.Sku.trim() !== ''
-                    );
+                    const savedSupabaseVariants = await this.productsService.saveVariants(variantsToSavePrepared.map(p => p.row));
 
-                    for (const originalCv of relevantOriginalCanonicalVariants) {
-                        const savedSupabaseVariant = savedSupabaseVariants.find(sv => sv.Sku === originalCv.Sku && sv.ProductId === savedSupabaseProduct!.Id);
+                    for (const { cv: originalCv, row } of variantsToSavePrepared) {
+                        const savedSupabaseVariant = savedSupabaseVariants.find(sv => sv.Sku === row.Sku && sv.ProductId === savedSupabaseProduct!.Id);
                         if (!savedSupabaseVariant) {
                             this.logger.warn(`Could not find saved Supabase variant for canonical variant SKU ${originalCv.Sku} of product ${cProduct.Title}`);
                             continue;
@@ -645,6 +763,7 @@ export class ShopifyAdapter implements BaseAdapter { // <<< Implement interface
             }
 
             this.logger.log(`Shopify single product sync completed for GID: ${platformProductGid}`);
+            return true;
 
         } catch (error) {
             this.logger.error(`Error during Shopify single product sync for ${platformProductGid}: ${error.message}`, error.stack);
@@ -708,8 +827,9 @@ export class ShopifyAdapter implements BaseAdapter { // <<< Implement interface
         webhookId?: string,
     ): Promise<void> {
         try {
-            // First, sync the changes from Shopify to our canonical data
-            await this.syncSingleProductFromPlatform(connection, platformProductGid, connection.UserId);
+            // First, sync the changes from Shopify to our canonical data (unless they are our own)
+            const ingested = await this.ingestSingleProduct(connection, platformProductGid, connection.UserId, true);
+            if (!ingested) return;
             
             // Find the canonical product that was just updated
             const mappings = await this.mappingsService.getMappingsByPlatformProductId(connection.Id, platformProductGid);
@@ -763,6 +883,12 @@ export class ShopifyAdapter implements BaseAdapter { // <<< Implement interface
             const mapping = await this.mappingsService.getMappingByPlatformVariantInventoryItemId(connection.Id, inventoryItemGid);
             
             if (mapping && mapping.ProductVariantId) {
+                const echo = this.echoSuppression.findInventoryEcho(mapping, locationGid, available);
+                if (echo) {
+                    this.logger.log(`${logPrefix} Inventory ${available} at ${locationGid} for variant ${mapping.ProductVariantId} was set by sssync (change set ${echo.changeSetId}). Ignoring echo.`);
+                    return;
+                }
+
                 // Update canonical inventory
                 await this.inventoryService.updateLevel({
                     ProductVariantId: mapping.ProductVariantId,
@@ -801,4 +927,20 @@ export class ShopifyAdapter implements BaseAdapter { // <<< Implement interface
             throw error;
         }
     }
-}
\ No newline at end of file
+
+    // True when every mapped variant in the webhook's product matches content sssync recently pushed to it
+    private async isEchoOfPush(
+        connection: PlatformConnection,
+        platformProductGid: string,
+        canonicalVariants: CanonicalProductVariant[],
+    ): Promise<boolean> {
+        if (canonicalVariants.length === 0) return false;
+        for (const cv of canonicalVariants) {
+            const mapping = cv.Id ? await this.mappingsService.getMappingByPlatformIdentifiers(connection.Id, platformProductGid, cv.Id) : null;
+            if (!mapping || !this.echoSuppression.findVariantEcho(mapping, cv)) {
+                return false; // New variant or a genuine change
+            }
+        }
+        return true;
+    }
+}
@@ -8,6 +8,7 @@ import { PlatformProductMappingsModule } from '../../platform-product-mappings/p
 import { SquareApiClientService } from './square-api-client.service';
 import { SquareMapper } from './square.mapper';
 import { SquareAdapter } from './square.adapter';
+import { SyncEventsService } from '../../sync-engine/sync-events.service';
 
 @Module({
   imports: [
@@ -22,7 +23,8 @@ import { SquareAdapter } from './square.adapter';
     SquareApiClientService,
     SquareMapper,
     SquareAdapter,
+    SyncEventsService,
   ],
-  exports: [SquareAdapter],
+  exports: [SquareAdapter, SquareApiClientService],
 })
 export class SquareAdapterModule {}
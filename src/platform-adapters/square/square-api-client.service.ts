@@ -248,6 +248,33 @@ export interface SquareBatchChangeInventoryResponse {
   counts?: SquareInventoryCount[]; // Updated inventory counts
 }
 
+// --- Interfaces for Orders ---
+export interface SquareOrderLineItem {
+  uid?: string;
+  name?: string;
+  quantity: string; // Decimal string
+  catalog_object_id?: string; // ItemVariation ID
+  variation_name?: string;
+  base_price_money?: SquareMoney;
+  total_money?: SquareMoney;
+}
+
+export interface SquareOrder {
+  id: string;
+  location_id: string;
+  reference_id?: string;
+  state?: 'OPEN' | 'COMPLETED' | 'CANCELED' | 'DRAFT';
+  created_at?: string;
+  updated_at?: string;
+  closed_at?: string;
+  version?: number;
+  line_items?: SquareOrderLineItem[];
+  total_money?: SquareMoney;
+  customer_id?: string;
+  tenders?: Array<{ id: string; type?: string; amount_money?: SquareMoney }>;
+  fulfillments?: Array<{ shipment_details?: { recipient?: { email_address?: string } }; pickup_details?: { recipient?: { email_address?: string } } }>;
+}
+
 @Injectable()
 export class SquareApiClientService {
   private readonly logger = new Logger(SquareApiClientService.name);
@@ -601,5 +628,61 @@ export class SquareApiClientService {
     }
   }
 
+  // --- Orders ---
+
+  async retrieveOrder(connection: PlatformConnection, orderId: string): Promise<SquareOrder | null> {
+    const headers = await this._getHeaders(connection);
+    try {
+      const response = await this.httpService.axiosRef.get<{ order?: SquareOrder; errors?: any[] }>(
+        `${this.baseUrl}/orders/${orderId}`,
+        { headers },
+      );
+      return response.data.order || null;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        this.logger.warn(`Square order ${orderId} not found (404).`);
+        return null;
+      }
+      this.logger.error(`Error fetching Square order ${orderId}: ${error.response?.data ? JSON.stringify(error.response.data) : error.message}`);
+      throw new InternalServerErrorException(`Failed to fetch Square order ${orderId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Searches orders across all of the merchant's locations updated since `since`.
+   */
+  async searchOrdersUpdatedSince(connection: PlatformConnection, since: Date): Promise<SquareOrder[]> {
+    const headers = await this._getHeaders(connection);
+    const locationIds = (await this._fetchSquareLocations(connection)).map(l => l.id);
+    if (locationIds.length === 0) return [];
+
+    const orders: SquareOrder[] = [];
+    let cursor: string | undefined;
+    do {
+      try {
+        const response = await this.httpService.axiosRef.post<{ orders?: SquareOrder[]; cursor?: string; errors?: any[] }>(
+          `${this.baseUrl}/orders/search`,
+          {
+            location_ids: locationIds.slice(0, 10), // Square allows at most 10 locations per search
+            cursor,
+            limit: 100,
+            query: {
+              filter: { date_time_filter: { updated_at: { start_at: since.toISOString() } } },
+              sort: { sort_field: 'UPDATED_AT', sort_order: 'ASC' },
+            },
+          },
+          { headers },
+        );
+        orders.push(...(response.data.orders || []));
+        cursor = response.data.cursor;
+      } catch (error) {
+        this.logger.error(`Error searching Square orders: ${error.response?.data ? JSON.stringify(error.response.data) : error.message}`);
+        throw new InternalServerErrorException(`Failed to search Square orders: ${error.message}`);
+      }
+    } while (cursor);
+
+    return orders;
+  }
+
   // TODO: Add methods for deleting catalog objects and managing inventory adjustments if needed.
 }
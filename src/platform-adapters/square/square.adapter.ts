@@ -6,10 +6,17 @@ import { BaseAdapter, BaseSyncLogic } from '../base-adapter.interface';
 import { ProductsService } from '../../canonical-data/products.service';
 import { InventoryService, CanonicalInventoryLevel } from '../../canonical-data/inventory.service';
 import { PlatformProductMappingsService, PlatformProductMapping } from '../../platform-product-mappings/platform-product-mappings.service';
-import { Product, ProductVariant as SupabaseProductVariant } from '../../common/types/supabase.types';
+import { InventoryAdjustmentReason, Product, ProductVariant as SupabaseProductVariant } from '../../common/types/supabase.types';
 import { randomUUID } from 'crypto';
 import { CanonicalProduct, CanonicalProductVariant } from '../shopify/shopify.mapper';
 import { SquareInventoryChange } from './square-api-client.service';
+import { SyncEventsService } from '../../sync-engine/sync-events.service';
+import { EchoSuppressionService } from '../../sync-engine/echo-suppression.service';
+import { ConflictResolutionService } from '../../sync-engine/conflict-resolution.service';
+import { InventoryUpdateResult, InventoryUpdateRowResult, newInventoryRowResult, summarizeInventoryResults } from '../inventory-update-result';
+
+// Square's inventory batch-change accepts up to 100 changes per request
+const SQUARE_INVENTORY_BATCH_SIZE = 100;
 
 @Injectable()
 export class SquareAdapter implements BaseAdapter {
@@ -21,6 +28,9 @@ export class SquareAdapter implements BaseAdapter {
         private readonly productsService: ProductsService,
         private readonly inventoryService: InventoryService,
         private readonly mappingsService: PlatformProductMappingsService,
+        private readonly syncEventsService: SyncEventsService,
+        private readonly echoSuppression: EchoSuppressionService,
+        private readonly conflictResolution: ConflictResolutionService,
     ) {}
 
     getApiClient(connection: PlatformConnection): SquareApiClientService {
@@ -508,94 +518,154 @@ export class SquareAdapter implements BaseAdapter {
     async updateInventoryLevels(
         connection: PlatformConnection,
         inventoryUpdates: Array<{ mapping: PlatformProductMapping; level: CanonicalInventoryLevel }>
-    ): Promise<{ successCount: number; failureCount: number; errors: string[] }> {
+    ): Promise<InventoryUpdateResult> {
         this.logger.log(`Starting Square updateInventoryLevels for ${inventoryUpdates.length} items on connection ${connection.Id}`);
-        const apiClient = this.getApiClient(connection);
-        const idempotencyKey = randomUUID();
-        
-        let successCount = 0;
-        let failureCount = 0;
-        const errors: string[] = [];
-        const changes: SquareInventoryChange[] = [];
+        const results: InventoryUpdateRowResult[] = [];
+        const changes: Array<{ row: InventoryUpdateRowResult; change: SquareInventoryChange }> = [];
 
         if (inventoryUpdates.length === 0) {
             this.logger.log('No inventory updates to process for Square.');
-            return { successCount: 0, failureCount: 0, errors: [] };
+            return summarizeInventoryResults([]);
         }
 
         for (const update of inventoryUpdates) {
             const { mapping, level } = update;
+            const row = newInventoryRowResult(mapping, level);
+            results.push(row);
 
             if (!mapping.PlatformVariantId) {
-                const errMsg = `PlatformVariantId (Square ItemVariation ID) missing for mapping with ProductVariantId ${mapping.ProductVariantId}. Skipping inventory update.`;
-                this.logger.warn(errMsg);
-                errors.push(errMsg);
-                failureCount++; // Count as failure as we can't process it
+                row.error = `PlatformVariantId (Square ItemVariation ID) missing for mapping with ProductVariantId ${mapping.ProductVariantId}. Skipping inventory update.`;
+                this.logger.warn(row.error);
                 continue;
             }
             if (!level.PlatformLocationId) {
-                const errMsg = `PlatformLocationId (Square Location ID) missing for inventory level of ProductVariantId ${mapping.ProductVariantId}. Skipping inventory update.`;
-                this.logger.warn(errMsg);
-                errors.push(errMsg);
-                failureCount++;
+                row.error = `PlatformLocationId (Square Location ID) missing for inventory level of ProductVariantId ${mapping.ProductVariantId}. Skipping inventory update.`;
+                this.logger.warn(row.error);
                 continue;
             }
 
             changes.push({
-                type: 'PHYSICAL_COUNT',
-                physical_count: {
-                    catalog_object_id: mapping.PlatformVariantId,
-                    state: 'IN_STOCK',
-                    location_id: level.PlatformLocationId,
-                    quantity: Math.round(level.Quantity).toString(), // Ensure integer string
-                    occurred_at: new Date().toISOString(),
+                row,
+                change: {
+                    type: 'PHYSICAL_COUNT',
+                    physical_count: {
+                        catalog_object_id: mapping.PlatformVariantId,
+                        state: 'IN_STOCK',
+                        location_id: level.PlatformLocationId,
+                        quantity: Math.round(level.Quantity).toString(), // Ensure integer string
+                        occurred_at: new Date().toISOString(),
+                    },
                 },
             });
         }
 
-        if (changes.length === 0) {
-            this.logger.log('No valid inventory changes prepared for Square batch update.');
-            // Return current failure count which might be > 0 due to skipped items
-            return { successCount, failureCount, errors }; 
+        await this.sendInventoryChanges(connection, changes);
+
+        const summary = summarizeInventoryResults(results);
+        this.logger.log(`Square updateInventoryLevels completed. Total Success: ${summary.successCount}, Total Failures (incl. skipped): ${summary.failureCount}`);
+        if (summary.errors.length > 0) {
+            this.logger.warn(`Errors during Square inventory update: ${JSON.stringify(summary.errors)}`);
         }
+        return summary;
+    }
 
-        const requestBody: SquareBatchChangeInventoryRequest = {
-            idempotency_key: idempotencyKey,
-            changes: changes,
-            ignore_unchanged_counts: true, // Good to set to avoid errors if inventory is already correct
-        };
+    /**
+     * Sends ledger deltas as ADJUSTMENT changes, so sales rung up in Square while
+     * the push was queued are not overwritten. Stock added comes in from NONE;
+     * stock removed goes to SOLD for sales and to WASTE otherwise.
+     */
+    async adjustInventoryLevels(
+        connection: PlatformConnection,
+        adjustments: Array<{ mapping: PlatformProductMapping; level: CanonicalInventoryLevel; delta: number; reason: InventoryAdjustmentReason | null }>
+    ): Promise<InventoryUpdateResult> {
+        const results: InventoryUpdateRowResult[] = [];
+        const changes: Array<{ row: InventoryUpdateRowResult; change: SquareInventoryChange }> = [];
+
+        for (const { mapping, level, delta, reason } of adjustments) {
+            const row = newInventoryRowResult(mapping, level);
+            results.push(row);
+            if (!mapping.PlatformVariantId) {
+                row.error = `PlatformVariantId (Square ItemVariation ID) missing for mapping with ProductVariantId ${mapping.ProductVariantId}. Skipping inventory adjustment.`;
+                continue;
+            }
+            if (!level.PlatformLocationId) {
+                row.error = `PlatformLocationId (Square Location ID) missing for inventory level of ProductVariantId ${mapping.ProductVariantId}. Skipping inventory adjustment.`;
+                continue;
+            }
+            const quantity = Math.abs(Math.round(delta));
+            if (quantity === 0) {
+                row.success = true;
+                continue;
+            }
+            changes.push({
+                row,
+                change: {
+                    type: 'ADJUSTMENT',
+                    adjustment: {
+                        catalog_object_id: mapping.PlatformVariantId,
+                        from_state: delta > 0 ? 'NONE' : 'IN_STOCK',
+                        to_state: delta > 0 ? 'IN_STOCK' : reason === 'sale' ? 'SOLD' : 'WASTE',
+                        location_id: level.PlatformLocationId,
+                        quantity: quantity.toString(),
+                        occurred_at: new Date().toISOString(),
+                    },
+                },
+            });
+        }
 
-        try {
-            const response = await apiClient.batchChangeInventory(connection, requestBody);
+        await this.sendInventoryChanges(connection, changes);
+        return summarizeInventoryResults(results);
+    }
 
-            if (response.errors && response.errors.length > 0) {
-                const errorMessages = response.errors.map((err: any) => 
+    /**
+     * Sends inventory changes through batch-change, up to 100 per request, and
+     * marks each change's row. Errors naming a variation fail that change; any
+     * other error fails the batch.
+     */
+    private async sendInventoryChanges(
+        connection: PlatformConnection,
+        changes: Array<{ row: InventoryUpdateRowResult; change: SquareInventoryChange }>,
+    ): Promise<void> {
+        const apiClient = this.getApiClient(connection);
+        for (let i = 0; i < changes.length; i += SQUARE_INVENTORY_BATCH_SIZE) {
+            const batch = changes.slice(i, i + SQUARE_INVENTORY_BATCH_SIZE);
+            const requestBody: SquareBatchChangeInventoryRequest = {
+                idempotency_key: randomUUID(),
+                changes: batch.map(c => c.change),
+                ignore_unchanged_counts: true, // Good to set to avoid errors if inventory is already correct
+            };
+
+            try {
+                const response = await apiClient.batchChangeInventory(connection, requestBody);
+                const responseErrors: any[] = response.errors || [];
+                const describe = (err: any) =>
                     `Detail: ${err.detail}, Category: ${err.category}, Code: ${err.code}` +
                     `${err.catalog_object_id ? ', VarID: ' + err.catalog_object_id : ''}` +
-                    `${err.location_id ? ', LocID: ' + err.location_id : ''}`
-                ).join('; ');
-                this.logger.error(`Error updating Square inventory (batch change). Idempotency Key: ${idempotencyKey}. Errors: ${errorMessages}`);
-                // Assume all changes in this batch failed if a batch-level error occurs
-                failureCount += changes.length; 
-                errors.push(`Square inventory update batch failed: ${errorMessages}`);
-            } else {
-                // If no batch-level errors, assume all changes in *this* batch were successful.
-                // Square's batchChangeInventory returns updated counts, not per-change success/failure directly in response.errors usually.
-                // The absence of errors is the primary success indicator for the batch.
-                successCount += changes.length;
-                this.logger.log(`Square inventory update batch successful for idempotency key: ${idempotencyKey}. ${changes.length} changes processed.`);
+                    `${err.location_id ? ', LocID: ' + err.location_id : ''}`;
+                const batchErrors = responseErrors.filter(err => !err.catalog_object_id);
+                for (const { row, change } of batch) {
+                    const target = change.physical_count ?? change.adjustment;
+                    const rowErrors = responseErrors.filter(err =>
+                        err.catalog_object_id === target?.catalog_object_id &&
+                        (!err.location_id || err.location_id === target?.location_id));
+                    const failures = [...rowErrors, ...batchErrors];
+                    row.success = failures.length === 0;
+                    if (failures.length > 0) {
+                        row.error = `Square inventory update failed: ${failures.map(describe).join('; ')}`;
+                    }
+                }
+                if (responseErrors.length > 0) {
+                    this.logger.error(`Error updating Square inventory (batch change). Idempotency Key: ${requestBody.idempotency_key}. Errors: ${responseErrors.map(describe).join('; ')}`);
+                } else {
+                    this.logger.log(`Square inventory update batch successful for idempotency key: ${requestBody.idempotency_key}. ${batch.length} changes processed.`);
+                }
+            } catch (error) {
+                this.logger.error(`Exception during Square batchChangeInventory for key ${requestBody.idempotency_key}: ${error.message}`, error.stack);
+                for (const { row } of batch) {
+                    row.error = `Failed to update inventory on Square: ${error.message}`;
+                }
             }
-        } catch (error) {
-            this.logger.error(`Exception during Square batchChangeInventory for key ${idempotencyKey}: ${error.message}`, error.stack);
-            failureCount += changes.length; // Assume all changes in this batch failed due to exception
-            errors.push(`Failed to update inventory on Square: ${error.message}`);
         }
-        
-        this.logger.log(`Square updateInventoryLevels completed. Total Success: ${successCount}, Total Failures (incl. skipped): ${failureCount}`);
-        if (errors.length > 0) {
-            this.logger.warn(`Errors during Square inventory update: ${JSON.stringify(errors)}`);
-        }
-        return { successCount, failureCount, errors };
     }
 
     async processWebhook(
@@ -626,7 +696,10 @@ export class SquareAdapter implements BaseAdapter {
                 // 1. Find PlatformProductMapping by PlatformVariantId
                 // We might need to also consider platformLocationId if our canonical inventory is location-aware per platform
                 const mapping = await this.mappingsService.getMappingByPlatformVariantIdAndConnection(platformVariantId, connection.Id);
-                if (mapping && mapping.ProductVariantId) {
+                const echo = mapping ? this.echoSuppression.findInventoryEcho(mapping, platformLocationId, newQuantity) : null;
+                if (echo) {
+                    this.logger.log(`Square count ${newQuantity} for variation ${platformVariantId} at ${platformLocationId} was set by sssync (change set ${echo.changeSetId}). Ignoring echo.`);
+                } else if (mapping && mapping.ProductVariantId) {
                     // 2. Update canonical inventory
                     await this.inventoryService.updateLevel({
                         ProductVariantId: mapping.ProductVariantId,
@@ -669,10 +742,22 @@ export class SquareAdapter implements BaseAdapter {
                 }
             }
 
-        } else if (eventType && eventType.startsWith('order.')) {
-            this.logger.log(`Received Square order webhook: ${eventType}, Order ID: ${payload.data?.object?.order?.id}`);
-            // TODO: Implement order processing
-            this.logger.warn('Order processing from Square webhook not yet implemented.');
+        } else if (eventType === 'order.created' || eventType === 'order.updated') {
+            // Order webhooks only carry the order ID and state; the ingestion listener fetches the full order
+            const orderId = payload.data?.id
+                || payload.data?.object?.order_created?.order_id
+                || payload.data?.object?.order_updated?.order_id;
+            this.logger.log(`Received Square order webhook: ${eventType}, Order ID: ${orderId}`);
+            if (orderId) {
+                this.syncEventsService.emitOrderSyncEvent({
+                    type: 'ORDER_RECEIVED',
+                    platformOrderId: orderId,
+                    userId: connection.UserId,
+                    sourceConnectionId: connection.Id,
+                    sourcePlatform: 'square',
+                    webhookId,
+                });
+            }
         }
         // Add more event type handlers
 
@@ -764,36 +849,38 @@ export class SquareAdapter implements BaseAdapter {
                             return null;
                         }
                         return {
-                            ProductId: savedSupabaseProduct!.Id,
-                            UserId: userId,
-                            Sku: cv.Sku,
-                            Barcode: cv.Barcode,
-                            Title: cv.Title,
-                            Description: cv.Description,
-                            Price: cv.Price,
-                            CompareAtPrice: cv.CompareAtPrice,
-                            Weight: cv.Weight,
-                            WeightUnit: cv.WeightUnit,
-                            Options: cv.Options,
-                            RequiresShipping: cv.RequiresShipping !== undefined ? cv.RequiresShipping : true,
-                            IsTaxable: cv.IsTaxable !== undefined ? cv.IsTaxable : true,
-                            TaxCode: cv.TaxCode,
-                            ImageId: cv.ImageId, // If image handling is part of this
+                            cv,
+                            row: {
+                                ProductId: savedSupabaseProduct!.Id,
+                                UserId: userId,
+                                Sku: cv.Sku,
+                                Barcode: cv.Barcode,
+                                Title: cv.Title,
+                                Description: cv.Description,
+                                Price: cv.Price,
+                                CompareAtPrice: cv.CompareAtPrice,
+                                Weight: cv.Weight,
+                                WeightUnit: cv.WeightUnit,
+                                Options: cv.Options,
+                                RequiresShipping: cv.RequiresShipping !== undefined ? cv.RequiresShipping : true,
+                                IsTaxable: cv.IsTaxable !== undefined ? cv.IsTaxable : true,
+                                TaxCode: cv.TaxCode,
+                                ImageId: cv.ImageId, // If image handling is part of this
+                            },
                         };
                     })
-                    .filter(Boolean) as Array<Omit<SupabaseProductVariant, 'Id' | 'CreatedAt' | 'UpdatedAt'>>;
+                    .filter(Boolean) as Array<{ cv: CanonicalProductVariant; row: Omit<SupabaseProductVariant, 'Id' | 'CreatedAt' | 'UpdatedAt'> }>;
+
+                // Variants sssync already has only take the platform values the connection's conflict rules accept
+                for (const { cv, row } of variantsToSavePrepared) {
+                    Object.assign(row, await this.conflictResolution.reconcileIncomingVariant(connection, platformProductId, cv.Id!, cv));
+                }
 
                 if (variantsToSavePrepared.length > 0) {
-                    const savedSupabaseVariants = await this.productsService.saveVariants(variantsToSavePrepared);
-                    
-                    // Re-fetch canonicalVariants that were successfully prepared & SKUs to ensure we only process those
-                    const relevantOriginalCanonicalVariants = canonicalVariants.filter(cv => 
-                        cv.ProductId === cProduct.Id && 
-                        cv.Sku && cv.Sku.trim() !== ''
-                    );
+                    const savedSupabaseVariants = await this.productsService.saveVariants(variantsToSavePrepared.map(p => p.row));
 
-                    for (const originalCv of relevantOriginalCanonicalVariants) {
-                        const savedSupabaseVariant = savedSupabaseVariants.find(sv => sv.Sku === originalCv.Sku && sv.ProductId === savedSupabaseProduct!.Id);
+                    for (const { cv: originalCv, row } of variantsToSavePrepared) {
+                        const savedSupabaseVariant = savedSupabaseVariants.find(sv => sv.Sku === row.Sku && sv.ProductId === savedSupabaseProduct!.Id);
                         if (!savedSupabaseVariant) {
                             this.logger.warn(`Could not find saved Supabase variant for canonical variant SKU ${originalCv.Sku} of product ${cProduct.Title}`);
                             continue;
@@ -0,0 +1,306 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  PlatformConnection,
+  PlatformConnectionsService,
+} from '../../platform-connections/platform-connections.service';
+import axios, { AxiosInstance } from 'axios';
+
+// --- Whatnot Seller API (GraphQL) Interfaces ---
+
+export interface WhatnotMoney {
+  amount: number; // In minor units (cents)
+  currency: string;
+}
+
+export interface WhatnotListing {
+  id: string;
+  title?: string;
+  description?: string;
+  sku?: string | null;
+  quantity?: number;
+  price?: WhatnotMoney | null;
+  status?: string; // ACTIVE | DRAFT | SOLD | ARCHIVED
+  transactionType?: 'BUY_IT_NOW' | 'AUCTION';
+  condition?: string | null;
+  category?: { id: string; label?: string } | null;
+  images?: Array<{ url: string }>;
+  liveStream?: { id: string } | null;
+}
+
+export interface WhatnotListingInput {
+  title: string;
+  description?: string;
+  sku?: string;
+  quantity: number;
+  price: WhatnotMoney;
+  transactionType: 'BUY_IT_NOW' | 'AUCTION';
+  categoryId?: string;
+  subCategoryId?: string;
+  shippingProfileId?: string;
+  offerable?: boolean;
+  hazmat?: boolean;
+  condition?: string;
+  costPerItem?: WhatnotMoney;
+  imageUrls?: string[];
+}
+
+export interface WhatnotLiveStream {
+  id: string;
+  title?: string;
+  status: string; // CREATED | PLAYING | ENDED | CANCELLED
+  startTime?: string | null;
+  endTime?: string | null;
+  listings: WhatnotListing[];
+}
+
+export interface WhatnotOrderItem {
+  listingId: string;
+  sku?: string | null;
+  quantity: number;
+}
+
+export interface WhatnotOrder {
+  id: string;
+  status?: string;
+  liveStreamId?: string | null;
+  createdAt?: string;
+  items: WhatnotOrderItem[];
+}
+
+export interface WhatnotFetchedData {
+  listings: WhatnotListing[];
+}
+
+const PAGE_SIZE = 100;
+
+const LISTING_FIELDS = `
+  id
+  title
+  description
+  sku
+  quantity
+  price { amount currency }
+  status
+  transactionType
+  condition
+  category { id label }
+  images { url }
+  liveStream { id }
+`;
+
+@Injectable()
+export class WhatnotApiClient {
+  private readonly logger = new Logger(WhatnotApiClient.name);
+  private readonly axiosInstance: AxiosInstance;
+
+  constructor(
+    private readonly connectionsService: PlatformConnectionsService,
+    private readonly configService: ConfigService,
+  ) {
+    this.axiosInstance = axios.create({
+      baseURL: this.configService.get<string>(
+        'WHATNOT_API_BASE_URL',
+        'https://api.whatnot.com/seller-api/graphql',
+      ),
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  private async getAccessToken(connection: PlatformConnection): Promise<string> {
+    const creds = await this.connectionsService.getDecryptedCredentials(connection);
+    const token = creds?.accessToken || creds?.apiKey;
+    if (!token) throw new UnauthorizedException('Missing Whatnot access token');
+    return token;
+  }
+
+  private async graphql<T = any>(
+    connection: PlatformConnection,
+    query: string,
+    variables: Record<string, any> = {},
+  ): Promise<T> {
+    const accessToken = await this.getAccessToken(connection);
+    try {
+      const resp = await this.axiosInstance.post<{ data?: T; errors?: Array<{ message: string }> }>(
+        '',
+        { query, variables },
+        { headers: { Authorization: `Bearer ${accessToken}` } },
+      );
+      if (resp.data?.errors?.length) {
+        throw new Error(resp.data.errors.map(e => e.message).join('; '));
+      }
+      return resp.data.data as T;
+    } catch (e: any) {
+      const detail = e?.response?.data?.errors?.map((err: any) => err.message).join('; ') || e?.message;
+      this.logger.error(`Whatnot GraphQL request failed: ${e?.response?.status ?? ''} ${detail}`);
+      const error: any = new Error(`Whatnot API error: ${detail}`);
+      error.status = e?.response?.status;
+      throw error;
+    }
+  }
+
+  private assertNoUserErrors(operation: string, userErrors?: Array<{ message: string }>): void {
+    if (userErrors?.length) {
+      throw new Error(`Whatnot ${operation} failed: ${userErrors.map(e => e.message).join('; ')}`);
+    }
+  }
+
+  async fetchAllRelevantData(connection: PlatformConnection): Promise<WhatnotFetchedData> {
+    const listings = await this.getAllListings(connection);
+    this.logger.log(`Fetched ${listings.length} Whatnot listings for connection ${connection.Id}`);
+    return { listings };
+  }
+
+  async getAllListings(connection: PlatformConnection): Promise<WhatnotListing[]> {
+    const listings: WhatnotListing[] = [];
+    let after: string | null = null;
+    do {
+      const data = await this.graphql<{
+        me: {
+          listings: {
+            pageInfo: { hasNextPage: boolean; endCursor: string | null };
+            nodes: WhatnotListing[];
+          };
+        };
+      }>(
+        connection,
+        `query Listings($first: Int!, $after: String) {
+          me { listings(first: $first, after: $after) {
+            pageInfo { hasNextPage endCursor }
+            nodes { ${LISTING_FIELDS} }
+          } }
+        }`,
+        { first: PAGE_SIZE, after },
+      );
+      const page = data?.me?.listings;
+      listings.push(...(page?.nodes || []));
+      after = page?.pageInfo?.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (after);
+    return listings;
+  }
+
+  async getListing(connection: PlatformConnection, listingId: string): Promise<WhatnotListing | null> {
+    const data = await this.graphql<{ listing: WhatnotListing | null }>(
+      connection,
+      `query Listing($id: ID!) { listing(id: $id) { ${LISTING_FIELDS} } }`,
+      { id: listingId },
+    );
+    return data?.listing ?? null;
+  }
+
+  async createListing(connection: PlatformConnection, input: WhatnotListingInput): Promise<WhatnotListing> {
+    const data = await this.graphql<{
+      listingCreate: { listing: WhatnotListing | null; userErrors?: Array<{ message: string }> };
+    }>(
+      connection,
+      `mutation ListingCreate($input: ListingCreateInput!) {
+        listingCreate(input: $input) { listing { ${LISTING_FIELDS} } userErrors { message } }
+      }`,
+      { input },
+    );
+    this.assertNoUserErrors('listingCreate', data?.listingCreate?.userErrors);
+    if (!data?.listingCreate?.listing) throw new Error('Whatnot listingCreate returned no listing');
+    return data.listingCreate.listing;
+  }
+
+  async updateListing(
+    connection: PlatformConnection,
+    listingId: string,
+    input: Partial<WhatnotListingInput> & { status?: 'ACTIVE' | 'DRAFT' | 'ARCHIVED' },
+  ): Promise<WhatnotListing> {
+    const data = await this.graphql<{
+      listingUpdate: { listing: WhatnotListing | null; userErrors?: Array<{ message: string }> };
+    }>(
+      connection,
+      `mutation ListingUpdate($id: ID!, $input: ListingUpdateInput!) {
+        listingUpdate(id: $id, input: $input) { listing { ${LISTING_FIELDS} } userErrors { message } }
+      }`,
+      { id: listingId, input },
+    );
+    this.assertNoUserErrors('listingUpdate', data?.listingUpdate?.userErrors);
+    if (!data?.listingUpdate?.listing) throw new Error(`Whatnot listing ${listingId} not found`);
+    return data.listingUpdate.listing;
+  }
+
+  async deleteListing(connection: PlatformConnection, listingId: string): Promise<void> {
+    const data = await this.graphql<{ listingDelete: { userErrors?: Array<{ message: string }> } }>(
+      connection,
+      `mutation ListingDelete($id: ID!) { listingDelete(id: $id) { userErrors { message } } }`,
+      { id: listingId },
+    );
+    this.assertNoUserErrors('listingDelete', data?.listingDelete?.userErrors);
+  }
+
+  /**
+   * Loads a live show together with the listings scheduled in it.
+   */
+  async getLiveStream(connection: PlatformConnection, showId: string): Promise<WhatnotLiveStream | null> {
+    const data = await this.graphql<{
+      liveStream: (Omit<WhatnotLiveStream, 'listings'> & { listings?: { nodes: WhatnotListing[] } }) | null;
+    }>(
+      connection,
+      `query LiveStream($id: ID!, $first: Int!) {
+        liveStream(id: $id) {
+          id title status startTime endTime
+          listings(first: $first) { nodes { ${LISTING_FIELDS} } }
+        }
+      }`,
+      { id: showId, first: PAGE_SIZE },
+    );
+    if (!data?.liveStream) return null;
+    const { listings, ...show } = data.liveStream;
+    return { ...show, listings: listings?.nodes || [] };
+  }
+
+  /**
+   * Orders placed during a live show; used to work out what sold once it ends.
+   */
+  async getOrdersForLiveStream(connection: PlatformConnection, showId: string): Promise<WhatnotOrder[]> {
+    const orders: WhatnotOrder[] = [];
+    let after: string | null = null;
+    do {
+      const data = await this.graphql<{
+        me: {
+          orders: {
+            pageInfo: { hasNextPage: boolean; endCursor: string | null };
+            nodes: Array<{
+              id: string;
+              status?: string;
+              createdAt?: string;
+              liveStream?: { id: string } | null;
+              items: { nodes: Array<{ quantity: number; listing: { id: string; sku?: string | null } }> };
+            }>;
+          };
+        };
+      }>(
+        connection,
+        `query ShowOrders($first: Int!, $after: String, $liveStreamId: ID!) {
+          me { orders(first: $first, after: $after, filter: { liveStreamId: $liveStreamId }) {
+            pageInfo { hasNextPage endCursor }
+            nodes {
+              id status createdAt liveStream { id }
+              items(first: 50) { nodes { quantity listing { id sku } } }
+            }
+          } }
+        }`,
+        { first: PAGE_SIZE, after, liveStreamId: showId },
+      );
+      const page = data?.me?.orders;
+      for (const node of page?.nodes || []) {
+        orders.push({
+          id: node.id,
+          status: node.status,
+          createdAt: node.createdAt,
+          liveStreamId: node.liveStream?.id ?? null,
+          items: (node.items?.nodes || []).map(i => ({
+            listingId: i.listing.id,
+            sku: i.listing.sku,
+            quantity: i.quantity,
+          })),
+        });
+      }
+      after = page?.pageInfo?.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (after);
+    return orders;
+  }
+}
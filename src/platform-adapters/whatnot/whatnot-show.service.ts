@@ -0,0 +1,195 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { WhatnotApiClient, WhatnotLiveStream } from './whatnot-api-client.service';
+import { PlatformConnection, PlatformConnectionsService } from '../../platform-connections/platform-connections.service';
+import { PlatformProductMappingsService } from '../../platform-product-mappings/platform-product-mappings.service';
+import { InventoryService } from '../../canonical-data/inventory.service';
+import { InventoryReservationsService, NewInventoryReservation } from '../../canonical-data/inventory-reservations.service';
+import { SyncEventsService } from '../../sync-engine/sync-events.service';
+import { InventoryReservation } from '../../common/types/supabase.types';
+
+const CLOSED_SHOW_STATUSES = ['ENDED', 'CANCELLED'];
+// Shows without an end time are assumed to run this long when sweeping stale reservations
+const DEFAULT_SHOW_DURATION_MS = 4 * 60 * 60 * 1000;
+
+export interface ShowReservationResult {
+    showId: string;
+    status: string;
+    reservations: InventoryReservation[];
+    unmappedListingIds: string[];
+}
+
+export interface ShowCompletionResult {
+    showId: string;
+    released: number;
+    sold: number;
+    reservations: InventoryReservation[];
+}
+
+/**
+ * Holds stock for listings scheduled in a Whatnot live show. While a show is
+ * pending or live its units are withheld from every other channel; once it ends
+ * the sold units are decremented everywhere and the rest are released.
+ */
+@Injectable()
+export class WhatnotShowService {
+    private readonly logger = new Logger(WhatnotShowService.name);
+
+    constructor(
+        private readonly api: WhatnotApiClient,
+        private readonly connectionsService: PlatformConnectionsService,
+        private readonly mappingsService: PlatformProductMappingsService,
+        private readonly inventoryService: InventoryService,
+        private readonly reservationsService: InventoryReservationsService,
+        private readonly syncEventsService: SyncEventsService,
+    ) {}
+
+    async reserveShowInventory(connection: PlatformConnection, showId: string): Promise<ShowReservationResult> {
+        const show = await this.api.getLiveStream(connection, showId);
+        if (!show) {
+            throw new NotFoundException(`Whatnot show ${showId} not found`);
+        }
+        if (CLOSED_SHOW_STATUSES.includes(show.status)) {
+            throw new BadRequestException(`Whatnot show ${showId} is ${show.status.toLowerCase()}; nothing to reserve`);
+        }
+
+        const toReserve: NewInventoryReservation[] = [];
+        const unmappedListingIds: string[] = [];
+        for (const listing of show.listings) {
+            const mapping = await this.mappingsService.getMappingByPlatformVariantIdAndConnection(listing.id, connection.Id);
+            if (!mapping?.ProductVariantId) {
+                unmappedListingIds.push(listing.id);
+                continue;
+            }
+            const quantity = await this.capToAvailable(mapping.ProductVariantId, connection.Id, listing.quantity ?? 0);
+            if (quantity <= 0) continue;
+            toReserve.push({
+                UserId: connection.UserId,
+                ProductVariantId: mapping.ProductVariantId,
+                PlatformConnectionId: connection.Id,
+                SourceReference: show.id,
+                PlatformListingId: listing.id,
+                Quantity: quantity,
+                StartsAt: show.startTime ?? null,
+                EndsAt: this.resolveShowEnd(show),
+            });
+        }
+
+        const reservations = await this.reservationsService.upsertActiveReservations(toReserve);
+        if (unmappedListingIds.length > 0) {
+            this.logger.warn(`Whatnot show ${showId}: ${unmappedListingIds.length} listings are not linked to sssync products and were not reserved`);
+        }
+        this.emitInventoryChanges(connection, reservations.map(r => r.ProductVariantId));
+        this.logger.log(`Reserved ${reservations.length} variants for Whatnot show ${showId} on connection ${connection.Id}`);
+        return { showId: show.id, status: show.status, reservations, unmappedListingIds };
+    }
+
+    /**
+     * Settles a show's reservations. Sold quantities come from the show's orders
+     * unless the show was cancelled, in which case everything is released.
+     */
+    async completeShow(connection: PlatformConnection, showId: string, cancelled = false): Promise<ShowCompletionResult> {
+        const active = await this.reservationsService.getReservationsForSource(connection.Id, showId, true);
+        if (active.length === 0) {
+            this.logger.log(`No active reservations for Whatnot show ${showId}; nothing to complete`);
+            return { showId, released: 0, sold: 0, reservations: [] };
+        }
+
+        const soldByListing = new Map<string, number>();
+        if (!cancelled) {
+            const orders = await this.api.getOrdersForLiveStream(connection, showId);
+            for (const order of orders.filter(o => o.status !== 'CANCELLED')) {
+                for (const item of order.items) {
+                    soldByListing.set(item.listingId, (soldByListing.get(item.listingId) || 0) + (item.quantity || 0));
+                }
+            }
+        }
+
+        let released = 0;
+        let sold = 0;
+        const completed: InventoryReservation[] = [];
+        for (const reservation of active) {
+            const soldQty = reservation.PlatformListingId ? soldByListing.get(reservation.PlatformListingId) || 0 : 0;
+            const result = await this.reservationsService.completeReservation(reservation.Id, soldQty);
+            if (result.QuantitySold > 0) {
+                await this.inventoryService.decrementAcrossConnections(result.ProductVariantId, result.QuantitySold, undefined, {
+                    reason: 'sale',
+                    referenceId: reservation.Id,
+                    note: `Whatnot show ${showId}`,
+                });
+            }
+            sold += result.QuantitySold;
+            released += result.Quantity - result.QuantitySold;
+            completed.push(result);
+        }
+
+        this.emitInventoryChanges(connection, completed.map(r => r.ProductVariantId));
+        this.logger.log(`Completed Whatnot show ${showId}: ${sold} units sold, ${released} released`);
+        return { showId, released, sold, reservations: completed };
+    }
+
+    /**
+     * Completes reservations whose show should be over, in case the show-ended
+     * webhook never arrived. Shows still live on Whatnot are left alone.
+     */
+    async completeOverdueShows(): Promise<number> {
+        const overdue = await this.reservationsService.getOverdueReservations(new Date());
+        const shows = new Map<string, { connectionId: string; showId: string }>();
+        for (const r of overdue) {
+            shows.set(`${r.PlatformConnectionId}:${r.SourceReference}`, { connectionId: r.PlatformConnectionId, showId: r.SourceReference });
+        }
+
+        let completedCount = 0;
+        for (const { connectionId, showId } of shows.values()) {
+            try {
+                const connection = await this.connectionsService.getConnectionById(connectionId);
+                if (!connection) continue;
+                const show = await this.api.getLiveStream(connection, showId);
+                if (show && !CLOSED_SHOW_STATUSES.includes(show.status)) {
+                    this.logger.debug(`Whatnot show ${showId} is still ${show.status}; keeping reservations`);
+                    continue;
+                }
+                await this.completeShow(connection, showId, !show || show.status === 'CANCELLED');
+                completedCount++;
+            } catch (error) {
+                this.logger.error(`Failed to complete overdue Whatnot show ${showId} on connection ${connectionId}: ${error.message}`, error.stack);
+            }
+        }
+        return completedCount;
+    }
+
+    async getShowReservations(connection: PlatformConnection, showId: string): Promise<InventoryReservation[]> {
+        return this.reservationsService.getReservationsForSource(connection.Id, showId);
+    }
+
+    // --- Helpers ---
+
+    /**
+     * A show can't hold more than the Whatnot connection currently has in stock.
+     */
+    private async capToAvailable(variantId: string, connectionId: string, requested: number): Promise<number> {
+        const levels = await this.inventoryService.getInventoryLevelsForVariant(variantId);
+        const ownLevels = levels.filter(l => l.PlatformConnectionId === connectionId);
+        if (ownLevels.length === 0) return Math.max(0, requested);
+        const available = ownLevels.reduce((sum, l) => sum + (l.Quantity || 0), 0);
+        return Math.max(0, Math.min(requested, available));
+    }
+
+    private resolveShowEnd(show: WhatnotLiveStream): string | null {
+        if (show.endTime) return show.endTime;
+        if (!show.startTime) return null;
+        return new Date(new Date(show.startTime).getTime() + DEFAULT_SHOW_DURATION_MS).toISOString();
+    }
+
+    private emitInventoryChanges(connection: PlatformConnection, variantIds: string[]): void {
+        if (connection.SyncRules?.propagateInventory === false) return;
+        for (const variantId of new Set(variantIds)) {
+            this.syncEventsService.emitInventorySyncEvent({
+                type: 'INVENTORY_UPDATED',
+                variantId,
+                userId: connection.UserId,
+                sourceConnectionId: connection.Id,
+                sourcePlatform: 'whatnot',
+            });
+        }
+    }
+}
@@ -0,0 +1,94 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  UseGuards,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { WhatnotShowService } from './whatnot-show.service';
+import { PlatformConnectionsService } from '../../platform-connections/platform-connections.service';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AuthGuard } from '../../common/guards/auth.guard';
+
+interface CompleteShowRequest {
+  cancelled?: boolean;
+}
+
+@Controller('whatnot/:connectionId/shows')
+@UseGuards(AuthGuard)
+export class WhatnotShowsController {
+  private readonly logger = new Logger(WhatnotShowsController.name);
+
+  constructor(
+    private readonly showService: WhatnotShowService,
+    private readonly connectionsService: PlatformConnectionsService,
+  ) {}
+
+  /**
+   * Reserve stock for every linked listing scheduled in a show
+   */
+  @Post(':showId/reservations')
+  @HttpCode(HttpStatus.OK)
+  async reserveShowInventory(
+    @Param('connectionId') connectionId: string,
+    @Param('showId') showId: string,
+    @CurrentUser() user: any,
+  ) {
+    const connection = await this.getValidatedConnection(connectionId, user.userId);
+    this.logger.log(`Reserving inventory for Whatnot show ${showId} on connection ${connectionId}`);
+    return this.showService.reserveShowInventory(connection, showId);
+  }
+
+  /**
+   * List reservations (active and settled) for a show
+   */
+  @Get(':showId/reservations')
+  async getShowReservations(
+    @Param('connectionId') connectionId: string,
+    @Param('showId') showId: string,
+    @CurrentUser() user: any,
+  ) {
+    const connection = await this.getValidatedConnection(connectionId, user.userId);
+    return this.showService.getShowReservations(connection, showId);
+  }
+
+  /**
+   * Settle a show: decrement what sold and release the remaining held units
+   */
+  @Post(':showId/complete')
+  @HttpCode(HttpStatus.OK)
+  async completeShow(
+    @Param('connectionId') connectionId: string,
+    @Param('showId') showId: string,
+    @Body() body: CompleteShowRequest,
+    @CurrentUser() user: any,
+  ) {
+    const connection = await this.getValidatedConnection(connectionId, user.userId);
+    this.logger.log(`Completing Whatnot show ${showId} on connection ${connectionId}`);
+    return this.showService.completeShow(connection, showId, body?.cancelled === true);
+  }
+
+  private async getValidatedConnection(connectionId: string, userId: string) {
+    const connection = await this.connectionsService.getConnectionById(connectionId, userId);
+
+    if (!connection) {
+      throw new NotFoundException(`Connection ${connectionId} not found`);
+    }
+
+    if (connection.PlatformType !== 'whatnot') {
+      throw new BadRequestException(`Connection ${connectionId} is not a Whatnot connection`);
+    }
+
+    if (!connection.IsEnabled) {
+      throw new BadRequestException(`Connection ${connectionId} is disabled`);
+    }
+
+    return connection;
+  }
+}
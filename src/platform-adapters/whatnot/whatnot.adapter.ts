@@ -1,72 +1,420 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, InternalServerErrorException } from '@nestjs/common';
 import { BaseAdapter, BaseSyncLogic } from '../base-adapter.interface';
+import { WhatnotApiClient, WhatnotFetchedData, WhatnotOrderItem } from './whatnot-api-client.service';
+import { WhatnotListingContext, WhatnotMapper } from './whatnot.mapper';
+import { WhatnotShowService } from './whatnot-show.service';
+import { PlatformConnection } from '../../platform-connections/platform-connections.service';
+import { ProductsService } from '../../canonical-data/products.service';
+import { InventoryService, CanonicalInventoryLevel } from '../../canonical-data/inventory.service';
+import { InventoryReservationsService } from '../../canonical-data/inventory-reservations.service';
+import { PlatformProductMappingsService, PlatformProductMapping } from '../../platform-product-mappings/platform-product-mappings.service';
+import { CanonicalProduct, CanonicalProductVariant } from '../shopify/shopify.mapper';
+import { Product, ProductVariant } from '../../common/types/supabase.types';
+import { Whatnot } from '../../products/types/generate-job.types';
+import { ConflictResolutionService } from '../../sync-engine/conflict-resolution.service';
+import { SyncEventsService } from '../../sync-engine/sync-events.service';
+
+const SHOW_SCHEDULED_EVENTS = ['livestream.scheduled', 'livestream.updated'];
+const SHOW_ENDED_EVENTS = ['livestream.ended', 'livestream.cancelled'];
+const ORDER_EVENTS = ['order.created', 'order.paid'];
 
 @Injectable()
 export class WhatnotAdapter implements BaseAdapter {
     private readonly logger = new Logger(WhatnotAdapter.name);
 
-    getApiClient(connection: any): any {
-        this.logger.warn('WhatnotAdapter.getApiClient not implemented');
-        return {
-            async fetchAllRelevantData() {
-                throw new Error('Whatnot API client/bot not implemented yet');
-            }
-        };
+    constructor(
+        private readonly api: WhatnotApiClient,
+        private readonly mapper: WhatnotMapper,
+        private readonly showService: WhatnotShowService,
+        private readonly productsService: ProductsService,
+        private readonly inventoryService: InventoryService,
+        private readonly reservationsService: InventoryReservationsService,
+        private readonly mappingsService: PlatformProductMappingsService,
+        private readonly conflictResolutionService: ConflictResolutionService,
+        private readonly syncEventsService: SyncEventsService,
+    ) {}
+
+    getApiClient(connection: PlatformConnection): WhatnotApiClient {
+        return this.api;
     }
 
-    getMapper(): any {
-        this.logger.warn('WhatnotAdapter.getMapper not implemented');
-        return {
-            mapWhatnotDataToCanonical() { throw new Error('Whatnot mapper not implemented'); }
-        };
+    getMapper(): WhatnotMapper {
+        return this.mapper;
     }
 
     getSyncLogic(): BaseSyncLogic {
-        return { shouldDelist: (q: number) => q <= 0 };
+        return {
+            shouldDelist: (q: number) => this.conflictResolutionService.shouldDelistOnPlatform('whatnot', q),
+        };
     }
 
-    async syncFromPlatform(): Promise<void> {
-        this.logger.warn('WhatnotAdapter.syncFromPlatform not implemented');
+    async syncFromPlatform(connection: PlatformConnection, userId: string): Promise<void> {
+        this.logger.log(`Starting Whatnot sync for connection ${connection.Id}, user ${userId}`);
+        try {
+            const data = await this.api.fetchAllRelevantData(connection);
+            if (data.listings.length === 0) {
+                this.logger.log('No listings found on Whatnot.');
+                return;
+            }
+            await this.saveWhatnotDataToCanonical(connection, userId, data);
+            this.logger.log(`Whatnot sync completed for connection ${connection.Id}`);
+        } catch (error) {
+            this.logger.error(`Error during Whatnot sync for connection ${connection.Id}: ${error.message}`, error.stack);
+            throw new InternalServerErrorException(`Whatnot sync failed: ${error.message}`);
+        }
     }
 
-    async createProduct(): Promise<{ platformProductId: string; platformVariantIds: Record<string, string> }> {
-        this.logger.warn('WhatnotAdapter.createProduct not implemented');
-        return { platformProductId: '', platformVariantIds: {} };
+    /**
+     * Whatnot listings are single-SKU, so every canonical variant becomes its own
+     * listing. Multi-variant products are grouped under `sssync-<productId>`.
+     */
+    async createProduct(
+        connection: PlatformConnection,
+        canonicalProduct: CanonicalProduct,
+        canonicalVariants: CanonicalProductVariant[],
+        canonicalInventoryLevels: CanonicalInventoryLevel[],
+    ): Promise<{ platformProductId: string; platformVariantIds: Record<string, string> }> {
+        this.logger.log(`Starting Whatnot createProduct for canonical product: ${canonicalProduct.Title} (ID: ${canonicalProduct.Id}) on connection ${connection.Id}`);
+        if (canonicalVariants.length === 0) {
+            throw new InternalServerErrorException('Whatnot listings require at least one variant.');
+        }
+
+        const { product, details } = await this.enrichProductForListing(canonicalProduct);
+        const context = this.buildListingContext(connection);
+        const platformVariantIds: Record<string, string> = {};
+        const errors: string[] = [];
+
+        for (const variant of canonicalVariants) {
+            const quantity = this.resolveQuantity(variant.Id!, canonicalInventoryLevels, connection.Id);
+            try {
+                const listing = await this.api.createListing(
+                    connection,
+                    this.mapper.mapCanonicalToWhatnotListing(product, variant, quantity, context, details),
+                );
+                platformVariantIds[variant.Id!] = listing.id;
+                this.logger.log(`Created Whatnot listing ${listing.id} for variant ${variant.Id}`);
+            } catch (error) {
+                errors.push(`Variant ${variant.Sku || variant.Id}: ${error.message}`);
+                this.logger.warn(`Failed to create Whatnot listing for variant ${variant.Id}: ${error.message}`);
+            }
+        }
+
+        const listingIds = Object.values(platformVariantIds);
+        if (listingIds.length === 0) {
+            throw new InternalServerErrorException(`Whatnot rejected all listings for product ${canonicalProduct.Id}: ${errors.join('; ')}`);
+        }
+
+        const platformProductId = canonicalVariants.length > 1 ? `sssync-${canonicalProduct.Id}` : listingIds[0];
+        return { platformProductId, platformVariantIds };
     }
 
-    async updateProduct(): Promise<any> {
-        this.logger.warn('WhatnotAdapter.updateProduct not implemented');
-        return {};
+    async updateProduct(
+        connection: PlatformConnection,
+        existingMapping: PlatformProductMapping,
+        canonicalProduct: CanonicalProduct,
+        canonicalVariants: CanonicalProductVariant[],
+        canonicalInventoryLevels: CanonicalInventoryLevel[],
+    ): Promise<{ platformProductId: string; updatedVariantIds: string[]; createdVariantIds: string[]; deletedVariantIds: string[]; errors: string[] }> {
+        this.logger.log(`Starting Whatnot updateProduct for Platform Product ID: ${existingMapping.PlatformProductId} on connection ${connection.Id}`);
+        const results = {
+            platformProductId: existingMapping.PlatformProductId,
+            updatedVariantIds: [] as string[],
+            createdVariantIds: [] as string[],
+            deletedVariantIds: [] as string[],
+            errors: [] as string[],
+        };
+
+        const { product, details } = await this.enrichProductForListing(canonicalProduct);
+        const context = this.buildListingContext(connection);
+
+        for (const variant of canonicalVariants) {
+            const quantity = this.resolveQuantity(variant.Id!, canonicalInventoryLevels, connection.Id);
+            const input = this.mapper.mapCanonicalToWhatnotListing(product, variant, quantity, context, details);
+            try {
+                const variantMapping = await this.mappingsService.getMappingByVariantIdAndPlatformProductId(
+                    variant.Id!,
+                    existingMapping.PlatformProductId,
+                    connection.Id,
+                );
+                if (variantMapping?.PlatformVariantId) {
+                    await this.api.updateListing(connection, variantMapping.PlatformVariantId, input);
+                    results.updatedVariantIds.push(variantMapping.PlatformVariantId);
+                } else {
+                    const listing = await this.api.createListing(connection, input);
+                    results.createdVariantIds.push(listing.id);
+                }
+            } catch (error) {
+                results.errors.push(`Variant ${variant.Sku || variant.Id}: ${error.message}`);
+            }
+        }
+
+        this.logger.log(`Whatnot updateProduct finished for ${results.platformProductId}. Updated: ${results.updatedVariantIds.length}, created: ${results.createdVariantIds.length}, errors: ${results.errors.length}`);
+        return results;
     }
 
-    async deleteProduct(): Promise<void> {
-        this.logger.warn('WhatnotAdapter.deleteProduct not implemented');
+    async deleteProduct(connection: PlatformConnection, existingMapping: PlatformProductMapping): Promise<void> {
+        const listingId = existingMapping.PlatformVariantId;
+        this.logger.log(`Starting Whatnot deleteProduct for mapping ${existingMapping.Id} (listing: ${listingId}) on connection ${connection.Id}`);
+        if (!listingId) {
+            throw new InternalServerErrorException(`Listing ID missing in mapping ${existingMapping.Id}. Cannot delete Whatnot listing.`);
+        }
+        await this.api.deleteListing(connection, listingId);
+        this.logger.log(`Deleted Whatnot listing ${listingId}`);
     }
 
-    async updateInventoryLevels(): Promise<{ successCount: number; failureCount: number; errors: string[] }> {
-        this.logger.warn('WhatnotAdapter.updateInventoryLevels not implemented');
-        return { successCount: 0, failureCount: 0, errors: [] };
+    async updateInventoryLevels(
+        connection: PlatformConnection,
+        inventoryUpdates: Array<{ mapping: PlatformProductMapping; level: CanonicalInventoryLevel }>,
+    ): Promise<{ successCount: number; failureCount: number; errors: string[] }> {
+        this.logger.log(`Starting Whatnot updateInventoryLevels for ${inventoryUpdates.length} items on connection ${connection.Id}`);
+        const errors: string[] = [];
+
+        // Listings carry a single quantity, so collapse per-location levels
+        const quantitiesByListing = new Map<string, number>();
+        for (const { mapping, level } of inventoryUpdates) {
+            if (!mapping.PlatformVariantId) {
+                errors.push(`Listing ID missing for mapping with ProductVariantId ${mapping.ProductVariantId}. Skipping inventory update.`);
+                continue;
+            }
+            quantitiesByListing.set(mapping.PlatformVariantId, (quantitiesByListing.get(mapping.PlatformVariantId) || 0) + Math.max(0, level.Quantity || 0));
+        }
+
+        let successCount = 0;
+        let failureCount = errors.length;
+        for (const [listingId, quantity] of quantitiesByListing.entries()) {
+            try {
+                const delist = this.conflictResolutionService.shouldDelistOnPlatform('whatnot', quantity);
+                if (delist) {
+                    this.logger.log(`Whatnot listing ${listingId} reached delist threshold (qty ${quantity}). Archiving.`);
+                }
+                await this.api.updateListing(connection, listingId, delist ? { quantity, status: 'ARCHIVED' } : { quantity });
+                successCount++;
+            } catch (error) {
+                failureCount++;
+                errors.push(`Failed to update Whatnot listing ${listingId}: ${error.message}`);
+            }
+        }
+
+        this.logger.log(`Whatnot updateInventoryLevels completed. Success: ${successCount}, Failures: ${failureCount}`);
+        if (failureCount > 0) {
+            this.logger.warn(`Errors during Whatnot inventory update: ${JSON.stringify(errors)}`);
+        }
+        return { successCount, failureCount, errors };
     }
 
-    async processWebhook(): Promise<void> {
-        this.logger.warn('WhatnotAdapter.processWebhook not implemented');
+    /**
+     * Show lifecycle events reserve and settle show inventory. Orders placed
+     * outside a show (or for listings not reserved in it) decrement stock directly.
+     */
+    async processWebhook(
+        connection: PlatformConnection,
+        payload: any,
+        headers: Record<string, string>,
+        webhookId?: string,
+    ): Promise<void> {
+        const logPrefix = webhookId ? `[${webhookId}]` : '';
+        const eventType: string = payload?.type || payload?.event || headers['x-whatnot-event'] || '';
+        const data = payload?.data || {};
+        this.logger.log(`${logPrefix} WhatnotAdapter processing ${eventType} for connection ${connection.Id}`);
+
+        if (SHOW_SCHEDULED_EVENTS.includes(eventType)) {
+            const showId = data.liveStreamId || data.id;
+            if (connection.SyncRules?.reserveShowInventory === false) {
+                this.logger.log(`${logPrefix} Show reservations disabled for connection ${connection.Id}; ignoring ${eventType}`);
+                return;
+            }
+            await this.showService.reserveShowInventory(connection, showId);
+            return;
+        }
+
+        if (SHOW_ENDED_EVENTS.includes(eventType)) {
+            const showId = data.liveStreamId || data.id;
+            await this.showService.completeShow(connection, showId, eventType === 'livestream.cancelled');
+            return;
+        }
+
+        if (ORDER_EVENTS.includes(eventType)) {
+            const items: WhatnotOrderItem[] = (data.items || []).map((i: any) => ({
+                listingId: i.listingId || i.listing?.id,
+                sku: i.sku || i.listing?.sku,
+                quantity: Number(i.quantity) || 1,
+            }));
+            for (const item of items.filter(i => i.listingId)) {
+                await this.handleOrderItem(connection, item, data.liveStreamId || null, logPrefix, webhookId);
+            }
+            return;
+        }
+
+        this.logger.warn(`${logPrefix} Unhandled Whatnot webhook event: ${eventType}`);
     }
 
-    async syncSingleProductFromPlatform(): Promise<void> {
-        this.logger.warn('WhatnotAdapter.syncSingleProductFromPlatform not implemented');
+    async syncSingleProductFromPlatform(connection: PlatformConnection, platformProductId: string, userId: string): Promise<void> {
+        this.logger.log(`Syncing single Whatnot listing ${platformProductId} for connection ${connection.Id}`);
+        const listing = await this.api.getListing(connection, platformProductId);
+        if (!listing) {
+            this.logger.warn(`Whatnot listing ${platformProductId} not found. Skipping sync.`);
+            return;
+        }
+        await this.saveWhatnotDataToCanonical(connection, userId, { listings: [listing] });
     }
-}
 
+    // --- Helpers ---
+
+    private async handleOrderItem(
+        connection: PlatformConnection,
+        item: WhatnotOrderItem,
+        liveStreamId: string | null,
+        logPrefix: string,
+        webhookId?: string,
+    ): Promise<void> {
+        const mapping = await this.mappingsService.getMappingByPlatformVariantIdAndConnection(item.listingId, connection.Id);
+        if (!mapping?.ProductVariantId) {
+            this.logger.warn(`${logPrefix} No mapping for Whatnot listing ${item.listingId}. Skipping order item.`);
+            return;
+        }
+
+        if (liveStreamId) {
+            const reservation = await this.reservationsService.getActiveReservation(connection.Id, liveStreamId, mapping.ProductVariantId);
+            if (reservation) {
+                // Settled from the show's orders when it ends
+                this.logger.log(`${logPrefix} Whatnot listing ${item.listingId} sold in reserved show ${liveStreamId}; deferring to show completion`);
+                return;
+            }
+        }
 
+        const levels = await this.inventoryService.getInventoryLevelsForVariant(mapping.ProductVariantId);
+        const level = levels.find(l => l.PlatformConnectionId === connection.Id);
+        const newQuantity = Math.max(0, (level?.Quantity || 0) - item.quantity);
+        await this.inventoryService.updateLevel({
+            ProductVariantId: mapping.ProductVariantId,
+            PlatformConnectionId: connection.Id,
+            PlatformLocationId: level?.PlatformLocationId ?? null,
+            Quantity: newQuantity,
+            LastPlatformUpdateAt: new Date().toISOString(),
+        });
+        this.logger.log(`${logPrefix} Updated canonical inventory for variant ${mapping.ProductVariantId} (Whatnot listing ${item.listingId}) to ${newQuantity}`);
 
+        if ((connection.SyncRules || {}).propagateInventory !== false) {
+            this.syncEventsService.emitInventorySyncEvent({
+                type: 'INVENTORY_UPDATED',
+                variantId: mapping.ProductVariantId,
+                userId: connection.UserId,
+                sourceConnectionId: connection.Id,
+                sourcePlatform: 'whatnot',
+                newQuantity,
+                webhookId,
+            });
+        }
+    }
 
+    private async saveWhatnotDataToCanonical(connection: PlatformConnection, userId: string, data: WhatnotFetchedData): Promise<void> {
+        const { canonicalProducts, canonicalVariants, canonicalInventoryLevels } =
+            this.mapper.mapWhatnotDataToCanonical(data, userId, connection.Id);
+        const allInventoryToSave: CanonicalInventoryLevel[] = [];
 
+        for (const cProduct of canonicalProducts) {
+            const listingId = cProduct.Id!.replace('whatnot-prod-', '');
+            let savedProduct: Product | null = null;
+            const existingMapping = await this.mappingsService.getMappingByPlatformVariantIdAndConnection(listingId, connection.Id);
+            if (existingMapping?.ProductVariantId) {
+                const associatedVariant = await this.productsService.getVariantById(existingMapping.ProductVariantId);
+                if (associatedVariant) {
+                    savedProduct = await this.productsService.getProductById(associatedVariant.ProductId);
+                }
+            }
+            if (!savedProduct) {
+                savedProduct = await this.productsService.saveProduct({ UserId: userId, IsArchived: cProduct.IsArchived });
+            }
+            if (!savedProduct) {
+                this.logger.error(`Failed to save or find product for Whatnot listing ${listingId}. Skipping.`);
+                continue;
+            }
 
+            const productVariants = canonicalVariants.filter(cv => cv.ProductId === cProduct.Id);
+            const savedVariants = await this.productsService.saveVariants(productVariants.map(cv => ({
+                ProductId: savedProduct.Id,
+                UserId: userId,
+                Sku: cv.Sku!,
+                Title: cv.Title,
+                Description: cv.Description,
+                Price: cv.Price,
+                RequiresShipping: true,
+                IsTaxable: true,
+            })) as Array<Omit<ProductVariant, 'Id' | 'CreatedAt' | 'UpdatedAt'>>);
 
+            for (const cv of productVariants) {
+                const savedVariant = savedVariants.find(sv => sv.Sku === cv.Sku);
+                if (!savedVariant) {
+                    this.logger.warn(`Could not find saved variant for Whatnot listing ${listingId}`);
+                    continue;
+                }
 
+                const mappingData: Omit<PlatformProductMapping, 'Id' | 'CreatedAt' | 'UpdatedAt'> = {
+                    PlatformConnectionId: connection.Id,
+                    ProductVariantId: savedVariant.Id,
+                    PlatformProductId: existingMapping?.PlatformProductId || listingId,
+                    PlatformVariantId: listingId,
+                    PlatformSku: cv.Sku,
+                    PlatformSpecificData: cv.PlatformSpecificData,
+                    LastSyncedAt: new Date().toISOString(),
+                    SyncStatus: 'Success',
+                    IsEnabled: true,
+                };
+                if (existingMapping) {
+                    await this.mappingsService.updateMapping(existingMapping.Id, mappingData);
+                } else {
+                    await this.mappingsService.createMapping(mappingData);
+                }
 
+                for (const level of canonicalInventoryLevels.filter(l => l.ProductVariantId === cv.Id)) {
+                    allInventoryToSave.push({ ...level, ProductVariantId: savedVariant.Id, PlatformConnectionId: connection.Id });
+                }
+            }
+        }
 
+        if (allInventoryToSave.length > 0) {
+            await this.inventoryService.saveBulkInventoryLevels(allInventoryToSave);
+            this.logger.log(`Saved ${allInventoryToSave.length} Whatnot inventory levels for connection ${connection.Id}`);
+        }
+    }
 
+    /**
+     * Fills in product images and the latest AI-generated Whatnot listing fields
+     * (category, listing type, shipping profile, condition) for a canonical product.
+     */
+    private async enrichProductForListing(canonicalProduct: CanonicalProduct): Promise<{ product: CanonicalProduct; details?: Partial<Whatnot> }> {
+        const product: CanonicalProduct = { ...canonicalProduct };
+        let details: Partial<Whatnot> | undefined = canonicalProduct.PlatformSpecificData?.whatnot;
+        if (!canonicalProduct.Id) return { product, details };
 
+        try {
+            if (!product.ImageUrls?.length) {
+                product.ImageUrls = await this.productsService.getProductImageUrls(canonicalProduct.Id, canonicalProduct.UserId);
+            }
+            if (!details) {
+                details = (await this.productsService.getLatestGeneratedPlatformDetails<Whatnot>(canonicalProduct.Id, 'whatnot')) || undefined;
+            }
+        } catch (error) {
+            this.logger.warn(`Could not load listing details for product ${canonicalProduct.Id}: ${error.message}`);
+        }
+        return { product, details };
+    }
 
+    private buildListingContext(connection: PlatformConnection): WhatnotListingContext {
+        const settings = connection.PlatformSpecificData || {};
+        return {
+            currency: settings.currency || 'USD',
+            defaultShippingProfileId: settings.defaultShippingProfileId,
+            defaultCategoryId: settings.defaultCategoryId,
+        };
+    }
 
+    private resolveQuantity(variantId: string, levels: CanonicalInventoryLevel[], connectionId: string): number {
+        const totals = new Map<string, number>();
+        for (const level of levels.filter(l => l.ProductVariantId === variantId)) {
+            totals.set(level.PlatformConnectionId, (totals.get(level.PlatformConnectionId) || 0) + (level.Quantity || 0));
+        }
+        if (totals.has(connectionId)) return totals.get(connectionId)!;
+        return totals.size > 0 ? Math.max(...totals.values()) : 0;
+    }
+}
@@ -0,0 +1,114 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CanonicalProduct, CanonicalProductVariant } from '../shopify/shopify.mapper';
+import { CanonicalInventoryLevel } from '../../canonical-data/inventory.service';
+import { Whatnot } from '../../products/types/generate-job.types';
+import { WhatnotFetchedData, WhatnotListingInput } from './whatnot-api-client.service';
+
+export interface WhatnotListingContext {
+  currency: string;
+  defaultShippingProfileId?: string;
+  defaultCategoryId?: string;
+}
+
+@Injectable()
+export class WhatnotMapper {
+  private readonly logger = new Logger(WhatnotMapper.name);
+
+  /**
+   * Whatnot listings are single-SKU, so each listing becomes its own canonical
+   * product with one variant. Listings without a SKU are keyed by listing ID.
+   */
+  mapWhatnotDataToCanonical(
+    data: WhatnotFetchedData,
+    userId: string,
+    platformConnectionId: string,
+  ): { canonicalProducts: CanonicalProduct[]; canonicalVariants: CanonicalProductVariant[]; canonicalInventoryLevels: CanonicalInventoryLevel[] } {
+    const products: CanonicalProduct[] = [];
+    const variants: CanonicalProductVariant[] = [];
+    const inv: CanonicalInventoryLevel[] = [];
+
+    for (const listing of data.listings || []) {
+      if (listing.status === 'ARCHIVED') continue;
+      const canonicalProductId = `whatnot-prod-${listing.id}`;
+      const canonicalVariantId = `whatnot-var-${listing.id}`;
+      const title = listing.title || listing.sku || listing.id;
+
+      products.push({
+        Id: canonicalProductId,
+        UserId: userId,
+        IsArchived: false,
+        Title: title,
+        Description: listing.description,
+        ImageUrls: (listing.images || []).map(i => i.url).filter(Boolean),
+      });
+
+      variants.push({
+        Id: canonicalVariantId,
+        ProductId: canonicalProductId,
+        UserId: userId,
+        Sku: listing.sku?.trim() || `WHATNOT-${listing.id}`,
+        Title: title,
+        Description: listing.description ?? null,
+        Price: this.fromMinorUnits(listing.price?.amount),
+        PlatformSpecificData: {
+          whatnotListingId: listing.id,
+          status: listing.status,
+          transactionType: listing.transactionType,
+          condition: listing.condition,
+          categoryId: listing.category?.id,
+          liveStreamId: listing.liveStream?.id,
+        },
+      });
+
+      inv.push({
+        ProductVariantId: canonicalVariantId,
+        PlatformConnectionId: platformConnectionId,
+        PlatformLocationId: null,
+        Quantity: listing.quantity ?? 0,
+      });
+    }
+
+    this.logger.log(`Mapped ${variants.length} Whatnot listings into canonical products`);
+    return { canonicalProducts: products, canonicalVariants: variants, canonicalInventoryLevels: inv };
+  }
+
+  mapCanonicalToWhatnotListing(
+    product: CanonicalProduct,
+    variant: CanonicalProductVariant,
+    quantity: number,
+    context: WhatnotListingContext,
+    details?: Partial<Whatnot>,
+  ): WhatnotListingInput {
+    const imageUrls = (details?.imageUrls?.length ? details.imageUrls : product.ImageUrls || [])
+      .filter(u => /^https?:\/\//i.test(u));
+    const optionSuffix = Object.values(variant.Options || {}).filter(Boolean).join(' / ');
+    const baseTitle = details?.title || product.Title || variant.Title || '';
+
+    const input: WhatnotListingInput = {
+      title: (optionSuffix && !baseTitle.includes(optionSuffix) ? `${baseTitle} - ${optionSuffix}` : baseTitle).slice(0, 100),
+      description: details?.description || variant.Description || product.Description || undefined,
+      sku: variant.Sku || undefined,
+      quantity: Math.max(0, Math.floor(quantity || 0)),
+      price: this.toMoney(details?.price ?? variant.Price, context.currency),
+      transactionType: details?.type === 'Auction' ? 'AUCTION' : 'BUY_IT_NOW',
+      categoryId: details?.category || context.defaultCategoryId,
+      subCategoryId: details?.subCategory || undefined,
+      shippingProfileId: details?.shippingProfile || context.defaultShippingProfileId,
+      offerable: details?.offerable ?? false,
+      hazmat: details?.hazmat === 'Hazmat',
+      condition: details?.condition || undefined,
+      imageUrls,
+    };
+    const cost = details?.costPerItem ?? variant.Cost;
+    if (cost !== undefined && cost !== null) input.costPerItem = this.toMoney(cost, context.currency);
+    return input;
+  }
+
+  private toMoney(value: number | null | undefined, currency: string): { amount: number; currency: string } {
+    return { amount: Math.round(Number(value || 0) * 100), currency };
+  }
+
+  private fromMinorUnits(amount?: number | null): number {
+    return amount ? amount / 100 : 0;
+  }
+}
@@ -14,6 +14,8 @@ export interface PlatformProductMapping {
     SyncStatus?: string;
     SyncErrorMessage?: string | null;
     IsEnabled?: boolean;
+    PushedState?: Record<string, any>; // What sssync last pushed, for echo suppression (see EchoSuppressionService)
+    LastChangeSetId?: string | null;
     CreatedAt: string;
     UpdatedAt: string;
 }
@@ -294,6 +296,23 @@ export class PlatformProductMappingsService {
         return data as PlatformProductMapping | null;
     }
 
+    async getMappingsByEbayListingId(platformConnectionId: string, listingId: string): Promise<PlatformProductMapping[]> {
+        const supabase = this.getSupabaseClient();
+        this.logger.debug(`Fetching mappings by Connection ${platformConnectionId} and eBay listing ID ${listingId}`);
+
+        const { data, error } = await supabase
+            .from('PlatformProductMappings')
+            .select('*')
+            .eq('PlatformConnectionId', platformConnectionId)
+            .eq('PlatformSpecificData->>listingId', listingId);
+
+        if (error) {
+            this.logger.error(`Error fetching mappings for eBay listing ${listingId} on Connection ${platformConnectionId}: ${error.message}`, error.stack);
+            throw new InternalServerErrorException(`Could not fetch mappings by eBay listing ID: ${error.message}`);
+        }
+        return (data || []) as PlatformProductMapping[];
+    }
+
     async upsertMapping(mappingInput: Omit<PlatformProductMapping, 'Id' | 'CreatedAt' | 'UpdatedAt'>, userId?: string): Promise<PlatformProductMapping> {
         const supabase = this.getSupabaseClient();
         const { PlatformConnectionId, ProductVariantId, PlatformProductId, PlatformVariantId } = mappingInput;
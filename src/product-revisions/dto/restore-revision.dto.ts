@@ -0,0 +1,7 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class RestoreRevisionDto {
+  @IsBoolean()
+  @IsOptional()
+  includeInventory?: boolean; // Also put stock back to its quantities at that revision (default false)
+}
@@ -0,0 +1,77 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Request,
+  UseGuards,
+  ParseUUIDPipe,
+  ParseIntPipe,
+  ValidationPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { SupabaseAuthGuard } from '../auth/guards/supabase-auth.guard';
+import { ChangeSource } from '../common/change-source.context';
+import { ProductRevisionsService } from './product-revisions.service';
+import { RevisionEntityType } from './product-revisions.types';
+import { RestoreRevisionDto } from './dto/restore-revision.dto';
+
+const ENTITY_TYPES: RevisionEntityType[] = ['product', 'variant', 'image', 'inventory_level'];
+const SOURCES: ChangeSource[] = ['user', 'webhook', 'ai', 'import', 'sync', 'restore', 'system'];
+
+@Controller('products/:productId/revisions')
+@UseGuards(SupabaseAuthGuard)
+export class ProductRevisionsController {
+  constructor(private readonly revisionsService: ProductRevisionsService) {}
+
+  /**
+   * Newest first, optionally only one entity type (?entityType=variant) or source (?source=webhook)
+   */
+  @Get()
+  async listRevisions(
+    @Request() req: any,
+    @Param('productId', ParseUUIDPipe) productId: string,
+    @Query('entityType') entityType?: string,
+    @Query('source') source?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    if (entityType && !ENTITY_TYPES.includes(entityType as RevisionEntityType)) {
+      throw new BadRequestException(`entityType must be one of: ${ENTITY_TYPES.join(', ')}`);
+    }
+    if (source && !SOURCES.includes(source as ChangeSource)) {
+      throw new BadRequestException(`source must be one of: ${SOURCES.join(', ')}`);
+    }
+    return this.revisionsService.listRevisions(req.user.id, productId, {
+      entityType: entityType as RevisionEntityType | undefined,
+      source: source as ChangeSource | undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  /**
+   * What changed between two revisions, e.g. ?from=120&to=184
+   */
+  @Get('diff')
+  async diffRevisions(
+    @Request() req: any,
+    @Param('productId', ParseUUIDPipe) productId: string,
+    @Query('from', ParseIntPipe) from: number,
+    @Query('to', ParseIntPipe) to: number,
+  ) {
+    return this.revisionsService.diffRevisions(req.user.id, productId, from, to);
+  }
+
+  @Post(':revision/restore')
+  async restoreRevision(
+    @Request() req: any,
+    @Param('productId', ParseUUIDPipe) productId: string,
+    @Param('revision', ParseIntPipe) revision: number,
+    @Body(ValidationPipe) dto: RestoreRevisionDto,
+  ) {
+    return this.revisionsService.restoreRevision(req.user.id, productId, revision, dto.includeInventory ?? false);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { CommonModule } from '../common/common.module';
+import { SyncEngineModule } from '../sync-engine/sync-engine.module';
+import { ProductRevisionsService } from './product-revisions.service';
+import { ProductRevisionsController } from './product-revisions.controller';
+
+@Module({
+  imports: [CommonModule, SyncEngineModule],
+  providers: [ProductRevisionsService],
+  controllers: [ProductRevisionsController],
+  exports: [ProductRevisionsService],
+})
+export class ProductRevisionsModule {}
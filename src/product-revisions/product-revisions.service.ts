@@ -0,0 +1,220 @@
+import { Injectable, Logger, BadRequestException, InternalServerErrorException, NotFoundException } from '@nestjs/common';
+import { SupabaseService } from '../common/supabase.service';
+import { ActivityLogService } from '../common/activity-log.service';
+import { runWithChangeSource } from '../common/change-source.context';
+import { SyncCoordinatorService } from '../sync-engine/sync-coordinator.service';
+import {
+  ProductRevision,
+  RestoreRevisionResult,
+  RevisionDiff,
+  RevisionEntityDiff,
+  RevisionEntityType,
+  RevisionFilters,
+} from './product-revisions.types';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+// Columns that change on every write and say nothing about the product
+const IGNORED_COLUMNS = ['UpdatedAt', 'CreatedAt', 'LastPlatformUpdateAt'];
+
+interface EntityState {
+  EntityType: RevisionEntityType;
+  EntityId: string;
+  Revision: number;
+  Operation: ProductRevision['Operation'];
+  After: Record<string, any> | null;
+}
+
+/**
+ * Revision history of a product, its variants, images and inventory levels. The
+ * revisions are written by database triggers (see the product-revisions
+ * migration); this service reads them, diffs two points in time and restores a
+ * product to an earlier revision.
+ */
+@Injectable()
+export class ProductRevisionsService {
+  private readonly logger = new Logger(ProductRevisionsService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly activityLogService: ActivityLogService,
+    private readonly syncCoordinator: SyncCoordinatorService,
+  ) {}
+
+  async listRevisions(
+    userId: string,
+    productId: string,
+    filters: RevisionFilters = {},
+  ): Promise<{ revisions: ProductRevision[]; total: number }> {
+    const limit = Math.min(Math.max(filters.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(filters.offset ?? 0, 0);
+
+    let query = this.supabaseService
+      .getClient()
+      .from('ProductRevisions')
+      .select('*', { count: 'exact' })
+      .eq('UserId', userId)
+      .eq('ProductId', productId)
+      .order('Revision', { ascending: false })
+      .range(offset, offset + limit - 1);
+    if (filters.entityType) query = query.eq('EntityType', filters.entityType);
+    if (filters.source) query = query.eq('Source', filters.source);
+
+    const { data, error, count } = await query;
+    if (error) {
+      this.logger.error(`Failed to list revisions for product ${productId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not load product revisions.');
+    }
+    return { revisions: (data || []) as ProductRevision[], total: count ?? 0 };
+  }
+
+  /**
+   * Field-level differences between the product as of two revisions.
+   */
+  async diffRevisions(userId: string, productId: string, fromRevision: number, toRevision: number): Promise<RevisionDiff> {
+    if (fromRevision === toRevision) {
+      throw new BadRequestException('from and to must be different revisions.');
+    }
+    await Promise.all([
+      this.assertRevision(userId, productId, fromRevision),
+      this.assertRevision(userId, productId, toRevision),
+    ]);
+
+    const [fromState, toState] = await Promise.all([
+      this.getStateAt(userId, productId, fromRevision),
+      this.getStateAt(userId, productId, toRevision),
+    ]);
+
+    const entities: RevisionEntityDiff[] = [];
+    for (const key of new Set([...fromState.keys(), ...toState.keys()])) {
+      const before = fromState.get(key);
+      const after = toState.get(key);
+      const beforeRow = before?.Operation === 'delete' ? null : before?.After ?? null;
+      const afterRow = after?.Operation === 'delete' ? null : after?.After ?? null;
+      if (!beforeRow && !afterRow) continue;
+
+      const entity = (after || before)!;
+      const fields = this.diffRows(beforeRow, afterRow);
+      if (Object.keys(fields).length === 0) continue;
+      entities.push({
+        entityType: entity.EntityType,
+        entityId: entity.EntityId,
+        change: !beforeRow ? 'added' : !afterRow ? 'removed' : 'modified',
+        fields,
+      });
+    }
+
+    return { productId, fromRevision, toRevision, entities };
+  }
+
+  /**
+   * Puts the product back the way it was at `revision` in one transaction, then
+   * pushes it to every connected channel. The restore itself is recorded as new
+   * revisions with source 'restore', so it can be undone the same way.
+   */
+  async restoreRevision(
+    userId: string,
+    productId: string,
+    revision: number,
+    includeInventory = false,
+  ): Promise<RestoreRevisionResult> {
+    const { data, error } = await runWithChangeSource('restore', `revision:${revision}`, async () =>
+      this.supabaseService.getClient().rpc('restore_product_revision', {
+        p_user_id: userId,
+        p_product_id: productId,
+        p_revision: revision,
+        p_include_inventory: includeInventory,
+      }),
+    );
+
+    if (error) {
+      if (error.message?.includes('PRODUCT_NOT_FOUND') || error.message?.includes('REVISION_NOT_FOUND')) {
+        throw new NotFoundException(`Revision ${revision} not found for product ${productId}.`);
+      }
+      this.logger.error(`Failed to restore product ${productId} to revision ${revision}: ${error.message}`);
+      throw new InternalServerErrorException('Could not restore the product.');
+    }
+
+    const result = data as Omit<RestoreRevisionResult, 'productId' | 'revision'> & { inventoryVariantIds: string[] };
+    if (result.productRestored || result.variantsRestored > 0 || result.imagesRestored > 0) {
+      await this.syncCoordinator.handleCanonicalProductUpdate(productId, userId);
+    }
+    for (const variantId of new Set(result.inventoryVariantIds || [])) {
+      await this.syncCoordinator.handleCanonicalInventoryUpdate(variantId, userId);
+    }
+
+    await this.activityLogService.logActivity({
+      UserId: userId,
+      EntityType: 'Product',
+      EntityId: productId,
+      EventType: 'PRODUCT_REVISION_RESTORED',
+      Status: 'Success',
+      Message: `Restored product to revision ${revision}`,
+      Details: {
+        revision,
+        includeInventory,
+        variantsRestored: result.variantsRestored,
+        imagesRestored: result.imagesRestored,
+        inventoryLevelsRestored: result.inventoryLevelsRestored,
+        skipped: result.skipped.length,
+      },
+    });
+
+    return {
+      productId,
+      revision,
+      productRestored: result.productRestored,
+      variantsRestored: result.variantsRestored,
+      imagesRestored: result.imagesRestored,
+      inventoryLevelsRestored: result.inventoryLevelsRestored,
+      skipped: result.skipped,
+    };
+  }
+
+  private async assertRevision(userId: string, productId: string, revision: number): Promise<void> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('ProductRevisions')
+      .select('Revision')
+      .eq('Revision', revision)
+      .eq('ProductId', productId)
+      .eq('UserId', userId)
+      .maybeSingle();
+    if (error) {
+      this.logger.error(`Failed to load revision ${revision}: ${error.message}`);
+      throw new InternalServerErrorException('Could not load product revision.');
+    }
+    if (!data) {
+      throw new NotFoundException(`Revision ${revision} not found for product ${productId}.`);
+    }
+  }
+
+  private async getStateAt(userId: string, productId: string, revision: number): Promise<Map<string, EntityState>> {
+    const { data, error } = await this.supabaseService.getClient().rpc('product_state_at', {
+      p_user_id: userId,
+      p_product_id: productId,
+      p_revision: revision,
+    });
+    if (error) {
+      this.logger.error(`Failed to load product ${productId} at revision ${revision}: ${error.message}`);
+      throw new InternalServerErrorException('Could not load product revision.');
+    }
+    return new Map(((data || []) as EntityState[]).map(s => [`${s.EntityType}:${s.EntityId}`, s]));
+  }
+
+  private diffRows(
+    before: Record<string, any> | null,
+    after: Record<string, any> | null,
+  ): Record<string, { from: any; to: any }> {
+    const fields: Record<string, { from: any; to: any }> = {};
+    for (const column of new Set([...Object.keys(before || {}), ...Object.keys(after || {})])) {
+      if (IGNORED_COLUMNS.includes(column)) continue;
+      const from = before?.[column] ?? null;
+      const to = after?.[column] ?? null;
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        fields[column] = { from, to };
+      }
+    }
+    return fields;
+  }
+}
@@ -0,0 +1,49 @@
+import { ChangeSource } from '../common/change-source.context';
+
+export type RevisionEntityType = 'product' | 'variant' | 'image' | 'inventory_level';
+
+export interface ProductRevision {
+  Revision: number;
+  UserId: string;
+  ProductId: string;
+  EntityType: RevisionEntityType;
+  EntityId: string;
+  Operation: 'insert' | 'update' | 'delete';
+  Changes: Record<string, { from: any; to: any }> | null;
+  Before: Record<string, any> | null;
+  After: Record<string, any> | null;
+  Source: ChangeSource;
+  SourceDetail: string | null;
+  CreatedAt: string;
+}
+
+export interface RevisionFilters {
+  entityType?: RevisionEntityType;
+  source?: ChangeSource;
+  limit?: number;
+  offset?: number;
+}
+
+export interface RevisionEntityDiff {
+  entityType: RevisionEntityType;
+  entityId: string;
+  change: 'added' | 'removed' | 'modified';
+  fields: Record<string, { from: any; to: any }>;
+}
+
+export interface RevisionDiff {
+  productId: string;
+  fromRevision: number;
+  toRevision: number;
+  entities: RevisionEntityDiff[];
+}
+
+export interface RestoreRevisionResult {
+  productId: string;
+  revision: number;
+  productRestored: boolean;
+  variantsRestored: number;
+  imagesRestored: number;
+  inventoryLevelsRestored: number;
+  skipped: Array<{ entityType: string; entityId: string; reason: string }>;
+}
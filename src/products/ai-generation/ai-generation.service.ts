@@ -1,10 +1,12 @@
 import { Injectable, InternalServerErrorException, Logger, BadRequestException } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import Groq from 'groq-sdk'; // Import Groq SDK
 import { SerpApiLensResponse, VisualMatch } from '../image-recognition/image-recognition.service'; // Keep using these interfaces
 import { buildPlatformConstraintsText, validateAgainstPlatformSchemas } from '../types/platform-schemas';
 import { JsonParserService } from './json-parser.service';
 import { TypedGeneratedDetails } from '../types/generated-platform-types';
+import { LlmService } from '../../common/llm/llm.service';
+import { LlmCompletionRequest, LlmUsageContext } from '../../common/llm/llm.types';
+import { ResolvedPrompt, promptPlaceholders, renderPrompt } from '../../prompt-templates/prompt-templates.types';
+import { ResolvedStyle, applyStyleProfile, buildStyleGuide, profileForPlatform } from '../../style-profiles/style-profiles.types';
 
 // Define richer expected output structure based on platform keys
 // Aligns more closely with frontend needs and user-provided structure
@@ -51,36 +53,39 @@ export interface GeneratedDetails {
   [platform: string]: GeneratedPlatformSpecificDetails; // Use the more detailed interface
 }
 
+/**
+ * Usage context for a generation, plus the prompt template version to use in
+ * place of the built-in prompt (see PromptTemplatesService.resolve) and the
+ * user's style profiles (see StyleProfilesService.resolveForPlatforms)
+ */
+export interface GenerationContext extends LlmUsageContext {
+  prompt?: ResolvedPrompt | null;
+  style?: ResolvedStyle | null;
+}
+
 @Injectable()
 export class AiGenerationService {
   private readonly logger = new Logger(AiGenerationService.name);
-  private groq: Groq | null = null; // Groq client instance
 
   constructor(
-    private readonly configService: ConfigService,
     private readonly jsonParserService: JsonParserService,
+    private readonly llmService: LlmService,
   ) {
-    const groqApiKey = this.configService.get<string>('GROQ_API_KEY');
-    if (groqApiKey) {
-      this.groq = new Groq({ apiKey: groqApiKey });
-    } else {
-      this.logger.warn('GROQ_API_KEY not found. AI generation features will be limited.');
+    if (!this.llmService.isAvailable('generation')) {
+      this.logger.warn('No LLM provider configured for generation. AI generation features will be limited.');
     }
   }
 
-  private getGroqClient(): Groq | null {
-    return this.groq;
-  }
-
   async generateProductDetails(
     imageUrls: string[], // Keep imageUrls for potential future multi-image analysis
     coverImageUrl: string,
     targetPlatforms: string[],
     selectedMatchContext?: { visual_matches: VisualMatch[] } | null,
     enhancedWebData?: { url: string; scrapedData: any; analysis?: string } | null,
+    usage?: GenerationContext,
   ): Promise<GeneratedDetails | null> {
-    if (!this.groq) {
-      this.logger.warn('Groq client not initialized. Cannot generate product details.');
+    if (!this.llmService.isAvailable('generation')) {
+      this.logger.warn('No LLM provider configured. Cannot generate product details.');
         return null;
     }
 
@@ -501,24 +506,32 @@ Clover:
       }
 Focus on accuracy, SEO optimization, and platform best practices. If visual matches are provided, use them to inform pricing and categorization but ensure your suggestions are competitive and realistic.`;
 
-      const completion = await this.groq.chat.completions.create({
-        model: 'qwen/qwen3-32b',
-        messages: [
-          {
-            role: 'user',
-            content: `${prompt}\n\nImage URL: ${coverImageUrl}`,
-          },
-        ],
-        temperature: 0.6,
-        max_tokens: 2000,
-      });
+      const messages: LlmCompletionRequest['messages'] = usage?.prompt
+        ? this.renderTemplate(usage.prompt, {
+            platforms: targetPlatforms.join(', '),
+            coverImageUrl,
+            visualMatchContext,
+            enhancedDataContext,
+            platformConstraints: buildPlatformConstraintsText(targetPlatforms),
+            styleGuide: buildStyleGuide(usage.style),
+          })
+        : [
+            {
+              role: 'user',
+              content: `${prompt}${buildStyleGuide(usage?.style)}\n\nImage URL: ${coverImageUrl}`,
+            },
+          ];
 
-   
+      const completion = await this.llmService.complete(
+        'generation',
+        { messages, temperature: 0.6, maxTokens: 2000 },
+        this.usageFor(usage, { platforms: targetPlatforms.join(',') }),
+      );
 
-      const responseText = completion.choices[0]?.message?.content;
+      const responseText = completion.content;
       this.logger.log(responseText);
       if (!responseText) {
-        this.logger.warn('No response content from Groq API');
+        this.logger.warn(`No response content from ${completion.provider}`);
         return null;
       }
 
@@ -532,7 +545,7 @@ Focus on accuracy, SEO optimization, and platform best practices. If visual matc
         }
         
         this.logger.log(`Successfully generated product details for ${Object.keys(typedResult).length} platforms`);
-        return typedResult as GeneratedDetails;
+        return this.applyStyle(typedResult as GeneratedDetails, usage?.style);
       } catch (parseError) {
         this.logger.error(`Error in JSON parser service: ${parseError.message}`, parseError.stack);
         return null;
@@ -543,6 +556,42 @@ Focus on accuracy, SEO optimization, and platform best practices. If visual matc
     }
   }
 
+  private renderTemplate(prompt: ResolvedPrompt, variables: Record<string, string>): LlmCompletionRequest['messages'] {
+    this.logger.log(`Using prompt template ${prompt.templateId} v${prompt.version}`);
+    // Style profiles apply to templated prompts too, including ones written before {{styleGuide}} existed
+    const placesStyle = promptPlaceholders(`${prompt.systemPrompt ?? ''}\n${prompt.userPrompt}`).includes('styleGuide');
+    return [
+      ...(prompt.systemPrompt ? [{ role: 'system' as const, content: renderPrompt(prompt.systemPrompt, variables) }] : []),
+      {
+        role: 'user' as const,
+        content: renderPrompt(prompt.userPrompt, variables) + (placesStyle ? '' : variables.styleGuide ?? ''),
+      },
+    ];
+  }
+
+  /**
+   * Enforces the parts of the style profiles the model may not have followed
+   */
+  private applyStyle(details: GeneratedDetails, style: ResolvedStyle | null | undefined): GeneratedDetails {
+    if (!style) return details;
+    return Object.fromEntries(
+      Object.entries(details).map(([platform, platformDetails]) => [platform, applyStyleProfile(platformDetails, profileForPlatform(style, platform))]),
+    );
+  }
+
+  private usageFor(context: GenerationContext | undefined, metadata: Record<string, any>): LlmUsageContext {
+    return {
+      userId: context?.userId,
+      operation: context?.operation ?? 'generate_details',
+      metadata: {
+        ...metadata,
+        ...(context?.prompt ? { promptVersionId: context.prompt.versionId } : {}),
+        ...(context?.style ? { styleProfiles: true } : {}),
+        ...context?.metadata,
+      },
+    };
+  }
+
   // Old parsing methods removed - now using JsonParserService for robust parsing
 
   async generateProductDetailsFromScrapedData(
@@ -559,9 +608,9 @@ Focus on accuracy, SEO optimization, and platform best practices. If visual matc
       }>;
       targetSites?: string[]; // Sites to prioritize for data sourcing
     },
+    usage?: GenerationContext,
   ): Promise<GeneratedDetails | null> {
-    const groq = this.getGroqClient();
-    if (!groq) return null;
+    if (!this.llmService.isAvailable('generation')) return null;
 
     this.logger.log("|* Generating W/ Scraped Data *|")
 
@@ -942,6 +991,7 @@ EBAY EXAMPLE:
       ${userSelectionsContext}
       ${targetSitesContext}
       ${platformRequirements}
+      ${buildStyleGuide(usage?.style)}
 
       SCRAPED CONTENT FROM FIRECRAWL: 
       (${contentString})
@@ -1007,21 +1057,36 @@ EBAY EXAMPLE:
     `;
 
     try {
-      const chatCompletion = await groq.chat.completions.create({
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        model: 'qwen/qwen3-32b',
-        temperature: 0.2,
-        response_format: { type: 'json_object' },
-      });
+      const chatCompletion = await this.llmService.complete(
+        'generation',
+        {
+          messages: usage?.prompt
+            ? this.renderTemplate(usage.prompt, {
+                platforms: selectedPlatforms.join(', '),
+                businessTemplate: businessTemplate || 'General',
+                contextQuery,
+                userSelectionsContext,
+                targetSitesContext,
+                platformRequirements,
+                scrapedContent: contentString,
+                platformConstraints: constraintsText,
+                styleGuide: buildStyleGuide(usage.style),
+              })
+            : [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: userPrompt },
+              ],
+          temperature: 0.2,
+          jsonMode: true,
+        },
+        this.usageFor(usage, { platforms: selectedPlatforms.join(','), fromScrapedData: true }),
+      );
 
-      const responseText = chatCompletion.choices[0]?.message?.content;
+      const responseText = chatCompletion.content;
       this.logger.log(responseText);
 
       if (!responseText) {
-        this.logger.warn('No response content from Groq API in scraped data generation');
+        this.logger.warn(`No response content from ${chatCompletion.provider} in scraped data generation`);
         throw new Error('Empty response from AI');
       }
 
@@ -1043,24 +1108,24 @@ EBAY EXAMPLE:
       }
       
       this.logger.log(`Successfully generated product details from scraped data for ${Object.keys(typedResult).length} platforms`);
-      return typedResult as GeneratedDetails;
+      return this.applyStyle(typedResult as GeneratedDetails, usage?.style);
     } catch (error) {
-      this.logger.error('Error generating product details from scraped data with Groq:', error);
-      throw new Error(`Groq API call failed: ${error.message}`);
+      this.logger.error('Error generating product details from scraped data:', error);
+      throw new Error(`AI generation failed: ${error.message}`);
     }
   }
 
   /**
    * AI-powered product matching by title similarity
-   * Uses DeepSeek R1 Distill Llama 70B to intelligently match products when SKU matching fails
+   * Uses the matching LLM route (DeepSeek R1 Distill Llama 70B by default) to intelligently match products when SKU matching fails
    */
   async findProductMatches(
     platformProducts: Array<{ id: string; title: string; sku?: string; price?: number }>,
     canonicalProducts: Array<{ id: string; title: string; sku?: string; price?: number }>,
     threshold: number = 0.8
   ): Promise<Array<{ platformProduct: any; canonicalProduct: any; confidence: number; reason: string }>> {
-    if (!this.groq) {
-      this.logger.warn('Groq client not initialized. Cannot perform AI product matching.');
+    if (!this.llmService.isAvailable('matching')) {
+      this.logger.warn('No LLM provider configured. Cannot perform AI product matching.');
       return [];
     }
 
@@ -1107,19 +1172,18 @@ Only include matches with confidence >= ${threshold}. If no good match exists fo
 
 IMPORTANT: Return ONLY the JSON array, no other text.`;
 
-        const completion = await this.groq.chat.completions.create({
-          model: 'deepseek-r1-distill-llama-70b',
-        messages: [
+        const completion = await this.llmService.complete('matching', {
+          messages: [
             {
               role: 'user',
               content: prompt,
             },
           ],
           temperature: 0.3, // Lower temperature for more consistent matching
-          max_tokens: 1500,
+          maxTokens: 1500,
         });
 
-        const responseText = completion.choices[0]?.message?.content?.trim();
+        const responseText = completion.content.trim();
         if (!responseText) {
           this.logger.warn(`No response for batch ${i / batchSize + 1}`);
           continue;
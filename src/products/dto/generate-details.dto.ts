@@ -1,6 +1,7 @@
 import { IsArray, ArrayNotEmpty, IsString, IsUrl, IsUUID, IsInt, Min, Max, IsOptional, ValidateNested, IsDefined, ValidateIf, IsObject, ArrayMinSize } from 'class-validator';
 import { Type } from 'class-transformer'; // Needed for ValidateNested
 import { SerpApiLensResponse, VisualMatch } from '../image-recognition/image-recognition.service';
+import { PromptSelectionDto } from '../../prompt-templates/dto/prompt-templates.dto';
 
 // Define a basic DTO for the visual match object (can be expanded)
 class SelectedMatchDto implements Partial<VisualMatch> {
@@ -91,6 +92,12 @@ export class GenerateDetailsDto {
   @Type(() => EnhancedWebDataDto)
   enhancedWebData?: EnhancedWebDataDto;
 
+  // Optional: pin a prompt template or version instead of the best match
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PromptSelectionDto)
+  promptTemplate?: PromptSelectionDto;
+
   // Remove lensResponse - no longer needed here
   // lensResponse?: any;
 }
@@ -0,0 +1,50 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUrl,
+  IsUUID,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class PublishTargetDto {
+  @IsUUID()
+  connectionId: string;
+
+  // Which platform's generated details to list; defaults to the connection's platform type
+  @IsOptional()
+  @IsString()
+  platform?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  quantity?: number;
+
+  @IsOptional()
+  @IsString()
+  locationId?: string;
+}
+
+export class PublishGeneratedDto {
+  // Index of the product within the generate job's results
+  @IsInt()
+  @Min(0)
+  productIndex: number;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => PublishTargetDto)
+  targets: PublishTargetDto[];
+
+  // Listing images; the result's source image is always included
+  @IsOptional()
+  @IsArray()
+  @IsUrl({}, { each: true })
+  imageUris?: string[];
+}
@@ -0,0 +1,47 @@
+import { Type } from 'class-transformer';
+import { ArrayMinSize, IsArray, IsIn, IsInt, IsOptional, IsString, IsUUID, Min, ValidateIf, ValidateNested } from 'class-validator';
+import { INVENTORY_ADJUSTMENT_REASONS } from '../../canonical-data/inventory.service';
+import { InventoryAdjustmentReason } from '../../common/types/supabase.types';
+
+export class InventoryLevelUpdateDto {
+  @IsUUID()
+  platformConnectionId: string;
+
+  @IsString()
+  @IsOptional()
+  locationId?: string; // Platform location ID
+
+  @IsString()
+  @IsOptional()
+  locationName?: string;
+
+  // One of quantity (a count) and delta is required; the controller rejects both
+  @ValidateIf(o => o.delta === undefined)
+  @IsInt()
+  @Min(0)
+  quantity?: number;
+
+  @ValidateIf(o => o.quantity === undefined)
+  @IsInt()
+  delta?: number;
+
+  @IsIn(INVENTORY_ADJUSTMENT_REASONS)
+  @IsOptional()
+  reason?: InventoryAdjustmentReason; // 'recount' by default
+
+  @IsString()
+  @IsOptional()
+  referenceId?: string;
+
+  @IsString()
+  @IsOptional()
+  note?: string;
+}
+
+export class UpdateInventoryDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => InventoryLevelUpdateDto)
+  updates: InventoryLevelUpdateDto[];
+}
@@ -0,0 +1,262 @@
+import { Injectable, Logger, ConflictException, InternalServerErrorException } from '@nestjs/common';
+import { SupabaseService } from '../common/supabase.service';
+import type {
+  RecognizeStageOutput,
+  MatchStageInput,
+  MatchStageOutput,
+  GenerateStageInput,
+  GenerateStageOutput,
+} from './product-orchestrator.service';
+
+// Sessions expire this long after they were last worked on
+const SESSION_TTL_MS = 72 * 60 * 60 * 1000;
+// A pending stage older than this belongs to a process that died mid-stage
+const STALE_STAGE_MS = 15 * 60 * 1000;
+
+export type OrchestratorStage = 'recognize' | 'match' | 'generate' | 'completed';
+export type ResumableStage = 'match' | 'generate';
+
+export interface OrchestratorSession {
+  id: string;
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt: Date;
+  currentStage: OrchestratorStage;
+  recognizeData?: RecognizeStageOutput;
+  matchData?: MatchStageOutput;
+  generateData?: GenerateStageOutput;
+  metadata: {
+    mode: 'single' | 'bulk' | 'quick_scan';
+    totalSources: number;
+    targetSites?: string[];
+  };
+  pendingStage: ResumableStage | null;
+  stageInputs: { match?: MatchStageInput; generate?: GenerateStageInput };
+  stageStartedAt: Date | null;
+  lastError: string | null;
+}
+
+export type OrchestratorSessionSummary = Omit<OrchestratorSession, 'recognizeData' | 'matchData' | 'generateData' | 'stageInputs'>;
+
+const SUMMARY_COLUMNS = 'Id, UserId, CurrentStage, Metadata, PendingStage, StageStartedAt, LastError, ExpiresAt, CreatedAt, UpdatedAt';
+
+/**
+ * Durable storage for orchestrator sessions in OrchestratorSessions. Every write
+ * pushes the expiry back, and a session past its expiry reads as missing until
+ * the purge removes it.
+ */
+@Injectable()
+export class OrchestratorSessionsService {
+  private readonly logger = new Logger(OrchestratorSessionsService.name);
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async create(session: Pick<OrchestratorSession, 'id' | 'userId' | 'recognizeData' | 'metadata'>): Promise<void> {
+    const { error } = await this.supabaseService
+      .getServiceClient()
+      .from('OrchestratorSessions')
+      .insert({
+        Id: session.id,
+        UserId: session.userId,
+        CurrentStage: 'recognize',
+        Metadata: session.metadata,
+        RecognizeData: session.recognizeData ?? null,
+        ExpiresAt: this.nextExpiry(),
+      });
+    if (error) {
+      this.logger.error(`Could not store orchestrator session ${session.id}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not store session: ${error.message}`);
+    }
+  }
+
+  /**
+   * The user's session, or null when it does not exist, belongs to someone else or has expired
+   */
+  async get(userId: string, sessionId: string): Promise<OrchestratorSession | null> {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('OrchestratorSessions')
+      .select('*')
+      .eq('Id', sessionId)
+      .eq('UserId', userId)
+      .gt('ExpiresAt', new Date().toISOString())
+      .maybeSingle();
+    if (error) {
+      this.logger.error(`Could not load orchestrator session ${sessionId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not load session: ${error.message}`);
+    }
+    return data ? this.toSession(data) : null;
+  }
+
+  /**
+   * The user's unexpired sessions, most recently worked on first, without stage outputs
+   */
+  async list(
+    userId: string,
+    options: { stage?: OrchestratorStage; limit?: number; offset?: number } = {},
+  ): Promise<{ sessions: OrchestratorSessionSummary[]; total: number }> {
+    const limit = Math.min(Math.max(options.limit ?? 20, 1), 100);
+    const offset = Math.max(options.offset ?? 0, 0);
+
+    let query = this.supabaseService
+      .getServiceClient()
+      .from('OrchestratorSessions')
+      .select(SUMMARY_COLUMNS, { count: 'exact' })
+      .eq('UserId', userId)
+      .gt('ExpiresAt', new Date().toISOString());
+    if (options.stage) query = query.eq('CurrentStage', options.stage);
+
+    const { data, error, count } = await query.order('UpdatedAt', { ascending: false }).range(offset, offset + limit - 1);
+    if (error) {
+      this.logger.error(`Could not list orchestrator sessions of user ${userId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not list sessions: ${error.message}`);
+    }
+    return { sessions: (data || []).map(row => this.toSummary(row)), total: count ?? 0 };
+  }
+
+  /**
+   * Marks a stage as pending and records its input, so it can be resumed if this
+   * process dies or the stage fails. Refuses while another request is running a
+   * stage of the same session.
+   */
+  async beginStage<S extends ResumableStage>(
+    session: OrchestratorSession,
+    stage: S,
+    input: NonNullable<OrchestratorSession['stageInputs'][S]>,
+  ): Promise<void> {
+    const staleBefore = new Date(Date.now() - STALE_STAGE_MS).toISOString();
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('OrchestratorSessions')
+      .update({
+        PendingStage: stage,
+        StageInputs: { ...session.stageInputs, [stage]: input },
+        StageStartedAt: new Date().toISOString(),
+        LastError: null,
+        ExpiresAt: this.nextExpiry(),
+        UpdatedAt: new Date().toISOString(),
+      })
+      .eq('Id', session.id)
+      .eq('UserId', session.userId)
+      .or(`PendingStage.is.null,LastError.not.is.null,StageStartedAt.lt."${staleBefore}"`)
+      .select('Id');
+    if (error) {
+      this.logger.error(`Could not start ${stage} stage of orchestrator session ${session.id}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not update session: ${error.message}`);
+    }
+    if (!data?.length) {
+      throw new ConflictException(`The ${session.pendingStage ?? stage} stage of this session is still running`);
+    }
+  }
+
+  /**
+   * Stores the generate output so far, while the stage is still running
+   */
+  async saveGenerateProgress(sessionId: string, output: GenerateStageOutput): Promise<void> {
+    const { error } = await this.supabaseService
+      .getServiceClient()
+      .from('OrchestratorSessions')
+      .update({ GenerateData: output, StageStartedAt: new Date().toISOString(), UpdatedAt: new Date().toISOString() })
+      .eq('Id', sessionId);
+    if (error) {
+      this.logger.warn(`Could not save generate progress of orchestrator session ${sessionId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Stores the stage's output and clears it as pending. New matches discard any
+   * generate output, which was made from the previous ones.
+   */
+  async completeStage(sessionId: string, stage: 'match', output: MatchStageOutput): Promise<void>;
+  async completeStage(sessionId: string, stage: 'generate', output: GenerateStageOutput): Promise<void>;
+  async completeStage(sessionId: string, stage: ResumableStage, output: MatchStageOutput | GenerateStageOutput): Promise<void> {
+    const { error } = await this.supabaseService
+      .getServiceClient()
+      .from('OrchestratorSessions')
+      .update({
+        CurrentStage: stage,
+        ...(stage === 'match' ? { MatchData: output, GenerateData: null } : { GenerateData: output }),
+        PendingStage: null,
+        StageStartedAt: null,
+        LastError: null,
+        ExpiresAt: this.nextExpiry(),
+        UpdatedAt: new Date().toISOString(),
+      })
+      .eq('Id', sessionId);
+    if (error) {
+      this.logger.error(`Could not store ${stage} output of orchestrator session ${sessionId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not update session: ${error.message}`);
+    }
+  }
+
+  /**
+   * Leaves the stage pending with the error, for the client to resume
+   */
+  async failStage(sessionId: string, stage: ResumableStage, message: string): Promise<void> {
+    const { error } = await this.supabaseService
+      .getServiceClient()
+      .from('OrchestratorSessions')
+      .update({ LastError: message, UpdatedAt: new Date().toISOString() })
+      .eq('Id', sessionId)
+      .eq('PendingStage', stage);
+    if (error) {
+      this.logger.warn(`Could not record ${stage} failure of orchestrator session ${sessionId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Whether a pending stage is being worked on, rather than failed or abandoned
+   */
+  isStageRunning(session: OrchestratorSession): boolean {
+    return (
+      !!session.pendingStage &&
+      !session.lastError &&
+      !!session.stageStartedAt &&
+      session.stageStartedAt.getTime() > Date.now() - STALE_STAGE_MS
+    );
+  }
+
+  async purgeExpired(): Promise<number> {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('OrchestratorSessions')
+      .delete()
+      .lt('ExpiresAt', new Date().toISOString())
+      .select('Id');
+    if (error) {
+      this.logger.error(`Could not purge expired orchestrator sessions: ${error.message}`);
+      return 0;
+    }
+    return (data || []).length;
+  }
+
+  private nextExpiry(): string {
+    return new Date(Date.now() + SESSION_TTL_MS).toISOString();
+  }
+
+  private toSummary(row: any): OrchestratorSessionSummary {
+    return {
+      id: row.Id,
+      userId: row.UserId,
+      createdAt: new Date(row.CreatedAt),
+      updatedAt: new Date(row.UpdatedAt),
+      expiresAt: new Date(row.ExpiresAt),
+      currentStage: row.CurrentStage,
+      metadata: row.Metadata,
+      pendingStage: row.PendingStage ?? null,
+      stageStartedAt: row.StageStartedAt ? new Date(row.StageStartedAt) : null,
+      lastError: row.LastError ?? null,
+    };
+  }
+
+  private toSession(row: any): OrchestratorSession {
+    return {
+      ...this.toSummary(row),
+      recognizeData: row.RecognizeData ?? undefined,
+      matchData: row.MatchData ?? undefined,
+      generateData: row.GenerateData ?? undefined,
+      stageInputs: row.StageInputs ?? {},
+    };
+  }
+}
@@ -7,6 +7,10 @@ import { AiGenerationService } from '../ai-generation/ai-generation.service';
 import { FirecrawlService } from '../firecrawl.service';
 import { GenerateJobData, GenerateJobStatus, GenerateJobResult } from '../types/generate-job.types';
 import { AiUsageTrackerService } from '../../common/ai-usage-tracker.service';
+import { PromptTemplatesService } from '../../prompt-templates/prompt-templates.service';
+import { PromptTemplateKey, ResolvedPrompt } from '../../prompt-templates/prompt-templates.types';
+import { StyleProfilesService } from '../../style-profiles/style-profiles.service';
+import { ResolvedStyle } from '../../style-profiles/style-profiles.types';
 import { SupabaseClient } from '@supabase/supabase-js';
 
 
@@ -34,7 +38,9 @@ export class GenerateJobProcessor {
     private readonly activityLogService: ActivityLogService,
     private readonly aiGenerationService: AiGenerationService,
     private readonly firecrawlService: FirecrawlService,
-    private readonly aiUsageTracker: AiUsageTrackerService
+    private readonly aiUsageTracker: AiUsageTrackerService,
+    private readonly promptTemplatesService: PromptTemplatesService,
+    private readonly styleProfilesService: StyleProfilesService,
   ) {}
 
   async process(job: Job<GenerateJobData>): Promise<void> {
@@ -63,6 +69,7 @@ export class GenerateJobProcessor {
     try {
       const results: GenerateJobResult[] = [];
       let totalProcessingTime = 0;
+      const style = await this.resolveStyle(job.data);
 
 
       for (let i = 0; i < products.length; i++) {
@@ -272,6 +279,10 @@ export class GenerateJobProcessor {
 
         await this.updateStage(jobId, 'Generating details', i, products.length);
          let generated: any = null;
+        const prompt = await this.resolvePrompt(
+          job.data,
+          scrapedDataArray && scrapedDataArray.length > 0 ? 'generate_from_scraped' : 'generate_details',
+        );
         try {
            if (scrapedDataArray && scrapedDataArray.length > 0) {
             this.logger.log(`[GenerateJob] Generating using scraped context for product ${i + 1}`);
@@ -288,7 +299,8 @@ export class GenerateJobProcessor {
                 targetSites: (p.selectedMatches || []).map((m: any) => {
                   try { return new URL(m.link).origin; } catch { return null; }
                 }).filter(Boolean) as string[],
-              }
+              },
+              { userId, prompt, style, metadata: { jobId, productIndex: p.productIndex } },
             );
            } else {
             this.logger.log(`[GenerateJob] Generating from image(s) only (no scraped context) for product ${i + 1}`);
@@ -298,6 +310,7 @@ export class GenerateJobProcessor {
               selectedPlatforms,
               p.selectedMatches ? { visual_matches: p.selectedMatches as any } : null,
               null,
+              { userId, prompt, style, metadata: { jobId, productIndex: p.productIndex } },
             );
           }
         } catch (err) {
@@ -320,6 +333,7 @@ export class GenerateJobProcessor {
           sourceImageUrl: coverUrl,
           processingTimeMs,
           source: scrapedDataArray && scrapedDataArray.length > 0 ? 'hybrid' : 'ai_generated',
+          promptVersionId: prompt?.versionId,
            sources: (usedSources && usedSources.length ? usedSources : (p.selectedMatches || []).map((m:any)=>m?.link).filter(Boolean)).map((u:string)=>({ url: u })),
         };
 
@@ -346,6 +360,7 @@ export class GenerateJobProcessor {
               },
               IsActive: false,
               job_Id: jobId,
+              PromptVersionId: prompt?.versionId ?? null,
              });
 
              if (error) {
@@ -358,17 +373,6 @@ export class GenerateJobProcessor {
            }
 
            this.logger.log(`Generation result for product ${i+1}: ${platformKeys.join(', ')} platforms generated`);
-
-          
-           // Log result
-           await this.aiUsageTracker.trackUsage({
-            userId: userId,
-            serviceType: 'generation',
-            modelName: 'qwen3',
-            operation: 'generation',
-            requestCount: 1,
-            metadata: { generated }
-          });
          } catch (error) {
            this.logger.warn(`[GenerateJob] Failed to log generate event: ${error?.message || error}`);
          }
@@ -429,6 +433,36 @@ export class GenerateJobProcessor {
     }
   }
 
+  /**
+   * Picks the prompt template version for one product, drawn per product so an
+   * A/B split applies within a job. Falls back to the built-in prompt on failure.
+   */
+  private async resolvePrompt(data: GenerateJobData, key: PromptTemplateKey): Promise<ResolvedPrompt | null> {
+    try {
+      return await this.promptTemplatesService.resolve(data.userId, key, {
+        platforms: data.selectedPlatforms,
+        businessTemplate: data.template,
+        selection: data.promptTemplate,
+      });
+    } catch (error) {
+      this.logger.warn(`[GenerateJob] Could not resolve prompt template for ${data.jobId}, using built-in prompt: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * The user's style profiles for the job's platforms. Generation goes ahead
+   * without them if they cannot be loaded.
+   */
+  private async resolveStyle(data: GenerateJobData): Promise<ResolvedStyle | null> {
+    try {
+      return await this.styleProfilesService.resolveForPlatforms(data.userId, data.selectedPlatforms, data.targetConnections);
+    } catch (error) {
+      this.logger.warn(`[GenerateJob] Could not load style profiles for ${data.jobId}: ${error.message}`);
+      return null;
+    }
+  }
+
   private async updateStage(
     jobId: string,
     stage: typeof this.stages[number],
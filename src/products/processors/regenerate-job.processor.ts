@@ -3,9 +3,10 @@ import { Job } from 'bullmq';
 import { SupabaseService } from '../../common/supabase.service';
 import { ProductsService } from '../products.service';
 import { ActivityLogService } from '../../common/activity-log.service';
-import { AiGenerationService } from '../ai-generation/ai-generation.service';
 import { FirecrawlService } from '../firecrawl.service';
 import { AiUsageTrackerService } from '../../common/ai-usage-tracker.service';
+import { StyleProfilesService } from '../../style-profiles/style-profiles.service';
+import { AiGenerationService, GenerationContext } from '../ai-generation/ai-generation.service';
 import { 
   RegenerateJobData, 
   RegenerateJobStatus, 
@@ -36,6 +37,7 @@ export class RegenerateJobProcessor {
     private readonly aiGenerationService: AiGenerationService,
     private readonly firecrawlService: FirecrawlService,
     private readonly aiUsageTracker: AiUsageTrackerService,
+    private readonly styleProfilesService: StyleProfilesService,
   ) {}
 
   /**
@@ -195,7 +197,8 @@ export class RegenerateJobProcessor {
         existingProduct,
         sourceData,
         regenerateData,
-        options
+        options,
+        { userId, metadata: { jobId, productId: product.productId } },
       );
 
       const processingTime = Date.now() - startTime;
@@ -340,10 +343,21 @@ export class RegenerateJobProcessor {
     existingProduct: any,
     sourceData: any,
     regenerateData: any,
-    options: RegenerateJobData['options']
+    options: RegenerateJobData['options'],
+    usage: GenerationContext,
   ): Promise<Record<string, any>> {
     const platforms: Record<string, any> = {};
 
+    // The user's style profiles apply to regenerated content as they do to generated content
+    try {
+      usage = {
+        ...usage,
+        style: await this.styleProfilesService.resolveForPlatforms(usage.userId!, regenerateData.platforms, options?.targetConnections),
+      };
+    } catch (error) {
+      this.logger.warn(`Could not load style profiles for product ${product.productId}: ${error.message}`);
+    }
+
     for (const platform of regenerateData.platforms) {
       try {
         // Build context for AI generation
@@ -379,7 +393,8 @@ export class RegenerateJobProcessor {
             scrapedArray,
             prompt,
             options?.businessTemplate || 'general',
-            {}
+            {},
+            { ...usage, operation: 'regenerate_variants' },
           );
           let parsed: any = {};
           try {
@@ -408,7 +423,8 @@ export class RegenerateJobProcessor {
             scrapedArray || [],
             product.customPrompt || product.userQuery || 'Regenerate fields',
             options?.businessTemplate,
-            { platformRequests: requested }
+            { platformRequests: requested },
+            { ...usage, operation: 'regenerate_details' },
           );
           generatedContent = (fromScrape && (fromScrape as any)[platform]) ? (fromScrape as any)[platform] : {};
         } else {
@@ -418,6 +434,7 @@ export class RegenerateJobProcessor {
             [platform],
             null,
             null,
+            { ...usage, operation: 'regenerate_details' },
           );
           generatedContent = (fromImage && (fromImage as any)[platform]) ? (fromImage as any)[platform] : {};
         }
@@ -1,4 +1,4 @@
-import { Injectable, Logger, BadRequestException, InternalServerErrorException } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, ConflictException, InternalServerErrorException, NotFoundException } from '@nestjs/common';
 import { ProductRecognitionService } from './product-recognition.service';
 import { FirecrawlService } from './firecrawl.service';
 import { AiGenerationService } from './ai-generation/ai-generation.service';
@@ -7,6 +7,13 @@ import { RerankerService } from '../embedding/reranker.service';
 import { SupabaseService } from '../common/supabase.service';
 import { AiUsageTrackerService } from '../common/ai-usage-tracker.service';
 import { ActivityLogService } from '../common/activity-log.service';
+import { runWithChangeSource } from '../common/change-source.context';
+import {
+  OrchestratorSession,
+  OrchestratorSessionSummary,
+  OrchestratorSessionsService,
+  OrchestratorStage,
+} from './orchestrator-sessions.service';
 
 // Flexible Input/Output Types
 export interface RecognizeStageInput {
@@ -109,26 +116,9 @@ export interface GenerateStageOutput {
   };
 }
 
-// Session Management
-interface OrchestratorSession {
-  id: string;
-  userId: string;
-  createdAt: Date;
-  currentStage: 'recognize' | 'match' | 'generate' | 'completed';
-  recognizeData?: RecognizeStageOutput;
-  matchData?: MatchStageOutput;
-  generateData?: GenerateStageOutput;
-  metadata: {
-    mode: 'single' | 'bulk' | 'quick_scan';
-    totalSources: number;
-    targetSites?: string[];
-  };
-}
-
 @Injectable()
 export class ProductOrchestratorService {
   private readonly logger = new Logger(ProductOrchestratorService.name);
-  private readonly sessions = new Map<string, OrchestratorSession>();
 
   constructor(
     private readonly productRecognitionService: ProductRecognitionService,
@@ -139,6 +129,7 @@ export class ProductOrchestratorService {
     private readonly supabaseService: SupabaseService,
     private readonly aiUsageTracker: AiUsageTrackerService,
     private readonly activityLogService: ActivityLogService,
+    private readonly sessionsService: OrchestratorSessionsService,
   ) {}
 
   /**
@@ -206,19 +197,16 @@ export class ProductOrchestratorService {
       };
 
       // Store session
-      const session: OrchestratorSession = {
+      await this.sessionsService.create({
         id: sessionId,
         userId,
-        createdAt: new Date(),
-        currentStage: 'recognize',
         recognizeData: output,
         metadata: {
           mode: input.mode,
           totalSources,
           targetSites: input.targetSites
         }
-      };
-      this.sessions.set(sessionId, session);
+      });
 
       this.logger.log(`[Stage 1: Recognize] Completed for session ${sessionId}, recommended next: ${recommendedNextStage}`);
       return output;
@@ -236,8 +224,8 @@ export class ProductOrchestratorService {
   async match(userId: string, input: MatchStageInput): Promise<MatchStageOutput> {
     this.logger.log(`[Stage 2: Match] User: ${userId}, Session: ${input.sessionId}`);
 
-    const session = this.sessions.get(input.sessionId);
-    if (!session || session.userId !== userId) {
+    const session = await this.sessionsService.get(userId, input.sessionId);
+    if (!session) {
       throw new BadRequestException('Invalid session or access denied');
     }
 
@@ -245,6 +233,8 @@ export class ProductOrchestratorService {
       throw new BadRequestException('Recognition stage must be completed first');
     }
 
+    await this.sessionsService.beginStage(session, 'match', input);
+
     try {
       const matches: MatchStageOutput['matches'] = [];
       const recognizeResults = session.recognizeData.results;
@@ -342,14 +332,14 @@ export class ProductOrchestratorService {
       };
 
       // Update session
-      session.currentStage = 'match';
-      session.matchData = output;
+      await this.sessionsService.completeStage(input.sessionId, 'match', output);
 
       this.logger.log(`[Stage 2: Match] Completed for session ${input.sessionId}, overall confidence: ${overallConfidence}`);
       return output;
 
     } catch (error) {
       this.logger.error(`[Stage 2: Match] Error for session ${input.sessionId}: ${error.message}`, error.stack);
+      await this.sessionsService.failStage(input.sessionId, 'match', error.message);
       throw new InternalServerErrorException(`Matching stage failed: ${error.message}`);
     }
   }
@@ -361,8 +351,8 @@ export class ProductOrchestratorService {
   async generate(userId: string, input: GenerateStageInput): Promise<GenerateStageOutput> {
     this.logger.log(`[Stage 3: Generate] User: ${userId}, Session: ${input.sessionId}`);
 
-    const session = this.sessions.get(input.sessionId);
-    if (!session || session.userId !== userId) {
+    const session = await this.sessionsService.get(userId, input.sessionId);
+    if (!session) {
       throw new BadRequestException('Invalid session or access denied');
     }
 
@@ -370,16 +360,23 @@ export class ProductOrchestratorService {
       throw new BadRequestException('Matching stage must be completed first');
     }
 
+    await this.sessionsService.beginStage(session, 'generate', input);
+
+    // Sources an interrupted run already stored products for are not generated again
+    const previous = session.currentStage === 'match' ? session.generateData : undefined;
+
     try {
-      const generatedData: GenerateStageOutput['generatedData'] = [];
-      let productsCreated = 0;
-      let variantsCreated = 0;
-      let aiContentStored = 0;
-      let embeddingsStored = 0;
+      const generatedData: GenerateStageOutput['generatedData'] = [...(previous?.generatedData ?? [])];
+      let productsCreated = previous?.storageResults.productsCreated ?? 0;
+      let variantsCreated = previous?.storageResults.variantsCreated ?? 0;
+      let aiContentStored = previous?.storageResults.aiContentStored ?? 0;
+      let embeddingsStored = previous?.storageResults.embeddingsStored ?? 0;
 
       // Process each matched source
       for (const match of session.matchData.matches) {
         const sourceIndex = match.sourceIndex;
+        if (generatedData.some(d => d.sourceIndex === sourceIndex)) continue;
+
         const sourceData: GenerateStageOutput['generatedData'][0] = {
           sourceIndex,
           platforms: {}
@@ -417,13 +414,20 @@ export class ProductOrchestratorService {
         }
 
         // Store the generated data and embeddings
-        const storageResult = await this.storeGeneratedData(userId, sourceData, session.metadata.targetSites);
+        const storageResult = await runWithChangeSource('ai', input.sessionId, () =>
+          this.storeGeneratedData(userId, sourceData, session.metadata.targetSites),
+        );
         productsCreated += storageResult.productsCreated;
         variantsCreated += storageResult.variantsCreated;
         aiContentStored += storageResult.aiContentStored;
         embeddingsStored += storageResult.embeddingsStored;
 
         generatedData.push(sourceData);
+        await this.sessionsService.saveGenerateProgress(input.sessionId, {
+          sessionId: input.sessionId,
+          generatedData,
+          storageResults: { productsCreated, variantsCreated, aiContentStored, embeddingsStored }
+        });
       }
 
       const output: GenerateStageOutput = {
@@ -438,14 +442,14 @@ export class ProductOrchestratorService {
       };
 
       // Update session
-      session.currentStage = 'generate';
-      session.generateData = output;
+      await this.sessionsService.completeStage(input.sessionId, 'generate', output);
 
       this.logger.log(`[Stage 3: Generate] Completed for session ${input.sessionId}, created ${productsCreated} products, stored ${embeddingsStored} embeddings`);
       return output;
 
     } catch (error) {
       this.logger.error(`[Stage 3: Generate] Error for session ${input.sessionId}: ${error.message}`, error.stack);
+      await this.sessionsService.failStage(input.sessionId, 'generate', error.message);
       throw new InternalServerErrorException(`Generation stage failed: ${error.message}`);
     }
   }
@@ -454,24 +458,44 @@ export class ProductOrchestratorService {
    * Get session status and data
    */
   async getSession(userId: string, sessionId: string): Promise<OrchestratorSession | null> {
-    const session = this.sessions.get(sessionId);
-    if (!session || session.userId !== userId) {
-      return null;
-    }
-    return session;
+    return this.sessionsService.get(userId, sessionId);
   }
 
   /**
-   * Clean up old sessions
+   * The user's unexpired sessions, most recent first, for resuming on another device
    */
-  cleanupOldSessions(maxAgeHours: number = 24): void {
-    const cutoffTime = new Date(Date.now() - maxAgeHours * 60 * 60 * 1000);
-    
-    for (const [sessionId, session] of this.sessions.entries()) {
-      if (session.createdAt < cutoffTime) {
-        this.sessions.delete(sessionId);
-      }
+  async listSessions(
+    userId: string,
+    options: { stage?: OrchestratorStage; limit?: number; offset?: number } = {},
+  ): Promise<{ sessions: OrchestratorSessionSummary[]; total: number }> {
+    return this.sessionsService.list(userId, options);
+  }
+
+  /**
+   * Runs the session's pending stage again with the input it was last started
+   * with, after it failed or its process died
+   */
+  async resumeSession(userId: string, sessionId: string): Promise<MatchStageOutput | GenerateStageOutput> {
+    const session = await this.sessionsService.get(userId, sessionId);
+    if (!session) {
+      throw new NotFoundException('Session not found or access denied');
+    }
+    if (!session.pendingStage) {
+      throw new BadRequestException(`Session has no stage to resume; it completed the ${session.currentStage} stage`);
+    }
+    if (this.sessionsService.isStageRunning(session)) {
+      throw new ConflictException(`The ${session.pendingStage} stage of this session is still running`);
+    }
+
+    this.logger.log(`[Resume] User: ${userId}, Session: ${sessionId}, Stage: ${session.pendingStage}`);
+    if (session.pendingStage === 'match') {
+      return this.match(userId, { ...session.stageInputs.match, sessionId });
+    }
+    const generateInput = session.stageInputs.generate;
+    if (!generateInput) {
+      throw new BadRequestException('The generate stage input was not recorded; start the stage again');
     }
+    return this.generate(userId, { ...generateInput, sessionId });
   }
 
   // Private helper methods
@@ -703,7 +727,9 @@ export class ProductOrchestratorService {
         processedData = await this.aiGenerationService.generateProductDetailsFromScrapedData(
           successfulScrapes.map(s => s.content),
           scrapingTarget.customPrompt || `Extract product data: ${selectedMatch?.title || 'Unknown Product'} from ${targetSites?.join(', ') || 'web sources'}`,
-          targetSites?.join(',') || 'general'
+          targetSites?.join(',') || 'general',
+          undefined,
+          { userId, operation: 'orchestrator_scrape' },
         );
       } catch (error) {
         this.logger.warn(`AI processing of scraped data failed: ${error.message}`);
@@ -0,0 +1,336 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ProductsService as CanonicalProductsService } from '../canonical-data/products.service';
+import { InventoryService } from '../canonical-data/inventory.service';
+import { PlatformConnection, PlatformConnectionsService } from '../platform-connections/platform-connections.service';
+import { PlatformProductMappingsService } from '../platform-product-mappings/platform-product-mappings.service';
+import { PlatformAdapterRegistry } from '../platform-adapters/adapter.registry';
+import { EchoSuppressionService } from '../sync-engine/echo-suppression.service';
+import { ActivityLogService } from '../common/activity-log.service';
+import { runWithChangeSource } from '../common/change-source.context';
+import { ProductVariant } from '../common/types/supabase.types';
+import { validateAgainstPlatformSchemas } from './types/platform-schemas';
+import { GeneratedPlatformSpecificDetails, GenerateJobResult } from './types/generate-job.types';
+
+export interface PublishTarget {
+  connectionId: string;
+  platform?: string; // Which of the result's platforms to take details from; defaults to the connection's platform type
+  quantity?: number;
+  locationId?: string; // Platform location the quantity is stocked at
+}
+
+export interface ChannelPublishResult {
+  connectionId: string;
+  platform: string;
+  status: 'published' | 'failed' | 'skipped';
+  stage?: 'connection' | 'validation' | 'publish';
+  platformProductId?: string;
+  platformVariantIds?: Record<string, string>;
+  error?: string;
+  warning?: string; // Published, but something after the create did not complete
+}
+
+export interface PublishGeneratedResult {
+  productId: string | null;
+  variantId: string | null;
+  canonicalSaved: boolean; // Whether the catalog product was created or updated from the generated details
+  channels: ChannelPublishResult[];
+}
+
+interface ReadyChannel {
+  target: PublishTarget;
+  connection: PlatformConnection;
+  platform: string; // The connection's platform
+  details: GeneratedPlatformSpecificDetails;
+  fields: ListingFields;
+}
+
+interface ListingFields {
+  title?: string;
+  description?: string;
+  price?: number;
+  compareAtPrice?: number;
+  sku?: string;
+  barcode?: string;
+}
+
+/**
+ * Publishes a generate job result to several channels in one go: validates each
+ * channel's generated details, creates the listing on each connection through its
+ * adapter, and saves the product to the canonical catalog once a listing exists.
+ * A channel that fails does not stop the others.
+ */
+@Injectable()
+export class ProductPublishService {
+  private readonly logger = new Logger(ProductPublishService.name);
+
+  constructor(
+    private readonly canonicalProductsService: CanonicalProductsService,
+    private readonly inventoryService: InventoryService,
+    private readonly connectionsService: PlatformConnectionsService,
+    private readonly mappingsService: PlatformProductMappingsService,
+    private readonly adapterRegistry: PlatformAdapterRegistry,
+    private readonly activityLogService: ActivityLogService,
+    private readonly echoSuppression: EchoSuppressionService,
+  ) {}
+
+  async publishGenerated(
+    userId: string,
+    jobId: string,
+    result: Pick<GenerateJobResult, 'productId' | 'variantId' | 'platforms' | 'sourceImageUrl'>,
+    targets: PublishTarget[],
+    imageUrls: string[] = [],
+  ): Promise<PublishGeneratedResult> {
+    if (!targets.length) throw new BadRequestException('At least one target connection is required');
+
+    // 1. Check every target before anything is written
+    const channels: ChannelPublishResult[] = [];
+    const ready: ReadyChannel[] = [];
+    for (const target of targets) {
+      const connection = await this.connectionsService.getConnectionById(target.connectionId, userId);
+      const platform = (connection?.PlatformType || '').toLowerCase();
+      const source = target.platform?.toLowerCase() || platform;
+      if (!connection) {
+        channels.push({ connectionId: target.connectionId, platform: source, status: 'failed', stage: 'connection', error: 'Connection not found' });
+        continue;
+      }
+      if (!connection.IsEnabled) {
+        channels.push({ connectionId: connection.Id, platform, status: 'failed', stage: 'connection', error: 'Connection is disabled' });
+        continue;
+      }
+
+      const details = this.findDetails(result.platforms, source);
+      if (!details) {
+        channels.push({ connectionId: connection.Id, platform, status: 'failed', stage: 'validation', error: `The result has no ${source} details` });
+        continue;
+      }
+      try {
+        // Checked against the platform they will be listed on, whichever platform they were generated for
+        validateAgainstPlatformSchemas({ [platform]: details }, [platform], {}, { strict: true });
+      } catch (error) {
+        channels.push({ connectionId: connection.Id, platform, status: 'failed', stage: 'validation', error: error.message });
+        continue;
+      }
+      ready.push({ target, connection, platform, details, fields: this.listingFields(source, details) });
+    }
+
+    if (!ready.length) {
+      return { productId: result.productId ?? null, variantId: result.variantId ?? null, canonicalSaved: false, channels };
+    }
+
+    // 2. The variant to list, from the first channel that validated. A draft is only
+    // updated once a listing exists; a new product is removed again if none does.
+    const images = [...new Set([...(imageUrls || []), ...(result.sourceImageUrl ? [result.sourceImageUrl] : [])])];
+    const fields = ready[0].fields;
+    const existing = result.variantId ? await this.loadVariant(userId, result.variantId) : null;
+    const variant = existing
+      ? { ...existing, ...this.variantUpdates(existing, fields) }
+      : await runWithChangeSource('ai', 'publish', () => this.createCanonical(userId, fields, images));
+
+    // 3. One listing per channel
+    for (const channel of ready) {
+      channels.push(await this.publishToChannel(userId, jobId, variant, channel, images));
+    }
+
+    const published = channels.some(c => c.status === 'published');
+    if (existing && published) {
+      await runWithChangeSource('ai', 'publish', async () => {
+        await this.canonicalProductsService.updateVariant(existing.Id, this.variantUpdates(existing, fields));
+        if (images.length) await this.canonicalProductsService.replaceVariantImages(existing.Id, images);
+      });
+    } else if (!existing && !published) {
+      await runWithChangeSource('ai', 'publish', () => this.canonicalProductsService.deleteProductAndVariants(variant.ProductId, userId));
+      return { productId: null, variantId: null, canonicalSaved: false, channels };
+    }
+
+    return { productId: variant.ProductId, variantId: variant.Id, canonicalSaved: published, channels };
+  }
+
+  private async publishToChannel(
+    userId: string,
+    jobId: string,
+    variant: ProductVariant,
+    { target, connection, platform, details, fields }: ReadyChannel,
+    images: string[],
+  ): Promise<ChannelPublishResult> {
+    const base = { connectionId: connection.Id, platform };
+
+    const existing = await this.mappingsService.getMappingsByVariantIdAndConnection(variant.Id, connection.Id);
+    if (existing) {
+      return { ...base, status: 'skipped', platformProductId: existing.PlatformProductId, error: 'Already listed on this connection' };
+    }
+
+    const canonicalProduct = {
+      Id: variant.ProductId,
+      UserId: userId,
+      IsArchived: false,
+      Title: fields.title || variant.Title,
+      Description: fields.description || variant.Description || undefined,
+      ImageUrls: images.length ? images : undefined,
+      PlatformSpecificData: { [platform]: details }, // Adapters read the details under their own platform's key
+    };
+    const canonicalVariant = {
+      Id: variant.Id,
+      ProductId: variant.ProductId,
+      UserId: userId,
+      Sku: fields.sku || variant.Sku,
+      Barcode: fields.barcode ?? variant.Barcode,
+      Title: fields.title || variant.Title,
+      Description: fields.description || variant.Description,
+      Price: fields.price ?? variant.Price,
+      CompareAtPrice: fields.compareAtPrice ?? variant.CompareAtPrice,
+      Weight: variant.Weight,
+      WeightUnit: variant.WeightUnit,
+      Options: variant.Options,
+      RequiresShipping: variant.RequiresShipping,
+      IsTaxable: variant.IsTaxable,
+      TaxCode: variant.TaxCode,
+      ImageId: variant.ImageId,
+    };
+    const inventoryLevels =
+      target.quantity !== undefined
+        ? [{ ProductVariantId: variant.Id, PlatformConnectionId: connection.Id, PlatformLocationId: target.locationId ?? null, Quantity: target.quantity }]
+        : [];
+
+    let platformProductId: string;
+    let platformVariantIds: Record<string, string>;
+    try {
+      const adapter = this.adapterRegistry.getAdapter(connection.PlatformType);
+      ({ platformProductId, platformVariantIds } = await adapter.createProduct(connection, canonicalProduct, [canonicalVariant], inventoryLevels));
+    } catch (error) {
+      this.logger.error(`Failed to publish product ${variant.ProductId} to ${connection.PlatformType} (${connection.Id}): ${error.message}`);
+      await this.activityLogService.logActivity({
+        UserId: userId,
+        EntityType: 'Product',
+        EntityId: variant.ProductId,
+        EventType: 'PRODUCT_PUSH_CREATED_FAILED',
+        Status: 'Error',
+        Message: `Publishing generated listing to ${connection.PlatformType} failed: ${error.message}`,
+        Details: { platform: connection.PlatformType, connectionId: connection.Id },
+      });
+      return { ...base, status: 'failed', stage: 'publish', error: error.message };
+    }
+
+    // The listing exists from here on; later failures are reported as warnings
+    const published: ChannelPublishResult = { ...base, status: 'published', platformProductId, platformVariantIds };
+    try {
+      const mapping = await this.mappingsService.createMapping({
+        PlatformConnectionId: connection.Id,
+        ProductVariantId: variant.Id,
+        PlatformProductId: platformProductId,
+        PlatformVariantId: platformVariantIds[variant.Id] ?? null,
+        PlatformSku: canonicalVariant.Sku,
+        LastSyncedAt: new Date().toISOString(),
+        SyncStatus: 'Success',
+        IsEnabled: true,
+      });
+
+      // Record the stock the listing was created with, so sssync agrees with the
+      // platform and its inventory webhook is recognised as our own push
+      if (inventoryLevels.length) {
+        await this.inventoryService.adjustLevel(
+          {
+            variantId: variant.Id,
+            connectionId: connection.Id,
+            locationId: inventoryLevels[0].PlatformLocationId,
+            quantity: inventoryLevels[0].Quantity,
+            reason: 'recount',
+            referenceId: jobId,
+            note: 'Published from generated listing',
+            sourceConnectionId: connection.Id, // The platform already has this quantity
+          },
+          { userId },
+        );
+        await this.echoSuppression.recordInventoryPush(mapping, inventoryLevels, this.echoSuppression.newChangeSetId());
+      }
+    } catch (error) {
+      this.logger.error(`Product ${variant.ProductId} was listed on ${connection.PlatformType} (${platformProductId}) but could not be recorded: ${error.message}`);
+      published.warning = `Listed, but the mapping or stock could not be recorded: ${error.message}`;
+    }
+
+    await this.activityLogService.logActivity({
+      UserId: userId,
+      EntityType: 'Product',
+      EntityId: variant.ProductId,
+      EventType: 'PRODUCT_PUSH_CREATED_SUCCESS',
+      Status: 'Success',
+      Message: `Generated listing published to ${connection.PlatformType} (${platformProductId})`,
+      Details: { platform: connection.PlatformType, connectionId: connection.Id, platformProductId, platformVariantIds, jobId },
+    });
+    return published;
+  }
+
+  private async loadVariant(userId: string, variantId: string): Promise<ProductVariant> {
+    const variant = await this.canonicalProductsService.getVariantById(variantId);
+    if (!variant || variant.UserId !== userId) throw new NotFoundException(`Variant ${variantId} not found.`);
+    return variant;
+  }
+
+  /**
+   * The generated fields that replace the draft variant's, keeping an existing SKU
+   */
+  private variantUpdates(existing: ProductVariant, fields: ListingFields): Partial<ProductVariant> {
+    return {
+      ...(fields.title ? { Title: fields.title } : {}),
+      ...(fields.description ? { Description: fields.description } : {}),
+      ...(fields.price !== undefined ? { Price: fields.price } : {}),
+      ...(fields.compareAtPrice !== undefined ? { CompareAtPrice: fields.compareAtPrice } : {}),
+      ...(fields.barcode ? { Barcode: fields.barcode } : {}),
+      ...(!existing.Sku && fields.sku ? { Sku: fields.sku } : {}),
+    };
+  }
+
+  private async createCanonical(userId: string, fields: ListingFields, images: string[]): Promise<ProductVariant> {
+    const variant = await this.canonicalProductsService.createProductWithVariant(userId, {
+      Sku: fields.sku || `SSSYNC-${Date.now().toString(36).toUpperCase()}`,
+      Barcode: fields.barcode ?? null,
+      Title: fields.title || 'Untitled',
+      Description: fields.description ?? null,
+      Price: fields.price ?? 0,
+      CompareAtPrice: fields.compareAtPrice ?? null,
+      Weight: null,
+      WeightUnit: null,
+      Options: null,
+      RequiresShipping: true,
+      IsTaxable: true,
+      TaxCode: null,
+      ImageId: null,
+    });
+    if (images.length) await this.canonicalProductsService.saveVariantImages(variant.Id, images);
+    return variant;
+  }
+
+  private findDetails(platforms: Record<string, GeneratedPlatformSpecificDetails>, platform: string): GeneratedPlatformSpecificDetails | null {
+    const key = Object.keys(platforms || {}).find(k => k.toLowerCase() === platform);
+    const details = key ? platforms[key] : null;
+    return details && typeof details === 'object' && !details.error ? details : null;
+  }
+
+  /**
+   * The common listing fields, wherever each platform's generated shape keeps them
+   */
+  private listingFields(platform: string, details: Record<string, any>): ListingFields {
+    const shopifyVariant = platform === 'shopify' ? details.variants?.[0] : undefined;
+    const squareItem = platform === 'square' ? details.object?.itemData : undefined;
+    const squareVariation = squareItem?.variations?.[0]?.itemVariationData;
+    const squareCents = squareVariation?.priceMoney?.amount;
+
+    return {
+      title: text(details.title ?? details.name ?? squareItem?.name),
+      description: text(details.description ?? squareItem?.description),
+      price: amount(details.price ?? shopifyVariant?.price ?? (squareCents !== undefined ? Number(squareCents) / 100 : undefined)),
+      compareAtPrice: amount(details.compareAtPrice ?? shopifyVariant?.compareAtPrice),
+      sku: text(details.sku ?? details.customLabel ?? shopifyVariant?.sku ?? squareVariation?.sku),
+      barcode: text(details.gtin ?? details.barcode ?? shopifyVariant?.barcode),
+    };
+  }
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// Prices come back as numbers or as strings like "19.99 USD"
+function amount(value: unknown): number | undefined {
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value.replace(/[^0-9.]/g, '')) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
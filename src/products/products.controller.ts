@@ -13,7 +13,9 @@ import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
 import { FeatureUsageGuard, Feature } from '../common/guards/feature-usage.guard';
 import { SupabaseAuthGuard } from '../auth/guards/supabase-auth.guard';
 import { PublishProductDto } from './dto/publish-product.dto';
-import { ProductVariant } from '../common/types/supabase.types';
+import { PublishGeneratedDto } from './dto/publish-generated.dto';
+import { ProductPublishService, PublishGeneratedResult } from './product-publish.service';
+import { InventoryLedgerEntry, ProductVariant } from '../common/types/supabase.types';
 import { ShopifyProductSetInput, ShopifyProductFile, ShopifyLocationNode, ShopifyInventoryLevelNode, ShopifyVariantInput, ShopifyInventoryQuantity, ShopifyMediaInput, ShopifyProductOption, ShopifyProductOptionValue, ShopifyInventoryItem } from '../platform-adapters/shopify/shopify-api-client.service';
 import { PlatformConnectionsService } from '../platform-connections/platform-connections.service';
 import { ShopifyApiClient } from '../platform-adapters/shopify/shopify-api-client.service';
@@ -24,6 +26,9 @@ import { Request as ExpressRequest } from 'express';
 import { User } from '@supabase/supabase-js';
 import { SubscriptionLimitGuard } from '../common/subscription-limit.guard';
 import { SkuCheckDto } from './dto/sku-check.dto';
+import { UpdateInventoryDto } from './dto/update-inventory.dto';
+import { InventoryService, InventoryAdjustmentResult } from '../canonical-data/inventory.service';
+import { SyncEventsService } from '../sync-engine/sync-events.service';
 import { ConflictException } from '@nestjs/common';
 import { ActivityLogService } from '../common/activity-log.service';
 import { AiUsageTrackerService } from '../common/ai-usage-tracker.service';
@@ -38,6 +43,7 @@ import { ProductAnalysisJobData, ProductAnalysisJobStatus } from './types/produc
 import { ProductAnalysisProcessor } from './processors/product-analysis.processor';
 import { MatchJobData, MatchJobStatus, MatchJobResult } from './types/match-job.types';
 import { GenerateJobData, GenerateJobStatus, GenerateJobResult } from './types/generate-job.types';
+import { PromptSelection } from '../prompt-templates/prompt-templates.types';
 import { GenerateJobProcessor } from './processors/generate-job.processor';
 import { MatchJobProcessor } from './processors/match-job.processor';
 
@@ -106,6 +112,9 @@ export class ProductsController {
         private readonly matchJobProcessor: MatchJobProcessor,
         private readonly generateJobProcessor: GenerateJobProcessor,
         private readonly regenerateJobProcessor: RegenerateJobProcessor,
+        private readonly inventoryService: InventoryService,
+        private readonly syncEventsService: SyncEventsService,
+        private readonly productPublishService: ProductPublishService,
     ) {}
 
     // Helper method for retry logic
@@ -209,6 +218,7 @@ export class ProductsController {
                     generateDetailsDto.selectedPlatforms,
                     generateDetailsDto.selectedMatch,
                     generateDetailsDto.enhancedWebData,
+                    generateDetailsDto.promptTemplate,
                 );
 
                 this.logger.log(`[POST /generate-details] User: ${userId} - Generation complete for variant ${generateDetailsDto.variantId}`);
@@ -1437,67 +1447,98 @@ export class ProductsController {
         }
     }
 
-    // Add inventory update logging
+    /**
+     * Applies stock changes to a variant's levels through the inventory ledger,
+     * in order: a `quantity` is a count (recorded as a recount), a `delta` an
+     * adjustment with its reason. Deltas compose with concurrent sales instead
+     * of overwriting them. The changes are then pushed to every connection.
+     */
     @Put('/:variantId/inventory')
     async updateProductInventory(
         @Param('variantId') variantId: string,
         @Req() req: AuthenticatedRequest,
-        @Body() updateData: {
-            updates: Array<{
-                platformConnectionId: string;
-                locationId: string;
-                quantity: number;
-                locationName?: string;
-            }>;
+        @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true })) updateData: UpdateInventoryDto,
+    ): Promise<{ message: string; updatedCount: number; levels: InventoryAdjustmentResult[] }> {
+        const both = updateData.updates.findIndex(u => u.quantity !== undefined && u.delta !== undefined);
+        if (both !== -1) {
+            throw new BadRequestException(`updates[${both}] has both quantity and delta; give one.`);
         }
-    ): Promise<{ message: string; updatedCount: number }> {
+
         try {
-            let updatedCount = 0;
-            
+            const levels: InventoryAdjustmentResult[] = [];
             for (const update of updateData.updates) {
-                // Get current quantity for logging
-                const currentLevel = await this.supabaseService.getClient()
-                    .from('InventoryLevels')
-                    .select('Quantity')
-                    .eq('ProductVariantId', variantId)
-                    .eq('PlatformConnectionId', update.platformConnectionId)
-                    .eq('PlatformLocationId', update.locationId)
-                    .single();
-
-                const previousQuantity = currentLevel.data?.Quantity || 0;
-
-                // Update the inventory (implement your actual update logic here)
-                // ... your inventory update logic ...
+                const result = await this.inventoryService.adjustLevel(
+                    {
+                        variantId,
+                        connectionId: update.platformConnectionId,
+                        locationId: update.locationId ?? null,
+                        ...(update.quantity !== undefined ? { quantity: update.quantity } : { delta: update.delta }),
+                        reason: update.reason ?? 'recount',
+                        referenceId: update.referenceId,
+                        note: update.note,
+                    },
+                    { userId: req.user.id },
+                );
+                levels.push(result);
 
-                // Log the inventory update
                 await this.activityLogService.logInventoryUpdate(
                     variantId,
-                    previousQuantity,
-                    update.quantity,
-                    update.locationId,
+                    result.quantityBefore,
+                    result.quantityAfter,
+                    update.locationId ?? '',
                     {
                         platformConnectionId: update.platformConnectionId,
                         locationName: update.locationName || update.locationId,
-                        reason: 'Manual update',
+                        reason: update.reason ?? 'recount',
                         source: 'user'
                     },
                     req.user.id,
                     update.platformConnectionId
                 );
+            }
 
-                updatedCount++;
+            if (levels.some(l => l.ledgerId !== null)) {
+                // Made in sssync, so no connection has it yet: none is excluded
+                this.syncEventsService.emitInventorySyncEvent({
+                    type: 'INVENTORY_UPDATED',
+                    variantId,
+                    userId: req.user.id,
+                    sourceConnectionId: '',
+                    sourcePlatform: 'sssync',
+                });
             }
 
             return {
-                message: `Successfully updated inventory for ${updatedCount} location(s)`,
-                updatedCount
+                message: `Successfully updated inventory for ${levels.length} location(s)`,
+                updatedCount: levels.length,
+                levels,
             };
         } catch (error) {
+            if (error instanceof HttpException) throw error;
             this.logger.error(`Failed to update inventory: ${error.message}`, error.stack);
             throw new InternalServerErrorException('Failed to update inventory');
         }
     }
 
+    /**
+     * A variant's inventory ledger, newest first
+     */
+    @Get('/:variantId/inventory/ledger')
+    async getInventoryLedger(
+        @Param('variantId') variantId: string,
+        @Req() req: AuthenticatedRequest,
+        @Query('connectionId') connectionId?: string,
+        @Query('limit') limit?: string,
+        @Query('offset') offset?: string,
+    ): Promise<{ entries: InventoryLedgerEntry[] }> {
+        const entries = await this.inventoryService.getLedgerEntries(req.user.id, variantId, {
+            connectionId,
+            limit: limit ? parseInt(limit, 10) || undefined : undefined,
+            offset: offset ? parseInt(offset, 10) || undefined : undefined,
+        });
+        return { entries };
+    }
+
     // Add product update with logging
     @Put('/:id')
     async updateProduct(
@@ -1965,7 +2006,8 @@ Return JSON format:
                     url: 'ai_visual_matching',
                     scrapedData: { serpApiResults: matchRequest.serpApiResults },
                     analysis: prompt
-                }
+                },
+                { userId, operation: 'ai_visual_match' }
             );
 
             // Parse AI response for visual matching
@@ -2977,7 +3019,8 @@ Return JSON format:
                             customPrompt: platform.customPrompt
                         }],
                         targetSites: scrapedData.map(s => new URL(s.url).hostname)
-                    }
+                    },
+                    { userId }
                 );
                 
                 if (fullDetails && fullDetails[platform.name]) {
@@ -2995,7 +3038,8 @@ Return JSON format:
                     coverImageUrl,
                     [platform.name],
                     selectedMatchContext,
-                    enhancedWebData
+                    enhancedWebData,
+                    { userId }
                 );
                 
                 if (fullDetails && fullDetails[platform.name]) {
@@ -3609,6 +3653,7 @@ Return JSON format:
         canProceed: {
             toMatch: boolean;
             toGenerate: boolean;
+            toResume: boolean;
         };
     }> {
         const userId = req.user?.id;
@@ -3627,17 +3672,69 @@ Return JSON format:
 
             const canProceed = {
                 toMatch: session.currentStage === 'recognize' && !!session.recognizeData,
-                toGenerate: session.currentStage === 'match' && !!session.matchData
+                toGenerate: session.currentStage === 'match' && !!session.matchData,
+                toResume: !!session.pendingStage && !!session.stageInputs[session.pendingStage]
             };
 
             return { session, canProceed };
 
         } catch (error) {
+            if (error instanceof HttpException) throw error;
             this.logger.error(`[GET /orchestrate/session] User: ${userId} - Error: ${error.message}`, error.stack);
             throw new InternalServerErrorException(`Failed to fetch session: ${error.message}`);
         }
     }
 
+    /**
+     * The user's unexpired orchestrator sessions, most recently worked on first,
+     * so a listing started on one device can be picked up on another
+     */
+    @Get('orchestrate/sessions')
+    @UseGuards(SupabaseAuthGuard)
+    @HttpCode(HttpStatus.OK)
+    async listOrchestratorSessions(
+        @Req() req: AuthenticatedRequest,
+        @Query('stage') stage?: 'recognize' | 'match' | 'generate' | 'completed',
+        @Query('limit') limit?: string,
+        @Query('offset') offset?: string,
+    ) {
+        const userId = req.user?.id;
+        if (!userId) {
+            throw new BadRequestException('User ID not found after authentication.');
+        }
+        if (stage && !['recognize', 'match', 'generate', 'completed'].includes(stage)) {
+            throw new BadRequestException(`Invalid stage: ${stage}`);
+        }
+
+        const parsedLimit = Math.min(limit ? parseInt(limit, 10) || 20 : 20, 100);
+        const parsedOffset = offset ? parseInt(offset, 10) || 0 : 0;
+        const { sessions, total } = await this.productOrchestratorService.listSessions(userId, {
+            stage,
+            limit: parsedLimit,
+            offset: parsedOffset,
+        });
+        return { sessions, pagination: { total, limit: parsedLimit, offset: parsedOffset } };
+    }
+
+    /**
+     * Runs a session's failed or interrupted stage again with the input it was started with
+     */
+    @Post('orchestrate/session/:sessionId/resume')
+    @UseGuards(SupabaseAuthGuard)
+    @HttpCode(HttpStatus.OK)
+    async resumeOrchestratorSession(
+        @Param('sessionId') sessionId: string,
+        @Req() req: AuthenticatedRequest,
+    ) {
+        const userId = req.user?.id;
+        if (!userId) {
+            throw new BadRequestException('User ID not found after authentication.');
+        }
+
+        this.logger.log(`[POST /orchestrate/session/resume] User: ${userId} - Session: ${sessionId}`);
+        return this.productOrchestratorService.resumeSession(userId, sessionId);
+    }
+
     /**
      * 🔥 BULK LIQUIDATION ENDPOINT - Perfect for liquidation use cases
      * Takes multiple images, runs SerpAPI on each, returns organized results per product
@@ -4044,6 +4141,8 @@ Return JSON format:
                 customPrompt?: string 
             }>;
             templateSources?: string[];
+            promptTemplate?: PromptSelection;
+            targetConnections?: string[];
         },
         @Req() req: AuthenticatedRequest,
     ): Promise<{
@@ -4079,6 +4178,8 @@ Return JSON format:
             template: generateRequest.template ?? null,
             platformRequests: generateRequest.platformRequests,
             templateSources: generateRequest.templateSources,
+            promptTemplate: generateRequest.promptTemplate,
+            targetConnections: generateRequest.targetConnections,
             options: generateRequest.options,
             metadata: {
                 totalProducts: generateRequest.products.length,
@@ -4165,6 +4266,35 @@ Return JSON format:
         };
     }
 
+    /**
+     * Publishes one product from a completed generate job to the given connections.
+     * Each channel reports its own outcome; one failing does not stop the rest.
+     */
+    @Post('generate/jobs/:jobId/publish')
+    @UseGuards(SupabaseAuthGuard)
+    @HttpCode(HttpStatus.OK)
+    @UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true }))
+    async publishGenerateJobResult(
+        @Param('jobId') jobId: string,
+        @Body() dto: PublishGeneratedDto,
+        @Req() req: AuthenticatedRequest,
+    ): Promise<PublishGeneratedResult> {
+        const userId = req.user?.id;
+        if (!userId) throw new BadRequestException('User ID not found after authentication.');
+        let status = this.generateJobProcessor.getJobStatus(jobId);
+        if (!status) status = await this.generateJobProcessor.getJobStatusFromDatabase(jobId);
+        if (!status || status.userId !== userId) throw new NotFoundException(`Generate job ${jobId} not found`);
+        if (status.status !== 'completed') throw new BadRequestException(`Job ${jobId} is not completed yet. Current status: ${status.status}`);
+
+        const result = status.results.find(r => r.productIndex === dto.productIndex);
+        if (!result || result.error) throw new BadRequestException(`Job ${jobId} has no usable result for product ${dto.productIndex}`);
+
+        const imageUris = (dto.imageUris || [])
+            .map(uri => this._controllerCleanImageUrl(uri, this.logger) || '')
+            .filter(uri => uri.length > 0);
+        return this.productPublishService.publishGenerated(userId, jobId, result, dto.targets, imageUris);
+    }
+
     // === Generate Versions History ===
     @Get('generate/versions')
     @Feature('aiScans')
@@ -4565,6 +4695,7 @@ Return JSON format:
                 enhanceWithGroq?: boolean;
                 overwriteExisting?: boolean;
                 businessTemplate?: string;
+                targetConnections?: string[];
             };
         },
         @Req() req: AuthenticatedRequest,
@@ -15,12 +15,17 @@ import { ActivityLogService } from '../common/activity-log.service';
 import { FirecrawlService } from './firecrawl.service';
 import { ProductRecognitionService } from './product-recognition.service';
 import { ProductOrchestratorService } from './product-orchestrator.service';
+import { OrchestratorSessionsService } from './orchestrator-sessions.service';
 import { EmbeddingModule } from '../embedding/embedding.module';
+import { PromptTemplatesModule } from '../prompt-templates/prompt-templates.module';
+import { StyleProfilesModule } from '../style-profiles/style-profiles.module';
 import { RerankerService } from '../embedding/reranker.service';
 import { ProductAnalysisProcessor } from './processors/product-analysis.processor';
 import { MatchJobProcessor } from './processors/match-job.processor';
 import { GenerateJobProcessor } from './processors/generate-job.processor';
 import { RegenerateJobProcessor } from './processors/regenerate-job.processor';
+import { SyncEventsService } from '../sync-engine/sync-events.service';
+import { ProductPublishService } from './product-publish.service';
 
 @Module({
   imports: [
@@ -31,6 +36,8 @@ import { RegenerateJobProcessor } from './processors/regenerate-job.processor';
     forwardRef(() => PlatformConnectionsModule),
     forwardRef(() => PlatformAdaptersModule),
     forwardRef(() => EmbeddingModule),
+    PromptTemplatesModule,
+    StyleProfilesModule,
   ],
   controllers: [ProductsController],
   providers: [
@@ -43,11 +50,14 @@ import { RegenerateJobProcessor } from './processors/regenerate-job.processor';
     FirecrawlService,
     ProductRecognitionService,
     ProductOrchestratorService,
+    OrchestratorSessionsService,
     RerankerService,
     ProductAnalysisProcessor,
     MatchJobProcessor,
     GenerateJobProcessor,
     RegenerateJobProcessor,
+    SyncEventsService,
+    ProductPublishService,
   ],
   exports: [
     ProductsService, 
@@ -57,6 +67,7 @@ import { RegenerateJobProcessor } from './processors/regenerate-job.processor';
     ActivityLogService,
     ProductRecognitionService,
     ProductOrchestratorService,
+    OrchestratorSessionsService,
     ProductAnalysisProcessor,
     MatchJobProcessor,
     GenerateJobProcessor,
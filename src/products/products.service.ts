@@ -15,6 +15,8 @@ import { AiUsageTrackerService } from '../common/ai-usage-tracker.service';
 import { Product, ProductVariant, ProductImage } from '../common/types/supabase.types';
 import * as QueueManager from '../queue-manager';
 import { CompareResultsInput, CompareResultsOutput } from './types/match-job.types';
+import { PromptTemplatesService } from '../prompt-templates/prompt-templates.service';
+import { PromptSelection } from '../prompt-templates/prompt-templates.types';
 
 // Export the types
 export type { SerpApiLensResponse, VisualMatch } from './image-recognition/image-recognition.service';
@@ -53,6 +55,7 @@ export interface SimpleAiGeneratedContent {
     SourceApi: string;
     GeneratedText: string;
     Metadata?: any;
+    PromptVersionId?: string | null;
     IsActive: boolean;
     CreatedAt: string;
     UpdatedAt: string;
@@ -74,6 +77,7 @@ export class ProductsService {
     private readonly connectionsService: PlatformConnectionsService,
     private readonly activityLogService: ActivityLogService,
     private readonly aiUsageTracker: AiUsageTrackerService,
+    private readonly promptTemplatesService: PromptTemplatesService,
   ) {
     this.logger.log('ProductsService Constructor called.');
 
@@ -322,6 +326,7 @@ export class ProductsService {
     selectedPlatforms: string[],
     selectedMatch?: VisualMatch | null, // Use the specific match selected by user
     enhancedWebData?: { url: string; scrapedData: any; analysis?: string } | null, // NEW: Enhanced web data from Firecrawl
+    promptSelection?: PromptSelection | null, // Pin a prompt template or version instead of the best match
   ): Promise<{ generatedDetails: GeneratedDetails | null }> { // Only return generatedDetails now
 
     // Optional: Fetch Product/Variant to verify ownership/existence if needed
@@ -339,12 +344,17 @@ export class ProductsService {
 
     // 1. Call AI Generation Service
     const coverImageUrl = imageUrls[coverImageIndex];
+    const prompt = await this.promptTemplatesService.resolve(userId, 'generate_details', {
+      platforms: selectedPlatforms,
+      selection: promptSelection,
+    });
     const generatedDetails = await this.aiGenerationService.generateProductDetails(
       imageUrls,
       coverImageUrl,
       selectedPlatforms,
       selectedMatch ? { visual_matches: [selectedMatch] } : null, // Pass selected match context if available
       enhancedWebData, // NEW: Pass enhanced web data to AI service
+      { userId, prompt, metadata: { productId, variantId, hasEnhancedData: !!enhancedWebData } }, // Tokens are tracked per completion
     );
 
      if (!generatedDetails) {
@@ -352,31 +362,6 @@ export class ProductsService {
          throw new InternalServerErrorException('Failed to generate product details from AI.');
      }
 
-     // Track AI generation usage (approximate token counts)
-     try {
-       const estimatedInputTokens = Math.ceil((coverImageUrl.length + 
-         selectedPlatforms.join(',').length + 
-         (enhancedWebData?.analysis?.length || 0)) / 4);
-       const estimatedOutputTokens = Math.ceil(
-         JSON.stringify(generatedDetails).length / 4
-       );
-       
-       await this.aiUsageTracker.trackGenerationUsage(
-         userId, 
-         estimatedInputTokens, 
-         estimatedOutputTokens, 
-         'generate_details',
-         {
-           productId,
-           variantId,
-           platforms: selectedPlatforms.join(','),
-           hasEnhancedData: !!enhancedWebData
-         }
-       );
-     } catch (error) {
-       this.logger.warn('Failed to track AI generation usage:', error);
-     }
-
     // 2. Save Generated AI Content to DB
      const aiContentInserts: Omit<SimpleAiGeneratedContent, 'Id' | 'CreatedAt'>[] = [];
      let primaryDetails: any = null; // Store details for the first platform to update the variant
@@ -389,6 +374,7 @@ export class ProductsService {
              SourceApi: 'groq-qwen3',
              GeneratedText: JSON.stringify(details),
              Metadata: { platform: platform.toLowerCase(), selectedMatch: selectedMatch ?? null },
+             PromptVersionId: prompt?.versionId ?? null,
              IsActive: true,
              UpdatedAt: new Date().toISOString()
          });
@@ -429,8 +415,7 @@ export class ProductsService {
    // --- TODO: Add method for saving edited data (Step 4/5 from frontend) ---
    // async saveListingDetails(userId: string, variantId: string, formData: any) { ... }
 
-   // --- TODO: Add method for publishing to platforms (Step 5 from frontend) ---
-   // async publishListing(userId: string, variantId: string, targetPlatforms: string[]) { ... }
+   // --- Publishing generated listings to several platforms lives in ProductPublishService ---
 
   async saveOrPublishListing(userId: string, dto: PublishProductDto): Promise<void> {
     const supabase = this.getSupabaseClient();
@@ -1,3 +1,5 @@
+import type { PromptSelection } from '../../prompt-templates/prompt-templates.types';
+
 export interface GenerateJobData {
   type: 'generate-job';
   jobId: string;
@@ -22,6 +24,10 @@ export interface GenerateJobData {
   }>;
   // Optional: top-level sources list from the template (domains/urls)
   templateSources?: string[];
+  // Optional: pin a prompt template or version instead of the best match
+  promptTemplate?: PromptSelection;
+  // Optional: the connections being generated for; picks their style profiles
+  targetConnections?: string[];
   options?: {
     useScraping?: boolean; // whether to scrape sources before generation
   };
@@ -54,6 +60,7 @@ export interface GenerateJobResult {
   processingTimeMs: number;
   source?: 'ai_generated' | 'scraped_content' | 'hybrid';
   sources?: Array<{ url: string; usedForFields?: string[] }>;
+  promptVersionId?: string; // Prompt template version used, if any
   error?: string;
 }
 
@@ -331,7 +331,8 @@ export function buildPlatformConstraintsText(platforms: string[]): string {
 export function validateAgainstPlatformSchemas(
   output: any,
   platforms: string[],
-  requestedByPlatform: Record<string, string[] | undefined>
+  requestedByPlatform: Record<string, string[] | undefined>,
+  options: { strict?: boolean } = {}
 ) {
   for (const p of platforms) {
     const spec = PlatformSchemas[p as PlatformKey];
@@ -343,12 +344,14 @@ export function validateAgainstPlatformSchemas(
     const requiredSet = (requested && requested.length ? requested : spec.requiredFields) || [];
     const missing = requiredSet.filter((f) => !(f in obj));
     
-    // For now, make validation lenient - log warnings instead of throwing errors
-    // This allows AI generation to proceed even with missing required fields
+    // Lenient by default - log warnings instead of throwing errors so AI generation
+    // can proceed with missing required fields. Publishing passes strict to refuse them.
+    if (missing.length && options.strict) {
+      throw new Error(`Missing required fields for ${p}: ${missing.join(', ')}`);
+    }
     if (missing.length) {
       console.warn(`[Platform Validation] Warning: Missing required fields for ${p}: ${missing.join(', ')}. Generated data may be incomplete.`);
-      // TODO: In the future, provide fallback values or improve AI prompts
-      // throw new Error(`Missing required fields for ${p}: ${missing.join(', ')}`);
+      // TODO: In the future, provide fallback values. Prompt wording can be tuned through prompt templates (src/prompt-templates)
     }
 
     // Enum checks (top-level only)
@@ -28,6 +28,7 @@ export interface RegenerateJobData {
     enhanceWithGroq?: boolean;
     overwriteExisting?: boolean; // Overwrite existing generated content
     businessTemplate?: string;
+    targetConnections?: string[]; // Connections being regenerated for; picks their style profiles
   };
   metadata: {
     totalProducts: number;
@@ -0,0 +1,103 @@
+import { IsIn, IsInt, IsOptional, IsString, IsUUID, Length, Max, Min } from 'class-validator';
+import { PROMPT_TEMPLATE_KEYS, PromptOutcome, PromptTemplateKey, PromptVersionStatus } from '../prompt-templates.types';
+
+const KEYS = Object.keys(PROMPT_TEMPLATE_KEYS);
+const STATUSES: PromptVersionStatus[] = ['draft', 'active', 'retired'];
+const OUTCOMES: PromptOutcome[] = ['published', 'edited', 'rejected'];
+
+export class CreatePromptTemplateDto {
+  @IsIn(KEYS)
+  key: PromptTemplateKey;
+
+  @IsString()
+  @Length(1, 100)
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  platform?: string;
+
+  @IsString()
+  @IsOptional()
+  businessTemplate?: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
+
+export class UpdatePromptTemplateDto {
+  @IsString()
+  @Length(1, 100)
+  @IsOptional()
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
+
+export class CreatePromptVersionDto {
+  @IsString()
+  @Length(1, 50000)
+  userPrompt: string;
+
+  @IsString()
+  @IsOptional()
+  systemPrompt?: string;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+
+  @IsInt()
+  @Min(0)
+  @Max(1000)
+  @IsOptional()
+  trafficWeight?: number;
+
+  @IsIn(STATUSES)
+  @IsOptional()
+  status?: PromptVersionStatus;
+}
+
+export class UpdatePromptVersionDto {
+  @IsIn(STATUSES)
+  @IsOptional()
+  status?: PromptVersionStatus;
+
+  @IsInt()
+  @Min(0)
+  @Max(1000)
+  @IsOptional()
+  trafficWeight?: number;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
+
+export class RecordPromptOutcomeDto {
+  @IsUUID()
+  productId: string;
+
+  @IsIn(OUTCOMES)
+  outcome: PromptOutcome;
+
+  @IsUUID()
+  @IsOptional()
+  aiContentId?: string;
+}
+
+/**
+ * Pins a generation to a template or version instead of the best match
+ */
+export class PromptSelectionDto {
+  @IsUUID()
+  @IsOptional()
+  templateId?: string;
+
+  @IsUUID()
+  @IsOptional()
+  versionId?: string;
+}
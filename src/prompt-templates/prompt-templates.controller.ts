@@ -0,0 +1,113 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { SupabaseAuthGuard } from '../auth/guards/supabase-auth.guard';
+import { PromptTemplatesService } from './prompt-templates.service';
+import { PROMPT_TEMPLATE_KEYS, PromptTemplateKey } from './prompt-templates.types';
+import {
+  CreatePromptTemplateDto,
+  CreatePromptVersionDto,
+  RecordPromptOutcomeDto,
+  UpdatePromptTemplateDto,
+  UpdatePromptVersionDto,
+} from './dto/prompt-templates.dto';
+
+const VALIDATION = new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true });
+
+@Controller('prompt-templates')
+@UseGuards(SupabaseAuthGuard)
+export class PromptTemplatesController {
+  constructor(private readonly promptTemplatesService: PromptTemplatesService) {}
+
+  @Get()
+  async listTemplates(@Request() req: any, @Query('key') key?: PromptTemplateKey) {
+    return this.promptTemplatesService.listTemplates(req.user.id, key);
+  }
+
+  /**
+   * The variables each generation path fills in, for the template editor
+   */
+  @Get('keys')
+  listKeys() {
+    return PROMPT_TEMPLATE_KEYS;
+  }
+
+  @Post()
+  async createTemplate(@Request() req: any, @Body(VALIDATION) dto: CreatePromptTemplateDto) {
+    return this.promptTemplatesService.createTemplate(req.user.id, dto);
+  }
+
+  /**
+   * Marks what happened to a product's generated content, for version scoring.
+   * Publishing and user edits are also picked up without this.
+   */
+  @Post('outcomes')
+  async recordOutcome(@Request() req: any, @Body(VALIDATION) dto: RecordPromptOutcomeDto) {
+    const updated = await this.promptTemplatesService.recordOutcome(req.user.id, dto.productId, dto.outcome, dto.aiContentId);
+    return { updated };
+  }
+
+  @Get(':templateId')
+  async getTemplate(@Request() req: any, @Param('templateId', ParseUUIDPipe) templateId: string) {
+    return this.promptTemplatesService.getTemplate(req.user.id, templateId);
+  }
+
+  @Patch(':templateId')
+  async updateTemplate(
+    @Request() req: any,
+    @Param('templateId', ParseUUIDPipe) templateId: string,
+    @Body(VALIDATION) dto: UpdatePromptTemplateDto,
+  ) {
+    return this.promptTemplatesService.updateTemplate(req.user.id, templateId, dto);
+  }
+
+  @Delete(':templateId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteTemplate(@Request() req: any, @Param('templateId', ParseUUIDPipe) templateId: string) {
+    await this.promptTemplatesService.deleteTemplate(req.user.id, templateId);
+  }
+
+  @Post(':templateId/versions')
+  async createVersion(
+    @Request() req: any,
+    @Param('templateId', ParseUUIDPipe) templateId: string,
+    @Body(VALIDATION) dto: CreatePromptVersionDto,
+  ) {
+    return this.promptTemplatesService.createVersion(req.user.id, templateId, dto);
+  }
+
+  /**
+   * Activating two versions and weighting them splits generations between them
+   */
+  @Patch(':templateId/versions/:versionId')
+  async updateVersion(
+    @Request() req: any,
+    @Param('templateId', ParseUUIDPipe) templateId: string,
+    @Param('versionId', ParseUUIDPipe) versionId: string,
+    @Body(VALIDATION) dto: UpdatePromptVersionDto,
+  ) {
+    return this.promptTemplatesService.updateVersion(req.user.id, templateId, versionId, dto);
+  }
+
+  /**
+   * Per version: how many products it generated for, and how many of those were
+   * published without edits, edited first, or rejected
+   */
+  @Get(':templateId/scores')
+  async getScores(@Request() req: any, @Param('templateId', ParseUUIDPipe) templateId: string) {
+    return this.promptTemplatesService.getScores(req.user.id, templateId);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CommonModule } from '../common/common.module';
+import { PromptTemplatesService } from './prompt-templates.service';
+import { PromptTemplatesController } from './prompt-templates.controller';
+
+@Module({
+  imports: [CommonModule],
+  providers: [PromptTemplatesService],
+  controllers: [PromptTemplatesController],
+  exports: [PromptTemplatesService],
+})
+export class PromptTemplatesModule {}
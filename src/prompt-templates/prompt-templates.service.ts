@@ -0,0 +1,383 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../common/supabase.service';
+import {
+  PROMPT_TEMPLATE_KEYS,
+  PromptOutcome,
+  PromptSelection,
+  PromptTemplate,
+  PromptTemplateKey,
+  PromptTemplateVersion,
+  PromptVersionScore,
+  PromptVersionStatus,
+  ResolvedPrompt,
+  promptPlaceholders,
+} from './prompt-templates.types';
+
+/**
+ * Versioned prompt templates for product generation, which version a
+ * generation uses, and how each version's output fared with users.
+ */
+@Injectable()
+export class PromptTemplatesService {
+  private readonly logger = new Logger(PromptTemplatesService.name);
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  /**
+   * The user's own templates and the shared defaults
+   */
+  async listTemplates(userId: string, key?: PromptTemplateKey): Promise<PromptTemplate[]> {
+    let query = this.supabaseService
+      .getServiceClient()
+      .from('PromptTemplates')
+      .select('*')
+      .or(`UserId.is.null,UserId.eq.${userId}`);
+    if (key) query = query.eq('Key', key);
+
+    const { data, error } = await query.order('Key').order('CreatedAt');
+    if (error) {
+      this.logger.error(`Could not list prompt templates for user ${userId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not list prompt templates: ${error.message}`);
+    }
+    return (data || []) as PromptTemplate[];
+  }
+
+  async getTemplate(userId: string, templateId: string): Promise<PromptTemplate & { versions: PromptTemplateVersion[] }> {
+    const template = await this.getReadableTemplate(userId, templateId);
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('PromptTemplateVersions')
+      .select('*')
+      .eq('TemplateId', templateId)
+      .order('Version', { ascending: false });
+    if (error) {
+      this.logger.error(`Could not load versions of prompt template ${templateId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not load prompt template versions: ${error.message}`);
+    }
+    return { ...template, versions: (data || []) as PromptTemplateVersion[] };
+  }
+
+  async createTemplate(
+    userId: string,
+    input: { key: PromptTemplateKey; name: string; platform?: string; businessTemplate?: string; description?: string },
+  ): Promise<PromptTemplate> {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('PromptTemplates')
+      .insert({
+        UserId: userId,
+        Key: input.key,
+        Platform: input.platform?.toLowerCase() ?? null,
+        BusinessTemplate: input.businessTemplate ?? null,
+        Name: input.name,
+        Description: input.description ?? null,
+      })
+      .select('*')
+      .single();
+    if (error) {
+      if (error.code === '23505') {
+        throw new ConflictException('A prompt template for this key, platform and business template already exists');
+      }
+      this.logger.error(`Could not create prompt template for user ${userId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not create prompt template: ${error.message}`);
+    }
+    return data as PromptTemplate;
+  }
+
+  async updateTemplate(userId: string, templateId: string, input: { name?: string; description?: string }): Promise<PromptTemplate> {
+    await this.getOwnTemplate(userId, templateId);
+    const updates: Record<string, any> = { UpdatedAt: new Date().toISOString() };
+    if (input.name !== undefined) updates.Name = input.name;
+    if (input.description !== undefined) updates.Description = input.description;
+
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('PromptTemplates')
+      .update(updates)
+      .eq('Id', templateId)
+      .select('*')
+      .single();
+    if (error) {
+      this.logger.error(`Could not update prompt template ${templateId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not update prompt template: ${error.message}`);
+    }
+    return data as PromptTemplate;
+  }
+
+  async deleteTemplate(userId: string, templateId: string): Promise<void> {
+    await this.getOwnTemplate(userId, templateId);
+    const { error } = await this.supabaseService.getServiceClient().from('PromptTemplates').delete().eq('Id', templateId);
+    if (error) {
+      this.logger.error(`Could not delete prompt template ${templateId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not delete prompt template: ${error.message}`);
+    }
+  }
+
+  /**
+   * Adds the next version of a template. Prompts may only use the variables of
+   * the template's key.
+   */
+  async createVersion(
+    userId: string,
+    templateId: string,
+    input: { userPrompt: string; systemPrompt?: string; notes?: string; trafficWeight?: number; status?: PromptVersionStatus },
+  ): Promise<PromptTemplateVersion> {
+    const template = await this.getOwnTemplate(userId, templateId);
+    const allowed: readonly string[] = PROMPT_TEMPLATE_KEYS[template.Key];
+    const unknown = promptPlaceholders(`${input.systemPrompt ?? ''}\n${input.userPrompt}`).filter(name => !allowed.includes(name));
+    if (unknown.length) {
+      throw new BadRequestException(
+        `Unknown prompt variables for ${template.Key}: ${unknown.join(', ')}. Available: ${allowed.join(', ')}`,
+      );
+    }
+
+    const supabase = this.supabaseService.getServiceClient();
+    const { data: latest, error: latestError } = await supabase
+      .from('PromptTemplateVersions')
+      .select('Version')
+      .eq('TemplateId', templateId)
+      .order('Version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (latestError) {
+      this.logger.error(`Could not number a new version of prompt template ${templateId}: ${latestError.message}`);
+      throw new InternalServerErrorException(`Could not create prompt version: ${latestError.message}`);
+    }
+
+    const { data, error } = await supabase
+      .from('PromptTemplateVersions')
+      .insert({
+        TemplateId: templateId,
+        Version: (latest?.Version ?? 0) + 1,
+        SystemPrompt: input.systemPrompt ?? null,
+        UserPrompt: input.userPrompt,
+        Status: input.status ?? 'draft',
+        TrafficWeight: input.trafficWeight ?? 100,
+        Notes: input.notes ?? null,
+      })
+      .select('*')
+      .single();
+    if (error) {
+      if (error.code === '23505') {
+        throw new ConflictException('Another version of this template was created at the same time; try again');
+      }
+      this.logger.error(`Could not create a version of prompt template ${templateId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not create prompt version: ${error.message}`);
+    }
+    return data as PromptTemplateVersion;
+  }
+
+  /**
+   * Activates, retires or reweights a version. Prompt text is immutable, so
+   * scores stay attached to the text that earned them.
+   */
+  async updateVersion(
+    userId: string,
+    templateId: string,
+    versionId: string,
+    input: { status?: PromptVersionStatus; trafficWeight?: number; notes?: string },
+  ): Promise<PromptTemplateVersion> {
+    await this.getOwnTemplate(userId, templateId);
+    const updates: Record<string, any> = {};
+    if (input.status !== undefined) updates.Status = input.status;
+    if (input.trafficWeight !== undefined) updates.TrafficWeight = input.trafficWeight;
+    if (input.notes !== undefined) updates.Notes = input.notes;
+
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('PromptTemplateVersions')
+      .update(updates)
+      .eq('Id', versionId)
+      .eq('TemplateId', templateId)
+      .select('*')
+      .maybeSingle();
+    if (error) {
+      this.logger.error(`Could not update prompt version ${versionId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not update prompt version: ${error.message}`);
+    }
+    if (!data) throw new NotFoundException(`Prompt version ${versionId} not found.`);
+    return data as PromptTemplateVersion;
+  }
+
+  async getScores(userId: string, templateId: string): Promise<PromptVersionScore[]> {
+    await this.getReadableTemplate(userId, templateId);
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .rpc('prompt_version_scores', { p_template_id: templateId });
+    if (error) {
+      this.logger.error(`Could not score prompt template ${templateId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not score prompt versions: ${error.message}`);
+    }
+    return (data || []).map((row: any) => ({
+      versionId: row.VersionId,
+      version: row.Version,
+      status: row.Status,
+      outputs: Number(row.Outputs),
+      published: Number(row.Published),
+      edited: Number(row.Edited),
+      rejected: Number(row.Rejected),
+      acceptedRate: row.AcceptedRate === null ? null : Number(row.AcceptedRate),
+    }));
+  }
+
+  /**
+   * Chooses the prompt for a generation: the requested version or template if
+   * given, otherwise the most specific matching template (the user's own before
+   * shared ones, then platform, then business template). Among a template's
+   * active versions one is drawn by traffic weight. Returns null when nothing
+   * matches, and generation uses its built-in prompt.
+   */
+  async resolve(
+    userId: string,
+    key: PromptTemplateKey,
+    context: { platforms: string[]; businessTemplate?: string | null; selection?: PromptSelection | null },
+  ): Promise<ResolvedPrompt | null> {
+    const supabase = this.supabaseService.getServiceClient();
+
+    if (context.selection?.versionId) {
+      const { data, error } = await supabase
+        .from('PromptTemplateVersions')
+        .select('*, PromptTemplates!inner(Id, UserId, Key)')
+        .eq('Id', context.selection.versionId)
+        .maybeSingle();
+      if (error) throw new InternalServerErrorException(`Could not load prompt version: ${error.message}`);
+      const template = data?.PromptTemplates as { UserId: string | null; Key: string } | undefined;
+      if (!data || (template?.UserId && template.UserId !== userId)) {
+        throw new NotFoundException(`Prompt version ${context.selection.versionId} not found.`);
+      }
+      if (template?.Key !== key) {
+        throw new BadRequestException(`Prompt version ${context.selection.versionId} is for ${template?.Key}, not ${key}`);
+      }
+      return this.toResolved(data as PromptTemplateVersion);
+    }
+
+    let candidates: PromptTemplate[];
+    if (context.selection?.templateId) {
+      const template = await this.getReadableTemplate(userId, context.selection.templateId);
+      if (template.Key !== key) {
+        throw new BadRequestException(`Prompt template ${template.Id} is for ${template.Key}, not ${key}`);
+      }
+      candidates = [template];
+    } else {
+      const platform = context.platforms.length === 1 ? context.platforms[0].toLowerCase() : null;
+      candidates = (await this.listTemplates(userId, key))
+        .filter(t => t.Platform === null || t.Platform === platform)
+        .filter(t => t.BusinessTemplate === null || t.BusinessTemplate === (context.businessTemplate ?? null))
+        .sort((a, b) => this.specificity(b) - this.specificity(a));
+    }
+    if (!candidates.length) return null;
+
+    const { data, error } = await supabase
+      .from('PromptTemplateVersions')
+      .select('*')
+      .in('TemplateId', candidates.map(t => t.Id))
+      .eq('Status', 'active')
+      .gt('TrafficWeight', 0);
+    if (error) throw new InternalServerErrorException(`Could not load prompt versions: ${error.message}`);
+
+    for (const template of candidates) {
+      const versions = ((data || []) as PromptTemplateVersion[]).filter(v => v.TemplateId === template.Id);
+      if (versions.length) return this.toResolved(this.drawByWeight(versions));
+    }
+    return null;
+  }
+
+  /**
+   * Records what the user did with a product's generated content: published as
+   * is, edited, or rejected. Applies to its latest templated generation unless a
+   * content row is named.
+   */
+  async recordOutcome(userId: string, productId: string, outcome: PromptOutcome, aiContentId?: string): Promise<number> {
+    const supabase = this.supabaseService.getServiceClient();
+    const { data: product, error: productError } = await supabase
+      .from('Products')
+      .select('Id')
+      .eq('Id', productId)
+      .eq('UserId', userId)
+      .maybeSingle();
+    if (productError) throw new InternalServerErrorException(`Could not load product: ${productError.message}`);
+    if (!product) throw new NotFoundException(`Product ${productId} not found.`);
+
+    let versionId: string | null = null;
+    let createdAt: string | null = null;
+    if (!aiContentId) {
+      const { data: latest, error } = await supabase
+        .from('AiGeneratedContent')
+        .select('PromptVersionId, CreatedAt')
+        .eq('ProductId', productId)
+        .not('PromptVersionId', 'is', null)
+        .order('CreatedAt', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw new InternalServerErrorException(`Could not load generated content: ${error.message}`);
+      if (!latest) return 0;
+      versionId = latest.PromptVersionId;
+      createdAt = latest.CreatedAt;
+    }
+
+    let query = supabase.from('AiGeneratedContent').update({ PromptOutcome: outcome }).eq('ProductId', productId);
+    query = aiContentId ? query.eq('Id', aiContentId) : query.eq('PromptVersionId', versionId!).gte('CreatedAt', createdAt!);
+    const { data, error } = await query.select('Id');
+    if (error) {
+      this.logger.error(`Could not record prompt outcome for product ${productId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not record outcome: ${error.message}`);
+    }
+    return (data || []).length;
+  }
+
+  private async getReadableTemplate(userId: string, templateId: string): Promise<PromptTemplate> {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('PromptTemplates')
+      .select('*')
+      .eq('Id', templateId)
+      .maybeSingle();
+    if (error) throw new InternalServerErrorException(`Could not load prompt template: ${error.message}`);
+    if (!data || (data.UserId && data.UserId !== userId)) {
+      throw new NotFoundException(`Prompt template ${templateId} not found.`);
+    }
+    return data as PromptTemplate;
+  }
+
+  /**
+   * Shared templates can be used and copied but not changed
+   */
+  private async getOwnTemplate(userId: string, templateId: string): Promise<PromptTemplate> {
+    const template = await this.getReadableTemplate(userId, templateId);
+    if (template.UserId !== userId) {
+      throw new BadRequestException('Shared prompt templates cannot be changed; create your own template instead');
+    }
+    return template;
+  }
+
+  private specificity(template: PromptTemplate): number {
+    return (template.UserId ? 4 : 0) + (template.Platform ? 2 : 0) + (template.BusinessTemplate ? 1 : 0);
+  }
+
+  private drawByWeight(versions: PromptTemplateVersion[]): PromptTemplateVersion {
+    const total = versions.reduce((sum, v) => sum + v.TrafficWeight, 0);
+    let draw = Math.random() * total;
+    for (const version of versions) {
+      draw -= version.TrafficWeight;
+      if (draw < 0) return version;
+    }
+    return versions[versions.length - 1];
+  }
+
+  private toResolved(version: PromptTemplateVersion): ResolvedPrompt {
+    return {
+      templateId: version.TemplateId,
+      versionId: version.Id,
+      version: version.Version,
+      systemPrompt: version.SystemPrompt,
+      userPrompt: version.UserPrompt,
+    };
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * The generation paths whose prompts can be templated, with the variables each
+ * one fills in. A template may use any of its path's variables as {{name}}.
+ * styleGuide is the user's style profile instructions; templates that do not
+ * place it get it appended to the user prompt.
+ */
+export const PROMPT_TEMPLATE_KEYS = {
+  // AiGenerationService.generateProductDetails: image and visual matches only
+  generate_details: ['platforms', 'coverImageUrl', 'visualMatchContext', 'enhancedDataContext', 'platformConstraints', 'styleGuide'],
+  // AiGenerationService.generateProductDetailsFromScrapedData
+  generate_from_scraped: [
+    'platforms',
+    'businessTemplate',
+    'contextQuery',
+    'userSelectionsContext',
+    'targetSitesContext',
+    'platformRequirements',
+    'scrapedContent',
+    'platformConstraints',
+    'styleGuide',
+  ],
+} as const;
+
+export type PromptTemplateKey = keyof typeof PROMPT_TEMPLATE_KEYS;
+
+export type PromptVersionStatus = 'draft' | 'active' | 'retired';
+
+export type PromptOutcome = 'published' | 'edited' | 'rejected';
+
+export interface PromptTemplate {
+  Id: string;
+  UserId: string | null; // null: shared default
+  Key: PromptTemplateKey;
+  Platform: string | null;
+  BusinessTemplate: string | null;
+  Name: string;
+  Description: string | null;
+  CreatedAt: string;
+  UpdatedAt: string;
+}
+
+export interface PromptTemplateVersion {
+  Id: string;
+  TemplateId: string;
+  Version: number;
+  SystemPrompt: string | null;
+  UserPrompt: string;
+  Status: PromptVersionStatus;
+  TrafficWeight: number;
+  Notes: string | null;
+  CreatedAt: string;
+}
+
+export interface PromptVersionScore {
+  versionId: string;
+  version: number;
+  status: PromptVersionStatus;
+  outputs: number;
+  published: number;
+  edited: number;
+  rejected: number;
+  acceptedRate: number | null; // Share of published or rejected outputs published without edits
+}
+
+/**
+ * Which template or version a request asks for. Without one, the best matching
+ * template is used, and its version is picked by traffic weight.
+ */
+export interface PromptSelection {
+  templateId?: string;
+  versionId?: string;
+}
+
+/**
+ * The prompt version chosen for a generation. Its ID is stored on the
+ * AiGeneratedContent rows the generation writes.
+ */
+export interface ResolvedPrompt {
+  templateId: string;
+  versionId: string;
+  version: number;
+  systemPrompt: string | null;
+  userPrompt: string;
+}
+
+/**
+ * Fills {{variable}} placeholders. Unknown placeholders are left as written.
+ */
+export function renderPrompt(text: string, variables: Record<string, string>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder,
+  );
+}
+
+export function promptPlaceholders(text: string): string[] {
+  return [...new Set([...text.matchAll(/\{\{\s*(\w+)\s*\}\}/g)].map(m => m[1]))];
+}
@@ -3,6 +3,8 @@ import { BullModule } from '@nestjs/bullmq';
 import { 
     RECONCILIATION_QUEUE,
     PUSH_OPERATIONS_QUEUE,
+    CONNECTION_PUSH_QUEUE,
+    BULK_INVENTORY_QUEUE,
     INITIAL_SCAN_QUEUE,
     INITIAL_SYNC_QUEUE,
 } from './sync-engine/sync-engine.constants';
@@ -13,6 +15,8 @@ import {
     BullModule.registerQueue(
       { name: RECONCILIATION_QUEUE },
       { name: PUSH_OPERATIONS_QUEUE },
+      { name: CONNECTION_PUSH_QUEUE },
+      { name: BULK_INVENTORY_QUEUE },
       { name: INITIAL_SCAN_QUEUE },
       { name: INITIAL_SYNC_QUEUE }
     ),
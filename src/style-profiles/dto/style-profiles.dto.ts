@@ -0,0 +1,72 @@
+import { Type } from 'class-transformer';
+import { IsArray, IsIn, IsInt, IsOptional, IsString, IsUUID, Max, MaxLength, Min, ValidateNested } from 'class-validator';
+
+export class TagConventionsDto {
+  @IsIn(['lower', 'title', 'as_is'])
+  @IsOptional()
+  case?: 'lower' | 'title' | 'as_is';
+
+  @IsInt()
+  @Min(1)
+  @Max(250)
+  @IsOptional()
+  maxTags?: number;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  alwaysInclude?: string[];
+}
+
+export class SaveStyleProfileDto {
+  @IsString()
+  @MaxLength(2000)
+  @IsOptional()
+  tone?: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  bannedWords?: string[];
+
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  titleFormula?: string;
+
+  @IsString()
+  @MaxLength(2000)
+  @IsOptional()
+  descriptionStructure?: string;
+
+  @IsString()
+  @MaxLength(2000)
+  @IsOptional()
+  returnPolicyText?: string;
+
+  @IsString()
+  @MaxLength(2000)
+  @IsOptional()
+  shippingText?: string;
+
+  @ValidateNested()
+  @Type(() => TagConventionsDto)
+  @IsOptional()
+  tagConventions?: TagConventionsDto;
+}
+
+export class LearnStyleProfileDto {
+  @IsUUID()
+  connectionId: string;
+
+  @IsInt()
+  @Min(3)
+  @Max(50)
+  @IsOptional()
+  sampleSize?: number;
+
+  // 'user' saves the result as the default profile instead of the connection's
+  @IsIn(['connection', 'user'])
+  @IsOptional()
+  scope?: 'connection' | 'user';
+}
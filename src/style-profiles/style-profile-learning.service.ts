@@ -0,0 +1,204 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, UnprocessableEntityException } from '@nestjs/common';
+import { SupabaseService } from '../common/supabase.service';
+import { LlmService } from '../common/llm/llm.service';
+import { PlatformConnectionsService } from '../platform-connections/platform-connections.service';
+import { PlatformAdapterRegistry } from '../platform-adapters/adapter.registry';
+import { StyleProfilesService } from './style-profiles.service';
+import { StyleProfile, StyleProfileInput, TagConventions } from './style-profiles.types';
+
+// Each adapter's mapper turns its fetched data into canonical products
+const CANONICAL_MAPPERS: Record<string, string> = {
+  shopify: 'mapShopifyDataToCanonical',
+  square: 'mapSquareDataToCanonical',
+  clover: 'mapCloverDataToCanonical',
+  ebay: 'mapEbayDataToCanonical',
+  facebook: 'mapFacebookDataToCanonical',
+  whatnot: 'mapWhatnotDataToCanonical',
+};
+
+const MIN_SAMPLE = 3;
+const MAX_SAMPLE = 50;
+
+interface SampleListing {
+  title: string;
+  description: string;
+  tags: string[];
+  unitsSold: number;
+}
+
+/**
+ * Derives a style profile from a sample of the user's existing listings on a
+ * connection, best sellers first.
+ */
+@Injectable()
+export class StyleProfileLearningService {
+  private readonly logger = new Logger(StyleProfileLearningService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly llmService: LlmService,
+    private readonly connectionsService: PlatformConnectionsService,
+    private readonly adapterRegistry: PlatformAdapterRegistry,
+    private readonly styleProfilesService: StyleProfilesService,
+  ) {}
+
+  /**
+   * Pulls the connection's listings through its adapter, asks the model to
+   * describe their voice, and saves the result as the connection's profile, or
+   * as the user's default profile when scope is 'user'.
+   */
+  async learnFromConnection(
+    userId: string,
+    connectionId: string,
+    options: { sampleSize?: number; scope?: 'connection' | 'user' } = {},
+  ): Promise<StyleProfile> {
+    const connection = await this.connectionsService.getConnectionById(connectionId, userId);
+    if (!connection) throw new NotFoundException(`Connection ${connectionId} not found.`);
+
+    const sampleSize = Math.min(Math.max(options.sampleSize ?? 20, MIN_SAMPLE), MAX_SAMPLE);
+    const listings = await this.sampleListings(userId, connection, sampleSize);
+    if (listings.length < MIN_SAMPLE) {
+      throw new BadRequestException(
+        `Need at least ${MIN_SAMPLE} listings with a title and description to learn a style from; found ${listings.length}`,
+      );
+    }
+
+    const completion = await this.llmService.complete(
+      'generation',
+      {
+        messages: [
+          { role: 'system', content: LEARN_PROMPT },
+          {
+            role: 'user',
+            content: listings
+              .map(
+                (l, i) =>
+                  `LISTING ${i + 1}${l.unitsSold ? ` (${l.unitsSold} sold)` : ''}\nTitle: ${l.title}\nTags: ${l.tags.join(', ') || '(none)'}\nDescription: ${l.description}`,
+              )
+              .join('\n\n'),
+          },
+        ],
+        temperature: 0.2,
+        jsonMode: true,
+      },
+      { userId, operation: 'learn_style_profile', metadata: { connectionId, sampleSize: listings.length } },
+    );
+
+    const profile = this.parseProfile(completion.content);
+    if (!profile) {
+      throw new UnprocessableEntityException('Could not derive a style profile from these listings; try again or set one up manually');
+    }
+
+    this.logger.log(`Learned style profile for user ${userId} from ${listings.length} ${connection.PlatformType} listings`);
+    return this.styleProfilesService.saveProfile(userId, options.scope === 'user' ? null : connectionId, profile, {
+      connectionId,
+      platformType: connection.PlatformType,
+      sampleSize: listings.length,
+      rankedBySales: listings.some(l => l.unitsSold > 0),
+      learnedAt: new Date().toISOString(),
+    });
+  }
+
+  private async sampleListings(userId: string, connection: any, sampleSize: number): Promise<SampleListing[]> {
+    const platformType = connection.PlatformType?.toLowerCase();
+    const mapperMethod = CANONICAL_MAPPERS[platformType];
+    if (!mapperMethod) {
+      throw new BadRequestException(`Learning a style from ${connection.PlatformType} listings is not supported`);
+    }
+
+    const adapter = this.adapterRegistry.getAdapter(platformType);
+    const platformData = await adapter.getApiClient(connection).fetchAllRelevantData(connection);
+    const { canonicalProducts } = adapter.getMapper()[mapperMethod](platformData, userId, connection.Id);
+
+    const unitsSold = await this.unitsSoldByTitle(connection.Id);
+    return (canonicalProducts as Array<{ Title: string; Description?: string; IsArchived: boolean; PlatformSpecificData?: any }>)
+      .filter(p => !p.IsArchived && p.Title && p.Description)
+      .map(p => ({
+        title: p.Title,
+        description: stripHtml(p.Description!).slice(0, 1500),
+        tags: extractTags(p.PlatformSpecificData),
+        unitsSold: unitsSold.get(p.Title.trim().toLowerCase()) ?? 0,
+      }))
+      .sort((a, b) => b.unitsSold - a.unitsSold || b.description.length - a.description.length)
+      .slice(0, sampleSize);
+  }
+
+  /**
+   * Units sold per listing title on this connection. Order items carry the title
+   * they sold under, which is what the fetched listings are matched on.
+   */
+  private async unitsSoldByTitle(connectionId: string): Promise<Map<string, number>> {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('OrderItems')
+      .select('Title, Quantity, Orders!inner(PlatformConnectionId)')
+      .eq('Orders.PlatformConnectionId', connectionId);
+    const totals = new Map<string, number>();
+    if (error) {
+      this.logger.warn(`Could not rank listings by sales for connection ${connectionId}: ${error.message}`);
+      return totals;
+    }
+    for (const item of data || []) {
+      const key = String(item.Title || '').trim().toLowerCase();
+      if (key) totals.set(key, (totals.get(key) ?? 0) + (Number(item.Quantity) || 0));
+    }
+    return totals;
+  }
+
+  private parseProfile(content: string): StyleProfileInput | null {
+    try {
+      const json = content.replace(/<think>[\s\S]*?<\/think>/g, '').match(/\{[\s\S]*\}/);
+      if (!json) return null;
+      const raw = JSON.parse(json[0]);
+      const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+      const tags = raw.tagConventions || {};
+      const tagConventions: TagConventions = {};
+      if (['lower', 'title', 'as_is'].includes(tags.case)) tagConventions.case = tags.case;
+      if (Number.isInteger(tags.maxTags) && tags.maxTags > 0) tagConventions.maxTags = tags.maxTags;
+      if (Array.isArray(tags.alwaysInclude)) tagConventions.alwaysInclude = tags.alwaysInclude.filter((t: unknown) => typeof t === 'string');
+
+      return {
+        tone: text(raw.tone),
+        bannedWords: Array.isArray(raw.bannedWords) ? raw.bannedWords.filter((w: unknown) => typeof w === 'string' && w.trim()) : [],
+        titleFormula: text(raw.titleFormula),
+        descriptionStructure: text(raw.descriptionStructure),
+        returnPolicyText: text(raw.returnPolicyText),
+        shippingText: text(raw.shippingText),
+        tagConventions,
+      };
+    } catch (error) {
+      this.logger.warn(`Could not parse learned style profile: ${error.message}`);
+      return null;
+    }
+  }
+}
+
+const LEARN_PROMPT = `You are analysing a seller's best product listings to capture their brand voice, so new listings can be written the same way.
+Describe what the listings have in common. Only report conventions that most listings follow; use null where there is none.
+Return ONLY a JSON object:
+{
+  "tone": "one or two sentences on voice and register",
+  "bannedWords": ["words or phrases the seller clearly avoids, e.g. hype words absent from every listing; may be empty"],
+  "titleFormula": "the order of parts in titles, e.g. Brand + Product + Key feature + Size",
+  "descriptionStructure": "how descriptions are laid out, e.g. hook sentence, bullet list of features, care instructions",
+  "returnPolicyText": "return policy text repeated across listings, verbatim, or null",
+  "shippingText": "shipping text repeated across listings, verbatim, or null",
+  "tagConventions": { "case": "lower" | "title" | "as_is", "maxTags": number or null, "alwaysInclude": ["tags on nearly every listing"] }
+}`;
+
+function stripHtml(value: string): string {
+  return value
+    .replace(/<(br|\/p|\/li|\/h\d)\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function extractTags(platformSpecificData: any): string[] {
+  const tags = platformSpecificData?.tags ?? platformSpecificData?.cloverTags ?? [];
+  return (Array.isArray(tags) ? tags : [])
+    .map((tag: any) => (typeof tag === 'string' ? tag : tag?.name))
+    .filter((tag: unknown): tag is string => typeof tag === 'string');
+}
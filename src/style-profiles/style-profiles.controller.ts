@@ -0,0 +1,85 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  Query,
+  Request,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { SupabaseAuthGuard } from '../auth/guards/supabase-auth.guard';
+import { PlatformConnectionsService } from '../platform-connections/platform-connections.service';
+import { StyleProfilesService } from './style-profiles.service';
+import { StyleProfileLearningService } from './style-profile-learning.service';
+import { buildStyleGuide } from './style-profiles.types';
+import { LearnStyleProfileDto, SaveStyleProfileDto } from './dto/style-profiles.dto';
+
+const VALIDATION = new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true });
+
+@Controller('style-profiles')
+@UseGuards(SupabaseAuthGuard)
+export class StyleProfilesController {
+  constructor(
+    private readonly styleProfilesService: StyleProfilesService,
+    private readonly learningService: StyleProfileLearningService,
+    private readonly connectionsService: PlatformConnectionsService,
+  ) {}
+
+  @Get()
+  async listProfiles(@Request() req: any) {
+    return this.styleProfilesService.listProfiles(req.user.id);
+  }
+
+  /**
+   * The style instructions generation would add for these platforms, and
+   * optionally these target connections
+   */
+  @Get('preview')
+  async preview(@Request() req: any, @Query('platforms') platforms = '', @Query('connections') connections = '') {
+    const list = (value: string) => value.split(',').map(p => p.trim()).filter(Boolean);
+    const style = await this.styleProfilesService.resolveForPlatforms(req.user.id, list(platforms), list(connections));
+    return { style, instructions: buildStyleGuide(style).trim() };
+  }
+
+  @Put('default')
+  async saveDefaultProfile(@Request() req: any, @Body(VALIDATION) dto: SaveStyleProfileDto) {
+    return this.styleProfilesService.saveProfile(req.user.id, null, dto);
+  }
+
+  @Put('connections/:connectionId')
+  async saveConnectionProfile(
+    @Request() req: any,
+    @Param('connectionId', ParseUUIDPipe) connectionId: string,
+    @Body(VALIDATION) dto: SaveStyleProfileDto,
+  ) {
+    const connection = await this.connectionsService.getConnectionById(connectionId, req.user.id);
+    if (!connection) throw new NotFoundException(`Connection ${connectionId} not found.`);
+    return this.styleProfilesService.saveProfile(req.user.id, connectionId, dto);
+  }
+
+  /**
+   * Learns a profile from the connection's existing listings and saves it,
+   * replacing the current one. Review and edit it afterwards with PUT.
+   */
+  @Post('learn')
+  async learnProfile(@Request() req: any, @Body(VALIDATION) dto: LearnStyleProfileDto) {
+    return this.learningService.learnFromConnection(req.user.id, dto.connectionId, {
+      sampleSize: dto.sampleSize,
+      scope: dto.scope,
+    });
+  }
+
+  @Delete(':profileId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteProfile(@Request() req: any, @Param('profileId', ParseUUIDPipe) profileId: string) {
+    await this.styleProfilesService.deleteProfile(req.user.id, profileId);
+  }
+}
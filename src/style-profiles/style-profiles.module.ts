@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { CommonModule } from '../common/common.module';
+import { PlatformConnectionsModule } from '../platform-connections/platform-connections.module';
+import { PlatformAdaptersModule } from '../platform-adapters/platform-adapters.module';
+import { StyleProfilesService } from './style-profiles.service';
+import { StyleProfileLearningService } from './style-profile-learning.service';
+import { StyleProfilesController } from './style-profiles.controller';
+
+@Module({
+  imports: [CommonModule, PlatformConnectionsModule, PlatformAdaptersModule],
+  providers: [StyleProfilesService, StyleProfileLearningService],
+  controllers: [StyleProfilesController],
+  exports: [StyleProfilesService],
+})
+export class StyleProfilesModule {}
@@ -0,0 +1,133 @@
+import { Injectable, InternalServerErrorException, Logger, NotFoundException } from '@nestjs/common';
+import { SupabaseService } from '../common/supabase.service';
+import { ResolvedStyle, StyleProfile, StyleProfileInput } from './style-profiles.types';
+
+/**
+ * Per-user and per-connection brand voice for generated listings
+ */
+@Injectable()
+export class StyleProfilesService {
+  private readonly logger = new Logger(StyleProfilesService.name);
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async listProfiles(userId: string): Promise<StyleProfile[]> {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('StyleProfiles')
+      .select('*')
+      .eq('UserId', userId)
+      .order('CreatedAt');
+    if (error) {
+      this.logger.error(`Could not list style profiles for user ${userId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not list style profiles: ${error.message}`);
+    }
+    return (data || []) as StyleProfile[];
+  }
+
+  /**
+   * Creates or replaces the user's default profile (connectionId null) or a
+   * connection's profile. Fields left out are cleared.
+   */
+  async saveProfile(
+    userId: string,
+    connectionId: string | null,
+    input: StyleProfileInput,
+    learnedFrom?: Record<string, any>,
+  ): Promise<StyleProfile> {
+    const row = {
+      UserId: userId,
+      PlatformConnectionId: connectionId,
+      Tone: input.tone ?? null,
+      BannedWords: input.bannedWords ?? [],
+      TitleFormula: input.titleFormula ?? null,
+      DescriptionStructure: input.descriptionStructure ?? null,
+      ReturnPolicyText: input.returnPolicyText ?? null,
+      ShippingText: input.shippingText ?? null,
+      TagConventions: input.tagConventions ?? {},
+      Source: learnedFrom ? 'learned' : 'manual',
+      LearnedFrom: learnedFrom ?? null,
+      UpdatedAt: new Date().toISOString(),
+    };
+
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('StyleProfiles')
+      .upsert(row, { onConflict: 'UserId,PlatformConnectionId' })
+      .select('*')
+      .single();
+    if (error) {
+      this.logger.error(`Could not save style profile for user ${userId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not save style profile: ${error.message}`);
+    }
+    return data as StyleProfile;
+  }
+
+  async deleteProfile(userId: string, profileId: string): Promise<void> {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('StyleProfiles')
+      .delete()
+      .eq('Id', profileId)
+      .eq('UserId', userId)
+      .select('Id');
+    if (error) {
+      this.logger.error(`Could not delete style profile ${profileId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not delete style profile: ${error.message}`);
+    }
+    if (!data?.length) throw new NotFoundException(`Style profile ${profileId} not found.`);
+  }
+
+  /**
+   * The profiles that apply when generating for these platforms. A platform uses
+   * the profile of the target connection of that type, or, without one, of the
+   * user's only connection of that type with a profile. When several connections
+   * of a type have profiles and none is targeted, the default applies. Returns
+   * null when the user has no profiles.
+   */
+  async resolveForPlatforms(userId: string, platforms: string[], targetConnectionIds: string[] = []): Promise<ResolvedStyle | null> {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('StyleProfiles')
+      .select('*, PlatformConnections(PlatformType, IsEnabled)')
+      .eq('UserId', userId)
+      .order('UpdatedAt', { ascending: false });
+    if (error) {
+      this.logger.error(`Could not load style profiles for user ${userId}: ${error.message}`);
+      throw new InternalServerErrorException(`Could not load style profiles: ${error.message}`);
+    }
+    if (!data?.length) return null;
+
+    const wanted = new Set(platforms.map(p => p.toLowerCase()));
+    const style: ResolvedStyle = { default: null, byPlatform: {} };
+    const candidates = new Map<string, StyleProfile[]>();
+    for (const { PlatformConnections: connection, ...profile } of data as Array<
+      StyleProfile & { PlatformConnections: { PlatformType: string; IsEnabled: boolean } | null }
+    >) {
+      if (!profile.PlatformConnectionId) {
+        style.default = profile;
+        continue;
+      }
+      const platform = connection?.PlatformType?.toLowerCase();
+      if (platform && connection?.IsEnabled && wanted.has(platform)) {
+        candidates.set(platform, [...(candidates.get(platform) || []), profile]);
+      }
+    }
+
+    for (const [platform, profiles] of candidates) {
+      const targeted = targetConnectionIds
+        .map(id => profiles.find(p => p.PlatformConnectionId === id))
+        .filter((p): p is StyleProfile => !!p);
+      if (targeted.length > 1) {
+        this.logger.warn(`Several ${platform} connections targeted for user ${userId}; using the style profile of ${targeted[0].PlatformConnectionId}`);
+      }
+      const profile = targeted[0] ?? (profiles.length === 1 ? profiles[0] : null);
+      if (profile) {
+        style.byPlatform[platform] = profile;
+      } else {
+        this.logger.debug(`${profiles.length} ${platform} connections have style profiles for user ${userId} and none was targeted; using the default`);
+      }
+    }
+    return style.default || Object.keys(style.byPlatform).length ? style : null;
+  }
+}
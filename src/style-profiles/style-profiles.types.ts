@@ -0,0 +1,144 @@
+export interface TagConventions {
+  case?: 'lower' | 'title' | 'as_is';
+  maxTags?: number;
+  alwaysInclude?: string[]; // e.g. the store name
+}
+
+export interface StyleProfile {
+  Id: string;
+  UserId: string;
+  PlatformConnectionId: string | null; // null: the user's default profile
+  Tone: string | null;
+  BannedWords: string[];
+  TitleFormula: string | null;
+  DescriptionStructure: string | null;
+  ReturnPolicyText: string | null;
+  ShippingText: string | null;
+  TagConventions: TagConventions;
+  Source: 'manual' | 'learned';
+  LearnedFrom: Record<string, any> | null;
+  CreatedAt: string;
+  UpdatedAt: string;
+}
+
+export interface StyleProfileInput {
+  tone?: string | null;
+  bannedWords?: string[];
+  titleFormula?: string | null;
+  descriptionStructure?: string | null;
+  returnPolicyText?: string | null;
+  shippingText?: string | null;
+  tagConventions?: TagConventions;
+}
+
+/**
+ * The profiles that apply to one generation: the user's default, and for each
+ * platform being generated for, the profile of the connection it targets
+ */
+export interface ResolvedStyle {
+  default: StyleProfile | null;
+  byPlatform: Record<string, StyleProfile>;
+}
+
+export function profileForPlatform(style: ResolvedStyle, platform: string): StyleProfile | null {
+  return style.byPlatform[platform.toLowerCase()] ?? style.default;
+}
+
+/**
+ * Prompt instructions for a resolved style. Platforms with their own profile get
+ * a section that replaces the default for that platform.
+ */
+export function buildStyleGuide(style: ResolvedStyle | null | undefined): string {
+  if (!style) return '';
+  const sections: string[] = [];
+  if (style.default) {
+    sections.push(`STORE STYLE GUIDE (follow for every platform unless overridden below):\n${describeProfile(style.default)}`);
+  }
+  for (const [platform, profile] of Object.entries(style.byPlatform)) {
+    sections.push(`${platform.toUpperCase()} STYLE GUIDE (use instead of the store style for ${platform}):\n${describeProfile(profile)}`);
+  }
+  return sections.length ? `\n\n${sections.join('\n\n')}` : '';
+}
+
+function describeProfile(profile: StyleProfile): string {
+  const lines: string[] = [];
+  if (profile.Tone) lines.push(`- Tone of voice: ${profile.Tone}`);
+  if (profile.BannedWords?.length) lines.push(`- Never use these words or phrases: ${profile.BannedWords.join(', ')}`);
+  if (profile.TitleFormula) lines.push(`- Build titles as: ${profile.TitleFormula}`);
+  if (profile.DescriptionStructure) lines.push(`- Structure descriptions as: ${profile.DescriptionStructure}`);
+  if (profile.ReturnPolicyText) lines.push(`- Return policy (use verbatim): ${profile.ReturnPolicyText}`);
+  if (profile.ShippingText) lines.push(`- Shipping details (use verbatim): ${profile.ShippingText}`);
+  const tags = profile.TagConventions || {};
+  const tagRules = [
+    tags.case === 'lower' ? 'lowercase' : tags.case === 'title' ? 'Title Case' : null,
+    tags.maxTags ? `at most ${tags.maxTags}` : null,
+    tags.alwaysInclude?.length ? `always include ${tags.alwaysInclude.join(', ')}` : null,
+  ].filter(Boolean);
+  if (tagRules.length) lines.push(`- Tags: ${tagRules.join('; ')}`);
+  return lines.join('\n') || '- No specific rules';
+}
+
+/**
+ * Applies the rules of a profile that can be enforced without the model:
+ * banned words in titles and tags, tag conventions, and the return and shipping
+ * text. Descriptions are left to the prompt, as cutting words out of prose
+ * breaks sentences.
+ */
+export function applyStyleProfile<T extends Record<string, any>>(details: T, profile: StyleProfile | null): T {
+  if (!profile || !details || typeof details !== 'object') return details;
+  const result: Record<string, any> = { ...details };
+  const banned = (profile.BannedWords || []).filter(w => w.trim());
+
+  if (typeof result.title === 'string' && banned.length) {
+    result.title = removeWords(result.title, banned);
+  }
+
+  if (result.tags !== undefined) {
+    result.tags = applyTagConventions(result.tags, profile.TagConventions || {}, banned);
+  }
+
+  if (profile.ReturnPolicyText) {
+    result.returnPolicy = profile.ReturnPolicyText;
+  }
+
+  if (profile.ShippingText && typeof result.description === 'string' && !result.description.includes(profile.ShippingText)) {
+    result.description = `${result.description.trimEnd()}\n\n${profile.ShippingText}`;
+  }
+
+  return result as T;
+}
+
+function applyTagConventions(tags: unknown, conventions: TagConventions, banned: string[]): string[] {
+  const list = (Array.isArray(tags) ? tags : typeof tags === 'string' ? tags.split(',') : [])
+    .map(tag => String(tag).trim())
+    .filter(Boolean)
+    .filter(tag => !banned.some(word => tag.toLowerCase().includes(word.toLowerCase())));
+
+  const cased = [...(conventions.alwaysInclude || []), ...list].map(tag =>
+    conventions.case === 'lower'
+      ? tag.toLowerCase()
+      : conventions.case === 'title'
+        ? tag.replace(/\w\S*/g, word => word[0].toUpperCase() + word.slice(1).toLowerCase())
+        : tag,
+  );
+
+  const seen = new Set<string>();
+  const unique = cased.filter(tag => {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return conventions.maxTags ? unique.slice(0, conventions.maxTags) : unique;
+}
+
+function removeWords(text: string, words: string[]): string {
+  const cleaned = words.reduce((value, word) => {
+    const escaped = word.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return value.replace(new RegExp(`\\b${escaped}\\b`, 'gi'), '');
+  }, text);
+  return cleaned
+    .replace(/\s+([,.!?;:])/g, '$1')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
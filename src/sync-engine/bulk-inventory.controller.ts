@@ -0,0 +1,41 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Request,
+  UseGuards,
+  ValidationPipe,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import { SupabaseAuthGuard } from '../auth/guards/supabase-auth.guard';
+import { BulkInventoryService } from './bulk-inventory.service';
+import { BulkInventoryUpdateDto } from './dto/bulk-inventory.dto';
+
+@Controller('inventory/bulk')
+@UseGuards(SupabaseAuthGuard)
+export class BulkInventoryController {
+  constructor(private readonly bulkInventoryService: BulkInventoryService) {}
+
+  /**
+   * Sets or adjusts stock for many variants and pushes it to each connection in
+   * batches. Returns a job ID to poll for per-row results.
+   */
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  async submit(@Request() req: any, @Body(ValidationPipe) dto: BulkInventoryUpdateDto) {
+    const both = dto.rows.findIndex(r => r.quantity !== undefined && r.delta !== undefined);
+    if (both !== -1) {
+      throw new BadRequestException(`rows[${both}] has both quantity and delta; give one.`);
+    }
+    return this.bulkInventoryService.submit(req.user.id, dto.rows);
+  }
+
+  @Get(':jobId')
+  async getStatus(@Request() req: any, @Param('jobId') jobId: string) {
+    return this.bulkInventoryService.getStatus(req.user.id, jobId);
+  }
+}
@@ -0,0 +1,208 @@
+import { Job, Queue } from 'bullmq';
+import { SupabaseService } from '../common/supabase.service';
+import { ActivityLogService } from '../common/activity-log.service';
+import { InventoryLevel } from '../common/types/supabase.types';
+import { PlatformConnection, PlatformConnectionsService } from '../platform-connections/platform-connections.service';
+import { PlatformAdapterRegistry } from '../platform-adapters/adapter.registry';
+import { InventoryAdjustment, InventoryAdjustmentResult, InventoryService } from '../canonical-data/inventory.service';
+import { LocationsService } from '../canonical-data/locations.service';
+import { InventoryReservationsService } from '../canonical-data/inventory-reservations.service';
+import { PlatformProductMappingsService } from '../platform-product-mappings/platform-product-mappings.service';
+import { BulkInventoryService } from './bulk-inventory.service';
+import { EchoSuppressionService } from './echo-suppression.service';
+import { PushSchedulerService } from './push-scheduler.service';
+import { BulkInventoryJobData, BulkInventoryRow } from './sync-engine.types';
+
+const USER = 'user-1';
+
+function level(id: string, variantId: string, connectionId: string, locationId: string | null, quantity: number): InventoryLevel {
+  return {
+    Id: id,
+    ProductVariantId: variantId,
+    PlatformConnectionId: connectionId,
+    PlatformLocationId: locationId,
+    Quantity: quantity,
+    LastPlatformUpdateAt: null,
+    CreatedAt: '2025-08-01T00:00:00Z',
+    UpdatedAt: '2025-08-01T00:00:00Z',
+  };
+}
+
+describe('BulkInventoryService', () => {
+  let service: BulkInventoryService;
+  let connections: PlatformConnection[];
+  let levels: InventoryLevel[];
+  let ledger: Map<string, InventoryLevel>;
+  let held: number;
+  let allocationRules: any[];
+  let adapter: { updateInventoryLevels: jest.Mock };
+  let inventory: Record<string, jest.Mock>;
+  let schedule: jest.Mock;
+
+  // Applies adjustments in order as the adjust_inventory_batch RPC does: stock stops at zero
+  const adjustLevels = (userId: string, adjustments: InventoryAdjustment[]) =>
+    Promise.resolve(
+      adjustments.map((a): InventoryAdjustmentResult | { error: string } => {
+        if (a.connectionId === 'conn-gone') return { error: `Connection ${a.connectionId} not found` };
+        const key = `${a.variantId}:${a.connectionId}:${a.locationId ?? ''}`;
+        const current = ledger.get(key) ?? level(`level-${ledger.size + 1}`, a.variantId, a.connectionId, a.locationId, 0);
+        const requested = a.quantity ?? current.Quantity + (a.delta ?? 0);
+        const after = Math.max(requested, 0);
+        const updated = { ...current, Quantity: after };
+        ledger.set(key, updated);
+        return {
+          levelId: updated.Id,
+          ledgerId: 1,
+          delta: after - current.Quantity,
+          requestedDelta: requested - current.Quantity,
+          quantityBefore: current.Quantity,
+          quantityAfter: after,
+          level: updated,
+          mirrored: [],
+        };
+      }),
+    );
+
+  const run = (rows: BulkInventoryRow[]) =>
+    service.run({ id: 'job-1', data: { userId: USER, rows }, updateProgress: jest.fn() } as unknown as Job<BulkInventoryJobData>);
+
+  beforeEach(() => {
+    connections = [
+      { Id: 'conn-1', UserId: USER, PlatformType: 'shopify', IsEnabled: true, Status: 'active' } as PlatformConnection,
+      { Id: 'conn-off', UserId: USER, PlatformType: 'square', IsEnabled: false, Status: 'active' } as PlatformConnection,
+    ];
+    levels = [level('level-a', 'variant-1', 'conn-1', 'loc-1', 5)];
+    // The ledger's copy, so it can move on after the levels were read
+    ledger = new Map(levels.map(l => [`${l.ProductVariantId}:${l.PlatformConnectionId}:${l.PlatformLocationId ?? ''}`, { ...l }]));
+    held = 0;
+    allocationRules = [];
+    adapter = { updateInventoryLevels: jest.fn().mockResolvedValue({ successCount: 1, failureCount: 0, errors: [] }) };
+    schedule = jest.fn().mockResolvedValue(undefined);
+    inventory = {
+      getInventoryLevelsForVariants: jest.fn(() => Promise.resolve(levels)),
+      adjustLevels: jest.fn(adjustLevels),
+      claimInventoryPush: jest.fn().mockResolvedValue([]),
+      requireInventoryResync: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const ownedQuery = { select: () => ownedQuery, eq: () => ownedQuery, in: (_: string, ids: string[]) => Promise.resolve({ data: ids.filter(id => id !== 'variant-foreign').map(Id => ({ Id })), error: null }) };
+    service = new BulkInventoryService(
+      {} as Queue<BulkInventoryJobData>,
+      { getServiceClient: () => ({ from: () => ownedQuery }) } as unknown as SupabaseService,
+      { logActivity: jest.fn().mockResolvedValue(undefined) } as unknown as ActivityLogService,
+      { getConnectionsForUser: () => Promise.resolve(connections), updateConnectionData: jest.fn().mockResolvedValue(undefined) } as unknown as PlatformConnectionsService,
+      { getAdapter: () => adapter } as unknown as PlatformAdapterRegistry,
+      inventory as unknown as InventoryService,
+      { getHeldQuantity: () => Promise.resolve(held) } as unknown as InventoryReservationsService,
+      { getAllocationRules: () => Promise.resolve(allocationRules) } as unknown as LocationsService,
+      {
+        getMappingsByConnectionId: () =>
+          Promise.resolve([{ Id: 'mapping-1', ProductVariantId: 'variant-1', PlatformConnectionId: 'conn-1', PlatformVariantId: 'pv-1' }]),
+      } as unknown as PlatformProductMappingsService,
+      { newChangeSetId: () => 'change-1', recordInventoryPush: jest.fn().mockResolvedValue(undefined) } as unknown as EchoSuppressionService,
+      { takeBudget: () => Promise.resolve(0), schedule } as unknown as PushSchedulerService,
+    );
+  });
+
+  it('applies a set followed by a delta on the same level in order and pushes the result once', async () => {
+    const result = await run([
+      { variantId: 'variant-1', connectionId: 'conn-1', locationId: 'loc-1', quantity: 10 },
+      { variantId: 'variant-1', connectionId: 'conn-1', locationId: 'loc-1', delta: -3, reason: 'sale' },
+    ]);
+
+    expect(result.results.map(r => [r.status, r.previousQuantity, r.quantity])).toEqual([
+      ['pushed', 5, 10],
+      ['pushed', 10, 7],
+    ]);
+    expect(inventory.adjustLevels).toHaveBeenCalledWith(USER, [
+      expect.objectContaining({ quantity: 10, reason: 'recount', referenceId: 'job-1' }),
+      expect.objectContaining({ delta: -3, reason: 'sale' }),
+    ]);
+    expect(adapter.updateInventoryLevels).toHaveBeenCalledTimes(1);
+    expect(adapter.updateInventoryLevels.mock.calls[0][1]).toEqual([expect.objectContaining({ level: expect.objectContaining({ Quantity: 7 }) })]);
+  });
+
+  it('rejects a delta that would take stock below zero and keeps the rows before it', async () => {
+    const result = await run([
+      { variantId: 'variant-1', connectionId: 'conn-1', quantity: 3 },
+      { variantId: 'variant-1', connectionId: 'conn-1', delta: -4 },
+    ]);
+
+    expect(result.results[0]).toMatchObject({ status: 'pushed', quantity: 3 });
+    expect(result.results[1]).toMatchObject({ status: 'rejected', error: expect.stringContaining('below zero') });
+    expect(inventory.adjustLevels.mock.calls[0][1]).toHaveLength(1);
+  });
+
+  it('reports what the ledger applied when stock sold since the levels were read', async () => {
+    ledger.get('variant-1:conn-1:loc-1')!.Quantity = 1;
+
+    const result = await run([{ variantId: 'variant-1', connectionId: 'conn-1', delta: -4 }]);
+
+    expect(result.results[0]).toMatchObject({ status: 'pushed', previousQuantity: 1, quantity: 0 });
+    expect(adapter.updateInventoryLevels.mock.calls[0][1][0].level.Quantity).toBe(0);
+  });
+
+  it('rejects a row the ledger refuses', async () => {
+    connections.push({ Id: 'conn-gone', UserId: USER, PlatformType: 'shopify', IsEnabled: true, Status: 'active' } as PlatformConnection);
+    levels.push(level('level-g', 'variant-1', 'conn-gone', null, 2));
+
+    const result = await run([{ variantId: 'variant-1', connectionId: 'conn-gone', delta: -1 }]);
+
+    expect(result.results[0]).toMatchObject({ status: 'rejected', previousQuantity: null, quantity: null, error: 'Connection conn-gone not found' });
+    expect(result).toMatchObject({ pushed: 0, rejected: 1 });
+  });
+
+  it('rejects rows for unknown variants, disabled connections and ambiguous or missing levels', async () => {
+    levels.push(level('level-b', 'variant-1', 'conn-1', 'loc-2', 2), level('level-c', 'variant-2', 'conn-off', null, 4));
+
+    const result = await run([
+      { variantId: 'variant-foreign', connectionId: 'conn-1', quantity: 1 },
+      { variantId: 'variant-1', connectionId: 'conn-1', delta: 1 },
+      { variantId: 'variant-2', connectionId: 'conn-off', quantity: 1 },
+      { variantId: 'variant-3', delta: 1 },
+    ]);
+
+    expect(result.results.map(r => r.error)).toEqual([
+      'Variant not found.',
+      'Matches 2 inventory levels; give connectionId and locationId.',
+      'Connection conn-off is disabled.',
+      'No inventory level matches this row.',
+    ]);
+    expect(inventory.adjustLevels).toHaveBeenCalledWith(USER, []);
+  });
+
+  it('creates a level when a quantity is set at a location the variant has no stock at yet', async () => {
+    const result = await run([{ variantId: 'variant-1', connectionId: 'conn-1', locationId: 'loc-new', quantity: 6 }]);
+
+    expect(result.results[0]).toMatchObject({ status: 'pushed', previousQuantity: 0, quantity: 6, locationId: 'loc-new' });
+    expect(ledger.get('variant-1:conn-1:loc-new')?.Quantity).toBe(6);
+  });
+
+  it('holds back units reserved by another channel from the push', async () => {
+    held = 2;
+
+    await run([{ variantId: 'variant-1', connectionId: 'conn-1', locationId: 'loc-1', quantity: 10 }]);
+
+    expect(adapter.updateInventoryLevels.mock.calls[0][1][0].level.Quantity).toBe(8);
+    expect(inventory.requireInventoryResync).toHaveBeenCalledWith(['level-a']);
+  });
+
+  it('leaves connections with allocation rules to the push queue', async () => {
+    allocationRules = [{ LocationId: 'canonical-1', IsEnabled: true, BufferQuantity: 0 }];
+
+    const result = await run([{ variantId: 'variant-1', connectionId: 'conn-1', locationId: 'loc-1', quantity: 10 }]);
+
+    expect(result.results[0].status).toBe('queued');
+    expect(schedule).toHaveBeenCalledWith(connections[0], { userId: USER, entityId: 'variant-1', changeType: 'INVENTORY_UPDATED' });
+    expect(adapter.updateInventoryLevels).not.toHaveBeenCalled();
+  });
+
+  it('keeps a saved change that the platform refused as push_failed and marks it for resync', async () => {
+    adapter.updateInventoryLevels.mockResolvedValue({ results: [{ success: false, error: 'Location inactive' }] });
+
+    const result = await run([{ variantId: 'variant-1', connectionId: 'conn-1', locationId: 'loc-1', quantity: 10 }]);
+
+    expect(result.results[0]).toMatchObject({ status: 'push_failed', quantity: 10, error: 'Location inactive' });
+    expect(inventory.requireInventoryResync).toHaveBeenCalledWith(['level-a']);
+  });
+});
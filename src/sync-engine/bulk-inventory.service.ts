@@ -0,0 +1,433 @@
+import { Injectable, Logger, NotFoundException, InternalServerErrorException } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Job, Queue } from 'bullmq';
+import { randomUUID } from 'crypto';
+import { SupabaseService } from '../common/supabase.service';
+import { ActivityLogService } from '../common/activity-log.service';
+import { PlatformConnection, PlatformConnectionsService } from '../platform-connections/platform-connections.service';
+import { PlatformAdapterRegistry } from '../platform-adapters/adapter.registry';
+import { InventoryService, CanonicalInventoryLevel, InventoryAdjustmentResult } from '../canonical-data/inventory.service';
+import { LocationsService } from '../canonical-data/locations.service';
+import { InventoryReservationsService } from '../canonical-data/inventory-reservations.service';
+import { PlatformProductMapping, PlatformProductMappingsService } from '../platform-product-mappings/platform-product-mappings.service';
+import { InventoryUpdateRowResult } from '../platform-adapters/inventory-update-result';
+import { EchoSuppressionService } from './echo-suppression.service';
+import { PushSchedulerService } from './push-scheduler.service';
+import { BULK_INVENTORY_QUEUE } from './sync-engine.constants';
+import { BulkInventoryJobData, BulkInventoryJobResult, BulkInventoryRow, BulkInventoryRowResult } from './sync-engine.types';
+
+const VARIANT_LOOKUP_CHUNK = 200;
+
+// A canonical inventory level the job changes, and the rows that changed it
+interface LevelTarget {
+  level: CanonicalInventoryLevel;
+  rowIndexes: number[];
+}
+
+/**
+ * Bulk stock updates: many set/adjust rows are applied to the inventory ledger
+ * in one call, grouped per
+ * connection and pushed with one updateInventoryLevels call each, so the
+ * adapters can use their platform's batch API. Runs as a single job whose ID
+ * the caller polls for progress and per-row results.
+ */
+@Injectable()
+export class BulkInventoryService {
+  private readonly logger = new Logger(BulkInventoryService.name);
+
+  constructor(
+    @InjectQueue(BULK_INVENTORY_QUEUE) private readonly bulkInventoryQueue: Queue<BulkInventoryJobData>,
+    private readonly supabaseService: SupabaseService,
+    private readonly activityLogService: ActivityLogService,
+    private readonly connectionService: PlatformConnectionsService,
+    private readonly adapterRegistry: PlatformAdapterRegistry,
+    private readonly inventoryService: InventoryService,
+    private readonly reservationsService: InventoryReservationsService,
+    private readonly locationsService: LocationsService,
+    private readonly mappingsService: PlatformProductMappingsService,
+    private readonly echoSuppression: EchoSuppressionService,
+    private readonly pushScheduler: PushSchedulerService,
+  ) {}
+
+  async submit(userId: string, rows: BulkInventoryRow[]): Promise<{ jobId: string; rows: number }> {
+    const jobId = `bulk-inventory-${randomUUID()}`;
+    await this.bulkInventoryQueue.add(
+      'bulk-inventory-update',
+      { userId, rows },
+      // Deltas must not be applied twice, so a failed job is not retried
+      { jobId, attempts: 1 },
+    );
+    this.logger.log(`Queued bulk inventory job ${jobId} with ${rows.length} rows for user ${userId}`);
+    return { jobId, rows: rows.length };
+  }
+
+  async getStatus(userId: string, jobId: string): Promise<{
+    jobId: string;
+    state: string;
+    progress: any;
+    result: BulkInventoryJobResult | null;
+    failedReason: string | null;
+  }> {
+    const job = await this.bulkInventoryQueue.getJob(jobId);
+    if (!job || job.data?.userId !== userId) {
+      throw new NotFoundException(`Bulk inventory job ${jobId} not found.`);
+    }
+    return {
+      jobId,
+      state: await job.getState(),
+      progress: job.progress,
+      result: (job.returnvalue as BulkInventoryJobResult) ?? null,
+      failedReason: job.failedReason || null,
+    };
+  }
+
+  /**
+   * Runs a bulk job (called by BulkInventoryProcessor). Rows that touch the same
+   * level are applied in order, so a set followed by deltas behaves as expected.
+   */
+  async run(job: Job<BulkInventoryJobData>): Promise<BulkInventoryJobResult> {
+    const { userId, rows } = job.data;
+    const results: BulkInventoryRowResult[] = rows.map((row, index) => ({
+      index,
+      variantId: row.variantId,
+      connectionId: row.connectionId ?? null,
+      locationId: row.locationId ?? null,
+      previousQuantity: null,
+      quantity: null,
+      status: 'rejected',
+    }));
+
+    const variantIds = [...new Set(rows.map(r => r.variantId))];
+    const [ownedVariantIds, connections, levels] = await Promise.all([
+      this.getOwnedVariantIds(userId, variantIds),
+      this.connectionService.getConnectionsForUser(userId),
+      this.inventoryService.getInventoryLevelsForVariants(variantIds),
+    ]);
+    const connectionsById = new Map(connections.map(c => [c.Id, c]));
+
+    const canonicalLevels: CanonicalInventoryLevel[] = levels.map(l => ({
+      Id: l.Id,
+      ProductVariantId: l.ProductVariantId,
+      PlatformConnectionId: l.PlatformConnectionId,
+      PlatformLocationId: l.PlatformLocationId,
+      Quantity: l.Quantity,
+      LastPlatformUpdateAt: l.LastPlatformUpdateAt ? new Date(l.LastPlatformUpdateAt) : null,
+    }));
+    const targets = this.applyRows(rows, results, ownedVariantIds, connectionsById, canonicalLevels);
+
+    let mirrored: InventoryAdjustmentResult[];
+    try {
+      mirrored = await this.recordAdjustments(job, targets, results);
+    } catch (error) {
+      this.logger.error(`Bulk inventory job ${job.id}: failed to save levels: ${error.message}`);
+      for (const target of targets.values()) {
+        for (const index of target.rowIndexes) {
+          results[index].status = 'rejected';
+          results[index].error = `Could not save inventory: ${error.message}`;
+        }
+      }
+      return this.finish(job, results);
+    }
+    for (const [key, target] of targets) {
+      if (target.rowIndexes.length === 0) targets.delete(key);
+    }
+
+    const targetsByConnection = new Map<string, LevelTarget[]>();
+    for (const target of targets.values()) {
+      const list = targetsByConnection.get(target.level.PlatformConnectionId) || [];
+      list.push(target);
+      targetsByConnection.set(target.level.PlatformConnectionId, list);
+    }
+
+    let done = 0;
+    let processed = results.filter(r => r.status === 'rejected').length;
+    for (const [connectionId, connectionTargets] of targetsByConnection) {
+      await this.pushToConnection(job, connectionsById.get(connectionId)!, connectionTargets, results);
+      done++;
+      processed += connectionTargets.reduce((sum, t) => sum + t.rowIndexes.length, 0);
+      await job.updateProgress({
+        progress: Math.round((done / targetsByConnection.size) * 100),
+        description: `Pushed to ${done} of ${targetsByConnection.size} connections`,
+        total: rows.length,
+        processed,
+      });
+    }
+
+    // Copies of the changed stock at the same canonical locations on other connections
+    const mirroredPushes = new Set(mirrored.map(m => `${m.level.PlatformConnectionId}:${m.level.ProductVariantId}`));
+    for (const key of mirroredPushes) {
+      const [connectionId, variantId] = key.split(':');
+      const connection = connectionsById.get(connectionId);
+      if (!connection?.IsEnabled) continue;
+      await this.pushScheduler.schedule(connection, { userId, entityId: variantId, changeType: 'INVENTORY_UPDATED' });
+    }
+
+    return this.finish(job, results);
+  }
+
+  /**
+   * Resolves each row to an inventory level and works out the new quantities.
+   * Rows that cannot be applied are left rejected with a reason.
+   */
+  private applyRows(
+    rows: BulkInventoryRow[],
+    results: BulkInventoryRowResult[],
+    ownedVariantIds: Set<string>,
+    connectionsById: Map<string, PlatformConnection>,
+    levels: CanonicalInventoryLevel[],
+  ): Map<string, LevelTarget> {
+    const targets = new Map<string, LevelTarget>();
+
+    rows.forEach((row, index) => {
+      const result = results[index];
+      if (!ownedVariantIds.has(row.variantId)) {
+        result.error = 'Variant not found.';
+        return;
+      }
+
+      const matches = levels.filter(l =>
+        l.ProductVariantId === row.variantId &&
+        (!row.connectionId || l.PlatformConnectionId === row.connectionId) &&
+        (row.locationId === undefined || l.PlatformLocationId === row.locationId));
+      if (matches.length > 1) {
+        result.error = `Matches ${matches.length} inventory levels; give connectionId and locationId.`;
+        return;
+      }
+
+      let level: CanonicalInventoryLevel;
+      if (matches.length === 1) {
+        level = matches[0];
+      } else if (row.connectionId && row.quantity !== undefined) {
+        // Stock at a location the variant has none at yet
+        level = { ProductVariantId: row.variantId, PlatformConnectionId: row.connectionId, PlatformLocationId: row.locationId ?? null, Quantity: 0 };
+      } else {
+        result.error = 'No inventory level matches this row.';
+        return;
+      }
+
+      const connection = connectionsById.get(level.PlatformConnectionId);
+      if (!connection) {
+        result.error = 'Connection not found.';
+        return;
+      }
+      if (!connection.IsEnabled) {
+        result.error = `Connection ${connection.Id} is disabled.`;
+        return;
+      }
+
+      const key = `${level.ProductVariantId}:${level.PlatformConnectionId}:${level.PlatformLocationId ?? ''}`;
+      const target = targets.get(key) || { level: { ...level }, rowIndexes: [] };
+      const previous = target.level.Quantity;
+      const next = row.quantity ?? previous + (row.delta ?? 0);
+      if (next < 0) {
+        result.error = `Would take stock below zero (${previous} ${row.delta}).`;
+        return;
+      }
+
+      target.level.Quantity = next;
+      target.rowIndexes.push(index);
+      targets.set(key, target);
+      Object.assign(result, {
+        connectionId: level.PlatformConnectionId,
+        locationId: level.PlatformLocationId,
+        previousQuantity: previous,
+        quantity: next,
+        status: 'push_failed', // Until the push succeeds
+      });
+    });
+
+    return targets;
+  }
+
+  /**
+   * Applies the accepted rows through the ledger in row order. The quantities
+   * worked out in applyRows are replaced by what the ledger recorded, which
+   * includes changes made since the levels were read.
+   */
+  private async recordAdjustments(
+    job: Job<BulkInventoryJobData>,
+    targets: Map<string, LevelTarget>,
+    results: BulkInventoryRowResult[],
+  ): Promise<InventoryAdjustmentResult[]> {
+    const { userId, rows } = job.data;
+    const targetByRow = new Map<number, LevelTarget>();
+    for (const target of targets.values()) {
+      target.rowIndexes.forEach(index => targetByRow.set(index, target));
+    }
+    const rowIndexes = [...targetByRow.keys()].sort((a, b) => a - b);
+
+    const outcomes = await this.inventoryService.adjustLevels(
+      userId,
+      rowIndexes.map(index => {
+        const row = rows[index];
+        const { level } = targetByRow.get(index)!;
+        return {
+          variantId: level.ProductVariantId,
+          connectionId: level.PlatformConnectionId,
+          locationId: level.PlatformLocationId,
+          ...(row.quantity !== undefined ? { quantity: row.quantity } : { delta: row.delta ?? 0 }),
+          reason: row.reason ?? 'recount',
+          referenceId: row.referenceId ?? String(job.id),
+        };
+      }),
+    );
+
+    const mirrored: InventoryAdjustmentResult[] = [];
+    rowIndexes.forEach((index, i) => {
+      const outcome = outcomes[i];
+      const target = targetByRow.get(index)!;
+      if (!outcome || 'error' in outcome) {
+        Object.assign(results[index], { status: 'rejected', previousQuantity: null, quantity: null, error: outcome?.error ?? 'Not applied.' });
+        target.rowIndexes = target.rowIndexes.filter(i => i !== index);
+        return;
+      }
+      mirrored.push(...(outcome.mirrored || []));
+      results[index].previousQuantity = outcome.quantityBefore;
+      results[index].quantity = outcome.quantityAfter;
+      target.level = {
+        ...target.level,
+        Id: outcome.levelId,
+        Quantity: outcome.quantityAfter,
+      };
+    });
+    return mirrored;
+  }
+
+  private async pushToConnection(
+    job: Job<BulkInventoryJobData>,
+    connection: PlatformConnection,
+    targets: LevelTarget[],
+    results: BulkInventoryRowResult[],
+  ): Promise<void> {
+    const markRows = (target: LevelTarget, success: boolean, error?: string) => {
+      for (const index of target.rowIndexes) {
+        results[index].status = success ? 'pushed' : 'push_failed';
+        if (error) results[index].error = error;
+      }
+    };
+
+    // What such a channel is offered depends on every location's stock, which the
+    // regular per-variant push works out
+    if ((await this.locationsService.getAllocationRules(connection.Id)).length > 0) {
+      for (const variantId of new Set(targets.map(t => t.level.ProductVariantId))) {
+        await this.pushScheduler.schedule(connection, { userId: job.data.userId, entityId: variantId, changeType: 'INVENTORY_UPDATED' });
+      }
+      targets.forEach(t => t.rowIndexes.forEach(index => (results[index].status = 'queued')));
+      return;
+    }
+
+    let mappingsByVariant: Map<string, PlatformProductMapping>;
+    try {
+      const mappings = await this.mappingsService.getMappingsByConnectionId(connection.Id);
+      mappingsByVariant = new Map(mappings.filter(m => m.PlatformVariantId).map(m => [m.ProductVariantId, m]));
+    } catch (error) {
+      targets.forEach(t => markRows(t, false, `Could not load mappings for ${connection.PlatformType}: ${error.message}`));
+      return;
+    }
+
+    // Units reserved by another channel are held back from this one, as for single pushes
+    const heldByVariant = new Map<string, number>();
+    const updates: Array<{ mapping: PlatformProductMapping; level: CanonicalInventoryLevel; target: LevelTarget }> = [];
+    for (const target of targets) {
+      const mapping = mappingsByVariant.get(target.level.ProductVariantId);
+      if (!mapping) {
+        markRows(target, false, `Variant is not linked to a product on ${connection.PlatformType}.`);
+        continue;
+      }
+      const variantId = target.level.ProductVariantId;
+      if (!heldByVariant.has(variantId)) {
+        heldByVariant.set(variantId, await this.reservationsService.getHeldQuantity(variantId, connection.Id));
+      }
+      const held = Math.min(heldByVariant.get(variantId)!, Math.max(0, target.level.Quantity));
+      heldByVariant.set(variantId, heldByVariant.get(variantId)! - held);
+      updates.push({ mapping, level: held > 0 ? { ...target.level, Quantity: target.level.Quantity - held } : target.level, target });
+    }
+    if (updates.length === 0) return;
+
+    let waitMs: number;
+    while ((waitMs = await this.pushScheduler.takeBudget(connection.Id, connection.PlatformType, 'INVENTORY_UPDATED')) > 0) {
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+
+    // The absolute quantities pushed here cover every ledger change so far
+    const levelIds = updates.map(u => u.target.level.Id!);
+    const heldLevelIds = updates.filter(u => u.level !== u.target.level).map(u => u.target.level.Id!);
+    const changeSetId = this.echoSuppression.newChangeSetId();
+    let pushResult: any;
+    try {
+      await this.inventoryService.claimInventoryPush(levelIds);
+      const adapter = this.adapterRegistry.getAdapter(connection.PlatformType);
+      pushResult = await adapter.updateInventoryLevels(connection, updates.map(({ mapping, level }) => ({ mapping, level })));
+    } catch (error) {
+      this.logger.error(`Bulk inventory push to ${connection.PlatformType} (connection ${connection.Id}) failed: ${error.message}`);
+      updates.forEach(u => markRows(u.target, false, `Push to ${connection.PlatformType} failed: ${error.message}`));
+      await this.inventoryService.requireInventoryResync(levelIds);
+      return;
+    }
+
+    // Adapters without per-row results report the whole call as one outcome
+    const rowResults: InventoryUpdateRowResult[] | undefined = pushResult?.results;
+    const pushedByMapping = new Map<string, { mapping: PlatformProductMapping; levels: CanonicalInventoryLevel[] }>();
+    const resyncLevelIds = new Set(heldLevelIds);
+    updates.forEach(({ mapping, level, target }, i) => {
+      const success = rowResults ? !!rowResults[i]?.success : !pushResult?.failureCount;
+      const error = rowResults ? rowResults[i]?.error : pushResult?.errors?.join('; ');
+      markRows(target, success, success ? undefined : error || `Push to ${connection.PlatformType} failed.`);
+      if (!success) {
+        resyncLevelIds.add(target.level.Id!);
+      } else {
+        const pushed = pushedByMapping.get(mapping.Id) || { mapping, levels: [] };
+        pushed.levels.push(level);
+        pushedByMapping.set(mapping.Id, pushed);
+      }
+    });
+
+    await this.inventoryService.requireInventoryResync([...resyncLevelIds]);
+
+    for (const { mapping, levels } of pushedByMapping.values()) {
+      await this.echoSuppression.recordInventoryPush(mapping, levels, changeSetId);
+    }
+    if (pushedByMapping.size > 0) {
+      await this.connectionService.updateConnectionData(connection.Id, connection.UserId, { LastSyncSuccessAt: new Date().toISOString(), Status: connection.Status });
+    }
+  }
+
+  private async finish(job: Job<BulkInventoryJobData>, results: BulkInventoryRowResult[]): Promise<BulkInventoryJobResult> {
+    const summary: BulkInventoryJobResult = {
+      total: results.length,
+      pushed: results.filter(r => r.status === 'pushed').length,
+      queued: results.filter(r => r.status === 'queued').length,
+      pushFailed: results.filter(r => r.status === 'push_failed').length,
+      rejected: results.filter(r => r.status === 'rejected').length,
+      results,
+    };
+    await this.activityLogService.logActivity({
+      UserId: job.data.userId,
+      EntityType: 'InventoryLevel',
+      EntityId: job.data.userId,
+      EventType: 'INVENTORY_BULK_UPDATE_COMPLETED',
+      Status: summary.pushFailed + summary.rejected === 0 ? 'Success' : 'Warning',
+      Message: `Bulk inventory update: ${summary.pushed} pushed, ${summary.queued} queued, ${summary.pushFailed} saved but not pushed, ${summary.rejected} rejected`,
+      Details: { jobId: job.id, total: summary.total, pushed: summary.pushed, queued: summary.queued, pushFailed: summary.pushFailed, rejected: summary.rejected },
+    });
+    return summary;
+  }
+
+  private async getOwnedVariantIds(userId: string, variantIds: string[]): Promise<Set<string>> {
+    const owned = new Set<string>();
+    const supabase = this.supabaseService.getServiceClient();
+    for (let i = 0; i < variantIds.length; i += VARIANT_LOOKUP_CHUNK) {
+      const { data, error } = await supabase
+        .from('ProductVariants')
+        .select('Id')
+        .eq('UserId', userId)
+        .in('Id', variantIds.slice(i, i + VARIANT_LOOKUP_CHUNK));
+      if (error) {
+        this.logger.error(`Failed to look up variants for user ${userId}: ${error.message}`);
+        throw new InternalServerErrorException('Could not look up variants.');
+      }
+      (data || []).forEach(v => owned.add(v.Id));
+    }
+    return owned;
+  }
+}
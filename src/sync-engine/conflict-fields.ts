@@ -0,0 +1,123 @@
+import { ConflictEventRecord, ConflictRuleRecord, ProductVariant } from '../common/types/supabase.types';
+
+export type ConflictRuleField = Exclude<ConflictRuleRecord['Field'], 'all'>;
+
+/**
+ * A canonical variant field (or group of columns that only make sense together,
+ * like weight and its unit) checked for conflicts, with the key platforms report
+ * it under in the incoming data passed to resolveProductConflict.
+ */
+export interface VariantConflictField {
+  conflictType: ConflictEventRecord['ConflictType'];
+  rule: ConflictRuleField;
+  columns: Partial<Record<keyof ProductVariant, string>>; // Canonical column -> incoming key
+}
+
+export const VARIANT_CONFLICT_FIELDS: VariantConflictField[] = [
+  { conflictType: 'title_mismatch', rule: 'title', columns: { Title: 'title' } },
+  { conflictType: 'description_mismatch', rule: 'description', columns: { Description: 'description' } },
+  { conflictType: 'price_mismatch', rule: 'price', columns: { Price: 'price' } },
+  { conflictType: 'compare_at_price_mismatch', rule: 'price', columns: { CompareAtPrice: 'compareAtPrice' } },
+  { conflictType: 'sku_mismatch', rule: 'identifiers', columns: { Sku: 'sku' } },
+  { conflictType: 'barcode_mismatch', rule: 'identifiers', columns: { Barcode: 'barcode' } },
+  { conflictType: 'weight_mismatch', rule: 'weight', columns: { Weight: 'weight', WeightUnit: 'weightUnit' } },
+  { conflictType: 'options_mismatch', rule: 'options', columns: { Options: 'options' } },
+  { conflictType: 'shipping_mismatch', rule: 'shipping', columns: { RequiresShipping: 'requiresShipping' } },
+  { conflictType: 'tax_mismatch', rule: 'tax', columns: { IsTaxable: 'isTaxable', TaxCode: 'taxCode' } },
+];
+
+// Incoming key for the variant's ordered image URLs
+export const IMAGE_URLS_KEY = 'imageUrls';
+
+const NUMERIC_COLUMNS: Array<keyof ProductVariant> = ['Price', 'CompareAtPrice', 'Weight'];
+
+/**
+ * Compares the reported columns of one field. Returns null when they match,
+ * otherwise both sides and the columns that differ. Single-column fields keep a
+ * scalar value; grouped fields (weight, tax) are objects keyed by column.
+ */
+export function diffVariantField(
+  field: VariantConflictField,
+  canonical: ProductVariant,
+  incoming: Record<string, any>,
+): { sssyncValue: any; platformValue: any; diff: Record<string, any> } | null {
+  const reported = (Object.entries(field.columns) as Array<[keyof ProductVariant, string]>).filter(
+    ([, key]) => incoming[key] !== undefined,
+  );
+  if (reported.length === 0) return null;
+
+  const changedColumns: string[] = [];
+  let optionChanges: Record<string, { from: string | null; to: string | null }> | undefined;
+  for (const [column, key] of reported) {
+    if (column === 'Options') {
+      optionChanges = diffOptions(canonical.Options, incoming[key]);
+      if (Object.keys(optionChanges).length > 0) changedColumns.push(column);
+    } else if (!sameValue(column, canonical[column], incoming[key])) {
+      changedColumns.push(column);
+    }
+  }
+  if (changedColumns.length === 0) return null;
+
+  const pick = (source: (column: keyof ProductVariant, key: string) => any) =>
+    reported.length === 1 && Object.keys(field.columns).length === 1
+      ? source(reported[0][0], reported[0][1])
+      : Object.fromEntries(reported.map(([column, key]) => [column, source(column, key)]));
+
+  const value = (column: keyof ProductVariant, v: any) => (column === 'Options' && v ? parseOptions(v) : v ?? null);
+  return {
+    sssyncValue: pick(column => value(column, canonical[column])),
+    platformValue: pick((column, key) => value(column, incoming[key])),
+    diff: optionChanges ? { changedColumns, options: optionChanges } : { changedColumns },
+  };
+}
+
+/**
+ * Ordered comparison of image URL lists: which URLs were added or removed, and
+ * whether the shared ones were reordered.
+ */
+export function diffImageUrls(
+  canonicalUrls: string[],
+  incomingUrls: string[],
+): { added: string[]; removed: string[]; reordered: boolean } | null {
+  const added = incomingUrls.filter(url => !canonicalUrls.includes(url));
+  const removed = canonicalUrls.filter(url => !incomingUrls.includes(url));
+  const sharedCanonical = canonicalUrls.filter(url => incomingUrls.includes(url));
+  const sharedIncoming = incomingUrls.filter(url => canonicalUrls.includes(url));
+  const reordered = sharedCanonical.some((url, i) => sharedIncoming[i] !== url);
+  if (added.length === 0 && removed.length === 0 && !reordered) return null;
+  return { added, removed, reordered };
+}
+
+function sameValue(column: keyof ProductVariant, a: any, b: any): boolean {
+  const empty = (v: any) => v === null || v === undefined || v === '';
+  if (empty(a) && empty(b)) return true;
+  if (empty(a) || empty(b)) return false;
+  if (NUMERIC_COLUMNS.includes(column)) {
+    return Math.abs(Number(a) - Number(b)) < 0.005;
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.trim() === b.trim();
+  }
+  return a === b;
+}
+
+// Options can be stored as a JSON string; read them as parseVariantOptions does
+function parseOptions(options: Record<string, string> | string | null | undefined): Record<string, string> {
+  if (!options) return {};
+  return typeof options === 'string' ? JSON.parse(options) : options;
+}
+
+function diffOptions(
+  canonical: Record<string, string> | string | null,
+  incoming: Record<string, string> | string | null,
+): Record<string, { from: string | null; to: string | null }> {
+  const changes: Record<string, { from: string | null; to: string | null }> = {};
+  const from = parseOptions(canonical);
+  const to = parseOptions(incoming);
+  for (const name of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    if ((from[name] ?? null) !== (to[name] ?? null)) {
+      changes[name] = { from: from[name] ?? null, to: to[name] ?? null };
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,91 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Request,
+  UseGuards,
+  ParseUUIDPipe,
+  ValidationPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { SupabaseAuthGuard } from '../auth/guards/supabase-auth.guard';
+import { ConflictInboxService } from './conflict-inbox.service';
+import { ConflictInboxStatus } from './conflict-inbox.types';
+import { ConflictEventRecord } from '../common/types/supabase.types';
+import {
+  BulkResolveConflictsDto,
+  CONFLICT_ENTITY_TYPES,
+  CONFLICT_TYPES,
+  ResolveConflictDto,
+} from './dto/conflict-inbox.dto';
+
+const INBOX_STATUSES: ConflictInboxStatus[] = ['open', 'resolved', 'all'];
+
+@Controller('sync/conflicts')
+@UseGuards(SupabaseAuthGuard)
+export class ConflictInboxController {
+  constructor(private readonly conflictInboxService: ConflictInboxService) {}
+
+  /**
+   * Conflicts waiting for review (?status=open, the default), filterable by
+   * connection, entity and conflict type
+   */
+  @Get()
+  async listConflicts(
+    @Request() req: any,
+    @Query('connectionId') connectionId?: string,
+    @Query('entityType') entityType?: string,
+    @Query('entityId') entityId?: string,
+    @Query('conflictType') conflictType?: string,
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    if (entityType && !CONFLICT_ENTITY_TYPES.includes(entityType as ConflictEventRecord['EntityType'])) {
+      throw new BadRequestException(`entityType must be one of: ${CONFLICT_ENTITY_TYPES.join(', ')}`);
+    }
+    if (conflictType && !CONFLICT_TYPES.includes(conflictType as ConflictEventRecord['ConflictType'])) {
+      throw new BadRequestException(`conflictType must be one of: ${CONFLICT_TYPES.join(', ')}`);
+    }
+    if (status && !INBOX_STATUSES.includes(status as ConflictInboxStatus)) {
+      throw new BadRequestException(`status must be one of: ${INBOX_STATUSES.join(', ')}`);
+    }
+    return this.conflictInboxService.listConflicts(req.user.id, {
+      connectionId,
+      entityType: entityType as ConflictEventRecord['EntityType'] | undefined,
+      entityId,
+      conflictType: conflictType as ConflictEventRecord['ConflictType'] | undefined,
+      status: status as ConflictInboxStatus | undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  /**
+   * Resolve every open conflict matching the filters (or the given IDs) by a rule
+   */
+  @Post('bulk-resolve')
+  async bulkResolve(@Request() req: any, @Body(ValidationPipe) dto: BulkResolveConflictsDto) {
+    return this.conflictInboxService.bulkResolve(req.user.id, dto);
+  }
+
+  @Get(':conflictId')
+  async getConflict(@Request() req: any, @Param('conflictId', ParseUUIDPipe) conflictId: string) {
+    return this.conflictInboxService.getConflict(req.user.id, conflictId);
+  }
+
+  /**
+   * Apply keep_sssync, accept_platform or a custom value and push it to every channel
+   */
+  @Post(':conflictId/resolve')
+  async resolveConflict(
+    @Request() req: any,
+    @Param('conflictId', ParseUUIDPipe) conflictId: string,
+    @Body(ValidationPipe) dto: ResolveConflictDto,
+  ) {
+    return this.conflictInboxService.resolveConflict(req.user.id, conflictId, dto);
+  }
+}
@@ -0,0 +1,589 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../common/supabase.service';
+import { ActivityLogService } from '../common/activity-log.service';
+import { ProductsService } from '../canonical-data/products.service';
+import { InventoryService } from '../canonical-data/inventory.service';
+import { ConflictResolutionService } from './conflict-resolution.service';
+import { SyncCoordinatorService } from './sync-coordinator.service';
+import { ConflictEventRecord, InventoryLevel, ProductVariant } from '../common/types/supabase.types';
+import {
+  BulkResolveInput,
+  BulkResolveResult,
+  ConflictInboxFilters,
+  ConflictInboxItem,
+  ConflictResolutionChoice,
+  ResolveConflictInput,
+} from './conflict-inbox.types';
+
+type VariantField =
+  | 'Title'
+  | 'Description'
+  | 'Price'
+  | 'CompareAtPrice'
+  | 'Sku'
+  | 'Barcode'
+  | 'Weight'
+  | 'WeightUnit'
+  | 'Options'
+  | 'RequiresShipping'
+  | 'IsTaxable'
+  | 'TaxCode';
+// 'variant' conflicts carry an object of variant fields rather than a single value
+type ConflictField = VariantField | 'Quantity' | 'images' | 'variant';
+
+const CONFLICT_FIELDS: Record<ConflictEventRecord['ConflictType'], ConflictField> = {
+  price_mismatch: 'Price',
+  title_mismatch: 'Title',
+  inventory_mismatch: 'Quantity',
+  concurrent_update: 'variant',
+  description_mismatch: 'Description',
+  compare_at_price_mismatch: 'CompareAtPrice',
+  sku_mismatch: 'Sku',
+  barcode_mismatch: 'Barcode',
+  weight_mismatch: 'variant', // Weight and WeightUnit
+  options_mismatch: 'Options',
+  shipping_mismatch: 'RequiresShipping',
+  tax_mismatch: 'variant', // IsTaxable and TaxCode
+  images_mismatch: 'images',
+};
+const VARIANT_FIELDS: VariantField[] = [
+  'Title',
+  'Description',
+  'Price',
+  'CompareAtPrice',
+  'Sku',
+  'Barcode',
+  'Weight',
+  'WeightUnit',
+  'Options',
+  'RequiresShipping',
+  'IsTaxable',
+  'TaxCode',
+];
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_BULK_CONFLICTS = 500;
+
+interface ConflictTarget {
+  variants: ProductVariant[]; // Every variant of the product for product-level conflicts
+  level: InventoryLevel | null;
+  imageUrls: string[]; // First variant's images, loaded for image conflicts only
+}
+
+/**
+ * Inbox for ConflictEvents that were left for user review (ResolvedAt is null).
+ * Resolving writes the chosen value to the canonical record and pushes it to
+ * every channel, so the platform that reported the conflict converges too.
+ */
+@Injectable()
+export class ConflictInboxService {
+  private readonly logger = new Logger(ConflictInboxService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly activityLogService: ActivityLogService,
+    private readonly productsService: ProductsService,
+    private readonly inventoryService: InventoryService,
+    private readonly conflictResolutionService: ConflictResolutionService,
+    private readonly syncCoordinator: SyncCoordinatorService,
+  ) {}
+
+  async listConflicts(
+    userId: string,
+    filters: ConflictInboxFilters = {},
+  ): Promise<{ items: ConflictInboxItem[]; total: number }> {
+    const limit = Math.min(Math.max(filters.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(filters.offset ?? 0, 0);
+    const supabase = this.supabaseService.getClient();
+
+    let query = supabase
+      .from('ConflictEvents')
+      .select('*', { count: 'exact' })
+      .eq('UserId', userId)
+      .order('CreatedAt', { ascending: false })
+      .range(offset, offset + limit - 1);
+    const status = filters.status ?? 'open';
+    if (status === 'open') query = query.is('ResolvedAt', null);
+    if (status === 'resolved') query = query.not('ResolvedAt', 'is', null);
+    if (filters.connectionId) query = query.eq('PlatformConnectionId', filters.connectionId);
+    if (filters.entityType) query = query.eq('EntityType', filters.entityType);
+    if (filters.entityId) query = query.eq('EntityId', filters.entityId);
+    if (filters.conflictType) query = query.eq('ConflictType', filters.conflictType);
+
+    const { data, error, count } = await query;
+    if (error) {
+      this.logger.error(`Failed to list conflicts for user ${userId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not list conflicts');
+    }
+
+    const items = await this.toInboxItems((data || []) as ConflictEventRecord[]);
+    return { items, total: count ?? items.length };
+  }
+
+  async getConflict(userId: string, conflictId: string): Promise<ConflictInboxItem> {
+    const record = await this.getRecord(userId, conflictId);
+    const [item] = await this.toInboxItems([record]);
+    return item;
+  }
+
+  /**
+   * Resolves one conflict. keep_sssync re-pushes the value sssync holds now,
+   * accept_platform adopts the platform's value and custom applies `value`.
+   * Older open conflicts for the same entity and field are closed with it.
+   */
+  async resolveConflict(
+    userId: string,
+    conflictId: string,
+    input: ResolveConflictInput,
+    resolvedBy: 'user' | 'bulk_rule' = 'user',
+  ): Promise<ConflictInboxItem> {
+    const record = await this.getRecord(userId, conflictId);
+    if (record.ResolvedAt) {
+      throw new ConflictException(`Conflict ${conflictId} is already resolved`);
+    }
+    const field = CONFLICT_FIELDS[record.ConflictType];
+    const target = await this.loadTarget(userId, record);
+
+    let value: any;
+    if (input.action === 'keep_sssync') {
+      value = this.currentValue(record, target);
+    } else if (input.action === 'accept_platform') {
+      value = this.normalizeValue(field, record.PlatformValue);
+    } else {
+      if (input.value === undefined) {
+        throw new BadRequestException('A value is required for a custom resolution');
+      }
+      value = this.normalizeValue(field, input.value);
+    }
+
+    const resolution: NonNullable<ConflictEventRecord['Resolution']> = {
+      action: input.action === 'custom' ? 'merge' : input.action,
+      appliedValue: value,
+      reason: input.reason || this.defaultReason(input.action),
+      resolvedBy,
+    };
+
+    // Claim the conflict first so two resolutions cannot both apply
+    const resolvedAt = new Date().toISOString();
+    const supabase = this.supabaseService.getClient();
+    const { data: claimed, error: claimError } = await supabase
+      .from('ConflictEvents')
+      .update({ Resolution: resolution, ResolvedAt: resolvedAt })
+      .eq('Id', conflictId)
+      .eq('UserId', userId)
+      .is('ResolvedAt', null)
+      .select('Id');
+    if (claimError) {
+      this.logger.error(`Failed to claim conflict ${conflictId}: ${claimError.message}`);
+      throw new InternalServerErrorException('Could not resolve conflict');
+    }
+    if (!claimed || claimed.length === 0) {
+      throw new ConflictException(`Conflict ${conflictId} is already resolved`);
+    }
+
+    try {
+      await this.applyValue(userId, record, target, value, input.action);
+    } catch (error) {
+      const { error: reopenError } = await supabase
+        .from('ConflictEvents')
+        .update({ Resolution: record.Resolution, ResolvedAt: null })
+        .eq('Id', conflictId);
+      if (reopenError) {
+        // The value was not applied but the conflict stays closed; it has to be reopened by hand
+        this.logger.error(`Failed to reopen conflict ${conflictId} after its resolution failed: ${reopenError.message}`);
+      }
+      throw error;
+    }
+
+    await this.supersedeOlderConflicts(userId, record, resolution, resolvedAt);
+
+    await this.activityLogService.logActivity({
+      UserId: userId,
+      EntityType: 'ConflictResolution',
+      EntityId: record.EntityId,
+      EventType: 'CONFLICT_RESOLVED',
+      Status: 'Success',
+      Message: `Resolved ${record.ConflictType} from ${record.PlatformType} with ${input.action}`,
+      Details: {
+        conflictId,
+        connectionId: record.PlatformConnectionId,
+        action: input.action,
+        appliedValue: value,
+        resolvedBy,
+      },
+    });
+
+    return this.getConflict(userId, conflictId);
+  }
+
+  /**
+   * Resolves open conflicts by a rule: the given IDs, or every open conflict
+   * matching the filters (newest first, so a newer conflict wins over older
+   * ones for the same entity).
+   */
+  async bulkResolve(userId: string, input: BulkResolveInput): Promise<BulkResolveResult> {
+    const supabase = this.supabaseService.getClient();
+    let query = supabase
+      .from('ConflictEvents')
+      .select('*')
+      .eq('UserId', userId)
+      .is('ResolvedAt', null)
+      .order('CreatedAt', { ascending: false })
+      .limit(MAX_BULK_CONFLICTS);
+    if (input.conflictIds?.length) query = query.in('Id', input.conflictIds);
+    if (input.connectionId) query = query.eq('PlatformConnectionId', input.connectionId);
+    if (input.entityType) query = query.eq('EntityType', input.entityType);
+    if (input.conflictType) query = query.eq('ConflictType', input.conflictType);
+
+    const { data, error } = await query;
+    if (error) {
+      this.logger.error(`Failed to load conflicts for bulk resolve: ${error.message}`);
+      throw new InternalServerErrorException('Could not load conflicts');
+    }
+
+    const result: BulkResolveResult = { resolved: 0, skipped: 0, failed: [] };
+    for (const record of (data || []) as ConflictEventRecord[]) {
+      try {
+        const choice = await this.choiceForRule(userId, record, input.rule);
+        await this.resolveConflict(
+          userId,
+          record.Id,
+          { action: choice.action, reason: `Bulk rule ${input.rule}: ${choice.reason}` },
+          'bulk_rule',
+        );
+        result.resolved++;
+      } catch (error) {
+        if (error instanceof ConflictException) {
+          result.skipped++;
+        } else {
+          result.failed.push({ conflictId: record.Id, reason: error.message });
+        }
+      }
+    }
+
+    this.logger.log(
+      `Bulk resolved conflicts for user ${userId} with ${input.rule}: ${result.resolved} resolved, ${result.skipped} skipped, ${result.failed.length} failed`,
+    );
+    return result;
+  }
+
+  private async choiceForRule(
+    userId: string,
+    record: ConflictEventRecord,
+    rule: BulkResolveInput['rule'],
+  ): Promise<{ action: ConflictResolutionChoice; reason: string }> {
+    if (rule === 'keep_sssync' || rule === 'accept_platform') {
+      return { action: rule, reason: rule === 'keep_sssync' ? 'sssync value kept' : 'platform value accepted' };
+    }
+    const target = await this.loadTarget(userId, record);
+    const decision = this.conflictResolutionService.decideByPriority(
+      { sssyncValue: this.currentValue(record, target), platformValue: record.PlatformValue },
+      rule,
+      record.SssyncTimestamp,
+      record.PlatformTimestamp,
+    );
+    return {
+      action: decision.action === 'accept_platform' ? 'accept_platform' : 'keep_sssync',
+      reason: decision.reason,
+    };
+  }
+
+  private async getRecord(userId: string, conflictId: string): Promise<ConflictEventRecord> {
+    const supabase = this.supabaseService.getClient();
+    const { data, error } = await supabase
+      .from('ConflictEvents')
+      .select('*')
+      .eq('Id', conflictId)
+      .eq('UserId', userId)
+      .maybeSingle();
+    if (error) {
+      this.logger.error(`Failed to load conflict ${conflictId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not load conflict');
+    }
+    if (!data) {
+      throw new NotFoundException(`Conflict ${conflictId} not found`);
+    }
+    return data as ConflictEventRecord;
+  }
+
+  private async loadTarget(userId: string, record: ConflictEventRecord): Promise<ConflictTarget> {
+    let level: InventoryLevel | null = null;
+    let variants: ProductVariant[] = [];
+
+    if (record.EntityType === 'inventory') {
+      level = (await this.getLevelsByIds([record.EntityId]))[0] || null;
+      if (level) variants = await this.productsService.getVariantsByIds([level.ProductVariantId]);
+    } else if (record.EntityType === 'product') {
+      variants = await this.productsService.getVariantsByProductId(record.EntityId, userId);
+    } else {
+      variants = await this.productsService.getVariantsByIds([record.EntityId]);
+    }
+
+    variants = variants.filter(v => v.UserId === userId);
+    if (variants.length === 0 || (record.EntityType === 'inventory' && !level)) {
+      throw new NotFoundException(`The ${record.EntityType} for conflict ${record.Id} no longer exists`);
+    }
+    const imageUrls =
+      CONFLICT_FIELDS[record.ConflictType] === 'images'
+        ? (await this.productsService.getImageUrlsForVariants([variants[0].Id])).get(variants[0].Id) || []
+        : [];
+    return { variants, level, imageUrls };
+  }
+
+  private currentValue(record: ConflictEventRecord, target: ConflictTarget): any {
+    const field = CONFLICT_FIELDS[record.ConflictType];
+    const variant = target.variants[0];
+    if (field === 'Quantity') return target.level?.Quantity ?? null;
+    if (field === 'images') return target.imageUrls;
+    if (field === 'variant') {
+      const fields = this.variantFieldsOf(record.PlatformValue ?? record.SssyncValue);
+      return Object.fromEntries(fields.map(f => [f, variant[f]]));
+    }
+    return variant[field];
+  }
+
+  private async applyValue(
+    userId: string,
+    record: ConflictEventRecord,
+    target: ConflictTarget,
+    value: any,
+    action: ConflictResolutionChoice,
+  ): Promise<void> {
+    const field = CONFLICT_FIELDS[record.ConflictType];
+
+    if (field === 'Quantity') {
+      const level = target.level!;
+      const delta = value - level.Quantity;
+      if (delta !== 0) {
+        const change = { reason: 'recount' as const, referenceId: record.Id, note: 'Conflict resolution' };
+        await this.inventoryService.adjustLevel({
+          variantId: level.ProductVariantId,
+          connectionId: level.PlatformConnectionId,
+          locationId: level.PlatformLocationId,
+          quantity: value,
+          ...change,
+        }, { mirror: false });
+        // Every other connection mirrors the same stock
+        await this.inventoryService.adjustAcrossConnections(level.ProductVariantId, delta, level.PlatformConnectionId, change);
+      }
+      // The reporting platform already shows its own value when it is accepted
+      await this.syncCoordinator.handleCanonicalInventoryUpdate(
+        level.ProductVariantId,
+        userId,
+        action === 'accept_platform' ? level.PlatformConnectionId : undefined,
+      );
+      return;
+    }
+
+    if (field === 'images') {
+      for (const variant of target.variants) {
+        await this.productsService.replaceVariantImages(variant.Id, value);
+      }
+      await this.syncCoordinator.handleCanonicalProductUpdate(target.variants[0].ProductId, userId);
+      return;
+    }
+
+    const updates: Partial<Record<VariantField, any>> = field === 'variant' ? value : { [field]: value };
+    for (const variant of target.variants) {
+      const changed = Object.entries(updates).some(
+        ([key, v]) => JSON.stringify(variant[key as VariantField] ?? null) !== JSON.stringify(v ?? null),
+      );
+      if (changed) await this.productsService.updateVariant(variant.Id, updates);
+    }
+    // Always pushed: keep_sssync has to overwrite the value the platform diverged to
+    await this.syncCoordinator.handleCanonicalProductUpdate(target.variants[0].ProductId, userId);
+  }
+
+  private async supersedeOlderConflicts(
+    userId: string,
+    record: ConflictEventRecord,
+    resolution: NonNullable<ConflictEventRecord['Resolution']>,
+    resolvedAt: string,
+  ): Promise<void> {
+    const supabase = this.supabaseService.getClient();
+    const { error } = await supabase
+      .from('ConflictEvents')
+      .update({
+        Resolution: { ...resolution, reason: `Superseded by conflict ${record.Id}`, resolvedBy: 'superseded' },
+        ResolvedAt: resolvedAt,
+      })
+      .eq('UserId', userId)
+      .eq('EntityId', record.EntityId)
+      .eq('ConflictType', record.ConflictType)
+      .is('ResolvedAt', null)
+      .lte('CreatedAt', record.CreatedAt);
+    if (error) {
+      this.logger.warn(`Failed to close older conflicts for ${record.EntityId}: ${error.message}`);
+    }
+  }
+
+  private normalizeValue(field: ConflictField, value: any): any {
+    switch (field) {
+      case 'Quantity': {
+        const quantity = Number(value);
+        if (!Number.isInteger(quantity) || quantity < 0) {
+          throw new BadRequestException('Quantity must be a non-negative integer');
+        }
+        return quantity;
+      }
+      case 'Price':
+      case 'CompareAtPrice':
+      case 'Weight': {
+        if (field !== 'Price' && value === null) return null;
+        const amount = Number(value);
+        if (value === null || value === '' || !Number.isFinite(amount) || amount < 0) {
+          throw new BadRequestException(`${field} must be a non-negative number`);
+        }
+        return Math.round(amount * 100) / 100;
+      }
+      case 'Title':
+      case 'Sku':
+        if (typeof value !== 'string' || !value.trim()) {
+          throw new BadRequestException(`${field} must be a non-empty string`);
+        }
+        return value.trim();
+      case 'Description':
+      case 'Barcode':
+      case 'WeightUnit':
+      case 'TaxCode':
+        if (value !== null && typeof value !== 'string') {
+          throw new BadRequestException(`${field} must be a string or null`);
+        }
+        return value;
+      case 'RequiresShipping':
+      case 'IsTaxable':
+        if (typeof value !== 'boolean') {
+          throw new BadRequestException(`${field} must be a boolean`);
+        }
+        return value;
+      case 'Options':
+        if (value === null) return null;
+        if (
+          typeof value !== 'object' ||
+          Array.isArray(value) ||
+          Object.values(value).some(v => typeof v !== 'string')
+        ) {
+          throw new BadRequestException('Options must map option names to string values');
+        }
+        return value;
+      case 'images':
+        if (!Array.isArray(value) || value.some(url => typeof url !== 'string' || !/^https?:\/\//i.test(url))) {
+          throw new BadRequestException('Images must be a list of http(s) URLs');
+        }
+        return [...new Set(value as string[])];
+      case 'variant': {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+          throw new BadRequestException('Value must be an object of variant fields');
+        }
+        const unknown = Object.keys(value).filter(key => !VARIANT_FIELDS.includes(key as VariantField));
+        if (unknown.length > 0) {
+          throw new BadRequestException(`Unsupported fields: ${unknown.join(', ')}`);
+        }
+        return Object.fromEntries(
+          Object.entries(value).map(([key, v]) => [key, this.normalizeValue(key as VariantField, v)]),
+        );
+      }
+    }
+  }
+
+  private variantFieldsOf(value: any): VariantField[] {
+    if (!value || typeof value !== 'object') return [];
+    return Object.keys(value).filter((key): key is VariantField => VARIANT_FIELDS.includes(key as VariantField));
+  }
+
+  private defaultReason(action: ConflictResolutionChoice): string {
+    switch (action) {
+      case 'keep_sssync':
+        return 'User kept the sssync value';
+      case 'accept_platform':
+        return 'User accepted the platform value';
+      default:
+        return 'User applied a custom value';
+    }
+  }
+
+  private async getLevelsByIds(levelIds: string[]): Promise<InventoryLevel[]> {
+    if (levelIds.length === 0) return [];
+    const supabase = this.supabaseService.getClient();
+    const { data, error } = await supabase.from('InventoryLevels').select('*').in('Id', levelIds);
+    if (error) {
+      this.logger.error(`Failed to load inventory levels: ${error.message}`);
+      throw new InternalServerErrorException('Could not load inventory levels');
+    }
+    return (data || []) as InventoryLevel[];
+  }
+
+  private async toInboxItems(records: ConflictEventRecord[]): Promise<ConflictInboxItem[]> {
+    const levelIds = records.filter(r => r.EntityType === 'inventory').map(r => r.EntityId);
+    const levels = new Map((await this.getLevelsByIds([...new Set(levelIds)])).map(l => [l.Id, l]));
+
+    const variantIds = new Set<string>();
+    for (const record of records) {
+      if (record.EntityType === 'variant') variantIds.add(record.EntityId);
+    }
+    for (const level of levels.values()) variantIds.add(level.ProductVariantId);
+    const variants = new Map((await this.productsService.getVariantsByIds([...variantIds])).map(v => [v.Id, v]));
+
+    const productVariants = new Map<string, ProductVariant[]>();
+    for (const record of records) {
+      if (record.EntityType === 'product' && !productVariants.has(record.EntityId)) {
+        productVariants.set(
+          record.EntityId,
+          await this.productsService.getVariantsByProductId(record.EntityId, record.UserId),
+        );
+      }
+    }
+
+    const variantFor = (record: ConflictEventRecord, level: InventoryLevel | null) =>
+      record.EntityType === 'product'
+        ? productVariants.get(record.EntityId)?.[0]
+        : variants.get(level ? level.ProductVariantId : record.EntityId);
+
+    const imageVariantIds = records
+      .filter(r => CONFLICT_FIELDS[r.ConflictType] === 'images')
+      .map(r => variantFor(r, null)?.Id)
+      .filter((id): id is string => !!id);
+    const imageUrls = await this.productsService.getImageUrlsForVariants([...new Set(imageVariantIds)]);
+
+    return records.map(record => {
+      const level = record.EntityType === 'inventory' ? levels.get(record.EntityId) || null : null;
+      const variant = variantFor(record, level);
+      const target: ConflictTarget | null =
+        variant && (record.EntityType !== 'inventory' || level)
+          ? { variants: [variant], level, imageUrls: imageUrls.get(variant.Id) || [] }
+          : null;
+
+      return {
+        id: record.Id,
+        entityType: record.EntityType,
+        entityId: record.EntityId,
+        conflictType: record.ConflictType,
+        platformType: record.PlatformType,
+        platformConnectionId: record.PlatformConnectionId,
+        entity: variant
+          ? {
+              productId: variant.ProductId,
+              variantId: variant.Id,
+              sku: variant.Sku,
+              title: variant.Title,
+              ...(level ? { platformLocationId: level.PlatformLocationId } : {}),
+            }
+          : null,
+        sssync: { value: record.SssyncValue, updatedAt: record.SssyncTimestamp },
+        platform: { value: record.PlatformValue, updatedAt: record.PlatformTimestamp },
+        diff: record.Diff,
+        currentValue: target ? this.currentValue(record, target) : null,
+        resolution: record.Resolution,
+        resolvedAt: record.ResolvedAt,
+        createdAt: record.CreatedAt,
+      };
+    });
+  }
+}
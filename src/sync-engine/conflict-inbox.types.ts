@@ -0,0 +1,64 @@
+import { ConflictEventRecord } from '../common/types/supabase.types';
+
+export type ConflictInboxStatus = 'open' | 'resolved' | 'all';
+
+export interface ConflictInboxFilters {
+  connectionId?: string;
+  entityType?: ConflictEventRecord['EntityType'];
+  entityId?: string;
+  conflictType?: ConflictEventRecord['ConflictType'];
+  status?: ConflictInboxStatus; // Default 'open'
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * A conflict with the sssync and platform values side by side, plus the value
+ * sssync holds now (which may have moved since the conflict was detected).
+ */
+export interface ConflictInboxItem {
+  id: string;
+  entityType: ConflictEventRecord['EntityType'];
+  entityId: string;
+  conflictType: ConflictEventRecord['ConflictType'];
+  platformType: string;
+  platformConnectionId: string;
+  entity: {
+    productId: string;
+    variantId: string;
+    sku: string | null;
+    title: string | null;
+    platformLocationId?: string | null; // Inventory conflicts only
+  } | null; // Null when the entity has been deleted
+  sssync: { value: any; updatedAt: string };
+  platform: { value: any; updatedAt: string };
+  diff: ConflictEventRecord['Diff']; // Which columns, option values or image URLs differ
+  currentValue: any;
+  resolution: ConflictEventRecord['Resolution'];
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+export type ConflictResolutionChoice = 'keep_sssync' | 'accept_platform' | 'custom';
+
+export interface ResolveConflictInput {
+  action: ConflictResolutionChoice;
+  value?: any; // Required for 'custom'
+  reason?: string;
+}
+
+export type BulkConflictRule = 'keep_sssync' | 'accept_platform' | 'most_recent' | 'highest_value';
+
+export interface BulkResolveInput {
+  rule: BulkConflictRule;
+  conflictIds?: string[]; // Otherwise every open conflict matching the filters
+  connectionId?: string;
+  entityType?: ConflictEventRecord['EntityType'];
+  conflictType?: ConflictEventRecord['ConflictType'];
+}
+
+export interface BulkResolveResult {
+  resolved: number;
+  skipped: number; // Already resolved, e.g. superseded by a newer conflict in the same batch
+  failed: Array<{ conflictId: string; reason: string }>;
+}
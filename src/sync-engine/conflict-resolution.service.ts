@@ -1,20 +1,26 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { SupabaseService } from '../common/supabase.service';
 import { ActivityLogService } from '../common/activity-log.service';
-import { ProductVariant, InventoryLevel } from '../common/types/supabase.types';
+import { ProductsService } from '../canonical-data/products.service';
+import { PlatformProductMappingsService } from '../platform-product-mappings/platform-product-mappings.service';
+import { PlatformConnection } from '../platform-connections/platform-connections.service';
+import { ProductVariant, InventoryLevel, ConflictEventRecord, ConflictRuleRecord } from '../common/types/supabase.types';
+import { ConflictRulesService } from './conflict-rules.service';
+import { IMAGE_URLS_KEY, VARIANT_CONFLICT_FIELDS, diffImageUrls, diffVariantField } from './conflict-fields';
 
 export interface ConflictResolutionRule {
   priority: 'sssync_wins' | 'platform_wins' | 'most_recent' | 'highest_value' | 'user_review';
-  applyTo: 'price' | 'inventory' | 'title' | 'description' | 'all';
+  applyTo: ConflictRuleRecord['Field'];
   platformExceptions?: string[]; // Platform types that override this rule
 }
 
 export interface ConflictEvent {
   entityType: 'product' | 'variant' | 'inventory';
   entityId: string;
-  conflictType: 'price_mismatch' | 'inventory_mismatch' | 'title_mismatch' | 'concurrent_update';
+  conflictType: ConflictEventRecord['ConflictType'];
   sssyncValue: any;
   platformValue: any;
+  diff?: Record<string, any>; // Field-level detail (changed columns, option values, image URLs)
   platformType: string;
   platformConnectionId: string;
   sssyncTimestamp: string; // When sssync data was last updated
@@ -94,19 +100,62 @@ export class ConflictResolutionService {
     },
   ];
 
-  // Default conflict resolution rules - sssync is SOT
-  private readonly defaultRules: ConflictResolutionRule[] = [
-    { priority: 'sssync_wins', applyTo: 'price', platformExceptions: [] },
-    { priority: 'sssync_wins', applyTo: 'title', platformExceptions: [] },
-    { priority: 'sssync_wins', applyTo: 'description', platformExceptions: [] },
-    { priority: 'most_recent', applyTo: 'inventory', platformExceptions: ['shopify', 'square'] }, // Inventory can be more fluid
-  ];
-
   constructor(
     private readonly supabaseService: SupabaseService,
     private readonly activityLogService: ActivityLogService,
+    private readonly conflictRulesService: ConflictRulesService,
+    private readonly productsService: ProductsService,
+    private readonly mappingsService: PlatformProductMappingsService,
   ) {}
 
+  /**
+   * Runs a platform's version of a variant through resolveProductConflict before
+   * an adapter saves it. When the platform variant is mapped to a canonical one,
+   * returns the canonical value of every conflict field, replaced only where the
+   * connection's rules accept the platform value, for the caller to lay over the
+   * row it built; accepted image lists are written here. Unmapped variants are new
+   * to sssync and get an empty object.
+   */
+  async reconcileIncomingVariant(
+    connection: PlatformConnection,
+    platformProductId: string,
+    platformVariantId: string,
+    reported: Record<string, any>,
+    imageUrls?: string[],
+  ): Promise<Partial<ProductVariant>> {
+    const mapping = await this.mappingsService.getMappingByPlatformIdentifiers(connection.Id, platformProductId, platformVariantId);
+    const canonicalVariant = mapping?.ProductVariantId ? await this.productsService.getVariantById(mapping.ProductVariantId) : null;
+    if (!canonicalVariant) return {};
+
+    const incoming: Record<string, any> = {};
+    const kept: Record<string, any> = {};
+    for (const field of VARIANT_CONFLICT_FIELDS) {
+      for (const [column, key] of Object.entries(field.columns)) {
+        incoming[key] = reported[column];
+        kept[column] = canonicalVariant[column as keyof ProductVariant];
+      }
+    }
+    if (imageUrls) incoming[IMAGE_URLS_KEY] = imageUrls;
+
+    const result = await this.resolveProductConflict(
+      canonicalVariant,
+      incoming,
+      connection.PlatformType,
+      connection.Id,
+      connection.UserId,
+    );
+    if (result.updatedImageUrls) {
+      await this.productsService.replaceVariantImages(canonicalVariant.Id, result.updatedImageUrls);
+    }
+    return { ...kept, ...result.updatedVariant };
+  }
+
+  /**
+   * Compares every reported canonical variant field (see VARIANT_CONFLICT_FIELDS)
+   * and, when `imageUrls` is reported, the variant's image list. Each differing
+   * field becomes a ConflictEvent resolved by the connection's rule for it;
+   * accepted platform values are returned for the caller to apply.
+   */
   async resolveProductConflict(
     canonicalVariant: ProductVariant,
     incomingPlatformData: any,
@@ -114,67 +163,78 @@ export class ConflictResolutionService {
     connectionId: string,
     userId: string,
     platformTimestamp?: string,
-  ): Promise<{ action: string; updatedVariant?: Partial<ProductVariant>; conflicts: ConflictEvent[] }> {
+  ): Promise<{
+    action: string;
+    updatedVariant?: Partial<ProductVariant>;
+    updatedImageUrls?: string[];
+    conflicts: ConflictEvent[];
+  }> {
     const conflicts: ConflictEvent[] = [];
-    let resolvedVariant: Partial<ProductVariant> = {};
+    const resolvedVariant: Partial<ProductVariant> = {};
+    let resolvedImageUrls: string[] | undefined;
     let hasConflicts = false;
 
-    // Get platform behavior rules
-    const platformBehavior = this.getPlatformBehavior(platformType);
     const sssyncTimestamp = canonicalVariant.UpdatedAt;
     const incomingTimestamp = platformTimestamp || new Date().toISOString();
+    const rules = await this.conflictRulesService.getEffectiveRules(userId, connectionId);
+
+    const newConflict = (
+      conflictType: ConflictEvent['conflictType'],
+      sssyncValue: any,
+      platformValue: any,
+      diff: Record<string, any>,
+    ): ConflictEvent => ({
+      entityType: 'variant',
+      entityId: canonicalVariant.Id,
+      conflictType,
+      sssyncValue,
+      platformValue,
+      diff,
+      platformType,
+      platformConnectionId: connectionId,
+      sssyncTimestamp,
+      platformTimestamp: incomingTimestamp,
+      timestamp: new Date().toISOString(),
+      resolved: false,
+    });
 
-    // Check for price conflicts
-    if (incomingPlatformData.price !== undefined && canonicalVariant.Price !== incomingPlatformData.price) {
-      const conflict: ConflictEvent = {
-        entityType: 'variant',
-        entityId: canonicalVariant.Id!,
-        conflictType: 'price_mismatch',
-        sssyncValue: canonicalVariant.Price,
-        platformValue: incomingPlatformData.price,
-        platformType,
-        platformConnectionId: connectionId,
-        sssyncTimestamp,
-        platformTimestamp: incomingTimestamp,
-        timestamp: new Date().toISOString(),
-        resolved: false,
-      };
+    for (const field of VARIANT_CONFLICT_FIELDS) {
+      const fieldDiff = diffVariantField(field, canonicalVariant, incomingPlatformData);
+      if (!fieldDiff) continue;
 
-      const resolution = await this.applyConflictRule(conflict, 'price', sssyncTimestamp, incomingTimestamp);
-      conflict.resolved = true;
+      const conflict = newConflict(field.conflictType, fieldDiff.sssyncValue, fieldDiff.platformValue, fieldDiff.diff);
+      const resolution = this.applyConflictRule(conflict, rules[field.rule], sssyncTimestamp, incomingTimestamp);
+      conflict.resolved = resolution.action !== 'user_review';
       conflict.resolution = resolution;
       conflicts.push(conflict);
 
       if (resolution.action === 'accept_platform') {
-        resolvedVariant.Price = incomingPlatformData.price;
+        for (const [column, key] of Object.entries(field.columns)) {
+          if (incomingPlatformData[key] !== undefined) {
+            (resolvedVariant as Record<string, any>)[column] = incomingPlatformData[key];
+          }
+        }
         hasConflicts = true;
       }
     }
 
-    // Check for title conflicts
-    if (incomingPlatformData.title !== undefined && canonicalVariant.Title !== incomingPlatformData.title) {
-      const conflict: ConflictEvent = {
-        entityType: 'variant',
-        entityId: canonicalVariant.Id!,
-        conflictType: 'title_mismatch',
-        sssyncValue: canonicalVariant.Title,
-        platformValue: incomingPlatformData.title,
-        platformType,
-        platformConnectionId: connectionId,
-        sssyncTimestamp,
-        platformTimestamp: incomingTimestamp,
-        timestamp: new Date().toISOString(),
-        resolved: false,
-      };
-
-      const resolution = await this.applyConflictRule(conflict, 'title', sssyncTimestamp, incomingTimestamp);
-      conflict.resolved = true;
-      conflict.resolution = resolution;
-      conflicts.push(conflict);
-
-      if (resolution.action === 'accept_platform') {
-        resolvedVariant.Title = incomingPlatformData.title;
-        hasConflicts = true;
+    // Check for image list conflicts
+    const incomingImageUrls: string[] | undefined = incomingPlatformData[IMAGE_URLS_KEY];
+    if (Array.isArray(incomingImageUrls)) {
+      const canonicalImageUrls =
+        (await this.productsService.getImageUrlsForVariants([canonicalVariant.Id])).get(canonicalVariant.Id) || [];
+      const imageDiff = diffImageUrls(canonicalImageUrls, incomingImageUrls);
+      if (imageDiff) {
+        const conflict = newConflict('images_mismatch', canonicalImageUrls, incomingImageUrls, imageDiff);
+        const resolution = this.applyConflictRule(conflict, rules.images, sssyncTimestamp, incomingTimestamp);
+        conflict.resolved = resolution.action !== 'user_review';
+        conflict.resolution = resolution;
+        conflicts.push(conflict);
+
+        if (resolution.action === 'accept_platform') {
+          resolvedImageUrls = incomingImageUrls;
+          hasConflicts = true;
+        }
       }
     }
 
@@ -188,7 +248,7 @@ export class ConflictResolutionService {
       await this.activityLogService.logActivity({
         UserId: userId,
         EntityType: 'ConflictResolution',
-        EntityId: canonicalVariant.Id!,
+        EntityId: canonicalVariant.Id,
         EventType: 'CONFLICT_RESOLVED',
         Status: 'Info',
         Message: `Resolved ${conflicts.length} conflicts for variant ${canonicalVariant.Title}`,
@@ -199,7 +259,12 @@ export class ConflictResolutionService {
         },
       });
 
-      return { action: 'update_canonical', updatedVariant: resolvedVariant, conflicts };
+      return {
+        action: 'update_canonical',
+        updatedVariant: resolvedVariant,
+        updatedImageUrls: resolvedImageUrls,
+        conflicts,
+      };
     }
 
     return { action: 'no_conflict', conflicts };
@@ -234,8 +299,9 @@ export class ConflictResolutionService {
       resolved: false,
     };
 
-    const resolution = await this.applyConflictRule(conflict, 'inventory', sssyncTimestamp, incomingTimestamp);
-    conflict.resolved = true;
+    const rules = await this.conflictRulesService.getEffectiveRules(userId, connectionId);
+    const resolution = this.applyConflictRule(conflict, rules.inventory, sssyncTimestamp, incomingTimestamp);
+    conflict.resolved = resolution.action !== 'user_review';
     conflict.resolution = resolution;
 
     await this.storeConflictEvents([conflict], userId);
@@ -268,6 +334,14 @@ export class ConflictResolutionService {
     return { action: 'keep_canonical', shouldDelist, conflict };
   }
 
+  /**
+   * Whether a listing on the given platform should be taken down at this quantity.
+   * Used by adapters for platforms that delist after sale (e.g. facebook, whatnot).
+   */
+  shouldDelistOnPlatform(platformType: string, quantity: number): boolean {
+    return this.shouldDelistProduct(quantity, this.getPlatformBehavior(platformType));
+  }
+
   /**
    * Determines if a product should be delisted based on platform behavior
    */
@@ -298,22 +372,12 @@ export class ConflictResolutionService {
            this.platformBehaviors[0]; // Default to first behavior
   }
 
-  private async applyConflictRule(
+  private applyConflictRule(
     conflict: ConflictEvent,
-    fieldType: string,
+    rule: ConflictResolutionRule,
     sssyncTimestamp: string,
     platformTimestamp: string,
-  ): Promise<{ action: 'keep_sssync' | 'accept_platform' | 'merge' | 'user_review'; appliedValue: any; reason: string }> {
-    const rule = this.defaultRules.find(r => r.applyTo === fieldType || r.applyTo === 'all');
-    
-    if (!rule) {
-      return {
-        action: 'keep_sssync',
-        appliedValue: conflict.sssyncValue,
-        reason: 'No specific rule found, defaulting to sssync SOT',
-      };
-    }
-
+  ): { action: 'keep_sssync' | 'accept_platform' | 'merge' | 'user_review'; appliedValue: any; reason: string } {
     // Check platform exceptions
     if (rule.platformExceptions?.includes(conflict.platformType)) {
       return {
@@ -323,7 +387,20 @@ export class ConflictResolutionService {
       };
     }
 
-    switch (rule.priority) {
+    return this.decideByPriority(conflict, rule.priority, sssyncTimestamp, platformTimestamp);
+  }
+
+  /**
+   * Applies one rule priority to a conflict. Also used by the conflict inbox to
+   * bulk-resolve conflicts that were left for user review.
+   */
+  decideByPriority(
+    conflict: Pick<ConflictEvent, 'sssyncValue' | 'platformValue'>,
+    priority: ConflictResolutionRule['priority'],
+    sssyncTimestamp: string,
+    platformTimestamp: string,
+  ): { action: 'keep_sssync' | 'accept_platform' | 'merge' | 'user_review'; appliedValue: any; reason: string } {
+    switch (priority) {
       case 'sssync_wins':
         return {
           action: 'keep_sssync',
@@ -394,7 +471,8 @@ export class ConflictResolutionService {
   }
 
   private async storeConflictEvents(conflicts: ConflictEvent[], userId: string): Promise<void> {
-    const supabase = this.supabaseService.getClient();
+    // Conflicts are mostly detected while processing webhooks, outside any user session
+    const supabase = this.supabaseService.getServiceClient();
     
     const conflictRecords = conflicts.map(conflict => ({
       UserId: userId,
@@ -403,8 +481,11 @@ export class ConflictResolutionService {
       ConflictType: conflict.conflictType,
       SssyncValue: conflict.sssyncValue,
       PlatformValue: conflict.platformValue,
+      Diff: conflict.diff ?? null,
       PlatformType: conflict.platformType,
       PlatformConnectionId: conflict.platformConnectionId,
+      SssyncTimestamp: conflict.sssyncTimestamp,
+      PlatformTimestamp: conflict.platformTimestamp,
       Resolution: conflict.resolution,
       ResolvedAt: conflict.resolved ? new Date().toISOString() : null,
     }));
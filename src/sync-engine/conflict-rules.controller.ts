@@ -0,0 +1,59 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Request,
+  UseGuards,
+  ParseUUIDPipe,
+  ValidationPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { SupabaseAuthGuard } from '../auth/guards/supabase-auth.guard';
+import { ConflictRulesService } from './conflict-rules.service';
+import { CreateConflictRuleDto, UpdateConflictRuleDto } from './dto/conflict-rule.dto';
+
+@Controller('sync/conflict-rules')
+@UseGuards(SupabaseAuthGuard)
+export class ConflictRulesController {
+  constructor(private readonly conflictRulesService: ConflictRulesService) {}
+
+  @Get()
+  async listRules(@Request() req: any, @Query('connectionId') connectionId?: string) {
+    return this.conflictRulesService.listRules(req.user.id, connectionId);
+  }
+
+  /**
+   * The rule each field resolves to for a connection, and where it comes from
+   * (connection override, user rule or built-in default)
+   */
+  @Get('effective/:connectionId')
+  async getEffectiveRules(@Request() req: any, @Param('connectionId', ParseUUIDPipe) connectionId: string) {
+    return this.conflictRulesService.getEffectiveRules(req.user.id, connectionId);
+  }
+
+  @Post()
+  async createRule(@Request() req: any, @Body(ValidationPipe) dto: CreateConflictRuleDto) {
+    return this.conflictRulesService.createRule(req.user.id, dto);
+  }
+
+  @Patch(':ruleId')
+  async updateRule(
+    @Request() req: any,
+    @Param('ruleId', ParseUUIDPipe) ruleId: string,
+    @Body(ValidationPipe) dto: UpdateConflictRuleDto,
+  ) {
+    return this.conflictRulesService.updateRule(req.user.id, ruleId, dto);
+  }
+
+  @Delete(':ruleId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteRule(@Request() req: any, @Param('ruleId', ParseUUIDPipe) ruleId: string): Promise<void> {
+    await this.conflictRulesService.deleteRule(req.user.id, ruleId);
+  }
+}
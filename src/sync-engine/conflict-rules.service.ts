@@ -0,0 +1,233 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../common/supabase.service';
+import { PlatformConnectionsService } from '../platform-connections/platform-connections.service';
+import { ConflictRuleRecord } from '../common/types/supabase.types';
+import type { ConflictResolutionRule } from './conflict-resolution.service';
+import { ConflictRuleField } from './conflict-fields';
+import { CreateConflictRuleDto, UpdateConflictRuleDto } from './dto/conflict-rule.dto';
+
+export interface EffectiveConflictRule extends ConflictResolutionRule {
+  source: 'connection' | 'user' | 'default';
+  ruleId?: string;
+}
+
+// Used when neither the connection nor the user has a rule - sssync is SOT
+export const DEFAULT_CONFLICT_RULES: ConflictResolutionRule[] = [
+  { priority: 'sssync_wins', applyTo: 'price', platformExceptions: [] },
+  { priority: 'sssync_wins', applyTo: 'title', platformExceptions: [] },
+  { priority: 'sssync_wins', applyTo: 'description', platformExceptions: [] },
+  { priority: 'most_recent', applyTo: 'inventory', platformExceptions: ['shopify', 'square'] }, // Inventory can be more fluid
+];
+
+const RULE_FIELDS: ConflictRuleField[] = [
+  'price',
+  'inventory',
+  'title',
+  'description',
+  'identifiers',
+  'weight',
+  'options',
+  'shipping',
+  'tax',
+  'images',
+];
+// highest_value compares numbers, so it only makes sense for these fields
+const NUMERIC_FIELDS: ConflictRuleRecord['Field'][] = ['price', 'inventory', 'weight', 'all'];
+// Postgres unique_violation, raised for a second rule on the same scope and field
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Conflict rules stored per user, with per-connection overrides. For a given
+ * field the most specific rule wins: the connection's rule for the field, then
+ * its 'all' rule, then the user's rule for the field, its 'all' rule, and
+ * finally DEFAULT_CONFLICT_RULES.
+ */
+@Injectable()
+export class ConflictRulesService {
+  private readonly logger = new Logger(ConflictRulesService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly connectionsService: PlatformConnectionsService,
+  ) {}
+
+  async listRules(userId: string, connectionId?: string): Promise<ConflictRuleRecord[]> {
+    let query = this.supabaseService
+      .getClient()
+      .from('ConflictRules')
+      .select('*')
+      .eq('UserId', userId)
+      .order('CreatedAt', { ascending: true });
+    if (connectionId) query = query.eq('PlatformConnectionId', connectionId);
+
+    const { data, error } = await query;
+    if (error) {
+      this.logger.error(`Failed to list conflict rules for user ${userId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not load conflict rules.');
+    }
+    return (data || []) as ConflictRuleRecord[];
+  }
+
+  async getRule(userId: string, ruleId: string): Promise<ConflictRuleRecord> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('ConflictRules')
+      .select('*')
+      .eq('Id', ruleId)
+      .eq('UserId', userId)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to load conflict rule ${ruleId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not load conflict rule.');
+    }
+    if (!data) {
+      throw new NotFoundException(`Conflict rule ${ruleId} not found.`);
+    }
+    return data as ConflictRuleRecord;
+  }
+
+  async createRule(userId: string, dto: CreateConflictRuleDto): Promise<ConflictRuleRecord> {
+    const connectionId = dto.connectionId ?? null;
+    const exceptions = dto.platformExceptions ?? [];
+    await this.validateRule(userId, connectionId, dto.field, dto.priority, exceptions);
+
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('ConflictRules')
+      .insert({
+        UserId: userId,
+        PlatformConnectionId: connectionId,
+        Field: dto.field,
+        Priority: dto.priority,
+        PlatformExceptions: exceptions,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new ConflictException(
+          `A ${dto.field} rule already exists for ${connectionId ? 'this connection' : 'your account'}.`,
+        );
+      }
+      this.logger.error(`Failed to create conflict rule for user ${userId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not create conflict rule.');
+    }
+    return data as ConflictRuleRecord;
+  }
+
+  async updateRule(userId: string, ruleId: string, dto: UpdateConflictRuleDto): Promise<ConflictRuleRecord> {
+    const existing = await this.getRule(userId, ruleId);
+    const priority = dto.priority ?? existing.Priority;
+    const exceptions = dto.platformExceptions ?? existing.PlatformExceptions;
+    await this.validateRule(userId, existing.PlatformConnectionId, existing.Field, priority, exceptions);
+
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('ConflictRules')
+      .update({ Priority: priority, PlatformExceptions: exceptions, UpdatedAt: new Date().toISOString() })
+      .eq('Id', ruleId)
+      .eq('UserId', userId)
+      .select()
+      .single();
+
+    if (error) {
+      this.logger.error(`Failed to update conflict rule ${ruleId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not update conflict rule.');
+    }
+    return data as ConflictRuleRecord;
+  }
+
+  async deleteRule(userId: string, ruleId: string): Promise<void> {
+    await this.getRule(userId, ruleId);
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('ConflictRules')
+      .delete()
+      .eq('Id', ruleId)
+      .eq('UserId', userId);
+
+    if (error) {
+      this.logger.error(`Failed to delete conflict rule ${ruleId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not delete conflict rule.');
+    }
+  }
+
+  /**
+   * The rule that applies to each field for a connection. Read with the service
+   * client because conflicts are mostly detected while processing webhooks.
+   */
+  async getEffectiveRules(userId: string, connectionId: string): Promise<Record<ConflictRuleField, EffectiveConflictRule>> {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('ConflictRules')
+      .select('*')
+      .eq('UserId', userId)
+      .or(`PlatformConnectionId.is.null,PlatformConnectionId.eq.${connectionId}`);
+
+    let rules: ConflictRuleRecord[] = [];
+    if (error) {
+      // Fall back to the defaults rather than failing the sync
+      this.logger.error(`Failed to load conflict rules for user ${userId}, using defaults: ${error.message}`);
+    } else {
+      rules = (data || []) as ConflictRuleRecord[];
+    }
+
+    const find = (scope: string | null, field: ConflictRuleRecord['Field']) =>
+      rules.find(r => r.PlatformConnectionId === scope && r.Field === field);
+
+    const effective = {} as Record<ConflictRuleField, EffectiveConflictRule>;
+    for (const field of RULE_FIELDS) {
+      const connectionRule = find(connectionId, field) || find(connectionId, 'all');
+      const userRule = find(null, field) || find(null, 'all');
+      const stored = connectionRule || userRule;
+      if (stored) {
+        effective[field] = {
+          priority: stored.Priority,
+          applyTo: field,
+          platformExceptions: stored.PlatformExceptions || [],
+          source: connectionRule ? 'connection' : 'user',
+          ruleId: stored.Id,
+        };
+      } else {
+        const fallback = DEFAULT_CONFLICT_RULES.find(r => r.applyTo === field || r.applyTo === 'all');
+        effective[field] = {
+          priority: fallback?.priority ?? 'sssync_wins',
+          applyTo: field,
+          platformExceptions: fallback?.platformExceptions ?? [],
+          source: 'default',
+        };
+      }
+    }
+    return effective;
+  }
+
+  private async validateRule(
+    userId: string,
+    connectionId: string | null,
+    field: ConflictRuleRecord['Field'],
+    priority: ConflictRuleRecord['Priority'],
+    platformExceptions: string[],
+  ): Promise<void> {
+    if (priority === 'highest_value' && !NUMERIC_FIELDS.includes(field)) {
+      throw new BadRequestException(`highest_value only applies to price, inventory and weight, not ${field}.`);
+    }
+    if (connectionId) {
+      if (platformExceptions.length > 0) {
+        throw new BadRequestException('platformExceptions can only be set on rules that apply to all connections.');
+      }
+      const connection = await this.connectionsService.getConnectionById(connectionId, userId);
+      if (!connection) {
+        throw new NotFoundException(`Connection ${connectionId} not found.`);
+      }
+    }
+  }
+}
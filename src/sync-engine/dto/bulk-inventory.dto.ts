@@ -0,0 +1,58 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { INVENTORY_ADJUSTMENT_REASONS } from '../../canonical-data/inventory.service';
+import { InventoryAdjustmentReason } from '../../common/types/supabase.types';
+
+export const MAX_BULK_INVENTORY_ROWS = 5000;
+
+export class BulkInventoryRowDto {
+  @IsUUID()
+  variantId: string;
+
+  @IsUUID()
+  @IsOptional()
+  connectionId?: string;
+
+  @IsString()
+  @IsOptional()
+  locationId?: string; // Platform location ID
+
+  // One of quantity and delta is required; the controller rejects rows with both
+  @ValidateIf(o => o.delta === undefined)
+  @IsInt()
+  @Min(0)
+  quantity?: number;
+
+  @ValidateIf(o => o.quantity === undefined)
+  @IsInt()
+  delta?: number;
+
+  @IsIn(INVENTORY_ADJUSTMENT_REASONS)
+  @IsOptional()
+  reason?: InventoryAdjustmentReason;
+
+  @IsString()
+  @IsOptional()
+  referenceId?: string;
+}
+
+export class BulkInventoryUpdateDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_BULK_INVENTORY_ROWS)
+  @ValidateNested({ each: true })
+  @Type(() => BulkInventoryRowDto)
+  rows: BulkInventoryRowDto[];
+}
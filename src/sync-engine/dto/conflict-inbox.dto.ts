@@ -0,0 +1,57 @@
+import { ArrayMaxSize, IsArray, IsDefined, IsIn, IsOptional, IsString, IsUUID, MaxLength, ValidateIf } from 'class-validator';
+import { ConflictEventRecord } from '../../common/types/supabase.types';
+import { BulkConflictRule, ConflictResolutionChoice } from '../conflict-inbox.types';
+
+export const CONFLICT_ENTITY_TYPES: ConflictEventRecord['EntityType'][] = ['product', 'variant', 'inventory'];
+export const CONFLICT_TYPES: ConflictEventRecord['ConflictType'][] = [
+  'price_mismatch',
+  'inventory_mismatch',
+  'title_mismatch',
+  'concurrent_update',
+  'description_mismatch',
+  'compare_at_price_mismatch',
+  'sku_mismatch',
+  'barcode_mismatch',
+  'weight_mismatch',
+  'options_mismatch',
+  'shipping_mismatch',
+  'tax_mismatch',
+  'images_mismatch',
+];
+
+export class ResolveConflictDto {
+  @IsIn(['keep_sssync', 'accept_platform', 'custom'])
+  action: ConflictResolutionChoice;
+
+  @ValidateIf(o => o.action === 'custom')
+  @IsDefined({ message: 'value is required for a custom resolution.' })
+  value?: any; // Price, title, quantity, or an object of variant fields for concurrent updates
+
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  reason?: string;
+}
+
+export class BulkResolveConflictsDto {
+  @IsIn(['keep_sssync', 'accept_platform', 'most_recent', 'highest_value'])
+  rule: BulkConflictRule;
+
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsUUID('4', { each: true })
+  @IsOptional()
+  conflictIds?: string[];
+
+  @IsUUID('4')
+  @IsOptional()
+  connectionId?: string;
+
+  @IsIn(CONFLICT_ENTITY_TYPES)
+  @IsOptional()
+  entityType?: ConflictEventRecord['EntityType'];
+
+  @IsIn(CONFLICT_TYPES)
+  @IsOptional()
+  conflictType?: ConflictEventRecord['ConflictType'];
+}
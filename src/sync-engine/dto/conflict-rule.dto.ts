@@ -0,0 +1,56 @@
+import { ArrayMaxSize, IsArray, IsIn, IsOptional, IsString, IsUUID } from 'class-validator';
+import { ConflictRuleRecord } from '../../common/types/supabase.types';
+
+const FIELDS: ConflictRuleRecord['Field'][] = [
+  'price',
+  'inventory',
+  'title',
+  'description',
+  'identifiers',
+  'weight',
+  'options',
+  'shipping',
+  'tax',
+  'images',
+  'all',
+];
+const PRIORITIES: ConflictRuleRecord['Priority'][] = [
+  'sssync_wins',
+  'platform_wins',
+  'most_recent',
+  'highest_value',
+  'user_review',
+];
+const PLATFORM_TYPES = ['shopify', 'square', 'clover', 'ebay', 'facebook', 'whatnot'];
+
+export class CreateConflictRuleDto {
+  @IsUUID('4', { message: 'connectionId must be a valid UUID.' })
+  @IsOptional()
+  connectionId?: string; // Omit for a rule that applies to every connection
+
+  @IsIn(FIELDS)
+  field: ConflictRuleRecord['Field'];
+
+  @IsIn(PRIORITIES)
+  priority: ConflictRuleRecord['Priority'];
+
+  @IsArray()
+  @ArrayMaxSize(PLATFORM_TYPES.length)
+  @IsString({ each: true })
+  @IsIn(PLATFORM_TYPES, { each: true })
+  @IsOptional()
+  platformExceptions?: string[];
+}
+
+export class UpdateConflictRuleDto {
+  @IsIn(PRIORITIES)
+  @IsOptional()
+  priority?: ConflictRuleRecord['Priority'];
+
+  @IsArray()
+  @ArrayMaxSize(PLATFORM_TYPES.length)
+  @IsString({ each: true })
+  @IsIn(PLATFORM_TYPES, { each: true })
+  @IsOptional()
+  platformExceptions?: string[];
+}
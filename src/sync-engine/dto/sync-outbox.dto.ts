@@ -0,0 +1,21 @@
+import { IsISO8601, IsInt, IsOptional, Min } from 'class-validator';
+
+export class ReplaySyncOutboxDto {
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  fromSeq?: number;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  toSeq?: number;
+
+  @IsISO8601()
+  @IsOptional()
+  from?: string;
+
+  @IsISO8601()
+  @IsOptional()
+  to?: string;
+}
@@ -0,0 +1,149 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHash, randomUUID } from 'crypto';
+import { PlatformProductMapping, PlatformProductMappingsService } from '../platform-product-mappings/platform-product-mappings.service';
+
+// A webhook is only taken for our own write if it arrives this soon after the push
+const ECHO_WINDOW_MS = 15 * 60 * 1000;
+// Pushes remembered per mapping (and per location for stock), so an echo that
+// arrives after a newer push is still recognized
+const MAX_REMEMBERED_PUSHES = 5;
+
+/**
+ * The variant fields that every platform hands back unchanged, which makes them
+ * safe to compare. Weight, shipping and tax settings are left out because the
+ * platforms convert them; a change to only those fields within the echo window
+ * of an identical push is treated as an echo.
+ */
+export interface VariantContent {
+  Sku?: string | null;
+  Barcode?: string | null;
+  Title?: string | null;
+  Description?: string | null;
+  Price?: number | string | null;
+  CompareAtPrice?: number | string | null;
+  Options?: Record<string, any> | null;
+}
+
+export interface PushedStateEntry {
+  hash: string;
+  changeSetId: string;
+  at: string;
+}
+
+/** Stored in PlatformProductMappings.PushedState */
+export interface PushedState {
+  variant?: PushedStateEntry[];
+  inventory?: Record<string, PushedStateEntry[]>; // By platform location ID ('default' when none)
+}
+
+/**
+ * Recognizes webhooks caused by sssync's own pushes. Every push gets a change-set
+ * ID, and the content hash of what it wrote is remembered on the mapping; a
+ * webhook whose content hashes to a recent push is dropped instead of being
+ * ingested and propagated again.
+ */
+@Injectable()
+export class EchoSuppressionService {
+  private readonly logger = new Logger(EchoSuppressionService.name);
+
+  constructor(private readonly mappingsService: PlatformProductMappingsService) {}
+
+  newChangeSetId(): string {
+    return randomUUID();
+  }
+
+  variantContentHash(variant: VariantContent): string {
+    const text = (value: string | null | undefined) => (value ?? '').trim() || null;
+    const money = (value: number | string | null | undefined) =>
+      value === null || value === undefined || value === '' ? null : Number(value).toFixed(2);
+    const options = Object.entries(variant.Options || {})
+      .map(([name, value]) => [name.trim().toLowerCase(), String(value).trim()])
+      .sort(([a], [b]) => a.localeCompare(b));
+
+    return this.hash([
+      text(variant.Sku),
+      text(variant.Barcode),
+      text(variant.Title),
+      text(variant.Description),
+      money(variant.Price),
+      money(variant.CompareAtPrice),
+      options,
+    ]);
+  }
+
+  inventoryHash(quantity: number): string {
+    return this.hash([Math.trunc(Number(quantity))]);
+  }
+
+  /**
+   * Remembers the variant content a product push wrote through `mapping`.
+   */
+  async recordVariantPush(mapping: PlatformProductMapping, variant: VariantContent, changeSetId: string): Promise<void> {
+    const state = this.getState(mapping);
+    state.variant = this.remember(state.variant, this.variantContentHash(variant), changeSetId);
+    await this.saveState(mapping, state, changeSetId);
+  }
+
+  /**
+   * Remembers the quantities an inventory push wrote through `mapping`.
+   */
+  async recordInventoryPush(
+    mapping: PlatformProductMapping,
+    levels: Array<{ PlatformLocationId?: string | null; Quantity: number }>,
+    changeSetId: string,
+  ): Promise<void> {
+    const state = this.getState(mapping);
+    const inventory = { ...(state.inventory || {}) };
+    for (const level of levels) {
+      const key = level.PlatformLocationId || 'default';
+      inventory[key] = this.remember(inventory[key], this.inventoryHash(level.Quantity), changeSetId);
+    }
+    state.inventory = inventory;
+    await this.saveState(mapping, state, changeSetId);
+  }
+
+  /**
+   * The recent push that wrote exactly this variant content, if any
+   */
+  findVariantEcho(mapping: PlatformProductMapping, incoming: VariantContent): PushedStateEntry | null {
+    return this.findRecent(this.getState(mapping).variant, this.variantContentHash(incoming));
+  }
+
+  /**
+   * The recent push that set this quantity at this location, if any
+   */
+  findInventoryEcho(mapping: PlatformProductMapping, platformLocationId: string | null | undefined, quantity: number): PushedStateEntry | null {
+    const entries = this.getState(mapping).inventory?.[platformLocationId || 'default'];
+    return this.findRecent(entries, this.inventoryHash(quantity));
+  }
+
+  private getState(mapping: PlatformProductMapping): PushedState {
+    return { ...((mapping.PushedState as PushedState | undefined) || {}) };
+  }
+
+  private remember(entries: PushedStateEntry[] | undefined, hash: string, changeSetId: string): PushedStateEntry[] {
+    const cutoff = Date.now() - ECHO_WINDOW_MS;
+    return [{ hash, changeSetId, at: new Date().toISOString() }, ...(entries || [])]
+      .filter(e => new Date(e.at).getTime() >= cutoff)
+      .slice(0, MAX_REMEMBERED_PUSHES);
+  }
+
+  private findRecent(entries: PushedStateEntry[] | undefined, hash: string): PushedStateEntry | null {
+    const cutoff = Date.now() - ECHO_WINDOW_MS;
+    return (entries || []).find(e => e.hash === hash && new Date(e.at).getTime() >= cutoff) || null;
+  }
+
+  private async saveState(mapping: PlatformProductMapping, state: PushedState, changeSetId: string): Promise<void> {
+    try {
+      await this.mappingsService.updateMapping(mapping.Id, { PushedState: state, LastChangeSetId: changeSetId });
+      mapping.PushedState = state; // Later pushes in the same job see it
+    } catch (error) {
+      // Worst case the echo is ingested like any other webhook
+      this.logger.warn(`Failed to record pushed state for mapping ${mapping.Id}: ${error.message}`);
+    }
+  }
+
+  private hash(value: unknown): string {
+    return createHash('sha256').update(JSON.stringify(value)).digest('hex');
+  }
+}
@@ -2,6 +2,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { Processor, WorkerHost } from '@nestjs/bullmq';
 import { Job } from 'bullmq';
 import { SupabaseService } from '../../common/supabase.service';
+import { runWithChangeSource } from '../../common/change-source.context';
 import { AiGenerationService } from '../../products/ai-generation/ai-generation.service';
 
 export interface BackfillJobData {
@@ -28,6 +29,11 @@ export class BackfillJobProcessor extends WorkerHost {
   }
 
   async process(job: Job<BackfillJobData>) {
+    // Backfilled fields are AI-generated
+    return runWithChangeSource('ai', `backfill:${job.data.jobId}`, () => this.processJob(job));
+  }
+
+  private async processJob(job: Job<BackfillJobData>) {
     const { jobId, connectionId, platformType, jobType, targetFields, platformRequirements, businessTemplate, customPrompt } = job.data;
     
     this.logger.log(`Processing backfill job ${jobId} for ${platformType} connection ${connectionId}`);
@@ -0,0 +1,29 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { Logger } from '@nestjs/common';
+import { BulkInventoryService } from '../bulk-inventory.service';
+import { BULK_INVENTORY_QUEUE } from '../sync-engine.constants';
+import { BulkInventoryJobData, BulkInventoryJobResult } from '../sync-engine.types';
+
+@Processor(BULK_INVENTORY_QUEUE, {
+  concurrency: 2,
+})
+export class BulkInventoryProcessor extends WorkerHost {
+  private readonly logger = new Logger(BulkInventoryProcessor.name);
+
+  constructor(private readonly bulkInventoryService: BulkInventoryService) {
+    super();
+  }
+
+  async process(job: Job<BulkInventoryJobData, BulkInventoryJobResult, string>): Promise<BulkInventoryJobResult> {
+    this.logger.log(`Processing bulk inventory job ${job.id}: ${job.data.rows.length} rows for user ${job.data.userId}`);
+    try {
+      const result = await this.bulkInventoryService.run(job);
+      this.logger.log(`Bulk inventory job ${job.id} done: ${result.pushed} pushed, ${result.pushFailed} not pushed, ${result.rejected} rejected`);
+      return result;
+    } catch (error) {
+      this.logger.error(`Bulk inventory job ${job.id} failed: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { DelayedError, Job } from 'bullmq';
+import { Logger } from '@nestjs/common';
+import { SyncCoordinatorService } from '../sync-coordinator.service';
+import { PushSchedulerService } from '../push-scheduler.service';
+import { CONNECTION_PUSH_QUEUE } from '../sync-engine.constants';
+import { ConnectionPushJobData } from '../sync-engine.types';
+import { PushRateLimitedError, getPushBudget } from '../push-budgets';
+
+// Connections are throttled by their own budgets, so the worker can run many at once
+@Processor(CONNECTION_PUSH_QUEUE, {
+  concurrency: 10,
+})
+export class ConnectionPushProcessor extends WorkerHost {
+  private readonly logger = new Logger(ConnectionPushProcessor.name);
+
+  constructor(
+    private readonly syncCoordinatorService: SyncCoordinatorService,
+    private readonly pushScheduler: PushSchedulerService,
+  ) {
+    super();
+  }
+
+  async process(job: Job<ConnectionPushJobData, any, string>, token?: string): Promise<any> {
+    const { userId, connectionId, platformType, entityId, changeType } = job.data;
+
+    const waitMs = await this.pushScheduler.takeBudget(connectionId, platformType, changeType);
+    if (waitMs > 0) {
+      // Out of budget: wait for it without using up an attempt
+      this.logger.debug(`Connection ${connectionId} is out of ${platformType} budget; delaying job ${job.id} by ${waitMs}ms`);
+      await job.moveToDelayed(Date.now() + waitMs, token);
+      throw new DelayedError();
+    }
+
+    this.logger.log(`Processing job ${job.id}: ${changeType} of ${entityId} to ${platformType} connection ${connectionId}`);
+    try {
+      switch (changeType) {
+        case 'PRODUCT_CREATED':
+          await this.syncCoordinatorService._executeProductCreationPush(entityId, userId, connectionId);
+          break;
+        case 'PRODUCT_UPDATED':
+          await this.syncCoordinatorService._executeProductUpdatePush(entityId, userId, connectionId);
+          break;
+        case 'PRODUCT_DELETED':
+          await this.syncCoordinatorService._executeProductDeletionPush(entityId, userId, connectionId);
+          break;
+        case 'INVENTORY_UPDATED':
+          await this.syncCoordinatorService._executeInventoryUpdatePush(entityId, userId, undefined, connectionId);
+          break;
+        default:
+          throw new Error(`Unknown change type: ${changeType}`);
+      }
+    } catch (error) {
+      if (error instanceof PushRateLimitedError) {
+        await this.pushScheduler.drainBudget(connectionId);
+        const budget = getPushBudget(platformType);
+        const backoffMs = Math.ceil((budget.costs[changeType] / budget.refillPerSecond) * 1000);
+        this.logger.warn(`Connection ${connectionId} was rate limited by ${platformType}; retrying job ${job.id} in ${backoffMs}ms`);
+        await job.moveToDelayed(Date.now() + backoffMs, token);
+        throw new DelayedError();
+      }
+      this.logger.error(`Job ${job.id} failed for ${changeType} of ${entityId} to connection ${connectionId}: ${error.message}`, error.stack);
+      throw error;
+    }
+
+    await this.pushScheduler.recordCompletion(job.data);
+    return { status: 'success', message: `Job ${job.id} processed.` };
+  }
+}
@@ -10,6 +10,7 @@ import { PlatformAdapterRegistry } from '../../platform-adapters/adapter.registr
 import { BaseAdapter } from '../../platform-adapters/base-adapter.interface';
 import { JobData } from '../initial-sync.service';
 import { SupabaseService } from '../../common/supabase.service'; 
+import { runWithChangeSource } from '../../common/change-source.context';
 import { ProductsService as CanonicalProductsService } from '../../canonical-data/products.service';
 import { InventoryService as CanonicalInventoryService, CanonicalInventoryLevel } from '../../canonical-data/inventory.service';
 import { PlatformProductMappingsService } from '../../platform-product-mappings/platform-product-mappings.service';
@@ -41,6 +42,10 @@ export class InitialSyncProcessor extends WorkerHost {
     }
 
     async process(job: Job<JobData, any, string>): Promise<any> {
+        return runWithChangeSource('sync', (job.data as any).platformType, () => this.processJob(job));
+    }
+
+    private async processJob(job: Job<JobData, any, string>): Promise<any> {
         let { connectionId, userId, platformType, confirmedMatches, syncRules, platformSpecificDataSnapshot } = job.data as any;
         this.logger.log(`Processing initial sync for connection ${connectionId} (${platformType}), User: ${userId}, Job ID: ${job.id}. ${confirmedMatches?.length || 0} confirmed matches.`);
 
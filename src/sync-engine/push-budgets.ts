@@ -0,0 +1,69 @@
+import { PushOperationJobData } from './sync-engine.types';
+
+/**
+ * A platform's API budget as a token bucket, and what each kind of push costs.
+ */
+export interface PlatformPushBudget {
+  capacity: number;
+  refillPerSecond: number;
+  costs: Record<PushOperationJobData['changeType'], number>;
+}
+
+// Shopify counts GraphQL cost points (1,000-point bucket restoring 50/s on the
+// standard plan); costs are estimates for the queries and mutations each push
+// makes. The others count requests.
+export const PLATFORM_PUSH_BUDGETS: Record<string, PlatformPushBudget> = {
+  shopify: {
+    capacity: 1000,
+    refillPerSecond: 50,
+    costs: { PRODUCT_CREATED: 250, PRODUCT_UPDATED: 150, PRODUCT_DELETED: 20, INVENTORY_UPDATED: 30 },
+  },
+  square: {
+    capacity: 20,
+    refillPerSecond: 10,
+    costs: { PRODUCT_CREATED: 4, PRODUCT_UPDATED: 3, PRODUCT_DELETED: 1, INVENTORY_UPDATED: 1 },
+  },
+  clover: {
+    capacity: 16,
+    refillPerSecond: 16, // Per access token
+    costs: { PRODUCT_CREATED: 5, PRODUCT_UPDATED: 4, PRODUCT_DELETED: 1, INVENTORY_UPDATED: 1 },
+  },
+  ebay: {
+    capacity: 10,
+    refillPerSecond: 5,
+    costs: { PRODUCT_CREATED: 4, PRODUCT_UPDATED: 3, PRODUCT_DELETED: 2, INVENTORY_UPDATED: 1 },
+  },
+};
+
+export const DEFAULT_PUSH_BUDGET: PlatformPushBudget = {
+  capacity: 10,
+  refillPerSecond: 2,
+  costs: { PRODUCT_CREATED: 4, PRODUCT_UPDATED: 3, PRODUCT_DELETED: 1, INVENTORY_UPDATED: 1 },
+};
+
+export function getPushBudget(platformType: string): PlatformPushBudget {
+  return PLATFORM_PUSH_BUDGETS[platformType?.toLowerCase()] || DEFAULT_PUSH_BUDGET;
+}
+
+/**
+ * True for a platform telling us to slow down (HTTP 429, Shopify THROTTLED)
+ */
+export function isRateLimitError(error: any): boolean {
+  const status = error?.status ?? error?.response?.status ?? error?.statusCode;
+  if (status === 429) return true;
+  return /throttl|rate.?limit|too many requests/i.test(String(error?.message ?? error ?? ''));
+}
+
+/**
+ * Thrown by a per-connection push the platform rate limited, so the scheduler
+ * can wait for the budget instead of spending a retry.
+ */
+export class PushRateLimitedError extends Error {
+  constructor(
+    public readonly connectionId: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'PushRateLimitedError';
+  }
+}
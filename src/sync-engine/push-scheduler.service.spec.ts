@@ -0,0 +1,107 @@
+import RedisMock from 'ioredis-mock';
+import { Queue } from 'bullmq';
+import { Redis } from 'ioredis';
+import { PlatformConnection, PlatformConnectionsService } from '../platform-connections/platform-connections.service';
+import { PushSchedulerService } from './push-scheduler.service';
+import { ConnectionPushJobData } from './sync-engine.types';
+
+describe('PushSchedulerService', () => {
+  let service: PushSchedulerService;
+  let queue: { client: Promise<Redis>; add: jest.Mock; getDeduplicationJobId: jest.Mock; getJob: jest.Mock };
+  let now: number;
+
+  beforeEach(async () => {
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    const redis = new RedisMock();
+    await redis.flushall(); // Instances share one in-memory store
+    queue = {
+      client: Promise.resolve(redis),
+      add: jest.fn().mockResolvedValue(undefined),
+      getDeduplicationJobId: jest.fn().mockResolvedValue(null),
+      getJob: jest.fn().mockResolvedValue(undefined),
+    };
+    service = new PushSchedulerService(queue as unknown as Queue<ConnectionPushJobData>, {} as PlatformConnectionsService);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('budgets', () => {
+    it('runs pushes while the bucket has tokens and then waits for the refill', async () => {
+      // Shopify: 1,000 points restoring 50/s; a create costs 250
+      for (let i = 0; i < 4; i++) {
+        expect(await service.takeBudget('conn-1', 'shopify', 'PRODUCT_CREATED')).toBe(0);
+      }
+
+      expect(await service.takeBudget('conn-1', 'shopify', 'PRODUCT_CREATED')).toBe(5000);
+    });
+
+    it('takes nothing when a push has to wait', async () => {
+      for (let i = 0; i < 4; i++) await service.takeBudget('conn-1', 'shopify', 'PRODUCT_CREATED');
+
+      expect(await service.takeBudget('conn-1', 'shopify', 'PRODUCT_CREATED')).toBe(5000);
+      expect(await service.takeBudget('conn-1', 'shopify', 'INVENTORY_UPDATED')).toBe(600);
+
+      now += 600;
+      expect(await service.takeBudget('conn-1', 'shopify', 'INVENTORY_UPDATED')).toBe(0);
+    });
+
+    it('refills over time but never past capacity', async () => {
+      for (let i = 0; i < 4; i++) await service.takeBudget('conn-1', 'shopify', 'PRODUCT_CREATED');
+
+      now += 60_000;
+      for (let i = 0; i < 4; i++) {
+        expect(await service.takeBudget('conn-1', 'shopify', 'PRODUCT_CREATED')).toBe(0);
+      }
+      expect(await service.takeBudget('conn-1', 'shopify', 'PRODUCT_CREATED')).toBeGreaterThan(0);
+    });
+
+    it('keeps a bucket per connection', async () => {
+      for (let i = 0; i < 4; i++) await service.takeBudget('conn-1', 'shopify', 'PRODUCT_CREATED');
+
+      expect(await service.takeBudget('conn-1', 'shopify', 'PRODUCT_CREATED')).toBeGreaterThan(0);
+      expect(await service.takeBudget('conn-2', 'shopify', 'PRODUCT_CREATED')).toBe(0);
+    });
+
+    it('uses the default budget for platforms without one', async () => {
+      // 10 requests restoring 2/s
+      for (let i = 0; i < 10; i++) {
+        expect(await service.takeBudget('conn-1', 'whatnot', 'INVENTORY_UPDATED')).toBe(0);
+      }
+
+      expect(await service.takeBudget('conn-1', 'whatnot', 'INVENTORY_UPDATED')).toBe(500);
+    });
+
+    it('empties the bucket when the platform rate limits anyway', async () => {
+      expect(await service.takeBudget('conn-1', 'square', 'INVENTORY_UPDATED')).toBe(0);
+
+      await service.drainBudget('conn-1');
+
+      // Square restores 10 requests a second
+      expect(await service.takeBudget('conn-1', 'square', 'INVENTORY_UPDATED')).toBe(100);
+    });
+  });
+
+  describe('schedule', () => {
+    const connection = { Id: 'conn-1', PlatformType: 'shopify' } as PlatformConnection;
+
+    it('queues a delayed push deduplicated per connection, change and entity', async () => {
+      await service.schedule(connection, { userId: 'user-1', entityId: 'product-1', changeType: 'PRODUCT_UPDATED' }, 5000);
+
+      expect(queue.add).toHaveBeenCalledWith(
+        'PRODUCT_UPDATED',
+        expect.objectContaining({ connectionId: 'conn-1', platformType: 'shopify', entityId: 'product-1', requestedAt: 5000 }),
+        expect.objectContaining({ deduplication: expect.objectContaining({ id: 'conn-1:PRODUCT_UPDATED:product-1', replace: true }) }),
+      );
+    });
+
+    it('keeps the earlier request time when coalescing into a waiting push', async () => {
+      queue.getDeduplicationJobId.mockResolvedValue('job-1');
+      queue.getJob.mockResolvedValue({ data: { requestedAt: 1000 } });
+
+      await service.schedule(connection, { userId: 'user-1', entityId: 'product-1', changeType: 'PRODUCT_UPDATED' }, 5000);
+
+      expect(queue.add.mock.calls[0][1].requestedAt).toBe(1000);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { CONNECTION_PUSH_QUEUE } from './sync-engine.constants';
+import { ConnectionPushJobData, ConnectionQueueLag, PushOperationJobData } from './sync-engine.types';
+import { getPushBudget } from './push-budgets';
+import { PlatformConnection, PlatformConnectionsService } from '../platform-connections/platform-connections.service';
+
+// Updates to the same entity and connection within this window become one push
+const COALESCE_WINDOW_MS = 3000;
+const MAX_JOBS_SCANNED_FOR_LAG = 2000;
+
+// Token bucket per connection. Returns 0 when the tokens were taken, otherwise
+// how many ms until enough have refilled (nothing is taken then).
+const TAKE_TOKENS_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill = tonumber(ARGV[2])
+local cost = math.min(tonumber(ARGV[3]), capacity)
+local now = tonumber(ARGV[4])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) / 1000 * refill)
+local wait = 0
+if tokens >= cost then
+  tokens = tokens - cost
+else
+  wait = math.ceil((cost - tokens) / refill * 1000)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / refill * 1000) + 60000)
+return wait
+`;
+
+/**
+ * Schedules pushes per connection. Each connection has its own token bucket
+ * sized to its platform's API budget (see push-budgets.ts), so a busy merchant
+ * only waits on their own budget, and repeated updates to the same entity are
+ * coalesced into one push while they wait.
+ */
+@Injectable()
+export class PushSchedulerService {
+  private readonly logger = new Logger(PushSchedulerService.name);
+
+  constructor(
+    @InjectQueue(CONNECTION_PUSH_QUEUE) private readonly connectionPushQueue: Queue<ConnectionPushJobData>,
+    private readonly connectionsService: PlatformConnectionsService,
+  ) {}
+
+  /**
+   * Queues the push of one change to one connection. A push of the same change
+   * still waiting to start absorbs it, keeping the earlier request time.
+   */
+  async schedule(
+    connection: PlatformConnection,
+    job: Pick<PushOperationJobData, 'userId' | 'entityId' | 'changeType'>,
+    requestedAt = Date.now(),
+  ): Promise<void> {
+    const dedupId = `${connection.Id}:${job.changeType}:${job.entityId}`;
+    const pendingJobId = await this.connectionPushQueue.getDeduplicationJobId(dedupId);
+    const pending = pendingJobId ? await this.connectionPushQueue.getJob(pendingJobId) : undefined;
+
+    await this.connectionPushQueue.add(
+      job.changeType,
+      {
+        userId: job.userId,
+        connectionId: connection.Id,
+        platformType: connection.PlatformType,
+        entityId: job.entityId,
+        changeType: job.changeType,
+        requestedAt: Math.min(pending?.data?.requestedAt ?? requestedAt, requestedAt),
+      },
+      {
+        delay: COALESCE_WINDOW_MS,
+        deduplication: { id: dedupId, ttl: COALESCE_WINDOW_MS, extend: true, replace: true },
+        removeOnComplete: { count: 1000, age: 24 * 60 * 60 },
+      },
+    );
+    this.logger.debug(`Scheduled ${job.changeType} push of ${job.entityId} to connection ${connection.Id}${pending ? ' (coalesced)' : ''}`);
+  }
+
+  /**
+   * Takes the cost of a push from the connection's budget. Returns 0 when it
+   * may run now, otherwise the ms to wait before trying again.
+   */
+  async takeBudget(connectionId: string, platformType: string, changeType: PushOperationJobData['changeType']): Promise<number> {
+    const budget = getPushBudget(platformType);
+    const client = await this.connectionPushQueue.client;
+    const wait = await client.eval(
+      TAKE_TOKENS_SCRIPT,
+      1,
+      this.budgetKey(connectionId),
+      budget.capacity,
+      budget.refillPerSecond,
+      budget.costs[changeType],
+      Date.now(),
+    );
+    return Number(wait) || 0;
+  }
+
+  /**
+   * The platform rate limited us anyway (budget shared with other apps, or a
+   * lower plan limit): empty the bucket so the connection backs off.
+   */
+  async drainBudget(connectionId: string): Promise<void> {
+    const client = await this.connectionPushQueue.client;
+    await client.hset(this.budgetKey(connectionId), 'tokens', '0', 'ts', String(Date.now()));
+  }
+
+  async recordCompletion(job: ConnectionPushJobData): Promise<void> {
+    const client = await this.connectionPushQueue.client;
+    const key = this.lagKey(job.connectionId);
+    await client.hset(key, 'lagMs', String(Date.now() - job.requestedAt), 'at', new Date().toISOString());
+    await client.expire(key, 7 * 24 * 60 * 60);
+  }
+
+  /**
+   * Queue lag for each of the user's connections
+   */
+  async getQueueLag(userId: string): Promise<ConnectionQueueLag[]> {
+    const connections = await this.connectionsService.getConnectionsForUser(userId);
+    const jobs = await this.connectionPushQueue.getJobs(['waiting', 'delayed', 'prioritized', 'active'], 0, MAX_JOBS_SCANNED_FOR_LAG - 1);
+    const client = await this.connectionPushQueue.client;
+    const now = Date.now();
+
+    return Promise.all(
+      connections.map(async connection => {
+        const connectionJobs = jobs.filter(j => j?.data?.connectionId === connection.Id);
+        const states = await Promise.all(connectionJobs.map(j => j.getState()));
+        const pendingJobs = connectionJobs.filter((_, i) => states[i] !== 'active');
+        const oldest = pendingJobs.reduce<number | null>(
+          (min, j) => (min === null || j.data.requestedAt < min ? j.data.requestedAt : min),
+          null,
+        );
+
+        const [lag, bucket] = await Promise.all([
+          client.hgetall(this.lagKey(connection.Id)),
+          client.hmget(this.budgetKey(connection.Id), 'tokens', 'ts'),
+        ]);
+        const budget = getPushBudget(connection.PlatformType);
+        const tokens = bucket[0] === null ? budget.capacity : Number(bucket[0]);
+        const refilled = bucket[1] === null ? 0 : ((now - Number(bucket[1])) / 1000) * budget.refillPerSecond;
+
+        return {
+          connectionId: connection.Id,
+          platformType: connection.PlatformType,
+          displayName: connection.DisplayName ?? null,
+          pending: pendingJobs.length,
+          active: connectionJobs.length - pendingJobs.length,
+          oldestPendingAgeMs: oldest === null ? null : now - oldest,
+          lastPushLagMs: lag?.lagMs ? Number(lag.lagMs) : null,
+          lastPushedAt: lag?.at || null,
+          budget: {
+            available: Math.floor(Math.min(budget.capacity, tokens + refilled)),
+            capacity: budget.capacity,
+            refillPerSecond: budget.refillPerSecond,
+          },
+        };
+      }),
+    );
+  }
+
+  private budgetKey(connectionId: string): string {
+    return `sssync:push-budget:${connectionId}`;
+  }
+
+  private lagKey(connectionId: string): string {
+    return `sssync:push-lag:${connectionId}`;
+  }
+}
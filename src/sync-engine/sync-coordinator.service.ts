@@ -6,11 +6,17 @@ import { PlatformAdapterRegistry } from '../platform-adapters/adapter.registry';
 import { WEBHOOK_PROCESSING_QUEUE, PUSH_OPERATIONS_QUEUE } from './sync-engine.constants'; // Corrected import
 import { ProductsService } from '../canonical-data/products.service';
 import { InventoryService, CanonicalInventoryLevel } from '../canonical-data/inventory.service';
+import { InventoryReservationsService } from '../canonical-data/inventory-reservations.service';
+import { LocationsService } from '../canonical-data/locations.service';
 import { PlatformProductMappingsService, PlatformProductMapping } from '../platform-product-mappings/platform-product-mappings.service';
 import { Product, ProductVariant as SupabaseProductVariant, InventoryLevel as SupabaseInventoryLevel } from '../common/types/supabase.types'; // Renamed to avoid clash
 import { CanonicalProduct, CanonicalProductVariant } from '../platform-adapters/shopify/shopify.mapper'; // Added import
 import { PushOperationJobData } from './sync-engine.types';
 import { ActivityLogService } from '../common/activity-log.service';
+import { runWithChangeSource, runWithSourceConnection } from '../common/change-source.context';
+import { EchoSuppressionService } from './echo-suppression.service';
+import { WebhookIdempotencyService } from './webhook-idempotency.service';
+import { PushRateLimitedError, isRateLimitError } from './push-budgets';
 
 @Injectable()
 export class SyncCoordinatorService {
@@ -24,10 +30,21 @@ export class SyncCoordinatorService {
         private readonly inventoryService: InventoryService,
         private readonly mappingsService: PlatformProductMappingsService,
         private readonly activityLogService: ActivityLogService, 
+        private readonly reservationsService: InventoryReservationsService,
+        private readonly locationsService: LocationsService,
+        private readonly echoSuppression: EchoSuppressionService,
+        private readonly webhookIdempotency: WebhookIdempotencyService,
     ) {}
 
     // Method called by WebhookController or a dedicated WebhookProcessor job
     async handleWebhook(platformType: string, payload: any, headers: Record<string, string>, webhookId?: string, explicitConnectionId?: string): Promise<void> {
+        // Catalog changes made while processing are recorded as coming from the platform
+        return runWithChangeSource('webhook', platformType, () =>
+            this.processWebhook(platformType, payload, headers, webhookId, explicitConnectionId),
+        );
+    }
+
+    private async processWebhook(platformType: string, payload: any, headers: Record<string, string>, webhookId?: string, explicitConnectionId?: string): Promise<void> {
         const logPrefix = webhookId ? `[${webhookId}]` : '';
         this.logger.log(`${logPrefix} Processing webhook for platform: ${platformType}`);
         
@@ -108,6 +125,24 @@ export class SyncCoordinatorService {
                 this.logger.error('Could not determine Square merchant ID from webhook payload or headers.');
                 return;
             }
+        } else if (!connection && platformType === 'ebay') {
+            // eBay Notification API payloads carry the seller's immutable userId (and username) in notification.data
+            const data = payload?.notification?.data || {};
+            const accountIds = [data.userId, data.username, data.sellerId].filter(Boolean);
+            for (const accountId of accountIds) {
+                const connections = await this.connectionService.getConnectionsByPlatformAndAttribute('ebay', 'accountId', accountId);
+                if (connections.length > 0) {
+                    connection = connections[0];
+                    if (connections.length > 1) {
+                        this.logger.warn(`Multiple eBay connections found for account ${accountId}. Using the first one: ${connection.Id}`);
+                    }
+                    break;
+                }
+            }
+            if (!connection) {
+                this.logger.log(`${logPrefix} No eBay connection found for account ${accountIds.join('/') || '[unknown]'} from notification.`);
+                return;
+            }
         }
         // Add more platform identification logic here
 
@@ -121,9 +156,20 @@ export class SyncCoordinatorService {
             return;
         }
 
+        const idempotencyKey = this.webhookIdempotency.idempotencyKey(platformType, connection.Id, payload, headers);
+        if (!(await this.webhookIdempotency.claim(idempotencyKey, connection, webhookId))) {
+            this.logger.log(`${logPrefix} Delivery ${idempotencyKey} was already processed. Skipping duplicate.`);
+            return;
+        }
+
         try {
             this.logger.log(`${logPrefix} Processing webhook for ${platformType}, connection ID ${connection.Id}, User ID ${connection.UserId}`);
-            await adapter.processWebhook(connection, payload, headers, webhookId); // Pass connection, payload, headers, and webhookId
+            // Tagging the connection lets the outbox trigger record the changes for propagation
+            const sourceConnection = connection;
+            await runWithSourceConnection(sourceConnection.Id, () =>
+                adapter.processWebhook(sourceConnection, payload, headers, webhookId),
+            );
+            await this.webhookIdempotency.markProcessed(idempotencyKey);
             
             // Update last sync success for webhook processing
             await this.connectionService.updateLastSyncSuccess(connection.Id, connection.UserId);
@@ -144,6 +190,7 @@ export class SyncCoordinatorService {
             });
         } catch (error) {
             this.logger.error(`${logPrefix} Error processing webhook payload for ${platformType} via adapter (Connection: ${connection.Id}): ${error.message}`, error.stack);
+            await this.webhookIdempotency.release(idempotencyKey);
             
             // Log webhook processing error with user context
             await this.activityLogService.logActivity({
@@ -164,46 +211,50 @@ export class SyncCoordinatorService {
     }
 
     // --- Methods to QUEUE PUSH operations based on Canonical Data Changes ---
-    async handleCanonicalProductCreation(productId: string, userId: string): Promise<void> {
+    // jobId makes the enqueue idempotent: BullMQ ignores a job whose ID it already holds
+    async handleCanonicalProductCreation(productId: string, userId: string, jobId?: string): Promise<void> {
         this.logger.log(`Queueing PRODUCT_CREATED job for ProductID: ${productId}, UserID: ${userId}`);
         await this.pushOperationsQueue.add('product-created', {
             userId,
             entityId: productId,
             changeType: 'PRODUCT_CREATED',
-        });
+        }, jobId ? { jobId } : undefined);
     }
 
-    async handleCanonicalProductUpdate(productId: string, userId: string): Promise<void> {
+    async handleCanonicalProductUpdate(productId: string, userId: string, jobId?: string): Promise<void> {
         this.logger.log(`Queueing PRODUCT_UPDATED job for ProductID: ${productId}, UserID: ${userId}`);
         await this.pushOperationsQueue.add('product-updated', {
             userId,
             entityId: productId,
             changeType: 'PRODUCT_UPDATED',
-        });
+        }, jobId ? { jobId } : undefined);
     }
 
-    async handleCanonicalProductDeletion(productId: string, userId: string): Promise<void> {
+    async handleCanonicalProductDeletion(productId: string, userId: string, jobId?: string): Promise<void> {
         this.logger.log(`Queueing PRODUCT_DELETED job for ProductID: ${productId}, UserID: ${userId}`);
         await this.pushOperationsQueue.add('product-deleted', {
             userId,
             entityId: productId,
             changeType: 'PRODUCT_DELETED',
-        });
+        }, jobId ? { jobId } : undefined);
     }
 
-    async handleCanonicalInventoryUpdate(variantId: string, userId: string): Promise<void> {
+    async handleCanonicalInventoryUpdate(variantId: string, userId: string, excludeConnectionId?: string, jobId?: string): Promise<void> {
         this.logger.log(`Queueing INVENTORY_UPDATED job for VariantID: ${variantId}, UserID: ${userId}`);
         await this.pushOperationsQueue.add('inventory-updated', {
             userId,
             entityId: variantId,
             changeType: 'INVENTORY_UPDATED',
-        });
+            excludeConnectionId,
+        }, jobId ? { jobId } : undefined);
     }
 
 
-    // --- INTERNAL EXECUTION METHODS (Called by PushOperationsProcessor) ---
+    // --- INTERNAL EXECUTION METHODS (Called by ConnectionPushProcessor) ---
+    // With onlyConnectionId the push goes to that connection alone, and a platform
+    // rate limit is thrown as PushRateLimitedError for the scheduler to wait out.
 
-    public async _executeProductCreationPush(productId: string, userId: string): Promise<void> {
+    public async _executeProductCreationPush(productId: string, userId: string, onlyConnectionId?: string): Promise<void> {
         this.logger.log(`Executing push for canonical product creation: ProductID ${productId}, UserID ${userId}`);
         const product: Product | null = await this.productsService.getProductById(productId);
         if (!product) {
@@ -259,6 +310,7 @@ export class SyncCoordinatorService {
 
         const connections = await this.connectionService.getConnectionsForUser(userId);
         for (const connection of connections) {
+            if (onlyConnectionId && connection.Id !== onlyConnectionId) continue;
             if (connection.IsEnabled /* && connection.SyncRules?.pushProductCreate */) {
                 this.logger.log(`Attempting to push product creation to ${connection.PlatformType} for connection ${connection.Id}`);
                 try {
@@ -358,6 +410,9 @@ export class SyncCoordinatorService {
                     }
                     await this.connectionService.updateConnectionData(connection.Id, userId, { LastSyncSuccessAt: new Date().toISOString(), Status: connection.Status });
                 } catch (error) {
+                    if (onlyConnectionId && isRateLimitError(error)) {
+                        throw new PushRateLimitedError(connection.Id, error.message);
+                    }
                     this.logger.error(`Failed to push product creation to ${connection.PlatformType} for connection ${connection.Id}: ${error.message}`, error.stack);
                     await this.connectionService.updateConnectionData(connection.Id, userId, { Status: 'error', LastSyncAttemptAt: new Date().toISOString() });
                     await this.activityLogService.logActivity({
@@ -379,7 +434,7 @@ export class SyncCoordinatorService {
         }
     }
 
-    public async _executeProductUpdatePush(productId: string, userId: string): Promise<void> {
+    public async _executeProductUpdatePush(productId: string, userId: string, onlyConnectionId?: string): Promise<void> {
         this.logger.log(`Executing push for canonical product update: ProductID ${productId}, UserID ${userId}`);
         const product: Product | null = await this.productsService.getProductById(productId);
         if (!product) {
@@ -423,6 +478,7 @@ export class SyncCoordinatorService {
 
         const connections = await this.connectionService.getConnectionsForUser(userId);
         for (const connection of connections) {
+            if (onlyConnectionId && connection.Id !== onlyConnectionId) continue;
             if (connection.IsEnabled /* && connection.SyncRules?.pushProductUpdate */) {
                 let existingMapping: PlatformProductMapping | null = null;
                 if (supabaseVariants.length > 0 && supabaseVariants[0].Id) {
@@ -489,8 +545,15 @@ export class SyncCoordinatorService {
                             supabaseVariants.some(v => v.Id === il.ProductVariantId)
                         );
 
-                    await adapter.updateProduct(connection, existingMapping, canonicalProductForAdapter, canonicalVariantsForAdapter, relevantInventoryLevelsForAdapter);
-                    this.logger.log(`Product update pushed to ${connection.PlatformType} for product mapping ${existingMapping.Id}`);
+                    const changeSetId = this.echoSuppression.newChangeSetId();
+                    const pushResult = await adapter.updateProduct(connection, existingMapping, canonicalProductForAdapter, canonicalVariantsForAdapter, relevantInventoryLevelsForAdapter);
+                    this.logger.log(`Product update pushed to ${connection.PlatformType} for product mapping ${existingMapping.Id} (change set ${changeSetId})`);
+                    if (onlyConnectionId && pushResult?.errors?.some(e => isRateLimitError(e))) {
+                        throw new PushRateLimitedError(connection.Id, pushResult.errors.join('; '));
+                    }
+                    if (!pushResult?.errors?.length) {
+                        await this.recordVariantPushes(productId, connection.Id, supabaseVariants, changeSetId);
+                    }
                     await this.mappingsService.updateMapping(existingMapping.Id, {
                         LastSyncedAt: new Date().toISOString(),
                         SyncStatus: 'Success',
@@ -506,11 +569,15 @@ export class SyncCoordinatorService {
                         Details: {
                             platform: connection.PlatformType,
                             connectionId: connection.Id,
-                            mappingId: existingMapping.Id
+                            mappingId: existingMapping.Id,
+                            changeSetId,
                         }
                     });
                      await this.connectionService.updateConnectionData(connection.Id, userId, { LastSyncSuccessAt: new Date().toISOString(), Status: connection.Status });
                 } catch (error) {
+                    if (onlyConnectionId && isRateLimitError(error)) {
+                        throw new PushRateLimitedError(connection.Id, error.message);
+                    }
                     this.logger.error(`Failed to push product update to ${connection.PlatformType} for mapping ${existingMapping.Id}: ${error.message}`, error.stack);
                     await this.mappingsService.updateMapping(existingMapping.Id, {
                         LastSyncedAt: new Date().toISOString(),
@@ -538,7 +605,7 @@ export class SyncCoordinatorService {
         }
     }
 
-    public async _executeProductDeletionPush(productId: string, userId: string): Promise<void> {
+    public async _executeProductDeletionPush(productId: string, userId: string, onlyConnectionId?: string): Promise<void> {
         this.logger.log(`Executing push for canonical product deletion: ProductID ${productId}, UserID ${userId}`);
         const product = await this.productsService.getProductById(productId); 
         if (!product) {
@@ -568,6 +635,7 @@ export class SyncCoordinatorService {
 
         const connections = await this.connectionService.getConnectionsForUser(userId);
         for (const connection of connections) {
+            if (onlyConnectionId && connection.Id !== onlyConnectionId) continue;
             if (connection.IsEnabled /* && connection.SyncRules?.pushProductDelete */) {
                 const mappings = await this.mappingsService.getMappingsByProductIdAndConnection(productId, connection.Id);
                 if (mappings.length === 0) {
@@ -597,6 +665,9 @@ export class SyncCoordinatorService {
                         });
                          await this.connectionService.updateConnectionData(connection.Id, userId, { LastSyncSuccessAt: new Date().toISOString(), Status: connection.Status });
                     } catch (error) {
+                        if (onlyConnectionId && isRateLimitError(error)) {
+                            throw new PushRateLimitedError(connection.Id, error.message);
+                        }
                         this.logger.error(`Failed to push product deletion to ${connection.PlatformType} for mapping ${mapping.Id}: ${error.message}`, error.stack);
                         await this.activityLogService.logActivity({
                             UserId: userId,
@@ -622,7 +693,7 @@ export class SyncCoordinatorService {
         }
     }
 
-    public async _executeInventoryUpdatePush(variantId: string, userId: string): Promise<void> {
+    public async _executeInventoryUpdatePush(variantId: string, userId: string, excludeConnectionId?: string, onlyConnectionId?: string): Promise<void> {
         this.logger.log(`Executing push for canonical inventory update: VariantID ${variantId}, UserID ${userId}`);
         const variant: SupabaseProductVariant | null = await this.productsService.getVariantById(variantId); 
 
@@ -667,23 +738,68 @@ export class SyncCoordinatorService {
         
         const connections = await this.connectionService.getConnectionsForUser(userId);
         for (const connection of connections) {
+            if (connection.Id === excludeConnectionId) continue; // Source platform already reflects this change
+            if (onlyConnectionId && connection.Id !== onlyConnectionId) continue;
             if (connection.IsEnabled /* && connection.SyncRules?.pushInventoryUpdate */) {
                 const mapping = await this.mappingsService.getMappingsByVariantIdAndConnection(variantId, connection.Id);
                 if (mapping && mapping.PlatformVariantId) { 
+                    let claimedLevelIds: string[] = [];
                     try {
                         const adapter = this.adapterRegistry.getAdapter(connection.PlatformType);
                         this.logger.log(`Pushing inventory update to ${connection.PlatformType} for connection ${connection.Id}, mapping ${mapping.Id}`);
                         
+                        // A channel with allocation rules is offered the stock of its locations instead of its own
+                        const allocation = this.locationsService.allocate(
+                            await this.locationsService.getAllocationRules(connection.Id),
+                            supabaseInventoryLevels,
+                            connection.Id,
+                        );
+                        // Units reserved by another channel (e.g. a Whatnot live show) are held back from this one
+                        let heldQuantity = await this.reservationsService.getHeldQuantity(variant.Id, connection.Id);
+                        const notAsRecorded = heldQuantity > 0 || allocation !== null;
                         const inventoryUpdatesForAdapter: Array<{ mapping: PlatformProductMapping; level: CanonicalInventoryLevel }> = canonicalInventoryLevels 
                             .filter(il => il.PlatformConnectionId === connection.Id && il.ProductVariantId === variant.Id)
-                            .map(il => ({
-                                mapping: mapping, 
-                                level: il,      
-                            }));
+                            .map(il => {
+                                const quantity = allocation?.get(il.Id!) ?? il.Quantity;
+                                const held = Math.min(heldQuantity, Math.max(0, quantity));
+                                heldQuantity -= held;
+                                return {
+                                    mapping: mapping, 
+                                    level: quantity - held !== il.Quantity ? { ...il, Quantity: quantity - held } : il,      
+                                };
+                            });
 
                         if (inventoryUpdatesForAdapter.length > 0) {
-                            await adapter.updateInventoryLevels(connection, inventoryUpdatesForAdapter);
-                            this.logger.log(`Inventory update pushed to ${connection.PlatformType} for mapping ${mapping.Id}`);
+                            // Send the ledger changes not yet on this platform as deltas where it can
+                            // apply them, so its own sales since our last push are kept
+                            claimedLevelIds = inventoryUpdatesForAdapter.map(u => u.level.Id).filter((id): id is string => !!id);
+                            const claims = new Map((await this.inventoryService.claimInventoryPush(claimedLevelIds)).map(c => [c.levelId, c]));
+                            const deltaPush = !!adapter.adjustInventoryLevels && !notAsRecorded &&
+                                inventoryUpdatesForAdapter.every(u => u.level.Id && claims.has(u.level.Id) && !claims.get(u.level.Id)!.requiresSet);
+                            const adjustments = deltaPush
+                                ? inventoryUpdatesForAdapter
+                                    .map(u => ({ ...u, delta: claims.get(u.level.Id!)!.delta, reason: claims.get(u.level.Id!)!.reason }))
+                                    .filter(a => a.delta !== 0)
+                                : [];
+                            if (deltaPush && adjustments.length === 0) {
+                                this.logger.log(`Inventory for variant ${variantId} on connection ${connection.Id} has no unpushed changes. Skipping push.`);
+                                continue;
+                            }
+
+                            const changeSetId = this.echoSuppression.newChangeSetId();
+                            const pushed = deltaPush ? adjustments : inventoryUpdatesForAdapter;
+                            const pushResult = deltaPush
+                                ? await adapter.adjustInventoryLevels!(connection, adjustments)
+                                : await adapter.updateInventoryLevels(connection, inventoryUpdatesForAdapter);
+                            this.logger.log(`Inventory ${deltaPush ? 'adjustment' : 'update'} pushed to ${connection.PlatformType} for mapping ${mapping.Id} (change set ${changeSetId})`);
+                            if (!pushResult?.failureCount) {
+                                await this.echoSuppression.recordInventoryPush(mapping, pushed.map(u => u.level), changeSetId);
+                            }
+                            // Levels the platform did not take, or got other than recorded, are sent whole next time
+                            const resyncLevelIds = notAsRecorded
+                                ? claimedLevelIds
+                                : pushed.filter((u, i) => pushResult?.results?.[i]?.success === false).map(u => u.level.Id!);
+                            await this.inventoryService.requireInventoryResync(resyncLevelIds);
                             await this.mappingsService.updateMapping(mapping.Id, {
                                 LastSyncedAt: new Date().toISOString(),
                                 SyncStatus: 'Success',
@@ -700,7 +816,8 @@ export class SyncCoordinatorService {
                                     platform: connection.PlatformType,
                                     connectionId: connection.Id,
                                     mappingId: mapping.Id,
-                                    levelsPushed: inventoryUpdatesForAdapter.length
+                                    levelsPushed: inventoryUpdatesForAdapter.length,
+                                    changeSetId,
                                 }
                             });
                             await this.connectionService.updateConnectionData(connection.Id, userId, { LastSyncSuccessAt: new Date().toISOString(), Status: connection.Status });
@@ -708,6 +825,10 @@ export class SyncCoordinatorService {
                             this.logger.log(`No specific inventory levels for variant ${variantId} on connection ${connection.Id} to push. Mapping ${mapping.Id} exists.`);
                         }
                     } catch (error) {
+                        await this.inventoryService.requireInventoryResync(claimedLevelIds);
+                        if (onlyConnectionId && isRateLimitError(error)) {
+                            throw new PushRateLimitedError(connection.Id, error.message);
+                        }
                         this.logger.error(`Failed to push inventory update to ${connection.PlatformType} for mapping ${mapping.Id}: ${error.message}`, error.stack);
                         await this.mappingsService.updateMapping(mapping.Id, {
                             LastSyncedAt: new Date().toISOString(),
@@ -749,4 +870,15 @@ export class SyncCoordinatorService {
             }
         }
     }
-} 
\ No newline at end of file
+
+    // Remembers what a product push wrote through each variant mapping, so the platform's webhook for it is recognized as an echo
+    private async recordVariantPushes(productId: string, connectionId: string, variants: SupabaseProductVariant[], changeSetId: string): Promise<void> {
+        const mappings = await this.mappingsService.getMappingsByProductIdAndConnection(productId, connectionId);
+        for (const mapping of mappings) {
+            const variant = variants.find(v => v.Id === mapping.ProductVariantId);
+            if (variant) {
+                await this.echoSuppression.recordVariantPush(mapping, variant, changeSetId);
+            }
+        }
+    }
+}
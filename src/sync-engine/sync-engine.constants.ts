@@ -3,3 +3,5 @@ export const INITIAL_SYNC_QUEUE = 'initial-sync';
 export const WEBHOOK_PROCESSING_QUEUE = 'webhook-processing';
 export const RECONCILIATION_QUEUE = 'reconciliation';
 export const PUSH_OPERATIONS_QUEUE = 'push-operations';
+export const CONNECTION_PUSH_QUEUE = 'connection-push';
+export const BULK_INVENTORY_QUEUE = 'bulk-inventory';
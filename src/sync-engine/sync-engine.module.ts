@@ -16,8 +16,19 @@ import { WebhookController } from './webhook.controller';
 import { SyncController } from './sync.controller';
 import { RealtimeSyncController } from './realtime-sync.controller';
 import { WebhookTestController } from './webhook-test.controller';
+import { ConflictInboxController } from './conflict-inbox.controller';
+import { ConflictInboxService } from './conflict-inbox.service';
+import { ConflictRulesController } from './conflict-rules.controller';
+import { SyncOutboxController } from './sync-outbox.controller';
+import { SyncOutboxService } from './sync-outbox.service';
+import { WebhookIdempotencyService } from './webhook-idempotency.service';
+import { PushSchedulerService } from './push-scheduler.service';
+import { BulkInventoryService } from './bulk-inventory.service';
+import { BulkInventoryController } from './bulk-inventory.controller';
 import { ReconciliationProcessor } from './processors/reconciliation.processor';
 import { PushOperationsProcessor } from './processors/push-operations.processor';
+import { ConnectionPushProcessor } from './processors/connection-push.processor';
+import { BulkInventoryProcessor } from './processors/bulk-inventory.processor';
 import { InitialScanProcessor } from './processors/initial-scan.processor';
 import { InitialSyncProcessor } from './processors/initial-sync.processor';
 import { ProductsModule } from '../products/products.module';
@@ -29,6 +40,8 @@ import { QueueManagerService } from '../queue-manager.service';
 import { 
     RECONCILIATION_QUEUE,
     PUSH_OPERATIONS_QUEUE,
+    CONNECTION_PUSH_QUEUE,
+    BULK_INVENTORY_QUEUE,
     INITIAL_SCAN_QUEUE,
     INITIAL_SYNC_QUEUE,
 } from './sync-engine.constants';
@@ -74,11 +87,13 @@ import {
     BullModule.registerQueue(
       { name: RECONCILIATION_QUEUE },
       { name: PUSH_OPERATIONS_QUEUE },
+      { name: CONNECTION_PUSH_QUEUE },
+      { name: BULK_INVENTORY_QUEUE },
       { name: INITIAL_SCAN_QUEUE },
       { name: INITIAL_SYNC_QUEUE }
     ),
   ],
-  controllers: [SyncController, WebhookController, RealtimeSyncController, WebhookTestController],
+  controllers: [SyncController, WebhookController, RealtimeSyncController, WebhookTestController, ConflictInboxController, ConflictRulesController, SyncOutboxController, BulkInventoryController],
   providers: [
     MappingService,
     InitialSyncService,
@@ -87,8 +102,15 @@ import {
     SyncEventListenersService,
     WebhookRegistrationService,
     RealtimeSyncService,
+    ConflictInboxService,
+    SyncOutboxService,
+    WebhookIdempotencyService,
+    PushSchedulerService,
+    BulkInventoryService,
     ReconciliationProcessor,
     PushOperationsProcessor,
+    ConnectionPushProcessor,
+    BulkInventoryProcessor,
     InitialScanProcessor,
     InitialSyncProcessor,
     UltraLowQueueService,
@@ -104,6 +126,10 @@ import {
     SyncEventListenersService,
     WebhookRegistrationService,
     RealtimeSyncService,
+    ConflictInboxService,
+    SyncOutboxService,
+    WebhookIdempotencyService,
+    PushSchedulerService,
     InitialScanProcessor,
     InitialSyncProcessor,
     UltraLowQueueService,
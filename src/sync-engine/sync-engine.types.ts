@@ -1,6 +1,77 @@
+import { InventoryAdjustmentReason } from '../common/types/supabase.types';
+
 export interface PushOperationJobData {
   userId: string;
   entityId: string; // productId for product changes, variantId for inventory changes
   changeType: 'PRODUCT_CREATED' | 'PRODUCT_UPDATED' | 'PRODUCT_DELETED' | 'INVENTORY_UPDATED';
+  excludeConnectionId?: string; // Source connection of the change; it already has the new state
   // Optional: Add any other relevant data that the processor might need directly
-} 
\ No newline at end of file
+} 
+
+/**
+ * One push of one entity to one connection. PushOperationsProcessor fans each
+ * PushOperationJobData out into these; ConnectionPushProcessor runs them within
+ * the connection's rate budget.
+ */
+export interface ConnectionPushJobData {
+  userId: string;
+  connectionId: string;
+  platformType: string;
+  entityId: string;
+  changeType: PushOperationJobData['changeType'];
+  requestedAt: number; // When the change was first queued (ms), for lag reporting
+}
+
+export interface ConnectionQueueLag {
+  connectionId: string;
+  platformType: string;
+  displayName: string | null;
+  pending: number; // Waiting or delayed (coalescing, or out of budget)
+  active: number;
+  oldestPendingAgeMs: number | null;
+  lastPushLagMs: number | null; // From change to completed push, for the latest push
+  lastPushedAt: string | null;
+  budget: { available: number; capacity: number; refillPerSecond: number };
+}
+
+/**
+ * One row of a bulk inventory update: sets (quantity) or adjusts (delta) the
+ * variant's stock at one platform location. connectionId and locationId may be
+ * left out when the variant has only one level that matches the rest.
+ */
+export interface BulkInventoryRow {
+  variantId: string;
+  connectionId?: string;
+  locationId?: string; // Platform location ID
+  quantity?: number;
+  delta?: number;
+  reason?: InventoryAdjustmentReason; // Ledger reason, 'recount' by default
+  referenceId?: string;
+}
+
+export interface BulkInventoryJobData {
+  userId: string;
+  rows: BulkInventoryRow[];
+}
+
+export interface BulkInventoryRowResult {
+  index: number; // Position in the submitted rows
+  variantId: string;
+  connectionId: string | null;
+  locationId: string | null;
+  previousQuantity: number | null;
+  quantity: number | null;
+  // rejected: nothing was changed; push_failed: saved in sssync but not on the platform;
+  // queued: left to the connection's push queue (its allocation rules apply)
+  status: 'pushed' | 'queued' | 'push_failed' | 'rejected';
+  error?: string;
+}
+
+export interface BulkInventoryJobResult {
+  total: number;
+  pushed: number;
+  queued: number;
+  pushFailed: number;
+  rejected: number;
+  results: BulkInventoryRowResult[];
+}
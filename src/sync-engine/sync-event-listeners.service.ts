@@ -15,8 +15,18 @@ export class SyncEventListenersService {
     private readonly activityLogService: ActivityLogService,
   ) {}
 
+  // Only reached when the outbox write failed; see SyncEventsService
   @OnEvent('product.sync')
   async handleProductSync(event: ProductSyncEvent): Promise<void> {
+    await this.propagateProductSync(event).catch(() => undefined); // Already logged
+  }
+
+  /**
+   * Queues the push of a product change to every other connection. Throws (after
+   * logging) when the push could not be queued, so the outbox relay retries it.
+   * `jobId` makes a repeated delivery of the same event a no-op in the queue.
+   */
+  async propagateProductSync(event: ProductSyncEvent, jobId?: string): Promise<void> {
     const logPrefix = event.webhookId ? `[${event.webhookId}]` : '';
     this.logger.log(`${logPrefix} Handling product sync event: ${event.type} for product ${event.productId} from ${event.sourcePlatform}`);
 
@@ -39,13 +49,13 @@ export class SyncEventListenersService {
       // Queue the appropriate sync operation based on event type
       switch (event.type) {
         case 'PRODUCT_CREATED':
-          await this.syncCoordinator.handleCanonicalProductCreation(event.productId, event.userId);
+          await this.syncCoordinator.handleCanonicalProductCreation(event.productId, event.userId, jobId);
           break;
         case 'PRODUCT_UPDATED':
-          await this.syncCoordinator.handleCanonicalProductUpdate(event.productId, event.userId);
+          await this.syncCoordinator.handleCanonicalProductUpdate(event.productId, event.userId, jobId);
           break;
         case 'PRODUCT_DELETED':
-          await this.syncCoordinator.handleCanonicalProductDeletion(event.productId, event.userId);
+          await this.syncCoordinator.handleCanonicalProductDeletion(event.productId, event.userId, jobId);
           break;
       }
 
@@ -83,11 +93,21 @@ export class SyncEventListenersService {
           webhookId: event.webhookId,
         }
       });
+      throw error;
     }
   }
 
+  // Only reached when the outbox write failed; see SyncEventsService
   @OnEvent('inventory.sync')
   async handleInventorySync(event: InventorySyncEvent): Promise<void> {
+    await this.propagateInventorySync(event).catch(() => undefined); // Already logged
+  }
+
+  /**
+   * Queues the push of a variant's stock to every other connection. Throws like
+   * propagateProductSync.
+   */
+  async propagateInventorySync(event: InventorySyncEvent, jobId?: string): Promise<void> {
     const logPrefix = event.webhookId ? `[${event.webhookId}]` : '';
     this.logger.log(`${logPrefix} Handling inventory sync event for variant ${event.variantId} from ${event.sourcePlatform}`);
 
@@ -108,7 +128,7 @@ export class SyncEventListenersService {
       this.logger.log(`${logPrefix} Triggering cross-platform inventory sync to ${targetConnections.length} platforms for variant ${event.variantId}`);
 
       // Queue inventory update
-      await this.syncCoordinator.handleCanonicalInventoryUpdate(event.variantId, event.userId);
+      await this.syncCoordinator.handleCanonicalInventoryUpdate(event.variantId, event.userId, event.sourceConnectionId, jobId);
 
       // Log successful cross-platform inventory propagation
       await this.activityLogService.logActivity({
@@ -146,6 +166,7 @@ export class SyncEventListenersService {
           webhookId: event.webhookId,
         }
       });
+      throw error;
     }
   }
 
@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { SupabaseService } from '../common/supabase.service';
 
 export interface ProductSyncEvent {
   type: 'PRODUCT_CREATED' | 'PRODUCT_UPDATED' | 'PRODUCT_DELETED';
@@ -22,18 +23,36 @@ export interface InventorySyncEvent {
   webhookId?: string;
 }
 
+export interface OrderSyncEvent {
+  type: 'ORDER_RECEIVED';
+  platformOrderId: string;
+  userId: string;
+  sourceConnectionId: string;
+  sourcePlatform: string;
+  payload?: any; // Full order when the webhook carries it (Shopify); otherwise it is fetched
+  webhookId?: string;
+}
+
+/**
+ * Product and inventory sync events go through the SyncOutbox table, so they
+ * survive a restart; SyncOutboxService.relayPending, run from the TasksService
+ * cron, delivers them. Order and monitoring events stay in-process.
+ */
 @Injectable()
 export class SyncEventsService {
   private readonly logger = new Logger(SyncEventsService.name);
 
-  constructor(private eventEmitter: EventEmitter2) {}
+  constructor(
+    private eventEmitter: EventEmitter2,
+    private readonly supabaseService: SupabaseService,
+  ) {}
 
   /**
    * Emit a product sync event that will trigger cross-platform propagation
    */
   emitProductSyncEvent(event: ProductSyncEvent): void {
     this.logger.log(`Emitting product sync event: ${event.type} for product ${event.productId} from ${event.sourcePlatform}`);
-    this.eventEmitter.emit('product.sync', event);
+    void this.enqueue('product.sync', event.type, event.productId, event);
   }
 
   /**
@@ -41,7 +60,15 @@ export class SyncEventsService {
    */
   emitInventorySyncEvent(event: InventorySyncEvent): void {
     this.logger.log(`Emitting inventory sync event: ${event.type} for variant ${event.variantId} from ${event.sourcePlatform}`);
-    this.eventEmitter.emit('inventory.sync', event);
+    void this.enqueue('inventory.sync', event.type, event.variantId, event);
+  }
+
+  /**
+   * Emit an order event so the order is ingested and its sale propagated to other platforms
+   */
+  emitOrderSyncEvent(event: OrderSyncEvent): void {
+    this.logger.log(`Emitting order sync event: ${event.type} for order ${event.platformOrderId} from ${event.sourcePlatform}`);
+    this.eventEmitter.emit('order.sync', event);
   }
 
   /**
@@ -76,4 +103,30 @@ export class SyncEventsService {
     this.logger.warn(`Emitting sync error event: ${data.type} for ${data.platform} - ${data.error}`);
     this.eventEmitter.emit('sync.error', data);
   }
-} 
\ No newline at end of file
+
+  /**
+   * Writes the event to the outbox. If that fails it is emitted in-process
+   * instead, which is no worse than before the outbox existed.
+   */
+  private async enqueue(
+    eventName: 'product.sync' | 'inventory.sync',
+    eventType: ProductSyncEvent['type'] | InventorySyncEvent['type'],
+    entityId: string,
+    event: ProductSyncEvent | InventorySyncEvent,
+  ): Promise<void> {
+    try {
+      const { error } = await this.supabaseService.getServiceClient().rpc('enqueue_sync_event', {
+        p_user_id: event.userId,
+        p_event_type: eventType,
+        p_entity_id: entityId,
+        p_source_connection_id: event.sourceConnectionId || null,
+        p_source_platform: event.sourcePlatform,
+        p_payload: event,
+      });
+      if (error) throw new Error(error.message);
+    } catch (error) {
+      this.logger.error(`Failed to write ${eventType} for ${entityId} to the sync outbox, emitting in-process: ${error.message}`);
+      this.eventEmitter.emit(eventName, event);
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  Request,
+  UseGuards,
+  ValidationPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { SupabaseAuthGuard } from '../auth/guards/supabase-auth.guard';
+import { SyncOutboxService } from './sync-outbox.service';
+import { SyncOutboxRecord } from '../common/types/supabase.types';
+import { ReplaySyncOutboxDto } from './dto/sync-outbox.dto';
+
+const OUTBOX_STATUSES: SyncOutboxRecord['Status'][] = ['pending', 'processing', 'published', 'failed', 'superseded'];
+
+@Controller('sync/outbox')
+@UseGuards(SupabaseAuthGuard)
+export class SyncOutboxController {
+  constructor(private readonly syncOutboxService: SyncOutboxService) {}
+
+  /**
+   * Cross-platform sync events, newest first, filterable by ?status
+   */
+  @Get()
+  async listEvents(
+    @Request() req: any,
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    if (status && !OUTBOX_STATUSES.includes(status as SyncOutboxRecord['Status'])) {
+      throw new BadRequestException(`status must be one of: ${OUTBOX_STATUSES.join(', ')}`);
+    }
+    return this.syncOutboxService.listEvents(req.user.id, {
+      status: status as SyncOutboxRecord['Status'] | undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  /**
+   * Deliver the events in a Seq and/or CreatedAt range again
+   */
+  @Post('replay')
+  async replay(@Request() req: any, @Body(ValidationPipe) dto: ReplaySyncOutboxDto) {
+    return this.syncOutboxService.replay(req.user.id, dto);
+  }
+}
@@ -0,0 +1,236 @@
+import { Injectable, Logger, BadRequestException, InternalServerErrorException } from '@nestjs/common';
+import { SupabaseService } from '../common/supabase.service';
+import { ActivityLogService } from '../common/activity-log.service';
+import { SyncOutboxRecord } from '../common/types/supabase.types';
+import { SyncEventListenersService } from './sync-event-listeners.service';
+import { InventorySyncEvent, ProductSyncEvent } from './sync-events.service';
+
+const BATCH_SIZE = 50;
+const MAX_BATCHES_PER_RUN = 10;
+const LEASE_SECONDS = 120;
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export interface SyncOutboxFilters {
+  status?: SyncOutboxRecord['Status'];
+  limit?: number;
+  offset?: number;
+}
+
+export interface SyncOutboxReplayRange {
+  fromSeq?: number;
+  toSeq?: number;
+  from?: string; // ISO timestamps, on CreatedAt
+  to?: string;
+}
+
+/**
+ * Relays SyncOutbox rows (see the sync-outbox migration) to the push queue and
+ * replays ranges of them. Delivery is at-least-once: a row is only marked
+ * published after its push job is queued, and the job ID is derived from the
+ * row so a redelivery after a crash does not queue the push twice.
+ */
+@Injectable()
+export class SyncOutboxService {
+  private readonly logger = new Logger(SyncOutboxService.name);
+  private relaying = false;
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly activityLogService: ActivityLogService,
+    private readonly syncEventListeners: SyncEventListenersService,
+  ) {}
+
+  /**
+   * Claims due rows batch by batch and hands each to the sync event listeners.
+   * Returns how many events were published.
+   */
+  async relayPending(): Promise<number> {
+    if (this.relaying) return 0; // Previous run still going
+    this.relaying = true;
+    let published = 0;
+    try {
+      for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+        const rows = await this.claimBatch();
+        if (rows.length === 0) break;
+
+        // A product created by the same webhook is pushed whole, so its updates add nothing
+        const creations = new Set(
+          rows.filter(r => r.EventType === 'PRODUCT_CREATED').map(r => `${r.EntityId}:${r.SourceConnectionId}`),
+        );
+        for (const row of rows) {
+          if (row.EventType === 'PRODUCT_UPDATED' && creations.has(`${row.EntityId}:${row.SourceConnectionId}`)) {
+            await this.finish(row, 'superseded');
+            continue;
+          }
+          if (await this.deliver(row)) published++;
+        }
+        if (rows.length < BATCH_SIZE) break;
+      }
+    } finally {
+      this.relaying = false;
+    }
+    return published;
+  }
+
+  async listEvents(userId: string, filters: SyncOutboxFilters = {}): Promise<{ events: SyncOutboxRecord[]; total: number }> {
+    const limit = Math.min(Math.max(filters.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(filters.offset ?? 0, 0);
+
+    let query = this.supabaseService
+      .getClient()
+      .from('SyncOutbox')
+      .select('*', { count: 'exact' })
+      .eq('UserId', userId)
+      .order('Seq', { ascending: false })
+      .range(offset, offset + limit - 1);
+    if (filters.status) query = query.eq('Status', filters.status);
+
+    const { data, error, count } = await query;
+    if (error) {
+      this.logger.error(`Failed to list sync outbox for user ${userId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not load sync events.');
+    }
+    return { events: (data || []) as SyncOutboxRecord[], total: count ?? 0 };
+  }
+
+  /**
+   * Puts the user's delivered or failed events in a Seq and/or time range back in
+   * the outbox, e.g. after restoring the push queue from a backup. Only the latest
+   * event per entity and source is replayed, since pushes send current state.
+   */
+  async replay(userId: string, range: SyncOutboxReplayRange): Promise<{ replayed: number }> {
+    if (range.fromSeq === undefined && range.toSeq === undefined && !range.from && !range.to) {
+      throw new BadRequestException('Give at least one of fromSeq, toSeq, from or to.');
+    }
+    if (range.fromSeq !== undefined && range.toSeq !== undefined && range.fromSeq > range.toSeq) {
+      throw new BadRequestException('fromSeq must not be after toSeq.');
+    }
+    if (range.from && range.to && new Date(range.from) > new Date(range.to)) {
+      throw new BadRequestException('from must not be after to.');
+    }
+
+    const { data, error } = await this.supabaseService.getServiceClient().rpc('replay_sync_outbox', {
+      p_user_id: userId,
+      p_from_seq: range.fromSeq ?? null,
+      p_to_seq: range.toSeq ?? null,
+      p_from_time: range.from ?? null,
+      p_to_time: range.to ?? null,
+    });
+    if (error) {
+      this.logger.error(`Failed to replay sync outbox for user ${userId}: ${error.message}`);
+      throw new InternalServerErrorException('Could not replay sync events.');
+    }
+
+    const replayed = (data as number) ?? 0;
+    await this.activityLogService.logActivity({
+      UserId: userId,
+      EntityType: 'Sync',
+      EntityId: userId,
+      EventType: 'SYNC_OUTBOX_REPLAYED',
+      Status: 'Success',
+      Message: `Replayed ${replayed} sync events`,
+      Details: { ...range, replayed },
+    });
+
+    if (replayed > 0) {
+      void this.relayPending().catch(err => this.logger.error(`Relay after replay failed: ${err.message}`));
+    }
+    return { replayed };
+  }
+
+  private async claimBatch(): Promise<SyncOutboxRecord[]> {
+    const { data, error } = await this.supabaseService.getServiceClient().rpc('claim_sync_outbox', {
+      p_limit: BATCH_SIZE,
+      p_lease_seconds: LEASE_SECONDS,
+    });
+    if (error) {
+      this.logger.error(`Failed to claim sync outbox rows: ${error.message}`);
+      return [];
+    }
+    return (data || []) as SyncOutboxRecord[];
+  }
+
+  private async deliver(row: SyncOutboxRecord): Promise<boolean> {
+    const jobId = `outbox-${row.Seq}-${row.Replays}`;
+    const sourceConnectionId = row.SourceConnectionId ?? '';
+    const sourcePlatform = row.SourcePlatform ?? 'sssync';
+    try {
+      if (row.EventType === 'INVENTORY_UPDATED') {
+        const event: InventorySyncEvent = {
+          type: row.EventType,
+          variantId: row.EntityId,
+          userId: row.UserId,
+          sourceConnectionId,
+          sourcePlatform,
+          locationId: row.Payload?.locationId,
+          newQuantity: row.Payload?.newQuantity,
+          webhookId: row.Payload?.webhookId,
+        };
+        await this.syncEventListeners.propagateInventorySync(event, jobId);
+      } else {
+        const event: ProductSyncEvent = {
+          type: row.EventType,
+          productId: row.EntityId,
+          userId: row.UserId,
+          sourceConnectionId,
+          sourcePlatform,
+          platformProductId: row.Payload?.platformProductId,
+          webhookId: row.Payload?.webhookId,
+        };
+        await this.syncEventListeners.propagateProductSync(event, jobId);
+      }
+      await this.finish(row, 'published');
+      return true;
+    } catch (error) {
+      await this.retryLater(row, error.message);
+      return false;
+    }
+  }
+
+  private async finish(row: SyncOutboxRecord, status: 'published' | 'superseded'): Promise<void> {
+    const { error } = await this.supabaseService
+      .getServiceClient()
+      .from('SyncOutbox')
+      .update({ Status: status, PublishedAt: new Date().toISOString(), LockedUntil: null, LastError: null })
+      .eq('Seq', row.Seq)
+      .eq('Status', 'processing');
+    if (error) {
+      // The lease runs out and the row is delivered again; the job ID keeps that harmless
+      this.logger.error(`Failed to mark sync outbox row ${row.Seq} ${status}: ${error.message}`);
+    }
+  }
+
+  private async retryLater(row: SyncOutboxRecord, reason: string): Promise<void> {
+    const giveUp = row.Attempts >= MAX_ATTEMPTS;
+    const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (row.Attempts - 1), MAX_RETRY_DELAY_MS);
+    const supabase = this.supabaseService.getServiceClient();
+
+    const { error } = await supabase
+      .from('SyncOutbox')
+      .update({
+        Status: giveUp ? 'failed' : 'pending',
+        AvailableAt: new Date(Date.now() + delay).toISOString(),
+        LockedUntil: null,
+        LastError: reason.slice(0, 1000),
+      })
+      .eq('Seq', row.Seq)
+      .eq('Status', 'processing');
+
+    if (error?.code === '23505') {
+      // A newer event for the same entity is already pending and will carry this change
+      await this.finish(row, 'superseded');
+      return;
+    }
+    if (error) {
+      this.logger.error(`Failed to reschedule sync outbox row ${row.Seq}: ${error.message}`);
+      return;
+    }
+    if (giveUp) {
+      this.logger.error(`Sync outbox row ${row.Seq} (${row.EventType} ${row.EntityId}) failed after ${row.Attempts} attempts: ${reason}`);
+    }
+  }
+}
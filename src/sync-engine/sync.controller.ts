@@ -4,6 +4,8 @@ import { MappingSuggestion } from './mapping.service'; // <<< Import from mappin
 import { SupabaseAuthGuard } from '../auth/guards/supabase-auth.guard'; // Check path
 import { ConfirmMappingsDto } from './dto/confirm-mappings.dto'; // Check path
 import { PlatformConnectionsService, PlatformConnection } from '../platform-connections/platform-connections.service'; // Added PlatformConnectionsService
+import { PushSchedulerService } from './push-scheduler.service';
+import { ConnectionQueueLag } from './sync-engine.types';
 
 @UseGuards(SupabaseAuthGuard)
 @Controller('sync')
@@ -13,6 +15,7 @@ export class SyncController {
     constructor(
         private readonly initialSyncService: InitialSyncService,
         private readonly platformConnectionsService: PlatformConnectionsService, // Injected PlatformConnectionsService
+        private readonly pushScheduler: PushSchedulerService,
     ) {}
 
     @Post('connections/:connectionId/start-scan')
@@ -101,6 +104,15 @@ export class SyncController {
       return this.initialSyncService.getJobProgress(jobId);
     }
 
+    /**
+     * Push queue lag per connection: pending pushes, age of the oldest, how long
+     * the last push waited, and the connection's remaining API budget.
+     */
+    @Get('push-queue/lag')
+    async getPushQueueLag(@Request() req): Promise<ConnectionQueueLag[]> {
+      return this.pushScheduler.getQueueLag(req.user.id);
+    }
+
   // --- Draft mappings: allow saving and restoring in-progress review state ---
   @Get('connections/:connectionId/draft-mappings')
   async getDraftMappings(
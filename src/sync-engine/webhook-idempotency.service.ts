@@ -0,0 +1,117 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { SupabaseService } from '../common/supabase.service';
+import { PlatformConnection } from '../platform-connections/platform-connections.service';
+
+// A claim older than this belongs to a process that died mid-webhook
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+/**
+ * Makes webhook processing idempotent: platforms retry and sometimes double-send
+ * deliveries, and each one is claimed in ProcessedWebhooks by its event ID
+ * before it runs.
+ */
+@Injectable()
+export class WebhookIdempotencyService {
+  private readonly logger = new Logger(WebhookIdempotencyService.name);
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  /**
+   * The platform's own event ID where it sends one, otherwise a hash of the
+   * payload (retries resend the same body).
+   */
+  idempotencyKey(platformType: string, connectionId: string, payload: any, headers: Record<string, string>): string {
+    let eventId: string | undefined;
+    switch (platformType) {
+      case 'shopify':
+        eventId = headers['x-shopify-event-id'] || headers['x-shopify-webhook-id'];
+        break;
+      case 'square':
+        eventId = payload?.event_id;
+        break;
+      case 'ebay':
+        eventId = payload?.notification?.notificationId;
+        break;
+    }
+    if (!eventId) {
+      eventId = `sha256:${createHash('sha256').update(JSON.stringify(payload ?? null)).digest('hex')}`;
+    }
+    return `${connectionId}:${eventId}`;
+  }
+
+  /**
+   * Returns false when the delivery was already processed or is being processed.
+   * Fails open: if the bookkeeping is unavailable the webhook is processed.
+   */
+  async claim(key: string, connection: PlatformConnection, webhookId?: string): Promise<boolean> {
+    const supabase = this.supabaseService.getServiceClient();
+    const { error } = await supabase.from('ProcessedWebhooks').insert({
+      IdempotencyKey: key,
+      PlatformConnectionId: connection.Id,
+      PlatformType: connection.PlatformType,
+      WebhookId: webhookId ?? null,
+    });
+    if (!error) return true;
+    if (error.code !== '23505') {
+      this.logger.warn(`Could not record webhook delivery ${key}, processing anyway: ${error.message}`);
+      return true;
+    }
+
+    // Take over a claim whose process died before finishing
+    const { data, error: takeoverError } = await supabase
+      .from('ProcessedWebhooks')
+      .update({ CreatedAt: new Date().toISOString(), WebhookId: webhookId ?? null })
+      .eq('IdempotencyKey', key)
+      .eq('Status', 'processing')
+      .lt('CreatedAt', new Date(Date.now() - STALE_CLAIM_MS).toISOString())
+      .select('IdempotencyKey');
+    if (takeoverError) {
+      this.logger.warn(`Could not take over webhook delivery ${key}: ${takeoverError.message}`);
+      return false;
+    }
+    return (data || []).length > 0;
+  }
+
+  async markProcessed(key: string): Promise<void> {
+    const { error } = await this.supabaseService
+      .getServiceClient()
+      .from('ProcessedWebhooks')
+      .update({ Status: 'processed', ProcessedAt: new Date().toISOString() })
+      .eq('IdempotencyKey', key);
+    if (error) {
+      this.logger.warn(`Failed to mark webhook delivery ${key} processed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Forgets a delivery that failed, so the platform's retry is processed.
+   */
+  async release(key: string): Promise<void> {
+    const { error } = await this.supabaseService
+      .getServiceClient()
+      .from('ProcessedWebhooks')
+      .delete()
+      .eq('IdempotencyKey', key)
+      .eq('Status', 'processing');
+    if (error) {
+      this.logger.warn(`Failed to release webhook delivery ${key}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Drops delivery records older than the platforms' retry windows.
+   */
+  async prune(olderThanDays = 7): Promise<number> {
+    const { count, error } = await this.supabaseService
+      .getServiceClient()
+      .from('ProcessedWebhooks')
+      .delete({ count: 'exact' })
+      .lt('CreatedAt', new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000).toISOString());
+    if (error) {
+      this.logger.error(`Failed to prune processed webhooks: ${error.message}`);
+      return 0;
+    }
+    return count ?? 0;
+  }
+}
@@ -23,8 +23,8 @@ export class WebhookRegistrationService {
     'products/update', 
     'products/delete',
     'inventory_levels/update',
+    'orders/create',
     // You can add more topics as needed:
-    // 'orders/create',
     // 'orders/updated', 
     // 'orders/cancelled',
   ];
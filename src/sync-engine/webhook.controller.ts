@@ -1,6 +1,8 @@
 import {
   Controller,
+  Get,
   Post,
+  Query,
   Param,
   Req,
   Res,
@@ -18,6 +20,7 @@ import { Response, Request } from 'express';
 import { SyncCoordinatorService } from './sync-coordinator.service';
 import { ConfigService } from '@nestjs/config';
 import { ActivityLogService } from '../common/activity-log.service';
+import { EbayApiClient } from '../platform-adapters/ebay/ebay-api-client.service';
 import * as crypto from 'crypto';
 
 @Controller('webhook')
@@ -28,8 +31,50 @@ export class WebhookController {
     private syncCoordinator: SyncCoordinatorService,
     private configService: ConfigService,
     private activityLogService: ActivityLogService,
+    private ebayApiClient: EbayApiClient,
   ) {}
 
+  /**
+   * eBay endpoint validation: when a notification destination is registered (and
+   * periodically afterwards) eBay sends GET ?challenge_code=... and expects
+   * SHA-256(challengeCode + verificationToken + endpoint) back as hex.
+   */
+  @Get(':platform')
+  async handleWebhookChallenge(
+    @Param('platform') platform: string,
+    @Query('challenge_code') challengeCode: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    if (platform.toLowerCase() !== 'ebay' || !challengeCode) {
+      res.status(HttpStatus.BAD_REQUEST).json({
+        error: 'Bad Request',
+        message: `Challenge not supported for platform ${platform}`,
+      });
+      return;
+    }
+
+    const verificationToken = this.configService.get<string>('EBAY_NOTIFICATION_VERIFICATION_TOKEN');
+    const endpoint = this.configService.get<string>('EBAY_NOTIFICATION_ENDPOINT');
+    if (!verificationToken || !endpoint) {
+      this.logger.error('EBAY_NOTIFICATION_VERIFICATION_TOKEN or EBAY_NOTIFICATION_ENDPOINT not configured - cannot answer eBay challenge');
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+        error: 'Internal Server Error',
+        message: 'eBay notifications not configured',
+      });
+      return;
+    }
+
+    const challengeResponse = crypto
+      .createHash('sha256')
+      .update(challengeCode)
+      .update(verificationToken)
+      .update(endpoint)
+      .digest('hex');
+
+    this.logger.log('Answered eBay notification endpoint challenge');
+    res.status(HttpStatus.OK).json({ challengeResponse });
+  }
+
   @Post(':platform')
   @HttpCode(HttpStatus.OK)
   async handlePlatformWebhook(
@@ -81,6 +126,12 @@ export class WebhookController {
           shopIdentifier = squareResult.merchantIdentifier;
           break;
 
+        case 'ebay':
+          const ebayResult = await this.validateEbayWebhook(rawBody, headers, webhookId);
+          validatedPayload = ebayResult.payload;
+          shopIdentifier = ebayResult.accountIdentifier;
+          break;
+
         default:
           this.logger.warn(`[${webhookId}] Unsupported platform: ${platform}`);
           res.status(HttpStatus.BAD_REQUEST).json({
@@ -192,6 +243,17 @@ export class WebhookController {
           shopIdentifier = merchantIdentifier;
           break;
         }
+        case 'ebay': {
+          const { payload, accountIdentifier } = await this.validateEbayWebhook(rawBody, headers, webhookId);
+          validatedPayload = payload;
+          shopIdentifier = accountIdentifier;
+          break;
+        }
+        case 'whatnot': {
+          // Whatnot payloads don't identify the seller, so only the connection-scoped route accepts them
+          validatedPayload = this.validateWhatnotWebhook(rawBody, headers, webhookId);
+          break;
+        }
         default:
           res.status(HttpStatus.BAD_REQUEST).json({ error: 'Bad Request', message: `Platform ${platform} not supported`, webhookId });
           return;
@@ -342,6 +404,68 @@ export class WebhookController {
     }
   }
 
+  private async validateEbayWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string>,
+    webhookId: string,
+  ): Promise<{ payload: any; accountIdentifier: string | null }> {
+    const ebaySignature = headers['x-ebay-signature'];
+    if (!ebaySignature) {
+      throw new UnauthorizedException('eBay signature missing');
+    }
+
+    if (!(await this.ebayApiClient.verifyNotificationSignature(rawBody, ebaySignature))) {
+      this.logger.error(`[${webhookId}] eBay signature verification failed`);
+      throw new UnauthorizedException('Invalid eBay signature');
+    }
+
+    try {
+      const payload = JSON.parse(rawBody.toString('utf8'));
+      const data = payload?.notification?.data || {};
+      const accountId = data.userId || data.username || null;
+
+      this.logger.log(`[${webhookId}] eBay notification verified - Topic: ${payload?.metadata?.topic}, Account: ${accountId}`);
+
+      return {
+        payload,
+        accountIdentifier: accountId,
+      };
+    } catch (error) {
+      throw new BadRequestException('Invalid eBay notification payload');
+    }
+  }
+
+  private validateWhatnotWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string>,
+    webhookId: string,
+  ): any {
+    const signature = headers['x-whatnot-signature'];
+    const secret = this.configService.get<string>('WHATNOT_WEBHOOK_SECRET');
+    if (secret) {
+      if (!signature) {
+        throw new UnauthorizedException('Whatnot signature missing');
+      }
+      const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+      const valid = expected.length === signature.length &&
+        crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+      if (!valid) {
+        this.logger.error(`[${webhookId}] Whatnot signature verification failed`);
+        throw new UnauthorizedException('Invalid Whatnot signature');
+      }
+    } else {
+      this.logger.warn(`[${webhookId}] WHATNOT_WEBHOOK_SECRET not configured - accepting unsigned Whatnot webhook`);
+    }
+
+    try {
+      const payload = JSON.parse(rawBody.toString('utf8'));
+      this.logger.log(`[${webhookId}] Whatnot webhook validated - Event: ${payload?.type || payload?.event}`);
+      return payload;
+    } catch (error) {
+      throw new BadRequestException('Invalid Whatnot webhook payload');
+    }
+  }
+
   private verifyShopifyWebhook(rawBody: Buffer, hmacHeader: string): boolean {
     const shopifySecret = this.configService.get<string>('SHOPIFY_API_SECRET');
     if (!shopifySecret) {
@@ -383,6 +507,8 @@ export class WebhookController {
     delete sanitized['x-shopify-hmac-sha256'];
     delete sanitized['x-square-signature'];
     delete sanitized['x-square-hmacsha256-signature'];
+    delete sanitized['x-ebay-signature'];
+    delete sanitized['x-whatnot-signature'];
     return sanitized;
   }
 }
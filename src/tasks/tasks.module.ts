@@ -6,6 +6,8 @@ import { ManualTasksService } from './manual-tasks.service';
 import { TasksController } from './tasks.controller';
 import { CommonModule } from '../common/common.module';
 import { EmbeddingModule } from '../embedding/embedding.module';
+import { OrdersModule } from '../orders/orders.module';
+import { ProductsModule } from '../products/products.module';
 
 @Module({
   imports: [
@@ -13,6 +15,8 @@ import { EmbeddingModule } from '../embedding/embedding.module';
     SyncEngineModule,
     CommonModule,
     EmbeddingModule,
+    OrdersModule,
+    ProductsModule,
   ],
   providers: [TasksService, ManualTasksService],
   controllers: [TasksController],
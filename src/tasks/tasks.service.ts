@@ -5,6 +5,11 @@ import { PlatformConnectionsService } from '../platform-connections/platform-con
 import { InitialSyncService } from '../sync-engine/initial-sync.service'; // For queueReconciliationJob
 import { QueueManagerService } from '../queue-manager.service';
 import { SupabaseService } from '../common/supabase.service';
+import { WhatnotShowService } from '../platform-adapters/whatnot/whatnot-show.service';
+import { OrderIngestionService } from '../orders/order-ingestion.service';
+import { SyncOutboxService } from '../sync-engine/sync-outbox.service';
+import { WebhookIdempotencyService } from '../sync-engine/webhook-idempotency.service';
+import { OrchestratorSessionsService } from '../products/orchestrator-sessions.service';
 
 @Injectable()
 export class TasksService {
@@ -16,6 +21,11 @@ export class TasksService {
         private readonly initialSyncService: InitialSyncService,
         private readonly queueManagerService: QueueManagerService,
         private readonly supabaseService: SupabaseService,
+        private readonly whatnotShowService: WhatnotShowService,
+        private readonly orderIngestionService: OrderIngestionService,
+        private readonly syncOutboxService: SyncOutboxService,
+        private readonly webhookIdempotencyService: WebhookIdempotencyService,
+        private readonly orchestratorSessionsService: OrchestratorSessionsService,
     ) {}
 
     // Example: Run once a day at 3 AM server time
@@ -64,6 +74,75 @@ export class TasksService {
         }
     }
 
+    // Deliver cross-platform sync events from the SyncOutbox table to the push queue
+    @Cron('*/5 * * * * *', { name: 'relaySyncOutbox' })
+    async relaySyncOutbox() {
+        try {
+            const enabled = this.configService.get<string>('OUTBOX_RELAY_ENABLED');
+            if (enabled && enabled.toLowerCase() === 'false') {
+                this.logger.debug('[CRON - relaySyncOutbox] Disabled via OUTBOX_RELAY_ENABLED=false');
+                return;
+            }
+            const published = await this.syncOutboxService.relayPending();
+            if (published > 0) {
+                this.logger.log(`[CRON - relaySyncOutbox] Published ${published} sync events`);
+            }
+        } catch (error) {
+            this.logger.error(`[CRON - relaySyncOutbox] Error relaying sync events: ${error.message}`, error.stack);
+        }
+    }
+
+    // Webhook delivery records only matter within the platforms' retry windows
+    @Cron(CronExpression.EVERY_DAY_AT_4AM, { name: 'pruneProcessedWebhooks' })
+    async pruneProcessedWebhooks() {
+        try {
+            const pruned = await this.webhookIdempotencyService.prune();
+            this.logger.log(`[CRON - pruneProcessedWebhooks] Pruned ${pruned} webhook delivery records`);
+        } catch (error) {
+            this.logger.error(`[CRON - pruneProcessedWebhooks] Error pruning webhook deliveries: ${error.message}`, error.stack);
+        }
+    }
+
+    @Cron(CronExpression.EVERY_HOUR, { name: 'purgeExpiredOrchestratorSessions' })
+    async purgeExpiredOrchestratorSessions() {
+        try {
+            const purged = await this.orchestratorSessionsService.purgeExpired();
+            if (purged > 0) {
+                this.logger.log(`[CRON - purgeExpiredOrchestratorSessions] Purged ${purged} expired orchestrator sessions`);
+            }
+        } catch (error) {
+            this.logger.error(`[CRON - purgeExpiredOrchestratorSessions] Error purging orchestrator sessions: ${error.message}`, error.stack);
+        }
+    }
+
+    // Release or settle show reservations whose Whatnot show ended without a webhook reaching us
+    @Cron(CronExpression.EVERY_10_MINUTES, { name: 'completeEndedWhatnotShows' })
+    async completeEndedWhatnotShows() {
+        try {
+            const completed = await this.whatnotShowService.completeOverdueShows();
+            if (completed > 0) {
+                this.logger.log(`[CRON - completeEndedWhatnotShows] Completed ${completed} ended Whatnot shows`);
+            }
+        } catch (error) {
+            this.logger.error(`[CRON - completeEndedWhatnotShows] Error completing Whatnot shows: ${error.message}`, error.stack);
+        }
+    }
+
+    // Fallback for order webhooks that never arrived (Shopify, Square, Clover)
+    @Cron('0 */15 * * * *', { name: 'pollPlatformOrders' })
+    async pollPlatformOrders() {
+        try {
+            const enabled = this.configService.get<string>('ORDER_POLL_ENABLED');
+            if (enabled && enabled.toLowerCase() === 'false') {
+                this.logger.debug('[CRON - pollPlatformOrders] Disabled via ORDER_POLL_ENABLED=false');
+                return;
+            }
+            await this.orderIngestionService.pollAllConnections();
+        } catch (error) {
+            this.logger.error(`[CRON - pollPlatformOrders] Error polling platform orders: ${error.message}`, error.stack);
+        }
+    }
+
     // Add more scheduled tasks here if needed
 
     // Nightly job: compute linear reweighting for reranker post-adjustment